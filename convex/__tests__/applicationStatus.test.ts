@@ -0,0 +1,150 @@
+/**
+ * Tests for the application status transition graph
+ */
+
+import { ConvexError } from "convex/values";
+import {
+  APPLICATION_STATUSES,
+  assertStatusTransition,
+  canTransition,
+  isTerminalStatus,
+  nextStatuses,
+  type StatusTransitionErrorData,
+} from "../applicationStatus";
+
+function transitionError(
+  run: () => void,
+): StatusTransitionErrorData | undefined {
+  try {
+    run();
+  } catch (error) {
+    if (error instanceof ConvexError) {
+      return error.data as StatusTransitionErrorData;
+    }
+    throw error;
+  }
+  return undefined;
+}
+
+describe("Application status transitions", () => {
+  describe("canTransition", () => {
+    it("follows the hiring path for employers", () => {
+      expect(canTransition("submitted", "viewed", "employer")).toBe(true);
+      expect(canTransition("viewed", "shortlisted", "employer")).toBe(true);
+      expect(
+        canTransition("shortlisted", "interview_requested", "employer"),
+      ).toBe(true);
+      expect(canTransition("interview_requested", "hired", "employer")).toBe(
+        true,
+      );
+      expect(canTransition("assigned", "closed", "employer")).toBe(true);
+    });
+
+    it("only invites shortlisted candidates to interview", () => {
+      expect(
+        canTransition("submitted", "interview_requested", "employer"),
+      ).toBe(false);
+      expect(
+        canTransition("in_review", "interview_requested", "employer"),
+      ).toBe(false);
+    });
+
+    it("limits candidates to withdrawing", () => {
+      expect(canTransition("submitted", "withdrawn", "candidate")).toBe(true);
+      expect(canTransition("submitted", "shortlisted", "candidate")).toBe(
+        false,
+      );
+      expect(canTransition("submitted", "withdrawn", "employer")).toBe(false);
+    });
+
+    it("lets the system make any move the graph allows", () => {
+      expect(canTransition("shortlisted", "withdrawn", "system")).toBe(true);
+      expect(canTransition("hired", "withdrawn", "system")).toBe(false);
+    });
+
+    it("never leaves a terminal status", () => {
+      for (const from of [
+        "hired",
+        "rejected",
+        "withdrawn",
+        "closed",
+      ] as const) {
+        expect(isTerminalStatus(from)).toBe(true);
+        for (const to of APPLICATION_STATUSES) {
+          expect(canTransition(from, to, "system")).toBe(false);
+        }
+      }
+    });
+  });
+
+  describe("nextStatuses", () => {
+    it("filters the graph by actor", () => {
+      expect(nextStatuses("interview_requested", "candidate")).toEqual([
+        "withdrawn",
+      ]);
+      expect(nextStatuses("interview_requested", "employer")).toEqual([
+        "shortlisted",
+        "hired",
+        "assigned",
+        "rejected",
+      ]);
+    });
+  });
+
+  describe("assertStatusTransition", () => {
+    it("accepts legal moves", () => {
+      expect(() =>
+        assertStatusTransition("viewed", "rejected", "employer"),
+      ).not.toThrow();
+    });
+
+    it("rejects moves missing from the graph", () => {
+      expect(
+        transitionError(() =>
+          assertStatusTransition("submitted", "hired", "employer"),
+        ),
+      ).toEqual({
+        code: "INVALID_STATUS_TRANSITION",
+        from: "submitted",
+        to: "hired",
+        message: "Application cannot move from submitted to hired.",
+      });
+    });
+
+    it("explains that terminal statuses are final", () => {
+      expect(
+        transitionError(() =>
+          assertStatusTransition("rejected", "shortlisted", "employer"),
+        )?.message,
+      ).toBe("Application is already rejected and can no longer change.");
+    });
+
+    it("rejects moves the actor may not make", () => {
+      expect(
+        transitionError(() =>
+          assertStatusTransition("shortlisted", "hired", "candidate"),
+        ),
+      ).toEqual({
+        code: "STATUS_NOT_ALLOWED_FOR_ACTOR",
+        from: "shortlisted",
+        to: "hired",
+        message: "Only the employer can mark an application as hired.",
+      });
+      expect(
+        transitionError(() =>
+          assertStatusTransition("viewed", "withdrawn", "employer"),
+        )?.message,
+      ).toBe("Only the candidate can mark an application as withdrawn.");
+    });
+
+    it("stays neutral when neither party may make the move", () => {
+      expect(
+        transitionError(() =>
+          assertStatusTransition("pending", "submitted", "employer"),
+        )?.message,
+      ).toBe(
+        "Marking an application as submitted is not allowed for this actor.",
+      );
+    });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Tests for timezone conversion and .ics line folding
+ */
+
+import { foldIcsLine, zonedTimeToUtc } from "../calendar";
+
+function utc(localDateTime: string, timeZone: string): string | null {
+  const timestamp = zonedTimeToUtc(localDateTime, timeZone);
+  return timestamp === null ? null : new Date(timestamp).toISOString();
+}
+
+describe("zonedTimeToUtc", () => {
+  it("converts times on either side of the spring DST change", () => {
+    expect(utc("2025-03-08T09:00", "America/New_York")).toBe(
+      "2025-03-08T14:00:00.000Z",
+    );
+    expect(utc("2025-03-10T09:00", "America/New_York")).toBe(
+      "2025-03-10T13:00:00.000Z",
+    );
+    expect(utc("2025-03-09T03:30", "America/New_York")).toBe(
+      "2025-03-09T07:30:00.000Z",
+    );
+    expect(utc("2025-03-29T09:00", "Europe/Berlin")).toBe(
+      "2025-03-29T08:00:00.000Z",
+    );
+    expect(utc("2025-03-31T09:00", "Europe/Berlin")).toBe(
+      "2025-03-31T07:00:00.000Z",
+    );
+  });
+
+  it("moves times skipped by the spring change past the gap", () => {
+    // 02:30 does not exist; it is read as 03:30 daylight time
+    expect(utc("2025-03-09T02:30", "America/New_York")).toBe(
+      "2025-03-09T07:30:00.000Z",
+    );
+    expect(utc("2025-03-30T02:30", "Europe/Berlin")).toBe(
+      "2025-03-30T01:30:00.000Z",
+    );
+  });
+
+  it("picks the earlier instant for times repeated by the autumn change", () => {
+    expect(utc("2025-11-02T01:30", "America/New_York")).toBe(
+      "2025-11-02T05:30:00.000Z",
+    );
+    expect(utc("2025-10-26T02:30", "Europe/Berlin")).toBe(
+      "2025-10-26T00:30:00.000Z",
+    );
+  });
+
+  it("converts times after the autumn change", () => {
+    expect(utc("2025-11-02T09:00", "America/New_York")).toBe(
+      "2025-11-02T14:00:00.000Z",
+    );
+    expect(utc("2025-10-26T09:00", "Europe/Berlin")).toBe(
+      "2025-10-26T08:00:00.000Z",
+    );
+  });
+
+  it("handles zones without DST and UTC", () => {
+    expect(utc("2025-07-01T12:00", "Asia/Kolkata")).toBe(
+      "2025-07-01T06:30:00.000Z",
+    );
+    expect(utc("2025-07-01T12:00", "UTC")).toBe("2025-07-01T12:00:00.000Z");
+  });
+
+  it("returns null for malformed input", () => {
+    expect(zonedTimeToUtc("2025-07-01 12:00", "UTC")).toBeNull();
+    expect(zonedTimeToUtc("2025-07-01T12:00:00", "UTC")).toBeNull();
+    expect(zonedTimeToUtc("", "UTC")).toBeNull();
+  });
+});
+
+describe("foldIcsLine", () => {
+  const unfold = (folded: string) => folded.replace(/\r\n /g, "");
+
+  it("leaves lines of up to 75 characters alone", () => {
+    const line = `SUMMARY:${"a".repeat(67)}`;
+    expect(line).toHaveLength(75);
+    expect(foldIcsLine(line)).toBe(line);
+  });
+
+  it("folds long lines into 75-character chunks", () => {
+    const line = `DESCRIPTION:${"x".repeat(200)}`;
+    const chunks = foldIcsLine(line).split("\r\n");
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[0]).toHaveLength(75);
+    for (const chunk of chunks.slice(1)) {
+      expect(chunk.startsWith(" ")).toBe(true);
+      expect(chunk.length).toBeLessThanOrEqual(75);
+    }
+    expect(chunks.slice(1, -1).every((chunk) => chunk.length === 75)).toBe(
+      true,
+    );
+  });
+
+  it("counts UTF-8 octets and never splits a character", () => {
+    const octets = (text: string) => Buffer.byteLength(text, "utf8");
+    const line = `SUMMARY:مقابلة مع ${"محمد عبد الرحمن ".repeat(6)}😀😀😀`;
+    const chunks = foldIcsLine(line).split("\r\n");
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(octets(chunk)).toBeLessThanOrEqual(75);
+      expect(chunk).not.toMatch(/[\uD800-\uDBFF]$/);
+    }
+    expect(unfold(foldIcsLine(line))).toBe(line);
+  });
+
+  it("unfolds back to the original line", () => {
+    const line = `DESCRIPTION:${"Interview with the hiring team. ".repeat(10)}`;
+    expect(unfold(foldIcsLine(line))).toBe(line);
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Tests for direct, support and mentor conversations and their dedupe keys
+ */
+
+import type { Id } from "../_generated/dataModel";
+import {
+  archiveConversation,
+  buildCanonicalKey,
+  openDirectConversation,
+  openSupportConversation,
+  requestMentorConversation,
+} from "../chatConversations";
+import {
+  createFakeConvex,
+  runHandler,
+  type FakeConvex,
+} from "./helpers/fakeConvex.testing";
+
+async function seedUser(convex: FakeConvex, clerkId: string, name: string) {
+  return await convex.seed<Id<"users">>("users", { clerkId, name });
+}
+
+async function seedModerator(convex: FakeConvex, clerkId: string) {
+  const userId = await seedUser(convex, clerkId, clerkId);
+  await convex.seed("userRoles", { userId, role: "moderator" });
+  return userId;
+}
+
+async function openDirect(
+  convex: FakeConvex,
+  clerkId: string,
+  userId: Id<"users">,
+  message?: string,
+) {
+  convex.signIn(clerkId);
+  return await runHandler<unknown, Id<"conversations">>(
+    openDirectConversation,
+    convex.ctx,
+    { userId, message },
+  );
+}
+
+async function openSupport(convex: FakeConvex, subject: string) {
+  convex.signIn("alice");
+  return await runHandler<unknown, Id<"conversations">>(
+    openSupportConversation,
+    convex.ctx,
+    { subject },
+  );
+}
+
+async function requestMentor(convex: FakeConvex, courseId: Id<"courses">) {
+  convex.signIn("alice");
+  return await runHandler<unknown, Id<"conversations">>(
+    requestMentorConversation,
+    convex.ctx,
+    { courseId },
+  );
+}
+
+describe("chat conversations", () => {
+  let convex: FakeConvex;
+
+  beforeEach(() => {
+    convex = createFakeConvex();
+  });
+
+  it("builds the same key whatever the participant order", async () => {
+    const aliceId = await seedUser(convex, "alice", "Alice");
+    const bobId = await seedUser(convex, "bob", "Bob");
+
+    expect(buildCanonicalKey([bobId, aliceId])).toBe(
+      buildCanonicalKey([aliceId, bobId]),
+    );
+    expect(buildCanonicalKey([aliceId, bobId])).not.toBe(
+      buildCanonicalKey([aliceId]),
+    );
+  });
+
+  describe("openDirectConversation", () => {
+    it("returns one thread whoever opens it", async () => {
+      const aliceId = await seedUser(convex, "alice", "Alice");
+      const bobId = await seedUser(convex, "bob", "Bob");
+
+      const conversationId = await openDirect(convex, "alice", bobId, " Hi ");
+
+      expect(await openDirect(convex, "bob", aliceId)).toBe(conversationId);
+      const [conversation, ...others] = convex.rows("conversations");
+      expect(others).toHaveLength(0);
+      expect(conversation).toMatchObject({
+        type: "direct",
+        title: "Alice & Bob",
+        participants: [bobId, aliceId],
+      });
+      expect(convex.rows("userConversations")).toHaveLength(2);
+      expect(convex.rows("messages").map((row) => row.body)).toEqual(["Hi"]);
+    });
+
+    it("reopens an archived thread", async () => {
+      await seedUser(convex, "alice", "Alice");
+      const bobId = await seedUser(convex, "bob", "Bob");
+      const conversationId = await openDirect(convex, "alice", bobId);
+      await runHandler(archiveConversation, convex.ctx, { conversationId });
+      expect(convex.rows("conversations")[0]?.archivedAt).toBeDefined();
+
+      await openDirect(convex, "alice", bobId, "Back again");
+
+      expect(convex.rows("conversations")[0]?.archivedAt).toBeUndefined();
+      expect(convex.rows("messages")).toHaveLength(1);
+    });
+
+    it("rejects messaging yourself or a deleted user", async () => {
+      const aliceId = await seedUser(convex, "alice", "Alice");
+      const goneId = await convex.seed<Id<"users">>("users", {
+        clerkId: "gone",
+        name: "Gone",
+        deletedAt: Date.now(),
+      });
+
+      await expect(openDirect(convex, "alice", aliceId)).rejects.toThrow(
+        "You cannot message yourself",
+      );
+      await expect(openDirect(convex, "alice", goneId)).rejects.toThrow(
+        "User not found",
+      );
+      expect(convex.rows("conversations")).toHaveLength(0);
+    });
+  });
+
+  describe("openSupportConversation", () => {
+    it("keeps one ticket per requester and adds new moderators", async () => {
+      const aliceId = await seedUser(convex, "alice", "Alice");
+      const firstModId = await seedModerator(convex, "mod_1");
+
+      const conversationId = await openSupport(convex, "Billing");
+      const secondModId = await seedModerator(convex, "mod_2");
+
+      expect(await openSupport(convex, "Refund")).toBe(conversationId);
+      expect(convex.rows("conversations")[0]).toMatchObject({
+        type: "support",
+        title: "Support: Refund",
+        canonicalKey: `support|${aliceId}`,
+        participants: [firstModId, aliceId, secondModId],
+        meta: { subject: "Refund" },
+      });
+      expect(convex.rows("userConversations")).toHaveLength(3);
+    });
+
+    it("needs a subject and at least one moderator", async () => {
+      await seedUser(convex, "alice", "Alice");
+
+      await expect(openSupport(convex, "Billing")).rejects.toThrow(
+        "Support is unavailable right now",
+      );
+      await seedModerator(convex, "mod_1");
+      await expect(openSupport(convex, "   ")).rejects.toThrow(
+        "Subject is required",
+      );
+      await expect(openSupport(convex, "x".repeat(121))).rejects.toThrow(
+        "Subject must be 120 characters or fewer",
+      );
+    });
+  });
+
+  describe("requestMentorConversation", () => {
+    it("opens one thread per course with its author", async () => {
+      await seedUser(convex, "alice", "Alice");
+      const authorId = await seedUser(convex, "author", "Author");
+      const [firstCourseId, secondCourseId] = [
+        await convex.seed<Id<"courses">>("courses", {
+          authorId,
+          title: "TypeScript",
+        }),
+        await convex.seed<Id<"courses">>("courses", {
+          authorId,
+          title: "Rust",
+        }),
+      ];
+
+      const firstId = await requestMentor(convex, firstCourseId);
+
+      expect(await requestMentor(convex, firstCourseId)).toBe(firstId);
+      expect(await requestMentor(convex, secondCourseId)).not.toBe(firstId);
+      expect(
+        convex.rows("conversations").map(({ type, title, meta }) => ({
+          type,
+          title,
+          meta,
+        })),
+      ).toEqual([
+        {
+          type: "mentor",
+          title: "Mentor: TypeScript",
+          meta: { courseId: firstCourseId },
+        },
+        {
+          type: "mentor",
+          title: "Mentor: Rust",
+          meta: { courseId: secondCourseId },
+        },
+      ]);
+    });
+
+    it("does not let the author mentor themselves", async () => {
+      const aliceId = await seedUser(convex, "alice", "Alice");
+      const courseId = await convex.seed<Id<"courses">>("courses", {
+        authorId: aliceId,
+        title: "TypeScript",
+      });
+
+      await expect(requestMentor(convex, courseId)).rejects.toThrow(
+        "You are the mentor for this course",
+      );
+    });
+  });
+});
@@ -0,0 +1,325 @@
+/**
+ * Tests for chat messages: unread counters, read receipts, edits and reactions
+ */
+
+import type { Id } from "../_generated/dataModel";
+import { getUnreadCounts, unreadCount } from "../chatConversations";
+import {
+  deleteMessage,
+  editMessage,
+  getReadReceipts,
+  markConversationRead,
+  sendMessage,
+  toggleReaction,
+} from "../chatMessages";
+import {
+  createFakeConvex,
+  runHandler,
+  type FakeConvex,
+} from "./helpers/fakeConvex.testing";
+
+interface ReadReceipt {
+  userId: Id<"users">;
+  lastReadAt: number;
+  lastReadMessageId: Id<"messages"> | null;
+}
+
+/** A conversation between two users, by default each with their inbox link. */
+async function seedConversation(convex: FakeConvex, linkBob = true) {
+  const [aliceId, bobId] = [
+    await convex.seed<Id<"users">>("users", { clerkId: "alice" }),
+    await convex.seed<Id<"users">>("users", { clerkId: "bob" }),
+  ];
+  await convex.seed("users", { clerkId: "mallory" });
+  const conversationId = await convex.seed<Id<"conversations">>(
+    "conversations",
+    { participants: [aliceId, bobId] },
+  );
+  for (const userId of linkBob ? [aliceId, bobId] : [aliceId]) {
+    await convex.seed("userConversations", { userId, conversationId });
+  }
+  return { aliceId, bobId, conversationId };
+}
+
+async function send(
+  convex: FakeConvex,
+  clerkId: string,
+  conversationId: Id<"conversations">,
+  body: string,
+) {
+  convex.signIn(clerkId);
+  return await runHandler<unknown, Id<"messages">>(sendMessage, convex.ctx, {
+    conversationId,
+    messageType: "text",
+    body,
+  });
+}
+
+async function edit(
+  convex: FakeConvex,
+  messageId: Id<"messages">,
+  body: string,
+) {
+  await runHandler(editMessage, convex.ctx, { messageId, body });
+}
+
+async function react(
+  convex: FakeConvex,
+  clerkId: string,
+  messageId: Id<"messages">,
+  emoji: string,
+) {
+  convex.signIn(clerkId);
+  await runHandler(toggleReaction, convex.ctx, { messageId, emoji });
+}
+
+function messageOf(convex: FakeConvex, messageId: Id<"messages">) {
+  return convex.rows("messages").find((row) => row._id === messageId);
+}
+
+function linkOf(convex: FakeConvex, userId: Id<"users">) {
+  return convex.rows("userConversations").find((row) => row.userId === userId);
+}
+
+describe("chat messages", () => {
+  let convex: FakeConvex;
+
+  beforeEach(() => {
+    convex = createFakeConvex();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("read state", () => {
+    it("counts unread messages for everyone but the sender", async () => {
+      const { aliceId, bobId, conversationId } = await seedConversation(convex);
+
+      await send(convex, "alice", conversationId, "Hi");
+      const latestId = await send(convex, "alice", conversationId, "Ping");
+
+      expect(linkOf(convex, aliceId)).toMatchObject({
+        unreadCount: 0,
+        lastReadMessageId: latestId,
+      });
+      expect(linkOf(convex, bobId)?.unreadCount).toBe(2);
+
+      convex.signIn("bob");
+      expect(await runHandler(unreadCount, convex.ctx, {})).toBe(2);
+      expect(await runHandler(getUnreadCounts, convex.ctx, {})).toEqual([
+        { conversationId, unreadCount: 2 },
+      ]);
+    });
+
+    it("moves the read watermark to the newest message", async () => {
+      const { bobId, conversationId } = await seedConversation(convex);
+      const latestId = await send(convex, "alice", conversationId, "Hi");
+
+      convex.signIn("bob");
+      await runHandler(markConversationRead, convex.ctx, { conversationId });
+
+      expect(linkOf(convex, bobId)).toMatchObject({
+        unreadCount: 0,
+        lastReadMessageId: latestId,
+      });
+      expect(await runHandler(unreadCount, convex.ctx, {})).toBe(0);
+      expect(await runHandler(getUnreadCounts, convex.ctx, {})).toEqual([]);
+    });
+
+    it("does not rewrite the link when already caught up", async () => {
+      const { aliceId, conversationId } = await seedConversation(convex);
+      await send(convex, "alice", conversationId, "Hi");
+      const before = linkOf(convex, aliceId)?.lastReadAt;
+
+      jest.spyOn(Date, "now").mockReturnValue(Date.now() + 60_000);
+      await runHandler(markConversationRead, convex.ctx, { conversationId });
+
+      expect(linkOf(convex, aliceId)?.lastReadAt).toBe(before);
+    });
+
+    it("creates a missing inbox link on first read", async () => {
+      const { bobId, conversationId } = await seedConversation(convex, false);
+      const latestId = await send(convex, "alice", conversationId, "Hi");
+      expect(linkOf(convex, bobId)).toBeUndefined();
+
+      convex.signIn("bob");
+      await runHandler(markConversationRead, convex.ctx, { conversationId });
+
+      expect(linkOf(convex, bobId)).toMatchObject({
+        lastReadMessageId: latestId,
+        unreadCount: 0,
+      });
+      expect(convex.rows("userConversations")).toHaveLength(2);
+    });
+
+    it("reports the other participants' read watermarks", async () => {
+      const { bobId, conversationId } = await seedConversation(convex);
+      const messageId = await send(convex, "alice", conversationId, "Hi");
+
+      expect(
+        await runHandler(getReadReceipts, convex.ctx, { conversationId }),
+      ).toEqual([]);
+
+      convex.signIn("bob");
+      await runHandler(markConversationRead, convex.ctx, { conversationId });
+      convex.signIn("alice");
+      const receipts = await runHandler<unknown, ReadReceipt[]>(
+        getReadReceipts,
+        convex.ctx,
+        { conversationId },
+      );
+
+      expect(receipts.map(({ userId }) => userId)).toEqual([bobId]);
+      expect(receipts[0]?.lastReadMessageId).toBe(messageId);
+      expect(typeof receipts[0]?.lastReadAt).toBe("number");
+    });
+
+    it("keeps outsiders out of the conversation", async () => {
+      const { conversationId } = await seedConversation(convex);
+      convex.signIn("mallory");
+
+      await expect(
+        runHandler(markConversationRead, convex.ctx, { conversationId }),
+      ).rejects.toThrow("Unauthorized");
+      await expect(
+        runHandler(getReadReceipts, convex.ctx, { conversationId }),
+      ).rejects.toThrow("Unauthorized");
+    });
+  });
+
+  describe("editing and deleting", () => {
+    it("keeps the previous bodies in the edit history", async () => {
+      const { conversationId } = await seedConversation(convex);
+      const messageId = await send(convex, "alice", conversationId, "Helo");
+
+      await edit(convex, messageId, " Hello ");
+      await edit(convex, messageId, "Hello");
+      await edit(convex, messageId, "Hello!");
+
+      const message = messageOf(convex, messageId);
+      expect(message?.body).toBe("Hello!");
+      expect(typeof message?.editedAt).toBe("number");
+      expect(
+        (message?.editHistory as Array<{ body: string }>).map(
+          ({ body }) => body,
+        ),
+      ).toEqual(["Helo", "Hello"]);
+      expect(
+        convex.rows("chatAuditLogs").map(({ eventType }) => eventType),
+      ).toEqual(["message.edited", "message.edited"]);
+    });
+
+    it("caps the edit history", async () => {
+      const { conversationId } = await seedConversation(convex);
+      const messageId = await send(convex, "alice", conversationId, "v0");
+
+      for (let revision = 1; revision <= 25; revision += 1) {
+        await edit(convex, messageId, `v${revision}`);
+      }
+
+      const history = messageOf(convex, messageId)?.editHistory as Array<{
+        body: string;
+      }>;
+      expect(history).toHaveLength(20);
+      expect(history[0]?.body).toBe("v5");
+    });
+
+    it("only lets the sender change their own messages", async () => {
+      const { conversationId } = await seedConversation(convex);
+      const messageId = await send(convex, "alice", conversationId, "Hi");
+
+      await expect(edit(convex, messageId, "   ")).rejects.toThrow(
+        "Message body is required for text messages",
+      );
+      convex.signIn("bob");
+      await expect(edit(convex, messageId, "Hijacked")).rejects.toThrow(
+        "Only the sender can edit a message",
+      );
+      await expect(
+        runHandler(deleteMessage, convex.ctx, { messageId }),
+      ).rejects.toThrow("Only the sender can delete a message");
+      convex.signIn("mallory");
+      await expect(edit(convex, messageId, "Hijacked")).rejects.toThrow(
+        "Unauthorized",
+      );
+      expect(messageOf(convex, messageId)?.body).toBe("Hi");
+    });
+
+    it("leaves a tombstone without body or reactions", async () => {
+      const { aliceId, conversationId } = await seedConversation(convex);
+      const messageId = await send(convex, "alice", conversationId, "Oops");
+      await edit(convex, messageId, "Oops!");
+      await react(convex, "bob", messageId, "👍");
+
+      convex.signIn("alice");
+      await runHandler(deleteMessage, convex.ctx, { messageId });
+
+      const tombstone = messageOf(convex, messageId);
+      expect(tombstone?.deletedBy).toBe(aliceId);
+      for (const field of ["body", "editHistory", "reactions"]) {
+        expect(tombstone).not.toHaveProperty(field);
+      }
+      await expect(edit(convex, messageId, "Again")).rejects.toThrow(
+        "Message has been deleted",
+      );
+      await expect(react(convex, "bob", messageId, "👍")).rejects.toThrow(
+        "Message has been deleted",
+      );
+    });
+
+    it("refuses to touch system messages", async () => {
+      const { aliceId, conversationId } = await seedConversation(convex);
+      const messageId = await convex.seed<Id<"messages">>("messages", {
+        conversationId,
+        senderId: aliceId,
+        messageType: "system",
+        body: "Contract started",
+      });
+      convex.signIn("alice");
+
+      await expect(edit(convex, messageId, "Changed")).rejects.toThrow(
+        "System messages cannot be edited",
+      );
+      await expect(
+        runHandler(deleteMessage, convex.ctx, { messageId }),
+      ).rejects.toThrow("System messages cannot be deleted");
+    });
+  });
+
+  describe("toggleReaction", () => {
+    it("groups reactions by emoji and drops empty ones", async () => {
+      const { aliceId, bobId, conversationId } = await seedConversation(convex);
+      const messageId = await send(convex, "alice", conversationId, "Shipped");
+
+      await react(convex, "alice", messageId, "🎉");
+      await react(convex, "bob", messageId, "🎉");
+      await react(convex, "bob", messageId, "👍");
+      expect(messageOf(convex, messageId)?.reactions).toEqual([
+        { emoji: "🎉", userIds: [aliceId, bobId] },
+        { emoji: "👍", userIds: [bobId] },
+      ]);
+
+      await react(convex, "bob", messageId, "👍");
+      await react(convex, "alice", messageId, "🎉");
+      expect(messageOf(convex, messageId)?.reactions).toEqual([
+        { emoji: "🎉", userIds: [bobId] },
+      ]);
+
+      await react(convex, "bob", messageId, "🎉");
+      expect(messageOf(convex, messageId)?.reactions).toBeUndefined();
+    });
+
+    it("only accepts the supported emoji from participants", async () => {
+      const { conversationId } = await seedConversation(convex);
+      const messageId = await send(convex, "alice", conversationId, "Hi");
+
+      await expect(react(convex, "bob", messageId, "🔥")).rejects.toThrow(
+        "Unsupported reaction",
+      );
+      await expect(react(convex, "mallory", messageId, "👍")).rejects.toThrow(
+        "Unauthorized",
+      );
+    });
+  });
+});
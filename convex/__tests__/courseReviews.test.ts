@@ -0,0 +1,189 @@
+/**
+ * Tests for course review eligibility, rating aggregates and helpful votes
+ */
+
+import type { Id } from "../_generated/dataModel";
+import { remove, submit, toggleHelpful } from "../courseReviews";
+import {
+  createFakeConvex,
+  runHandler,
+  type FakeConvex,
+} from "./helpers/fakeConvex.testing";
+
+async function seedCourse(convex: FakeConvex) {
+  const authorId = await convex.seed<Id<"users">>("users", {
+    clerkId: "author_1",
+    roles: ["admin"],
+  });
+  await convex.seed("users", { clerkId: "moderator_1", roles: ["moderator"] });
+  const courseId = await convex.seed<Id<"courses">>("courses", {
+    title: "Course",
+    authorId,
+  });
+  return { authorId, courseId };
+}
+
+/** Add a learner enrolled in the course with the given progress. */
+async function seedLearner(
+  convex: FakeConvex,
+  courseId: Id<"courses">,
+  clerkId: string,
+  progress = 50,
+) {
+  const userId = await convex.seed<Id<"users">>("users", {
+    clerkId,
+    roles: ["candidate"],
+  });
+  await convex.seed("enrollments", {
+    userId,
+    courseId,
+    status: "active",
+    progress,
+  });
+  return userId;
+}
+
+async function rate(
+  convex: FakeConvex,
+  courseId: Id<"courses">,
+  clerkId: string,
+  rating: number,
+) {
+  convex.signIn(clerkId);
+  return await runHandler<unknown, Id<"courseReviews">>(submit, convex.ctx, {
+    courseId,
+    rating,
+  });
+}
+
+function aggregates(convex: FakeConvex) {
+  const [course] = convex.rows("courses");
+  return {
+    averageRating: course?.averageRating,
+    totalRatings: course?.totalRatings,
+  };
+}
+
+describe("course reviews", () => {
+  let convex: FakeConvex;
+
+  beforeEach(() => {
+    convex = createFakeConvex();
+  });
+
+  it("averages new ratings into the course", async () => {
+    const { courseId } = await seedCourse(convex);
+    await seedLearner(convex, courseId, "learner_1");
+    await seedLearner(convex, courseId, "learner_2");
+    await seedLearner(convex, courseId, "learner_3");
+
+    await rate(convex, courseId, "learner_1", 5);
+    await rate(convex, courseId, "learner_2", 4);
+    await rate(convex, courseId, "learner_3", 2);
+
+    expect(aggregates(convex)).toEqual({
+      averageRating: 11 / 3,
+      totalRatings: 3,
+    });
+  });
+
+  it("replaces the old rating when a learner edits their review", async () => {
+    const { courseId } = await seedCourse(convex);
+    await seedLearner(convex, courseId, "learner_1");
+    await seedLearner(convex, courseId, "learner_2");
+
+    const reviewId = await rate(convex, courseId, "learner_1", 5);
+    await rate(convex, courseId, "learner_2", 3);
+    const editedId = await rate(convex, courseId, "learner_1", 1);
+
+    expect(editedId).toBe(reviewId);
+    expect(convex.rows("courseReviews")).toHaveLength(2);
+    expect(aggregates(convex)).toEqual({ averageRating: 2, totalRatings: 2 });
+  });
+
+  it("removes deleted ratings and resets to zero when none are left", async () => {
+    const { courseId } = await seedCourse(convex);
+    await seedLearner(convex, courseId, "learner_1");
+    await seedLearner(convex, courseId, "learner_2");
+    const first = await rate(convex, courseId, "learner_1", 5);
+    const second = await rate(convex, courseId, "learner_2", 2);
+
+    convex.signIn("learner_1");
+    await runHandler(remove, convex.ctx, { reviewId: first });
+    expect(aggregates(convex)).toEqual({ averageRating: 2, totalRatings: 1 });
+
+    convex.signIn("moderator_1");
+    await runHandler(remove, convex.ctx, { reviewId: second });
+    expect(aggregates(convex)).toEqual({ averageRating: 0, totalRatings: 0 });
+  });
+
+  it("counts a new review after the learner deleted their old one", async () => {
+    const { courseId } = await seedCourse(convex);
+    await seedLearner(convex, courseId, "learner_1");
+    const reviewId = await rate(convex, courseId, "learner_1", 2);
+    await runHandler(remove, convex.ctx, { reviewId });
+
+    await rate(convex, courseId, "learner_1", 4);
+
+    expect(aggregates(convex)).toEqual({ averageRating: 4, totalRatings: 1 });
+  });
+
+  it("only lets authors and moderators delete reviews", async () => {
+    const { courseId } = await seedCourse(convex);
+    await seedLearner(convex, courseId, "learner_1");
+    await seedLearner(convex, courseId, "learner_2");
+    const reviewId = await rate(convex, courseId, "learner_1", 5);
+
+    convex.signIn("learner_2");
+    await expect(runHandler(remove, convex.ctx, { reviewId })).rejects.toThrow(
+      "You can only delete your own reviews",
+    );
+    expect(aggregates(convex)).toEqual({ averageRating: 5, totalRatings: 1 });
+  });
+
+  it("rejects ratings outside 1-5 and ineligible reviewers", async () => {
+    const { courseId } = await seedCourse(convex);
+    await seedLearner(convex, courseId, "learner_1");
+    await seedLearner(convex, courseId, "beginner_1", 5);
+
+    for (const rating of [0, 6, 3.5]) {
+      await expect(rate(convex, courseId, "learner_1", rating)).rejects.toThrow(
+        "Rating must be a whole number from 1 to 5",
+      );
+    }
+    await expect(rate(convex, courseId, "beginner_1", 5)).rejects.toThrow(
+      "Complete at least 20% of the course to leave a review",
+    );
+    await expect(rate(convex, courseId, "author_1", 5)).rejects.toThrow(
+      "Instructors cannot review their own course",
+    );
+    expect(convex.rows("courseReviews")).toHaveLength(0);
+    expect(aggregates(convex)).toEqual({
+      averageRating: undefined,
+      totalRatings: undefined,
+    });
+  });
+
+  it("toggles helpful votes from other users", async () => {
+    const { courseId } = await seedCourse(convex);
+    await seedLearner(convex, courseId, "learner_1");
+    await seedLearner(convex, courseId, "learner_2");
+    const reviewId = await rate(convex, courseId, "learner_1", 5);
+
+    await expect(
+      runHandler(toggleHelpful, convex.ctx, { reviewId }),
+    ).rejects.toThrow("You cannot vote on your own review");
+
+    convex.signIn("learner_2");
+    expect(await runHandler(toggleHelpful, convex.ctx, { reviewId })).toEqual({
+      helpful: true,
+    });
+    expect(convex.rows("courseReviews")[0]?.helpfulCount).toBe(1);
+
+    expect(await runHandler(toggleHelpful, convex.ctx, { reviewId })).toEqual({
+      helpful: false,
+    });
+    expect(convex.rows("courseReviews")[0]?.helpfulCount).toBe(0);
+    expect(convex.rows("courseReviewVotes")).toHaveLength(0);
+  });
+});
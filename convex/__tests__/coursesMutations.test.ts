@@ -0,0 +1,306 @@
+/**
+ * Tests for deleting, reordering and moving course modules and lessons
+ */
+
+import type { Id } from "../_generated/dataModel";
+import {
+  deleteLesson,
+  deleteModule,
+  moveLesson,
+  reorderLessons,
+  reorderModules,
+} from "../coursesMutations";
+import {
+  createFakeConvex,
+  runHandler,
+  type FakeConvex,
+} from "./helpers/fakeConvex.testing";
+
+async function seedModule(
+  convex: FakeConvex,
+  courseId: Id<"courses">,
+  order: number,
+) {
+  const moduleId = await convex.seed<Id<"modules">>("modules", {
+    courseId,
+    order,
+    orderIndex: order,
+    lessonCount: 3,
+  });
+  const seedLesson = (lessonOrder: number) =>
+    convex.seed<Id<"lessons">>("lessons", {
+      courseId,
+      moduleId,
+      order: lessonOrder,
+      orderIndex: lessonOrder,
+    });
+  const lessonIds = [
+    await seedLesson(0),
+    await seedLesson(1),
+    await seedLesson(2),
+  ] as const;
+  return { moduleId, lessonIds };
+}
+
+/** An admin, a learner and a course of three modules with three lessons each. */
+async function seedCourse(convex: FakeConvex) {
+  await convex.seed("users", { clerkId: "admin_1", roles: ["admin"] });
+  await convex.seed("users", { clerkId: "learner_1", roles: ["candidate"] });
+  convex.signIn("admin_1");
+
+  const courseId = await convex.seed<Id<"courses">>("courses", {
+    title: "Course",
+  });
+  const modules = [
+    await seedModule(convex, courseId, 0),
+    await seedModule(convex, courseId, 1),
+    await seedModule(convex, courseId, 2),
+  ] as const;
+  return {
+    courseId,
+    modules,
+    moduleIds: modules.map((moduleRecord) => moduleRecord.moduleId),
+  };
+}
+
+/** Active rows of a table that match `fields`, sorted by `order`. */
+function active(
+  convex: FakeConvex,
+  table: "modules" | "lessons",
+  fields: Record<string, unknown>,
+) {
+  return convex
+    .rows(table)
+    .filter(
+      (row) =>
+        !row.deletedAt &&
+        Object.entries(fields).every(([key, value]) => row[key] === value),
+    )
+    .sort((a, b) => (a.order as number) - (b.order as number));
+}
+
+describe("course structure mutations", () => {
+  let convex: FakeConvex;
+
+  beforeEach(() => {
+    convex = createFakeConvex();
+  });
+
+  it("require an admin", async () => {
+    const { modules } = await seedCourse(convex);
+    const moduleId = modules[0].moduleId;
+
+    convex.signIn(null);
+    await expect(
+      runHandler(deleteModule, convex.ctx, { moduleId }),
+    ).rejects.toThrow("Authentication required");
+
+    convex.signIn("learner_1");
+    await expect(
+      runHandler(deleteModule, convex.ctx, { moduleId }),
+    ).rejects.toThrow("Insufficient permissions");
+    expect(active(convex, "modules", {})).toHaveLength(3);
+  });
+
+  it("deleteModule soft deletes its lessons and renumbers the course", async () => {
+    const { courseId, modules } = await seedCourse(convex);
+
+    await runHandler(deleteModule, convex.ctx, {
+      moduleId: modules[0].moduleId,
+    });
+
+    expect(
+      active(convex, "modules", { courseId }).map((row) => [
+        row._id,
+        row.order,
+        row.orderIndex,
+      ]),
+    ).toEqual([
+      [modules[1].moduleId, 0, 0],
+      [modules[2].moduleId, 1, 1],
+    ]);
+    const deletedLessons = convex
+      .rows("lessons")
+      .filter((row) => modules[0].lessonIds.includes(row._id as Id<"lessons">));
+    expect(deletedLessons.every((row) => row.deletedAt)).toBe(true);
+  });
+
+  it("deleteLesson renumbers the module and updates its lesson count", async () => {
+    const { modules } = await seedCourse(convex);
+    const [first, second, third] = modules[0].lessonIds;
+
+    await runHandler(deleteLesson, convex.ctx, { lessonId: second });
+
+    expect(
+      active(convex, "lessons", { moduleId: modules[0].moduleId }).map(
+        (row) => [row._id, row.order],
+      ),
+    ).toEqual([
+      [first, 0],
+      [third, 1],
+    ]);
+    const moduleRecord = convex
+      .rows("modules")
+      .find((row) => row._id === modules[0].moduleId);
+    expect(moduleRecord?.lessonCount).toBe(2);
+  });
+
+  it("reorderModules applies a complete ordering", async () => {
+    const { courseId, moduleIds } = await seedCourse(convex);
+    const reversed = [...moduleIds].reverse();
+
+    await runHandler(reorderModules, convex.ctx, {
+      courseId,
+      moduleIds: reversed,
+    });
+
+    expect(
+      active(convex, "modules", { courseId }).map((row) => row._id),
+    ).toEqual(reversed);
+  });
+
+  it("reorderModules rejects missing, repeated and foreign modules", async () => {
+    const { courseId, modules, moduleIds } = await seedCourse(convex);
+    const [a, b, c] = moduleIds;
+    const message = "Module order must list every module exactly once";
+
+    for (const ordering of [
+      [a, b],
+      [a, b, b],
+      [a, b, c, c],
+      [a, b, modules[0].lessonIds[0] as unknown as Id<"modules">],
+    ]) {
+      await expect(
+        runHandler(reorderModules, convex.ctx, {
+          courseId,
+          moduleIds: ordering,
+        }),
+      ).rejects.toThrow(message);
+    }
+    expect(
+      active(convex, "modules", { courseId }).map((row) => row._id),
+    ).toEqual(moduleIds);
+  });
+
+  it("reorderLessons rejects incomplete orderings and applies complete ones", async () => {
+    const { modules } = await seedCourse(convex);
+    const [first, second, third] = modules[0].lessonIds;
+
+    await expect(
+      runHandler(reorderLessons, convex.ctx, {
+        moduleId: modules[0].moduleId,
+        lessonIds: [third, first],
+      }),
+    ).rejects.toThrow("Lesson order must list every lesson exactly once");
+
+    await runHandler(reorderLessons, convex.ctx, {
+      moduleId: modules[0].moduleId,
+      lessonIds: [third, first, second],
+    });
+    expect(
+      active(convex, "lessons", { moduleId: modules[0].moduleId }).map(
+        (row) => row._id,
+      ),
+    ).toEqual([third, first, second]);
+  });
+
+  it("reorderLessons ignores deleted lessons", async () => {
+    const { modules } = await seedCourse(convex);
+    const [first, second, third] = modules[0].lessonIds;
+
+    await runHandler(deleteLesson, convex.ctx, { lessonId: first });
+    await runHandler(reorderLessons, convex.ctx, {
+      moduleId: modules[0].moduleId,
+      lessonIds: [third, second],
+    });
+
+    expect(
+      active(convex, "lessons", { moduleId: modules[0].moduleId }).map(
+        (row) => [row._id, row.order],
+      ),
+    ).toEqual([
+      [third, 0],
+      [second, 1],
+    ]);
+  });
+
+  it("moveLesson renumbers both modules and updates their lesson counts", async () => {
+    const { modules } = await seedCourse(convex);
+    const [a0, a1, a2] = modules[0].lessonIds;
+    const [b0, b1, b2] = modules[1].lessonIds;
+
+    await runHandler(moveLesson, convex.ctx, {
+      lessonId: a0,
+      targetModuleId: modules[1].moduleId,
+      position: 1,
+    });
+
+    expect(
+      active(convex, "lessons", { moduleId: modules[0].moduleId }).map(
+        (row) => [row._id, row.order],
+      ),
+    ).toEqual([
+      [a1, 0],
+      [a2, 1],
+    ]);
+    expect(
+      active(convex, "lessons", { moduleId: modules[1].moduleId }).map(
+        (row) => [row._id, row.order],
+      ),
+    ).toEqual([
+      [b0, 0],
+      [a0, 1],
+      [b1, 2],
+      [b2, 3],
+    ]);
+    const counts = convex
+      .rows("modules")
+      .map((row) => [row._id, row.lessonCount]);
+    expect(counts).toEqual([
+      [modules[0].moduleId, 2],
+      [modules[1].moduleId, 4],
+      [modules[2].moduleId, 3],
+    ]);
+  });
+
+  it("moveLesson appends by default and clamps out-of-range positions", async () => {
+    const { modules } = await seedCourse(convex);
+    const [a0, a1] = modules[0].lessonIds;
+
+    await runHandler(moveLesson, convex.ctx, {
+      lessonId: a0,
+      targetModuleId: modules[1].moduleId,
+    });
+    await runHandler(moveLesson, convex.ctx, {
+      lessonId: a1,
+      targetModuleId: modules[1].moduleId,
+      position: -5,
+    });
+
+    const target = active(convex, "lessons", { moduleId: modules[1].moduleId });
+    expect(target.map((row) => row._id)[0]).toBe(a1);
+    expect(target.map((row) => row._id).at(-1)).toBe(a0);
+    expect(target.map((row) => row.order)).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it("moveLesson within a module only reorders it", async () => {
+    const { modules } = await seedCourse(convex);
+    const [first, second, third] = modules[0].lessonIds;
+
+    await runHandler(moveLesson, convex.ctx, {
+      lessonId: third,
+      targetModuleId: modules[0].moduleId,
+      position: 0,
+    });
+
+    expect(
+      active(convex, "lessons", { moduleId: modules[0].moduleId }).map(
+        (row) => row._id,
+      ),
+    ).toEqual([third, first, second]);
+    const moduleRecord = convex
+      .rows("modules")
+      .find((row) => row._id === modules[0].moduleId);
+    expect(moduleRecord?.lessonCount).toBe(3);
+  });
+});
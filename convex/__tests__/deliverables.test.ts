@@ -0,0 +1,325 @@
+/**
+ * Tests for submitting and reviewing deliverables
+ */
+
+import type { Id } from "../_generated/dataModel";
+import { review, submit } from "../deliverables";
+import { getEscrowSummary, holdApplicationEscrow } from "../escrow";
+import { getOrCreateWallet, postLedgerEntry } from "../finance";
+import {
+  createFakeConvex,
+  runHandler,
+  type FakeConvex,
+} from "./helpers/fakeConvex.testing";
+
+type BudgetType = "fixed" | "milestone";
+
+/** A hired freelancer on a funded gig, with their work conversation. */
+async function seedEngagement(convex: FakeConvex, budgetType: BudgetType) {
+  const employerId = await convex.seed<Id<"users">>("users", {
+    clerkId: "employer_1",
+    roles: ["employer"],
+  });
+  const freelancerId = await convex.seed<Id<"users">>("users", {
+    clerkId: "freelancer_1",
+    roles: ["candidate"],
+  });
+  const gigId = await convex.seed<Id<"gigs">>("gigs", {
+    employerId,
+    title: "Landing page",
+    status: "in_progress",
+    budget: { type: budgetType, min: 100, max: 250, currency: "USD" },
+  });
+  const applicationId = await convex.seed<Id<"applications">>("applications", {
+    gigId,
+    candidateId: freelancerId,
+    status: "hired",
+  });
+  const conversationId = await convex.seed<Id<"conversations">>(
+    "conversations",
+    {
+      participants: [employerId, freelancerId],
+      gigId,
+      meta: { applicationId },
+    },
+  );
+
+  if (budgetType === "fixed") {
+    const wallet = await getOrCreateWallet(convex.ctx, employerId, "USD");
+    await postLedgerEntry(convex.ctx, {
+      walletId: wallet._id,
+      amount: 50_000,
+      currency: "USD",
+      type: "DEPOSIT",
+      idempotencyKey: "deposit:employer_1",
+      createdBy: "employer_1",
+    });
+    const [application, gig] = await Promise.all([
+      convex.ctx.db.get(applicationId),
+      convex.ctx.db.get(gigId),
+    ]);
+    await holdApplicationEscrow(convex.ctx, {
+      application: application!,
+      gig: gig!,
+    });
+  }
+
+  return { employerId, freelancerId, gigId, applicationId, conversationId };
+}
+
+async function submitWork(
+  convex: FakeConvex,
+  conversationId: Id<"conversations">,
+  args: { notes?: string; storageIds?: string[] } = { notes: "First draft" },
+) {
+  convex.signIn("freelancer_1");
+  return await runHandler<unknown, Id<"deliverables">>(submit, convex.ctx, {
+    conversationId,
+    ...args,
+  });
+}
+
+async function reviewWork(
+  convex: FakeConvex,
+  deliverableId: Id<"deliverables">,
+  decision: "approve" | "request_revision",
+  comment?: string,
+) {
+  convex.signIn("employer_1");
+  return await runHandler(review, convex.ctx, {
+    deliverableId,
+    decision,
+    comment,
+  });
+}
+
+describe("deliverables", () => {
+  let convex: FakeConvex;
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    convex = createFakeConvex();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("submit", () => {
+    it("numbers versions and posts a work event to the conversation", async () => {
+      const { conversationId } = await seedEngagement(convex, "fixed");
+
+      const deliverableId = await submitWork(convex, conversationId);
+
+      const [deliverable] = convex.rows("deliverables");
+      expect(deliverable).toMatchObject({
+        _id: deliverableId,
+        version: 1,
+        status: "submitted",
+        notes: "First draft",
+        files: [],
+      });
+      expect(convex.rows("messages")).toEqual([
+        expect.objectContaining({
+          messageType: "system",
+          systemEvent: "work.submitted",
+          body: "Submitted version 1: First draft",
+        }),
+      ]);
+      expect(convex.rows("chatAuditLogs")).toHaveLength(1);
+      expect(convex.rows("chatAuditLogs")[0]).toMatchObject({
+        eventType: "work.submitted",
+        metadata: { deliverableId, version: 1 },
+      });
+    });
+
+    it("takes file details from the conversation's chat attachments", async () => {
+      const { conversationId } = await seedEngagement(convex, "fixed");
+      const storageId = convex.upload({
+        contentType: "application/pdf",
+        size: 2048,
+      });
+      await convex.seed("fileMetadata", {
+        storageId,
+        originalName: "design.pdf",
+        contentType: "application/pdf",
+        fileSize: 2048,
+        category: "chat-attachment",
+        conversationId,
+        uploadedBy: "freelancer_1",
+      });
+
+      await submitWork(convex, conversationId, { storageIds: [storageId] });
+
+      expect(convex.rows("deliverables")[0]?.files).toEqual([
+        {
+          storageId,
+          url: `https://storage.test/${storageId}`,
+          name: "design.pdf",
+          contentType: "application/pdf",
+          size: 2048,
+        },
+      ]);
+    });
+
+    it("rejects files that were not attached to the conversation", async () => {
+      const { conversationId } = await seedEngagement(convex, "fixed");
+      const storageId = convex.upload({ contentType: "image/png", size: 10 });
+      await convex.seed("fileMetadata", {
+        storageId,
+        originalName: "avatar.png",
+        contentType: "image/png",
+        fileSize: 10,
+        category: "user-avatar",
+        uploadedBy: "freelancer_1",
+      });
+
+      await expect(
+        submitWork(convex, conversationId, { storageIds: [storageId] }),
+      ).rejects.toThrow("Attachment not found");
+      expect(convex.rows("deliverables")).toHaveLength(0);
+    });
+
+    it("only lets the freelancer submit, one version at a time", async () => {
+      const { conversationId } = await seedEngagement(convex, "fixed");
+
+      convex.signIn("employer_1");
+      await expect(
+        runHandler(submit, convex.ctx, { conversationId, notes: "Mine" }),
+      ).rejects.toThrow("Only the freelancer can submit work");
+
+      await submitWork(convex, conversationId);
+      await expect(submitWork(convex, conversationId)).rejects.toThrow(
+        "The previous submission is still under review",
+      );
+    });
+  });
+
+  describe("review", () => {
+    it("releases the escrow to the freelancer on approval", async () => {
+      const { conversationId, applicationId, employerId, freelancerId } =
+        await seedEngagement(convex, "fixed");
+      const deliverableId = await submitWork(convex, conversationId);
+
+      await reviewWork(convex, deliverableId, "approve");
+
+      expect(convex.rows("deliverables")[0]).toMatchObject({
+        status: "approved",
+        reviewedBy: employerId,
+      });
+      expect(await getEscrowSummary(convex.ctx, applicationId)).toMatchObject({
+        state: "released",
+        amount: 25_000,
+      });
+      const freelancerWallet = convex
+        .rows("wallets")
+        .find((wallet) => wallet.userId === freelancerId);
+      const freelancerBalance = convex
+        .rows("walletBalances")
+        .find((balance) => balance.walletId === freelancerWallet?._id);
+      expect(freelancerBalance?.balance).toBe(25_000);
+      expect(convex.rows("messages").at(-1)).toMatchObject({
+        systemEvent: "work.approved",
+        body: "Approved version 1",
+      });
+    });
+
+    it("closes non-milestone work after the first approval", async () => {
+      const { conversationId } = await seedEngagement(convex, "fixed");
+      const deliverableId = await submitWork(convex, conversationId);
+      await reviewWork(convex, deliverableId, "approve");
+
+      await expect(submitWork(convex, conversationId)).rejects.toThrow(
+        "This work has already been approved",
+      );
+    });
+
+    it("leaves milestone escrow alone and accepts further versions", async () => {
+      const { conversationId } = await seedEngagement(convex, "milestone");
+      const deliverableId = await submitWork(convex, conversationId);
+
+      await reviewWork(convex, deliverableId, "approve");
+      await submitWork(convex, conversationId, { notes: "Stage two" });
+
+      expect(convex.rows("transactions")).toHaveLength(0);
+      expect(convex.rows("deliverables").map((row) => row.version)).toEqual([
+        1, 2,
+      ]);
+    });
+
+    it("requires a comment to request a revision", async () => {
+      const { conversationId, applicationId } = await seedEngagement(
+        convex,
+        "fixed",
+      );
+      const deliverableId = await submitWork(convex, conversationId);
+
+      await expect(
+        reviewWork(convex, deliverableId, "request_revision", "   "),
+      ).rejects.toThrow("Explain what needs to change to request a revision");
+
+      await reviewWork(
+        convex,
+        deliverableId,
+        "request_revision",
+        " Fix the footer ",
+      );
+
+      expect(convex.rows("deliverables")[0]).toMatchObject({
+        status: "revision_requested",
+        reviewComment: "Fix the footer",
+      });
+      expect(await getEscrowSummary(convex.ctx, applicationId)).toMatchObject({
+        state: "held",
+      });
+      expect(
+        await submitWork(convex, conversationId, { notes: "Second draft" }),
+      ).toBeDefined();
+    });
+
+    it("rejects a version that was already reviewed", async () => {
+      const { conversationId } = await seedEngagement(convex, "fixed");
+      const deliverableId = await submitWork(convex, conversationId);
+      await reviewWork(convex, deliverableId, "approve");
+
+      await expect(
+        reviewWork(convex, deliverableId, "approve"),
+      ).rejects.toThrow("This version has already been reviewed");
+      expect(
+        convex
+          .rows("transactions")
+          .filter((row) => row.type === "ESCROW_RELEASE"),
+      ).toHaveLength(1);
+    });
+
+    it("only lets the employer review", async () => {
+      const { conversationId } = await seedEngagement(convex, "fixed");
+      const deliverableId = await submitWork(convex, conversationId);
+
+      await expect(
+        runHandler(review, convex.ctx, { deliverableId, decision: "approve" }),
+      ).rejects.toThrow("Only the employer can review work");
+    });
+
+    it("rejects reviews and submissions on cancelled gigs", async () => {
+      const { conversationId, gigId, applicationId } = await seedEngagement(
+        convex,
+        "fixed",
+      );
+      const deliverableId = await submitWork(convex, conversationId);
+      await convex.ctx.db.patch(gigId, { status: "cancelled" });
+
+      const message =
+        "This gig was cancelled and its escrow was refunded to the employer";
+      await expect(
+        reviewWork(convex, deliverableId, "approve"),
+      ).rejects.toThrow(message);
+      await expect(
+        submitWork(convex, conversationId, { notes: "Late work" }),
+      ).rejects.toThrow(message);
+      expect(await getEscrowSummary(convex.ctx, applicationId)).toMatchObject({
+        state: "held",
+      });
+    });
+  });
+});
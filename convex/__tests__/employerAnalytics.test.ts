@@ -0,0 +1,238 @@
+/**
+ * Tests for the employer hiring funnel rollups and dashboard
+ */
+
+import type { Doc, Id } from "../_generated/dataModel";
+import {
+  backfillRollups,
+  getDashboard,
+  recordApplicationStatusEvent,
+  recordApplicationSubmitted,
+  recordGigView,
+  sumEmployerRollups,
+} from "../employerAnalytics";
+import {
+  createFakeConvex,
+  runHandler,
+  type FakeConvex,
+} from "./helpers/fakeConvex.testing";
+
+const HOUR = 60 * 60 * 1000;
+
+interface FunnelSummary {
+  views: number;
+  applies: number;
+  funnel: Array<{ stage: string; count: number }>;
+  avgTimeToFirstViewMs: number | null;
+  avgTimeToHireMs: number | null;
+}
+
+interface Dashboard extends FunnelSummary {
+  rangeDays: number;
+  daily: Array<{ day: number; views: number; applies: number; hires: number }>;
+  gigs: Array<FunnelSummary & { gigId: Id<"gigs">; title: string }>;
+}
+
+async function seedEmployer(convex: FakeConvex) {
+  return await convex.seed<Id<"users">>("users", { clerkId: "employer_1" });
+}
+
+async function seedGig(
+  convex: FakeConvex,
+  employerId: Id<"users">,
+  title = "Landing page",
+) {
+  return await convex.seed<Id<"gigs">>("gigs", {
+    employerId,
+    title,
+    status: "open",
+    metadata: {
+      views: 0,
+      applicantCount: 0,
+      savedCount: 0,
+      lastModified: 0,
+      version: 1,
+      isUrgent: false,
+      isRemoteOnly: false,
+    },
+  });
+}
+
+async function apply(convex: FakeConvex, gigId: Id<"gigs">) {
+  const candidateId = await convex.seed<Id<"users">>("users", {
+    clerkId: `candidate_${convex.rows("users").length}`,
+  });
+  const applicationId = await convex.seed<Id<"applications">>("applications", {
+    gigId,
+    candidateId,
+    status: "submitted",
+  });
+  const application = await load(convex, applicationId);
+  await recordApplicationSubmitted(convex.ctx, application);
+  return application;
+}
+
+async function load(convex: FakeConvex, applicationId: Id<"applications">) {
+  const application = await convex.ctx.db.get(applicationId);
+  if (!application) {
+    throw new Error("Seeded application is missing");
+  }
+  return application;
+}
+
+/** Record `status` for the application `hours` after it was submitted. */
+async function move(
+  convex: FakeConvex,
+  application: Doc<"applications">,
+  status: Doc<"applications">["status"],
+  hours: number,
+) {
+  await recordApplicationStatusEvent(convex.ctx, {
+    application,
+    status,
+    changedBy: application.candidateId,
+    timestamp: application._creationTime + hours * HOUR,
+  });
+}
+
+async function dashboard(convex: FakeConvex) {
+  convex.signIn("employer_1");
+  return await runHandler<unknown, Dashboard>(getDashboard, convex.ctx, {});
+}
+
+describe("employer analytics", () => {
+  let convex: FakeConvex;
+
+  beforeEach(() => {
+    convex = createFakeConvex();
+  });
+
+  describe("funnel rollups", () => {
+    it("counts each stage once and fills in skipped stages", async () => {
+      const employerId = await seedEmployer(convex);
+      const gigId = await seedGig(convex, employerId);
+      const application = await apply(convex, gigId);
+
+      await move(convex, application, "viewed", 2);
+      await move(convex, application, "interview_requested", 5);
+      await move(convex, application, "in_review", 6);
+      await move(convex, application, "hired", 10);
+
+      const totals = await sumEmployerRollups(convex.ctx, employerId);
+      expect(totals).toMatchObject({
+        submitted: 1,
+        viewed: 1,
+        shortlisted: 1,
+        interview: 1,
+        hired: 1,
+        firstViewCount: 1,
+        firstViewTotalMs: 2 * HOUR,
+        hireTotalMs: 10 * HOUR,
+      });
+      expect(convex.rows("applicationStatusEvents")).toHaveLength(5);
+    });
+
+    it("ignores statuses outside the funnel", async () => {
+      const employerId = await seedEmployer(convex);
+      const gigId = await seedGig(convex, employerId);
+      const application = await apply(convex, gigId);
+
+      await move(convex, application, "rejected", 1);
+      await move(convex, application, "withdrawn", 2);
+
+      expect(await sumEmployerRollups(convex.ctx, employerId)).toMatchObject({
+        submitted: 1,
+        viewed: 0,
+        hired: 0,
+      });
+    });
+
+    it("counts a gig view once per viewer per day", async () => {
+      const employerId = await seedEmployer(convex);
+      const gigId = await seedGig(convex, employerId);
+      const [viewerId, otherViewerId] = [
+        await convex.seed<Id<"users">>("users", { clerkId: "viewer_1" }),
+        await convex.seed<Id<"users">>("users", { clerkId: "viewer_2" }),
+      ];
+
+      const counted = [];
+      for (const viewer of [viewerId, viewerId, otherViewerId]) {
+        const gig = await convex.ctx.db.get(gigId);
+        if (!gig) throw new Error("Seeded gig is missing");
+        counted.push(await recordGigView(convex.ctx, gig, viewer));
+      }
+
+      expect(counted).toEqual([true, false, true]);
+      expect(convex.rows("gigs")[0]?.metadata).toMatchObject({
+        views: 2,
+        version: 1,
+      });
+      expect((await sumEmployerRollups(convex.ctx, employerId)).views).toBe(2);
+    });
+  });
+
+  describe("getDashboard", () => {
+    it("reports the funnel, timings and per-gig breakdown", async () => {
+      const employerId = await seedEmployer(convex);
+      const busyId = await seedGig(convex, employerId, "Busy gig");
+      const quietId = await seedGig(convex, employerId, "Quiet gig");
+      const first = await apply(convex, busyId);
+      const second = await apply(convex, busyId);
+      await move(convex, first, "viewed", 1);
+      await move(convex, second, "viewed", 3);
+      await move(convex, first, "hired", 4);
+
+      const result = await dashboard(convex);
+
+      expect(result.rangeDays).toBe(30);
+      expect(result.daily).toHaveLength(30);
+      expect(result.funnel).toEqual([
+        { stage: "submitted", count: 2 },
+        { stage: "viewed", count: 2 },
+        { stage: "shortlisted", count: 1 },
+        { stage: "interview", count: 1 },
+        { stage: "hired", count: 1 },
+      ]);
+      expect(result.avgTimeToFirstViewMs).toBe(2 * HOUR);
+      expect(result.avgTimeToHireMs).toBe(4 * HOUR);
+      expect(result.gigs.map(({ gigId, applies }) => [gigId, applies])).toEqual(
+        [
+          [busyId, 2],
+          [quietId, 0],
+        ],
+      );
+      expect(result.gigs[1]?.avgTimeToHireMs).toBeNull();
+    });
+
+    it("requires a signed-in employer", async () => {
+      await expect(runHandler(getDashboard, convex.ctx, {})).rejects.toThrow(
+        "Not authenticated",
+      );
+    });
+  });
+
+  describe("backfillRollups", () => {
+    it("rebuilds the same rollups from events and keeps views", async () => {
+      const employerId = await seedEmployer(convex);
+      const gigId = await seedGig(convex, employerId);
+      const application = await apply(convex, gigId);
+      await move(convex, application, "shortlisted", 1);
+      await move(convex, application, "hired", 3);
+      const viewer = await convex.seed<Id<"users">>("users", {
+        clerkId: "viewer_1",
+      });
+      const gig = await convex.ctx.db.get(gigId);
+      if (!gig) throw new Error("Seeded gig is missing");
+      await recordGigView(convex.ctx, gig, viewer);
+      const before = await sumEmployerRollups(convex.ctx, employerId);
+
+      expect(await runHandler(backfillRollups, convex.ctx, {})).toEqual({
+        processed: 1,
+        isDone: true,
+      });
+
+      expect(await sumEmployerRollups(convex.ctx, employerId)).toEqual(before);
+      expect(convex.scheduled).toHaveLength(0);
+    });
+  });
+});
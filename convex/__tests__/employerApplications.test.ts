@@ -0,0 +1,301 @@
+/**
+ * Tests for bulk status changes and bulk messages on a gig's applications
+ */
+
+import type { Id } from "../_generated/dataModel";
+import type { ApplicationStatus } from "../applicationStatus";
+import {
+  bulkMessage,
+  bulkUpdateStatus,
+  processBulkActionBatch,
+} from "../employerApplications";
+import {
+  createFakeConvex,
+  runHandler,
+  type FakeConvex,
+} from "./helpers/fakeConvex.testing";
+
+interface BulkResult {
+  applied: number;
+  skipped: number;
+  queued: number;
+}
+
+async function seedGig(convex: FakeConvex) {
+  const employerId = await convex.seed<Id<"users">>("users", {
+    clerkId: "employer_1",
+    name: "Employer",
+    roles: ["employer"],
+  });
+  const otherEmployerId = await convex.seed<Id<"users">>("users", {
+    clerkId: "employer_2",
+    name: "Other employer",
+    roles: ["employer"],
+  });
+  const gigId = await convex.seed<Id<"gigs">>("gigs", {
+    employerId,
+    title: "Landing page",
+    status: "active",
+    budget: { type: "fixed", min: 100, max: 250, currency: "USD" },
+  });
+  convex.signIn("employer_1");
+  return { employerId, otherEmployerId, gigId };
+}
+
+async function seedApplication(
+  convex: FakeConvex,
+  gigId: Id<"gigs">,
+  status: ApplicationStatus = "submitted",
+) {
+  const candidateId = await convex.seed<Id<"users">>("users", {
+    clerkId: `candidate_${convex.rows("users").length}`,
+    name: "Candidate",
+    roles: ["candidate"],
+  });
+  return await convex.seed<Id<"applications">>("applications", {
+    gigId,
+    candidateId,
+    status,
+  });
+}
+
+function statusOf(convex: FakeConvex, applicationId: Id<"applications">) {
+  return convex.rows("applications").find((row) => row._id === applicationId)
+    ?.status;
+}
+
+function eventsFor(convex: FakeConvex, applicationId: Id<"applications">) {
+  return convex
+    .rows("applicationStatusEvents")
+    .filter((row) => row.applicationId === applicationId);
+}
+
+describe("bulk application actions", () => {
+  let convex: FakeConvex;
+
+  beforeEach(() => {
+    convex = createFakeConvex();
+  });
+
+  describe("bulkUpdateStatus", () => {
+    it("moves eligible applications and skips the rest", async () => {
+      const { employerId, gigId } = await seedGig(convex);
+      const submitted = await seedApplication(convex, gigId);
+      const viewed = await seedApplication(convex, gigId, "viewed");
+      const withdrawn = await seedApplication(convex, gigId, "withdrawn");
+      const shortlisted = await seedApplication(convex, gigId, "shortlisted");
+      const otherGigId = await convex.seed<Id<"gigs">>("gigs", {
+        employerId,
+        title: "Other gig",
+      });
+      const otherGig = await seedApplication(convex, otherGigId);
+
+      const result = await runHandler<unknown, BulkResult>(
+        bulkUpdateStatus,
+        convex.ctx,
+        {
+          gigId,
+          applicationIds: [
+            submitted,
+            viewed,
+            withdrawn,
+            shortlisted,
+            otherGig,
+            submitted,
+          ],
+          status: "shortlisted",
+          reason: "  Strong portfolio  ",
+        },
+      );
+
+      expect(result).toEqual({ applied: 2, skipped: 3, queued: 0 });
+      expect(statusOf(convex, submitted)).toBe("shortlisted");
+      expect(statusOf(convex, viewed)).toBe("shortlisted");
+      expect(statusOf(convex, withdrawn)).toBe("withdrawn");
+      expect(statusOf(convex, otherGig)).toBe("submitted");
+      expect(eventsFor(convex, submitted)).toEqual([
+        expect.objectContaining({
+          status: "shortlisted",
+          changedBy: employerId,
+          reason: "Strong portfolio",
+          meta: { bulk: true },
+        }),
+      ]);
+      expect(eventsFor(convex, withdrawn)).toHaveLength(0);
+      expect(eventsFor(convex, shortlisted)).toHaveLength(0);
+    });
+
+    it("cancels open interviews of rejected applications", async () => {
+      const { employerId, gigId } = await seedGig(convex);
+      const applicationId = await seedApplication(
+        convex,
+        gigId,
+        "interview_requested",
+      );
+      await convex.seed("interviews", {
+        applicationId,
+        gigId,
+        employerId,
+        candidateId: convex.rows("applications")[0]?.candidateId,
+        status: "proposed",
+        sequence: 0,
+      });
+
+      await runHandler(bulkUpdateStatus, convex.ctx, {
+        gigId,
+        applicationIds: [applicationId],
+        status: "rejected",
+      });
+
+      expect(statusOf(convex, applicationId)).toBe("rejected");
+      expect(convex.rows("interviews")[0]).toMatchObject({
+        status: "cancelled",
+        sequence: 1,
+        cancelledBy: employerId,
+      });
+    });
+
+    it("runs the first batch inline and queues the rest", async () => {
+      const { employerId, gigId } = await seedGig(convex);
+      const applicationIds: Array<Id<"applications">> = [];
+      for (let index = 0; index < 30; index += 1) {
+        applicationIds.push(await seedApplication(convex, gigId));
+      }
+
+      const result = await runHandler<unknown, BulkResult>(
+        bulkUpdateStatus,
+        convex.ctx,
+        { gigId, applicationIds, status: "rejected" },
+      );
+
+      expect(result).toEqual({ applied: 25, skipped: 0, queued: 5 });
+      expect(convex.scheduled).toEqual([
+        {
+          name: "employerApplications:processBulkActionBatch",
+          args: {
+            employerId,
+            gigId,
+            applicationIds: applicationIds.slice(25),
+            action: { type: "status", status: "rejected" },
+          },
+        },
+      ]);
+      expect(
+        applicationIds.slice(25).map((id) => statusOf(convex, id)),
+      ).toEqual(Array(5).fill("submitted"));
+
+      await runHandler(
+        processBulkActionBatch,
+        convex.ctx,
+        convex.scheduled[0]?.args,
+      );
+
+      expect(
+        applicationIds.every((id) => statusOf(convex, id) === "rejected"),
+      ).toBe(true);
+      expect(convex.scheduled).toHaveLength(1);
+    });
+
+    it("drops queued batches when the gig changed hands", async () => {
+      const { employerId, otherEmployerId, gigId } = await seedGig(convex);
+      const applicationId = await seedApplication(convex, gigId);
+      await convex.ctx.db.patch(gigId, { employerId: otherEmployerId });
+
+      await runHandler(processBulkActionBatch, convex.ctx, {
+        employerId,
+        gigId,
+        applicationIds: [applicationId],
+        action: { type: "status", status: "rejected" },
+      });
+
+      expect(statusOf(convex, applicationId)).toBe("submitted");
+    });
+
+    it("only lets the gig's employer act, on a non-empty selection", async () => {
+      const { gigId } = await seedGig(convex);
+      const applicationId = await seedApplication(convex, gigId);
+
+      await expect(
+        runHandler(bulkUpdateStatus, convex.ctx, {
+          gigId,
+          applicationIds: [],
+          status: "rejected",
+        }),
+      ).rejects.toThrow("Select at least one application");
+
+      convex.signIn("employer_2");
+      await expect(
+        runHandler(bulkUpdateStatus, convex.ctx, {
+          gigId,
+          applicationIds: [applicationId],
+          status: "rejected",
+        }),
+      ).rejects.toThrow("Forbidden");
+      expect(statusOf(convex, applicationId)).toBe("submitted");
+    });
+  });
+
+  describe("bulkMessage", () => {
+    it("messages each applicant and records it on their timeline", async () => {
+      const { employerId, gigId } = await seedGig(convex);
+      const first = await seedApplication(convex, gigId);
+      const second = await seedApplication(convex, gigId, "shortlisted");
+
+      const result = await runHandler<unknown, BulkResult>(
+        bulkMessage,
+        convex.ctx,
+        {
+          gigId,
+          applicationIds: [first, second],
+          body: " Thanks for applying! ",
+        },
+      );
+
+      expect(result).toEqual({ applied: 2, skipped: 0, queued: 0 });
+      const conversations = convex.rows("conversations");
+      expect(conversations.map((row) => row.meta)).toEqual([
+        { applicationId: first },
+        { applicationId: second },
+      ]);
+      const messages = convex.rows("messages");
+      expect(messages).toHaveLength(2);
+      expect(messages[0]).toMatchObject({
+        senderId: employerId,
+        messageType: "text",
+        body: "Thanks for applying!",
+      });
+
+      expect(statusOf(convex, second)).toBe("shortlisted");
+      expect(eventsFor(convex, second)).toEqual([
+        expect.objectContaining({
+          status: "shortlisted",
+          reason: "Bulk message",
+          meta: {
+            bulk: true,
+            conversationId: conversations[1]?._id,
+            messageId: messages[1]?._id,
+          },
+        }),
+      ]);
+      expect(
+        convex
+          .rows("chatAuditLogs")
+          .filter((row) => row.eventType === "message.bulk_sent"),
+      ).toHaveLength(2);
+    });
+
+    it("rejects empty messages", async () => {
+      const { gigId } = await seedGig(convex);
+      const applicationId = await seedApplication(convex, gigId);
+
+      await expect(
+        runHandler(bulkMessage, convex.ctx, {
+          gigId,
+          applicationIds: [applicationId],
+          body: "   ",
+        }),
+      ).rejects.toThrow("Message body must not be empty");
+      expect(convex.rows("messages")).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Tests for milestone planning and per-milestone escrow on milestone gigs
+ */
+
+import type { Id } from "../_generated/dataModel";
+import {
+  approveMilestone,
+  cancelMilestone,
+  createMilestone,
+  fundMilestone,
+} from "../employerGigs";
+import { syncEscrowWithApplicationStatus } from "../escrow";
+import { getOrCreateWallet, postLedgerEntry } from "../finance";
+import {
+  createFakeConvex,
+  runHandler,
+  type FakeConvex,
+} from "./helpers/fakeConvex.testing";
+
+/** A funded employer, a 300.00 USD milestone gig and two applicants. */
+async function seedMilestoneGig(convex: FakeConvex) {
+  const employerId = await convex.seed<Id<"users">>("users", {
+    clerkId: "employer_1",
+  });
+  const [firstCandidateId, secondCandidateId] = [
+    await convex.seed<Id<"users">>("users", { clerkId: "candidate_1" }),
+    await convex.seed<Id<"users">>("users", { clerkId: "candidate_2" }),
+  ];
+  const gigId = await convex.seed<Id<"gigs">>("gigs", {
+    employerId,
+    title: "Mobile app",
+    budget: { type: "milestone", min: 100, max: 300, currency: "USD" },
+  });
+  const [firstApplicationId, secondApplicationId] = [
+    await convex.seed<Id<"applications">>("applications", {
+      gigId,
+      candidateId: firstCandidateId,
+      status: "shortlisted",
+    }),
+    await convex.seed<Id<"applications">>("applications", {
+      gigId,
+      candidateId: secondCandidateId,
+      status: "shortlisted",
+    }),
+  ];
+
+  const wallet = await getOrCreateWallet(convex.ctx, employerId, "USD");
+  await postLedgerEntry(convex.ctx, {
+    walletId: wallet._id,
+    amount: 50_000,
+    currency: "USD",
+    type: "DEPOSIT",
+    idempotencyKey: "deposit:employer_1",
+    createdBy: "employer_1",
+  });
+  convex.signIn("employer_1");
+
+  return {
+    gigId,
+    firstCandidateId,
+    firstApplicationId,
+    secondApplicationId,
+    employerWalletId: wallet._id,
+  };
+}
+
+async function addMilestone(
+  convex: FakeConvex,
+  gigId: Id<"gigs">,
+  title: string,
+  amount: number,
+) {
+  return await runHandler<unknown, Id<"milestones">>(
+    createMilestone,
+    convex.ctx,
+    { gigId, input: { title, amount } },
+  );
+}
+
+/** Move an application to `hired`, applying the escrow side effect first. */
+async function hire(
+  convex: FakeConvex,
+  gigId: Id<"gigs">,
+  applicationId: Id<"applications">,
+) {
+  const [application, gig] = await Promise.all([
+    convex.ctx.db.get(applicationId),
+    convex.ctx.db.get(gigId),
+  ]);
+  if (!application || !gig) {
+    throw new Error("Seeded rows are missing");
+  }
+  await syncEscrowWithApplicationStatus(convex.ctx, {
+    application,
+    gig,
+    nextStatus: "hired",
+  });
+  await convex.ctx.db.patch(applicationId, { status: "hired" });
+}
+
+function balanceOf(convex: FakeConvex, walletId: Id<"wallets">) {
+  return convex.rows("walletBalances").find((row) => row.walletId === walletId)
+    ?.balance;
+}
+
+function milestone(convex: FakeConvex, milestoneId: Id<"milestones">) {
+  return convex.rows("milestones").find((row) => row._id === milestoneId);
+}
+
+describe("gig milestones", () => {
+  let convex: FakeConvex;
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    convex = createFakeConvex();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("keeps the milestone total within the gig budget", async () => {
+    const { gigId } = await seedMilestoneGig(convex);
+    await addMilestone(convex, gigId, "Design", 200);
+
+    await expect(addMilestone(convex, gigId, "Build", 150)).rejects.toThrow(
+      "Milestone amounts cannot exceed the gig's maximum budget",
+    );
+    await addMilestone(convex, gigId, "Build", 100);
+
+    expect(convex.rows("milestones").map((row) => row.order)).toEqual([1, 2]);
+  });
+
+  it("attaches milestones to the hire and rejects a second hire", async () => {
+    const { gigId, firstApplicationId, secondApplicationId } =
+      await seedMilestoneGig(convex);
+    const milestoneId = await addMilestone(convex, gigId, "Design", 200);
+
+    await hire(convex, gigId, firstApplicationId);
+
+    expect(milestone(convex, milestoneId)?.applicationId).toBe(
+      firstApplicationId,
+    );
+    await expect(hire(convex, gigId, secondApplicationId)).rejects.toThrow(
+      "This milestone gig already has a hire",
+    );
+    expect(milestone(convex, milestoneId)?.applicationId).toBe(
+      firstApplicationId,
+    );
+  });
+
+  it("funds and pays out one milestone at a time", async () => {
+    const { gigId, firstApplicationId, firstCandidateId, employerWalletId } =
+      await seedMilestoneGig(convex);
+    const design = await addMilestone(convex, gigId, "Design", 200);
+    await addMilestone(convex, gigId, "Build", 100);
+
+    await expect(
+      runHandler(fundMilestone, convex.ctx, { milestoneId: design }),
+    ).rejects.toThrow("Hire a candidate before funding milestones");
+
+    await hire(convex, gigId, firstApplicationId);
+    await runHandler(fundMilestone, convex.ctx, { milestoneId: design });
+    await runHandler(fundMilestone, convex.ctx, { milestoneId: design });
+    expect(balanceOf(convex, employerWalletId)).toBe(30_000);
+
+    await runHandler(approveMilestone, convex.ctx, { milestoneId: design });
+
+    const candidateWallet = await getOrCreateWallet(
+      convex.ctx,
+      firstCandidateId,
+      "USD",
+    );
+    expect(balanceOf(convex, candidateWallet._id)).toBe(20_000);
+    expect(milestone(convex, design)?.status).toBe("approved");
+    await expect(
+      runHandler(cancelMilestone, convex.ctx, { milestoneId: design }),
+    ).rejects.toThrow("Approved milestones cannot be cancelled");
+  });
+
+  it("refunds a funded milestone when it is cancelled", async () => {
+    const { gigId, firstApplicationId, employerWalletId } =
+      await seedMilestoneGig(convex);
+    const design = await addMilestone(convex, gigId, "Design", 200);
+    await hire(convex, gigId, firstApplicationId);
+    await runHandler(fundMilestone, convex.ctx, { milestoneId: design });
+
+    await runHandler(cancelMilestone, convex.ctx, { milestoneId: design });
+
+    expect(balanceOf(convex, employerWalletId)).toBe(50_000);
+    expect(milestone(convex, design)?.status).toBe("cancelled");
+    await expect(
+      runHandler(approveMilestone, convex.ctx, { milestoneId: design }),
+    ).rejects.toThrow("Only funded milestones can be approved");
+  });
+});
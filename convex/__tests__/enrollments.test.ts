@@ -0,0 +1,249 @@
+/**
+ * Tests for course checkout pricing and refunds
+ */
+
+import type { Doc, Id } from "../_generated/dataModel";
+import {
+  enrollCurrentUser,
+  REFUND_WINDOW_MS,
+  refundEnrollment,
+  resolveCoursePrice,
+} from "../enrollments";
+import { getOrCreateWallet, postLedgerEntry } from "../finance";
+import {
+  createFakeConvex,
+  runHandler,
+  type FakeConvex,
+} from "./helpers/fakeConvex.testing";
+
+function course(fields: Partial<Doc<"courses">>): Doc<"courses"> {
+  return fields as Doc<"courses">;
+}
+
+describe("resolveCoursePrice", () => {
+  it("charges the full price without a discount", () => {
+    expect(
+      resolveCoursePrice(
+        course({ pricing: { isFree: false, price: 49, currency: "EUR" } }),
+      ),
+    ).toEqual({ amount: 49, currency: "EUR" });
+  });
+
+  it("rounds discounted prices to whole cents", () => {
+    expect(
+      resolveCoursePrice(
+        course({
+          pricing: { isFree: false, price: 19.99, discountPercentage: 15 },
+        }),
+      ),
+    ).toEqual({ amount: 16.99, currency: "USD" });
+    expect(
+      resolveCoursePrice(
+        course({
+          pricing: { isFree: false, price: 10, discountPercentage: 33 },
+        }),
+      ),
+    ).toEqual({ amount: 6.7, currency: "USD" });
+    expect(
+      resolveCoursePrice(
+        course({
+          pricing: { isFree: false, price: 9.99, discountPercentage: 12.5 },
+        }),
+      )?.amount,
+    ).toBe(8.74);
+  });
+
+  it("clamps discounts to the 0-100 range", () => {
+    expect(
+      resolveCoursePrice(
+        course({
+          pricing: { isFree: false, price: 30, discountPercentage: -20 },
+        }),
+      ),
+    ).toEqual({ amount: 30, currency: "USD" });
+    expect(
+      resolveCoursePrice(
+        course({
+          pricing: { isFree: false, price: 30, discountPercentage: 150 },
+        }),
+      ),
+    ).toBeNull();
+  });
+
+  it("returns null for free courses and missing prices", () => {
+    expect(
+      resolveCoursePrice(course({ pricing: { isFree: true, price: 30 } })),
+    ).toBeNull();
+    expect(resolveCoursePrice(course({ pricing: { isFree: false } }))).toBe(
+      null,
+    );
+    expect(
+      resolveCoursePrice(course({ pricing: { isFree: false, price: 0 } })),
+    ).toBeNull();
+  });
+
+  it("falls back to the legacy price field", () => {
+    expect(resolveCoursePrice(course({ price: 25 }))).toEqual({
+      amount: 25,
+      currency: "USD",
+    });
+    expect(resolveCoursePrice(course({}))).toBeNull();
+  });
+});
+
+/** A learner with 100.00 USD and a published 40.00 USD course by another user. */
+async function seedCheckout(convex: FakeConvex) {
+  const authorId = await convex.seed<Id<"users">>("users", {
+    clerkId: "author_1",
+    roles: ["admin"],
+  });
+  const learnerId = await convex.seed<Id<"users">>("users", {
+    clerkId: "learner_1",
+    roles: ["candidate"],
+  });
+  const courseId = await convex.seed<Id<"courses">>("courses", {
+    title: "TypeScript basics",
+    authorId,
+    status: "published",
+    enrollmentCount: 0,
+    pricing: { isFree: false, price: 40, currency: "USD" },
+  });
+
+  const wallet = await getOrCreateWallet(convex.ctx, learnerId, "USD");
+  await postLedgerEntry(convex.ctx, {
+    walletId: wallet._id,
+    amount: 10_000,
+    currency: "USD",
+    type: "DEPOSIT",
+    idempotencyKey: "deposit:learner_1",
+    createdBy: "learner_1",
+  });
+
+  convex.signIn("learner_1");
+  return { authorId, learnerId, courseId };
+}
+
+function balanceOf(convex: FakeConvex, userId: Id<"users">) {
+  const wallet = convex.rows("wallets").find((row) => row.userId === userId);
+  return convex
+    .rows("walletBalances")
+    .find((row) => row.walletId === wallet?._id)?.balance;
+}
+
+async function refund(convex: FakeConvex, courseId: Id<"courses">) {
+  return await runHandler(refundEnrollment, convex.ctx, { courseId });
+}
+
+describe("refundEnrollment", () => {
+  let convex: FakeConvex;
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    convex = createFakeConvex();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("returns the learner's payment and reverses the author's payout", async () => {
+    const { authorId, learnerId, courseId } = await seedCheckout(convex);
+    await enrollCurrentUser(convex.ctx, courseId);
+    expect(balanceOf(convex, learnerId)).toBe(6_000);
+    expect(balanceOf(convex, authorId)).toBe(4_000);
+
+    await refund(convex, courseId);
+
+    expect(balanceOf(convex, learnerId)).toBe(10_000);
+    expect(balanceOf(convex, authorId)).toBe(0);
+    expect(convex.rows("enrollments")[0]).toMatchObject({
+      status: "dropped",
+      paymentStatus: "refunded",
+    });
+    expect(convex.rows("courses")[0]?.enrollmentCount).toBe(0);
+  });
+
+  it("refunds only once", async () => {
+    const { learnerId, courseId } = await seedCheckout(convex);
+    await enrollCurrentUser(convex.ctx, courseId);
+    await refund(convex, courseId);
+
+    await expect(refund(convex, courseId)).rejects.toThrow(
+      "You are not enrolled in this course",
+    );
+    expect(balanceOf(convex, learnerId)).toBe(10_000);
+  });
+
+  it("charges and refunds a re-enrollment on its own keys", async () => {
+    const { authorId, learnerId, courseId } = await seedCheckout(convex);
+    await enrollCurrentUser(convex.ctx, courseId);
+    await refund(convex, courseId);
+
+    jest.spyOn(Date, "now").mockReturnValue(Date.now() + 60_000);
+    await enrollCurrentUser(convex.ctx, courseId);
+    expect(balanceOf(convex, learnerId)).toBe(6_000);
+    await refund(convex, courseId);
+
+    expect(balanceOf(convex, learnerId)).toBe(10_000);
+    expect(balanceOf(convex, authorId)).toBe(0);
+    expect(
+      convex.rows("transactions").filter((row) => row.type === "REFUND"),
+    ).toHaveLength(4);
+  });
+
+  it("closes after the refund window", async () => {
+    const { learnerId, courseId } = await seedCheckout(convex);
+    await enrollCurrentUser(convex.ctx, courseId);
+
+    const enrolledAt = convex.rows("enrollments")[0]?.enrolledAt as number;
+    jest.spyOn(Date, "now").mockReturnValue(enrolledAt + REFUND_WINDOW_MS + 1);
+
+    await expect(refund(convex, courseId)).rejects.toThrow(
+      "The refund window for this course has closed",
+    );
+    expect(balanceOf(convex, learnerId)).toBe(6_000);
+  });
+
+  it("rejects free enrollments", async () => {
+    const { courseId } = await seedCheckout(convex);
+    await convex.ctx.db.patch(courseId, {
+      pricing: { isFree: true, price: 40, currency: "USD" },
+    });
+    await enrollCurrentUser(convex.ctx, courseId);
+
+    await expect(refund(convex, courseId)).rejects.toThrow(
+      "This enrollment has no payment to refund",
+    );
+  });
+
+  it("rejects completed courses", async () => {
+    const { courseId } = await seedCheckout(convex);
+    const { enrollmentId } = await enrollCurrentUser(convex.ctx, courseId);
+    await convex.ctx.db.patch(enrollmentId, { status: "completed" });
+
+    await expect(refund(convex, courseId)).rejects.toThrow(
+      "Completed courses cannot be refunded",
+    );
+  });
+
+  it("fails without crediting the learner when the payout was spent", async () => {
+    const { authorId, learnerId, courseId } = await seedCheckout(convex);
+    await enrollCurrentUser(convex.ctx, courseId);
+    const authorWallet = await getOrCreateWallet(convex.ctx, authorId, "USD");
+    await postLedgerEntry(convex.ctx, {
+      walletId: authorWallet._id,
+      amount: -4_000,
+      currency: "USD",
+      type: "WITHDRAWAL",
+      idempotencyKey: "withdrawal:author_1",
+      createdBy: "author_1",
+    });
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+
+    await expect(refund(convex, courseId)).rejects.toThrow(
+      "This refund cannot be processed right now. Please contact support.",
+    );
+    expect(balanceOf(convex, learnerId)).toBe(6_000);
+    expect(convex.rows("enrollments")[0]?.paymentStatus).toBe("paid");
+  });
+});
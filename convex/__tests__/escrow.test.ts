@@ -0,0 +1,286 @@
+/**
+ * Tests for escrow idempotency keys, ledger replay protection and the
+ * hold/release/refund lifecycle
+ */
+
+import type { Id } from "../_generated/dataModel";
+import {
+  escrowIdempotencyKey,
+  getEscrowSummary,
+  refundGigEscrows,
+  syncEscrowWithApplicationStatus,
+  type EscrowStep,
+} from "../escrow";
+import {
+  getOrCreateWallet,
+  postLedgerEntry,
+  type LedgerEntryInput,
+} from "../finance";
+import {
+  createFakeConvex,
+  type FakeConvex,
+} from "./helpers/fakeConvex.testing";
+
+const walletId = "wallets:1" as Id<"wallets">;
+
+function entry(overrides: Partial<LedgerEntryInput> = {}): LedgerEntryInput {
+  return {
+    walletId,
+    amount: 2500,
+    currency: "USD",
+    type: "ESCROW_HOLD",
+    idempotencyKey: "escrow:hold:app_1",
+    createdBy: "user_1",
+    ...overrides,
+  };
+}
+
+describe("escrowIdempotencyKey", () => {
+  const applicationId = "app_1" as Id<"applications">;
+  const milestoneId = "app_1" as Id<"milestones">;
+
+  it("keeps the original shape for application escrows", () => {
+    expect(
+      escrowIdempotencyKey("hold", { kind: "application", id: applicationId }),
+    ).toBe("escrow:hold:app_1");
+  });
+
+  it("namespaces milestone escrows", () => {
+    expect(
+      escrowIdempotencyKey("release", { kind: "milestone", id: milestoneId }),
+    ).toBe("escrow:release:milestone:app_1");
+  });
+
+  it("gives every step and subject its own key", () => {
+    const steps: EscrowStep[] = ["hold", "release", "refund"];
+    const keys = steps.flatMap((step) => [
+      escrowIdempotencyKey(step, { kind: "application", id: applicationId }),
+      escrowIdempotencyKey(step, { kind: "milestone", id: milestoneId }),
+    ]);
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+});
+
+describe("postLedgerEntry", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("posts an entry once and ignores replays of the same key", async () => {
+    const { ctx, rows } = createFakeConvex();
+
+    const first = await postLedgerEntry(ctx, entry());
+    const replay = await postLedgerEntry(ctx, entry());
+
+    expect(first).toMatchObject({ status: "ok", newBalance: 2500 });
+    expect(replay).toEqual({
+      status: "already_processed",
+      transactionId: first.transactionId,
+      newBalance: 2500,
+    });
+    expect(rows("transactions")).toHaveLength(1);
+    expect(rows("walletBalances")).toHaveLength(1);
+  });
+
+  it("applies entries with different keys", async () => {
+    const { ctx, rows } = createFakeConvex();
+
+    await postLedgerEntry(ctx, entry());
+    const release = await postLedgerEntry(
+      ctx,
+      entry({
+        amount: -2500,
+        type: "ESCROW_RELEASE",
+        idempotencyKey: "escrow:release:app_1",
+      }),
+    );
+
+    expect(release).toMatchObject({ status: "ok", newBalance: 0 });
+    expect(rows("transactions")).toHaveLength(2);
+  });
+
+  it("rejects debits that would overdraw the wallet", async () => {
+    const { ctx, rows } = createFakeConvex();
+
+    await expect(
+      postLedgerEntry(ctx, entry({ amount: -100 })),
+    ).rejects.toThrow();
+    expect(rows("transactions")).toHaveLength(0);
+  });
+
+  it("rejects fractional and zero amounts", async () => {
+    const { ctx } = createFakeConvex();
+
+    await expect(
+      postLedgerEntry(ctx, entry({ amount: 10.5 })),
+    ).rejects.toThrow();
+    await expect(postLedgerEntry(ctx, entry({ amount: 0 }))).rejects.toThrow();
+  });
+});
+
+/** An employer with 500.00 USD, a 250.00 USD gig and one application. */
+async function seedHire(
+  convex: FakeConvex,
+  budgetType: "fixed" | "hourly" = "fixed",
+) {
+  const employerId = await convex.seed<Id<"users">>("users", {
+    clerkId: "employer_1",
+  });
+  const candidateId = await convex.seed<Id<"users">>("users", {
+    clerkId: "candidate_1",
+  });
+  const gigId = await convex.seed<Id<"gigs">>("gigs", {
+    employerId,
+    title: "Landing page",
+    budget: { type: budgetType, min: 100, max: 250, currency: "USD" },
+  });
+  const applicationId = await convex.seed<Id<"applications">>("applications", {
+    gigId,
+    candidateId,
+    status: "shortlisted",
+  });
+  const wallet = await getOrCreateWallet(convex.ctx, employerId, "USD");
+  await postLedgerEntry(convex.ctx, {
+    walletId: wallet._id,
+    amount: 50_000,
+    currency: "USD",
+    type: "DEPOSIT",
+    idempotencyKey: "deposit:employer_1",
+    createdBy: "employer_1",
+  });
+  convex.signIn("employer_1");
+
+  const load = async () => {
+    const [application, gig] = await Promise.all([
+      convex.ctx.db.get(applicationId),
+      convex.ctx.db.get(gigId),
+    ]);
+    if (!application || !gig) {
+      throw new Error("Seeded rows are missing");
+    }
+    return { application, gig };
+  };
+
+  return { employerId, applicationId, gigId, walletId: wallet._id, load };
+}
+
+function balanceOf(convex: FakeConvex, walletId: Id<"wallets">) {
+  return convex.rows("walletBalances").find((row) => row.walletId === walletId)
+    ?.balance;
+}
+
+describe("escrow lifecycle", () => {
+  let convex: FakeConvex;
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    convex = createFakeConvex();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("holds the budget once when an application is hired", async () => {
+    const { applicationId, walletId, load } = await seedHire(convex);
+
+    await syncEscrowWithApplicationStatus(convex.ctx, {
+      ...(await load()),
+      nextStatus: "hired",
+    });
+    await syncEscrowWithApplicationStatus(convex.ctx, {
+      ...(await load()),
+      nextStatus: "assigned",
+    });
+
+    expect(balanceOf(convex, walletId)).toBe(25_000);
+    expect(await getEscrowSummary(convex.ctx, applicationId)).toMatchObject({
+      state: "held",
+      amount: 25_000,
+      currency: "USD",
+    });
+  });
+
+  it("refunds the hold when the engagement ends", async () => {
+    const { applicationId, walletId, load } = await seedHire(convex);
+    await syncEscrowWithApplicationStatus(convex.ctx, {
+      ...(await load()),
+      nextStatus: "hired",
+    });
+
+    await syncEscrowWithApplicationStatus(convex.ctx, {
+      ...(await load()),
+      nextStatus: "closed",
+    });
+    await syncEscrowWithApplicationStatus(convex.ctx, {
+      ...(await load()),
+      nextStatus: "rejected",
+    });
+
+    expect(balanceOf(convex, walletId)).toBe(50_000);
+    expect(await getEscrowSummary(convex.ctx, applicationId)).toMatchObject({
+      state: "refunded",
+    });
+    await expect(
+      syncEscrowWithApplicationStatus(convex.ctx, {
+        ...(await load()),
+        nextStatus: "hired",
+      }),
+    ).rejects.toThrow("Escrow for this application has already been settled");
+  });
+
+  it("does not hold anything for hourly gigs", async () => {
+    const { walletId, load } = await seedHire(convex, "hourly");
+
+    await syncEscrowWithApplicationStatus(convex.ctx, {
+      ...(await load()),
+      nextStatus: "hired",
+    });
+
+    expect(balanceOf(convex, walletId)).toBe(50_000);
+    expect(
+      convex.rows("transactions").filter((row) => row.type === "ESCROW_HOLD"),
+    ).toHaveLength(0);
+  });
+
+  it("fails the hire when the employer cannot cover the budget", async () => {
+    const { walletId, load } = await seedHire(convex);
+    await postLedgerEntry(convex.ctx, {
+      walletId,
+      amount: -40_000,
+      currency: "USD",
+      type: "WITHDRAWAL",
+      idempotencyKey: "withdrawal:employer_1",
+      createdBy: "employer_1",
+    });
+
+    await expect(
+      syncEscrowWithApplicationStatus(convex.ctx, {
+        ...(await load()),
+        nextStatus: "hired",
+      }),
+    ).rejects.toThrow("Insufficient balance for transaction");
+  });
+
+  it("refunds held applications when the gig is cancelled", async () => {
+    const { applicationId, walletId, load } = await seedHire(convex);
+    await syncEscrowWithApplicationStatus(convex.ctx, {
+      ...(await load()),
+      nextStatus: "hired",
+    });
+    await convex.ctx.db.patch(applicationId, { status: "hired" });
+
+    const { gig } = await load();
+    await refundGigEscrows(convex.ctx, gig);
+    await refundGigEscrows(convex.ctx, gig);
+
+    expect(balanceOf(convex, walletId)).toBe(50_000);
+    expect(
+      convex.rows("transactions").filter((row) => row.type === "REFUND"),
+    ).toHaveLength(1);
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Tests for chat attachment uploads, sending and cleanup
+ */
+
+import type { Id } from "../_generated/dataModel";
+import { deleteMessage, sendMessage } from "../chatMessages";
+import { saveFileMetadata } from "../files";
+import {
+  createFakeConvex,
+  runHandler,
+  type FakeConvex,
+} from "./helpers/fakeConvex.testing";
+
+interface Attachment {
+  storageId: string;
+  url: string;
+  name: string;
+  contentType: string;
+  size: number;
+  previewUrl?: string;
+}
+
+async function seedConversation(convex: FakeConvex) {
+  const [aliceId, bobId] = [
+    await convex.seed<Id<"users">>("users", { clerkId: "alice" }),
+    await convex.seed<Id<"users">>("users", { clerkId: "bob" }),
+  ];
+  await convex.seed("users", { clerkId: "mallory" });
+  const conversationId = await convex.seed<Id<"conversations">>(
+    "conversations",
+    { participants: [aliceId, bobId] },
+  );
+  return { conversationId };
+}
+
+async function attach(
+  convex: FakeConvex,
+  clerkId: string,
+  conversationId: Id<"conversations">,
+  storageId: string,
+  previewStorageId?: string,
+) {
+  convex.signIn(clerkId);
+  return await runHandler<unknown, Id<"fileMetadata">>(
+    saveFileMetadata,
+    convex.ctx,
+    {
+      storageId,
+      originalName: "brief.pdf",
+      contentType: "application/pdf",
+      fileSize: 1,
+      category: "chat-attachment",
+      conversationId,
+      previewStorageId,
+    },
+  );
+}
+
+async function sendFiles(
+  convex: FakeConvex,
+  conversationId: Id<"conversations">,
+  storageIds: string[],
+) {
+  return await runHandler<unknown, Id<"messages">>(sendMessage, convex.ctx, {
+    conversationId,
+    messageType: "file",
+    attachments: storageIds.map((storageId) => ({ storageId })),
+  });
+}
+
+function uploadPdf(convex: FakeConvex) {
+  return convex.upload({ contentType: "application/pdf", size: 2048 });
+}
+
+describe("chat attachments", () => {
+  let convex: FakeConvex;
+
+  beforeEach(() => {
+    convex = createFakeConvex();
+  });
+
+  describe("saveFileMetadata", () => {
+    it("records the stored type and size against the conversation", async () => {
+      const { conversationId } = await seedConversation(convex);
+      const storageId = uploadPdf(convex);
+      const previewId = convex.upload({ contentType: "image/png", size: 100 });
+
+      await attach(convex, "alice", conversationId, storageId, previewId);
+
+      expect(convex.rows("fileMetadata")[0]).toMatchObject({
+        storageId,
+        previewStorageId: previewId,
+        conversationId,
+        contentType: "application/pdf",
+        fileSize: 2048,
+        uploadedBy: "alice",
+      });
+    });
+
+    it("rejects outsiders, reused uploads and bad previews", async () => {
+      const { conversationId } = await seedConversation(convex);
+      const storageId = uploadPdf(convex);
+      const largePreviewId = convex.upload({
+        contentType: "image/png",
+        size: 600 * 1024,
+      });
+
+      await expect(
+        attach(convex, "mallory", conversationId, storageId),
+      ).rejects.toThrow("Unauthorized");
+      await expect(
+        attach(convex, "alice", conversationId, storageId, storageId),
+      ).rejects.toThrow("Invalid attachment preview");
+      await expect(
+        attach(convex, "alice", conversationId, storageId, largePreviewId),
+      ).rejects.toThrow("Invalid attachment preview");
+
+      await attach(convex, "alice", conversationId, storageId);
+      await expect(
+        attach(convex, "bob", conversationId, storageId),
+      ).rejects.toThrow("File has already been saved");
+      await expect(
+        attach(convex, "bob", conversationId, uploadPdf(convex), storageId),
+      ).rejects.toThrow("Invalid attachment preview");
+    });
+
+    it("checks the stored content type, not the reported one", async () => {
+      const { conversationId } = await seedConversation(convex);
+      const storageId = convex.upload({
+        contentType: "application/x-msdownload",
+        size: 10,
+      });
+
+      await expect(
+        attach(convex, "alice", conversationId, storageId),
+      ).rejects.toThrow(
+        "Invalid file type application/x-msdownload for category chat-attachment",
+      );
+      expect(convex.rows("fileMetadata")).toHaveLength(0);
+    });
+  });
+
+  describe("sending files", () => {
+    it("resolves each attachment once and counts its use", async () => {
+      const { conversationId } = await seedConversation(convex);
+      const storageId = uploadPdf(convex);
+      const previewId = convex.upload({ contentType: "image/png", size: 100 });
+      await attach(convex, "alice", conversationId, storageId, previewId);
+
+      await sendFiles(convex, conversationId, [storageId, storageId]);
+
+      const [message] = convex.rows("messages");
+      expect(message?.attachments as Attachment[]).toEqual([
+        {
+          storageId,
+          url: `https://storage.test/${storageId}`,
+          name: "brief.pdf",
+          contentType: "application/pdf",
+          size: 2048,
+          previewUrl: `https://storage.test/${previewId}`,
+        },
+      ]);
+      expect(convex.rows("fileMetadata")[0]?.usageCount).toBe(1);
+    });
+
+    it("only sends files the sender uploaded to this conversation", async () => {
+      const { conversationId } = await seedConversation(convex);
+      const storageId = uploadPdf(convex);
+      await attach(convex, "alice", conversationId, storageId);
+
+      convex.signIn("bob");
+      await expect(
+        sendFiles(convex, conversationId, [storageId]),
+      ).rejects.toThrow("Attachment not found");
+      await expect(sendFiles(convex, conversationId, [])).rejects.toThrow(
+        "Attachments are required for file messages",
+      );
+      await expect(
+        sendFiles(
+          convex,
+          conversationId,
+          Array.from({ length: 11 }, () => storageId),
+        ),
+      ).rejects.toThrow("A message can include at most 10 attachments");
+      expect(convex.rows("messages")).toHaveLength(0);
+    });
+  });
+
+  it("removes files and previews when the message is deleted", async () => {
+    const { conversationId } = await seedConversation(convex);
+    const storageId = uploadPdf(convex);
+    const previewId = convex.upload({ contentType: "image/png", size: 100 });
+    await attach(convex, "alice", conversationId, storageId, previewId);
+    const messageId = await sendFiles(convex, conversationId, [storageId]);
+
+    await runHandler(deleteMessage, convex.ctx, { messageId });
+
+    expect(
+      await convex.ctx.storage.getUrl(storageId as Id<"_storage">),
+    ).toBeNull();
+    expect(
+      await convex.ctx.storage.getUrl(previewId as Id<"_storage">),
+    ).toBeNull();
+    expect(typeof convex.rows("fileMetadata")[0]?.deletedAt).toBe("number");
+    expect(convex.rows("messages")[0]).not.toHaveProperty("attachments");
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * Tests for the gamification rules engine and its read models
+ */
+
+import type { Id } from "../_generated/dataModel";
+import {
+  createRule,
+  dispatchGamificationEvent,
+  equipTitle,
+  getGamificationSummary,
+  getLeaderboard,
+} from "../gamification";
+import {
+  createFakeConvex,
+  runHandler,
+  type FakeConvex,
+} from "./helpers/fakeConvex.testing";
+
+interface LeaderboardRow {
+  rank: number;
+  userId: Id<"users">;
+  name: string;
+  totalPoints: number;
+  title: string | null;
+}
+
+/** A learner plus a badge and two titles for rules to hand out. */
+async function seedRewards(convex: FakeConvex) {
+  const userId = await convex.seed<Id<"users">>("users", {
+    clerkId: "learner_1",
+    name: "Learner",
+    roles: ["candidate"],
+  });
+  const badgeId = await convex.seed<Id<"badges">>("badges", {
+    name: "First steps",
+    description: "Completed a lesson",
+    iconUrl: "/badges/first-steps.svg",
+  });
+  const [rookieId, scholarId] = [
+    await convex.seed<Id<"titles">>("titles", {
+      name: "Rookie",
+      description: "Just getting started",
+    }),
+    await convex.seed<Id<"titles">>("titles", {
+      name: "Scholar",
+      description: "Finished a course",
+    }),
+  ];
+  return { userId, badgeId, rookieId, scholarId };
+}
+
+function lessonCompleted(userId: Id<"users">, lessonId: string) {
+  return {
+    eventName: "lesson.completed" as const,
+    userId,
+    relatedEntityId: lessonId,
+  };
+}
+
+describe("gamification", () => {
+  let convex: FakeConvex;
+
+  beforeEach(() => {
+    convex = createFakeConvex();
+  });
+
+  describe("dispatchGamificationEvent", () => {
+    it("awards points once per entity and rewards once per user", async () => {
+      const { userId, badgeId, rookieId } = await seedRewards(convex);
+      const ruleId = await convex.seed<Id<"gamificationRules">>(
+        "gamificationRules",
+        {
+          eventName: "lesson.completed",
+          description: "Lesson done",
+          pointsAwarded: 10,
+          badgeIdToAward: badgeId,
+          titleIdToAward: rookieId,
+        },
+      );
+
+      expect(
+        await dispatchGamificationEvent(
+          convex.ctx,
+          lessonCompleted(userId, "lesson_a"),
+        ),
+      ).toEqual([{ ruleId, points: 10, badgeId, titleId: rookieId }]);
+      expect(
+        await dispatchGamificationEvent(
+          convex.ctx,
+          lessonCompleted(userId, "lesson_a"),
+        ),
+      ).toEqual([]);
+      expect(
+        await dispatchGamificationEvent(
+          convex.ctx,
+          lessonCompleted(userId, "lesson_b"),
+        ),
+      ).toEqual([{ ruleId, points: 10 }]);
+
+      expect(convex.rows("pointsLog")).toHaveLength(2);
+      expect(convex.rows("userBadges")).toHaveLength(1);
+      expect(convex.rows("gamificationScores")).toEqual([
+        expect.objectContaining({ userId, totalPoints: 20 }),
+      ]);
+    });
+
+    it("only evaluates rules subscribed to the event", async () => {
+      const { userId } = await seedRewards(convex);
+      await convex.seed("gamificationRules", {
+        eventName: "application.sent",
+        description: "Applied",
+        pointsAwarded: 5,
+      });
+
+      expect(
+        await dispatchGamificationEvent(
+          convex.ctx,
+          lessonCompleted(userId, "lesson_a"),
+        ),
+      ).toEqual([]);
+      expect(convex.rows("gamificationScores")).toHaveLength(0);
+    });
+
+    it("equips only the first title a user earns", async () => {
+      const { userId, rookieId, scholarId } = await seedRewards(convex);
+      await convex.seed("gamificationRules", {
+        eventName: "lesson.completed",
+        description: "Lesson done",
+        titleIdToAward: rookieId,
+      });
+      await convex.seed("gamificationRules", {
+        eventName: "course.completed",
+        description: "Course done",
+        titleIdToAward: scholarId,
+      });
+
+      await dispatchGamificationEvent(
+        convex.ctx,
+        lessonCompleted(userId, "lesson_a"),
+      );
+      await dispatchGamificationEvent(convex.ctx, {
+        eventName: "course.completed",
+        userId,
+        relatedEntityId: "course_a",
+      });
+
+      const summary = await getGamificationSummary(convex.ctx, userId);
+      expect(summary.equippedTitle).toEqual({ _id: rookieId, name: "Rookie" });
+      expect(
+        summary.titles.map(({ name, isEquipped }) => [name, isEquipped]),
+      ).toEqual([
+        ["Rookie", true],
+        ["Scholar", false],
+      ]);
+    });
+  });
+
+  describe("equipTitle", () => {
+    it("switches the equipped title to one the user owns", async () => {
+      const { userId, rookieId, scholarId } = await seedRewards(convex);
+      await convex.seed("userTitles", {
+        userId,
+        titleId: rookieId,
+        isEquipped: true,
+        createdBy: "learner_1",
+      });
+      convex.signIn("learner_1");
+
+      await expect(
+        runHandler(equipTitle, convex.ctx, { titleId: scholarId }),
+      ).rejects.toThrow("You have not earned this title");
+
+      await convex.seed("userTitles", {
+        userId,
+        titleId: scholarId,
+        isEquipped: false,
+        createdBy: "learner_1",
+      });
+      await runHandler(equipTitle, convex.ctx, { titleId: scholarId });
+
+      expect(
+        (await getGamificationSummary(convex.ctx, userId)).equippedTitle,
+      ).toEqual({ _id: scholarId, name: "Scholar" });
+      expect(
+        convex.rows("userTitles").filter((row) => row.isEquipped),
+      ).toHaveLength(1);
+    });
+  });
+
+  describe("getLeaderboard", () => {
+    it("ranks users by points with their equipped title", async () => {
+      const { userId, rookieId } = await seedRewards(convex);
+      const rivalId = await convex.seed<Id<"users">>("users", {
+        clerkId: "learner_2",
+        name: "Rival",
+      });
+      await convex.seed("userTitles", {
+        userId: rivalId,
+        titleId: rookieId,
+        isEquipped: true,
+        createdBy: "learner_2",
+      });
+      await convex.seed("gamificationScores", {
+        userId,
+        totalPoints: 15,
+        updatedAt: 0,
+      });
+      await convex.seed("gamificationScores", {
+        userId: rivalId,
+        totalPoints: 40,
+        updatedAt: 0,
+      });
+
+      const rows = await runHandler<unknown, LeaderboardRow[]>(
+        getLeaderboard,
+        convex.ctx,
+        { limit: 5 },
+      );
+
+      expect(rows).toEqual([
+        expect.objectContaining({
+          rank: 1,
+          userId: rivalId,
+          totalPoints: 40,
+          title: "Rookie",
+        }),
+        expect.objectContaining({
+          rank: 2,
+          name: "Learner",
+          totalPoints: 15,
+          title: null,
+        }),
+      ]);
+      const clamped = await runHandler<unknown, LeaderboardRow[]>(
+        getLeaderboard,
+        convex.ctx,
+        { limit: 0 },
+      );
+      expect(clamped).toHaveLength(1);
+    });
+  });
+
+  describe("createRule", () => {
+    it("requires an admin and something to award", async () => {
+      await seedRewards(convex);
+      await convex.seed("users", { clerkId: "admin_1", roles: ["admin"] });
+      const rule = { eventName: "lesson.completed", description: "Lesson" };
+
+      convex.signIn("learner_1");
+      await expect(
+        runHandler(createRule, convex.ctx, { ...rule, pointsAwarded: 5 }),
+      ).rejects.toThrow("Gamification management requires admin access");
+
+      convex.signIn("admin_1");
+      await expect(runHandler(createRule, convex.ctx, rule)).rejects.toThrow(
+        "A rule must award points, a badge or a title",
+      );
+      await expect(
+        runHandler(createRule, convex.ctx, { ...rule, pointsAwarded: 2.5 }),
+      ).rejects.toThrow("Points must be a positive whole number");
+      await runHandler(createRule, convex.ctx, { ...rule, pointsAwarded: 5 });
+
+      expect(convex.rows("gamificationRules")).toEqual([
+        expect.objectContaining({
+          eventName: "lesson.completed",
+          pointsAwarded: 5,
+        }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,357 @@
+/**
+ * In-memory stand-in for a Convex mutation context, for running mutation
+ * handlers in tests. Index ranges and ordering follow the indexes declared
+ * in `convex/schema.ts`; scheduled functions are recorded, not run. The
+ * second dot in the file name keeps the Convex bundler from deploying it.
+ */
+
+import { getFunctionName, type FunctionReference } from "convex/server";
+import type { MutationCtx } from "../../_generated/server";
+import schema from "../../schema";
+
+type Row = Record<string, unknown> & { _id: string; _creationTime: number };
+type Value = unknown;
+type Expression = (row: Row) => Value;
+
+interface ScheduledCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+function readField(row: Row, path: string): Value {
+  return path
+    .split(".")
+    .reduce<Value>(
+      (value, key) =>
+        value && typeof value === "object"
+          ? (value as Record<string, unknown>)[key]
+          : undefined,
+      row,
+    );
+}
+
+/** Convex ordering for the values tests use: undefined < null < numbers/strings. */
+function compareValues(a: Value, b: Value): number {
+  if (a === b) return 0;
+  if (a === undefined) return -1;
+  if (b === undefined) return 1;
+  if (a === null) return -1;
+  if (b === null) return 1;
+  if (typeof a === "boolean" && typeof b === "boolean") {
+    return Number(a) - Number(b);
+  }
+  return (a as number | string) < (b as number | string) ? -1 : 1;
+}
+
+function indexFields(table: string, indexName: string): string[] {
+  if (indexName === "by_creation_time") {
+    return [];
+  }
+  const tables = schema.tables as Record<
+    string,
+    { " indexes"(): Array<{ indexDescriptor: string; fields: string[] }> }
+  >;
+  const index = tables[table]?.[" indexes"]().find(
+    (candidate) => candidate.indexDescriptor === indexName,
+  );
+  if (!index) {
+    throw new Error(`Unknown index ${table}.${indexName}`);
+  }
+  return index.fields;
+}
+
+class RangeBuilder {
+  readonly tests: Array<(row: Row) => boolean> = [];
+
+  eq(field: string, value: Value) {
+    this.tests.push((row) => compareValues(readField(row, field), value) === 0);
+    return this;
+  }
+
+  gt(field: string, value: Value) {
+    this.tests.push((row) => compareValues(readField(row, field), value) > 0);
+    return this;
+  }
+
+  gte(field: string, value: Value) {
+    this.tests.push((row) => compareValues(readField(row, field), value) >= 0);
+    return this;
+  }
+
+  lt(field: string, value: Value) {
+    this.tests.push((row) => compareValues(readField(row, field), value) < 0);
+    return this;
+  }
+
+  lte(field: string, value: Value) {
+    this.tests.push((row) => compareValues(readField(row, field), value) <= 0);
+    return this;
+  }
+}
+
+const toExpression = (value: Value): Expression =>
+  typeof value === "function" ? (value as Expression) : () => value;
+
+/** The `q` handed to `.filter()` callbacks. */
+const filterBuilder = {
+  field:
+    (path: string): Expression =>
+    (row) =>
+      readField(row, path),
+  eq:
+    (a: Value, b: Value): Expression =>
+    (row) =>
+      compareValues(toExpression(a)(row), toExpression(b)(row)) === 0,
+  neq:
+    (a: Value, b: Value): Expression =>
+    (row) =>
+      compareValues(toExpression(a)(row), toExpression(b)(row)) !== 0,
+  gt:
+    (a: Value, b: Value): Expression =>
+    (row) =>
+      compareValues(toExpression(a)(row), toExpression(b)(row)) > 0,
+  gte:
+    (a: Value, b: Value): Expression =>
+    (row) =>
+      compareValues(toExpression(a)(row), toExpression(b)(row)) >= 0,
+  lt:
+    (a: Value, b: Value): Expression =>
+    (row) =>
+      compareValues(toExpression(a)(row), toExpression(b)(row)) < 0,
+  lte:
+    (a: Value, b: Value): Expression =>
+    (row) =>
+      compareValues(toExpression(a)(row), toExpression(b)(row)) <= 0,
+  and:
+    (...parts: Value[]): Expression =>
+    (row) =>
+      parts.every((part) => toExpression(part)(row)),
+  or:
+    (...parts: Value[]): Expression =>
+    (row) =>
+      parts.some((part) => toExpression(part)(row)),
+  not:
+    (part: Value): Expression =>
+    (row) =>
+      !toExpression(part)(row),
+};
+
+class FakeQuery {
+  private fields: string[] = [];
+  private tests: Array<(row: Row) => boolean> = [];
+  private descending = false;
+
+  constructor(
+    private readonly table: string,
+    private readonly source: () => Row[],
+  ) {}
+
+  withIndex(indexName: string, range?: (q: RangeBuilder) => unknown) {
+    this.fields = indexFields(this.table, indexName);
+    const builder = new RangeBuilder();
+    range?.(builder);
+    this.tests.push(...builder.tests);
+    return this;
+  }
+
+  order(direction: "asc" | "desc") {
+    this.descending = direction === "desc";
+    return this;
+  }
+
+  filter(predicate: (q: typeof filterBuilder) => Value) {
+    const expression = toExpression(predicate(filterBuilder));
+    this.tests.push((row) => Boolean(expression(row)));
+    return this;
+  }
+
+  private rows(): Row[] {
+    const rows = this.source()
+      .filter((row) => this.tests.every((test) => test(row)))
+      .sort((a, b) => {
+        for (const field of [...this.fields, "_creationTime"]) {
+          const order = compareValues(readField(a, field), readField(b, field));
+          if (order !== 0) return order;
+        }
+        return 0;
+      });
+    return this.descending ? rows.reverse() : rows;
+  }
+
+  async collect() {
+    return this.rows().map((row) => ({ ...row }));
+  }
+
+  async take(count: number) {
+    return (await this.collect()).slice(0, count);
+  }
+
+  async first() {
+    return (await this.collect())[0] ?? null;
+  }
+
+  async unique() {
+    const rows = await this.collect();
+    if (rows.length > 1) {
+      throw new Error(`unique() matched ${rows.length} ${this.table} rows`);
+    }
+    return rows[0] ?? null;
+  }
+
+  async paginate({
+    cursor,
+    numItems,
+  }: {
+    cursor: string | null;
+    numItems: number;
+  }) {
+    const rows = await this.collect();
+    const start = cursor ? Number(cursor) : 0;
+    const end = start + numItems;
+    return {
+      page: rows.slice(start, end),
+      isDone: end >= rows.length,
+      continueCursor: String(Math.min(end, rows.length)),
+    };
+  }
+}
+
+/**
+ * Create an empty database and a `ctx` bound to it. `signIn` sets the Clerk
+ * subject returned by `ctx.auth.getUserIdentity()`.
+ */
+export function createFakeConvex() {
+  const tables = new Map<string, Row[]>();
+  const storage = new Map<string, { contentType?: string; size: number }>();
+  const scheduled: ScheduledCall[] = [];
+  let subject: string | null = null;
+  let nextId = 1;
+  let lastCreationTime = 0;
+
+  const rowsOf = (table: string) => {
+    let rows = tables.get(table);
+    if (!rows) {
+      rows = [];
+      tables.set(table, rows);
+    }
+    return rows;
+  };
+
+  const locate = (id: string) => {
+    const rows = rowsOf(id.split(":")[0] ?? "");
+    const index = rows.findIndex((row) => row._id === id);
+    return { rows, index, row: rows[index] };
+  };
+
+  const db = {
+    query: (table: string) => new FakeQuery(table, () => rowsOf(table)),
+    get: async (id: string) => {
+      const { row } = locate(id);
+      return row ? { ...row } : null;
+    },
+    normalizeId: (table: string, id: string) =>
+      id.startsWith(`${table}:`) && locate(id).row ? id : null,
+    insert: async (table: string, value: Record<string, unknown>) => {
+      const _id = `${table}:${nextId++}`;
+      lastCreationTime = Math.max(Date.now(), lastCreationTime + 1);
+      rowsOf(table).push({ ...value, _id, _creationTime: lastCreationTime });
+      return _id;
+    },
+    patch: async (id: string, value: Record<string, unknown>) => {
+      const { rows, index, row } = locate(id);
+      if (!row) {
+        throw new Error(`patch on missing document ${id}`);
+      }
+      const patched = { ...row, ...value };
+      for (const [key, fieldValue] of Object.entries(value)) {
+        if (fieldValue === undefined) {
+          delete patched[key];
+        }
+      }
+      rows[index] = patched;
+    },
+    replace: async (id: string, value: Record<string, unknown>) => {
+      const { rows, index, row } = locate(id);
+      if (!row) {
+        throw new Error(`replace on missing document ${id}`);
+      }
+      rows[index] = {
+        ...value,
+        _id: row._id,
+        _creationTime: row._creationTime,
+      };
+    },
+    delete: async (id: string) => {
+      const { rows, index } = locate(id);
+      if (index !== -1) {
+        rows.splice(index, 1);
+      }
+    },
+  };
+
+  const ctx = {
+    db,
+    auth: {
+      getUserIdentity: async () =>
+        subject ? { subject, tokenIdentifier: `clerk|${subject}` } : null,
+    },
+    storage: {
+      getUrl: async (id: string) =>
+        storage.has(id) ? `https://storage.test/${id}` : null,
+      getMetadata: async (id: string) => {
+        const file = storage.get(id);
+        return file ? { storageId: id, sha256: "", ...file } : null;
+      },
+      delete: async (id: string) => {
+        storage.delete(id);
+      },
+      generateUploadUrl: async () => "https://storage.test/upload",
+    },
+    scheduler: {
+      runAfter: async (
+        _delay: number,
+        reference: FunctionReference<"mutation" | "action", "internal">,
+        args: Record<string, unknown> = {},
+      ) => {
+        scheduled.push({ name: getFunctionName(reference), args });
+        return `_scheduled_functions:${nextId++}`;
+      },
+    },
+  };
+
+  return {
+    ctx: ctx as unknown as MutationCtx,
+    /** Insert a row directly, bypassing mutations. */
+    seed: async <T extends string>(
+      table: string,
+      value: Record<string, unknown>,
+    ) => (await db.insert(table, value)) as T,
+    /** Every row in a table, in insertion order. */
+    rows: (table: string) => rowsOf(table).map((row) => ({ ...row })),
+    /** Register an uploaded storage object. */
+    upload: (file: { contentType?: string; size: number }) => {
+      const id = `_storage:${nextId++}`;
+      storage.set(id, file);
+      return id;
+    },
+    signIn: (clerkId: string | null) => {
+      subject = clerkId;
+    },
+    /** Names and arguments of functions scheduled so far. */
+    scheduled,
+  };
+}
+
+export type FakeConvex = ReturnType<typeof createFakeConvex>;
+
+/** Run a registered mutation or query's handler against `ctx`. */
+export async function runHandler<Args, Result>(
+  fn: unknown,
+  ctx: MutationCtx,
+  args: Args,
+): Promise<Result> {
+  const { _handler } = fn as {
+    _handler: (ctx: MutationCtx, args: Args) => Promise<Result>;
+  };
+  return await _handler(ctx, args);
+}
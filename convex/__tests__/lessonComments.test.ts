@@ -0,0 +1,239 @@
+/**
+ * Tests for threaded lesson comments, likes and moderation
+ */
+
+import type { Id } from "../_generated/dataModel";
+import {
+  create,
+  edit,
+  listForLesson,
+  remove,
+  setHidden,
+  toggleLike,
+  type LessonCommentView,
+} from "../lessonComments";
+import {
+  createFakeConvex,
+  runHandler,
+  type FakeConvex,
+} from "./helpers/fakeConvex.testing";
+
+interface CommentPage {
+  page: Array<LessonCommentView & { replies: LessonCommentView[] }>;
+  isDone: boolean;
+  continueCursor: string;
+}
+
+/** A lesson with its instructor, two learners and a moderator. */
+async function seedLesson(convex: FakeConvex) {
+  const instructorId = await convex.seed<Id<"users">>("users", {
+    clerkId: "instructor_1",
+    name: "Instructor",
+    roles: ["admin"],
+  });
+  for (const clerkId of ["learner_1", "learner_2"]) {
+    await convex.seed("users", {
+      clerkId,
+      name: clerkId,
+      roles: ["candidate"],
+    });
+  }
+  await convex.seed("users", {
+    clerkId: "moderator_1",
+    name: "Moderator",
+    roles: ["moderator"],
+  });
+  const courseId = await convex.seed<Id<"courses">>("courses", {
+    title: "Course",
+    authorId: instructorId,
+  });
+  const lessonId = await convex.seed<Id<"lessons">>("lessons", {
+    courseId,
+    order: 0,
+    title: "Intro",
+  });
+  return { lessonId };
+}
+
+async function post(
+  convex: FakeConvex,
+  clerkId: string,
+  lessonId: Id<"lessons">,
+  body: string,
+  parentId?: Id<"lessonComments">,
+) {
+  convex.signIn(clerkId);
+  return await runHandler<unknown, Id<"lessonComments">>(create, convex.ctx, {
+    lessonId,
+    body,
+    parentId,
+  });
+}
+
+async function list(
+  convex: FakeConvex,
+  clerkId: string,
+  lessonId: Id<"lessons">,
+  numItems = 10,
+) {
+  convex.signIn(clerkId);
+  return await runHandler<unknown, CommentPage>(listForLesson, convex.ctx, {
+    lessonId,
+    paginationOpts: { cursor: null, numItems },
+  });
+}
+
+function comment(convex: FakeConvex, commentId: Id<"lessonComments">) {
+  return convex.rows("lessonComments").find((row) => row._id === commentId);
+}
+
+describe("lesson comments", () => {
+  let convex: FakeConvex;
+
+  beforeEach(() => {
+    convex = createFakeConvex();
+  });
+
+  it("keeps reply threads one level deep", async () => {
+    const { lessonId } = await seedLesson(convex);
+    const rootId = await post(convex, "learner_1", lessonId, " Question? ");
+    const replyId = await post(
+      convex,
+      "instructor_1",
+      lessonId,
+      "Answer",
+      rootId,
+    );
+    const nestedId = await post(
+      convex,
+      "learner_1",
+      lessonId,
+      "Thanks",
+      replyId,
+    );
+
+    expect(comment(convex, rootId)).toMatchObject({
+      body: "Question?",
+      replyCount: 2,
+    });
+    expect(comment(convex, nestedId)?.parentId).toBe(rootId);
+
+    const { page } = await list(convex, "learner_2", lessonId);
+    expect(page).toHaveLength(1);
+    expect(page[0]?.replies.map((reply) => reply.body)).toEqual([
+      "Answer",
+      "Thanks",
+    ]);
+    expect(page[0]?.replies.map((reply) => reply.isInstructor)).toEqual([
+      true,
+      false,
+    ]);
+  });
+
+  it("pages root comments newest first", async () => {
+    const { lessonId } = await seedLesson(convex);
+    for (const body of ["First", "Second", "Third"]) {
+      await post(convex, "learner_1", lessonId, body);
+    }
+
+    const result = await list(convex, "learner_1", lessonId, 2);
+
+    expect(result.page.map((row) => row.body)).toEqual(["Third", "Second"]);
+    expect(result.isDone).toBe(false);
+  });
+
+  it("only lets authors edit, and validates the body", async () => {
+    const { lessonId } = await seedLesson(convex);
+    const commentId = await post(convex, "learner_1", lessonId, "Draft");
+
+    await expect(
+      runHandler(edit, convex.ctx, { commentId, body: "   " }),
+    ).rejects.toThrow("Comment cannot be empty");
+    await expect(
+      runHandler(edit, convex.ctx, { commentId, body: "x".repeat(2001) }),
+    ).rejects.toThrow("Comments must be 2000 characters or fewer");
+    await runHandler(edit, convex.ctx, { commentId, body: "Final" });
+
+    convex.signIn("moderator_1");
+    await expect(
+      runHandler(edit, convex.ctx, { commentId, body: "Moderated" }),
+    ).rejects.toThrow("You can only edit your own comments");
+    expect(comment(convex, commentId)).toMatchObject({ body: "Final" });
+    expect(comment(convex, commentId)?.editedAt).toEqual(expect.any(Number));
+  });
+
+  it("keeps deleted roots as placeholders while they have replies", async () => {
+    const { lessonId } = await seedLesson(convex);
+    const rootId = await post(convex, "learner_1", lessonId, "Question");
+    const replyId = await post(convex, "learner_2", lessonId, "Reply", rootId);
+
+    convex.signIn("learner_2");
+    await expect(
+      runHandler(remove, convex.ctx, { commentId: rootId }),
+    ).rejects.toThrow("You can only delete your own comments");
+    convex.signIn("learner_1");
+    await runHandler(remove, convex.ctx, { commentId: rootId });
+
+    const [placeholder] = (await list(convex, "learner_2", lessonId)).page;
+    expect(placeholder).toMatchObject({
+      body: "",
+      author: null,
+      isDeleted: true,
+      canDelete: false,
+    });
+    expect(placeholder?.replies).toHaveLength(1);
+
+    convex.signIn("moderator_1");
+    await runHandler(remove, convex.ctx, { commentId: replyId });
+    expect(comment(convex, rootId)?.replyCount).toBe(0);
+    expect((await list(convex, "learner_2", lessonId)).page).toHaveLength(0);
+  });
+
+  it("toggles likes per user", async () => {
+    const { lessonId } = await seedLesson(convex);
+    const commentId = await post(convex, "learner_1", lessonId, "Nice");
+
+    convex.signIn("learner_2");
+    expect(await runHandler(toggleLike, convex.ctx, { commentId })).toEqual({
+      liked: true,
+    });
+    const [liked] = (await list(convex, "learner_2", lessonId)).page;
+    expect(liked).toMatchObject({ likeCount: 1, likedByViewer: true });
+
+    expect(await runHandler(toggleLike, convex.ctx, { commentId })).toEqual({
+      liked: false,
+    });
+    expect(comment(convex, commentId)?.likeCount).toBe(0);
+    expect(convex.rows("lessonCommentLikes")).toHaveLength(0);
+  });
+
+  it("hides comments from learners but not from moderators", async () => {
+    const { lessonId } = await seedLesson(convex);
+    const commentId = await post(convex, "learner_1", lessonId, "Spam");
+
+    convex.signIn("learner_2");
+    await expect(
+      runHandler(setHidden, convex.ctx, { commentId, hidden: true }),
+    ).rejects.toThrow("Only course moderators can hide comments");
+
+    convex.signIn("instructor_1");
+    await runHandler(setHidden, convex.ctx, {
+      commentId,
+      hidden: true,
+      reason: " Off topic ",
+    });
+
+    expect(comment(convex, commentId)?.hiddenReason).toBe("Off topic");
+    expect((await list(convex, "learner_2", lessonId)).page).toHaveLength(0);
+    expect((await list(convex, "moderator_1", lessonId)).page).toEqual([
+      expect.objectContaining({ isHidden: true, canModerate: true }),
+    ]);
+    await expect(
+      post(convex, "learner_2", lessonId, "Reply", commentId),
+    ).rejects.toThrow("You cannot reply to a hidden comment");
+
+    convex.signIn("moderator_1");
+    await runHandler(setHidden, convex.ctx, { commentId, hidden: false });
+    expect((await list(convex, "learner_2", lessonId)).page).toHaveLength(1);
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * Tests for profile and gig embeddings and the matching result filters
+ */
+
+import type { Id } from "../_generated/dataModel";
+import {
+  loadRecommendedGigs,
+  loadSuggestedTalent,
+} from "../internal/matchingQueries";
+import {
+  backfillEmbeddings,
+  EMBEDDING_DIMENSIONS,
+  embedText,
+  refreshGigEmbedding,
+  refreshUserEmbedding,
+  type GigRecommendation,
+  type TalentSuggestion,
+} from "../matching";
+import {
+  createFakeConvex,
+  runHandler,
+  type FakeConvex,
+} from "./helpers/fakeConvex.testing";
+
+function similarity(a: number[] | undefined, b: number[] | undefined) {
+  if (!a || !b) {
+    throw new Error("Expected both vectors to be embedded");
+  }
+  return a.reduce((sum, value, index) => sum + value * (b[index] ?? 0), 0);
+}
+
+function embed(text: string) {
+  return embedText([{ text, weight: 1 }]);
+}
+
+describe("matching", () => {
+  let convex: FakeConvex;
+
+  beforeEach(() => {
+    convex = createFakeConvex();
+  });
+
+  describe("embedText", () => {
+    it("produces the same unit-length vector for the same text", () => {
+      const vector = embed("React developer building dashboards");
+
+      expect(vector).toHaveLength(EMBEDDING_DIMENSIONS);
+      expect(similarity(vector, vector)).toBeCloseTo(1);
+      expect(embed("React developer building dashboards")).toEqual(vector);
+    });
+
+    it("ranks overlapping text above unrelated text", () => {
+      const gig = embed("React TypeScript frontend dashboard");
+
+      const related = similarity(
+        gig,
+        embed("Senior React TypeScript engineer"),
+      );
+      const unrelated = similarity(
+        gig,
+        embed("Wedding photographer and video editor"),
+      );
+
+      expect(related).toBeGreaterThan(0.3);
+      expect(related).toBeGreaterThan(unrelated);
+    });
+
+    it("ignores stop words and returns nothing for empty input", () => {
+      expect(embed("the and of a")).toBeUndefined();
+      expect(embedText([{ text: undefined, weight: 3 }])).toBeUndefined();
+      expect(embed("the react developer")).toEqual(embed("react developer"));
+    });
+  });
+
+  describe("refreshing embeddings", () => {
+    it("embeds a profile from its skills, headline and experience", async () => {
+      const userId = await convex.seed<Id<"users">>("users", {
+        clerkId: "candidate_1",
+        name: "Candidate",
+      });
+      await convex.seed("profiles", {
+        userId,
+        skills: ["react-native"],
+        headline: "Mobile developer",
+      });
+      await convex.seed("profileWorkExperience", {
+        userId,
+        role: "App engineer",
+        description: "Shipped iOS apps",
+      });
+      const gigId = await convex.seed<Id<"gigs">>("gigs", {
+        title: "React Native app",
+        description: "Build our mobile app",
+        skills: ["react-native", "ios"],
+        category: "mobile",
+      });
+
+      expect(await refreshUserEmbedding(convex.ctx, userId)).toBe(true);
+      expect(await refreshGigEmbedding(convex.ctx, gigId)).toBe(true);
+
+      const [user] = convex.rows("users");
+      const [gig] = convex.rows("gigs");
+      expect(user?.embeddingUpdatedAt).toEqual(expect.any(Number));
+      expect(
+        similarity(
+          user?.embedding as number[] | undefined,
+          gig?.embedding as number[] | undefined,
+        ),
+      ).toBeGreaterThan(0.3);
+    });
+
+    it("skips deleted users", async () => {
+      const userId = await convex.seed<Id<"users">>("users", {
+        clerkId: "candidate_1",
+        deletedAt: Date.now(),
+      });
+
+      expect(await refreshUserEmbedding(convex.ctx, userId)).toBe(false);
+      expect(convex.rows("users")[0]?.embeddingUpdatedAt).toBeUndefined();
+    });
+
+    it("backfills users, then moves on to gigs", async () => {
+      await convex.seed("users", { clerkId: "candidate_1", name: "Candidate" });
+      await convex.seed("gigs", {
+        title: "Logo design",
+        skills: ["branding"],
+      });
+
+      expect(
+        await runHandler(backfillEmbeddings, convex.ctx, { table: "users" }),
+      ).toEqual({ processed: 1, isDone: true });
+      expect(convex.scheduled).toEqual([
+        { name: "matching:backfillEmbeddings", args: { table: "gigs" } },
+      ]);
+
+      await runHandler(backfillEmbeddings, convex.ctx, { table: "gigs" });
+      expect(convex.rows("gigs")[0]?.embedding).toHaveLength(
+        EMBEDDING_DIMENSIONS,
+      );
+      expect(convex.scheduled).toHaveLength(1);
+    });
+  });
+
+  describe("result filters", () => {
+    async function seedMarket() {
+      const [employerId, candidateId, privateId] = [
+        await convex.seed<Id<"users">>("users", {
+          clerkId: "employer_1",
+          name: "Employer",
+        }),
+        await convex.seed<Id<"users">>("users", {
+          clerkId: "candidate_1",
+          name: "Candidate",
+        }),
+        await convex.seed<Id<"users">>("users", {
+          clerkId: "candidate_2",
+          name: "Private",
+        }),
+      ];
+      await convex.seed("profiles", {
+        userId: candidateId,
+        headline: "Designer",
+        skills: ["figma"],
+        slug: "candidate",
+        visibility: "public",
+      });
+      await convex.seed("profiles", {
+        userId: privateId,
+        visibility: "private",
+      });
+      const [openGigId, appliedGigId, closedGigId, ownGigId] = [
+        await convex.seed<Id<"gigs">>("gigs", {
+          employerId,
+          title: "Open",
+          status: "open",
+          embedding: [1],
+          embeddingUpdatedAt: 0,
+        }),
+        await convex.seed<Id<"gigs">>("gigs", {
+          employerId,
+          title: "Applied",
+          status: "open",
+        }),
+        await convex.seed<Id<"gigs">>("gigs", {
+          employerId,
+          title: "Closed",
+          status: "closed",
+        }),
+        await convex.seed<Id<"gigs">>("gigs", {
+          employerId: candidateId,
+          title: "Own",
+          status: "open",
+        }),
+      ];
+      await convex.seed("applications", {
+        gigId: appliedGigId,
+        candidateId,
+        status: "submitted",
+      });
+      return {
+        employerId,
+        candidateId,
+        privateId,
+        openGigId,
+        appliedGigId,
+        closedGigId,
+        ownGigId,
+      };
+    }
+
+    it("drops applied, closed and own gigs from recommendations", async () => {
+      const { candidateId, openGigId, appliedGigId, closedGigId, ownGigId } =
+        await seedMarket();
+
+      const recommendations = await runHandler<unknown, GigRecommendation[]>(
+        loadRecommendedGigs,
+        convex.ctx,
+        {
+          candidateId,
+          results: [ownGigId, appliedGigId, closedGigId, openGigId].map(
+            (_id, index) => ({ _id, _score: 1 - index / 10 }),
+          ),
+        },
+      );
+
+      expect(recommendations).toHaveLength(1);
+      expect(recommendations[0]).toMatchObject({
+        gig: { _id: openGigId },
+        score: 0.7,
+      });
+      expect(recommendations[0]?.gig).not.toHaveProperty("embedding");
+    });
+
+    it("drops the employer, applicants and private profiles from talent", async () => {
+      const { employerId, candidateId, privateId, openGigId, appliedGigId } =
+        await seedMarket();
+      const results = [employerId, privateId, candidateId].map((_id) => ({
+        _id,
+        _score: 0.9,
+      }));
+
+      const suggestions = await runHandler<unknown, TalentSuggestion[]>(
+        loadSuggestedTalent,
+        convex.ctx,
+        { gigId: openGigId, employerId, results },
+      );
+      expect(suggestions).toEqual([
+        {
+          userId: candidateId,
+          name: "Candidate",
+          avatarUrl: undefined,
+          headline: "Designer",
+          skills: ["figma"],
+          profileSlug: "candidate",
+          score: 0.9,
+        },
+      ]);
+
+      expect(
+        await runHandler(loadSuggestedTalent, convex.ctx, {
+          gigId: appliedGigId,
+          employerId,
+          results,
+        }),
+      ).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Tests for online presence, typing indicators and their expiry
+ */
+
+import type { Id } from "../_generated/dataModel";
+import {
+  disconnect,
+  expireStale,
+  heartbeat,
+  listOnline,
+  listTyping,
+  ONLINE_TTL_MS,
+  setTyping,
+  TYPING_TTL_MS,
+} from "../presence";
+import {
+  createFakeConvex,
+  runHandler,
+  type FakeConvex,
+} from "./helpers/fakeConvex.testing";
+
+interface TypingEntry {
+  userId: Id<"users">;
+  lastUpdated: number;
+}
+
+/** Two participants in a conversation and one outsider. */
+async function seedConversation(convex: FakeConvex) {
+  const [aliceId, bobId] = [
+    await convex.seed<Id<"users">>("users", { clerkId: "alice" }),
+    await convex.seed<Id<"users">>("users", { clerkId: "bob" }),
+  ];
+  await convex.seed("users", { clerkId: "mallory" });
+  const conversationId = await convex.seed<Id<"conversations">>(
+    "conversations",
+    { participants: [aliceId, bobId] },
+  );
+  return { aliceId, bobId, conversationId };
+}
+
+async function typing(
+  convex: FakeConvex,
+  clerkId: string,
+  conversationId: Id<"conversations">,
+  isTyping = true,
+) {
+  convex.signIn(clerkId);
+  await runHandler(setTyping, convex.ctx, { conversationId, isTyping });
+}
+
+async function onlineAmong(convex: FakeConvex, userIds: Id<"users">[]) {
+  return await runHandler<unknown, Id<"users">[]>(listOnline, convex.ctx, {
+    userIds,
+  });
+}
+
+describe("presence", () => {
+  let convex: FakeConvex;
+
+  beforeEach(() => {
+    convex = createFakeConvex();
+  });
+
+  it("keeps one presence row per user across heartbeats", async () => {
+    const { aliceId, bobId } = await seedConversation(convex);
+    convex.signIn("alice");
+
+    await runHandler(heartbeat, convex.ctx, {});
+    await runHandler(heartbeat, convex.ctx, {});
+
+    expect(convex.rows("userStatus")).toHaveLength(1);
+    expect(await onlineAmong(convex, [aliceId, bobId, aliceId])).toEqual([
+      aliceId,
+    ]);
+
+    await runHandler(disconnect, convex.ctx, {});
+    expect(await onlineAmong(convex, [aliceId])).toEqual([]);
+  });
+
+  it("shows typing to other participants only", async () => {
+    const { aliceId, conversationId } = await seedConversation(convex);
+
+    await typing(convex, "alice", conversationId);
+    await typing(convex, "alice", conversationId);
+
+    expect(
+      await runHandler<unknown, TypingEntry[]>(listTyping, convex.ctx, {
+        conversationId,
+      }),
+    ).toEqual([]);
+    convex.signIn("bob");
+    const [entry, ...others] = await runHandler<unknown, TypingEntry[]>(
+      listTyping,
+      convex.ctx,
+      { conversationId },
+    );
+    expect(entry?.userId).toBe(aliceId);
+    expect(others).toHaveLength(0);
+    expect(await onlineAmong(convex, [aliceId])).toEqual([aliceId]);
+
+    await typing(convex, "alice", conversationId, false);
+    expect(convex.rows("userStatus").map((row) => row.conversationId)).toEqual([
+      undefined,
+    ]);
+  });
+
+  it("rejects typing in conversations the user is not part of", async () => {
+    const { conversationId } = await seedConversation(convex);
+
+    await expect(typing(convex, "mallory", conversationId)).rejects.toThrow(
+      "Unauthorized",
+    );
+    convex.signIn("mallory");
+    expect(
+      await runHandler(listTyping, convex.ctx, { conversationId }),
+    ).toEqual([]);
+  });
+
+  it("expires stale online and typing rows", async () => {
+    const { aliceId, bobId, conversationId } = await seedConversation(convex);
+    // Alice went quiet long enough for both of her rows to lapse
+    const lapsed = Date.now() - ONLINE_TTL_MS - TYPING_TTL_MS;
+    await convex.seed("userStatus", {
+      userId: aliceId,
+      status: "online",
+      lastUpdated: lapsed,
+    });
+    await convex.seed("userStatus", {
+      userId: aliceId,
+      conversationId,
+      status: "typing",
+      lastUpdated: lapsed,
+    });
+    convex.signIn("bob");
+    await runHandler(heartbeat, convex.ctx, {});
+
+    await runHandler(expireStale, convex.ctx, {});
+
+    expect(
+      convex.rows("userStatus").map(({ userId, status }) => [userId, status]),
+    ).toEqual([
+      [aliceId, "offline"],
+      [bobId, "online"],
+    ]);
+    expect(convex.scheduled).toHaveLength(0);
+  });
+});
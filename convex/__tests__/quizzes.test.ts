@@ -0,0 +1,260 @@
+/**
+ * Tests for quiz authoring and grading
+ */
+
+import type { Id } from "../_generated/dataModel";
+import { saveLessonQuiz } from "../coursesMutations";
+import { submitAttempt } from "../quizzes";
+import {
+  createFakeConvex,
+  runHandler,
+  type FakeConvex,
+} from "./helpers/fakeConvex.testing";
+
+interface AttemptResult {
+  attemptNumber: number;
+  score: number;
+  passed: boolean;
+  correctCount: number;
+  attemptsRemaining: number | null;
+}
+
+const QUESTIONS = [
+  {
+    question: "2 + 2",
+    options: [
+      { text: "4", isCorrect: true },
+      { text: "5", isCorrect: false },
+    ],
+  },
+  {
+    question: "Capital of France",
+    options: [
+      { text: "Paris", isCorrect: true },
+      { text: "Lyon", isCorrect: false },
+      { text: " ", isCorrect: false },
+    ],
+  },
+  {
+    question: "Largest planet",
+    options: [
+      { text: "Mars", isCorrect: false },
+      { text: "Jupiter", isCorrect: true },
+    ],
+  },
+];
+
+/** A course with a quiz lesson followed by a video lesson, and a learner. */
+async function seedQuizLesson(convex: FakeConvex) {
+  await convex.seed("users", { clerkId: "admin_1", roles: ["admin"] });
+  const learnerId = await convex.seed<Id<"users">>("users", {
+    clerkId: "learner_1",
+    roles: ["candidate"],
+  });
+  const authorId = await convex.seed<Id<"users">>("users", {
+    clerkId: "author_1",
+    roles: ["admin"],
+  });
+  const courseId = await convex.seed<Id<"courses">>("courses", {
+    title: "Course",
+    authorId,
+  });
+  const moduleId = await convex.seed<Id<"modules">>("modules", {
+    courseId,
+    order: 0,
+  });
+  const lessonId = await convex.seed<Id<"lessons">>("lessons", {
+    courseId,
+    moduleId,
+    order: 0,
+    title: "Checkpoint",
+    contentType: "quiz",
+  });
+  await convex.seed("lessons", {
+    courseId,
+    moduleId,
+    order: 1,
+    title: "Next up",
+    contentType: "video",
+  });
+  await convex.seed("enrollments", {
+    userId: learnerId,
+    courseId,
+    status: "active",
+    progress: 0,
+    enrolledAt: Date.now(),
+  });
+  return { learnerId, lessonId };
+}
+
+async function saveQuiz(
+  convex: FakeConvex,
+  lessonId: Id<"lessons">,
+  overrides: Record<string, unknown> = {},
+) {
+  convex.signIn("admin_1");
+  return await runHandler<unknown, Array<Id<"quizzes">>>(
+    saveLessonQuiz,
+    convex.ctx,
+    { lessonId, passingScore: 60, questions: QUESTIONS, ...overrides },
+  );
+}
+
+/** Answers picking the correct option for the first `correct` questions. */
+function answersFor(convex: FakeConvex, correct: number) {
+  const options = convex.rows("quizOptions");
+  return convex.rows("quizzes").map((quiz, index) => {
+    const option = options.find(
+      (candidate) =>
+        candidate.quizId === quiz._id &&
+        candidate.isCorrect === index < correct,
+    );
+    return { quizId: quiz._id, optionId: option?._id };
+  });
+}
+
+async function attempt(
+  convex: FakeConvex,
+  lessonId: Id<"lessons">,
+  answers: Array<{ quizId: string; optionId?: string }>,
+) {
+  convex.signIn("learner_1");
+  return await runHandler<unknown, AttemptResult>(submitAttempt, convex.ctx, {
+    lessonId,
+    answers,
+  });
+}
+
+describe("quizzes", () => {
+  let convex: FakeConvex;
+
+  beforeEach(() => {
+    convex = createFakeConvex();
+  });
+
+  describe("saveLessonQuiz", () => {
+    it("replaces the question set and drops blank options", async () => {
+      const { lessonId } = await seedQuizLesson(convex);
+
+      await saveQuiz(convex, lessonId);
+      const quizIds = await saveQuiz(convex, lessonId, {
+        questions: QUESTIONS.slice(1),
+        maxAttempts: 2,
+      });
+
+      expect(convex.rows("quizzes").map((row) => row._id)).toEqual(quizIds);
+      expect(convex.rows("quizOptions")).toHaveLength(4);
+      expect(
+        convex.rows("lessons").find((row) => row._id === lessonId)
+          ?.quizSettings,
+      ).toEqual({ passingScore: 60, maxAttempts: 2 });
+    });
+
+    it("validates the question set before saving anything", async () => {
+      const { lessonId } = await seedQuizLesson(convex);
+
+      await expect(
+        saveQuiz(convex, lessonId, {
+          questions: [
+            {
+              question: "Pick two",
+              options: [
+                { text: "A", isCorrect: true },
+                { text: "B", isCorrect: true },
+              ],
+            },
+          ],
+        }),
+      ).rejects.toThrow("Question 1 needs exactly one correct option");
+      await expect(
+        saveQuiz(convex, lessonId, {
+          questions: [
+            {
+              question: "Only one",
+              options: [
+                { text: "A", isCorrect: true },
+                { text: "", isCorrect: false },
+              ],
+            },
+          ],
+        }),
+      ).rejects.toThrow("Question 1 needs between 2 and 8 options");
+      await expect(
+        saveQuiz(convex, lessonId, { passingScore: 120 }),
+      ).rejects.toThrow("Passing score must be between 0 and 100");
+      expect(convex.rows("quizzes")).toHaveLength(0);
+    });
+  });
+
+  describe("submitAttempt", () => {
+    it("scores a failing attempt without completing the lesson", async () => {
+      const { lessonId } = await seedQuizLesson(convex);
+      await saveQuiz(convex, lessonId);
+
+      const result = await attempt(convex, lessonId, answersFor(convex, 1));
+
+      expect(result).toMatchObject({
+        attemptNumber: 1,
+        score: 33,
+        passed: false,
+        correctCount: 1,
+        attemptsRemaining: null,
+      });
+      expect(convex.rows("quizAttempts")).toHaveLength(3);
+      expect(convex.rows("lessonProgress")).toHaveLength(0);
+    });
+
+    it("completes the lesson once the learner passes", async () => {
+      const { learnerId, lessonId } = await seedQuizLesson(convex);
+      await saveQuiz(convex, lessonId);
+
+      const result = await attempt(convex, lessonId, answersFor(convex, 2));
+
+      expect(result).toMatchObject({ score: 67, passed: true });
+      expect(convex.rows("lessonProgress")).toEqual([
+        expect.objectContaining({
+          userId: learnerId,
+          lessonId,
+          isCompleted: true,
+        }),
+      ]);
+    });
+
+    it("enforces the attempt limit", async () => {
+      const { lessonId } = await seedQuizLesson(convex);
+      await saveQuiz(convex, lessonId, { maxAttempts: 2 });
+
+      expect(
+        (await attempt(convex, lessonId, answersFor(convex, 0)))
+          .attemptsRemaining,
+      ).toBe(1);
+      expect(
+        (await attempt(convex, lessonId, answersFor(convex, 0)))
+          .attemptsRemaining,
+      ).toBe(0);
+      await expect(
+        attempt(convex, lessonId, answersFor(convex, 3)),
+      ).rejects.toThrow("No quiz attempts remaining");
+    });
+
+    it("requires an answer from each question's own options", async () => {
+      const { lessonId } = await seedQuizLesson(convex);
+      await saveQuiz(convex, lessonId);
+      const answers = answersFor(convex, 3);
+
+      await expect(attempt(convex, lessonId, answers.slice(1))).rejects.toThrow(
+        "Answer every question before submitting",
+      );
+
+      const [first, second, third] = answers;
+      await expect(
+        attempt(convex, lessonId, [
+          { quizId: first?.quizId ?? "", optionId: second?.optionId },
+          { quizId: second?.quizId ?? "", optionId: second?.optionId },
+          { quizId: third?.quizId ?? "", optionId: third?.optionId },
+        ]),
+      ).rejects.toThrow("Selected option does not belong to the question");
+      expect(convex.rows("quizSubmissions")).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Tests for gig bookmarks, the saved count and deadline reminders
+ */
+
+import type { Id } from "../_generated/dataModel";
+import {
+  listMine,
+  save,
+  sendDeadlineReminders,
+  toggle,
+  unsave,
+} from "../savedGigs";
+import {
+  createFakeConvex,
+  runHandler,
+  type FakeConvex,
+} from "./helpers/fakeConvex.testing";
+
+const HOUR = 60 * 60 * 1000;
+
+interface SaveResult {
+  saved: boolean;
+  savedCount: number;
+}
+
+async function seedGig(
+  convex: FakeConvex,
+  overrides: Record<string, unknown> = {},
+) {
+  const employerId = await convex.seed<Id<"users">>("users", {
+    clerkId: `employer_${convex.rows("gigs").length}`,
+  });
+  return await convex.seed<Id<"gigs">>("gigs", {
+    employerId,
+    title: "Landing page",
+    status: "open",
+    updatedAt: 0,
+    metadata: {
+      views: 3,
+      applicantCount: 0,
+      savedCount: 0,
+      lastModified: 0,
+      version: 2,
+      isUrgent: false,
+      isRemoteOnly: true,
+    },
+    ...overrides,
+  });
+}
+
+async function seedCandidates(convex: FakeConvex) {
+  const [firstId, secondId] = [
+    await convex.seed<Id<"users">>("users", { clerkId: "candidate_1" }),
+    await convex.seed<Id<"users">>("users", { clerkId: "candidate_2" }),
+  ];
+  return { firstId, secondId };
+}
+
+async function toggleAs(
+  convex: FakeConvex,
+  clerkId: string,
+  gigId: Id<"gigs">,
+) {
+  convex.signIn(clerkId);
+  return await runHandler<unknown, SaveResult>(toggle, convex.ctx, { gigId });
+}
+
+function metadataOf(convex: FakeConvex, gigId: Id<"gigs">) {
+  return convex.rows("gigs").find((row) => row._id === gigId)?.metadata;
+}
+
+describe("saved gigs", () => {
+  let convex: FakeConvex;
+
+  beforeEach(() => {
+    convex = createFakeConvex();
+  });
+
+  it("keeps savedCount equal to the number of bookmarks", async () => {
+    await seedCandidates(convex);
+    const gigId = await seedGig(convex);
+
+    expect(await toggleAs(convex, "candidate_1", gigId)).toEqual({
+      saved: true,
+      savedCount: 1,
+    });
+    expect(await toggleAs(convex, "candidate_2", gigId)).toEqual({
+      saved: true,
+      savedCount: 2,
+    });
+    expect(await toggleAs(convex, "candidate_1", gigId)).toEqual({
+      saved: false,
+      savedCount: 1,
+    });
+
+    expect(convex.rows("savedGigs")).toHaveLength(1);
+    expect(metadataOf(convex, gigId)).toMatchObject({
+      savedCount: 1,
+      version: 2,
+      lastModified: 0,
+    });
+  });
+
+  it("treats repeated saves and unsaves as no-ops", async () => {
+    await seedCandidates(convex);
+    const gigId = await seedGig(convex);
+    convex.signIn("candidate_1");
+
+    await runHandler(save, convex.ctx, { gigId });
+    expect(await runHandler(save, convex.ctx, { gigId })).toEqual({
+      saved: true,
+      savedCount: 1,
+    });
+    await runHandler(unsave, convex.ctx, { gigId });
+    expect(await runHandler(unsave, convex.ctx, { gigId })).toEqual({
+      saved: false,
+      savedCount: 0,
+    });
+    expect(convex.rows("savedGigs")).toHaveLength(0);
+  });
+
+  it("only saves open gigs but still lets users unsave closed ones", async () => {
+    await seedCandidates(convex);
+    const gigId = await seedGig(convex);
+    const draftId = await seedGig(convex, { status: "draft" });
+    await toggleAs(convex, "candidate_1", gigId);
+    await convex.ctx.db.patch(gigId, { status: "completed" });
+
+    await expect(toggleAs(convex, "candidate_1", draftId)).rejects.toThrow(
+      "Only open gigs can be saved",
+    );
+    expect(await toggleAs(convex, "candidate_1", gigId)).toEqual({
+      saved: false,
+      savedCount: 0,
+    });
+  });
+
+  it("lists saved gigs with whether the user applied", async () => {
+    const { firstId } = await seedCandidates(convex);
+    const appliedId = await seedGig(convex);
+    const otherId = await seedGig(convex, { title: "Logo" });
+    await convex.seed("applications", {
+      gigId: appliedId,
+      candidateId: firstId,
+      status: "submitted",
+    });
+    await toggleAs(convex, "candidate_1", appliedId);
+    await toggleAs(convex, "candidate_1", otherId);
+
+    const saved = await runHandler<
+      unknown,
+      Array<{ hasApplied: boolean; gig: { _id: string } }>
+    >(listMine, convex.ctx, {});
+
+    expect(saved.map(({ gig, hasApplied }) => [gig._id, hasApplied])).toEqual([
+      [otherId, false],
+      [appliedId, true],
+    ]);
+  });
+
+  describe("sendDeadlineReminders", () => {
+    it("reminds each saver once unless they already applied", async () => {
+      const { firstId, secondId } = await seedCandidates(convex);
+      const now = Date.now();
+      const soonId = await seedGig(convex, {
+        applicationDeadline: now + 5 * HOUR,
+      });
+      const laterId = await seedGig(convex, {
+        applicationDeadline: now + 72 * HOUR,
+      });
+      for (const gigId of [soonId, laterId]) {
+        await toggleAs(convex, "candidate_1", gigId);
+        await toggleAs(convex, "candidate_2", gigId);
+      }
+      await convex.seed("applications", {
+        gigId: soonId,
+        candidateId: secondId,
+        status: "submitted",
+      });
+
+      expect(await runHandler(sendDeadlineReminders, convex.ctx, {})).toEqual({
+        reminders: 1,
+      });
+      expect(convex.rows("notifications")).toEqual([
+        expect.objectContaining({
+          userId: firstId,
+          type: "saved_gig_deadline",
+          title: 'Applications for "Landing page" close soon',
+          body: "About 5 hours left to apply to this saved gig.",
+          gigId: soonId,
+        }),
+      ]);
+
+      expect(await runHandler(sendDeadlineReminders, convex.ctx, {})).toEqual({
+        reminders: 0,
+      });
+    });
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Tests for saved gig searches, instant alerts and the daily digest
+ */
+
+import type { Id } from "../_generated/dataModel";
+import type { PublicGigFilters } from "../gigs";
+import { markAllRead, unreadCount } from "../notifications";
+import {
+  create,
+  matchPublishedGig,
+  remove,
+  sendDailyDigests,
+} from "../savedSearches";
+import {
+  createFakeConvex,
+  runHandler,
+  type FakeConvex,
+} from "./helpers/fakeConvex.testing";
+
+type AlertFrequency = "instant" | "daily" | "off";
+
+async function seedUsers(convex: FakeConvex) {
+  const employerId = await convex.seed<Id<"users">>("users", {
+    clerkId: "employer_1",
+    roles: ["employer"],
+  });
+  const candidateId = await convex.seed<Id<"users">>("users", {
+    clerkId: "candidate_1",
+    roles: ["candidate"],
+  });
+  return { employerId, candidateId };
+}
+
+async function saveSearch(
+  convex: FakeConvex,
+  name: string,
+  filters: PublicGigFilters,
+  alertFrequency?: AlertFrequency,
+) {
+  convex.signIn("candidate_1");
+  return await runHandler<unknown, Id<"savedSearches">>(create, convex.ctx, {
+    name,
+    filters,
+    alertFrequency,
+  });
+}
+
+async function publishGig(
+  convex: FakeConvex,
+  employerId: Id<"users">,
+  overrides: Record<string, unknown> = {},
+) {
+  const gigId = await convex.seed<Id<"gigs">>("gigs", {
+    employerId,
+    title: "React dashboard",
+    description: "Admin panel",
+    category: "development",
+    skills: ["react"],
+    status: "open",
+    experienceRequired: "intermediate",
+    budget: { type: "fixed", min: 100, max: 500, currency: "USD" },
+    ...overrides,
+  });
+  const result = await runHandler<unknown, { matched: number }>(
+    matchPublishedGig,
+    convex.ctx,
+    { gigId },
+  );
+  return { gigId, matched: result.matched };
+}
+
+describe("saved searches", () => {
+  let convex: FakeConvex;
+
+  beforeEach(() => {
+    convex = createFakeConvex();
+  });
+
+  it("validates names and caps searches per user", async () => {
+    await seedUsers(convex);
+
+    await expect(saveSearch(convex, "   ", {})).rejects.toThrow(
+      "Saved search name is required",
+    );
+    for (let index = 0; index < 20; index += 1) {
+      await saveSearch(convex, `Search ${index}`, {});
+    }
+    await expect(saveSearch(convex, "One more", {})).rejects.toThrow(
+      "You can save up to 20 searches",
+    );
+    expect(convex.rows("savedSearches")[0]).toMatchObject({
+      name: "Search 0",
+      alertFrequency: "daily",
+    });
+  });
+
+  describe("matchPublishedGig", () => {
+    it("sends instant alerts once per gig and search", async () => {
+      const { employerId, candidateId } = await seedUsers(convex);
+      const savedSearchId = await saveSearch(
+        convex,
+        "React work",
+        { category: "development", search: "react", skills: ["React"] },
+        "instant",
+      );
+
+      const { gigId, matched } = await publishGig(convex, employerId);
+      expect(matched).toBe(1);
+      expect(
+        await runHandler(matchPublishedGig, convex.ctx, { gigId }),
+      ).toEqual({ matched: 0 });
+
+      expect(convex.rows("notifications")).toEqual([
+        expect.objectContaining({
+          userId: candidateId,
+          type: "gig_alert",
+          title: 'New gig for "React work"',
+          body: "React dashboard",
+          link: `/app/gigs/${gigId}`,
+          savedSearchId,
+        }),
+      ]);
+      const [match] = convex.rows("savedSearchMatches");
+      expect(match?.gigId).toBe(gigId);
+      expect(match?.digestedAt).toEqual(expect.any(Number));
+    });
+
+    it("skips unmatched and unpublished gigs and muted searches", async () => {
+      const { employerId } = await seedUsers(convex);
+      await saveSearch(convex, "Design", { category: "design" }, "instant");
+      await saveSearch(convex, "Seniors", { experienceRequired: "senior" });
+      await saveSearch(convex, "Muted", {}, "off");
+
+      expect((await publishGig(convex, employerId)).matched).toBe(0);
+      expect(
+        (await publishGig(convex, employerId, { status: "draft" })).matched,
+      ).toBe(0);
+      expect(convex.rows("savedSearchMatches")).toHaveLength(0);
+    });
+
+    it("never alerts the employer about their own gig", async () => {
+      const { candidateId } = await seedUsers(convex);
+      await saveSearch(convex, "Anything", {}, "instant");
+
+      expect((await publishGig(convex, candidateId)).matched).toBe(0);
+    });
+  });
+
+  describe("sendDailyDigests", () => {
+    it("summarizes undigested matches of gigs that are still open", async () => {
+      const { employerId, candidateId } = await seedUsers(convex);
+      await saveSearch(convex, "React", { search: "react" });
+      await saveSearch(convex, "Any development", {
+        category: "development",
+      });
+      const { gigId: pausedGigId } = await publishGig(convex, employerId);
+      await publishGig(convex, employerId, {
+        title: "Vue dashboard",
+        skills: ["vue"],
+      });
+      await convex.ctx.db.patch(pausedGigId, { status: "paused" });
+
+      expect(await runHandler(sendDailyDigests, convex.ctx, {})).toEqual({
+        digests: 1,
+        isDone: true,
+      });
+
+      expect(convex.rows("notifications")).toEqual([
+        expect.objectContaining({
+          userId: candidateId,
+          type: "gig_digest",
+          title: "1 new gig matches your saved searches",
+          body: "Any development: 1",
+        }),
+      ]);
+      expect(
+        convex.rows("savedSearchMatches").every((row) => row.digestedAt),
+      ).toBe(true);
+      expect(await runHandler(sendDailyDigests, convex.ctx, {})).toEqual({
+        digests: 0,
+        isDone: true,
+      });
+    });
+  });
+
+  it("removes a search with its matches, and only for its owner", async () => {
+    const { employerId } = await seedUsers(convex);
+    const savedSearchId = await saveSearch(convex, "Anything", {});
+    await publishGig(convex, employerId);
+
+    convex.signIn("employer_1");
+    await expect(
+      runHandler(remove, convex.ctx, { savedSearchId }),
+    ).rejects.toThrow("Saved search not found");
+
+    convex.signIn("candidate_1");
+    await runHandler(remove, convex.ctx, { savedSearchId });
+    expect(convex.rows("savedSearches")).toHaveLength(0);
+    expect(convex.rows("savedSearchMatches")).toHaveLength(0);
+  });
+
+  it("counts and clears unread notifications", async () => {
+    const { employerId } = await seedUsers(convex);
+    await saveSearch(convex, "Anything", {}, "instant");
+    await publishGig(convex, employerId);
+    await publishGig(convex, employerId, { title: "Second gig" });
+
+    expect(await runHandler(unreadCount, convex.ctx, {})).toBe(2);
+    expect(await runHandler(markAllRead, convex.ctx, {})).toBe(2);
+    expect(await runHandler(unreadCount, convex.ctx, {})).toBe(0);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Tests for search term handling and the denormalized search text
+ */
+
+import type { Id } from "../_generated/dataModel";
+import {
+  backfillSearchText,
+  buildGigSearchText,
+  matchesSearchTerm,
+  MAX_SEARCH_TERM_LENGTH,
+  normalizeSearchTerm,
+  syncCourseSearchText,
+  syncProfileSearchText,
+} from "../search";
+import {
+  createFakeConvex,
+  runHandler,
+  type FakeConvex,
+} from "./helpers/fakeConvex.testing";
+
+describe("search", () => {
+  describe("normalizeSearchTerm", () => {
+    it("trims terms and treats blank input as no search", () => {
+      expect(normalizeSearchTerm("  react  ")).toBe("react");
+      expect(normalizeSearchTerm("   ")).toBeUndefined();
+      expect(normalizeSearchTerm(undefined)).toBeUndefined();
+      expect(normalizeSearchTerm("x".repeat(500))).toHaveLength(
+        MAX_SEARCH_TERM_LENGTH,
+      );
+    });
+  });
+
+  describe("matchesSearchTerm", () => {
+    const text = "Senior React developer\nBuild a dashboard in Berlin";
+
+    it("requires every word, matching the last one as a prefix", () => {
+      expect(matchesSearchTerm(text, "react dash")).toBe(true);
+      expect(matchesSearchTerm(text, "REACT, Berlin")).toBe(true);
+      expect(matchesSearchTerm(text, "dash react")).toBe(false);
+      expect(matchesSearchTerm(text, "vue")).toBe(false);
+      expect(matchesSearchTerm(text, "!!")).toBe(true);
+    });
+  });
+
+  describe("buildGigSearchText", () => {
+    it("joins the searchable gig fields", () => {
+      expect(
+        buildGigSearchText({
+          title: " Landing page ",
+          description: "Marketing site",
+          skills: ["react", "tailwind"],
+          category: "development",
+          location: { type: "onsite", city: "Lisbon", country: "Portugal" },
+        }),
+      ).toBe(
+        "Landing page\nMarketing site\nreact tailwind\ndevelopment\nLisbon\nPortugal",
+      );
+    });
+  });
+
+  describe("syncing search text", () => {
+    let convex: FakeConvex;
+
+    beforeEach(() => {
+      convex = createFakeConvex();
+    });
+
+    it("writes course and profile search text", async () => {
+      const courseId = await convex.seed<Id<"courses">>("courses", {
+        title: "TypeScript basics",
+        shortDescription: "Types",
+        description: "From zero to generics",
+      });
+      const profileId = await convex.seed<Id<"profiles">>("profiles", {
+        headline: "Designer",
+        bio: "  ",
+      });
+
+      await syncCourseSearchText(convex.ctx, courseId);
+      await syncProfileSearchText(convex.ctx, profileId);
+
+      expect(convex.rows("courses")[0]?.searchText).toBe(
+        "TypeScript basics\nTypes\nFrom zero to generics",
+      );
+      expect(convex.rows("profiles")[0]?.searchText).toBe("Designer");
+    });
+
+    it("backfills a table one batch at a time", async () => {
+      for (let index = 0; index < 101; index += 1) {
+        await convex.seed("gigs", {
+          title: `Gig ${index}`,
+          skills: [],
+        });
+      }
+
+      expect(
+        await runHandler(backfillSearchText, convex.ctx, { table: "gigs" }),
+      ).toEqual({ processed: 100, isDone: false });
+      expect(convex.scheduled).toEqual([
+        {
+          name: "search:backfillSearchText",
+          args: { table: "gigs", cursor: "100" },
+        },
+      ]);
+      expect(convex.rows("gigs")[100]?.searchText).toBeUndefined();
+
+      await runHandler(
+        backfillSearchText,
+        convex.ctx,
+        convex.scheduled[0]?.args,
+      );
+      expect(convex.rows("gigs")[100]?.searchText).toBe("Gig 100");
+      expect(convex.scheduled).toHaveLength(1);
+    });
+  });
+});
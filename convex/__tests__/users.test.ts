@@ -9,6 +9,21 @@
 
 // Jest globals are available in the test environment
 
+import type { Id } from "../_generated/dataModel";
+import {
+  claimWebhookEvent,
+  pruneWebhookEvents,
+  recordSessionEvent,
+  releaseWebhookEvent,
+  softDeleteUser,
+  updateUser,
+} from "../users";
+import {
+  createFakeConvex,
+  runHandler,
+  type FakeConvex,
+} from "./helpers/fakeConvex.testing";
+
 // Type definitions aligned with actual Convex schemas
 interface TestUserCreationArgs {
   clerkId: string;
@@ -601,3 +616,237 @@ describe("User Management Service", () => {
     });
   });
 });
+
+describe("Clerk webhook sync", () => {
+  let convex: FakeConvex;
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    convex = createFakeConvex();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  /** A candidate with an application, a profile, a chat and presence. */
+  async function seedCandidate() {
+    const userId = await convex.seed<Id<"users">>("users", {
+      clerkId: "candidate_1",
+      email: "old@example.com",
+      name: "Old Name",
+      roles: ["freelancer"],
+    });
+    await convex.seed("users", {
+      clerkId: "candidate_2",
+      email: "taken@example.com",
+      name: "Someone Else",
+      roles: ["user"],
+    });
+    await convex.seed("userRoles", { userId, role: "freelancer" });
+    const gigId = await convex.seed<Id<"gigs">>("gigs", { title: "Gig" });
+    const [openId, hiredId] = [
+      await convex.seed<Id<"applications">>("applications", {
+        gigId,
+        candidateId: userId,
+        status: "submitted",
+        applicantSnapshot: { name: "Old Name" },
+      }),
+      await convex.seed<Id<"applications">>("applications", {
+        gigId,
+        candidateId: userId,
+        status: "hired",
+        applicantSnapshot: { name: "Old Name" },
+      }),
+    ];
+    await convex.seed("profiles", {
+      userId,
+      visibility: "public",
+      headline: "Designer",
+    });
+    const conversationId = await convex.seed<Id<"conversations">>(
+      "conversations",
+      { participants: [userId] },
+    );
+    await convex.seed("userConversations", { userId, conversationId });
+    await convex.seed("userStatus", {
+      userId,
+      status: "online",
+      lastUpdated: 0,
+    });
+    await convex.seed("userStatus", {
+      userId,
+      conversationId,
+      status: "typing",
+      lastUpdated: 0,
+    });
+    return { userId, openId, hiredId };
+  }
+
+  function row(table: string, id: string) {
+    return convex.rows(table).find((candidate) => candidate._id === id);
+  }
+
+  describe("webhook claims", () => {
+    it("flags replayed message IDs until the claim is released", async () => {
+      const claim = { messageId: "msg_1", eventType: "user.updated" };
+
+      expect(await runHandler(claimWebhookEvent, convex.ctx, claim)).toEqual({
+        duplicate: false,
+      });
+      expect(await runHandler(claimWebhookEvent, convex.ctx, claim)).toEqual({
+        duplicate: true,
+      });
+
+      await runHandler(releaseWebhookEvent, convex.ctx, {
+        messageId: "msg_1",
+      });
+      expect(await runHandler(claimWebhookEvent, convex.ctx, claim)).toEqual({
+        duplicate: false,
+      });
+    });
+
+    it("prunes claims past the retention window in batches", async () => {
+      const old = Date.now() - 8 * 24 * 60 * 60 * 1000;
+      for (let index = 0; index < 201; index += 1) {
+        await convex.seed("webhookEvents", {
+          source: "clerk",
+          messageId: `old_${index}`,
+          eventType: "user.updated",
+          processedAt: old,
+        });
+      }
+      await convex.seed("webhookEvents", {
+        source: "clerk",
+        messageId: "recent",
+        eventType: "user.updated",
+        processedAt: Date.now(),
+      });
+
+      await runHandler(pruneWebhookEvents, convex.ctx, {});
+      expect(convex.rows("webhookEvents")).toHaveLength(2);
+      expect(convex.scheduled).toEqual([
+        { name: "users:pruneWebhookEvents", args: {} },
+      ]);
+
+      await runHandler(pruneWebhookEvents, convex.ctx, {});
+      expect(
+        convex.rows("webhookEvents").map((event) => event.messageId),
+      ).toEqual(["recent"]);
+      expect(convex.scheduled).toHaveLength(1);
+    });
+  });
+
+  describe("updateUser", () => {
+    it("syncs changed fields into the applicant snapshots", async () => {
+      const { userId, openId } = await seedCandidate();
+
+      const result = await runHandler(updateUser, convex.ctx, {
+        userId,
+        name: " New Name ",
+        email: "New@Example.com",
+        avatarUrl: "https://img.test/new.png",
+      });
+
+      expect(result).toEqual({
+        success: true,
+        message: "Updated: name, email, avatarUrl",
+        updatedFields: ["name", "email", "avatarUrl"],
+      });
+      expect(row("users", userId)).toMatchObject({
+        name: "New Name",
+        email: "new@example.com",
+      });
+      expect(row("applications", openId)?.applicantSnapshot).toMatchObject({
+        name: "New Name",
+        avatarUrl: "https://img.test/new.png",
+        headline: "Designer",
+      });
+    });
+
+    it("rejects emails owned by another user and deleted accounts", async () => {
+      const { userId } = await seedCandidate();
+
+      await expect(
+        runHandler(updateUser, convex.ctx, {
+          userId,
+          email: "taken@example.com",
+        }),
+      ).rejects.toThrow("Email already in use by another user");
+
+      await convex.ctx.db.patch(userId, { deletedAt: Date.now() });
+      await expect(
+        runHandler(updateUser, convex.ctx, { userId, name: "Ghost" }),
+      ).rejects.toThrow("Cannot update deleted user");
+    });
+  });
+
+  describe("softDeleteUser", () => {
+    it("withdraws open applications and detaches the user", async () => {
+      const { userId, openId, hiredId } = await seedCandidate();
+
+      await runHandler(softDeleteUser, convex.ctx, { userId });
+
+      expect(row("users", userId)?.deletedAt).toEqual(expect.any(Number));
+      expect(row("applications", openId)?.status).toBe("withdrawn");
+      expect(row("applications", hiredId)?.status).toBe("hired");
+      expect(convex.rows("applicationStatusEvents")).toEqual([
+        expect.objectContaining({
+          applicationId: openId,
+          status: "withdrawn",
+          reason: "Candidate account deleted",
+        }),
+      ]);
+      expect(convex.rows("profiles")[0]?.visibility).toBe("private");
+      expect(convex.rows("conversations")[0]?.archivedAt).toEqual(
+        expect.any(Number),
+      );
+      expect(convex.rows("userStatus")).toEqual([
+        expect.objectContaining({ status: "offline" }),
+      ]);
+      expect(convex.rows("userRoles")).toHaveLength(0);
+
+      await expect(
+        runHandler(softDeleteUser, convex.ctx, { userId }),
+      ).rejects.toThrow("User is already deleted");
+    });
+  });
+
+  describe("recordSessionEvent", () => {
+    it("tracks sign-ins and clears presence when sessions end", async () => {
+      const { userId } = await seedCandidate();
+
+      await runHandler(recordSessionEvent, convex.ctx, {
+        clerkId: "candidate_1",
+        event: "created",
+        occurredAt: 2_000,
+      });
+      await runHandler(recordSessionEvent, convex.ctx, {
+        clerkId: "candidate_1",
+        event: "created",
+        occurredAt: 1_000,
+      });
+      expect(row("users", userId)?.lastSignInAt).toBe(2_000);
+
+      expect(
+        await runHandler(recordSessionEvent, convex.ctx, {
+          clerkId: "candidate_1",
+          event: "ended",
+          occurredAt: 3_000,
+        }),
+      ).toEqual({ success: true });
+      expect(convex.rows("userStatus")).toEqual([
+        expect.objectContaining({ status: "offline", lastUpdated: 3_000 }),
+      ]);
+
+      expect(
+        await runHandler(recordSessionEvent, convex.ctx, {
+          clerkId: "unknown",
+          event: "created",
+          occurredAt: 4_000,
+        }),
+      ).toEqual({ success: false });
+    });
+  });
+});
@@ -14,30 +14,52 @@ import type {
   FunctionReference,
 } from "convex/server";
 import type * as analytics from "../analytics.js";
+import type * as applicationStatus from "../applicationStatus.js";
 import type * as applications from "../applications.js";
+import type * as calendar from "../calendar.js";
+import type * as certificates from "../certificates.js";
 import type * as chatConversations from "../chatConversations.js";
 import type * as chatMessages from "../chatMessages.js";
+import type * as courseReviews from "../courseReviews.js";
 import type * as courses from "../courses.js";
 import type * as coursesMutations from "../coursesMutations.js";
+import type * as crons from "../crons.js";
+import type * as deliverables from "../deliverables.js";
+import type * as employerAnalytics from "../employerAnalytics.js";
 import type * as employerApplications from "../employerApplications.js";
 import type * as employerGigs from "../employerGigs.js";
+import type * as enrollments from "../enrollments.js";
+import type * as escrow from "../escrow.js";
 import type * as files from "../files.js";
 import type * as finance from "../finance.js";
+import type * as gamification from "../gamification.js";
 import type * as gigs from "../gigs.js";
+import type * as http from "../http.js";
 import type * as index from "../index.js";
 import type * as internal_chatAssignments from "../internal/chatAssignments.js";
 import type * as internal_healthQueries from "../internal/healthQueries.js";
 import type * as internal_index from "../internal/index.js";
+import type * as internal_matchingQueries from "../internal/matchingQueries.js";
 import type * as internal_reconcileQueries from "../internal/reconcileQueries.js";
 import type * as internal_walletBalances from "../internal/walletBalances.js";
 import type * as internal_walletInit from "../internal/walletInit.js";
 import type * as internal_walletMutations from "../internal/walletMutations.js";
 import type * as internal_walletTransactions from "../internal/walletTransactions.js";
+import type * as interviews from "../interviews.js";
+import type * as lessonAccess from "../lessonAccess.js";
+import type * as lessonComments from "../lessonComments.js";
 import type * as lessons from "../lessons.js";
+import type * as matching from "../matching.js";
 import type * as messages from "../messages.js";
+import type * as notifications from "../notifications.js";
+import type * as presence from "../presence.js";
 import type * as profile from "../profile.js";
 import type * as progressBatch from "../progressBatch.js";
+import type * as quizzes from "../quizzes.js";
 import type * as reconcile from "../reconcile.js";
+import type * as savedGigs from "../savedGigs.js";
+import type * as savedSearches from "../savedSearches.js";
+import type * as search from "../search.js";
 import type * as skills from "../skills.js";
 import type * as skillsTest from "../skillsTest.js";
 import type * as users from "../users.js";
@@ -54,30 +76,52 @@ import type * as walletApi from "../walletApi.js";
  */
 declare const fullApi: ApiFromModules<{
   analytics: typeof analytics;
+  applicationStatus: typeof applicationStatus;
   applications: typeof applications;
+  calendar: typeof calendar;
+  certificates: typeof certificates;
   chatConversations: typeof chatConversations;
   chatMessages: typeof chatMessages;
+  courseReviews: typeof courseReviews;
   courses: typeof courses;
   coursesMutations: typeof coursesMutations;
+  crons: typeof crons;
+  deliverables: typeof deliverables;
+  employerAnalytics: typeof employerAnalytics;
   employerApplications: typeof employerApplications;
   employerGigs: typeof employerGigs;
+  enrollments: typeof enrollments;
+  escrow: typeof escrow;
   files: typeof files;
   finance: typeof finance;
+  gamification: typeof gamification;
   gigs: typeof gigs;
+  http: typeof http;
   index: typeof index;
   "internal/chatAssignments": typeof internal_chatAssignments;
   "internal/healthQueries": typeof internal_healthQueries;
   "internal/index": typeof internal_index;
+  "internal/matchingQueries": typeof internal_matchingQueries;
   "internal/reconcileQueries": typeof internal_reconcileQueries;
   "internal/walletBalances": typeof internal_walletBalances;
   "internal/walletInit": typeof internal_walletInit;
   "internal/walletMutations": typeof internal_walletMutations;
   "internal/walletTransactions": typeof internal_walletTransactions;
+  interviews: typeof interviews;
+  lessonAccess: typeof lessonAccess;
+  lessonComments: typeof lessonComments;
   lessons: typeof lessons;
+  matching: typeof matching;
   messages: typeof messages;
+  notifications: typeof notifications;
+  presence: typeof presence;
   profile: typeof profile;
   progressBatch: typeof progressBatch;
+  quizzes: typeof quizzes;
   reconcile: typeof reconcile;
+  savedGigs: typeof savedGigs;
+  savedSearches: typeof savedSearches;
+  search: typeof search;
   skills: typeof skills;
   skillsTest: typeof skillsTest;
   users: typeof users;
@@ -0,0 +1,145 @@
+/**
+ * APPLICATION STATUS
+ *
+ * The single transition graph for application statuses. Every mutation that
+ * changes `applications.status` checks the move with
+ * `assertStatusTransition`, which throws a `ConvexError` carrying
+ * `StatusTransitionErrorData` so clients can tell a rejected move apart from
+ * other failures.
+ */
+
+import { ConvexError, v } from "convex/values";
+import type { Doc } from "./_generated/dataModel";
+
+export type ApplicationStatus = Doc<"applications">["status"];
+
+export const APPLICATION_STATUSES = [
+  "pending",
+  "submitted",
+  "viewed",
+  "in_review",
+  "shortlisted",
+  "interview_requested",
+  "hired",
+  "assigned",
+  "rejected",
+  "withdrawn",
+  "closed",
+] as const satisfies ReadonlyArray<ApplicationStatus>;
+
+export const applicationStatusValidator = v.union(
+  ...APPLICATION_STATUSES.map((status) => v.literal(status)),
+);
+
+/** Who is moving the application. `system` covers cascades and jobs. */
+export type StatusActor = "employer" | "candidate" | "system";
+
+/**
+ * Legal next statuses for each status. Hired, rejected, withdrawn and
+ * closed are terminal; only shortlisted candidates can be invited to
+ * interview.
+ */
+const TRANSITIONS: Record<ApplicationStatus, readonly ApplicationStatus[]> = {
+  pending: ["submitted", "viewed", "in_review", "rejected", "withdrawn"],
+  submitted: ["viewed", "in_review", "shortlisted", "rejected", "withdrawn"],
+  viewed: ["in_review", "shortlisted", "rejected", "withdrawn"],
+  in_review: ["shortlisted", "rejected", "withdrawn"],
+  shortlisted: [
+    "in_review",
+    "interview_requested",
+    "hired",
+    "assigned",
+    "rejected",
+    "withdrawn",
+  ],
+  interview_requested: [
+    "shortlisted",
+    "hired",
+    "assigned",
+    "rejected",
+    "withdrawn",
+  ],
+  assigned: ["closed"],
+  hired: [],
+  rejected: [],
+  withdrawn: [],
+  closed: [],
+};
+
+/** Statuses each actor may move an application into. */
+const ACTOR_TARGETS: Record<StatusActor, readonly ApplicationStatus[]> = {
+  employer: [
+    "viewed",
+    "in_review",
+    "shortlisted",
+    "interview_requested",
+    "hired",
+    "assigned",
+    "rejected",
+    "closed",
+  ],
+  candidate: ["withdrawn"],
+  system: APPLICATION_STATUSES,
+};
+
+export type StatusTransitionErrorData = {
+  code: "INVALID_STATUS_TRANSITION" | "STATUS_NOT_ALLOWED_FOR_ACTOR";
+  from: ApplicationStatus;
+  to: ApplicationStatus;
+  message: string;
+};
+
+export function isTerminalStatus(status: ApplicationStatus): boolean {
+  return TRANSITIONS[status].length === 0;
+}
+
+export function canTransition(
+  from: ApplicationStatus,
+  to: ApplicationStatus,
+  actor: StatusActor,
+): boolean {
+  return TRANSITIONS[from].includes(to) && ACTOR_TARGETS[actor].includes(to);
+}
+
+/** Statuses `actor` may move an application in `from` into, in graph order. */
+export function nextStatuses(
+  from: ApplicationStatus,
+  actor: StatusActor,
+): ApplicationStatus[] {
+  return TRANSITIONS[from].filter((to) => ACTOR_TARGETS[actor].includes(to));
+}
+
+function formatStatus(status: ApplicationStatus): string {
+  return status.replaceAll("_", " ");
+}
+
+export function assertStatusTransition(
+  from: ApplicationStatus,
+  to: ApplicationStatus,
+  actor: StatusActor,
+): void {
+  if (!TRANSITIONS[from].includes(to)) {
+    throw new ConvexError<StatusTransitionErrorData>({
+      code: "INVALID_STATUS_TRANSITION",
+      from,
+      to,
+      message: isTerminalStatus(from)
+        ? `Application is already ${formatStatus(from)} and can no longer change.`
+        : `Application cannot move from ${formatStatus(from)} to ${formatStatus(to)}.`,
+    });
+  }
+
+  if (!ACTOR_TARGETS[actor].includes(to)) {
+    const allowedActor = (["employer", "candidate"] as const).find((other) =>
+      ACTOR_TARGETS[other].includes(to),
+    );
+    throw new ConvexError<StatusTransitionErrorData>({
+      code: "STATUS_NOT_ALLOWED_FOR_ACTOR",
+      from,
+      to,
+      message: allowedActor
+        ? `Only the ${allowedActor} can mark an application as ${formatStatus(to)}.`
+        : `Marking an application as ${formatStatus(to)} is not allowed for this actor.`,
+    });
+  }
+}
@@ -7,18 +7,23 @@
 import { query, mutation } from "./_generated/server";
 import { ConvexError, v } from "convex/values";
 import type { Doc, Id } from "./_generated/dataModel";
-import { getUserId } from "./users";
-
-const APPLICATION_STATUS = [
-  "submitted",
-  "in_review",
-  "shortlisted",
-  "rejected",
-  "hired",
-  "withdrawn",
-] as const;
-
-type ApplicationStatus = (typeof APPLICATION_STATUS)[number];
+import { buildApplicantSnapshot, getUserId } from "./users";
+import {
+  applicationStatusValidator,
+  assertStatusTransition,
+  type ApplicationStatus,
+  type StatusActor,
+} from "./applicationStatus";
+import {
+  refundApplicationEscrow,
+  syncEscrowWithApplicationStatus,
+} from "./escrow";
+import {
+  recordApplicationStatusEvent,
+  recordApplicationSubmitted,
+} from "./employerAnalytics";
+import { dispatchGamificationEvent } from "./gamification";
+import { cancelInterviewsForStatusChange } from "./interviews";
 
 export const listByCandidate = query({
   args: {},
@@ -94,7 +99,7 @@ export const statusForGig = query({
     return {
       hasApplied: true,
       applicationId: existing._id,
-      status: existing.status as ApplicationStatus,
+      status: existing.status,
     };
   },
 });
@@ -136,7 +141,7 @@ export const submit = mutation({
     if (existing) {
       return {
         applicationId: existing._id,
-        status: existing.status as ApplicationStatus,
+        status: existing.status,
         isDuplicate: true,
       } satisfies SubmitApplicationResult;
     }
@@ -144,6 +149,7 @@ export const submit = mutation({
     const normalizedCoverLetter = coverLetter.trim();
     const normalizedPortfolioUrl = portfolioUrl.trim();
     const now = Date.now();
+    const candidate = await ctx.db.get(candidateId);
 
     const applicationId = await ctx.db.insert("applications", {
       gigId,
@@ -152,9 +158,22 @@ export const submit = mutation({
       portfolioLinks: normalizedPortfolioUrl
         ? [normalizedPortfolioUrl]
         : undefined,
+      applicantSnapshot: candidate
+        ? await buildApplicantSnapshot(ctx, candidate)
+        : undefined,
       status: "submitted",
       updatedAt: now,
     });
+    const application = await ctx.db.get(applicationId);
+    if (application) {
+      await recordApplicationSubmitted(ctx, application);
+    }
+
+    await dispatchGamificationEvent(ctx, {
+      eventName: "application.sent",
+      userId: candidateId,
+      relatedEntityId: applicationId,
+    });
 
     return {
       applicationId,
@@ -164,28 +183,73 @@ export const submit = mutation({
   },
 });
 
+/**
+ * Move an application to another status on behalf of its candidate or the
+ * gig's employer. The transition graph decides which moves each may make.
+ */
 export const updateStatus = mutation({
   args: {
     applicationId: v.id("applications"),
-    status: v.union(
-      v.literal("submitted"),
-      v.literal("in_review"),
-      v.literal("shortlisted"),
-      v.literal("rejected"),
-      v.literal("hired"),
-      v.literal("withdrawn"),
-    ),
+    status: applicationStatusValidator,
   },
-  handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      throw new Error("Not authenticated");
+  handler: async (ctx, { applicationId, status }) => {
+    const userId = await getUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
     }
 
-    await ctx.db.patch(args.applicationId, {
-      status: args.status,
-      updatedAt: Date.now(),
+    const application = await ctx.db.get(applicationId);
+    if (!application) {
+      throw new ConvexError("Application not found");
+    }
+
+    const gig = await ctx.db.get(application.gigId);
+    if (!gig) {
+      throw new ConvexError("Gig not found");
+    }
+
+    let actor: StatusActor;
+    if (application.candidateId === userId) {
+      actor = "candidate";
+    } else if (gig.employerId === userId) {
+      actor = "employer";
+    } else {
+      throw new ConvexError("Forbidden");
+    }
+
+    if (application.status === status) {
+      return status;
+    }
+
+    assertStatusTransition(application.status, status, actor);
+
+    await syncEscrowWithApplicationStatus(ctx, {
+      application,
+      gig,
+      nextStatus: status,
+    });
+
+    const timestamp = Date.now();
+
+    await recordApplicationStatusEvent(ctx, {
+      application,
+      status,
+      changedBy: userId,
+      timestamp,
     });
+    await cancelInterviewsForStatusChange(ctx, {
+      application,
+      status,
+      changedBy: userId,
+    });
+
+    await ctx.db.patch(applicationId, {
+      status,
+      statusUpdatedAt: timestamp,
+      updatedAt: timestamp,
+    });
+
+    return status;
   },
 });
 
@@ -194,14 +258,49 @@ export const withdraw = mutation({
     applicationId: v.id("applications"),
   },
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      throw new Error("Not authenticated");
+    const candidateId = await getUserId(ctx);
+    if (!candidateId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const application = await ctx.db.get(args.applicationId);
+    if (!application) {
+      throw new ConvexError("Application not found");
+    }
+
+    if (application.candidateId !== candidateId) {
+      throw new ConvexError("Forbidden");
     }
 
+    if (application.status === "withdrawn") {
+      return;
+    }
+
+    assertStatusTransition(application.status, "withdrawn", "candidate");
+
+    const gig = await ctx.db.get(application.gigId);
+    if (gig) {
+      await refundApplicationEscrow(ctx, { application, gig });
+    }
+
+    const timestamp = Date.now();
+
+    await recordApplicationStatusEvent(ctx, {
+      application,
+      status: "withdrawn",
+      changedBy: candidateId,
+      timestamp,
+    });
+    await cancelInterviewsForStatusChange(ctx, {
+      application,
+      status: "withdrawn",
+      changedBy: candidateId,
+    });
+
     await ctx.db.patch(args.applicationId, {
       status: "withdrawn",
-      updatedAt: Date.now(),
+      statusUpdatedAt: timestamp,
+      updatedAt: timestamp,
     });
   },
 });
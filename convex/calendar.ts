@@ -0,0 +1,214 @@
+/**
+ * CALENDAR HELPERS
+ *
+ * Timezone conversion built on `Intl` (the Convex runtime ships full ICU
+ * data) and a minimal RFC 5545 writer for single-event `.ics` files.
+ */
+
+const LOCAL_DATE_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/;
+const ICS_LINE_LIMIT = 75;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Offset of `timeZone` from UTC at `timestamp`, in milliseconds. */
+function timeZoneOffsetMs(timestamp: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(timestamp);
+
+  const value = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0);
+
+  const wallClock = Date.UTC(
+    value("year"),
+    value("month") - 1,
+    value("day"),
+    value("hour"),
+    value("minute"),
+    value("second"),
+  );
+  return wallClock - Math.floor(timestamp / 1000) * 1000;
+}
+
+/**
+ * Convert a wall-clock time (`YYYY-MM-DDTHH:mm`, as produced by
+ * `datetime-local` inputs) in `timeZone` to a UTC timestamp. Returns null
+ * for malformed input.
+ */
+export function zonedTimeToUtc(
+  localDateTime: string,
+  timeZone: string,
+): number | null {
+  const match = LOCAL_DATE_TIME_PATTERN.exec(localDateTime);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute] = match.map(Number) as [
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+  ];
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+  if (Number.isNaN(asUtc)) {
+    return null;
+  }
+
+  // Try the offsets in force a day either side of the wall-clock time. A time
+  // repeated when clocks go back matches both and takes the earlier instant;
+  // a time skipped when clocks go forward matches neither and is read with
+  // the offset from before the change, which lands after the gap.
+  const offsetBefore = timeZoneOffsetMs(asUtc - DAY_MS, timeZone);
+  const offsetAfter = timeZoneOffsetMs(asUtc + DAY_MS, timeZone);
+  const candidates = [asUtc - offsetBefore, asUtc - offsetAfter].filter(
+    (candidate) => asUtc - timeZoneOffsetMs(candidate, timeZone) === candidate,
+  );
+  return candidates.length > 0 ? Math.min(...candidates) : asUtc - offsetBefore;
+}
+
+/** Human readable time in a timezone, e.g. "Tue, Oct 20, 2:00 PM GMT+2". */
+export function formatInTimeZone(timestamp: number, timeZone: string): string {
+  return new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+  }).format(timestamp);
+}
+
+export interface CalendarAttendee {
+  name: string;
+  email: string;
+}
+
+export interface CalendarEvent {
+  uid: string;
+  sequence: number;
+  startsAt: number;
+  durationMinutes: number;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  organizer: CalendarAttendee;
+  attendees: CalendarAttendee[];
+  cancelled?: boolean;
+}
+
+function formatIcsDate(timestamp: number): string {
+  return new Date(timestamp)
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}Z$/, "Z");
+}
+
+function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+function escapeIcsParam(value: string): string {
+  return `"${value.replace(/"/g, "'")}"`;
+}
+
+function utf8Length(char: string): number {
+  const codePoint = char.codePointAt(0) ?? 0;
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  if (codePoint < 0x10000) return 3;
+  return 4;
+}
+
+/**
+ * Fold a content line into chunks of at most 75 octets, as RFC 5545
+ * requires. Lengths are counted in UTF-8 and folds fall between code
+ * points, so non-Latin names never split a character.
+ */
+export function foldIcsLine(line: string): string {
+  const chunks: string[] = [];
+  let chunk = "";
+  let chunkOctets = 0;
+  // Continuation lines start with a space, which counts toward the limit
+  let limit = ICS_LINE_LIMIT;
+
+  for (const char of line) {
+    const octets = utf8Length(char);
+    if (chunkOctets + octets > limit) {
+      chunks.push(chunk);
+      chunk = "";
+      chunkOctets = 0;
+      limit = ICS_LINE_LIMIT - 1;
+    }
+    chunk += char;
+    chunkOctets += octets;
+  }
+  chunks.push(chunk);
+
+  return chunks.join("\r\n ");
+}
+
+/**
+ * Serialize one event as an iCalendar file. Cancelled events are written
+ * with `METHOD:CANCEL` so calendar clients remove the matching UID.
+ */
+export function buildIcsCalendar(event: CalendarEvent): string {
+  const method = event.cancelled ? "CANCEL" : "REQUEST";
+  const endsAt = event.startsAt + event.durationMinutes * 60 * 1000;
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Gigsy//Interviews//EN",
+    "CALSCALE:GREGORIAN",
+    `METHOD:${method}`,
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatIcsDate(Date.now())}`,
+    `DTSTART:${formatIcsDate(event.startsAt)}`,
+    `DTEND:${formatIcsDate(endsAt)}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`,
+    event.description
+      ? `DESCRIPTION:${escapeIcsText(event.description)}`
+      : undefined,
+    event.location ? `LOCATION:${escapeIcsText(event.location)}` : undefined,
+    event.url ? `URL:${event.url}` : undefined,
+    `ORGANIZER;CN=${escapeIcsParam(event.organizer.name)}:mailto:${event.organizer.email}`,
+    ...event.attendees.map(
+      (attendee) =>
+        `ATTENDEE;CN=${escapeIcsParam(attendee.name)};ROLE=REQ-PARTICIPANT:mailto:${attendee.email}`,
+    ),
+    `STATUS:${event.cancelled ? "CANCELLED" : "CONFIRMED"}`,
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ];
+
+  return `${lines
+    .filter((line): line is string => line !== undefined)
+    .map(foldIcsLine)
+    .join("\r\n")}\r\n`;
+}
@@ -0,0 +1,195 @@
+/**
+ * COURSE CERTIFICATES
+ *
+ * One certificate is issued per enrollment when it completes. Recipient,
+ * course and instructor names are copied onto the record at issue time so a
+ * certificate keeps reading the same after renames. Anyone with the
+ * verification code can check it through `verify`; the PDF is rendered in
+ * the browser from the same fields (see src/lib/certificate-pdf.ts).
+ */
+
+import { ConvexError, v } from "convex/values";
+import { query } from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { getUserId, refreshApplicantSnapshots } from "./users";
+
+// No 0/O or 1/I so codes survive being read aloud or retyped.
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_GROUPS = 3;
+const CODE_GROUP_LENGTH = 4;
+const MAX_CODE_ATTEMPTS = 5;
+
+const certificateValidator = v.object({
+  _id: v.id("certificates"),
+  courseId: v.id("courses"),
+  verificationCode: v.string(),
+  recipientName: v.string(),
+  courseTitle: v.string(),
+  instructorName: v.string(),
+  issuedAt: v.number(),
+});
+
+function generateVerificationCode(): string {
+  const groups: string[] = [];
+  for (let group = 0; group < CODE_GROUPS; group += 1) {
+    let chunk = "";
+    for (let index = 0; index < CODE_GROUP_LENGTH; index += 1) {
+      chunk += CODE_ALPHABET.charAt(
+        Math.floor(Math.random() * CODE_ALPHABET.length),
+      );
+    }
+    groups.push(chunk);
+  }
+  return groups.join("-");
+}
+
+/**
+ * Canonical form of a user-entered code: upper case, separators dropped and
+ * re-inserted, so "7kqm 2xwp hr4d" matches "7KQM-2XWP-HR4D".
+ */
+export function normalizeVerificationCode(code: string): string {
+  const compact = code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+  const groups = compact.match(new RegExp(`.{1,${CODE_GROUP_LENGTH}}`, "g"));
+  return groups?.join("-") ?? "";
+}
+
+function toCertificateView(certificate: Doc<"certificates">) {
+  return {
+    _id: certificate._id,
+    courseId: certificate.courseId,
+    verificationCode: certificate.verificationCode,
+    recipientName: certificate.recipientName,
+    courseTitle: certificate.courseTitle,
+    instructorName: certificate.instructorName,
+    issuedAt: certificate.issuedAt,
+  };
+}
+
+/** A user's certificates, most recent first. */
+export async function listUserCertificates(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+): Promise<Array<Doc<"certificates">>> {
+  const certificates = await ctx.db
+    .query("certificates")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+
+  return certificates.sort((a, b) => b.issuedAt - a.issuedAt);
+}
+
+/**
+ * Issue the certificate for a completed enrollment and add it to the
+ * learner's applicant snapshots. No-op when one was already issued.
+ */
+export async function issueCertificate(
+  ctx: MutationCtx,
+  enrollment: Doc<"enrollments">,
+): Promise<Id<"certificates">> {
+  const existing = await ctx.db
+    .query("certificates")
+    .withIndex("by_enrollment", (q) => q.eq("enrollmentId", enrollment._id))
+    .unique();
+  if (existing) {
+    return existing._id;
+  }
+
+  const [user, course] = await Promise.all([
+    ctx.db.get(enrollment.userId),
+    ctx.db.get(enrollment.courseId),
+  ]);
+  if (!user || !course) {
+    throw new ConvexError("Cannot issue a certificate for a missing course");
+  }
+  const instructor = await ctx.db.get(course.authorId);
+
+  let verificationCode = "";
+  for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt += 1) {
+    const candidate = generateVerificationCode();
+    const collision = await ctx.db
+      .query("certificates")
+      .withIndex("by_verification_code", (q) =>
+        q.eq("verificationCode", candidate),
+      )
+      .first();
+    if (!collision) {
+      verificationCode = candidate;
+      break;
+    }
+  }
+  if (!verificationCode) {
+    throw new ConvexError("Unable to generate a verification code");
+  }
+
+  const certificateId = await ctx.db.insert("certificates", {
+    userId: enrollment.userId,
+    courseId: enrollment.courseId,
+    enrollmentId: enrollment._id,
+    verificationCode,
+    recipientName: user.name,
+    courseTitle: course.title,
+    instructorName: instructor?.name ?? "Gigsy",
+    issuedAt: enrollment.completedAt ?? Date.now(),
+  });
+
+  await refreshApplicantSnapshots(ctx, enrollment.userId);
+
+  return certificateId;
+}
+
+/** The signed-in user's certificates, for download and sharing. */
+export const listMine = query({
+  args: {},
+  returns: v.array(certificateValidator),
+  handler: async (ctx) => {
+    const userId = await getUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+
+    const certificates = await listUserCertificates(ctx, userId);
+    return certificates.map(toCertificateView);
+  },
+});
+
+/** The signed-in user's certificate for a course, if they have earned one. */
+export const getMineForCourse = query({
+  args: { courseId: v.id("courses") },
+  returns: v.union(certificateValidator, v.null()),
+  handler: async (ctx, { courseId }) => {
+    const userId = await getUserId(ctx);
+    if (!userId) {
+      return null;
+    }
+
+    const certificates = await listUserCertificates(ctx, userId);
+    const certificate = certificates.find(
+      (candidate) => candidate.courseId === courseId,
+    );
+    return certificate ? toCertificateView(certificate) : null;
+  },
+});
+
+/**
+ * Public lookup by verification code. Returns null for unknown codes.
+ */
+export const verify = query({
+  args: { code: v.string() },
+  returns: v.union(certificateValidator, v.null()),
+  handler: async (ctx, { code }) => {
+    const verificationCode = normalizeVerificationCode(code);
+    if (!verificationCode) {
+      return null;
+    }
+
+    const certificate = await ctx.db
+      .query("certificates")
+      .withIndex("by_verification_code", (q) =>
+        q.eq("verificationCode", verificationCode),
+      )
+      .first();
+
+    return certificate ? toCertificateView(certificate) : null;
+  },
+});
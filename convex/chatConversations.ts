@@ -1,11 +1,14 @@
 import { mutation, query } from "./_generated/server";
 import type { Doc, Id } from "./_generated/dataModel";
-import type { MutationCtx } from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
 import { ConvexError, v } from "convex/values";
 import { getUserId } from "./users";
+import { appendMessage } from "./chatMessages";
 
 const DEFAULT_PAGE_SIZE = 25;
 const MAX_PAGE_SIZE = 50;
+const MAX_SUBJECT_LENGTH = 120;
+const MAX_OPENING_MESSAGE_LENGTH = 2000;
 
 export interface EnsureConversationParams {
   gigId?: Id<"gigs">;
@@ -14,6 +17,11 @@ export interface EnsureConversationParams {
   participants: ReadonlyArray<Id<"users">>;
   meta?: Doc<"conversations">["meta"];
   creatorId: Id<"users">;
+  /**
+   * Overrides the participant-derived key for conversations whose membership
+   * changes over time, such as support tickets.
+   */
+  canonicalKey?: string;
   auditMetadata?: Record<string, unknown>;
 }
 
@@ -67,13 +75,15 @@ export async function ensureConversation(
     participants,
     meta,
     creatorId,
+    canonicalKey: canonicalKeyOverride,
     auditMetadata,
   }: EnsureConversationParams,
 ): Promise<Id<"conversations">> {
   const normalizedParticipants = Array.from(
     new Set([...participants, creatorId]),
   );
-  const canonicalKey = buildCanonicalKey(normalizedParticipants, gigId);
+  const canonicalKey =
+    canonicalKeyOverride ?? buildCanonicalKey(normalizedParticipants, gigId);
 
   const existing = await ctx.db
     .query("conversations")
@@ -90,6 +100,13 @@ export async function ensureConversation(
       updates.gigId = gigId;
     }
 
+    const missingParticipants = normalizedParticipants.filter(
+      (participantId) => !existing.participants.includes(participantId),
+    );
+    if (missingParticipants.length > 0) {
+      updates.participants = [...existing.participants, ...missingParticipants];
+    }
+
     if (meta) {
       const nextMeta = {
         ...(existing.meta ?? {}),
@@ -273,6 +290,46 @@ export const getConversation = query({
   },
 });
 
+async function listUnreadLinks(ctx: QueryCtx, userId: Id<"users">) {
+  const links = await ctx.db
+    .query("userConversations")
+    .withIndex("by_user_recent", (q) => q.eq("userId", userId))
+    .collect();
+  return links.filter((link) => (link.unreadCount ?? 0) > 0);
+}
+
+/** Unread message counts for the viewer's conversations that have any. */
+export const getUnreadCounts = query({
+  args: {},
+  handler: async (ctx) => {
+    const viewerId = await getUserId(ctx);
+    if (!viewerId) {
+      return [];
+    }
+
+    const links = await listUnreadLinks(ctx, viewerId);
+    return links.map((link) => ({
+      conversationId: link.conversationId,
+      unreadCount: link.unreadCount ?? 0,
+    }));
+  },
+});
+
+/** Total unread messages across the viewer's conversations. */
+export const unreadCount = query({
+  args: {},
+  returns: v.number(),
+  handler: async (ctx) => {
+    const viewerId = await getUserId(ctx);
+    if (!viewerId) {
+      return 0;
+    }
+
+    const links = await listUnreadLinks(ctx, viewerId);
+    return links.reduce((total, link) => total + (link.unreadCount ?? 0), 0);
+  },
+});
+
 /**
  * Create a conversation (gig-scoped or global) while deduplicating via canonicalKey.
  * Automatically adds the creator to the participant list and bootstraps user link rows.
@@ -318,6 +375,204 @@ export const createConversation = mutation({
   },
 });
 
+function normalizeText(
+  value: string | undefined,
+  maxLength: number,
+  label: string,
+): string | undefined {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+
+  if (trimmed.length > maxLength) {
+    throw new ConvexError(`${label} must be ${maxLength} characters or fewer`);
+  }
+
+  return trimmed;
+}
+
+async function requireActiveUser(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+): Promise<Doc<"users">> {
+  const user = await ctx.db.get(userId);
+  if (!user || user.deletedAt !== undefined) {
+    throw new ConvexError("User not found");
+  }
+  return user;
+}
+
+/**
+ * Bring an archived conversation back to the inbox and optionally post the
+ * opening message from the viewer.
+ */
+async function reopenWithMessage(
+  ctx: MutationCtx,
+  conversationId: Id<"conversations">,
+  senderId: Id<"users">,
+  message: string | undefined,
+) {
+  const conversation = await ctx.db.get(conversationId);
+  if (conversation?.archivedAt !== undefined) {
+    await ctx.db.patch(conversationId, { archivedAt: undefined });
+  }
+
+  const body = normalizeText(message, MAX_OPENING_MESSAGE_LENGTH, "Message");
+  if (body) {
+    await appendMessage(ctx, {
+      conversationId,
+      senderId,
+      messageType: "text",
+      body,
+    });
+  }
+}
+
+/**
+ * Open (or return) the one-to-one conversation between the viewer and
+ * another user, e.g. from their public profile.
+ */
+export const openDirectConversation = mutation({
+  args: {
+    userId: v.id("users"),
+    message: v.optional(v.string()),
+  },
+  handler: async (ctx, { userId, message }) => {
+    const viewerId = await getUserId(ctx);
+    if (!viewerId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    if (userId === viewerId) {
+      throw new ConvexError("You cannot message yourself");
+    }
+
+    const [viewer, recipient] = await Promise.all([
+      requireActiveUser(ctx, viewerId),
+      requireActiveUser(ctx, userId),
+    ]);
+
+    const conversationId = await ensureConversation(ctx, {
+      type: "direct",
+      // Order names by id so the title is stable whoever opens the thread
+      title: [viewer, recipient]
+        .sort((left, right) => left._id.localeCompare(right._id))
+        .map((user) => user.name)
+        .join(" & "),
+      participants: [userId],
+      creatorId: viewerId,
+      auditMetadata: {
+        source: "public.openDirectConversation",
+      },
+    });
+
+    await reopenWithMessage(ctx, conversationId, viewerId, message);
+    return conversationId;
+  },
+});
+
+/**
+ * Open the viewer's support ticket, routed to every moderator. Each user has
+ * a single support conversation keyed on the requester, so moderators added
+ * later join the existing thread instead of starting a new one.
+ */
+export const openSupportConversation = mutation({
+  args: {
+    subject: v.string(),
+    message: v.optional(v.string()),
+  },
+  handler: async (ctx, { subject, message }) => {
+    const viewerId = await getUserId(ctx);
+    if (!viewerId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const normalizedSubject = normalizeText(
+      subject,
+      MAX_SUBJECT_LENGTH,
+      "Subject",
+    );
+    if (!normalizedSubject) {
+      throw new ConvexError("Subject is required");
+    }
+
+    const moderators = await ctx.db
+      .query("userRoles")
+      .withIndex("by_role", (q) => q.eq("role", "moderator"))
+      .collect();
+    const moderatorIds = moderators
+      .map((row) => row.userId)
+      .filter((userId) => userId !== viewerId);
+
+    if (moderatorIds.length === 0) {
+      throw new ConvexError("Support is unavailable right now");
+    }
+
+    const conversationId = await ensureConversation(ctx, {
+      type: "support",
+      title: `Support: ${normalizedSubject}`,
+      participants: moderatorIds,
+      meta: { subject: normalizedSubject },
+      creatorId: viewerId,
+      canonicalKey: `support|${viewerId}`,
+      auditMetadata: {
+        source: "public.openSupportConversation",
+      },
+    });
+
+    await reopenWithMessage(ctx, conversationId, viewerId, message);
+    return conversationId;
+  },
+});
+
+/**
+ * Open (or return) a conversation between the viewer and a course's author,
+ * scoped to that course.
+ */
+export const requestMentorConversation = mutation({
+  args: {
+    courseId: v.id("courses"),
+    message: v.optional(v.string()),
+  },
+  handler: async (ctx, { courseId, message }) => {
+    const viewerId = await getUserId(ctx);
+    if (!viewerId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const course = await ctx.db.get(courseId);
+    if (!course) {
+      throw new ConvexError("Course not found");
+    }
+
+    if (course.authorId === viewerId) {
+      throw new ConvexError("You are the mentor for this course");
+    }
+
+    await requireActiveUser(ctx, course.authorId);
+
+    const conversationId = await ensureConversation(ctx, {
+      type: "mentor",
+      title: `Mentor: ${course.title}`,
+      participants: [course.authorId],
+      meta: { courseId },
+      creatorId: viewerId,
+      canonicalKey: `mentor|${courseId}|${buildCanonicalKey([
+        viewerId,
+        course.authorId,
+      ])}`,
+      auditMetadata: {
+        source: "public.requestMentorConversation",
+        courseId,
+      },
+    });
+
+    await reopenWithMessage(ctx, conversationId, viewerId, message);
+    return conversationId;
+  },
+});
+
 /**
  * Soft-archive a conversation for all participants.
  * Verifies membership before writing audit logs and setting `archivedAt`.
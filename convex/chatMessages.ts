@@ -1,17 +1,21 @@
 import { mutation, query } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
 import { v, ConvexError } from "convex/values";
 import type { Id, Doc } from "./_generated/dataModel";
 import { getUserId } from "./users";
+import { clearTyping } from "./presence";
+import { deleteChatAttachments, resolveChatAttachments } from "./files";
 
 const DEFAULT_PAGE_SIZE = 50;
 const MAX_PAGE_SIZE = 100;
+const MAX_EDIT_HISTORY = 20;
 
+export const REACTION_EMOJIS = ["👍", "❤️", "😂", "🎉", "😮", "😢"] as const;
+
+// Files are uploaded through `files.saveFileMetadata` first; the message
+// only references them and the stored metadata fills in the rest
 const AttachmentValidator = v.object({
   storageId: v.id("_storage"),
-  url: v.string(),
-  name: v.string(),
-  contentType: v.string(),
-  size: v.number(),
 });
 
 const MessageMetaValidator = v.object({
@@ -19,12 +23,6 @@ const MessageMetaValidator = v.object({
   readBy: v.optional(v.array(v.id("users"))),
 });
 
-const SystemEventValidator = v.union(
-  v.literal("work.submitted"),
-  v.literal("work.approved"),
-  v.literal("work.revision_requested"),
-);
-
 function clampLimit(limit?: number | null): number {
   if (!limit || Number.isNaN(limit)) {
     return DEFAULT_PAGE_SIZE;
@@ -46,6 +44,72 @@ function sortAscending<T extends { createdAt: number }>(items: T[]): T[] {
   return [...items].sort((a, b) => a.createdAt - b.createdAt);
 }
 
+export interface AppendMessageParams {
+  conversationId: Id<"conversations">;
+  senderId: Id<"users">;
+  messageType: Doc<"messages">["messageType"];
+  systemEvent?: Doc<"messages">["systemEvent"];
+  body?: string;
+  attachments?: Doc<"messages">["attachments"];
+  meta?: Doc<"messages">["meta"];
+}
+
+/**
+ * Insert a message, bump the conversation activity timestamp, mark it read
+ * for the sender and bump everyone else's unread counter. Shared by the
+ * public composer and server-driven system events.
+ */
+export async function appendMessage(
+  ctx: MutationCtx,
+  {
+    conversationId,
+    senderId,
+    messageType,
+    systemEvent,
+    body,
+    attachments,
+    meta,
+  }: AppendMessageParams,
+): Promise<Id<"messages">> {
+  const now = Date.now();
+
+  const messageId = await ctx.db.insert("messages", {
+    conversationId,
+    senderId,
+    messageType,
+    systemEvent,
+    body: body?.trim() ?? undefined,
+    attachments: attachments?.length ? attachments : undefined,
+    meta,
+    createdAt: now,
+  });
+
+  await ctx.db.patch(conversationId, {
+    lastMessageAt: now,
+  });
+
+  const links = await ctx.db
+    .query("userConversations")
+    .withIndex("by_conversation", (q) => q.eq("conversationId", conversationId))
+    .collect();
+
+  for (const link of links) {
+    if (link.userId === senderId) {
+      await ctx.db.patch(link._id, {
+        lastReadMessageId: messageId,
+        lastReadAt: now,
+        unreadCount: 0,
+      });
+    } else {
+      await ctx.db.patch(link._id, {
+        unreadCount: (link.unreadCount ?? 0) + 1,
+      });
+    }
+  }
+
+  return messageId;
+}
+
 type PaginatedMessages = {
   page: Array<Doc<"messages">>;
   isDone: boolean;
@@ -95,19 +159,14 @@ export const getMessages = query({
 export const sendMessage = mutation({
   args: {
     conversationId: v.id("conversations"),
-    messageType: v.union(
-      v.literal("text"),
-      v.literal("file"),
-      v.literal("system"),
-    ),
+    messageType: v.union(v.literal("text"), v.literal("file")),
     body: v.optional(v.string()),
     attachments: v.optional(v.array(AttachmentValidator)),
-    systemEvent: v.optional(SystemEventValidator),
     meta: v.optional(MessageMetaValidator),
   },
   handler: async (
     ctx,
-    { conversationId, messageType, body, attachments, systemEvent, meta },
+    { conversationId, messageType, body, attachments, meta },
   ) => {
     const senderId = await getUserId(ctx);
     if (!senderId) {
@@ -121,6 +180,11 @@ export const sendMessage = mutation({
 
     ensureParticipant(conversation, senderId);
 
+    const sender = await ctx.db.get(senderId);
+    if (!sender) {
+      throw new ConvexError("User not found");
+    }
+
     if (messageType === "text" && (!body || body.trim().length === 0)) {
       throw new ConvexError("Message body is required for text messages");
     }
@@ -129,41 +193,317 @@ export const sendMessage = mutation({
       throw new ConvexError("Attachments are required for file messages");
     }
 
-    if (messageType === "system" && !systemEvent) {
-      throw new ConvexError("System messages require a systemEvent");
-    }
+    await clearTyping(ctx, senderId, conversationId);
 
-    const now = Date.now();
+    const resolvedAttachments = attachments?.length
+      ? await resolveChatAttachments(ctx, {
+          conversationId,
+          sender,
+          storageIds: attachments.map((attachment) => attachment.storageId),
+        })
+      : undefined;
 
-    const messageId = await ctx.db.insert("messages", {
+    return await appendMessage(ctx, {
       conversationId,
       senderId,
       messageType,
-      systemEvent,
-      body: body?.trim() ?? undefined,
-      attachments: attachments?.length ? attachments : undefined,
+      body,
+      attachments: resolvedAttachments,
       meta,
+    });
+  },
+});
+
+async function loadMessageForParticipant(
+  ctx: MutationCtx,
+  messageId: Id<"messages">,
+  userId: Id<"users">,
+) {
+  const message = await ctx.db.get(messageId);
+  if (!message) {
+    throw new ConvexError("Message not found");
+  }
+
+  const conversation = await ctx.db.get(message.conversationId);
+  if (!conversation) {
+    throw new ConvexError("Conversation not found");
+  }
+
+  ensureParticipant(conversation, userId);
+
+  if (message.deletedAt !== undefined) {
+    throw new ConvexError("Message has been deleted");
+  }
+
+  return { message, conversation };
+}
+
+/**
+ * Replace the body of one of the viewer's own messages. The previous body is
+ * kept in `editHistory` (newest last, capped at `MAX_EDIT_HISTORY`).
+ */
+export const editMessage = mutation({
+  args: {
+    messageId: v.id("messages"),
+    body: v.string(),
+  },
+  handler: async (ctx, { messageId, body }) => {
+    const userId = await getUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const { message, conversation } = await loadMessageForParticipant(
+      ctx,
+      messageId,
+      userId,
+    );
+
+    if (message.senderId !== userId) {
+      throw new ConvexError("Only the sender can edit a message");
+    }
+
+    if (message.messageType === "system") {
+      throw new ConvexError("System messages cannot be edited");
+    }
+
+    const nextBody = body.trim();
+    if (message.messageType === "text" && nextBody.length === 0) {
+      throw new ConvexError("Message body is required for text messages");
+    }
+
+    if (nextBody === (message.body ?? "")) {
+      return;
+    }
+
+    const now = Date.now();
+    const editHistory = [
+      ...(message.editHistory ?? []),
+      { body: message.body ?? "", editedAt: now },
+    ].slice(-MAX_EDIT_HISTORY);
+
+    await ctx.db.patch(messageId, {
+      body: nextBody || undefined,
+      editedAt: now,
+      editHistory,
+    });
+
+    await ctx.db.insert("chatAuditLogs", {
+      conversationId: conversation._id,
+      messageId,
+      gigId: conversation.gigId,
+      actorId: userId,
+      eventType: "message.edited",
+      metadata: {
+        source: "chat.messages.editMessage",
+        revision: editHistory.length,
+      },
+      createdAt: now,
+    });
+  },
+});
+
+/**
+ * Soft-delete one of the viewer's own messages. The row stays in place as a
+ * tombstone so the thread keeps its shape; the body, edit history,
+ * reactions and uploaded files are removed.
+ */
+export const deleteMessage = mutation({
+  args: {
+    messageId: v.id("messages"),
+  },
+  handler: async (ctx, { messageId }) => {
+    const userId = await getUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const { message, conversation } = await loadMessageForParticipant(
+      ctx,
+      messageId,
+      userId,
+    );
+
+    if (message.senderId !== userId) {
+      throw new ConvexError("Only the sender can delete a message");
+    }
+
+    if (message.messageType === "system") {
+      throw new ConvexError("System messages cannot be deleted");
+    }
+
+    const now = Date.now();
+
+    await deleteChatAttachments(
+      ctx,
+      (message.attachments ?? []).map((attachment) => attachment.storageId),
+    );
+
+    await ctx.db.patch(messageId, {
+      body: undefined,
+      attachments: undefined,
+      editHistory: undefined,
+      reactions: undefined,
+      deletedAt: now,
+      deletedBy: userId,
+    });
+
+    await ctx.db.insert("chatAuditLogs", {
+      conversationId: conversation._id,
+      messageId,
+      gigId: conversation.gigId,
+      actorId: userId,
+      eventType: "message.deleted",
+      metadata: {
+        source: "chat.messages.deleteMessage",
+        messageType: message.messageType,
+        attachmentCount: message.attachments?.length ?? 0,
+      },
       createdAt: now,
     });
+  },
+});
+
+/** Add the viewer's reaction to a message, or remove it if already present. */
+export const toggleReaction = mutation({
+  args: {
+    messageId: v.id("messages"),
+    emoji: v.string(),
+  },
+  handler: async (ctx, { messageId, emoji }) => {
+    const userId = await getUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    if (!(REACTION_EMOJIS as ReadonlyArray<string>).includes(emoji)) {
+      throw new ConvexError("Unsupported reaction");
+    }
+
+    const { message } = await loadMessageForParticipant(ctx, messageId, userId);
+
+    const reactions = message.reactions ?? [];
+    const existing = reactions.find((reaction) => reaction.emoji === emoji);
+
+    let nextReactions: NonNullable<Doc<"messages">["reactions"]>;
+    if (!existing) {
+      nextReactions = [...reactions, { emoji, userIds: [userId] }];
+    } else {
+      const userIds = existing.userIds.includes(userId)
+        ? existing.userIds.filter((id) => id !== userId)
+        : [...existing.userIds, userId];
+      nextReactions = reactions
+        .map((reaction) =>
+          reaction.emoji === emoji ? { emoji, userIds } : reaction,
+        )
+        .filter((reaction) => reaction.userIds.length > 0);
+    }
 
-    await ctx.db.patch(conversationId, {
-      lastMessageAt: now,
+    await ctx.db.patch(messageId, {
+      reactions: nextReactions.length > 0 ? nextReactions : undefined,
     });
+  },
+});
+
+/**
+ * Move the viewer's read watermark to the newest message and clear their
+ * unread counter. A no-op when already caught up, so clients can call it on
+ * every incoming message.
+ */
+export const markConversationRead = mutation({
+  args: {
+    conversationId: v.id("conversations"),
+  },
+  handler: async (ctx, { conversationId }) => {
+    const viewerId = await getUserId(ctx);
+    if (!viewerId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const conversation = await ctx.db.get(conversationId);
+    if (!conversation) {
+      throw new ConvexError("Conversation not found");
+    }
+
+    ensureParticipant(conversation, viewerId);
+
+    const latest = await ctx.db
+      .query("messages")
+      .withIndex("by_conversation_desc", (q) =>
+        q.eq("conversationId", conversationId),
+      )
+      .order("desc")
+      .first();
 
     const link = await ctx.db
       .query("userConversations")
       .withIndex("by_user_conversation", (q) =>
-        q.eq("userId", senderId).eq("conversationId", conversationId),
+        q.eq("userId", viewerId).eq("conversationId", conversationId),
       )
       .unique();
 
-    if (link) {
-      await ctx.db.patch(link._id, {
-        lastReadMessageId: messageId,
+    const now = Date.now();
+
+    if (!link) {
+      await ctx.db.insert("userConversations", {
+        userId: viewerId,
+        conversationId,
+        lastReadMessageId: latest?._id,
         lastReadAt: now,
+        unreadCount: 0,
       });
+      return;
     }
 
-    return messageId;
+    if (!link.unreadCount && link.lastReadMessageId === latest?._id) {
+      return;
+    }
+
+    await ctx.db.patch(link._id, {
+      lastReadMessageId: latest?._id,
+      lastReadAt: now,
+      unreadCount: 0,
+    });
+  },
+});
+
+/**
+ * Read watermarks of the other participants. A message has been seen by a
+ * participant when it was created at or before their `lastReadAt`, which
+ * keeps receipts O(participants) instead of writing to every message.
+ */
+export const getReadReceipts = query({
+  args: {
+    conversationId: v.id("conversations"),
+  },
+  handler: async (ctx, { conversationId }) => {
+    const viewerId = await getUserId(ctx);
+    if (!viewerId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const conversation = await ctx.db.get(conversationId);
+    if (!conversation) {
+      throw new ConvexError("Conversation not found");
+    }
+
+    ensureParticipant(conversation, viewerId);
+
+    const links = await ctx.db
+      .query("userConversations")
+      .withIndex("by_conversation", (q) =>
+        q.eq("conversationId", conversationId),
+      )
+      .collect();
+
+    return links
+      .filter(
+        (link) => link.userId !== viewerId && link.lastReadAt !== undefined,
+      )
+      .map((link) => ({
+        userId: link.userId,
+        lastReadAt: link.lastReadAt ?? 0,
+        lastReadMessageId: link.lastReadMessageId ?? null,
+      }));
   },
 });
@@ -0,0 +1,470 @@
+/**
+ * COURSE REVIEWS
+ *
+ * Star ratings and written reviews from learners. Only enrolled learners who
+ * have completed REVIEW_MIN_PROGRESS percent of a course can review it, once
+ * per course. The course author can reply to each review and other users can
+ * mark reviews as helpful.
+ *
+ * `courses.averageRating` and `courses.totalRatings` are maintained
+ * incrementally on every create, edit and delete so listings never have to
+ * scan the reviews table.
+ */
+
+import { ConvexError, v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { mutation, query } from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { getAuthenticatedUser } from "./users";
+
+/** Percentage of the course a learner must complete before reviewing it. */
+export const REVIEW_MIN_PROGRESS = 20;
+
+const MAX_REVIEW_LENGTH = 2000;
+const MAX_REPLY_LENGTH = 2000;
+
+interface ReviewViewer {
+  user: Doc<"users"> | null;
+  isInstructor: boolean;
+  canModerate: boolean;
+}
+
+async function loadViewer(
+  ctx: QueryCtx,
+  course: Doc<"courses">,
+): Promise<ReviewViewer> {
+  const user = await getAuthenticatedUser(ctx);
+  const isInstructor = !!user && course.authorId === user._id;
+
+  return {
+    user,
+    isInstructor,
+    canModerate:
+      !!user &&
+      (user.roles.includes("admin") || user.roles.includes("moderator")),
+  };
+}
+
+async function requireViewer(
+  ctx: MutationCtx,
+  course: Doc<"courses">,
+): Promise<ReviewViewer & { user: Doc<"users"> }> {
+  const viewer = await loadViewer(ctx, course);
+  if (!viewer.user) {
+    throw new ConvexError("Authentication required");
+  }
+
+  return { ...viewer, user: viewer.user };
+}
+
+async function loadCourse(
+  ctx: QueryCtx,
+  courseId: Id<"courses">,
+): Promise<Doc<"courses">> {
+  const course = await ctx.db.get(courseId);
+  if (!course || course.deletedAt) {
+    throw new ConvexError("Course not found");
+  }
+
+  return course;
+}
+
+async function loadReview(
+  ctx: QueryCtx,
+  reviewId: Id<"courseReviews">,
+): Promise<{ review: Doc<"courseReviews">; course: Doc<"courses"> }> {
+  const review = await ctx.db.get(reviewId);
+  if (!review || review.deletedAt) {
+    throw new ConvexError("Review not found");
+  }
+
+  const course = await loadCourse(ctx, review.courseId);
+  return { review, course };
+}
+
+async function findViewerReview(
+  ctx: QueryCtx,
+  courseId: Id<"courses">,
+  userId: Id<"users">,
+): Promise<Doc<"courseReviews"> | null> {
+  const reviews = await ctx.db
+    .query("courseReviews")
+    .withIndex("by_course_author", (q) =>
+      q.eq("courseId", courseId).eq("authorId", userId),
+    )
+    .collect();
+
+  return reviews.find((review) => !review.deletedAt) ?? null;
+}
+
+function normalizeRating(rating: number): number {
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+    throw new ConvexError("Rating must be a whole number from 1 to 5");
+  }
+
+  return rating;
+}
+
+function normalizeText(
+  value: string | undefined,
+  maxLength: number,
+  label: string,
+): string | undefined {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+
+  if (trimmed.length > maxLength) {
+    throw new ConvexError(`${label} must be ${maxLength} characters or fewer`);
+  }
+
+  return trimmed;
+}
+
+/**
+ * Why the viewer cannot review the course, or null when they can.
+ */
+async function getIneligibleReason(
+  ctx: QueryCtx,
+  course: Doc<"courses">,
+  viewer: ReviewViewer,
+): Promise<string | null> {
+  if (!viewer.user) {
+    return "Sign in to review this course";
+  }
+
+  if (viewer.isInstructor) {
+    return "Instructors cannot review their own course";
+  }
+
+  const userId = viewer.user._id;
+  const enrollment = await ctx.db
+    .query("enrollments")
+    .withIndex("by_user_course", (q) =>
+      q.eq("userId", userId).eq("courseId", course._id),
+    )
+    .first();
+
+  if (
+    !enrollment ||
+    (enrollment.status !== "active" && enrollment.status !== "completed")
+  ) {
+    return "Enroll in this course to leave a review";
+  }
+
+  if (
+    enrollment.status !== "completed" &&
+    enrollment.progress < REVIEW_MIN_PROGRESS
+  ) {
+    return `Complete at least ${REVIEW_MIN_PROGRESS}% of the course to leave a review`;
+  }
+
+  return null;
+}
+
+/**
+ * Fold a rating change into the course aggregates. Pass `previous` when a
+ * rating is edited or removed and `next` when one is added or edited.
+ */
+async function applyRatingChange(
+  ctx: MutationCtx,
+  courseId: Id<"courses">,
+  { previous, next }: { previous?: number; next?: number },
+) {
+  const course = await ctx.db.get(courseId);
+  if (!course) {
+    return;
+  }
+
+  let total = course.totalRatings ?? 0;
+  let sum = (course.averageRating ?? 0) * total;
+
+  if (previous !== undefined) {
+    sum -= previous;
+    total -= 1;
+  }
+  if (next !== undefined) {
+    sum += next;
+    total += 1;
+  }
+
+  total = Math.max(total, 0);
+  await ctx.db.patch(courseId, {
+    totalRatings: total,
+    averageRating: total > 0 ? sum / total : 0,
+    updatedAt: Date.now(),
+  });
+}
+
+async function toUserSummary(ctx: QueryCtx, userId: Id<"users">) {
+  const user = await ctx.db.get(userId);
+  return user
+    ? { _id: user._id, name: user.name, avatarUrl: user.avatarUrl ?? undefined }
+    : null;
+}
+
+async function toReviewView(
+  ctx: QueryCtx,
+  review: Doc<"courseReviews">,
+  viewer: ReviewViewer,
+) {
+  const viewerId = viewer.user?._id;
+  const [author, replyAuthor, viewerVote] = await Promise.all([
+    toUserSummary(ctx, review.authorId),
+    review.reply ? toUserSummary(ctx, review.reply.authorId) : null,
+    viewerId
+      ? ctx.db
+          .query("courseReviewVotes")
+          .withIndex("by_review_user", (q) =>
+            q.eq("reviewId", review._id).eq("userId", viewerId),
+          )
+          .unique()
+      : null,
+  ]);
+  const isOwn = viewerId === review.authorId;
+
+  return {
+    _id: review._id,
+    rating: review.rating,
+    body: review.body ?? "",
+    author,
+    helpfulCount: review.helpfulCount,
+    markedHelpfulByViewer: viewerVote !== null,
+    reply: review.reply
+      ? {
+          body: review.reply.body,
+          author: replyAuthor,
+          createdAt: review.reply.createdAt,
+          editedAt: review.reply.editedAt ?? null,
+        }
+      : null,
+    isOwn,
+    canVote: !!viewerId && !isOwn,
+    canReply: viewer.isInstructor,
+    canDelete: isOwn || viewer.canModerate,
+    createdAt: review.createdAt,
+    editedAt: review.editedAt ?? null,
+  };
+}
+
+export type CourseReviewView = Awaited<ReturnType<typeof toReviewView>>;
+
+/**
+ * Page through a course's reviews, newest first.
+ */
+export const listForCourse = query({
+  args: {
+    courseId: v.id("courses"),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, { courseId, paginationOpts }) => {
+    const course = await loadCourse(ctx, courseId);
+    const viewer = await loadViewer(ctx, course);
+
+    const result = await ctx.db
+      .query("courseReviews")
+      .withIndex("by_course", (q) => q.eq("courseId", courseId))
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
+      .order("desc")
+      .paginate(paginationOpts);
+
+    const page = await Promise.all(
+      result.page.map((review) => toReviewView(ctx, review, viewer)),
+    );
+
+    return { ...result, page };
+  },
+});
+
+/**
+ * Course rating summary plus the viewer's own review and whether they may
+ * write one.
+ */
+export const getReviewSummary = query({
+  args: { courseId: v.id("courses") },
+  handler: async (ctx, { courseId }) => {
+    const course = await loadCourse(ctx, courseId);
+    const viewer = await loadViewer(ctx, course);
+
+    const [ineligibleReason, ownReview] = await Promise.all([
+      getIneligibleReason(ctx, course, viewer),
+      viewer.user ? findViewerReview(ctx, courseId, viewer.user._id) : null,
+    ]);
+
+    return {
+      averageRating: course.averageRating ?? 0,
+      totalRatings: course.totalRatings ?? 0,
+      canReview: ineligibleReason === null,
+      ineligibleReason,
+      isInstructor: viewer.isInstructor,
+      viewerReview: ownReview
+        ? await toReviewView(ctx, ownReview, viewer)
+        : null,
+    };
+  },
+});
+
+/**
+ * Create the viewer's review for a course, or update it if they already
+ * reviewed it.
+ */
+export const submit = mutation({
+  args: {
+    courseId: v.id("courses"),
+    rating: v.number(),
+    body: v.optional(v.string()),
+  },
+  handler: async (ctx, { courseId, rating, body }) => {
+    const course = await loadCourse(ctx, courseId);
+    const viewer = await requireViewer(ctx, course);
+
+    const ineligibleReason = await getIneligibleReason(ctx, course, viewer);
+    if (ineligibleReason) {
+      throw new ConvexError(ineligibleReason);
+    }
+
+    const normalizedRating = normalizeRating(rating);
+    const normalizedBody = normalizeText(body, MAX_REVIEW_LENGTH, "Reviews");
+    const now = Date.now();
+
+    const existing = await findViewerReview(ctx, courseId, viewer.user._id);
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        rating: normalizedRating,
+        body: normalizedBody,
+        editedAt: now,
+        updatedAt: now,
+      });
+      await applyRatingChange(ctx, courseId, {
+        previous: existing.rating,
+        next: normalizedRating,
+      });
+      return existing._id;
+    }
+
+    const reviewId = await ctx.db.insert("courseReviews", {
+      courseId,
+      authorId: viewer.user._id,
+      rating: normalizedRating,
+      body: normalizedBody,
+      helpfulCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await applyRatingChange(ctx, courseId, { next: normalizedRating });
+
+    return reviewId;
+  },
+});
+
+/**
+ * Soft-delete a review. Reviewers can delete their own reviews and
+ * moderators can delete any review.
+ */
+export const remove = mutation({
+  args: { reviewId: v.id("courseReviews") },
+  handler: async (ctx, { reviewId }) => {
+    const { review, course } = await loadReview(ctx, reviewId);
+    const { user, canModerate } = await requireViewer(ctx, course);
+
+    if (review.authorId !== user._id && !canModerate) {
+      throw new ConvexError("You can only delete your own reviews");
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(reviewId, { deletedAt: now, updatedAt: now });
+    await applyRatingChange(ctx, review.courseId, { previous: review.rating });
+
+    return reviewId;
+  },
+});
+
+/**
+ * Post or edit the instructor's reply to a review. Restricted to the course author.
+ */
+export const reply = mutation({
+  args: {
+    reviewId: v.id("courseReviews"),
+    body: v.string(),
+  },
+  handler: async (ctx, { reviewId, body }) => {
+    const { review, course } = await loadReview(ctx, reviewId);
+    const { user, isInstructor } = await requireViewer(ctx, course);
+
+    if (!isInstructor) {
+      throw new ConvexError("Only the course instructor can reply to reviews");
+    }
+
+    const normalizedBody = normalizeText(body, MAX_REPLY_LENGTH, "Replies");
+    if (!normalizedBody) {
+      throw new ConvexError("Reply cannot be empty");
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(reviewId, {
+      reply: review.reply
+        ? { ...review.reply, body: normalizedBody, editedAt: now }
+        : { body: normalizedBody, authorId: user._id, createdAt: now },
+      updatedAt: now,
+    });
+
+    return reviewId;
+  },
+});
+
+export const removeReply = mutation({
+  args: { reviewId: v.id("courseReviews") },
+  handler: async (ctx, { reviewId }) => {
+    const { course } = await loadReview(ctx, reviewId);
+    const { isInstructor, canModerate } = await requireViewer(ctx, course);
+
+    if (!isInstructor && !canModerate) {
+      throw new ConvexError("Only the course instructor can remove replies");
+    }
+
+    await ctx.db.patch(reviewId, { reply: undefined, updatedAt: Date.now() });
+
+    return reviewId;
+  },
+});
+
+/**
+ * Mark a review as helpful, or remove the viewer's vote if they already
+ * voted. Reviewers cannot vote on their own reviews.
+ */
+export const toggleHelpful = mutation({
+  args: { reviewId: v.id("courseReviews") },
+  handler: async (ctx, { reviewId }) => {
+    const { review, course } = await loadReview(ctx, reviewId);
+    const { user } = await requireViewer(ctx, course);
+
+    if (review.authorId === user._id) {
+      throw new ConvexError("You cannot vote on your own review");
+    }
+
+    const existing = await ctx.db
+      .query("courseReviewVotes")
+      .withIndex("by_review_user", (q) =>
+        q.eq("reviewId", reviewId).eq("userId", user._id),
+      )
+      .unique();
+
+    if (existing) {
+      await ctx.db.delete(existing._id);
+      await ctx.db.patch(reviewId, {
+        helpfulCount: Math.max(review.helpfulCount - 1, 0),
+      });
+      return { helpful: false };
+    }
+
+    await ctx.db.insert("courseReviewVotes", {
+      reviewId,
+      userId: user._id,
+      createdAt: Date.now(),
+    });
+    await ctx.db.patch(reviewId, { helpfulCount: review.helpfulCount + 1 });
+    return { helpful: true };
+  },
+});
@@ -14,6 +14,8 @@ import { paginationOptsValidator } from "convex/server";
 import { query, mutation } from "./_generated/server";
 import { v } from "convex/values";
 import type { Id, Doc } from "./_generated/dataModel";
+import { normalizeSearchTerm, syncCourseSearchText } from "./search";
+import { enrollCurrentUser } from "./enrollments";
 
 // =============================================================================
 // VALIDATION SCHEMAS
@@ -267,6 +269,41 @@ export const list = query({
     continueCursor: v.union(v.string(), v.null()),
   }),
   handler: async (ctx, args) => {
+    const searchTerm = normalizeSearchTerm(args.searchTerm);
+
+    // Full-text search returns results in relevance order
+    if (searchTerm) {
+      let searchQuery = ctx.db
+        .query("courses")
+        .withSearchIndex("search_text", (q) => {
+          let filtered = q.search("searchText", searchTerm);
+          if (args.status) {
+            filtered = filtered.eq(
+              "status",
+              args.status as Doc<"courses">["status"],
+            );
+          }
+          if (args.category) {
+            filtered = filtered.eq(
+              "category",
+              args.category as Doc<"courses">["category"],
+            );
+          }
+          return filtered;
+        });
+
+      if (args.difficulty) {
+        searchQuery = searchQuery.filter((q) =>
+          q.or(
+            q.eq(q.field("difficulty"), args.difficulty),
+            q.eq(q.field("difficultyLevel"), args.difficulty),
+          ),
+        );
+      }
+
+      return await searchQuery.paginate(args.paginationOpts);
+    }
+
     let query = ctx.db.query("courses");
 
     // Apply filters
@@ -282,17 +319,6 @@ export const list = query({
       query = query.filter((q) => q.eq(q.field("status"), args.status));
     }
 
-    // Apply search term if provided (basic text matching)
-    if (args.searchTerm) {
-      const searchTerm = args.searchTerm.toLowerCase();
-      query = query.filter((q) =>
-        q.or(
-          q.eq(q.field("title"), searchTerm),
-          q.eq(q.field("description"), searchTerm),
-        ),
-      );
-    }
-
     return await query.order("desc").paginate(args.paginationOpts);
   },
 });
@@ -448,7 +474,16 @@ export const listWithDetails = query({
     hasMore: v.boolean(),
   }),
   handler: async (ctx, args) => {
-    let query = ctx.db.query("courses");
+    const searchTerm = normalizeSearchTerm(args.searchTerm);
+
+    // Search results keep the index's relevance order; otherwise sort
+    let query = searchTerm
+      ? ctx.db
+          .query("courses")
+          .withSearchIndex("search_text", (q) =>
+            q.search("searchText", searchTerm),
+          )
+      : ctx.db.query("courses").order(args.sortBy === "title" ? "asc" : "desc"); // Default to newest first
 
     // Apply filters
     if (args.categories && args.categories.length > 0) {
@@ -488,21 +523,7 @@ export const listWithDetails = query({
       );
     }
 
-    // Apply search term
-    if (args.searchTerm) {
-      // This would be better with a search index
-      // For now, basic filtering
-    }
-
-    // Apply sorting
-    let orderedQuery;
-    if (args.sortBy === "title") {
-      orderedQuery = query.order("asc");
-    } else {
-      orderedQuery = query.order("desc"); // Default to newest first
-    }
-
-    const allResults = await orderedQuery.collect();
+    const allResults = await query.collect();
     const total = allResults.length;
 
     const limit = args.limit ?? 12;
@@ -616,6 +637,7 @@ export const create = mutation({
       createdBy: "system", // Should be actual user clerk ID in production
       language: "en", // Default language
     });
+    await syncCourseSearchText(ctx, courseId);
 
     return courseId;
   },
@@ -709,6 +731,7 @@ export const update = mutation({
 
     // Update the course
     await ctx.db.patch(args.courseId, updateData);
+    await syncCourseSearchText(ctx, args.courseId);
 
     return null;
   },
@@ -829,17 +852,21 @@ export const getCourseDetails = query({
       }
     }
 
-    const modules = await ctx.db
-      .query("modules")
-      .withIndex("by_course_order", (q) => q.eq("courseId", args.courseId))
-      .collect();
+    const modules = (
+      await ctx.db
+        .query("modules")
+        .withIndex("by_course_order", (q) => q.eq("courseId", args.courseId))
+        .collect()
+    ).filter((module) => !module.deletedAt);
 
     const modulesWithLessons = await Promise.all(
       modules.map(async (module) => {
-        const lessons = await ctx.db
-          .query("lessons")
-          .withIndex("by_module_order", (q) => q.eq("moduleId", module._id))
-          .collect();
+        const lessons = (
+          await ctx.db
+            .query("lessons")
+            .withIndex("by_module_order", (q) => q.eq("moduleId", module._id))
+            .collect()
+        ).filter((lesson) => !lesson.deletedAt);
 
         return {
           _id: module._id,
@@ -871,7 +898,8 @@ export const getCourseDetails = query({
 });
 
 /**
- * Enroll a user in a course
+ * Enroll the signed-in user in a course, charging their wallet when the
+ * course is paid. See `enrollments.ts` for the checkout ledger.
  */
 export const enrollInCourse = mutation({
   args: {
@@ -880,27 +908,14 @@ export const enrollInCourse = mutation({
   returns: v.object({
     success: v.boolean(),
     enrollmentId: v.optional(v.string()),
+    alreadyEnrolled: v.optional(v.boolean()),
   }),
   handler: async (ctx, args) => {
-    // Get current user (this would need authentication context)
-    // For now, we'll simulate successful enrollment
-
-    const course = await ctx.db.get(args.courseId);
-    if (!course) {
-      throw new Error("Course not found");
-    }
-
-    // In a real implementation, you would:
-    // 1. Check if user is authenticated
-    // 2. Check if user is already enrolled
-    // 3. Handle payment if course is not free
-    // 4. Create enrollment record
-    // 5. Update course enrollment count
+    const { enrollmentId, alreadyEnrolled } = await enrollCurrentUser(
+      ctx,
+      args.courseId,
+    );
 
-    // Simulate enrollment
-    return {
-      success: true,
-      enrollmentId: `enrollment_${Date.now()}`,
-    };
+    return { success: true, enrollmentId, alreadyEnrolled };
   },
 });
@@ -21,6 +21,7 @@ import { mutation } from "./_generated/server";
 import { v } from "convex/values";
 import type { MutationCtx } from "./_generated/server";
 import type { Doc, Id } from "./_generated/dataModel";
+import { syncCourseSearchText } from "./search";
 
 // =============================================================================
 // VALIDATION SCHEMAS
@@ -98,14 +99,64 @@ const CreateLessonSchema = v.object({
     v.literal("text"),
     v.literal("video"),
     v.literal("file"),
+    v.literal("quiz"),
   ),
-  content: v.string(), // Text content or storage ID for files
+  content: v.string(), // Text content, storage ID for files, or quiz intro
   thumbnailId: v.optional(v.id("_storage")),
   estimatedDuration: v.optional(v.number()),
   isRequired: v.optional(v.boolean()),
   resources: v.optional(v.array(v.id("_storage"))),
 });
 
+const UpdateModuleSchema = v.object({
+  moduleId: v.id("modules"),
+  title: v.optional(v.string()),
+  description: v.optional(v.string()),
+  thumbnailId: v.optional(v.id("_storage")),
+  estimatedDuration: v.optional(v.number()),
+  isRequired: v.optional(v.boolean()),
+  isPublished: v.optional(v.boolean()),
+  isLocked: v.optional(v.boolean()),
+});
+
+const UpdateLessonSchema = v.object({
+  lessonId: v.id("lessons"),
+  title: v.optional(v.string()),
+  description: v.optional(v.string()),
+  contentType: v.optional(
+    v.union(
+      v.literal("text"),
+      v.literal("video"),
+      v.literal("file"),
+      v.literal("quiz"),
+    ),
+  ),
+  content: v.optional(v.string()),
+  thumbnailId: v.optional(v.id("_storage")),
+  estimatedDuration: v.optional(v.number()),
+  isFree: v.optional(v.boolean()),
+  isPublished: v.optional(v.boolean()),
+  isLocked: v.optional(v.boolean()),
+  unlockAfterDays: v.optional(v.number()),
+});
+
+const SaveLessonQuizSchema = v.object({
+  lessonId: v.id("lessons"),
+  passingScore: v.number(),
+  maxAttempts: v.optional(v.number()),
+  questions: v.array(
+    v.object({
+      question: v.string(),
+      options: v.array(
+        v.object({
+          text: v.string(),
+          isCorrect: v.boolean(),
+        }),
+      ),
+    }),
+  ),
+});
+
 // =============================================================================
 // RBAC HELPER FUNCTIONS
 // =============================================================================
@@ -271,6 +322,7 @@ export const createCourse = mutation({
       // createdAt: Date.now(), // Not in courses schema
       updatedAt: Date.now(),
     });
+    await syncCourseSearchText(ctx, courseId);
 
     // Log admin action
     await logAdminAction(
@@ -383,6 +435,7 @@ export const updateCourse = mutation({
 
     // Update the course
     await ctx.db.patch(args.courseId, updateData);
+    await syncCourseSearchText(ctx, args.courseId);
 
     // Log admin action
     await logAdminAction(
@@ -475,14 +528,14 @@ export const createModule = mutation({
       throw new ConvexError("Module title must be 200 characters or less");
     }
 
-    // Get next order index
+    // Get next order index (modules may have been reordered since creation)
     const lastModule = await ctx.db
       .query("modules")
-      .withIndex("by_course", (q) => q.eq("courseId", args.courseId))
+      .withIndex("by_course_order", (q) => q.eq("courseId", args.courseId))
       .order("desc")
       .first();
 
-    const orderIndex = lastModule ? (lastModule.orderIndex ?? 0) + 1 : 0;
+    const orderIndex = lastModule ? lastModule.order + 1 : 0;
 
     // Create the module
     const moduleId = await ctx.db.insert("modules", {
@@ -538,7 +591,8 @@ export const createLesson = mutation({
       throw new ConvexError("Lesson title is required");
     }
 
-    if (!args.content.trim()) {
+    // Quiz lessons carry their questions separately; content is an optional intro.
+    if (args.contentType !== "quiz" && !args.content.trim()) {
       throw new ConvexError("Lesson content is required");
     }
 
@@ -546,10 +600,10 @@ export const createLesson = mutation({
       throw new ConvexError("Lesson title must be 200 characters or less");
     }
 
-    // Get next order value
+    // Get next order value (lessons may have been reordered since creation)
     const lastLesson = await ctx.db
       .query("lessons")
-      .withIndex("by_module", (q) => q.eq("moduleId", args.moduleId))
+      .withIndex("by_module_order", (q) => q.eq("moduleId", args.moduleId))
       .order("desc")
       .first();
 
@@ -599,3 +653,575 @@ export const createLesson = mutation({
     return lessonId;
   },
 });
+
+// =============================================================================
+// MODULE & LESSON STRUCTURE MUTATIONS
+// =============================================================================
+
+const MAX_UNLOCK_AFTER_DAYS = 365;
+
+async function loadActiveModule(ctx: MutationCtx, moduleId: Id<"modules">) {
+  const moduleRecord = await ctx.db.get(moduleId);
+  if (!moduleRecord || moduleRecord.deletedAt) {
+    throw new ConvexError("Module not found");
+  }
+  return moduleRecord;
+}
+
+async function loadActiveLesson(ctx: MutationCtx, lessonId: Id<"lessons">) {
+  const lesson = await ctx.db.get(lessonId);
+  if (!lesson || lesson.deletedAt) {
+    throw new ConvexError("Lesson not found");
+  }
+  return lesson;
+}
+
+async function listActiveModules(ctx: MutationCtx, courseId: Id<"courses">) {
+  const modules = await ctx.db
+    .query("modules")
+    .withIndex("by_course_order", (q) => q.eq("courseId", courseId))
+    .collect();
+  return modules.filter((moduleRecord) => !moduleRecord.deletedAt);
+}
+
+async function listActiveLessons(ctx: MutationCtx, moduleId: Id<"modules">) {
+  const lessons = await ctx.db
+    .query("lessons")
+    .withIndex("by_module_order", (q) => q.eq("moduleId", moduleId))
+    .collect();
+  return lessons.filter((lesson) => !lesson.deletedAt);
+}
+
+/**
+ * Check that `ids` names every item in `items` exactly once.
+ */
+function assertCompleteOrdering<T extends string>(
+  items: Array<{ _id: T }>,
+  ids: T[],
+  label: string,
+) {
+  const known = new Set(items.map((item) => item._id));
+  const seen = new Set(ids);
+  if (
+    ids.length !== items.length ||
+    seen.size !== ids.length ||
+    ids.some((id) => !known.has(id))
+  ) {
+    throw new ConvexError(
+      `${label} order must list every ${label.toLowerCase()} exactly once`,
+    );
+  }
+}
+
+/**
+ * Rewrite `order` (and the legacy `orderIndex`) as 0..n-1 following the
+ * sequence given. Rows already in place are left untouched.
+ */
+async function applyModuleOrder(
+  ctx: MutationCtx,
+  modules: Array<Doc<"modules">>,
+  now: number,
+) {
+  for (const [order, moduleRecord] of modules.entries()) {
+    if (moduleRecord.order !== order || moduleRecord.orderIndex !== order) {
+      await ctx.db.patch(moduleRecord._id, {
+        order,
+        orderIndex: order,
+        updatedAt: now,
+      });
+    }
+  }
+}
+
+async function applyLessonOrder(
+  ctx: MutationCtx,
+  lessons: Array<Doc<"lessons">>,
+  now: number,
+) {
+  for (const [order, lesson] of lessons.entries()) {
+    if (lesson.order !== order || lesson.orderIndex !== order) {
+      await ctx.db.patch(lesson._id, {
+        order,
+        orderIndex: order,
+        updatedAt: now,
+      });
+    }
+  }
+}
+
+/**
+ * Update a module's details (admin only)
+ */
+export const updateModule = mutation({
+  args: UpdateModuleSchema,
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const { userId } = await validateAdminAccess(ctx);
+    await loadActiveModule(ctx, args.moduleId);
+
+    if (args.title !== undefined && !args.title.trim()) {
+      throw new ConvexError("Module title cannot be empty");
+    }
+
+    if (args.title && args.title.length > 200) {
+      throw new ConvexError("Module title must be 200 characters or less");
+    }
+
+    if (args.estimatedDuration !== undefined && args.estimatedDuration < 0) {
+      throw new ConvexError("Estimated duration must be a positive number");
+    }
+
+    const { moduleId, ...changes } = args;
+    const updateData: Partial<Doc<"modules">> = { updatedAt: Date.now() };
+
+    if (changes.title !== undefined) updateData.title = changes.title.trim();
+    if (changes.description !== undefined)
+      updateData.description = changes.description.trim();
+    if (changes.thumbnailId !== undefined)
+      updateData.thumbnailId = changes.thumbnailId;
+    if (changes.estimatedDuration !== undefined)
+      updateData.estimatedDuration = changes.estimatedDuration;
+    if (changes.isRequired !== undefined)
+      updateData.isRequired = changes.isRequired;
+    if (changes.isPublished !== undefined)
+      updateData.isPublished = changes.isPublished;
+    if (changes.isLocked !== undefined) updateData.isLocked = changes.isLocked;
+
+    await ctx.db.patch(moduleId, updateData);
+
+    await logAdminAction(
+      ctx,
+      "module_updated",
+      {
+        moduleId,
+        changes: Object.keys(updateData).filter((key) => key !== "updatedAt"),
+      },
+      userId,
+    );
+
+    return true;
+  },
+});
+
+/**
+ * Soft delete a module and its lessons (admin only). Learner progress on
+ * the lessons is kept; the remaining modules are renumbered.
+ */
+export const deleteModule = mutation({
+  args: { moduleId: v.id("modules") },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const { userId } = await validateAdminAccess(ctx);
+    const moduleRecord = await loadActiveModule(ctx, args.moduleId);
+    const now = Date.now();
+
+    const lessons = await listActiveLessons(ctx, args.moduleId);
+    for (const lesson of lessons) {
+      await ctx.db.patch(lesson._id, { deletedAt: now, updatedAt: now });
+    }
+
+    await ctx.db.patch(args.moduleId, { deletedAt: now, updatedAt: now });
+    await applyModuleOrder(
+      ctx,
+      await listActiveModules(ctx, moduleRecord.courseId),
+      now,
+    );
+
+    await logAdminAction(
+      ctx,
+      "module_deleted",
+      {
+        moduleId: args.moduleId,
+        courseId: moduleRecord.courseId,
+        title: moduleRecord.title,
+        lessonCount: lessons.length,
+      },
+      userId,
+    );
+
+    return true;
+  },
+});
+
+/**
+ * Set the order of a course's modules in one step (admin only).
+ * `moduleIds` must list every active module of the course.
+ */
+export const reorderModules = mutation({
+  args: {
+    courseId: v.id("courses"),
+    moduleIds: v.array(v.id("modules")),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const { userId } = await validateAdminAccess(ctx);
+
+    const modules = await listActiveModules(ctx, args.courseId);
+    assertCompleteOrdering(modules, args.moduleIds, "Module");
+
+    const moduleById = new Map(
+      modules.map((moduleRecord) => [moduleRecord._id, moduleRecord]),
+    );
+    await applyModuleOrder(
+      ctx,
+      args.moduleIds.map((moduleId) => moduleById.get(moduleId)!),
+      Date.now(),
+    );
+
+    await logAdminAction(
+      ctx,
+      "modules_reordered",
+      { courseId: args.courseId, moduleIds: args.moduleIds },
+      userId,
+    );
+
+    return true;
+  },
+});
+
+/**
+ * Update a lesson's details (admin only)
+ */
+export const updateLesson = mutation({
+  args: UpdateLessonSchema,
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const { userId } = await validateAdminAccess(ctx);
+    const lesson = await loadActiveLesson(ctx, args.lessonId);
+
+    if (args.title !== undefined && !args.title.trim()) {
+      throw new ConvexError("Lesson title cannot be empty");
+    }
+
+    if (args.title && args.title.length > 200) {
+      throw new ConvexError("Lesson title must be 200 characters or less");
+    }
+
+    const contentType = args.contentType ?? lesson.contentType;
+    const content = args.content ?? lesson.content;
+    if (contentType !== "quiz" && !content.trim()) {
+      throw new ConvexError("Lesson content is required");
+    }
+
+    if (args.estimatedDuration !== undefined && args.estimatedDuration < 0) {
+      throw new ConvexError("Estimated duration must be a positive number");
+    }
+
+    if (
+      args.unlockAfterDays !== undefined &&
+      (!Number.isInteger(args.unlockAfterDays) ||
+        args.unlockAfterDays < 0 ||
+        args.unlockAfterDays > MAX_UNLOCK_AFTER_DAYS)
+    ) {
+      throw new ConvexError(
+        `Unlock delay must be a whole number of days between 0 and ${MAX_UNLOCK_AFTER_DAYS}`,
+      );
+    }
+
+    const { lessonId, ...changes } = args;
+    const updateData: Partial<Doc<"lessons">> = { updatedAt: Date.now() };
+
+    if (changes.title !== undefined) updateData.title = changes.title.trim();
+    if (changes.description !== undefined)
+      updateData.description = changes.description.trim();
+    if (changes.contentType !== undefined)
+      updateData.contentType = changes.contentType;
+    if (changes.content !== undefined)
+      updateData.content = changes.content.trim();
+    if (changes.thumbnailId !== undefined)
+      updateData.thumbnailId = changes.thumbnailId;
+    if (changes.estimatedDuration !== undefined)
+      updateData.estimatedDuration = changes.estimatedDuration;
+    if (changes.isFree !== undefined) updateData.isFree = changes.isFree;
+    if (changes.isPublished !== undefined)
+      updateData.isPublished = changes.isPublished;
+    if (changes.isLocked !== undefined) updateData.isLocked = changes.isLocked;
+    if (changes.unlockAfterDays !== undefined)
+      updateData.unlockAfterDays = changes.unlockAfterDays || undefined;
+
+    await ctx.db.patch(lessonId, updateData);
+
+    await logAdminAction(
+      ctx,
+      "lesson_updated",
+      {
+        lessonId,
+        changes: Object.keys(updateData).filter((key) => key !== "updatedAt"),
+      },
+      userId,
+    );
+
+    return true;
+  },
+});
+
+/**
+ * Soft delete a lesson (admin only). Learner progress on the lesson is
+ * kept; the remaining lessons in the module are renumbered.
+ */
+export const deleteLesson = mutation({
+  args: { lessonId: v.id("lessons") },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const { userId } = await validateAdminAccess(ctx);
+    const lesson = await loadActiveLesson(ctx, args.lessonId);
+    const now = Date.now();
+
+    await ctx.db.patch(args.lessonId, { deletedAt: now, updatedAt: now });
+
+    const remaining = await listActiveLessons(ctx, lesson.moduleId);
+    await applyLessonOrder(ctx, remaining, now);
+    await ctx.db.patch(lesson.moduleId, {
+      lessonCount: remaining.length,
+      updatedAt: now,
+    });
+
+    await logAdminAction(
+      ctx,
+      "lesson_deleted",
+      {
+        lessonId: args.lessonId,
+        moduleId: lesson.moduleId,
+        title: lesson.title,
+      },
+      userId,
+    );
+
+    return true;
+  },
+});
+
+/**
+ * Set the order of a module's lessons in one step (admin only).
+ * `lessonIds` must list every active lesson of the module.
+ */
+export const reorderLessons = mutation({
+  args: {
+    moduleId: v.id("modules"),
+    lessonIds: v.array(v.id("lessons")),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const { userId } = await validateAdminAccess(ctx);
+    await loadActiveModule(ctx, args.moduleId);
+
+    const lessons = await listActiveLessons(ctx, args.moduleId);
+    assertCompleteOrdering(lessons, args.lessonIds, "Lesson");
+
+    const lessonById = new Map(lessons.map((lesson) => [lesson._id, lesson]));
+    await applyLessonOrder(
+      ctx,
+      args.lessonIds.map((lessonId) => lessonById.get(lessonId)!),
+      Date.now(),
+    );
+
+    await logAdminAction(
+      ctx,
+      "lessons_reordered",
+      { moduleId: args.moduleId, lessonIds: args.lessonIds },
+      userId,
+    );
+
+    return true;
+  },
+});
+
+/**
+ * Move a lesson to another module at `position` (appended when omitted),
+ * renumbering both modules (admin only). The lesson takes the target
+ * module's course; its progress records are left as they are.
+ */
+export const moveLesson = mutation({
+  args: {
+    lessonId: v.id("lessons"),
+    targetModuleId: v.id("modules"),
+    position: v.optional(v.number()),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const { userId } = await validateAdminAccess(ctx);
+    const lesson = await loadActiveLesson(ctx, args.lessonId);
+    const targetModule = await loadActiveModule(ctx, args.targetModuleId);
+    const now = Date.now();
+
+    const sourceLessons = (
+      await listActiveLessons(ctx, lesson.moduleId)
+    ).filter((candidate) => candidate._id !== lesson._id);
+    const targetLessons =
+      lesson.moduleId === args.targetModuleId
+        ? sourceLessons
+        : await listActiveLessons(ctx, args.targetModuleId);
+
+    const position = Math.min(
+      Math.max(Math.trunc(args.position ?? targetLessons.length), 0),
+      targetLessons.length,
+    );
+    const movedLesson: Doc<"lessons"> = {
+      ...lesson,
+      moduleId: targetModule._id,
+      courseId: targetModule.courseId,
+    };
+    targetLessons.splice(position, 0, movedLesson);
+
+    await ctx.db.patch(lesson._id, {
+      moduleId: targetModule._id,
+      courseId: targetModule.courseId,
+      updatedAt: now,
+    });
+    await applyLessonOrder(ctx, targetLessons, now);
+
+    if (lesson.moduleId !== args.targetModuleId) {
+      await applyLessonOrder(ctx, sourceLessons, now);
+      await ctx.db.patch(lesson.moduleId, {
+        lessonCount: sourceLessons.length,
+        updatedAt: now,
+      });
+      await ctx.db.patch(targetModule._id, {
+        lessonCount: targetLessons.length,
+        updatedAt: now,
+      });
+    }
+
+    await logAdminAction(
+      ctx,
+      "lesson_moved",
+      {
+        lessonId: args.lessonId,
+        fromModuleId: lesson.moduleId,
+        toModuleId: args.targetModuleId,
+        position,
+      },
+      userId,
+    );
+
+    return true;
+  },
+});
+
+// =============================================================================
+// QUIZ AUTHORING MUTATIONS
+// =============================================================================
+
+const MAX_QUIZ_QUESTIONS = 50;
+const MAX_QUIZ_OPTIONS = 8;
+
+/**
+ * Replace the questions, options and grading settings of a quiz lesson (admin only)
+ */
+export const saveLessonQuiz = mutation({
+  args: SaveLessonQuizSchema,
+  returns: v.array(v.id("quizzes")),
+  handler: async (ctx, args) => {
+    const { userId } = await validateAdminAccess(ctx);
+
+    const lesson = await ctx.db.get(args.lessonId);
+    if (!lesson) {
+      throw new ConvexError("Lesson not found");
+    }
+
+    if (lesson.contentType !== "quiz") {
+      throw new ConvexError("Only quiz lessons can have quiz questions");
+    }
+
+    if (args.passingScore < 0 || args.passingScore > 100) {
+      throw new ConvexError("Passing score must be between 0 and 100");
+    }
+
+    if (
+      args.maxAttempts !== undefined &&
+      (!Number.isInteger(args.maxAttempts) || args.maxAttempts < 1)
+    ) {
+      throw new ConvexError("Max attempts must be a positive whole number");
+    }
+
+    if (args.questions.length === 0) {
+      throw new ConvexError("A quiz needs at least one question");
+    }
+
+    if (args.questions.length > MAX_QUIZ_QUESTIONS) {
+      throw new ConvexError(
+        `A quiz can have at most ${MAX_QUIZ_QUESTIONS} questions`,
+      );
+    }
+
+    args.questions.forEach((question, index) => {
+      const label = `Question ${index + 1}`;
+      if (!question.question.trim()) {
+        throw new ConvexError(`${label} is missing its text`);
+      }
+
+      const options = question.options.filter((option) => option.text.trim());
+      if (options.length < 2 || options.length > MAX_QUIZ_OPTIONS) {
+        throw new ConvexError(
+          `${label} needs between 2 and ${MAX_QUIZ_OPTIONS} options`,
+        );
+      }
+
+      if (options.filter((option) => option.isCorrect).length !== 1) {
+        throw new ConvexError(`${label} needs exactly one correct option`);
+      }
+    });
+
+    // Replace the existing question set
+    const existingQuizzes = await ctx.db
+      .query("quizzes")
+      .withIndex("by_lesson", (q) => q.eq("lessonId", args.lessonId))
+      .collect();
+
+    for (const quiz of existingQuizzes) {
+      const options = await ctx.db
+        .query("quizOptions")
+        .withIndex("by_quiz", (q) => q.eq("quizId", quiz._id))
+        .collect();
+      for (const option of options) {
+        await ctx.db.delete(option._id);
+      }
+      await ctx.db.delete(quiz._id);
+    }
+
+    const quizIds: Id<"quizzes">[] = [];
+    for (const [order, question] of args.questions.entries()) {
+      const quizId = await ctx.db.insert("quizzes", {
+        lessonId: args.lessonId,
+        question: question.question.trim(),
+        order,
+      });
+
+      for (const option of question.options) {
+        if (!option.text.trim()) {
+          continue;
+        }
+
+        await ctx.db.insert("quizOptions", {
+          quizId,
+          text: option.text.trim(),
+          isCorrect: option.isCorrect,
+        });
+      }
+
+      quizIds.push(quizId);
+    }
+
+    await ctx.db.patch(args.lessonId, {
+      quizSettings: {
+        passingScore: args.passingScore,
+        maxAttempts: args.maxAttempts,
+      },
+      updatedAt: Date.now(),
+    });
+
+    await logAdminAction(
+      ctx,
+      "lesson_quiz_saved",
+      {
+        lessonId: args.lessonId,
+        questionCount: quizIds.length,
+        passingScore: args.passingScore,
+        maxAttempts: args.maxAttempts,
+      },
+      userId,
+    );
+
+    return quizIds;
+  },
+});
@@ -0,0 +1,77 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Summarize the previous day's saved search matches for "daily" alerts
+crons.daily(
+  "saved search digests",
+  { hourUTC: 7, minuteUTC: 0 },
+  internal.savedSearches.sendDailyDigests,
+  {},
+);
+
+// Remind candidates about saved gigs whose applications close within 48h
+crons.hourly(
+  "saved gig deadline reminders",
+  { minuteUTC: 15 },
+  internal.savedGigs.sendDeadlineReminders,
+  {},
+);
+
+// Take users offline and clear typing indicators once their TTL passes
+crons.interval(
+  "expire presence",
+  { seconds: 30 },
+  internal.presence.expireStale,
+  {},
+);
+
+// Rebuild hiring funnel rollups from application history; fills in gigs
+// created before rollups existed and corrects any drift
+crons.daily(
+  "rebuild hiring rollups",
+  { hourUTC: 3, minuteUTC: 0 },
+  internal.employerAnalytics.backfillRollups,
+  {},
+);
+
+// Re-sync denormalized search text; fills in rows written before a field
+// was indexed. Each run pages through its table and only patches changes.
+crons.daily(
+  "sync gig search text",
+  { hourUTC: 3, minuteUTC: 30 },
+  internal.search.backfillSearchText,
+  { table: "gigs" },
+);
+crons.daily(
+  "sync course search text",
+  { hourUTC: 3, minuteUTC: 40 },
+  internal.search.backfillSearchText,
+  { table: "courses" },
+);
+crons.daily(
+  "sync profile search text",
+  { hourUTC: 3, minuteUTC: 50 },
+  internal.search.backfillSearchText,
+  { table: "profiles" },
+);
+
+// Re-sync the role index from users.roles for rows written before it existed
+crons.daily(
+  "sync user roles",
+  { hourUTC: 4, minuteUTC: 0 },
+  internal.users.backfillUserRoles,
+  {},
+);
+
+// Drop Clerk webhook replay-protection claims once svix can no longer
+// redeliver them
+crons.daily(
+  "prune webhook events",
+  { hourUTC: 4, minuteUTC: 30 },
+  internal.users.pruneWebhookEvents,
+  {},
+);
+
+export default crons;
@@ -0,0 +1,399 @@
+import { mutation, query } from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import { ConvexError, v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { getUserId } from "./users";
+import { appendMessage } from "./chatMessages";
+import { releaseApplicationEscrow } from "./escrow";
+import { resolveChatAttachments } from "./files";
+
+const MAX_NOTES_LENGTH = 4000;
+const MAX_COMMENT_LENGTH = 2000;
+const MAX_FILES = 10;
+
+const ReviewDecisionValidator = v.union(
+  v.literal("approve"),
+  v.literal("request_revision"),
+);
+
+export type DeliverableViewerRole = "employer" | "freelancer";
+
+interface DeliverableContext {
+  conversation: Doc<"conversations">;
+  application: Doc<"applications">;
+  gig: Doc<"gigs">;
+  role: DeliverableViewerRole;
+}
+
+/**
+ * Resolve the application and gig behind a conversation and the viewer's role
+ * in it. Deliverables only exist for conversations linked to an application.
+ */
+async function loadDeliverableContext(
+  ctx: QueryCtx,
+  conversationId: Id<"conversations">,
+  userId: Id<"users">,
+): Promise<DeliverableContext> {
+  const conversation = await ctx.db.get(conversationId);
+  if (!conversation) {
+    throw new ConvexError("Conversation not found");
+  }
+
+  if (!conversation.participants.includes(userId)) {
+    throw new ConvexError("Unauthorized");
+  }
+
+  const applicationId = conversation.meta?.applicationId;
+  if (!applicationId) {
+    throw new ConvexError(
+      "Deliverables require a conversation linked to an application",
+    );
+  }
+
+  const application = await ctx.db.get(applicationId);
+  if (!application) {
+    throw new ConvexError("Application not found");
+  }
+
+  const gig = await ctx.db.get(application.gigId);
+  if (!gig) {
+    throw new ConvexError("Gig not found");
+  }
+
+  let role: DeliverableViewerRole;
+  if (gig.employerId === userId) {
+    role = "employer";
+  } else if (application.candidateId === userId) {
+    role = "freelancer";
+  } else {
+    throw new ConvexError("Only the employer or freelancer can manage work");
+  }
+
+  return { conversation, application, gig, role };
+}
+
+/**
+ * Cancelling a gig refunds its escrow, so work on it can no longer be
+ * submitted or approved.
+ */
+function assertGigNotCancelled(gig: Doc<"gigs">) {
+  if (gig.status === "cancelled") {
+    throw new ConvexError(
+      "This gig was cancelled and its escrow was refunded to the employer",
+    );
+  }
+}
+
+async function getLatestDeliverable(
+  ctx: QueryCtx,
+  conversationId: Id<"conversations">,
+): Promise<Doc<"deliverables"> | null> {
+  return await ctx.db
+    .query("deliverables")
+    .withIndex("by_conversation_version", (q) =>
+      q.eq("conversationId", conversationId),
+    )
+    .order("desc")
+    .first();
+}
+
+function normalizeText(
+  value: string | undefined,
+  maxLength: number,
+  label: string,
+): string | undefined {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+
+  if (trimmed.length > maxLength) {
+    throw new ConvexError(`${label} must be ${maxLength} characters or fewer`);
+  }
+
+  return trimmed;
+}
+
+async function recordWorkEvent(
+  ctx: MutationCtx,
+  {
+    conversation,
+    actorId,
+    eventType,
+    body,
+    deliverable,
+    comment,
+  }: {
+    conversation: Doc<"conversations">;
+    actorId: Id<"users">;
+    eventType: Extract<
+      NonNullable<Doc<"messages">["systemEvent"]>,
+      `work.${string}`
+    >;
+    body: string;
+    deliverable: Pick<Doc<"deliverables">, "_id" | "version">;
+    comment?: string;
+  },
+): Promise<Id<"messages">> {
+  const messageId = await appendMessage(ctx, {
+    conversationId: conversation._id,
+    senderId: actorId,
+    messageType: "system",
+    systemEvent: eventType,
+    body,
+  });
+
+  await ctx.db.insert("chatAuditLogs", {
+    conversationId: conversation._id,
+    messageId,
+    gigId: conversation.gigId,
+    actorId,
+    eventType,
+    metadata: {
+      source: "chat.deliverables",
+      deliverableId: deliverable._id,
+      version: deliverable.version,
+      ...(comment ? { comment } : {}),
+    },
+    createdAt: Date.now(),
+  });
+
+  return messageId;
+}
+
+/**
+ * List every deliverable version in a conversation (newest first) together
+ * with the viewer's role so the composer knows which actions to offer.
+ */
+export const listForConversation = query({
+  args: {
+    conversationId: v.id("conversations"),
+  },
+  handler: async (ctx, { conversationId }) => {
+    const userId = await getUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const conversation = await ctx.db.get(conversationId);
+    if (!conversation?.meta?.applicationId) {
+      return { role: null, deliverables: [] };
+    }
+
+    const { role } = await loadDeliverableContext(ctx, conversationId, userId);
+
+    const deliverables = await ctx.db
+      .query("deliverables")
+      .withIndex("by_conversation_version", (q) =>
+        q.eq("conversationId", conversationId),
+      )
+      .order("desc")
+      .collect();
+
+    return { role, deliverables };
+  },
+});
+
+/**
+ * Issue a storage upload URL for a deliverable file. Restricted to the
+ * freelancer on the conversation's application.
+ */
+export const generateUploadUrl = mutation({
+  args: {
+    conversationId: v.id("conversations"),
+  },
+  handler: async (ctx, { conversationId }) => {
+    const userId = await getUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const { role } = await loadDeliverableContext(ctx, conversationId, userId);
+    if (role !== "freelancer") {
+      throw new ConvexError("Only the freelancer can upload deliverables");
+    }
+
+    return await ctx.storage.generateUploadUrl();
+  },
+});
+
+/**
+ * Submit a new version of the work. A version under review must be approved
+ * or sent back for revision before another one can be submitted. Files are
+ * uploaded as chat attachments of the conversation first; their name, type
+ * and size come from the saved file metadata.
+ */
+export const submit = mutation({
+  args: {
+    conversationId: v.id("conversations"),
+    notes: v.optional(v.string()),
+    storageIds: v.optional(v.array(v.id("_storage"))),
+  },
+  handler: async (ctx, { conversationId, notes, storageIds }) => {
+    const userId = await getUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const { conversation, application, gig, role } =
+      await loadDeliverableContext(ctx, conversationId, userId);
+
+    if (role !== "freelancer") {
+      throw new ConvexError("Only the freelancer can submit work");
+    }
+
+    assertGigNotCancelled(gig);
+
+    const normalizedNotes = normalizeText(notes, MAX_NOTES_LENGTH, "Notes");
+    const fileIds = storageIds ?? [];
+    if (fileIds.length > MAX_FILES) {
+      throw new ConvexError(`Attach at most ${MAX_FILES} files`);
+    }
+
+    if (!normalizedNotes && fileIds.length === 0) {
+      throw new ConvexError("Add notes or at least one file to submit work");
+    }
+
+    const latest = await getLatestDeliverable(ctx, conversationId);
+    if (latest?.status === "submitted") {
+      throw new ConvexError("The previous submission is still under review");
+    }
+
+    // Milestone gigs deliver in stages; other gigs close on first approval.
+    if (latest?.status === "approved" && gig.budget.type !== "milestone") {
+      throw new ConvexError("This work has already been approved");
+    }
+
+    const submitter = await ctx.db.get(userId);
+    if (!submitter) {
+      throw new ConvexError("User not found");
+    }
+
+    const attachments = await resolveChatAttachments(ctx, {
+      conversationId,
+      sender: submitter,
+      storageIds: fileIds,
+    });
+    const resolvedFiles = attachments.map(
+      ({ storageId, url, name, contentType, size }) => ({
+        storageId,
+        url,
+        name,
+        contentType,
+        size,
+      }),
+    );
+
+    const now = Date.now();
+    const version = (latest?.version ?? 0) + 1;
+
+    const deliverableId = await ctx.db.insert("deliverables", {
+      conversationId,
+      applicationId: application._id,
+      gigId: gig._id,
+      submittedBy: userId,
+      version,
+      notes: normalizedNotes,
+      files: resolvedFiles,
+      status: "submitted",
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const messageId = await recordWorkEvent(ctx, {
+      conversation,
+      actorId: userId,
+      eventType: "work.submitted",
+      body: normalizedNotes
+        ? `Submitted version ${version}: ${normalizedNotes}`
+        : `Submitted version ${version}`,
+      deliverable: { _id: deliverableId, version },
+    });
+
+    await ctx.db.patch(deliverableId, { submissionMessageId: messageId });
+    await ctx.db.patch(conversationId, {
+      meta: { ...(conversation.meta ?? {}), deliverableId },
+    });
+
+    return deliverableId;
+  },
+});
+
+/**
+ * Approve the submitted version or send it back with revision comments.
+ * Approving a non-milestone gig releases the escrow held for the hire;
+ * milestone gigs release funds per milestone instead.
+ */
+export const review = mutation({
+  args: {
+    deliverableId: v.id("deliverables"),
+    decision: ReviewDecisionValidator,
+    comment: v.optional(v.string()),
+  },
+  handler: async (ctx, { deliverableId, decision, comment }) => {
+    const userId = await getUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const deliverable = await ctx.db.get(deliverableId);
+    if (!deliverable) {
+      throw new ConvexError("Deliverable not found");
+    }
+
+    const { conversation, application, gig, role } =
+      await loadDeliverableContext(ctx, deliverable.conversationId, userId);
+
+    if (role !== "employer") {
+      throw new ConvexError("Only the employer can review work");
+    }
+
+    assertGigNotCancelled(gig);
+
+    if (deliverable.status !== "submitted") {
+      throw new ConvexError("This version has already been reviewed");
+    }
+
+    const normalizedComment = normalizeText(
+      comment,
+      MAX_COMMENT_LENGTH,
+      "Comment",
+    );
+
+    if (decision === "request_revision" && !normalizedComment) {
+      throw new ConvexError(
+        "Explain what needs to change to request a revision",
+      );
+    }
+
+    if (decision === "approve" && gig.budget.type !== "milestone") {
+      await releaseApplicationEscrow(ctx, { application, gig });
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(deliverableId, {
+      status: decision === "approve" ? "approved" : "revision_requested",
+      reviewedBy: userId,
+      reviewComment: normalizedComment,
+      reviewedAt: now,
+      updatedAt: now,
+    });
+
+    const summary =
+      decision === "approve"
+        ? `Approved version ${deliverable.version}`
+        : `Requested changes to version ${deliverable.version}`;
+
+    await recordWorkEvent(ctx, {
+      conversation,
+      actorId: userId,
+      eventType:
+        decision === "approve" ? "work.approved" : "work.revision_requested",
+      body: normalizedComment ? `${summary}: ${normalizedComment}` : summary,
+      deliverable,
+      comment: normalizedComment,
+    });
+
+    return deliverableId;
+  },
+});
@@ -0,0 +1,499 @@
+/**
+ * EMPLOYER ANALYTICS
+ *
+ * Hiring analytics are served from `gigAnalyticsDaily`, one row per gig per
+ * UTC day. New applications go through `recordApplicationSubmitted` and
+ * every later status change through `recordApplicationStatusEvent`; both
+ * write the `applicationStatusEvents` row and bump the rollup in the same
+ * transaction. Gig page views go through `recordGigView`. `backfillRollups`
+ * rebuilds the rollups from the event history; a daily cron runs it so data
+ * written before the rollups existed is filled in.
+ */
+
+import { ConvexError, v } from "convex/values";
+import { internalMutation, query } from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { getUserId } from "./users";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 180;
+const BACKFILL_BATCH_SIZE = 20;
+
+export const FUNNEL_STAGES = [
+  "submitted",
+  "viewed",
+  "shortlisted",
+  "interview",
+  "hired",
+] as const;
+
+type FunnelStage = (typeof FUNNEL_STAGES)[number];
+type ApplicationStatus = Doc<"applicationStatusEvents">["status"];
+
+type RollupCounters = Pick<
+  Doc<"gigAnalyticsDaily">,
+  "views" | FunnelStage | "firstViewCount" | "firstViewTotalMs" | "hireTotalMs"
+>;
+
+const STAGE_BY_STATUS: Partial<Record<ApplicationStatus, FunnelStage>> = {
+  pending: "submitted",
+  submitted: "submitted",
+  viewed: "viewed",
+  in_review: "viewed",
+  shortlisted: "shortlisted",
+  interview_requested: "interview",
+  hired: "hired",
+  assigned: "hired",
+};
+
+const VIEWED_INDEX = FUNNEL_STAGES.indexOf("viewed");
+const HIRED_INDEX = FUNNEL_STAGES.indexOf("hired");
+
+/** Position of a status in the funnel, or -1 when it is not a funnel step. */
+function funnelIndex(status: ApplicationStatus): number {
+  const stage = STAGE_BY_STATUS[status];
+  return stage ? FUNNEL_STAGES.indexOf(stage) : -1;
+}
+
+export function startOfUtcDay(timestamp: number): number {
+  return Math.floor(timestamp / DAY_MS) * DAY_MS;
+}
+
+function emptyCounters(): RollupCounters {
+  return {
+    views: 0,
+    submitted: 0,
+    viewed: 0,
+    shortlisted: 0,
+    interview: 0,
+    hired: 0,
+    firstViewCount: 0,
+    firstViewTotalMs: 0,
+    hireTotalMs: 0,
+  };
+}
+
+function addCounters(
+  target: RollupCounters,
+  delta: Partial<RollupCounters>,
+): RollupCounters {
+  for (const [key, value] of Object.entries(delta)) {
+    target[key as keyof RollupCounters] += value;
+  }
+  return target;
+}
+
+function pickCounters(row: Doc<"gigAnalyticsDaily">): RollupCounters {
+  return {
+    views: row.views,
+    submitted: row.submitted,
+    viewed: row.viewed,
+    shortlisted: row.shortlisted,
+    interview: row.interview,
+    hired: row.hired,
+    firstViewCount: row.firstViewCount,
+    firstViewTotalMs: row.firstViewTotalMs,
+    hireTotalMs: row.hireTotalMs,
+  };
+}
+
+/**
+ * Counter changes for an application moving from one funnel position to a
+ * later one. Skipped stages count as reached, so the funnel never narrows
+ * out of order, and each stage counts once per application.
+ */
+function funnelDelta(
+  submittedAt: number,
+  previousIndex: number,
+  nextIndex: number,
+  timestamp: number,
+): Partial<RollupCounters> {
+  const delta: Partial<RollupCounters> = {};
+  for (const stage of FUNNEL_STAGES.slice(previousIndex + 1, nextIndex + 1)) {
+    delta[stage] = 1;
+  }
+
+  const elapsed = Math.max(0, timestamp - submittedAt);
+  if (previousIndex < VIEWED_INDEX && nextIndex >= VIEWED_INDEX) {
+    delta.firstViewCount = 1;
+    delta.firstViewTotalMs = elapsed;
+  }
+  if (previousIndex < HIRED_INDEX && nextIndex >= HIRED_INDEX) {
+    delta.hireTotalMs = elapsed;
+  }
+  return delta;
+}
+
+async function bumpRollup(
+  ctx: MutationCtx,
+  gig: Doc<"gigs">,
+  timestamp: number,
+  delta: Partial<RollupCounters>,
+) {
+  if (Object.keys(delta).length === 0) {
+    return;
+  }
+
+  const day = startOfUtcDay(timestamp);
+  const existing = await ctx.db
+    .query("gigAnalyticsDaily")
+    .withIndex("by_gig_day", (q) => q.eq("gigId", gig._id).eq("day", day))
+    .unique();
+
+  if (existing) {
+    await ctx.db.patch(existing._id, {
+      ...addCounters(pickCounters(existing), delta),
+      updatedAt: Date.now(),
+    });
+    return;
+  }
+
+  await ctx.db.insert("gigAnalyticsDaily", {
+    gigId: gig._id,
+    employerId: gig.employerId,
+    day,
+    ...addCounters(emptyCounters(), delta),
+    updatedAt: Date.now(),
+  });
+}
+
+/**
+ * Append a status event for an application and fold it into the gig's
+ * daily rollup. Use this instead of inserting `applicationStatusEvents`
+ * directly so analytics stay in sync.
+ */
+export async function recordApplicationStatusEvent(
+  ctx: MutationCtx,
+  {
+    application,
+    status,
+    changedBy,
+    reason,
+    meta,
+    timestamp = Date.now(),
+  }: {
+    application: Doc<"applications">;
+    status: ApplicationStatus;
+    changedBy: Id<"users">;
+    reason?: string;
+    meta?: unknown;
+    timestamp?: number;
+  },
+) {
+  const nextIndex = funnelIndex(status);
+
+  if (nextIndex > 0) {
+    const priorEvents = await ctx.db
+      .query("applicationStatusEvents")
+      .withIndex("by_application", (q) =>
+        q.eq("applicationId", application._id),
+      )
+      .collect();
+
+    // Submission is counted once by `recordApplicationSubmitted`, including
+    // for applications that predate submission events.
+    let previousIndex = 0;
+    for (const event of priorEvents) {
+      previousIndex = Math.max(previousIndex, funnelIndex(event.status));
+    }
+
+    if (nextIndex > previousIndex) {
+      const gig = await ctx.db.get(application.gigId);
+      if (gig) {
+        await bumpRollup(
+          ctx,
+          gig,
+          timestamp,
+          funnelDelta(
+            application._creationTime,
+            previousIndex,
+            nextIndex,
+            timestamp,
+          ),
+        );
+      }
+    }
+  }
+
+  await ctx.db.insert("applicationStatusEvents", {
+    applicationId: application._id,
+    status,
+    changedBy,
+    reason,
+    meta,
+    createdAt: timestamp,
+  });
+}
+
+/** Record a new application's submission event and count the apply. */
+export async function recordApplicationSubmitted(
+  ctx: MutationCtx,
+  application: Doc<"applications">,
+) {
+  const gig = await ctx.db.get(application.gigId);
+  if (gig) {
+    await bumpRollup(ctx, gig, application._creationTime, { submitted: 1 });
+  }
+
+  await ctx.db.insert("applicationStatusEvents", {
+    applicationId: application._id,
+    status: "submitted",
+    changedBy: application.candidateId,
+    createdAt: application._creationTime,
+  });
+}
+
+/**
+ * Count a gig page view on the gig and in today's rollup, at most once per
+ * viewer per gig per UTC day. Returns whether the view was counted.
+ */
+export async function recordGigView(
+  ctx: MutationCtx,
+  gig: Doc<"gigs">,
+  viewerId: Id<"users">,
+): Promise<boolean> {
+  const now = Date.now();
+  const today = startOfUtcDay(now);
+  const viewer = await ctx.db
+    .query("gigViewers")
+    .withIndex("by_gig_viewer", (q) =>
+      q.eq("gigId", gig._id).eq("viewerId", viewerId),
+    )
+    .unique();
+
+  if (viewer?.lastViewedDay === today) {
+    return false;
+  }
+  if (viewer) {
+    await ctx.db.patch(viewer._id, { lastViewedDay: today });
+  } else {
+    await ctx.db.insert("gigViewers", {
+      gigId: gig._id,
+      viewerId,
+      lastViewedDay: today,
+    });
+  }
+
+  if (gig.metadata) {
+    // Views are not edits, so lastModified and version stay untouched
+    await ctx.db.patch(gig._id, {
+      metadata: { ...gig.metadata, views: gig.metadata.views + 1 },
+    });
+  }
+  await bumpRollup(ctx, gig, now, { views: 1 });
+  return true;
+}
+
+/** Rollup totals for an employer, optionally limited to days since `since`. */
+export async function sumEmployerRollups(
+  ctx: QueryCtx,
+  employerId: Id<"users">,
+  since?: number,
+): Promise<RollupCounters> {
+  const rows = await ctx.db
+    .query("gigAnalyticsDaily")
+    .withIndex("by_employer_day", (q) =>
+      since === undefined
+        ? q.eq("employerId", employerId)
+        : q.eq("employerId", employerId).gte("day", startOfUtcDay(since)),
+    )
+    .collect();
+
+  return rows.reduce(
+    (totals, row) => addCounters(totals, pickCounters(row)),
+    emptyCounters(),
+  );
+}
+
+function averageMs(total: number, count: number): number | null {
+  return count > 0 ? Math.round(total / count) : null;
+}
+
+function summarize(counters: RollupCounters) {
+  return {
+    views: counters.views,
+    applies: counters.submitted,
+    funnel: FUNNEL_STAGES.map((stage) => ({
+      stage,
+      count: counters[stage],
+    })),
+    avgTimeToFirstViewMs: averageMs(
+      counters.firstViewTotalMs,
+      counters.firstViewCount,
+    ),
+    avgTimeToHireMs: averageMs(counters.hireTotalMs, counters.hired),
+  };
+}
+
+/**
+ * Hiring analytics for the signed-in employer over the last `days` days:
+ * a daily views/applies/hires series, the overall funnel with average
+ * timings, and the same breakdown per gig.
+ */
+export const getDashboard = query({
+  args: { days: v.optional(v.number()) },
+  handler: async (ctx, { days }) => {
+    const employerId = await getUserId(ctx);
+    if (!employerId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const rangeDays = Math.min(
+      Math.max(Math.floor(days ?? DEFAULT_RANGE_DAYS), 1),
+      MAX_RANGE_DAYS,
+    );
+    const since = startOfUtcDay(Date.now()) - (rangeDays - 1) * DAY_MS;
+
+    const [rows, gigs] = await Promise.all([
+      ctx.db
+        .query("gigAnalyticsDaily")
+        .withIndex("by_employer_day", (q) =>
+          q.eq("employerId", employerId).gte("day", since),
+        )
+        .collect(),
+      ctx.db
+        .query("gigs")
+        .withIndex("by_employer", (q) => q.eq("employerId", employerId))
+        .collect(),
+    ]);
+
+    const totals = emptyCounters();
+    const byDay = new Map<number, RollupCounters>();
+    const byGig = new Map<Id<"gigs">, RollupCounters>();
+
+    for (const row of rows) {
+      const counters = pickCounters(row);
+      addCounters(totals, counters);
+      byDay.set(
+        row.day,
+        addCounters(byDay.get(row.day) ?? emptyCounters(), counters),
+      );
+      byGig.set(
+        row.gigId,
+        addCounters(byGig.get(row.gigId) ?? emptyCounters(), counters),
+      );
+    }
+
+    const daily = Array.from({ length: rangeDays }, (_, offset) => {
+      const day = since + offset * DAY_MS;
+      const counters = byDay.get(day);
+      return {
+        day,
+        views: counters?.views ?? 0,
+        applies: counters?.submitted ?? 0,
+        hires: counters?.hired ?? 0,
+      };
+    });
+
+    const perGig = gigs
+      .map((gig) => ({
+        gigId: gig._id,
+        title: gig.title,
+        status: gig.status,
+        ...summarize(byGig.get(gig._id) ?? emptyCounters()),
+      }))
+      .sort(
+        (left, right) =>
+          right.applies - left.applies || right.views - left.views,
+      );
+
+    return {
+      rangeDays,
+      since,
+      ...summarize(totals),
+      daily,
+      gigs: perGig,
+    };
+  },
+});
+
+/**
+ * Recompute one gig's rollups from its applications and status events.
+ * View counts cannot be derived from events, so they carry over from the
+ * rows being replaced.
+ */
+async function rebuildGigRollups(ctx: MutationCtx, gig: Doc<"gigs">) {
+  const existing = await ctx.db
+    .query("gigAnalyticsDaily")
+    .withIndex("by_gig_day", (q) => q.eq("gigId", gig._id))
+    .collect();
+
+  const byDay = new Map<number, RollupCounters>();
+  for (const row of existing) {
+    byDay.set(row.day, { ...emptyCounters(), views: row.views });
+    await ctx.db.delete(row._id);
+  }
+
+  const applications = await ctx.db
+    .query("applications")
+    .withIndex("by_gig", (q) => q.eq("gigId", gig._id))
+    .collect();
+
+  const apply = (timestamp: number, delta: Partial<RollupCounters>) => {
+    const day = startOfUtcDay(timestamp);
+    byDay.set(day, addCounters(byDay.get(day) ?? emptyCounters(), delta));
+  };
+
+  for (const application of applications) {
+    const submittedAt = application._creationTime;
+    const events = await ctx.db
+      .query("applicationStatusEvents")
+      .withIndex("by_application", (q) =>
+        q.eq("applicationId", application._id),
+      )
+      .collect();
+
+    apply(submittedAt, { submitted: 1 });
+    let previousIndex = 0;
+    for (const event of events) {
+      const nextIndex = funnelIndex(event.status);
+      if (nextIndex <= previousIndex) continue;
+      apply(
+        event.createdAt,
+        funnelDelta(submittedAt, previousIndex, nextIndex, event.createdAt),
+      );
+      previousIndex = nextIndex;
+    }
+  }
+
+  const now = Date.now();
+  for (const [day, counters] of byDay) {
+    await ctx.db.insert("gigAnalyticsDaily", {
+      gigId: gig._id,
+      employerId: gig.employerId,
+      day,
+      ...counters,
+      updatedAt: now,
+    });
+  }
+}
+
+/**
+ * Rebuild rollups for every gig, one batch per run, rescheduling itself
+ * until all gigs are processed. Safe to re-run.
+ */
+export const backfillRollups = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, { cursor }) => {
+    const result = await ctx.db
+      .query("gigs")
+      .paginate({ cursor: cursor ?? null, numItems: BACKFILL_BATCH_SIZE });
+
+    for (const gig of result.page) {
+      await rebuildGigRollups(ctx, gig);
+    }
+
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.employerAnalytics.backfillRollups,
+        { cursor: result.continueCursor },
+      );
+    }
+
+    return { processed: result.page.length, isDone: result.isDone };
+  },
+});
@@ -1,6 +1,7 @@
 import {
   query,
   mutation,
+  internalMutation,
   type QueryCtx,
   type MutationCtx,
 } from "./_generated/server";
@@ -8,27 +9,43 @@ import { ConvexError, v } from "convex/values";
 import type { Doc, Id } from "./_generated/dataModel";
 import { getUserId } from "./users";
 import { internal } from "./_generated/api";
-
-const APPLICATION_STATUS = [
-  "pending",
-  "viewed",
-  "submitted",
-  "in_review",
-  "shortlisted",
-  "interview_requested",
-  "rejected",
-  "withdrawn",
-  "hired",
-  "assigned",
-  "closed",
-] as const;
+import {
+  APPLICATION_STATUSES,
+  applicationStatusValidator,
+  assertStatusTransition,
+  canTransition,
+  nextStatuses,
+  type ApplicationStatus,
+} from "./applicationStatus";
+import { appendMessage } from "./chatMessages";
+import { recordApplicationStatusEvent } from "./employerAnalytics";
+import { syncEscrowWithApplicationStatus } from "./escrow";
+import { cancelInterviewsForStatusChange } from "./interviews";
+import { ensureApplicationConversation } from "./internal/chatAssignments";
 
 const PaginationArgs = {
   cursor: v.optional(v.string()),
   limit: v.optional(v.number()),
 };
 
-type ApplicationStatus = (typeof APPLICATION_STATUS)[number];
+const MAX_BULK_SELECTION = 500;
+const BULK_BATCH_SIZE = 25;
+const MAX_BULK_MESSAGE_LENGTH = 2000;
+const MAX_BULK_REASON_LENGTH = 500;
+
+const bulkActionValidator = v.union(
+  v.object({
+    type: v.literal("status"),
+    status: v.union(v.literal("shortlisted"), v.literal("rejected")),
+    reason: v.optional(v.string()),
+  }),
+  v.object({
+    type: v.literal("message"),
+    body: v.string(),
+  }),
+);
+
+type BulkAction = typeof bulkActionValidator.type;
 
 type Ctx = QueryCtx | MutationCtx;
 
@@ -53,9 +70,7 @@ async function requireEmployer(ctx: Ctx, gigId: Id<"gigs">) {
 export const listByGig = query({
   args: {
     gigId: v.id("gigs"),
-    status: v.optional(
-      v.union(...APPLICATION_STATUS.map((status) => v.literal(status))),
-    ),
+    status: v.optional(applicationStatusValidator),
     ...PaginationArgs,
   },
   handler: async (ctx, { gigId, status, cursor, limit }) => {
@@ -164,6 +179,21 @@ export const getApplication = query({
   },
 });
 
+/**
+ * The statuses an employer may move an application into from each status,
+ * so status pickers only offer legal moves.
+ */
+export const getStatusTransitions = query({
+  args: {},
+  handler: async () =>
+    Object.fromEntries(
+      APPLICATION_STATUSES.map((status) => [
+        status,
+        nextStatuses(status, "employer"),
+      ]),
+    ) as Record<ApplicationStatus, ApplicationStatus[]>,
+});
+
 export const markViewed = mutation({
   args: {
     applicationId: v.id("applications"),
@@ -176,24 +206,18 @@ export const markViewed = mutation({
 
     const { employerId } = await requireEmployer(ctx, application.gigId);
 
-    if (application.status === "viewed") {
-      return application.status as ApplicationStatus;
-    }
-
-    if (
-      application.status !== "pending" &&
-      application.status !== "submitted"
-    ) {
-      return application.status as ApplicationStatus;
+    // Opening an application that is already past review leaves it as is
+    if (!canTransition(application.status, "viewed", "employer")) {
+      return application.status;
     }
 
     const timestamp = Date.now();
 
-    await ctx.db.insert("applicationStatusEvents", {
-      applicationId,
+    await recordApplicationStatusEvent(ctx, {
+      application,
       status: "viewed",
       changedBy: employerId,
-      createdAt: timestamp,
+      timestamp,
     });
 
     await ctx.db.patch(applicationId, {
@@ -210,7 +234,7 @@ export const markViewed = mutation({
 export const updateStatus = mutation({
   args: {
     applicationId: v.id("applications"),
-    status: v.union(...APPLICATION_STATUS.map((status) => v.literal(status))),
+    status: applicationStatusValidator,
     reason: v.optional(v.string()),
   },
   handler: async (ctx, { applicationId, status, reason }) => {
@@ -219,20 +243,33 @@ export const updateStatus = mutation({
       throw new ConvexError("Application not found");
     }
 
-    const { employerId } = await requireEmployer(ctx, application.gigId);
+    const { employerId, gig } = await requireEmployer(ctx, application.gigId);
 
     if (application.status === status) {
       return status;
     }
 
+    assertStatusTransition(application.status, status, "employer");
+
+    await syncEscrowWithApplicationStatus(ctx, {
+      application,
+      gig,
+      nextStatus: status,
+    });
+
     const timestamp = Date.now();
 
-    await ctx.db.insert("applicationStatusEvents", {
-      applicationId,
+    await recordApplicationStatusEvent(ctx, {
+      application,
       status,
       changedBy: employerId,
       reason,
-      createdAt: timestamp,
+      timestamp,
+    });
+    await cancelInterviewsForStatusChange(ctx, {
+      application,
+      status,
+      changedBy: employerId,
     });
 
     await ctx.db.patch(applicationId, {
@@ -288,3 +325,356 @@ export const addNote = mutation({
     return note;
   },
 });
+
+function normalizeText(
+  value: string | undefined,
+  maxLength: number,
+  label: string,
+): string | undefined {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+
+  if (trimmed.length > maxLength) {
+    throw new ConvexError(`${label} must be ${maxLength} characters or fewer`);
+  }
+
+  return trimmed;
+}
+
+/**
+ * Apply a bulk action to one batch of applications. Applications that no
+ * longer belong to the gig or cannot legally move to the target status are
+ * skipped rather than failing the whole batch.
+ */
+async function applyBulkActionBatch(
+  ctx: MutationCtx,
+  {
+    employerId,
+    gig,
+    applicationIds,
+    action,
+  }: {
+    employerId: Id<"users">;
+    gig: Doc<"gigs">;
+    applicationIds: ReadonlyArray<Id<"applications">>;
+    action: BulkAction;
+  },
+) {
+  let applied = 0;
+
+  for (const applicationId of applicationIds) {
+    const application = await ctx.db.get(applicationId);
+    if (!application || application.gigId !== gig._id) {
+      continue;
+    }
+
+    const timestamp = Date.now();
+
+    if (action.type === "status") {
+      if (
+        application.status === action.status ||
+        !canTransition(application.status, action.status, "employer")
+      ) {
+        continue;
+      }
+
+      await syncEscrowWithApplicationStatus(ctx, {
+        application,
+        gig,
+        nextStatus: action.status,
+      });
+      await recordApplicationStatusEvent(ctx, {
+        application,
+        status: action.status,
+        changedBy: employerId,
+        reason: action.reason,
+        meta: { bulk: true },
+        timestamp,
+      });
+      await cancelInterviewsForStatusChange(ctx, {
+        application,
+        status: action.status,
+        changedBy: employerId,
+      });
+      await ctx.db.patch(applicationId, {
+        status: action.status,
+        statusUpdatedAt: timestamp,
+        updatedAt: timestamp,
+      });
+    } else {
+      const conversationId = await ensureApplicationConversation(ctx, {
+        gig,
+        application,
+        trigger: "application.bulk_message",
+      });
+      const messageId = await appendMessage(ctx, {
+        conversationId,
+        senderId: employerId,
+        messageType: "text",
+        body: action.body,
+      });
+      // The status is unchanged; the event keeps bulk outreach on the
+      // application timeline and in the CSV status history.
+      await recordApplicationStatusEvent(ctx, {
+        application,
+        status: application.status,
+        changedBy: employerId,
+        reason: "Bulk message",
+        meta: { bulk: true, conversationId, messageId },
+        timestamp,
+      });
+      await ctx.db.insert("chatAuditLogs", {
+        conversationId,
+        messageId,
+        gigId: gig._id,
+        actorId: employerId,
+        eventType: "message.bulk_sent",
+        metadata: {
+          source: "employerApplications.bulkMessage",
+          applicationId,
+        },
+        createdAt: timestamp,
+      });
+    }
+
+    applied += 1;
+  }
+
+  return applied;
+}
+
+/**
+ * Run the first batch inline and schedule the rest, so large selections
+ * never exceed the per-mutation read and write limits.
+ */
+async function startBulkAction(
+  ctx: MutationCtx,
+  {
+    gigId,
+    applicationIds,
+    action,
+  }: {
+    gigId: Id<"gigs">;
+    applicationIds: Id<"applications">[];
+    action: BulkAction;
+  },
+) {
+  const { employerId, gig } = await requireEmployer(ctx, gigId);
+
+  const uniqueIds = Array.from(new Set(applicationIds));
+  if (uniqueIds.length === 0) {
+    throw new ConvexError("Select at least one application");
+  }
+  if (uniqueIds.length > MAX_BULK_SELECTION) {
+    throw new ConvexError(
+      `Select at most ${MAX_BULK_SELECTION} applications at a time`,
+    );
+  }
+
+  const batch = uniqueIds.slice(0, BULK_BATCH_SIZE);
+  const remaining = uniqueIds.slice(BULK_BATCH_SIZE);
+
+  const applied = await applyBulkActionBatch(ctx, {
+    employerId,
+    gig,
+    applicationIds: batch,
+    action,
+  });
+
+  if (remaining.length > 0) {
+    await ctx.scheduler.runAfter(
+      0,
+      internal.employerApplications.processBulkActionBatch,
+      { employerId, gigId, applicationIds: remaining, action },
+    );
+  }
+
+  return {
+    applied,
+    skipped: batch.length - applied,
+    queued: remaining.length,
+  };
+}
+
+export const bulkUpdateStatus = mutation({
+  args: {
+    gigId: v.id("gigs"),
+    applicationIds: v.array(v.id("applications")),
+    status: v.union(v.literal("shortlisted"), v.literal("rejected")),
+    reason: v.optional(v.string()),
+  },
+  handler: async (ctx, { gigId, applicationIds, status, reason }) =>
+    await startBulkAction(ctx, {
+      gigId,
+      applicationIds,
+      action: {
+        type: "status",
+        status,
+        reason: normalizeText(reason, MAX_BULK_REASON_LENGTH, "Reason"),
+      },
+    }),
+});
+
+export const bulkMessage = mutation({
+  args: {
+    gigId: v.id("gigs"),
+    applicationIds: v.array(v.id("applications")),
+    body: v.string(),
+  },
+  handler: async (ctx, { gigId, applicationIds, body }) => {
+    const trimmed = normalizeText(body, MAX_BULK_MESSAGE_LENGTH, "Message");
+    if (!trimmed) {
+      throw new ConvexError("Message body must not be empty");
+    }
+
+    return await startBulkAction(ctx, {
+      gigId,
+      applicationIds,
+      action: { type: "message", body: trimmed },
+    });
+  },
+});
+
+export const processBulkActionBatch = internalMutation({
+  args: {
+    employerId: v.id("users"),
+    gigId: v.id("gigs"),
+    applicationIds: v.array(v.id("applications")),
+    action: bulkActionValidator,
+  },
+  handler: async (ctx, { employerId, gigId, applicationIds, action }) => {
+    const gig = await ctx.db.get(gigId);
+    // Ownership may have changed since the action was queued
+    if (!gig || gig.employerId !== employerId) {
+      return;
+    }
+
+    await applyBulkActionBatch(ctx, {
+      employerId,
+      gig,
+      applicationIds: applicationIds.slice(0, BULK_BATCH_SIZE),
+      action,
+    });
+
+    const remaining = applicationIds.slice(BULK_BATCH_SIZE);
+    if (remaining.length > 0) {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.employerApplications.processBulkActionBatch,
+        { employerId, gigId, applicationIds: remaining, action },
+      );
+    }
+  },
+});
+
+function escapeCsvValue(value: string | number | undefined | null): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  const text = String(value);
+  // Leading formula characters are neutralised so spreadsheets show text
+  const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function formatCsvDate(timestamp: number): string {
+  return new Date(timestamp).toISOString();
+}
+
+/**
+ * Every application for a gig as CSV, with the applicant snapshot, expected
+ * budget, status history and employer notes.
+ */
+export const exportCsv = query({
+  args: { gigId: v.id("gigs") },
+  handler: async (ctx, { gigId }) => {
+    const { gig } = await requireEmployer(ctx, gigId);
+
+    const applications = await ctx.db
+      .query("applications")
+      .withIndex("by_gig", (q) => q.eq("gigId", gigId))
+      .collect();
+
+    const header = [
+      "Application ID",
+      "Candidate",
+      "Email",
+      "Headline",
+      "Location",
+      "Reputation score",
+      "Expected budget",
+      "Currency",
+      "Status",
+      "Submitted at",
+      "Status updated at",
+      "Status history",
+      "Employer notes",
+    ];
+
+    const rows = await Promise.all(
+      applications.map(async (application) => {
+        const [candidate, events, notes] = await Promise.all([
+          ctx.db.get(application.candidateId),
+          ctx.db
+            .query("applicationStatusEvents")
+            .withIndex("by_application", (q) =>
+              q.eq("applicationId", application._id),
+            )
+            .collect(),
+          ctx.db
+            .query("employerNotes")
+            .withIndex("by_application", (q) =>
+              q.eq("applicationId", application._id),
+            )
+            .collect(),
+        ]);
+
+        const snapshot = application.applicantSnapshot;
+        const history = events
+          .map((event) => {
+            const entry = `${formatCsvDate(event.createdAt)} ${event.status}`;
+            return event.reason ? `${entry} (${event.reason})` : entry;
+          })
+          .join("\n");
+
+        return [
+          application._id,
+          snapshot?.name ?? candidate?.name ?? "",
+          candidate?.email ?? "",
+          snapshot?.headline,
+          snapshot?.location,
+          snapshot?.reputationScore,
+          application.expectedBudget,
+          application.expectedBudget !== undefined ? gig.budget.currency : "",
+          application.status,
+          formatCsvDate(application._creationTime),
+          application.statusUpdatedAt
+            ? formatCsvDate(application.statusUpdatedAt)
+            : "",
+          history,
+          notes
+            .map((note) => `${formatCsvDate(note.createdAt)} ${note.body}`)
+            .join("\n"),
+        ];
+      }),
+    );
+
+    const content = [header, ...rows]
+      .map((row) => row.map(escapeCsvValue).join(","))
+      .join("\r\n");
+
+    const slug =
+      gig.title
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "")
+        .slice(0, 60) || "gig";
+
+    return {
+      filename: `${slug}-applications.csv`,
+      content: `${content}\r\n`,
+    };
+  },
+});
@@ -4,6 +4,25 @@ import { v } from "convex/values";
 import type { Doc, Id } from "./_generated/dataModel";
 import { getUserId } from "./users";
 import { internal } from "./_generated/api";
+import {
+  ESCROW_HOLD_STATUSES,
+  holdMilestoneEscrow,
+  refundGigEscrows,
+  refundMilestoneEscrow,
+  releaseMilestoneEscrow,
+  syncEscrowWithApplicationStatus,
+} from "./escrow";
+import {
+  applicationStatusValidator,
+  assertStatusTransition,
+} from "./applicationStatus";
+import {
+  recordApplicationStatusEvent,
+  sumEmployerRollups,
+} from "./employerAnalytics";
+import { cancelInterviewsForStatusChange } from "./interviews";
+import { refreshGigEmbedding } from "./matching";
+import { syncGigSearchText } from "./search";
 
 const GIG_STATUS = [
   "draft",
@@ -166,19 +185,25 @@ const PaginationArgs = {
   limit: v.optional(v.number()),
 };
 
-const APPLICATION_STATUS = [
-  "pending",
-  "viewed",
-  "submitted",
-  "in_review",
-  "shortlisted",
-  "interview_requested",
-  "rejected",
-  "withdrawn",
-  "hired",
-  "assigned",
-  "closed",
-] as const;
+const MilestoneInputArgs = v.object({
+  title: v.string(),
+  description: v.optional(v.string()),
+  amount: v.number(),
+  dueDate: v.optional(v.number()),
+  deliverables: v.optional(v.array(v.string())),
+});
+
+const MilestonePatchArgs = v.object({
+  title: v.optional(v.string()),
+  description: v.optional(v.union(v.string(), v.null())),
+  amount: v.optional(v.number()),
+  dueDate: v.optional(v.union(v.number(), v.null())),
+  deliverables: v.optional(v.array(v.string())),
+});
+
+const MAX_MILESTONE_TITLE_LENGTH = 120;
+const MAX_MILESTONE_DESCRIPTION_LENGTH = 1000;
+const MAX_MILESTONE_DELIVERABLES = 10;
 
 function assertBudget(input: { min: number; max: number }) {
   if (input.min < 0) {
@@ -210,6 +235,124 @@ async function requireEmployer(ctx: DbCtx, gigId: Id<"gigs">) {
   return { employerId, gig };
 }
 
+function normalizeMilestoneTitle(title: string) {
+  const trimmed = title.trim();
+  if (!trimmed) {
+    throw new Error("Milestone title is required");
+  }
+
+  if (trimmed.length > MAX_MILESTONE_TITLE_LENGTH) {
+    throw new Error(
+      `Milestone title must be at most ${MAX_MILESTONE_TITLE_LENGTH} characters`,
+    );
+  }
+
+  return trimmed;
+}
+
+function normalizeMilestoneDescription(description: string | undefined) {
+  const trimmed = description?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+
+  if (trimmed.length > MAX_MILESTONE_DESCRIPTION_LENGTH) {
+    throw new Error(
+      `Milestone description must be at most ${MAX_MILESTONE_DESCRIPTION_LENGTH} characters`,
+    );
+  }
+
+  return trimmed;
+}
+
+function normalizeDeliverables(deliverables: string[] | undefined) {
+  const normalized = (deliverables ?? [])
+    .map((deliverable) => deliverable.trim())
+    .filter(Boolean);
+
+  if (normalized.length > MAX_MILESTONE_DELIVERABLES) {
+    throw new Error(
+      `A milestone can list at most ${MAX_MILESTONE_DELIVERABLES} deliverables`,
+    );
+  }
+
+  return normalized;
+}
+
+function assertMilestoneAmount(amount: number) {
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new Error("Milestone amount must be positive");
+  }
+}
+
+function assertMilestoneGig(gig: Doc<"gigs">) {
+  if (gig.budget.type !== "milestone") {
+    throw new Error("Milestones are only available for milestone-budget gigs");
+  }
+}
+
+/**
+ * Ensure the sum of active milestones stays within the gig's maximum budget.
+ */
+function assertMilestoneTotal(
+  gig: Doc<"gigs">,
+  milestones: Doc<"milestones">[],
+  {
+    excludeId,
+    nextAmount,
+  }: { excludeId?: Id<"milestones">; nextAmount: number },
+) {
+  const committed = milestones
+    .filter(
+      (milestone) =>
+        milestone._id !== excludeId && milestone.status !== "cancelled",
+    )
+    .reduce((total, milestone) => total + milestone.amount, 0);
+
+  if (committed + nextAmount > gig.budget.max) {
+    throw new Error("Milestone amounts cannot exceed the gig's maximum budget");
+  }
+}
+
+async function listGigMilestones(ctx: DbCtx, gigId: Id<"gigs">) {
+  return await ctx.db
+    .query("milestones")
+    .withIndex("by_gig", (q) => q.eq("gigId", gigId))
+    .collect();
+}
+
+async function requireMilestoneEmployer(
+  ctx: DbCtx,
+  milestoneId: Id<"milestones">,
+) {
+  const milestone = await ctx.db.get(milestoneId);
+  if (!milestone) {
+    throw new Error("Milestone not found");
+  }
+
+  const { employerId, gig } = await requireEmployer(ctx, milestone.gigId);
+  return { employerId, gig, milestone };
+}
+
+async function requireHiredApplication(
+  ctx: DbCtx,
+  milestone: Doc<"milestones">,
+) {
+  if (!milestone.applicationId) {
+    throw new Error("Hire a candidate before funding milestones");
+  }
+
+  const application = await ctx.db.get(milestone.applicationId);
+  if (
+    !application ||
+    !(ESCROW_HOLD_STATUSES as readonly string[]).includes(application.status)
+  ) {
+    throw new Error("The milestone's application is no longer active");
+  }
+
+  return application;
+}
+
 export const listByEmployer = query({
   args: {
     status: v.optional(
@@ -251,7 +394,7 @@ export const listByEmployer = query({
 export const updateApplicationStatus = mutation({
   args: {
     applicationId: v.id("applications"),
-    status: v.union(...APPLICATION_STATUS.map((status) => v.literal(status))),
+    status: applicationStatusValidator,
   },
   handler: async (ctx, { applicationId, status }) => {
     const application = await ctx.db.get(applicationId);
@@ -259,15 +402,38 @@ export const updateApplicationStatus = mutation({
       throw new Error("Application not found");
     }
 
-    const { employerId } = await requireEmployer(ctx, application.gigId);
+    const { employerId, gig } = await requireEmployer(ctx, application.gigId);
 
     if (application.status === status) {
       return status;
     }
 
+    assertStatusTransition(application.status, status, "employer");
+
+    await syncEscrowWithApplicationStatus(ctx, {
+      application,
+      gig,
+      nextStatus: status,
+    });
+
+    const timestamp = Date.now();
+
+    await recordApplicationStatusEvent(ctx, {
+      application,
+      status,
+      changedBy: employerId,
+      timestamp,
+    });
+    await cancelInterviewsForStatusChange(ctx, {
+      application,
+      status,
+      changedBy: employerId,
+    });
+
     await ctx.db.patch(applicationId, {
       status,
-      updatedAt: Date.now(),
+      statusUpdatedAt: timestamp,
+      updatedAt: timestamp,
     });
 
     if (status === "assigned") {
@@ -312,14 +478,29 @@ export const getEmployerMetrics = query({
     const totalGigs = gigs.length;
     const activeGigs = gigs.filter((gig) => gig.status === "open").length;
 
-    const totalApplicants = gigs.reduce((total, gig) => {
-      const count = gig.metadata?.applicantCount ?? 0;
-      return total + count;
-    }, 0);
-
     const weekAgo = Date.now() - 7 * 24 * 60 * 60 * 1000;
-    let applicationsThisWeek = 0;
+    const [allTime, thisWeek] = await Promise.all([
+      sumEmployerRollups(ctx, employerId),
+      sumEmployerRollups(ctx, employerId, weekAgo),
+    ]);
+
+    if (allTime.submitted > 0 || allTime.views > 0) {
+      return {
+        totalGigs,
+        activeGigs,
+        totalApplicants: allTime.submitted,
+        applicationsThisWeek: thisWeek.submitted,
+      };
+    }
+
+    // No rollups yet (before backfillRollups has run): count from the gigs
+    // and their applications directly
+    const totalApplicants = gigs.reduce(
+      (total, gig) => total + (gig.metadata?.applicantCount ?? 0),
+      0,
+    );
 
+    let applicationsThisWeek = 0;
     for (const gig of gigs) {
       const applications = await ctx.db
         .query("applications")
@@ -343,9 +524,7 @@ export const getEmployerMetrics = query({
 export const listApplicationsByGig = query({
   args: {
     gigId: v.id("gigs"),
-    status: v.optional(
-      v.union(...APPLICATION_STATUS.map((status) => v.literal(status))),
-    ),
+    status: v.optional(applicationStatusValidator),
     ...PaginationArgs,
   },
   handler: async (ctx, { gigId, status, cursor, limit }) => {
@@ -430,6 +609,12 @@ export const createGig = mutation({
       updatedAt: now,
     });
 
+    await syncGigSearchText(ctx, gigId);
+    await refreshGigEmbedding(ctx, gigId);
+    await ctx.scheduler.runAfter(0, internal.savedSearches.matchPublishedGig, {
+      gigId,
+    });
+
     return gigId;
   },
 });
@@ -464,6 +649,10 @@ export const updateGig = mutation({
       );
     }
 
+    if (patch.status === "cancelled" && gig.status !== "cancelled") {
+      await refundGigEscrows(ctx, gig);
+    }
+
     const now = Date.now();
 
     const nextMetadata = {
@@ -519,6 +708,230 @@ export const updateGig = mutation({
       updatedAt: now,
     });
 
+    const contentChanged =
+      patch.title !== undefined ||
+      patch.description !== undefined ||
+      patch.skills !== undefined ||
+      patch.category !== undefined;
+
+    if (contentChanged || patch.location !== undefined) {
+      await syncGigSearchText(ctx, gigId);
+    }
+    if (contentChanged) {
+      await refreshGigEmbedding(ctx, gigId);
+    }
+
+    if (patch.status === "open" && gig.status !== "open") {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.savedSearches.matchPublishedGig,
+        { gigId },
+      );
+    }
+
     return nextMetadata.version;
   },
 });
+
+export const listMilestones = query({
+  args: {
+    gigId: v.id("gigs"),
+  },
+  handler: async (ctx, { gigId }) => {
+    await requireEmployer(ctx, gigId);
+    return await listGigMilestones(ctx, gigId);
+  },
+});
+
+export const createMilestone = mutation({
+  args: {
+    gigId: v.id("gigs"),
+    input: MilestoneInputArgs,
+  },
+  handler: async (ctx, { gigId, input }) => {
+    const { employerId, gig } = await requireEmployer(ctx, gigId);
+    assertMilestoneGig(gig);
+    assertMilestoneAmount(input.amount);
+
+    const existing = await listGigMilestones(ctx, gigId);
+    assertMilestoneTotal(gig, existing, { nextAmount: input.amount });
+
+    const hiredApplicationId = existing.find(
+      (milestone) =>
+        milestone.applicationId && milestone.status !== "cancelled",
+    )?.applicationId;
+    const nextOrder =
+      existing.reduce((max, milestone) => Math.max(max, milestone.order), 0) +
+      1;
+    const now = Date.now();
+
+    return await ctx.db.insert("milestones", {
+      gigId,
+      applicationId: hiredApplicationId,
+      title: normalizeMilestoneTitle(input.title),
+      description: normalizeMilestoneDescription(input.description),
+      amount: input.amount,
+      currency: gig.budget.currency,
+      dueDate: input.dueDate,
+      order: nextOrder,
+      deliverables: normalizeDeliverables(input.deliverables),
+      status: "pending",
+      createdBy: employerId,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+export const updateMilestone = mutation({
+  args: {
+    milestoneId: v.id("milestones"),
+    patch: MilestonePatchArgs,
+  },
+  handler: async (ctx, { milestoneId, patch }) => {
+    const { gig, milestone } = await requireMilestoneEmployer(ctx, milestoneId);
+
+    if (milestone.status !== "pending") {
+      throw new Error("Only unfunded milestones can be edited");
+    }
+
+    if (patch.amount !== undefined) {
+      assertMilestoneAmount(patch.amount);
+      const milestones = await listGigMilestones(ctx, milestone.gigId);
+      assertMilestoneTotal(gig, milestones, {
+        excludeId: milestoneId,
+        nextAmount: patch.amount,
+      });
+    }
+
+    await ctx.db.patch(milestoneId, {
+      ...(patch.title !== undefined
+        ? { title: normalizeMilestoneTitle(patch.title) }
+        : {}),
+      ...(patch.description !== undefined
+        ? {
+            description: normalizeMilestoneDescription(
+              patch.description ?? undefined,
+            ),
+          }
+        : {}),
+      ...(patch.amount !== undefined ? { amount: patch.amount } : {}),
+      ...(patch.dueDate !== undefined
+        ? { dueDate: patch.dueDate ?? undefined }
+        : {}),
+      ...(patch.deliverables !== undefined
+        ? { deliverables: normalizeDeliverables(patch.deliverables) }
+        : {}),
+      updatedAt: Date.now(),
+    });
+
+    return milestoneId;
+  },
+});
+
+export const deleteMilestone = mutation({
+  args: {
+    milestoneId: v.id("milestones"),
+  },
+  handler: async (ctx, { milestoneId }) => {
+    const { milestone } = await requireMilestoneEmployer(ctx, milestoneId);
+
+    if (milestone.status !== "pending") {
+      throw new Error("Funded milestones must be cancelled instead of deleted");
+    }
+
+    await ctx.db.delete(milestoneId);
+    return milestoneId;
+  },
+});
+
+export const fundMilestone = mutation({
+  args: {
+    milestoneId: v.id("milestones"),
+  },
+  handler: async (ctx, { milestoneId }) => {
+    const { gig, milestone } = await requireMilestoneEmployer(ctx, milestoneId);
+
+    if (milestone.status === "funded") {
+      return milestone.status;
+    }
+
+    if (milestone.status !== "pending") {
+      throw new Error(`Cannot fund a milestone that is ${milestone.status}`);
+    }
+
+    const application = await requireHiredApplication(ctx, milestone);
+    await holdMilestoneEscrow(ctx, { milestone, application, gig });
+
+    const now = Date.now();
+    await ctx.db.patch(milestoneId, {
+      status: "funded",
+      fundedAt: now,
+      updatedAt: now,
+    });
+
+    return "funded" as const;
+  },
+});
+
+export const approveMilestone = mutation({
+  args: {
+    milestoneId: v.id("milestones"),
+  },
+  handler: async (ctx, { milestoneId }) => {
+    const { gig, milestone } = await requireMilestoneEmployer(ctx, milestoneId);
+
+    if (milestone.status === "approved") {
+      return milestone.status;
+    }
+
+    if (milestone.status !== "funded") {
+      throw new Error("Only funded milestones can be approved");
+    }
+
+    const application = await requireHiredApplication(ctx, milestone);
+    await releaseMilestoneEscrow(ctx, { milestone, application, gig });
+
+    const now = Date.now();
+    await ctx.db.patch(milestoneId, {
+      status: "approved",
+      approvedAt: now,
+      updatedAt: now,
+    });
+
+    return "approved" as const;
+  },
+});
+
+export const cancelMilestone = mutation({
+  args: {
+    milestoneId: v.id("milestones"),
+  },
+  handler: async (ctx, { milestoneId }) => {
+    const { gig, milestone } = await requireMilestoneEmployer(ctx, milestoneId);
+
+    if (milestone.status === "cancelled") {
+      return milestone.status;
+    }
+
+    if (milestone.status === "approved") {
+      throw new Error("Approved milestones cannot be cancelled");
+    }
+
+    if (milestone.status === "funded" && milestone.applicationId) {
+      const application = await ctx.db.get(milestone.applicationId);
+      if (application) {
+        await refundMilestoneEscrow(ctx, { milestone, application, gig });
+      }
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(milestoneId, {
+      status: "cancelled",
+      cancelledAt: now,
+      updatedAt: now,
+    });
+
+    return "cancelled" as const;
+  },
+});
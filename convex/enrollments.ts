@@ -0,0 +1,442 @@
+/**
+ * COURSE ENROLLMENTS
+ *
+ * Enrollment and checkout for courses on the append-only ledger.
+ *
+ * LIFECYCLE:
+ * - purchase: learner wallet is debited (TRANSFER) for the discounted price
+ * - payout: author wallet is credited (PAYOUT) with the same amount
+ * - refund: within REFUND_WINDOW_MS both legs are reversed (REFUND) and the
+ *   enrollment is dropped
+ *
+ * Every step is keyed by `course:<step>:<enrollmentId>:<enrolledAt>` so
+ * retries never move money twice, while a learner who re-enrolls after a
+ * refund is charged for the new enrollment.
+ */
+
+import { mutation, query } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import { ConvexError, v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { getUserId } from "./users";
+import {
+  findTransactionByIdempotencyKey,
+  getOrCreateWallet,
+  postLedgerEntry,
+  toMinorUnits,
+} from "./finance";
+
+/** Paid enrollments can be refunded for this long after enrolling. */
+export const REFUND_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+type CourseCurrency = "EGP" | "USD" | "EUR";
+
+type CheckoutStep = "purchase" | "payout" | "refund" | "reversal";
+
+export interface CoursePrice {
+  /** Major units after the discount is applied. */
+  amount: number;
+  currency: CourseCurrency;
+}
+
+const currencyValidator = v.union(
+  v.literal("EGP"),
+  v.literal("USD"),
+  v.literal("EUR"),
+);
+
+/** Courses that accept new enrollments; legacy rows have no status. */
+const ENROLLABLE_STATUSES: ReadonlyArray<Doc<"courses">["status"]> = [
+  "published",
+  undefined,
+];
+
+/**
+ * The price a learner pays today, or null for free courses. Falls back to
+ * the legacy `price` field for courses without a pricing block.
+ */
+export function resolveCoursePrice(course: Doc<"courses">): CoursePrice | null {
+  const { pricing } = course;
+  const basePrice = pricing ? pricing.price : course.price;
+
+  if (pricing?.isFree || !basePrice || basePrice <= 0) {
+    return null;
+  }
+
+  const discount = Math.min(Math.max(pricing?.discountPercentage ?? 0, 0), 100);
+  const amount = toMinorUnits(basePrice * (1 - discount / 100)) / 100;
+
+  if (amount <= 0) {
+    return null;
+  }
+
+  return { amount, currency: pricing?.currency ?? "USD" };
+}
+
+function checkoutIdempotencyKey(
+  step: CheckoutStep,
+  enrollment: Pick<Doc<"enrollments">, "_id" | "enrolledAt">,
+): string {
+  return `course:${step}:${enrollment._id}:${enrollment.enrolledAt}`;
+}
+
+async function resolveCreatedBy(ctx: MutationCtx): Promise<string> {
+  const identity = await ctx.auth.getUserIdentity();
+  return identity?.subject ?? "system";
+}
+
+async function requireUserId(ctx: MutationCtx): Promise<Id<"users">> {
+  const userId = await getUserId(ctx);
+  if (!userId) {
+    throw new ConvexError("Not authenticated");
+  }
+  return userId;
+}
+
+async function adjustEnrollmentCount(
+  ctx: MutationCtx,
+  course: Doc<"courses">,
+  delta: number,
+) {
+  await ctx.db.patch(course._id, {
+    enrollmentCount: Math.max((course.enrollmentCount ?? 0) + delta, 0),
+    updatedAt: Date.now(),
+  });
+}
+
+/**
+ * Debit the learner and credit the author for a paid enrollment.
+ * Returns the purchase transaction id.
+ */
+async function chargeEnrollment(
+  ctx: MutationCtx,
+  {
+    enrollment,
+    course,
+    price,
+  }: {
+    enrollment: Doc<"enrollments">;
+    course: Doc<"courses">;
+    price: CoursePrice;
+  },
+): Promise<Id<"transactions">> {
+  const minorAmount = toMinorUnits(price.amount);
+  const createdBy = await resolveCreatedBy(ctx);
+  const metadata = { courseId: course._id, enrollmentId: enrollment._id };
+
+  const learnerWallet = await getOrCreateWallet(
+    ctx,
+    enrollment.userId,
+    price.currency,
+  );
+  const purchase = await postLedgerEntry(ctx, {
+    walletId: learnerWallet._id,
+    amount: -minorAmount,
+    currency: price.currency,
+    type: "TRANSFER",
+    description: `Enrollment in "${course.title}"`,
+    metadata: { ...metadata, checkoutStep: "purchase" },
+    idempotencyKey: checkoutIdempotencyKey("purchase", enrollment),
+    relatedEntityType: "enrollment",
+    relatedEntityId: enrollment._id,
+    createdBy,
+  });
+
+  const authorWallet = await getOrCreateWallet(
+    ctx,
+    course.authorId,
+    price.currency,
+  );
+  await postLedgerEntry(ctx, {
+    walletId: authorWallet._id,
+    amount: minorAmount,
+    currency: price.currency,
+    type: "PAYOUT",
+    description: `Course sale: "${course.title}"`,
+    metadata: { ...metadata, checkoutStep: "payout" },
+    idempotencyKey: checkoutIdempotencyKey("payout", enrollment),
+    relatedEntityType: "enrollment",
+    relatedEntityId: enrollment._id,
+    createdBy,
+  });
+
+  return purchase.transactionId;
+}
+
+/**
+ * Enroll the signed-in user, charging their wallet for paid courses.
+ * Returns the existing enrollment when the user is already enrolled; a
+ * dropped enrollment is reactivated (and charged again).
+ */
+export async function enrollCurrentUser(
+  ctx: MutationCtx,
+  courseId: Id<"courses">,
+): Promise<{ enrollmentId: Id<"enrollments">; alreadyEnrolled: boolean }> {
+  const userId = await requireUserId(ctx);
+
+  const course = await ctx.db.get(courseId);
+  if (!course || course.deletedAt) {
+    throw new ConvexError("Course not found");
+  }
+
+  const existing = await ctx.db
+    .query("enrollments")
+    .withIndex("by_user_course", (q) =>
+      q.eq("userId", userId).eq("courseId", courseId),
+    )
+    .first();
+
+  if (existing && existing.status !== "dropped") {
+    if (existing.status === "suspended") {
+      throw new ConvexError("Your enrollment in this course is suspended");
+    }
+    return { enrollmentId: existing._id, alreadyEnrolled: true };
+  }
+
+  if (!ENROLLABLE_STATUSES.includes(course.status)) {
+    throw new ConvexError("This course is not open for enrollment");
+  }
+
+  const pricing = course.pricing;
+  if (
+    pricing &&
+    !pricing.isFree &&
+    pricing.paymentType &&
+    pricing.paymentType !== "one-time"
+  ) {
+    throw new ConvexError("This course's payment type is not supported yet");
+  }
+
+  // Authors can always open their own course without paying themselves.
+  const price = course.authorId === userId ? null : resolveCoursePrice(course);
+  const now = Date.now();
+  const paymentFields = {
+    paymentStatus: price ? ("pending" as const) : ("free" as const),
+    paymentAmount: price?.amount,
+    paymentCurrency: price?.currency,
+    paymentId: undefined,
+  };
+
+  let enrollmentId: Id<"enrollments">;
+  if (existing) {
+    await ctx.db.patch(existing._id, {
+      ...paymentFields,
+      status: "active",
+      enrolledAt: now,
+      completedAt: undefined,
+      updatedAt: now,
+    });
+    enrollmentId = existing._id;
+  } else {
+    enrollmentId = await ctx.db.insert("enrollments", {
+      ...paymentFields,
+      userId,
+      courseId,
+      enrolledAt: now,
+      createdAt: now,
+      status: "active",
+      progress: 0,
+      createdBy: await resolveCreatedBy(ctx),
+      updatedAt: now,
+    });
+  }
+
+  if (price) {
+    const enrollment = await ctx.db.get(enrollmentId);
+    if (!enrollment) {
+      throw new ConvexError("Enrollment not found");
+    }
+    const paymentId = await chargeEnrollment(ctx, {
+      enrollment,
+      course,
+      price,
+    });
+    await ctx.db.patch(enrollmentId, { paymentStatus: "paid", paymentId });
+  }
+
+  await adjustEnrollmentCount(ctx, course, 1);
+
+  return { enrollmentId, alreadyEnrolled: false };
+}
+
+/**
+ * The viewer's enrollment in a course together with the current price, so
+ * the course page can offer checkout or a refund.
+ */
+export const getMyEnrollment = query({
+  args: { courseId: v.id("courses") },
+  returns: v.object({
+    price: v.union(
+      v.object({ amount: v.number(), currency: currencyValidator }),
+      v.null(),
+    ),
+    isAuthor: v.boolean(),
+    enrollment: v.union(
+      v.object({
+        _id: v.id("enrollments"),
+        status: v.union(
+          v.literal("active"),
+          v.literal("completed"),
+          v.literal("dropped"),
+          v.literal("suspended"),
+        ),
+        enrolledAt: v.number(),
+        progress: v.number(),
+        paymentStatus: v.union(
+          v.literal("free"),
+          v.literal("paid"),
+          v.literal("pending"),
+          v.literal("refunded"),
+        ),
+        paymentAmount: v.optional(v.number()),
+        paymentCurrency: v.optional(v.string()),
+        refundableUntil: v.union(v.number(), v.null()),
+      }),
+      v.null(),
+    ),
+  }),
+  handler: async (ctx, { courseId }) => {
+    const course = await ctx.db.get(courseId);
+    if (!course || course.deletedAt) {
+      throw new ConvexError("Course not found");
+    }
+
+    const price = resolveCoursePrice(course);
+    const userId = await getUserId(ctx);
+    if (!userId) {
+      return { price, isAuthor: false, enrollment: null };
+    }
+
+    const enrollment = await ctx.db
+      .query("enrollments")
+      .withIndex("by_user_course", (q) =>
+        q.eq("userId", userId).eq("courseId", courseId),
+      )
+      .first();
+
+    if (!enrollment) {
+      return { price, isAuthor: course.authorId === userId, enrollment: null };
+    }
+
+    const refundableUntil =
+      enrollment.paymentStatus === "paid" && enrollment.status === "active"
+        ? enrollment.enrolledAt + REFUND_WINDOW_MS
+        : null;
+
+    return {
+      price,
+      isAuthor: course.authorId === userId,
+      enrollment: {
+        _id: enrollment._id,
+        status: enrollment.status,
+        enrolledAt: enrollment.enrolledAt,
+        progress: enrollment.progress,
+        paymentStatus: enrollment.paymentStatus,
+        paymentAmount: enrollment.paymentAmount,
+        paymentCurrency: enrollment.paymentCurrency,
+        refundableUntil:
+          refundableUntil !== null && refundableUntil > Date.now()
+            ? refundableUntil
+            : null,
+      },
+    };
+  },
+});
+
+/**
+ * Refund a paid enrollment within the refund window. The author's payout is
+ * reversed, the learner's wallet is credited and the enrollment is dropped.
+ */
+export const refundEnrollment = mutation({
+  args: { courseId: v.id("courses") },
+  returns: v.object({ transactionId: v.id("transactions") }),
+  handler: async (ctx, { courseId }) => {
+    const userId = await requireUserId(ctx);
+
+    const course = await ctx.db.get(courseId);
+    if (!course) {
+      throw new ConvexError("Course not found");
+    }
+
+    const enrollment = await ctx.db
+      .query("enrollments")
+      .withIndex("by_user_course", (q) =>
+        q.eq("userId", userId).eq("courseId", courseId),
+      )
+      .first();
+
+    if (!enrollment || enrollment.status === "dropped") {
+      throw new ConvexError("You are not enrolled in this course");
+    }
+    if (enrollment.paymentStatus !== "paid") {
+      throw new ConvexError("This enrollment has no payment to refund");
+    }
+    if (enrollment.status === "completed") {
+      throw new ConvexError("Completed courses cannot be refunded");
+    }
+    if (Date.now() - enrollment.enrolledAt > REFUND_WINDOW_MS) {
+      throw new ConvexError("The refund window for this course has closed");
+    }
+
+    const [purchase, payout] = await Promise.all([
+      findTransactionByIdempotencyKey(
+        ctx,
+        checkoutIdempotencyKey("purchase", enrollment),
+      ),
+      findTransactionByIdempotencyKey(
+        ctx,
+        checkoutIdempotencyKey("payout", enrollment),
+      ),
+    ]);
+    if (!purchase) {
+      throw new ConvexError("No payment was recorded for this enrollment");
+    }
+
+    const createdBy = await resolveCreatedBy(ctx);
+    const metadata = { courseId, enrollmentId: enrollment._id };
+
+    if (payout) {
+      try {
+        await postLedgerEntry(ctx, {
+          walletId: payout.walletId,
+          amount: -Math.abs(payout.amount),
+          currency: payout.currency,
+          type: "REFUND",
+          description: `Refund for "${course.title}"`,
+          metadata: { ...metadata, checkoutStep: "reversal" },
+          idempotencyKey: checkoutIdempotencyKey("reversal", enrollment),
+          relatedEntityType: "enrollment",
+          relatedEntityId: enrollment._id,
+          createdBy,
+        });
+      } catch (error) {
+        console.error("Failed to reverse course payout", error);
+        throw new ConvexError(
+          "This refund cannot be processed right now. Please contact support.",
+        );
+      }
+    }
+
+    const refund = await postLedgerEntry(ctx, {
+      walletId: purchase.walletId,
+      amount: Math.abs(purchase.amount),
+      currency: purchase.currency,
+      type: "REFUND",
+      description: `Refund for "${course.title}"`,
+      metadata: { ...metadata, checkoutStep: "refund" },
+      idempotencyKey: checkoutIdempotencyKey("refund", enrollment),
+      relatedEntityType: "enrollment",
+      relatedEntityId: enrollment._id,
+      createdBy,
+    });
+
+    await ctx.db.patch(enrollment._id, {
+      status: "dropped",
+      paymentStatus: "refunded",
+      updatedAt: Date.now(),
+    });
+    await adjustEnrollmentCount(ctx, course, -1);
+
+    return { transactionId: refund.transactionId };
+  },
+});
@@ -0,0 +1,559 @@
+/**
+ * ESCROW SERVICE
+ *
+ * Ties hired applications and gig milestones to wallet holds on the
+ * append-only ledger.
+ *
+ * LIFECYCLE:
+ * - hold: employer wallet is debited (ESCROW_HOLD) when an application is hired/assigned,
+ *   or when an individual milestone is funded on milestone-budget gigs. Hourly
+ *   gigs are never escrowed: the amount owed is unknown until time is billed
+ * - release: freelancer wallet is credited (ESCROW_RELEASE) when the employer
+ *   approves a deliverable through `deliverables.review`; chat messages can no
+ *   longer post `work.approved` events, so `sendMessage` never moves money
+ * - refund: employer wallet is credited (REFUND) when the engagement is cancelled
+ *
+ * Every step is keyed by `escrow:<step>:<subject>` so retries and repeated
+ * status changes never move money twice.
+ */
+
+import { query } from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import { ConvexError, v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { getUserId } from "./users";
+import {
+  findTransactionByIdempotencyKey,
+  getOrCreateWallet,
+  postLedgerEntry,
+  toMinorUnits,
+} from "./finance";
+
+/** Application statuses that commit the employer to paying the freelancer. */
+export const ESCROW_HOLD_STATUSES = ["hired", "assigned"] as const;
+
+/** Application statuses that end an engagement and return held funds. */
+export const ESCROW_REFUND_STATUSES = [
+  "rejected",
+  "withdrawn",
+  "closed",
+] as const;
+
+export type EscrowStep = "hold" | "release" | "refund";
+
+export type EscrowState = "none" | "held" | "released" | "refunded";
+
+export interface EscrowSummary {
+  state: EscrowState;
+  amount: number;
+  currency: Doc<"gigs">["budget"]["currency"] | null;
+  heldAt: number | null;
+  settledAt: number | null;
+}
+
+type Ctx = QueryCtx | MutationCtx;
+
+/**
+ * The ledger entity an escrow is attached to. Application keys keep the
+ * original `escrow:<step>:<applicationId>` shape.
+ */
+export type EscrowSubject =
+  | { kind: "application"; id: Id<"applications"> }
+  | { kind: "milestone"; id: Id<"milestones"> };
+
+export function escrowIdempotencyKey(
+  step: EscrowStep,
+  subject: EscrowSubject,
+): string {
+  return subject.kind === "application"
+    ? `escrow:${step}:${subject.id}`
+    : `escrow:${step}:milestone:${subject.id}`;
+}
+
+function isHoldStatus(status: Doc<"applications">["status"]): boolean {
+  return (ESCROW_HOLD_STATUSES as readonly string[]).includes(status);
+}
+
+function isRefundStatus(status: Doc<"applications">["status"]): boolean {
+  return (ESCROW_REFUND_STATUSES as readonly string[]).includes(status);
+}
+
+async function resolveCreatedBy(ctx: MutationCtx): Promise<string> {
+  const identity = await ctx.auth.getUserIdentity();
+  return identity?.subject ?? "system";
+}
+
+async function loadEscrowEntries(ctx: Ctx, subject: EscrowSubject) {
+  const [hold, release, refund] = await Promise.all([
+    findTransactionByIdempotencyKey(ctx, escrowIdempotencyKey("hold", subject)),
+    findTransactionByIdempotencyKey(
+      ctx,
+      escrowIdempotencyKey("release", subject),
+    ),
+    findTransactionByIdempotencyKey(
+      ctx,
+      escrowIdempotencyKey("refund", subject),
+    ),
+  ]);
+
+  return { hold, release, refund };
+}
+
+async function summarizeEscrow(
+  ctx: Ctx,
+  subject: EscrowSubject,
+): Promise<EscrowSummary> {
+  const { hold, release, refund } = await loadEscrowEntries(ctx, subject);
+
+  if (!hold) {
+    return {
+      state: "none",
+      amount: 0,
+      currency: null,
+      heldAt: null,
+      settledAt: null,
+    };
+  }
+
+  const settlement = release ?? refund;
+
+  return {
+    state: release ? "released" : refund ? "refunded" : "held",
+    amount: Math.abs(hold.amount),
+    currency: hold.currency,
+    heldAt: hold.createdAt,
+    settledAt: settlement?.createdAt ?? null,
+  };
+}
+
+export async function getEscrowSummary(
+  ctx: Ctx,
+  applicationId: Id<"applications">,
+): Promise<EscrowSummary> {
+  return await summarizeEscrow(ctx, {
+    kind: "application",
+    id: applicationId,
+  });
+}
+
+export async function getMilestoneEscrowSummary(
+  ctx: Ctx,
+  milestoneId: Id<"milestones">,
+): Promise<EscrowSummary> {
+  return await summarizeEscrow(ctx, { kind: "milestone", id: milestoneId });
+}
+
+interface EscrowMovement {
+  subject: EscrowSubject;
+  application: Doc<"applications">;
+  gig: Doc<"gigs">;
+  label: string;
+}
+
+function buildEscrowMetadata(step: EscrowStep, movement: EscrowMovement) {
+  return {
+    escrowStep: step,
+    applicationId: movement.application._id,
+    gigId: movement.gig._id,
+    ...(movement.subject.kind === "milestone"
+      ? { milestoneId: movement.subject.id }
+      : {}),
+  };
+}
+
+async function holdEscrow(
+  ctx: MutationCtx,
+  movement: EscrowMovement,
+  amount: number,
+) {
+  const { hold, release, refund } = await loadEscrowEntries(
+    ctx,
+    movement.subject,
+  );
+
+  if (release || refund) {
+    throw new ConvexError(
+      `Escrow for this ${movement.subject.kind} has already been settled`,
+    );
+  }
+
+  if (hold) {
+    return hold._id;
+  }
+
+  const minorAmount = toMinorUnits(amount);
+  if (minorAmount <= 0) {
+    throw new ConvexError("Escrow amount must be positive");
+  }
+
+  const { gig } = movement;
+  const wallet = await getOrCreateWallet(
+    ctx,
+    gig.employerId,
+    gig.budget.currency,
+  );
+
+  const result = await postLedgerEntry(ctx, {
+    walletId: wallet._id,
+    amount: -minorAmount,
+    currency: gig.budget.currency,
+    type: "ESCROW_HOLD",
+    description: `Escrow hold for ${movement.label}`,
+    metadata: buildEscrowMetadata("hold", movement),
+    idempotencyKey: escrowIdempotencyKey("hold", movement.subject),
+    relatedEntityType: movement.subject.kind,
+    relatedEntityId: movement.subject.id,
+    createdBy: await resolveCreatedBy(ctx),
+  });
+
+  return result.transactionId;
+}
+
+async function releaseEscrow(ctx: MutationCtx, movement: EscrowMovement) {
+  const { hold, release, refund } = await loadEscrowEntries(
+    ctx,
+    movement.subject,
+  );
+
+  if (release) {
+    return release._id;
+  }
+
+  if (!hold) {
+    throw new ConvexError(
+      `No escrow is held for this ${movement.subject.kind}`,
+    );
+  }
+
+  if (refund) {
+    throw new ConvexError(
+      `Escrow for this ${movement.subject.kind} was refunded`,
+    );
+  }
+
+  const wallet = await getOrCreateWallet(
+    ctx,
+    movement.application.candidateId,
+    hold.currency,
+  );
+
+  const result = await postLedgerEntry(ctx, {
+    walletId: wallet._id,
+    amount: Math.abs(hold.amount),
+    currency: hold.currency,
+    type: "ESCROW_RELEASE",
+    description: `Escrow release for ${movement.label}`,
+    metadata: buildEscrowMetadata("release", movement),
+    idempotencyKey: escrowIdempotencyKey("release", movement.subject),
+    relatedEntityType: movement.subject.kind,
+    relatedEntityId: movement.subject.id,
+    createdBy: await resolveCreatedBy(ctx),
+  });
+
+  return result.transactionId;
+}
+
+async function refundEscrow(ctx: MutationCtx, movement: EscrowMovement) {
+  const { hold, release, refund } = await loadEscrowEntries(
+    ctx,
+    movement.subject,
+  );
+
+  if (!hold || release) {
+    return null;
+  }
+
+  if (refund) {
+    return refund._id;
+  }
+
+  const result = await postLedgerEntry(ctx, {
+    walletId: hold.walletId,
+    amount: Math.abs(hold.amount),
+    currency: hold.currency,
+    type: "REFUND",
+    description: `Escrow refund for ${movement.label}`,
+    metadata: buildEscrowMetadata("refund", movement),
+    idempotencyKey: escrowIdempotencyKey("refund", movement.subject),
+    relatedEntityType: movement.subject.kind,
+    relatedEntityId: movement.subject.id,
+    createdBy: await resolveCreatedBy(ctx),
+  });
+
+  return result.transactionId;
+}
+
+function applicationMovement(
+  application: Doc<"applications">,
+  gig: Doc<"gigs">,
+): EscrowMovement {
+  return {
+    subject: { kind: "application", id: application._id },
+    application,
+    gig,
+    label: `"${gig.title}"`,
+  };
+}
+
+function milestoneMovement(
+  milestone: Doc<"milestones">,
+  application: Doc<"applications">,
+  gig: Doc<"gigs">,
+): EscrowMovement {
+  return {
+    subject: { kind: "milestone", id: milestone._id },
+    application,
+    gig,
+    label: `milestone "${milestone.title}" on "${gig.title}"`,
+  };
+}
+
+/**
+ * Debit the gig budget from the employer's wallet into escrow.
+ * No-op when the hold already exists; fails once the escrow has been settled
+ * and for hourly gigs, whose `budget.max` is a rate rather than a total.
+ */
+export async function holdApplicationEscrow(
+  ctx: MutationCtx,
+  { application, gig }: { application: Doc<"applications">; gig: Doc<"gigs"> },
+) {
+  if (gig.budget.type === "hourly") {
+    throw new ConvexError("Hourly gigs are not paid through escrow");
+  }
+
+  return await holdEscrow(
+    ctx,
+    applicationMovement(application, gig),
+    gig.budget.max,
+  );
+}
+
+/**
+ * Release held funds to the freelancer's wallet. Called by
+ * `deliverables.review` when the employer approves the work.
+ * No-op when already released or when nothing was ever held for the
+ * application; fails when the escrow was refunded.
+ */
+export async function releaseApplicationEscrow(
+  ctx: MutationCtx,
+  { application, gig }: { application: Doc<"applications">; gig: Doc<"gigs"> },
+) {
+  const movement = applicationMovement(application, gig);
+  const { hold } = await loadEscrowEntries(ctx, movement.subject);
+  if (!hold) {
+    return null;
+  }
+
+  return await releaseEscrow(ctx, movement);
+}
+
+/**
+ * Return held funds to the employer's wallet.
+ * No-op when nothing is held or the escrow has already been settled.
+ */
+export async function refundApplicationEscrow(
+  ctx: MutationCtx,
+  { application, gig }: { application: Doc<"applications">; gig: Doc<"gigs"> },
+) {
+  if (gig.budget.type === "milestone") {
+    await refundApplicationMilestones(ctx, { application, gig });
+    return null;
+  }
+
+  return await refundEscrow(ctx, applicationMovement(application, gig));
+}
+
+interface MilestoneEscrowArgs {
+  milestone: Doc<"milestones">;
+  application: Doc<"applications">;
+  gig: Doc<"gigs">;
+}
+
+/** Move a single milestone amount from the employer's wallet into escrow. */
+export async function holdMilestoneEscrow(
+  ctx: MutationCtx,
+  { milestone, application, gig }: MilestoneEscrowArgs,
+) {
+  return await holdEscrow(
+    ctx,
+    milestoneMovement(milestone, application, gig),
+    milestone.amount,
+  );
+}
+
+/** Pay a funded milestone out to the freelancer. */
+export async function releaseMilestoneEscrow(
+  ctx: MutationCtx,
+  { milestone, application, gig }: MilestoneEscrowArgs,
+) {
+  return await releaseEscrow(
+    ctx,
+    milestoneMovement(milestone, application, gig),
+  );
+}
+
+/** Return a funded, unreleased milestone amount to the employer. */
+export async function refundMilestoneEscrow(
+  ctx: MutationCtx,
+  { milestone, application, gig }: MilestoneEscrowArgs,
+) {
+  return await refundEscrow(
+    ctx,
+    milestoneMovement(milestone, application, gig),
+  );
+}
+
+/**
+ * Attach the gig's unassigned milestones to a newly hired application so they
+ * can be funded individually. Milestones belong to a single hire, so hiring
+ * a second candidate while another is hired or assigned is rejected.
+ */
+async function attachMilestonesToApplication(
+  ctx: MutationCtx,
+  { application, gig }: { application: Doc<"applications">; gig: Doc<"gigs"> },
+) {
+  const applications = await ctx.db
+    .query("applications")
+    .withIndex("by_gig", (q) => q.eq("gigId", gig._id))
+    .collect();
+  if (
+    applications.some(
+      (other) => other._id !== application._id && isHoldStatus(other.status),
+    )
+  ) {
+    throw new ConvexError("This milestone gig already has a hire");
+  }
+
+  const milestones = await ctx.db
+    .query("milestones")
+    .withIndex("by_gig", (q) => q.eq("gigId", gig._id))
+    .collect();
+
+  const now = Date.now();
+
+  for (const milestone of milestones) {
+    if (milestone.applicationId || milestone.status === "cancelled") {
+      continue;
+    }
+
+    await ctx.db.patch(milestone._id, {
+      applicationId: application._id,
+      updatedAt: now,
+    });
+  }
+}
+
+/**
+ * Refund and cancel every funded milestone that has not been approved yet.
+ */
+async function refundApplicationMilestones(
+  ctx: MutationCtx,
+  { application, gig }: { application: Doc<"applications">; gig: Doc<"gigs"> },
+) {
+  const milestones = await ctx.db
+    .query("milestones")
+    .withIndex("by_application", (q) => q.eq("applicationId", application._id))
+    .collect();
+
+  const now = Date.now();
+
+  for (const milestone of milestones) {
+    if (milestone.status === "approved" || milestone.status === "cancelled") {
+      continue;
+    }
+
+    if (milestone.status === "funded") {
+      await refundMilestoneEscrow(ctx, { milestone, application, gig });
+    }
+
+    await ctx.db.patch(milestone._id, {
+      status: "cancelled",
+      cancelledAt: now,
+      updatedAt: now,
+    });
+  }
+}
+
+/**
+ * Apply the escrow side effect implied by an application status change.
+ * Milestone-budget gigs are funded per milestone instead of up front, and
+ * hourly gigs hold nothing.
+ */
+export async function syncEscrowWithApplicationStatus(
+  ctx: MutationCtx,
+  {
+    application,
+    gig,
+    nextStatus,
+  }: {
+    application: Doc<"applications">;
+    gig: Doc<"gigs">;
+    nextStatus: Doc<"applications">["status"];
+  },
+) {
+  if (isHoldStatus(nextStatus)) {
+    if (gig.budget.type === "milestone") {
+      await attachMilestonesToApplication(ctx, { application, gig });
+      return;
+    }
+    if (gig.budget.type === "hourly") {
+      return;
+    }
+
+    await holdApplicationEscrow(ctx, { application, gig });
+    return;
+  }
+
+  if (isRefundStatus(nextStatus)) {
+    await refundApplicationEscrow(ctx, { application, gig });
+  }
+}
+
+/**
+ * Refund every outstanding escrow hold on a gig (used when a gig is cancelled).
+ */
+export async function refundGigEscrows(ctx: MutationCtx, gig: Doc<"gigs">) {
+  const applications = await ctx.db
+    .query("applications")
+    .withIndex("by_gig", (q) => q.eq("gigId", gig._id))
+    .collect();
+
+  for (const application of applications) {
+    if (!isHoldStatus(application.status)) {
+      continue;
+    }
+
+    await refundApplicationEscrow(ctx, { application, gig });
+  }
+}
+
+/**
+ * Escrow status for an application, visible to its employer and candidate.
+ */
+export const getApplicationEscrow = query({
+  args: {
+    applicationId: v.id("applications"),
+  },
+  handler: async (ctx, { applicationId }): Promise<EscrowSummary> => {
+    const viewerId = await getUserId(ctx);
+    if (!viewerId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const application = await ctx.db.get(applicationId);
+    if (!application) {
+      throw new ConvexError("Application not found");
+    }
+
+    const gig = await ctx.db.get(application.gigId);
+    if (!gig) {
+      throw new ConvexError("Gig not found");
+    }
+
+    if (viewerId !== gig.employerId && viewerId !== application.candidateId) {
+      throw new ConvexError("Forbidden");
+    }
+
+    return await getEscrowSummary(ctx, applicationId);
+  },
+});
@@ -19,8 +19,8 @@
 import { ConvexError } from "convex/values";
 import { mutation, query } from "./_generated/server";
 import { v } from "convex/values";
-import type { Doc } from "./_generated/dataModel";
-import type { QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
 
 // =============================================================================
 // VALIDATION SCHEMAS
@@ -35,9 +35,13 @@ const FileCategorySchema = v.union(
   v.literal("lesson-thumbnail"),
   v.literal("lesson-resource"),
   v.literal("user-avatar"),
+  v.literal("chat-attachment"),
   v.literal("other"),
 );
 
+const MAX_CHAT_ATTACHMENTS = 10;
+const MAX_PREVIEW_SIZE = 512 * 1024; // 512KB
+
 // =============================================================================
 // FILE STORAGE UTILITIES
 // =============================================================================
@@ -50,6 +54,7 @@ export const generateUploadUrl = mutation({
   args: {
     category: FileCategorySchema,
     expectedFileSize: v.optional(v.number()),
+    conversationId: v.optional(v.id("conversations")),
   },
   returns: v.string(),
   handler: async (ctx, args) => {
@@ -76,6 +81,10 @@ export const generateUploadUrl = mutation({
       );
     }
 
+    if (args.category === "chat-attachment") {
+      await requireChatParticipant(ctx, user, args.conversationId);
+    }
+
     // Validate file size constraints
     if (args.expectedFileSize) {
       const maxSize = getMaxFileSizeForCategory(args.category);
@@ -109,6 +118,8 @@ export const saveFileMetadata = mutation({
       }),
     ),
     isPublic: v.optional(v.boolean()),
+    conversationId: v.optional(v.id("conversations")),
+    previewStorageId: v.optional(v.id("_storage")),
   },
   returns: v.id("fileMetadata"),
   handler: async (ctx, args) => {
@@ -123,20 +134,65 @@ export const saveFileMetadata = mutation({
       throw new ConvexError("File not found in storage");
     }
 
+    // Trust the stored object over client-reported type and size
+    const contentType = file.contentType ?? args.contentType;
+
     // Validate file type matches content type
-    if (!isValidFileType(args.contentType, args.category)) {
+    if (!isValidFileType(contentType, args.category)) {
+      throw new ConvexError(
+        `Invalid file type ${contentType} for category ${args.category}`,
+      );
+    }
+
+    const maxSize = getMaxFileSizeForCategory(args.category);
+    if (file.size > maxSize) {
       throw new ConvexError(
-        `Invalid file type ${args.contentType} for category ${args.category}`,
+        `File size exceeds maximum allowed size of ${maxSize} bytes`,
       );
     }
 
+    let conversationId: Id<"conversations"> | undefined;
+    let previewStorageId: Id<"_storage"> | undefined;
+    if (args.category === "chat-attachment") {
+      const user = await ctx.db
+        .query("users")
+        .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+        .unique();
+      if (!user) {
+        throw new ConvexError("User not found");
+      }
+
+      conversationId = (
+        await requireChatParticipant(ctx, user, args.conversationId)
+      )._id;
+
+      if (await isStorageClaimed(ctx, args.storageId)) {
+        throw new ConvexError("File has already been saved");
+      }
+
+      if (args.previewStorageId) {
+        const preview = await ctx.storage.getMetadata(args.previewStorageId);
+        if (
+          args.previewStorageId === args.storageId ||
+          !preview?.contentType?.startsWith("image/") ||
+          preview.size > MAX_PREVIEW_SIZE ||
+          (await isStorageClaimed(ctx, args.previewStorageId))
+        ) {
+          throw new ConvexError("Invalid attachment preview");
+        }
+        previewStorageId = args.previewStorageId;
+      }
+    }
+
     // Save metadata
     const metadataId = await ctx.db.insert("fileMetadata", {
       storageId: args.storageId,
       originalName: args.originalName,
-      contentType: args.contentType,
-      fileSize: args.fileSize,
+      contentType,
+      fileSize: file.size,
       category: args.category,
+      conversationId,
+      previewStorageId,
       duration: args.duration,
       dimensions: args.dimensions,
       uploadedBy: identity.subject,
@@ -346,6 +402,197 @@ export const listFilesByCategory = query({
   },
 });
 
+/**
+ * Files shared in a conversation, newest first, with their download and
+ * preview URLs. Uploads that were never attached to a message are omitted.
+ */
+export const listConversationFiles = query({
+  args: { conversationId: v.id("conversations") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new ConvexError("Authentication required");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+    if (!user) {
+      throw new ConvexError("User not found");
+    }
+
+    await requireChatParticipant(ctx, user, args.conversationId);
+
+    const files = await ctx.db
+      .query("fileMetadata")
+      .withIndex("by_conversation", (q) =>
+        q.eq("conversationId", args.conversationId),
+      )
+      .order("desc")
+      .collect();
+
+    return await Promise.all(
+      files
+        .filter((file) => !file.deletedAt && (file.usageCount ?? 0) > 0)
+        .map(async (file) => ({
+          _id: file._id,
+          storageId: file.storageId,
+          originalName: file.originalName,
+          contentType: file.contentType,
+          fileSize: file.fileSize,
+          uploadedAt: file._creationTime,
+          url: await ctx.storage.getUrl(file.storageId),
+          previewUrl: file.previewStorageId
+            ? await ctx.storage.getUrl(file.previewStorageId)
+            : null,
+        })),
+    );
+  },
+});
+
+// =============================================================================
+// CHAT ATTACHMENTS
+// =============================================================================
+
+/**
+ * Resolve uploaded chat attachments for a new message. Every file must have
+ * been saved through `saveFileMetadata` by the sender for this conversation;
+ * name, type and size come from the stored metadata, never from the client.
+ */
+export async function resolveChatAttachments(
+  ctx: MutationCtx,
+  {
+    conversationId,
+    sender,
+    storageIds,
+  }: {
+    conversationId: Id<"conversations">;
+    sender: Doc<"users">;
+    storageIds: ReadonlyArray<Id<"_storage">>;
+  },
+): Promise<NonNullable<Doc<"messages">["attachments"]>> {
+  if (storageIds.length > MAX_CHAT_ATTACHMENTS) {
+    throw new ConvexError(
+      `A message can include at most ${MAX_CHAT_ATTACHMENTS} attachments`,
+    );
+  }
+
+  const attachments: NonNullable<Doc<"messages">["attachments"]> = [];
+  for (const storageId of new Set(storageIds)) {
+    const metadata = await ctx.db
+      .query("fileMetadata")
+      .withIndex("by_storage_id", (q) => q.eq("storageId", storageId))
+      .unique();
+
+    if (
+      !metadata ||
+      metadata.deletedAt ||
+      metadata.category !== "chat-attachment" ||
+      metadata.conversationId !== conversationId ||
+      metadata.uploadedBy !== sender.clerkId
+    ) {
+      throw new ConvexError("Attachment not found");
+    }
+
+    const url = await ctx.storage.getUrl(storageId);
+    if (!url) {
+      throw new ConvexError("Attachment not found");
+    }
+
+    const previewUrl = metadata.previewStorageId
+      ? await ctx.storage.getUrl(metadata.previewStorageId)
+      : null;
+
+    attachments.push({
+      storageId,
+      url,
+      name: metadata.originalName,
+      contentType: metadata.contentType,
+      size: metadata.fileSize,
+      previewUrl: previewUrl ?? undefined,
+    });
+
+    await ctx.db.patch(metadata._id, {
+      usageCount: (metadata.usageCount ?? 0) + 1,
+      lastAccessed: Date.now(),
+      updatedAt: Date.now(),
+    });
+  }
+
+  return attachments;
+}
+
+/** Remove a deleted message's attachments and their previews from storage. */
+export async function deleteChatAttachments(
+  ctx: MutationCtx,
+  storageIds: ReadonlyArray<Id<"_storage">>,
+) {
+  const now = Date.now();
+  for (const storageId of storageIds) {
+    const metadata = await ctx.db
+      .query("fileMetadata")
+      .withIndex("by_storage_id", (q) => q.eq("storageId", storageId))
+      .unique();
+
+    if (metadata?.previewStorageId) {
+      await ctx.storage.delete(metadata.previewStorageId);
+    }
+    if (metadata) {
+      await ctx.db.patch(metadata._id, { deletedAt: now, updatedAt: now });
+    }
+
+    await ctx.storage.delete(storageId);
+  }
+}
+
+/**
+ * Whether a stored object already belongs to a metadata row, as the file or
+ * as its preview. Chat attachments only claim unclaimed uploads, so deleting
+ * a message never removes storage that another row owns.
+ */
+async function isStorageClaimed(
+  ctx: QueryCtx,
+  storageId: Id<"_storage">,
+): Promise<boolean> {
+  const asFile = await ctx.db
+    .query("fileMetadata")
+    .withIndex("by_storage_id", (q) => q.eq("storageId", storageId))
+    .first();
+  if (asFile) {
+    return true;
+  }
+
+  const asPreview = await ctx.db
+    .query("fileMetadata")
+    .withIndex("by_preview_storage_id", (q) =>
+      q.eq("previewStorageId", storageId),
+    )
+    .first();
+  return asPreview !== null;
+}
+
+async function requireChatParticipant(
+  ctx: QueryCtx,
+  user: Doc<"users">,
+  conversationId: Id<"conversations"> | undefined,
+): Promise<Doc<"conversations">> {
+  if (!conversationId) {
+    throw new ConvexError("Chat attachments require a conversation");
+  }
+
+  const conversation = await ctx.db.get(conversationId);
+  if (!conversation) {
+    throw new ConvexError("Conversation not found");
+  }
+
+  if (!conversation.participants.includes(user._id)) {
+    throw new ConvexError("Unauthorized");
+  }
+
+  return conversation;
+}
+
 // =============================================================================
 // HELPER FUNCTIONS
 // =============================================================================
@@ -376,6 +623,11 @@ async function validateUploadPermission(
     return true;
   }
 
+  // Chat attachments are checked against the conversation by the caller
+  if (category === "chat-attachment") {
+    return true;
+  }
+
   // Other files require admin permission
   return false;
 }
@@ -408,6 +660,12 @@ async function validateFileAccess(
     return true;
   }
 
+  // Chat attachments are visible to the conversation's participants
+  if (metadata.category === "chat-attachment" && metadata.conversationId) {
+    const conversation = await ctx.db.get(metadata.conversationId);
+    return conversation?.participants.includes(user._id) ?? false;
+  }
+
   // Course-related files are accessible to enrolled students
   // (This would need to be implemented based on enrollment system)
   return false;
@@ -426,6 +684,7 @@ function getMaxFileSizeForCategory(category: string): number {
     "lesson-thumbnail": 5 * 1024 * 1024, // 5MB
     "lesson-resource": 100 * 1024 * 1024, // 100MB
     "user-avatar": 2 * 1024 * 1024, // 2MB
+    "chat-attachment": 25 * 1024 * 1024, // 25MB
     other: 50 * 1024 * 1024, // 50MB
   };
 
@@ -451,6 +710,18 @@ function isValidFileType(contentType: string, category: string): boolean {
       "application/zip",
     ],
     "user-avatar": ["image/jpeg", "image/png", "image/webp"],
+    "chat-attachment": [
+      "image/jpeg",
+      "image/png",
+      "image/webp",
+      "image/gif",
+      "application/pdf",
+      "application/msword",
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+      "text/plain",
+      "text/csv",
+      "application/zip",
+    ],
     other: [], // Allow all types for 'other' category
   };
 
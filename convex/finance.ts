@@ -16,6 +16,7 @@
  */
 
 import { mutation, query } from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
 import { ConvexError } from "convex/values";
 import { v } from "convex/values";
 import { internal } from "./_generated/api";
@@ -91,29 +92,26 @@ const TransferBetweenWalletsSchema = v.object({
  * @returns Wallet document
  */
 async function findWalletByUserCurrency(
-  ctx: any,
+  ctx: MutationCtx,
   userId: Id<"users">,
   currency: Currency,
 ) {
   // Attempt to find wallet; if missing, create one
-  const wallets = await ctx.db
+  const existing = await ctx.db
     .query("wallets")
-    .withIndex("by_user_currency", (q: any) =>
+    .withIndex("by_user_currency", (q) =>
       q.eq("userId", userId).eq("currency", currency),
     )
-    .collect();
+    .first();
 
-  if (wallets.length) return wallets[0];
-
-  // Create wallet if it doesn't exist
-  const identity = await ctx.auth.getUserIdentity();
-  const createdBy = identity?.subject ?? "system";
+  if (existing) return existing;
 
+  // Create an empty wallet if it doesn't exist
   const walletId = await ctx.db.insert("wallets", {
     userId,
     currency,
-    createdAt: Date.now(),
-    createdBy,
+    balance: 0,
+    isActive: true,
     updatedAt: Date.now(),
   });
 
@@ -148,6 +146,168 @@ function logTransaction(action: string, details: any, userId: string) {
   });
 }
 
+// --- Ledger Helpers (shared with escrow and checkout flows) ---
+
+type LedgerTransactionType =
+  | "DEPOSIT"
+  | "WITHDRAWAL"
+  | "TRANSFER"
+  | "ESCROW_HOLD"
+  | "ESCROW_RELEASE"
+  | "PAYOUT"
+  | "FEE"
+  | "REFUND";
+
+export interface LedgerEntryInput {
+  walletId: Id<"wallets">;
+  amount: number; // integer smallest unit, positive = credit, negative = debit
+  currency: Currency;
+  type: LedgerTransactionType;
+  description?: string;
+  metadata?: Record<string, unknown>;
+  idempotencyKey: string;
+  relatedEntityType?: string;
+  relatedEntityId?: string;
+  createdBy: string;
+}
+
+export interface LedgerEntryResult {
+  status: "ok" | "already_processed";
+  transactionId: Id<"transactions">;
+  newBalance: number;
+}
+
+/**
+ * Convert a major-unit amount (as stored on gigs and courses) into the
+ * integer smallest unit used by the ledger.
+ */
+export function toMinorUnits(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+/**
+ * Look up a ledger transaction by idempotency key using the dedicated index.
+ */
+export async function findTransactionByIdempotencyKey(
+  ctx: Pick<QueryCtx, "db">,
+  idempotencyKey: string,
+) {
+  return await ctx.db
+    .query("transactions")
+    .withIndex("by_idempotency_key", (q) =>
+      q.eq("idempotencyKey", idempotencyKey),
+    )
+    .first();
+}
+
+/**
+ * Resolve the wallet for a user and currency, creating an empty one if missing.
+ */
+export async function getOrCreateWallet(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  currency: Currency,
+) {
+  const wallet = await findWalletByUserCurrency(ctx, userId, currency);
+  if (!wallet) {
+    throw new ConvexError("Failed to create wallet");
+  }
+
+  return wallet;
+}
+
+/**
+ * Append a single ledger entry and update the walletBalances projection in the
+ * same mutation. Idempotent through the `by_idempotency_key` index: replaying
+ * the same key returns the original transaction without touching balances.
+ *
+ * Debits fail with "Insufficient balance" rather than driving a wallet negative.
+ */
+export async function postLedgerEntry(
+  ctx: MutationCtx,
+  entry: LedgerEntryInput,
+): Promise<LedgerEntryResult> {
+  if (!Number.isInteger(entry.amount)) {
+    throw new ConvexError("Amount must be an integer (smallest currency unit)");
+  }
+
+  if (entry.amount === 0) {
+    throw new ConvexError("Amount cannot be zero");
+  }
+
+  const balance = await ctx.db
+    .query("walletBalances")
+    .withIndex("by_wallet", (q) => q.eq("walletId", entry.walletId))
+    .first();
+
+  const existing = await findTransactionByIdempotencyKey(
+    ctx,
+    entry.idempotencyKey,
+  );
+  if (existing) {
+    return {
+      status: "already_processed",
+      transactionId: existing._id,
+      newBalance: balance?.balance ?? 0,
+    };
+  }
+
+  const currentBalance = balance?.balance ?? 0;
+  const newBalance = currentBalance + entry.amount;
+
+  if (entry.amount < 0 && newBalance < 0) {
+    throw new ConvexError("Insufficient balance for transaction");
+  }
+
+  const now = Date.now();
+
+  const transactionId = await ctx.db.insert("transactions", {
+    walletId: entry.walletId,
+    amount: entry.amount,
+    currency: entry.currency,
+    type: entry.type,
+    status: "COMPLETED",
+    description: entry.description ?? "",
+    metadata: entry.metadata,
+    idempotencyKey: entry.idempotencyKey,
+    relatedEntityType: entry.relatedEntityType,
+    relatedEntityId: entry.relatedEntityId,
+    createdAt: now,
+    createdBy: entry.createdBy,
+  });
+
+  if (balance) {
+    await ctx.db.patch(balance._id, {
+      balance: newBalance,
+      lastTransactionAt: now,
+      lastUpdated: now,
+    });
+  } else {
+    await ctx.db.insert("walletBalances", {
+      walletId: entry.walletId,
+      currency: entry.currency,
+      balance: newBalance,
+      lastTransactionAt: now,
+      lastUpdated: now,
+    });
+  }
+
+  logTransaction(
+    "LEDGER_ENTRY_POSTED",
+    {
+      transactionId,
+      walletId: entry.walletId,
+      amount: entry.amount,
+      type: entry.type,
+      newBalance,
+      idempotencyKey: entry.idempotencyKey,
+    },
+    entry.createdBy,
+  );
+
+  return { status: "ok", transactionId, newBalance };
+}
+
 // --- Public API Functions ---
 
 /**
@@ -0,0 +1,467 @@
+import { mutation, query } from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import { ConvexError, v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { getAuthenticatedUser, getUserId } from "./users";
+
+const DEFAULT_LEADERBOARD_SIZE = 10;
+const MAX_LEADERBOARD_SIZE = 100;
+
+/**
+ * Domain events that gamification rules can subscribe to via `eventName`.
+ */
+export const GAMIFICATION_EVENTS = [
+  "lesson.completed",
+  "course.completed",
+  "application.sent",
+] as const;
+
+export type GamificationEventName = (typeof GAMIFICATION_EVENTS)[number];
+
+const GamificationEventValidator = v.union(
+  v.literal("lesson.completed"),
+  v.literal("course.completed"),
+  v.literal("application.sent"),
+);
+
+export interface GamificationEvent {
+  eventName: GamificationEventName;
+  userId: Id<"users">;
+  /** Entity that triggered the event; rules award at most once per entity. */
+  relatedEntityId?: string;
+}
+
+export interface GamificationAward {
+  ruleId: Id<"gamificationRules">;
+  points: number;
+  badgeId?: Id<"badges">;
+  titleId?: Id<"titles">;
+}
+
+export interface GamificationSummary {
+  totalPoints: number;
+  equippedTitle: { _id: Id<"titles">; name: string } | null;
+  badges: Array<{
+    _id: Id<"badges">;
+    name: string;
+    description: string;
+    iconUrl: string;
+    awardedAt: number;
+  }>;
+  titles: Array<{
+    _id: Id<"titles">;
+    name: string;
+    description: string;
+    isEquipped: boolean;
+  }>;
+}
+
+// =============================================================================
+// Dispatcher
+// =============================================================================
+
+async function hasPointsForEntity(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  ruleId: Id<"gamificationRules">,
+  relatedEntityId: string,
+): Promise<boolean> {
+  const existing = await ctx.db
+    .query("pointsLog")
+    .withIndex("by_user_rule_entity", (q) =>
+      q
+        .eq("userId", userId)
+        .eq("ruleId", ruleId)
+        .eq("relatedEntityId", relatedEntityId),
+    )
+    .first();
+
+  return existing !== null;
+}
+
+async function addPoints(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  points: number,
+) {
+  const now = Date.now();
+  const score = await ctx.db
+    .query("gamificationScores")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .unique();
+
+  if (score) {
+    await ctx.db.patch(score._id, {
+      totalPoints: score.totalPoints + points,
+      updatedAt: now,
+    });
+    return;
+  }
+
+  await ctx.db.insert("gamificationScores", {
+    userId,
+    totalPoints: points,
+    updatedAt: now,
+  });
+}
+
+async function awardBadge(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  badgeId: Id<"badges">,
+  createdBy: string,
+): Promise<boolean> {
+  const existing = await ctx.db
+    .query("userBadges")
+    .withIndex("by_user_and_badge", (q) =>
+      q.eq("userId", userId).eq("badgeId", badgeId),
+    )
+    .first();
+
+  if (existing) {
+    return false;
+  }
+
+  await ctx.db.insert("userBadges", { userId, badgeId, createdBy });
+  return true;
+}
+
+async function awardTitle(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  titleId: Id<"titles">,
+  createdBy: string,
+): Promise<boolean> {
+  const owned = await ctx.db
+    .query("userTitles")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+
+  if (owned.some((title) => title.titleId === titleId)) {
+    return false;
+  }
+
+  // The first title a user earns is equipped automatically.
+  await ctx.db.insert("userTitles", {
+    userId,
+    titleId,
+    isEquipped: !owned.some((title) => title.isEquipped),
+    createdBy,
+  });
+  return true;
+}
+
+/**
+ * Evaluate every rule subscribed to `event.eventName` and grant its points,
+ * badge and title. Points are awarded once per (rule, related entity);
+ * badges and titles are awarded once per user.
+ */
+export async function dispatchGamificationEvent(
+  ctx: MutationCtx,
+  { eventName, userId, relatedEntityId }: GamificationEvent,
+): Promise<GamificationAward[]> {
+  const rules = await ctx.db
+    .query("gamificationRules")
+    .withIndex("by_event", (q) => q.eq("eventName", eventName))
+    .collect();
+
+  if (rules.length === 0) {
+    return [];
+  }
+
+  const user = await ctx.db.get(userId);
+  const createdBy = user?.clerkId ?? "system";
+  const awards: GamificationAward[] = [];
+
+  for (const rule of rules) {
+    const award: GamificationAward = { ruleId: rule._id, points: 0 };
+
+    const points = Math.floor(rule.pointsAwarded ?? 0);
+    if (
+      points > 0 &&
+      !(
+        relatedEntityId &&
+        (await hasPointsForEntity(ctx, userId, rule._id, relatedEntityId))
+      )
+    ) {
+      await ctx.db.insert("pointsLog", {
+        userId,
+        points,
+        ruleId: rule._id,
+        relatedEntityId,
+        createdBy,
+      });
+      await addPoints(ctx, userId, points);
+      award.points = points;
+    }
+
+    if (
+      rule.badgeIdToAward &&
+      (await awardBadge(ctx, userId, rule.badgeIdToAward, createdBy))
+    ) {
+      award.badgeId = rule.badgeIdToAward;
+    }
+
+    if (
+      rule.titleIdToAward &&
+      (await awardTitle(ctx, userId, rule.titleIdToAward, createdBy))
+    ) {
+      award.titleId = rule.titleIdToAward;
+    }
+
+    if (award.points > 0 || award.badgeId || award.titleId) {
+      awards.push(award);
+    }
+  }
+
+  return awards;
+}
+
+// =============================================================================
+// Read models
+// =============================================================================
+
+/**
+ * Points, badges and titles for a user. Shared by the profile view model and
+ * the public summary query.
+ */
+export async function getGamificationSummary(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+): Promise<GamificationSummary> {
+  const [score, userBadges, userTitles] = await Promise.all([
+    ctx.db
+      .query("gamificationScores")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .unique(),
+    ctx.db
+      .query("userBadges")
+      .withIndex("by_user_and_badge", (q) => q.eq("userId", userId))
+      .collect(),
+    ctx.db
+      .query("userTitles")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect(),
+  ]);
+
+  const badges = await Promise.all(
+    userBadges.map(async (userBadge) => {
+      const badge = await ctx.db.get(userBadge.badgeId);
+      return badge
+        ? {
+            _id: badge._id,
+            name: badge.name,
+            description: badge.description,
+            iconUrl: badge.iconUrl,
+            awardedAt: userBadge._creationTime,
+          }
+        : null;
+    }),
+  );
+
+  const titles = await Promise.all(
+    userTitles.map(async (userTitle) => {
+      const title = await ctx.db.get(userTitle.titleId);
+      return title
+        ? {
+            _id: title._id,
+            name: title.name,
+            description: title.description,
+            isEquipped: userTitle.isEquipped,
+          }
+        : null;
+    }),
+  );
+
+  const ownedTitles = titles.filter(
+    (title): title is NonNullable<typeof title> => title !== null,
+  );
+  const equipped = ownedTitles.find((title) => title.isEquipped);
+
+  return {
+    totalPoints: score?.totalPoints ?? 0,
+    equippedTitle: equipped ? { _id: equipped._id, name: equipped.name } : null,
+    badges: badges
+      .filter((badge): badge is NonNullable<typeof badge> => badge !== null)
+      .sort((a, b) => b.awardedAt - a.awardedAt),
+    titles: ownedTitles,
+  };
+}
+
+export const getSummary = query({
+  args: {
+    userId: v.optional(v.id("users")),
+  },
+  handler: async (ctx, { userId }): Promise<GamificationSummary | null> => {
+    const targetId = userId ?? (await getUserId(ctx));
+    if (!targetId) {
+      return null;
+    }
+
+    return await getGamificationSummary(ctx, targetId);
+  },
+});
+
+export const getLeaderboard = query({
+  args: {
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, { limit }) => {
+    const size = Math.max(
+      1,
+      Math.min(limit ?? DEFAULT_LEADERBOARD_SIZE, MAX_LEADERBOARD_SIZE),
+    );
+
+    const scores = await ctx.db
+      .query("gamificationScores")
+      .withIndex("by_points")
+      .order("desc")
+      .take(size);
+
+    return await Promise.all(
+      scores.map(async (score, index) => {
+        const [user, equippedTitle] = await Promise.all([
+          ctx.db.get(score.userId),
+          ctx.db
+            .query("userTitles")
+            .withIndex("by_user", (q) => q.eq("userId", score.userId))
+            .filter((q) => q.eq(q.field("isEquipped"), true))
+            .first(),
+        ]);
+        const title = equippedTitle
+          ? await ctx.db.get(equippedTitle.titleId)
+          : null;
+
+        return {
+          rank: index + 1,
+          userId: score.userId,
+          name: user?.name ?? "Anonymous",
+          avatarUrl: user?.avatarUrl ?? undefined,
+          totalPoints: score.totalPoints,
+          title: title?.name ?? null,
+        };
+      }),
+    );
+  },
+});
+
+// =============================================================================
+// Player actions
+// =============================================================================
+
+export const equipTitle = mutation({
+  args: {
+    titleId: v.id("titles"),
+  },
+  handler: async (ctx, { titleId }) => {
+    const userId = await getUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const owned = await ctx.db
+      .query("userTitles")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+
+    if (!owned.some((title) => title.titleId === titleId)) {
+      throw new ConvexError("You have not earned this title");
+    }
+
+    for (const title of owned) {
+      const isEquipped = title.titleId === titleId;
+      if (title.isEquipped !== isEquipped) {
+        await ctx.db.patch(title._id, { isEquipped });
+      }
+    }
+  },
+});
+
+// =============================================================================
+// Rule administration
+// =============================================================================
+
+async function requireAdmin(ctx: MutationCtx): Promise<Doc<"users">> {
+  const user = await getAuthenticatedUser(ctx);
+  if (!user) {
+    throw new ConvexError("Authentication required");
+  }
+
+  if (!user.roles.includes("admin")) {
+    throw new ConvexError("Gamification management requires admin access");
+  }
+
+  return user;
+}
+
+export const createBadge = mutation({
+  args: {
+    name: v.string(),
+    description: v.string(),
+    iconUrl: v.string(),
+  },
+  handler: async (ctx, { name, description, iconUrl }) => {
+    await requireAdmin(ctx);
+
+    if (!name.trim()) {
+      throw new ConvexError("Badge name is required");
+    }
+
+    return await ctx.db.insert("badges", {
+      name: name.trim(),
+      description: description.trim(),
+      iconUrl: iconUrl.trim(),
+    });
+  },
+});
+
+export const createTitle = mutation({
+  args: {
+    name: v.string(),
+    description: v.string(),
+  },
+  handler: async (ctx, { name, description }) => {
+    await requireAdmin(ctx);
+
+    if (!name.trim()) {
+      throw new ConvexError("Title name is required");
+    }
+
+    return await ctx.db.insert("titles", {
+      name: name.trim(),
+      description: description.trim(),
+    });
+  },
+});
+
+export const createRule = mutation({
+  args: {
+    eventName: GamificationEventValidator,
+    description: v.string(),
+    pointsAwarded: v.optional(v.number()),
+    badgeIdToAward: v.optional(v.id("badges")),
+    titleIdToAward: v.optional(v.id("titles")),
+  },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+
+    if (
+      args.pointsAwarded !== undefined &&
+      (!Number.isInteger(args.pointsAwarded) || args.pointsAwarded <= 0)
+    ) {
+      throw new ConvexError("Points must be a positive whole number");
+    }
+
+    if (!args.pointsAwarded && !args.badgeIdToAward && !args.titleIdToAward) {
+      throw new ConvexError("A rule must award points, a badge or a title");
+    }
+
+    return await ctx.db.insert("gamificationRules", {
+      eventName: args.eventName,
+      description: args.description.trim(),
+      pointsAwarded: args.pointsAwarded,
+      badgeIdToAward: args.badgeIdToAward,
+      titleIdToAward: args.titleIdToAward,
+    });
+  },
+});
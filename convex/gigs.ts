@@ -1,7 +1,14 @@
-import { query } from "./_generated/server";
+import { mutation, query } from "./_generated/server";
 import type { QueryCtx } from "./_generated/server";
 import type { Doc, Id } from "./_generated/dataModel";
 import { v } from "convex/values";
+import { recordGigView } from "./employerAnalytics";
+import {
+  buildGigSearchText,
+  matchesSearchTerm,
+  normalizeSearchTerm,
+} from "./search";
+import { getUserId } from "./users";
 
 const CATEGORIES = [
   "design",
@@ -36,7 +43,7 @@ const MAX_LIST_LIMIT = 60;
 
 type PublicGig = Doc<"gigs">;
 
-type PublicGigFilters = {
+export type PublicGigFilters = {
   search?: string;
   category?: (typeof CATEGORIES)[number];
   difficultyLevel?: (typeof DIFFICULTY_LEVELS)[number];
@@ -51,6 +58,34 @@ type PublicGigFilters = {
   skills?: string[];
 };
 
+/** Validator for `PublicGigFilters`, shared with saved searches. */
+export const publicGigFiltersValidator = v.object({
+  search: v.optional(v.string()),
+  category: v.optional(
+    v.union(...CATEGORIES.map((category) => v.literal(category))),
+  ),
+  difficultyLevel: v.optional(
+    v.union(...DIFFICULTY_LEVELS.map((level) => v.literal(level))),
+  ),
+  experienceRequired: v.optional(
+    v.union(...EXPERIENCE_LEVELS.map((level) => v.literal(level))),
+  ),
+  budgetMin: v.optional(v.number()),
+  budgetMax: v.optional(v.number()),
+  budgetType: v.optional(
+    v.union(...BUDGET_TYPES.map((type) => v.literal(type))),
+  ),
+  currency: v.optional(
+    v.union(...CURRENCIES.map((currency) => v.literal(currency))),
+  ),
+  isRemoteOnly: v.optional(v.boolean()),
+  isUrgent: v.optional(v.boolean()),
+  locationType: v.optional(
+    v.union(...LOCATION_TYPES.map((location) => v.literal(location))),
+  ),
+  skills: v.optional(v.array(v.string())),
+});
+
 interface PaginatedGigsResult {
   items: PublicGig[];
   continueCursor: string | null;
@@ -64,12 +99,44 @@ function clampLimit(limit?: number | null): number {
   return Math.max(1, Math.min(limit, MAX_LIST_LIMIT));
 }
 
+/**
+ * Open gigs narrowed by the most selective index available. A search term
+ * switches to the full-text index, which returns results in relevance order
+ * and applies category and experience as search filter fields.
+ */
 function createOpenGigsQuery(ctx: QueryCtx, filters: PublicGigFilters) {
-  if (filters.category) {
+  const search = normalizeSearchTerm(filters.search);
+  const { category, experienceRequired } = filters;
+
+  if (search) {
+    return ctx.db.query("gigs").withSearchIndex("search_text", (q) => {
+      let searchQuery = q.search("searchText", search).eq("status", "open");
+      if (category) {
+        searchQuery = searchQuery.eq("category", category);
+      }
+      if (experienceRequired) {
+        searchQuery = searchQuery.eq("experienceRequired", experienceRequired);
+      }
+      return searchQuery;
+    });
+  }
+
+  if (category && experienceRequired) {
+    return ctx.db
+      .query("gigs")
+      .withIndex("by_open_category_experience", (q) =>
+        q
+          .eq("status", "open")
+          .eq("category", category)
+          .eq("experienceRequired", experienceRequired),
+      );
+  }
+
+  if (category) {
     return ctx.db
       .query("gigs")
       .withIndex("by_status_category", (q) =>
-        q.eq("status", "open").eq("category", filters.category!),
+        q.eq("status", "open").eq("category", category),
       );
   }
 
@@ -141,25 +208,32 @@ function matchesFilters(gig: PublicGig, filters: PublicGigFilters): boolean {
     }
   }
 
-  if (filters.search) {
-    const needle = filters.search.trim().toLowerCase();
-    const haystack = [
-      gig.title,
-      gig.description,
-      gig.category,
-      ...gig.skills,
-      gig.location?.city ?? "",
-      gig.location?.country ?? "",
-    ]
-      .join(" ")
-      .toLowerCase();
-
-    if (!haystack.includes(needle)) {
-      return false;
-    }
+  return true;
+}
+
+/**
+ * Check a single gig against the full filter set, including the category and
+ * search term that `list` otherwise leaves to its indexes. Used to match newly
+ * published gigs against saved searches.
+ */
+export function matchesPublicGigFilters(
+  gig: PublicGig,
+  filters: PublicGigFilters,
+): boolean {
+  if (gig.status !== "open") {
+    return false;
   }
 
-  return true;
+  if (filters.category && gig.category !== filters.category) {
+    return false;
+  }
+
+  const search = normalizeSearchTerm(filters.search);
+  if (search && !matchesSearchTerm(buildGigSearchText(gig), search)) {
+    return false;
+  }
+
+  return matchesFilters(gig, filters);
 }
 
 function sanitizeGig(gig: PublicGig) {
@@ -230,34 +304,7 @@ async function collectPaginatedOpenGigs(
 
 export const list = query({
   args: {
-    filters: v.optional(
-      v.object({
-        search: v.optional(v.string()),
-        category: v.optional(
-          v.union(...CATEGORIES.map((category) => v.literal(category))),
-        ),
-        difficultyLevel: v.optional(
-          v.union(...DIFFICULTY_LEVELS.map((level) => v.literal(level))),
-        ),
-        experienceRequired: v.optional(
-          v.union(...EXPERIENCE_LEVELS.map((level) => v.literal(level))),
-        ),
-        budgetMin: v.optional(v.number()),
-        budgetMax: v.optional(v.number()),
-        budgetType: v.optional(
-          v.union(...BUDGET_TYPES.map((type) => v.literal(type))),
-        ),
-        currency: v.optional(
-          v.union(...CURRENCIES.map((currency) => v.literal(currency))),
-        ),
-        isRemoteOnly: v.optional(v.boolean()),
-        isUrgent: v.optional(v.boolean()),
-        locationType: v.optional(
-          v.union(...LOCATION_TYPES.map((location) => v.literal(location))),
-        ),
-        skills: v.optional(v.array(v.string())),
-      }),
-    ),
+    filters: v.optional(publicGigFiltersValidator),
     cursor: v.optional(v.string()),
     limit: v.optional(v.number()),
   },
@@ -275,11 +322,14 @@ export const list = query({
 
     const sanitized = items.map(sanitizeGig);
 
-    sanitized.sort(
-      (left, right) =>
-        (right.metadata?.publishedAt ?? right._creationTime) -
-        (left.metadata?.publishedAt ?? left._creationTime),
-    );
+    // Search results keep the index's relevance order.
+    if (!normalizeSearchTerm(filters.search)) {
+      sanitized.sort(
+        (left, right) =>
+          (right.metadata?.publishedAt ?? right._creationTime) -
+          (left.metadata?.publishedAt ?? left._creationTime),
+      );
+    }
 
     return {
       items: sanitized,
@@ -305,6 +355,28 @@ export const get = query({
   },
 });
 
+/**
+ * Count a detail page view of an open gig, once per signed-in viewer per
+ * day. Anonymous and owner views are ignored.
+ */
+export const recordView = mutation({
+  args: {
+    gigId: v.id("gigs"),
+  },
+  handler: async (ctx, { gigId }) => {
+    const gig = await ctx.db.get(gigId);
+    if (!gig || gig.status !== "open") {
+      return null;
+    }
+
+    const viewerId = await getUserId(ctx);
+    if (viewerId && viewerId !== gig.employerId) {
+      await recordGigView(ctx, gig, viewerId);
+    }
+    return null;
+  },
+});
+
 export const related = query({
   args: {
     gigId: v.id("gigs"),
@@ -0,0 +1,223 @@
+/**
+ * HTTP ROUTES
+ *
+ * `/clerk/users-webhook` receives Clerk user.updated, user.deleted and
+ * session events. The svix signature is verified here against
+ * `CLERK_WEBHOOK_SIGNING_SECRET`, so the user lifecycle mutations it calls
+ * stay internal. Each delivery is claimed by its svix message ID and the
+ * claim is released when handling fails; the 5xx answer makes Clerk retry.
+ */
+
+import { httpRouter } from "convex/server";
+import { Webhook } from "svix";
+import { httpAction } from "./_generated/server";
+import type { ActionCtx } from "./_generated/server";
+import { api, internal } from "./_generated/api";
+
+interface ClerkEmailAddress {
+  id?: string;
+  email_address: string;
+  verification?: { status: string };
+}
+
+interface ClerkUserPayload {
+  id: string;
+  email_addresses?: ClerkEmailAddress[];
+  primary_email_address_id?: string;
+  first_name?: string | null;
+  last_name?: string | null;
+  image_url?: string | null;
+}
+
+interface ClerkSessionPayload {
+  user_id: string;
+  created_at: number;
+  updated_at: number;
+}
+
+type ClerkWebhookEvent =
+  | { type: "user.updated"; data: ClerkUserPayload }
+  | { type: "user.deleted"; data: { id?: string } }
+  | {
+      type:
+        | "session.created"
+        | "session.ended"
+        | "session.removed"
+        | "session.revoked";
+      data: ClerkSessionPayload;
+    }
+  | { type: string; data: Record<string, unknown> };
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function normalizeClerkUser(data: ClerkUserPayload) {
+  const emails = data.email_addresses ?? [];
+  const primaryEmail =
+    emails.find((email) => email.id === data.primary_email_address_id) ??
+    emails.find((email) => email.verification?.status === "verified") ??
+    emails[0];
+  if (!primaryEmail?.email_address) {
+    throw new Error("No valid email address found");
+  }
+
+  const name =
+    `${data.first_name?.trim() ?? ""} ${data.last_name?.trim() ?? ""}`.trim() ||
+    "New User";
+
+  let avatarUrl: string | undefined;
+  if (data.image_url) {
+    try {
+      new URL(data.image_url);
+      avatarUrl = data.image_url;
+    } catch {
+      avatarUrl = undefined;
+    }
+  }
+
+  return {
+    clerkId: data.id,
+    email: primaryEmail.email_address.toLowerCase().trim(),
+    name,
+    avatarUrl,
+  };
+}
+
+async function findActiveUserId(ctx: ActionCtx, clerkId: string) {
+  const user = await ctx.runQuery(api.users.getUserByClerkId, { clerkId });
+  return user?._id ?? null;
+}
+
+/** Apply a verified event. Returns a short description for the response. */
+async function handleClerkEvent(
+  ctx: ActionCtx,
+  event: ClerkWebhookEvent,
+): Promise<string> {
+  switch (event.type) {
+    case "user.updated": {
+      const user = normalizeClerkUser(event.data as ClerkUserPayload);
+      const userId = await findActiveUserId(ctx, user.clerkId);
+      if (!userId) {
+        return "User not found, update skipped";
+      }
+      const result = await ctx.runMutation(internal.users.updateUser, {
+        userId,
+        name: user.name,
+        email: user.email,
+        avatarUrl: user.avatarUrl,
+      });
+      return result.message;
+    }
+    case "user.deleted": {
+      const clerkId = (event.data as { id?: string }).id;
+      if (!clerkId) {
+        throw new Error("Missing required field: id");
+      }
+      const userId = await findActiveUserId(ctx, clerkId);
+      if (!userId) {
+        return "User already deleted or not found";
+      }
+      const result = await ctx.runMutation(internal.users.softDeleteUser, {
+        userId,
+      });
+      return result.message;
+    }
+    case "session.created":
+    case "session.ended":
+    case "session.removed":
+    case "session.revoked": {
+      const session = event.data as ClerkSessionPayload;
+      const sessionEvent =
+        event.type === "session.created" ? "created" : "ended";
+      const result = await ctx.runMutation(internal.users.recordSessionEvent, {
+        clerkId: session.user_id,
+        event: sessionEvent,
+        occurredAt:
+          sessionEvent === "created" ? session.created_at : session.updated_at,
+      });
+      return result.success
+        ? `Session ${sessionEvent} recorded`
+        : "User not found, session event skipped";
+    }
+    default:
+      return `Event ${event.type} received but not processed`;
+  }
+}
+
+const clerkUsersWebhook = httpAction(async (ctx: ActionCtx, request) => {
+  const secret = process.env.CLERK_WEBHOOK_SIGNING_SECRET;
+  if (!secret) {
+    console.error(
+      "[clerkUsersWebhook] CLERK_WEBHOOK_SIGNING_SECRET is not set",
+    );
+    return jsonResponse({ success: false, message: "Not configured" }, 500);
+  }
+
+  const messageId = request.headers.get("svix-id");
+  const payload = await request.text();
+
+  let event: ClerkWebhookEvent;
+  try {
+    event = new Webhook(secret).verify(payload, {
+      "svix-id": messageId ?? "",
+      "svix-timestamp": request.headers.get("svix-timestamp") ?? "",
+      "svix-signature": request.headers.get("svix-signature") ?? "",
+    }) as ClerkWebhookEvent;
+  } catch (error) {
+    console.error("[clerkUsersWebhook] Signature verification failed", error);
+    return jsonResponse(
+      { success: false, message: "Webhook verification failed" },
+      400,
+    );
+  }
+
+  if (!messageId) {
+    return jsonResponse({ success: false, message: "Missing svix-id" }, 400);
+  }
+
+  const { duplicate } = await ctx.runMutation(
+    internal.users.claimWebhookEvent,
+    {
+      messageId,
+      eventType: event.type,
+    },
+  );
+  if (duplicate) {
+    return jsonResponse({ success: true, message: "Event already processed" });
+  }
+
+  try {
+    const message = await handleClerkEvent(ctx, event);
+    return jsonResponse({ success: true, message });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`[clerkUsersWebhook] ${event.type} handling failed`, {
+      messageId,
+      error: errorMessage,
+    });
+
+    await ctx.runMutation(internal.users.releaseWebhookEvent, { messageId });
+    return jsonResponse(
+      {
+        success: false,
+        message: `${event.type} handling failed`,
+        error: errorMessage,
+      },
+      500,
+    );
+  }
+});
+
+const http = httpRouter();
+
+http.route({
+  path: "/clerk/users-webhook",
+  method: "POST",
+  handler: clerkUsersWebhook,
+});
+
+export default http;
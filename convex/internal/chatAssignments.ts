@@ -32,6 +32,38 @@ export function formatContractConversationTitle({
   return `Contract — ${candidateName} (${gigTitle})`;
 }
 
+/**
+ * Find or create the employer ↔ candidate conversation for an application,
+ * used for interview scheduling and bulk messages before any assignment.
+ */
+export async function ensureApplicationConversation(
+  ctx: MutationCtx,
+  {
+    gig,
+    application,
+    trigger,
+  }: {
+    gig: Doc<"gigs">;
+    application: Doc<"applications">;
+    trigger: string;
+  },
+): Promise<Id<"conversations">> {
+  const candidate = await ctx.db.get(application.candidateId);
+  const candidateName = candidate
+    ? resolveCandidateDisplayName(candidate)
+    : "Candidate";
+
+  return await ensureConversation(ctx, {
+    gigId: gig._id,
+    type: "application",
+    title: `Application — ${candidateName} (${gig.title})`,
+    participants: [application.candidateId],
+    meta: { applicationId: application._id },
+    creatorId: gig.employerId,
+    auditMetadata: { trigger },
+  });
+}
+
 async function loadBootstrapContext(
   ctx: MutationCtx,
   {
@@ -0,0 +1,133 @@
+import { internalQuery } from "../_generated/server";
+import { ConvexError, v } from "convex/values";
+import type { Doc } from "../_generated/dataModel";
+import type { GigRecommendation, TalentSuggestion } from "../matching";
+
+function vectorResultsValidator<T extends "gigs" | "users">(table: T) {
+  return v.array(v.object({ _id: v.id(table), _score: v.number() }));
+}
+
+function withoutEmbedding<T extends Doc<"gigs"> | Doc<"users">>(
+  doc: T,
+): Omit<T, "embedding" | "embeddingUpdatedAt"> {
+  const { embedding, embeddingUpdatedAt, ...rest } = doc;
+  void embedding;
+  void embeddingUpdatedAt;
+  return rest;
+}
+
+export const getCandidateMatchContext = internalQuery({
+  args: { clerkId: v.string() },
+  handler: async (ctx, { clerkId }) => {
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", clerkId))
+      .unique();
+
+    if (!user || user.deletedAt) {
+      return null;
+    }
+
+    return { userId: user._id, embedding: user.embedding ?? null };
+  },
+});
+
+export const loadRecommendedGigs = internalQuery({
+  args: {
+    candidateId: v.id("users"),
+    results: vectorResultsValidator("gigs"),
+  },
+  handler: async (
+    ctx,
+    { candidateId, results },
+  ): Promise<GigRecommendation[]> => {
+    const applications = await ctx.db
+      .query("applications")
+      .withIndex("by_candidate", (q) => q.eq("candidateId", candidateId))
+      .collect();
+    const appliedGigIds = new Set(applications.map(({ gigId }) => gigId));
+
+    const recommendations: GigRecommendation[] = [];
+    for (const { _id, _score } of results) {
+      if (appliedGigIds.has(_id)) continue;
+
+      const gig = await ctx.db.get(_id);
+      if (!gig || gig.status !== "open" || gig.employerId === candidateId) {
+        continue;
+      }
+
+      recommendations.push({ gig: withoutEmbedding(gig), score: _score });
+    }
+
+    return recommendations;
+  },
+});
+
+export const getGigMatchContext = internalQuery({
+  args: { clerkId: v.string(), gigId: v.id("gigs") },
+  handler: async (ctx, { clerkId, gigId }) => {
+    const [user, gig] = await Promise.all([
+      ctx.db
+        .query("users")
+        .withIndex("by_clerk_id", (q) => q.eq("clerkId", clerkId))
+        .unique(),
+      ctx.db.get(gigId),
+    ]);
+
+    if (!gig) {
+      throw new ConvexError("Gig not found");
+    }
+
+    if (!user || gig.employerId !== user._id) {
+      throw new ConvexError("You do not have access to this gig");
+    }
+
+    return { employerId: gig.employerId, embedding: gig.embedding ?? null };
+  },
+});
+
+export const loadSuggestedTalent = internalQuery({
+  args: {
+    gigId: v.id("gigs"),
+    employerId: v.id("users"),
+    results: vectorResultsValidator("users"),
+  },
+  handler: async (
+    ctx,
+    { gigId, employerId, results },
+  ): Promise<TalentSuggestion[]> => {
+    const applications = await ctx.db
+      .query("applications")
+      .withIndex("by_gig", (q) => q.eq("gigId", gigId))
+      .collect();
+    const applicantIds = new Set(
+      applications.map(({ candidateId }) => candidateId),
+    );
+
+    const suggestions: TalentSuggestion[] = [];
+    for (const { _id, _score } of results) {
+      if (_id === employerId || applicantIds.has(_id)) continue;
+
+      const user = await ctx.db.get(_id);
+      if (!user || user.deletedAt) continue;
+
+      const profile = await ctx.db
+        .query("profiles")
+        .withIndex("by_user", (q) => q.eq("userId", _id))
+        .unique();
+      if (profile?.visibility === "private") continue;
+
+      suggestions.push({
+        userId: user._id,
+        name: user.name,
+        avatarUrl: profile?.avatarUrl ?? user.avatarUrl,
+        headline: profile?.headline ?? user.profile?.headline,
+        skills: profile?.skills ?? user.profile?.skills ?? [],
+        profileSlug: profile?.slug,
+        score: _score,
+      });
+    }
+
+    return suggestions;
+  },
+});
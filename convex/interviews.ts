@@ -0,0 +1,698 @@
+/**
+ * INTERVIEWS
+ *
+ * Scheduling for applications in `interview_requested`. The employer
+ * proposes up to five slots, each entered as wall-clock time in a chosen
+ * timezone (defaulting to the gig's, then the employer profile's). The
+ * candidate confirms one from their applications dashboard, after which
+ * either side can download the `.ics` file. Every change posts a system
+ * message into the application conversation and notifies the other party.
+ */
+
+import { ConvexError, v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  buildIcsCalendar,
+  formatInTimeZone,
+  isValidTimeZone,
+  zonedTimeToUtc,
+} from "./calendar";
+import { appendMessage } from "./chatMessages";
+import { ensureApplicationConversation } from "./internal/chatAssignments";
+import { createNotification } from "./notifications";
+import { getUserId } from "./users";
+
+const MAX_SLOTS = 5;
+const MIN_DURATION_MINUTES = 15;
+const MAX_DURATION_MINUTES = 240;
+const MAX_LOCATION_LENGTH = 500;
+const MAX_NOTES_LENGTH = 1000;
+const MAX_REASON_LENGTH = 500;
+const FALLBACK_TIMEZONE = "UTC";
+
+type Ctx = QueryCtx | MutationCtx;
+type InterviewRole = "employer" | "candidate";
+type InterviewSlot = Doc<"interviews">["slots"][number];
+
+const FORMAT_LABELS: Record<Doc<"interviews">["format"], string> = {
+  video: "Video call",
+  phone: "Phone call",
+  in_person: "In person",
+};
+
+const proposedSlotValidator = v.object({
+  localStart: v.string(), // "YYYY-MM-DDTHH:mm" wall-clock time in `timezone`
+  timezone: v.string(),
+});
+
+async function requireUserId(ctx: Ctx): Promise<Id<"users">> {
+  const userId = await getUserId(ctx);
+  if (!userId) {
+    throw new ConvexError("Not authenticated");
+  }
+  return userId;
+}
+
+function normalizeText(
+  value: string | undefined,
+  label: string,
+  maxLength: number,
+): string | undefined {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  if (trimmed.length > maxLength) {
+    throw new ConvexError(`${label} must be ${maxLength} characters or fewer`);
+  }
+  return trimmed;
+}
+
+function firstValidTimeZone(
+  ...candidates: Array<string | undefined>
+): string | undefined {
+  return candidates.find(
+    (timeZone): timeZone is string =>
+      Boolean(timeZone) && isValidTimeZone(timeZone!),
+  );
+}
+
+/**
+ * Suggested timezones for both sides: the gig's location timezone, then
+ * the employer's profile; the candidate's profile for the candidate.
+ */
+async function resolveTimezones(
+  ctx: Ctx,
+  gig: Doc<"gigs">,
+  candidateId: Id<"users">,
+) {
+  const [employerProfile, candidateProfile, employer, candidate] =
+    await Promise.all([
+      ctx.db
+        .query("profiles")
+        .withIndex("by_user", (q) => q.eq("userId", gig.employerId))
+        .unique(),
+      ctx.db
+        .query("profiles")
+        .withIndex("by_user", (q) => q.eq("userId", candidateId))
+        .unique(),
+      ctx.db.get(gig.employerId),
+      ctx.db.get(candidateId),
+    ]);
+
+  const employerTimezone =
+    firstValidTimeZone(
+      gig.location?.timezone,
+      employerProfile?.timezone,
+      employer?.profile?.location?.timezone,
+    ) ?? FALLBACK_TIMEZONE;
+  const candidateTimezone =
+    firstValidTimeZone(
+      candidateProfile?.timezone,
+      candidate?.profile?.location?.timezone,
+    ) ?? employerTimezone;
+
+  return { employerTimezone, candidateTimezone };
+}
+
+function parseSlots(
+  slots: ReadonlyArray<{ localStart: string; timezone: string }>,
+): InterviewSlot[] {
+  if (slots.length === 0 || slots.length > MAX_SLOTS) {
+    throw new ConvexError(`Propose between 1 and ${MAX_SLOTS} time slots`);
+  }
+
+  const now = Date.now();
+  const parsed = slots.map(({ localStart, timezone }) => {
+    if (!isValidTimeZone(timezone)) {
+      throw new ConvexError(`Unknown timezone "${timezone}"`);
+    }
+    const startsAt = zonedTimeToUtc(localStart, timezone);
+    if (startsAt === null) {
+      throw new ConvexError("Slot times must be valid dates");
+    }
+    if (startsAt <= now) {
+      throw new ConvexError("Slots must be in the future");
+    }
+    return { startsAt, timezone };
+  });
+
+  const unique = new Map(parsed.map((slot) => [slot.startsAt, slot]));
+  return [...unique.values()].sort(
+    (left, right) => left.startsAt - right.startsAt,
+  );
+}
+
+function assertDuration(durationMinutes: number) {
+  if (
+    !Number.isInteger(durationMinutes) ||
+    durationMinutes < MIN_DURATION_MINUTES ||
+    durationMinutes > MAX_DURATION_MINUTES
+  ) {
+    throw new ConvexError(
+      `Interviews must last between ${MIN_DURATION_MINUTES} and ${MAX_DURATION_MINUTES} minutes`,
+    );
+  }
+}
+
+async function loadInterviewForParty(
+  ctx: Ctx,
+  interviewId: Id<"interviews">,
+): Promise<{
+  interview: Doc<"interviews">;
+  userId: Id<"users">;
+  role: InterviewRole;
+}> {
+  const userId = await requireUserId(ctx);
+  const interview = await ctx.db.get(interviewId);
+  if (!interview) {
+    throw new ConvexError("Interview not found");
+  }
+
+  if (interview.employerId === userId) {
+    return { interview, userId, role: "employer" };
+  }
+  if (interview.candidateId === userId) {
+    return { interview, userId, role: "candidate" };
+  }
+  throw new ConvexError("Forbidden");
+}
+
+function isActive(interview: Doc<"interviews">): boolean {
+  return interview.status === "proposed" || interview.status === "scheduled";
+}
+
+function describeSlots(
+  slots: ReadonlyArray<InterviewSlot>,
+  candidateTimezone: string,
+): string {
+  return slots
+    .map((slot) => {
+      const proposed = formatInTimeZone(slot.startsAt, slot.timezone);
+      return slot.timezone === candidateTimezone
+        ? `• ${proposed}`
+        : `• ${proposed} (${formatInTimeZone(slot.startsAt, candidateTimezone)} for the candidate)`;
+    })
+    .join("\n");
+}
+
+async function postInterviewMessage(
+  ctx: MutationCtx,
+  interview: Doc<"interviews">,
+  senderId: Id<"users">,
+  systemEvent: Extract<
+    NonNullable<Doc<"messages">["systemEvent"]>,
+    `interview.${string}`
+  >,
+  body: string,
+) {
+  if (!interview.conversationId) {
+    return;
+  }
+
+  await appendMessage(ctx, {
+    conversationId: interview.conversationId,
+    senderId,
+    messageType: "system",
+    systemEvent,
+    body,
+  });
+}
+
+function employerApplicationLink(interview: Doc<"interviews">): string {
+  return `/app/employer/gigs/${interview.gigId}/applications/${interview.applicationId}`;
+}
+
+const CANDIDATE_APPLICATIONS_LINK = "/app/profile/applications";
+
+type ApplicationStatus = Doc<"applicationStatusEvents">["status"];
+
+const STATUS_LABELS: Partial<Record<ApplicationStatus, string>> = {
+  rejected: "rejected",
+  withdrawn: "withdrawn",
+  hired: "hired",
+  assigned: "assigned",
+  closed: "closed",
+};
+
+/**
+ * Cancel the active interviews of an application that is leaving
+ * `interview_requested`. Every mutation that changes an application's
+ * status calls this alongside `recordApplicationStatusEvent`. Both parties
+ * other than `changedBy` are notified.
+ */
+export async function cancelInterviewsForStatusChange(
+  ctx: MutationCtx,
+  {
+    application,
+    status,
+    changedBy,
+  }: {
+    application: Doc<"applications">;
+    status: ApplicationStatus;
+    changedBy: Id<"users">;
+  },
+) {
+  if (
+    application.status !== "interview_requested" ||
+    status === "interview_requested"
+  ) {
+    return;
+  }
+
+  const interviews = await ctx.db
+    .query("interviews")
+    .withIndex("by_application", (q) => q.eq("applicationId", application._id))
+    .collect();
+
+  const reason = `The application was ${STATUS_LABELS[status] ?? "moved out of interview"}.`;
+  for (const interview of interviews.filter(isActive)) {
+    await ctx.db.patch(interview._id, {
+      status: "cancelled",
+      sequence: interview.sequence + 1,
+      cancelledBy: changedBy,
+      cancellationReason: reason,
+      updatedAt: Date.now(),
+    });
+
+    await postInterviewMessage(
+      ctx,
+      interview,
+      changedBy,
+      "interview.cancelled",
+      `Interview cancelled. ${reason}`,
+    );
+
+    for (const [userId, link] of [
+      [interview.candidateId, CANDIDATE_APPLICATIONS_LINK],
+      [interview.employerId, employerApplicationLink(interview)],
+    ] as const) {
+      if (userId === changedBy) {
+        continue;
+      }
+      await createNotification(ctx, {
+        userId,
+        type: "interview_cancelled",
+        title: "Interview cancelled",
+        body: reason,
+        link,
+        gigId: interview.gigId,
+      });
+    }
+  }
+}
+
+/**
+ * The latest interview for an application plus suggested timezones, for
+ * the employer's scheduler and the candidate's dashboard.
+ */
+export const getForApplication = query({
+  args: { applicationId: v.id("applications") },
+  handler: async (ctx, { applicationId }) => {
+    const userId = await requireUserId(ctx);
+    const application = await ctx.db.get(applicationId);
+    if (!application) {
+      throw new ConvexError("Application not found");
+    }
+
+    const gig = await ctx.db.get(application.gigId);
+    if (!gig) {
+      throw new ConvexError("Gig not found");
+    }
+    if (gig.employerId !== userId && application.candidateId !== userId) {
+      throw new ConvexError("Forbidden");
+    }
+
+    const [interview, timezones] = await Promise.all([
+      ctx.db
+        .query("interviews")
+        .withIndex("by_application", (q) =>
+          q.eq("applicationId", applicationId),
+        )
+        .order("desc")
+        .first(),
+      resolveTimezones(ctx, gig, application.candidateId),
+    ]);
+
+    return { interview, ...timezones };
+  },
+});
+
+/** Proposed and scheduled interviews for the signed-in candidate. */
+export const listMine = query({
+  args: {},
+  handler: async (ctx) => {
+    const candidateId = await requireUserId(ctx);
+
+    const interviews = (
+      await Promise.all(
+        (["proposed", "scheduled"] as const).map((status) =>
+          ctx.db
+            .query("interviews")
+            .withIndex("by_candidate", (q) =>
+              q.eq("candidateId", candidateId).eq("status", status),
+            )
+            .collect(),
+        ),
+      )
+    ).flat();
+    const hydrated: Array<{
+      interview: Doc<"interviews">;
+      gigTitle: string;
+    }> = [];
+    for (const interview of interviews) {
+      const gig = await ctx.db.get(interview.gigId);
+      hydrated.push({ interview, gigTitle: gig?.title ?? "Gig" });
+    }
+
+    return hydrated.sort(
+      (left, right) =>
+        (left.interview.scheduledSlot?.startsAt ??
+          left.interview.slots[0]?.startsAt ??
+          0) -
+        (right.interview.scheduledSlot?.startsAt ??
+          right.interview.slots[0]?.startsAt ??
+          0),
+    );
+  },
+});
+
+export const propose = mutation({
+  args: {
+    applicationId: v.id("applications"),
+    slots: v.array(proposedSlotValidator),
+    durationMinutes: v.number(),
+    format: v.union(
+      v.literal("video"),
+      v.literal("phone"),
+      v.literal("in_person"),
+    ),
+    location: v.optional(v.string()),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const employerId = await requireUserId(ctx);
+    const application = await ctx.db.get(args.applicationId);
+    if (!application) {
+      throw new ConvexError("Application not found");
+    }
+
+    const gig = await ctx.db.get(application.gigId);
+    if (!gig) {
+      throw new ConvexError("Gig not found");
+    }
+    if (gig.employerId !== employerId) {
+      throw new ConvexError("Forbidden");
+    }
+    if (application.status !== "interview_requested") {
+      throw new ConvexError(
+        "Move the application to interview requested before scheduling",
+      );
+    }
+
+    const existing = await ctx.db
+      .query("interviews")
+      .withIndex("by_application", (q) =>
+        q.eq("applicationId", application._id),
+      )
+      .order("desc")
+      .first();
+    if (existing && isActive(existing)) {
+      throw new ConvexError(
+        "An interview is already in progress; reschedule it instead",
+      );
+    }
+
+    assertDuration(args.durationMinutes);
+    const slots = parseSlots(args.slots);
+    const { employerTimezone, candidateTimezone } = await resolveTimezones(
+      ctx,
+      gig,
+      application.candidateId,
+    );
+    const conversationId = await ensureApplicationConversation(ctx, {
+      gig,
+      application,
+      trigger: "interview.proposed",
+    });
+
+    const now = Date.now();
+    const interviewId = await ctx.db.insert("interviews", {
+      applicationId: application._id,
+      gigId: gig._id,
+      employerId,
+      candidateId: application.candidateId,
+      status: "proposed",
+      format: args.format,
+      location: normalizeText(args.location, "Location", MAX_LOCATION_LENGTH),
+      notes: normalizeText(args.notes, "Notes", MAX_NOTES_LENGTH),
+      durationMinutes: args.durationMinutes,
+      slots,
+      employerTimezone,
+      candidateTimezone,
+      sequence: 0,
+      conversationId,
+      createdAt: now,
+      updatedAt: now,
+    });
+    const interview = (await ctx.db.get(interviewId))!;
+
+    await postInterviewMessage(
+      ctx,
+      interview,
+      employerId,
+      "interview.proposed",
+      `Interview proposed (${FORMAT_LABELS[interview.format]}, ${interview.durationMinutes} min). Pick one of these times:\n${describeSlots(slots, candidateTimezone)}`,
+    );
+    await createNotification(ctx, {
+      userId: interview.candidateId,
+      type: "interview_proposed",
+      title: `Interview invitation for "${gig.title}"`,
+      body: "Choose one of the proposed times from your applications.",
+      link: CANDIDATE_APPLICATIONS_LINK,
+      gigId: gig._id,
+    });
+
+    return interviewId;
+  },
+});
+
+export const confirmSlot = mutation({
+  args: {
+    interviewId: v.id("interviews"),
+    slotIndex: v.number(),
+  },
+  handler: async (ctx, { interviewId, slotIndex }) => {
+    const { interview, userId, role } = await loadInterviewForParty(
+      ctx,
+      interviewId,
+    );
+    if (role !== "candidate") {
+      throw new ConvexError("Only the candidate can pick an interview time");
+    }
+    if (interview.status !== "proposed") {
+      throw new ConvexError("This interview is not awaiting a time");
+    }
+
+    const application = await ctx.db.get(interview.applicationId);
+    if (application?.status !== "interview_requested") {
+      throw new ConvexError("This application is no longer at interview");
+    }
+
+    const slot = interview.slots[slotIndex];
+    if (!slot) {
+      throw new ConvexError("Time slot not found");
+    }
+    if (slot.startsAt <= Date.now()) {
+      throw new ConvexError("This time has already passed");
+    }
+
+    await ctx.db.patch(interview._id, {
+      status: "scheduled",
+      scheduledSlot: slot,
+      sequence: interview.sequence + 1,
+      updatedAt: Date.now(),
+    });
+
+    await postInterviewMessage(
+      ctx,
+      interview,
+      userId,
+      "interview.scheduled",
+      `Interview confirmed for ${formatInTimeZone(slot.startsAt, interview.employerTimezone)} (${formatInTimeZone(slot.startsAt, interview.candidateTimezone)} for the candidate).`,
+    );
+    await createNotification(ctx, {
+      userId: interview.employerId,
+      type: "interview_scheduled",
+      title: "Interview time confirmed",
+      body: formatInTimeZone(slot.startsAt, interview.employerTimezone),
+      link: employerApplicationLink(interview),
+      gigId: interview.gigId,
+    });
+
+    return null;
+  },
+});
+
+/**
+ * Replace the proposed slots of an active interview. A confirmed time is
+ * released and the candidate picks again from the new slots.
+ */
+export const reschedule = mutation({
+  args: {
+    interviewId: v.id("interviews"),
+    slots: v.array(proposedSlotValidator),
+    durationMinutes: v.optional(v.number()),
+    reason: v.optional(v.string()),
+  },
+  handler: async (ctx, { interviewId, slots, durationMinutes, reason }) => {
+    const { interview, userId, role } = await loadInterviewForParty(
+      ctx,
+      interviewId,
+    );
+    if (role !== "employer") {
+      throw new ConvexError("Only the employer can propose new times");
+    }
+    if (!isActive(interview)) {
+      throw new ConvexError("Cancelled interviews cannot be rescheduled");
+    }
+
+    const application = await ctx.db.get(interview.applicationId);
+    if (application?.status !== "interview_requested") {
+      throw new ConvexError("This application is no longer at interview");
+    }
+
+    if (durationMinutes !== undefined) {
+      assertDuration(durationMinutes);
+    }
+    const nextSlots = parseSlots(slots);
+    const normalizedReason = normalizeText(reason, "Reason", MAX_REASON_LENGTH);
+
+    await ctx.db.patch(interview._id, {
+      status: "proposed",
+      slots: nextSlots,
+      scheduledSlot: undefined,
+      durationMinutes: durationMinutes ?? interview.durationMinutes,
+      sequence: interview.sequence + 1,
+      updatedAt: Date.now(),
+    });
+
+    const previous = interview.scheduledSlot
+      ? ` The previously confirmed time (${formatInTimeZone(interview.scheduledSlot.startsAt, interview.candidateTimezone)}) is no longer valid.`
+      : "";
+    await postInterviewMessage(
+      ctx,
+      interview,
+      userId,
+      "interview.rescheduled",
+      `Interview rescheduled.${previous}${normalizedReason ? `\nReason: ${normalizedReason}` : ""}\nNew times:\n${describeSlots(nextSlots, interview.candidateTimezone)}`,
+    );
+    await createNotification(ctx, {
+      userId: interview.candidateId,
+      type: "interview_proposed",
+      title: "Your interview was rescheduled",
+      body: "Choose one of the new times from your applications.",
+      link: CANDIDATE_APPLICATIONS_LINK,
+      gigId: interview.gigId,
+    });
+
+    return null;
+  },
+});
+
+export const cancel = mutation({
+  args: {
+    interviewId: v.id("interviews"),
+    reason: v.optional(v.string()),
+  },
+  handler: async (ctx, { interviewId, reason }) => {
+    const { interview, userId, role } = await loadInterviewForParty(
+      ctx,
+      interviewId,
+    );
+    if (!isActive(interview)) {
+      return null;
+    }
+
+    const normalizedReason = normalizeText(reason, "Reason", MAX_REASON_LENGTH);
+
+    await ctx.db.patch(interview._id, {
+      status: "cancelled",
+      sequence: interview.sequence + 1,
+      cancelledBy: userId,
+      cancellationReason: normalizedReason,
+      updatedAt: Date.now(),
+    });
+
+    const actor = role === "employer" ? "the employer" : "the candidate";
+    await postInterviewMessage(
+      ctx,
+      interview,
+      userId,
+      "interview.cancelled",
+      `Interview cancelled by ${actor}.${normalizedReason ? `\nReason: ${normalizedReason}` : ""}`,
+    );
+    await createNotification(ctx, {
+      userId:
+        role === "employer" ? interview.candidateId : interview.employerId,
+      type: "interview_cancelled",
+      title: `Interview cancelled by ${actor}`,
+      body: normalizedReason,
+      link:
+        role === "employer"
+          ? CANDIDATE_APPLICATIONS_LINK
+          : employerApplicationLink(interview),
+      gigId: interview.gigId,
+    });
+
+    return null;
+  },
+});
+
+/**
+ * The `.ics` file for a confirmed interview, or a cancellation for one that
+ * was confirmed and then cancelled. Either party may download it.
+ */
+export const getCalendarFile = query({
+  args: { interviewId: v.id("interviews") },
+  handler: async (ctx, { interviewId }) => {
+    const { interview } = await loadInterviewForParty(ctx, interviewId);
+    if (!interview.scheduledSlot) {
+      throw new ConvexError("This interview has no confirmed time yet");
+    }
+
+    const [gig, employer, candidate] = await Promise.all([
+      ctx.db.get(interview.gigId),
+      ctx.db.get(interview.employerId),
+      ctx.db.get(interview.candidateId),
+    ]);
+    if (!employer || !candidate) {
+      throw new ConvexError("Interview participants not found");
+    }
+
+    const gigTitle = gig?.title ?? "Gig";
+    const description = [
+      `${FORMAT_LABELS[interview.format]} interview for "${gigTitle}".`,
+      interview.notes,
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+
+    const content = buildIcsCalendar({
+      uid: `interview-${interview._id}@gigsy`,
+      sequence: interview.sequence,
+      startsAt: interview.scheduledSlot.startsAt,
+      durationMinutes: interview.durationMinutes,
+      summary: `Interview: ${gigTitle}`,
+      description,
+      location: interview.location,
+      organizer: { name: employer.name, email: employer.email },
+      attendees: [{ name: candidate.name, email: candidate.email }],
+      cancelled: interview.status === "cancelled",
+    });
+
+    return { filename: `interview-${interview._id}.ics`, content };
+  },
+});
@@ -0,0 +1,319 @@
+/**
+ * LESSON ACCESS
+ *
+ * Decides whether a learner may open a lesson. Course authors, admins and
+ * free preview lessons are always open; every other lesson passes three
+ * gates, in order:
+ *
+ * - prerequisites: `courses.prerequisites` entries that hold a course ID
+ *   must be completed first (free-text entries are informational only)
+ * - schedule: `lessons.unlockAfterDays` opens the lesson that many days
+ *   after the enrollment's `enrolledAt`, so it needs an active or
+ *   completed enrollment
+ * - sequence: a lesson flagged `isLocked`, or any lesson in a module
+ *   flagged `isLocked`, opens once the previous lesson is completed
+ */
+
+import { ConvexError, v } from "convex/values";
+import { query } from "./_generated/server";
+import type { QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { getUserId } from "./users";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type LessonLockReason =
+  | "enrollment"
+  | "prerequisite"
+  | "schedule"
+  | "sequence";
+
+export interface LessonAccess {
+  isLocked: boolean;
+  reason: LessonLockReason | null;
+  message: string | null;
+  unlocksAt: number | null;
+}
+
+export const lessonAccessValidator = v.object({
+  isLocked: v.boolean(),
+  reason: v.union(
+    v.literal("enrollment"),
+    v.literal("prerequisite"),
+    v.literal("schedule"),
+    v.literal("sequence"),
+    v.null(),
+  ),
+  message: v.union(v.string(), v.null()),
+  unlocksAt: v.union(v.number(), v.null()),
+});
+
+const UNLOCKED: LessonAccess = {
+  isLocked: false,
+  reason: null,
+  message: null,
+  unlocksAt: null,
+};
+
+interface CourseAccessState {
+  canBypass: boolean;
+  enrollment: Doc<"enrollments"> | null;
+  missingPrerequisites: string[];
+  lessons: Array<Doc<"lessons">>;
+  lockedModuleIds: Set<Id<"modules">>;
+  completedLessonIds: Set<Id<"lessons">>;
+}
+
+/** Active lessons in learning order: module order, then lesson order. */
+async function listOrderedLessons(ctx: QueryCtx, courseId: Id<"courses">) {
+  const modules = await ctx.db
+    .query("modules")
+    .withIndex("by_course_order", (q) => q.eq("courseId", courseId))
+    .collect();
+  const activeModules = modules.filter((module) => !module.deletedAt);
+  const moduleRank = new Map(
+    activeModules.map((module, index) => [module._id, index]),
+  );
+
+  const lessons = await ctx.db
+    .query("lessons")
+    .withIndex("by_course", (q) => q.eq("courseId", courseId))
+    .collect();
+
+  const orderedLessons = lessons
+    .filter((lesson) => !lesson.deletedAt && moduleRank.has(lesson.moduleId))
+    .sort(
+      (a, b) =>
+        (moduleRank.get(a.moduleId) ?? 0) - (moduleRank.get(b.moduleId) ?? 0) ||
+        a.order - b.order,
+    );
+
+  return {
+    lessons: orderedLessons,
+    lockedModuleIds: new Set(
+      activeModules
+        .filter((module) => module.isLocked)
+        .map((module) => module._id),
+    ),
+  };
+}
+
+/**
+ * Titles of prerequisite courses the user has not completed yet. Signed-out
+ * visitors have completed none.
+ */
+async function listMissingPrerequisites(
+  ctx: QueryCtx,
+  course: Doc<"courses">,
+  userId: Id<"users"> | null,
+): Promise<string[]> {
+  const missing: string[] = [];
+
+  for (const prerequisite of course.prerequisites ?? []) {
+    const prerequisiteId = ctx.db.normalizeId("courses", prerequisite.trim());
+    if (!prerequisiteId || prerequisiteId === course._id) {
+      continue;
+    }
+
+    const prerequisiteCourse = await ctx.db.get(prerequisiteId);
+    if (!prerequisiteCourse || prerequisiteCourse.deletedAt) {
+      continue;
+    }
+
+    const enrollment = userId
+      ? await ctx.db
+          .query("enrollments")
+          .withIndex("by_user_course", (q) =>
+            q.eq("userId", userId).eq("courseId", prerequisiteId),
+          )
+          .unique()
+      : null;
+    if (enrollment?.status !== "completed") {
+      missing.push(prerequisiteCourse.title);
+    }
+  }
+
+  return missing;
+}
+
+async function loadCourseAccessState(
+  ctx: QueryCtx,
+  course: Doc<"courses">,
+  userId: Id<"users"> | null,
+): Promise<CourseAccessState> {
+  const { lessons, lockedModuleIds } = await listOrderedLessons(
+    ctx,
+    course._id,
+  );
+  const state: CourseAccessState = {
+    canBypass: false,
+    enrollment: null,
+    missingPrerequisites: [],
+    lessons,
+    lockedModuleIds,
+    completedLessonIds: new Set(),
+  };
+
+  if (!userId) {
+    state.missingPrerequisites = await listMissingPrerequisites(
+      ctx,
+      course,
+      null,
+    );
+    return state;
+  }
+
+  const user = await ctx.db.get(userId);
+  state.canBypass =
+    course.authorId === userId || !!user?.roles.includes("admin");
+  if (state.canBypass) {
+    return state;
+  }
+
+  const [missingPrerequisites, enrollment, progress] = await Promise.all([
+    listMissingPrerequisites(ctx, course, userId),
+    ctx.db
+      .query("enrollments")
+      .withIndex("by_user_course", (q) =>
+        q.eq("userId", userId).eq("courseId", course._id),
+      )
+      .unique(),
+    ctx.db
+      .query("lessonProgress")
+      .withIndex("by_user_course", (q) =>
+        q.eq("userId", userId).eq("courseId", course._id),
+      )
+      .collect(),
+  ]);
+  state.missingPrerequisites = missingPrerequisites;
+  if (enrollment?.status === "active" || enrollment?.status === "completed") {
+    state.enrollment = enrollment;
+  }
+  state.completedLessonIds = new Set(
+    progress.filter((row) => row.isCompleted).map((row) => row.lessonId),
+  );
+
+  return state;
+}
+
+function evaluateLessonAccess(
+  state: CourseAccessState,
+  lesson: Doc<"lessons">,
+  now: number,
+): LessonAccess {
+  if (state.canBypass || lesson.isFree) {
+    return UNLOCKED;
+  }
+
+  if (state.missingPrerequisites.length > 0) {
+    return {
+      isLocked: true,
+      reason: "prerequisite",
+      message: `Complete ${state.missingPrerequisites.join(", ")} first`,
+      unlocksAt: null,
+    };
+  }
+
+  if (lesson.unlockAfterDays && lesson.unlockAfterDays > 0) {
+    const enrollment = state.enrollment;
+    if (!enrollment) {
+      return {
+        isLocked: true,
+        reason: "enrollment",
+        message: "Enroll in this course to unlock this lesson",
+        unlocksAt: null,
+      };
+    }
+
+    const unlocksAt = enrollment.enrolledAt + lesson.unlockAfterDays * DAY_MS;
+    if (now < unlocksAt) {
+      return {
+        isLocked: true,
+        reason: "schedule",
+        message: `Available on ${new Date(unlocksAt).toLocaleDateString(
+          "en-US",
+          { year: "numeric", month: "long", day: "numeric" },
+        )}`,
+        unlocksAt,
+      };
+    }
+  }
+
+  if (lesson.isLocked || state.lockedModuleIds.has(lesson.moduleId)) {
+    const index = state.lessons.findIndex(
+      (candidate) => candidate._id === lesson._id,
+    );
+    const previous = index > 0 ? state.lessons[index - 1] : undefined;
+    if (previous && !state.completedLessonIds.has(previous._id)) {
+      return {
+        isLocked: true,
+        reason: "sequence",
+        message: `Complete "${previous.title}" to unlock this lesson`,
+        unlocksAt: null,
+      };
+    }
+  }
+
+  return UNLOCKED;
+}
+
+/** Access for a single lesson. Missing courses leave the lesson locked. */
+export async function getLessonAccess(
+  ctx: QueryCtx,
+  lesson: Doc<"lessons">,
+  userId: Id<"users"> | null,
+): Promise<LessonAccess> {
+  const course = await ctx.db.get(lesson.courseId);
+  if (!course) {
+    return {
+      isLocked: true,
+      reason: "enrollment",
+      message: "This lesson is not available",
+      unlocksAt: null,
+    };
+  }
+
+  const state = await loadCourseAccessState(ctx, course, userId);
+  return evaluateLessonAccess(state, lesson, Date.now());
+}
+
+/** Throw the lock message when the user may not open the lesson. */
+export async function assertLessonUnlocked(
+  ctx: QueryCtx,
+  lesson: Doc<"lessons">,
+  userId: Id<"users"> | null,
+): Promise<void> {
+  const access = await getLessonAccess(ctx, lesson, userId);
+  if (access.isLocked) {
+    throw new ConvexError(access.message ?? "This lesson is locked");
+  }
+}
+
+/**
+ * Lock state of every lesson in a course for the signed-in user, for
+ * course navigation such as the lesson sidebar.
+ */
+export const getCourseLessonAccess = query({
+  args: { courseId: v.id("courses") },
+  returns: v.array(
+    v.object({
+      lessonId: v.id("lessons"),
+      ...lessonAccessValidator.fields,
+    }),
+  ),
+  handler: async (ctx, { courseId }) => {
+    const course = await ctx.db.get(courseId);
+    if (!course) {
+      return [];
+    }
+
+    const userId = await getUserId(ctx);
+    const state = await loadCourseAccessState(ctx, course, userId);
+    const now = Date.now();
+
+    return state.lessons.map((lesson) => ({
+      lessonId: lesson._id,
+      ...evaluateLessonAccess(state, lesson, now),
+    }));
+  },
+});
@@ -0,0 +1,393 @@
+/**
+ * LESSON COMMENTS
+ *
+ * Threaded discussion under each lesson. Root comments are paginated newest
+ * first with their replies (one level deep) attached oldest first. Authors
+ * can edit and delete their own comments; the course author, moderators and
+ * admins can additionally hide comments from other learners.
+ */
+
+import { ConvexError, v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { mutation, query } from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { getAuthenticatedUser } from "./users";
+
+const MAX_COMMENT_LENGTH = 2000;
+const MAX_HIDDEN_REASON_LENGTH = 500;
+
+interface CommentViewer {
+  user: Doc<"users"> | null;
+  canModerate: boolean;
+}
+
+async function loadViewer(
+  ctx: QueryCtx,
+  course: Doc<"courses">,
+): Promise<CommentViewer> {
+  const user = await getAuthenticatedUser(ctx);
+
+  return {
+    user,
+    canModerate:
+      !!user &&
+      (user.roles.includes("admin") ||
+        user.roles.includes("moderator") ||
+        course.authorId === user._id),
+  };
+}
+
+async function requireViewer(
+  ctx: MutationCtx,
+  course: Doc<"courses">,
+): Promise<CommentViewer & { user: Doc<"users"> }> {
+  const viewer = await loadViewer(ctx, course);
+  if (!viewer.user) {
+    throw new ConvexError("Authentication required");
+  }
+
+  return { ...viewer, user: viewer.user };
+}
+
+async function loadLessonCourse(
+  ctx: QueryCtx,
+  lessonId: Id<"lessons">,
+): Promise<{ lesson: Doc<"lessons">; course: Doc<"courses"> }> {
+  const lesson = await ctx.db.get(lessonId);
+  if (!lesson || lesson.deletedAt) {
+    throw new ConvexError("Lesson not found");
+  }
+
+  const course = await ctx.db.get(lesson.courseId);
+  if (!course || course.deletedAt) {
+    throw new ConvexError("Course not found");
+  }
+
+  return { lesson, course };
+}
+
+async function loadComment(
+  ctx: QueryCtx,
+  commentId: Id<"lessonComments">,
+): Promise<{ comment: Doc<"lessonComments">; course: Doc<"courses"> }> {
+  const comment = await ctx.db.get(commentId);
+  if (!comment || comment.deletedAt) {
+    throw new ConvexError("Comment not found");
+  }
+
+  const course = await ctx.db.get(comment.courseId);
+  if (!course) {
+    throw new ConvexError("Course not found");
+  }
+
+  return { comment, course };
+}
+
+function normalizeBody(body: string): string {
+  const trimmed = body.trim();
+  if (!trimmed) {
+    throw new ConvexError("Comment cannot be empty");
+  }
+
+  if (trimmed.length > MAX_COMMENT_LENGTH) {
+    throw new ConvexError(
+      `Comments must be ${MAX_COMMENT_LENGTH} characters or fewer`,
+    );
+  }
+
+  return trimmed;
+}
+
+function isVisibleTo(
+  comment: Doc<"lessonComments">,
+  viewer: CommentViewer,
+): boolean {
+  return !comment.hiddenAt || viewer.canModerate;
+}
+
+async function toCommentView(
+  ctx: QueryCtx,
+  comment: Doc<"lessonComments">,
+  course: Doc<"courses">,
+  viewer: CommentViewer,
+) {
+  const isDeleted = comment.deletedAt !== undefined;
+  const viewerId = viewer.user?._id;
+  const [author, viewerLike] = await Promise.all([
+    isDeleted ? null : ctx.db.get(comment.authorId),
+    viewerId
+      ? ctx.db
+          .query("lessonCommentLikes")
+          .withIndex("by_comment_user", (q) =>
+            q.eq("commentId", comment._id).eq("userId", viewerId),
+          )
+          .unique()
+      : null,
+  ]);
+  const isOwn = viewerId === comment.authorId;
+
+  return {
+    _id: comment._id,
+    parentId: comment.parentId ?? null,
+    body: isDeleted ? "" : comment.body,
+    author: author
+      ? {
+          _id: author._id,
+          name: author.name,
+          avatarUrl: author.avatarUrl ?? undefined,
+        }
+      : null,
+    isInstructor: comment.authorId === course.authorId,
+    likeCount: comment.likeCount,
+    likedByViewer: viewerLike !== null,
+    isHidden: comment.hiddenAt !== undefined,
+    isDeleted,
+    canEdit: isOwn && !isDeleted,
+    canDelete: (isOwn || viewer.canModerate) && !isDeleted,
+    canModerate: viewer.canModerate && !isDeleted,
+    createdAt: comment.createdAt,
+    editedAt: comment.editedAt ?? null,
+  };
+}
+
+export type LessonCommentView = Awaited<ReturnType<typeof toCommentView>>;
+
+/**
+ * Page through a lesson's root comments (newest first), each with its visible
+ * replies. Deleted roots are kept as placeholders while they still have
+ * replies; hidden comments are only returned to moderators.
+ */
+export const listForLesson = query({
+  args: {
+    lessonId: v.id("lessons"),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, { lessonId, paginationOpts }) => {
+    const { course } = await loadLessonCourse(ctx, lessonId);
+    const viewer = await loadViewer(ctx, course);
+
+    const result = await ctx.db
+      .query("lessonComments")
+      .withIndex("by_lesson_parent", (q) =>
+        q.eq("lessonId", lessonId).eq("parentId", undefined),
+      )
+      .filter((q) =>
+        q.or(
+          q.eq(q.field("deletedAt"), undefined),
+          q.gt(q.field("replyCount"), 0),
+        ),
+      )
+      .order("desc")
+      .paginate(paginationOpts);
+
+    const page = await Promise.all(
+      result.page
+        .filter((comment) => isVisibleTo(comment, viewer))
+        .map(async (comment) => {
+          const replies = await ctx.db
+            .query("lessonComments")
+            .withIndex("by_parent", (q) => q.eq("parentId", comment._id))
+            .collect();
+
+          return {
+            ...(await toCommentView(ctx, comment, course, viewer)),
+            replies: await Promise.all(
+              replies
+                .filter(
+                  (reply) => !reply.deletedAt && isVisibleTo(reply, viewer),
+                )
+                .map((reply) => toCommentView(ctx, reply, course, viewer)),
+            ),
+          };
+        }),
+    );
+
+    return { ...result, page };
+  },
+});
+
+/**
+ * Post a comment on a lesson, or reply to one. Replies to a reply are
+ * attached to the same root so threads stay one level deep.
+ */
+export const create = mutation({
+  args: {
+    lessonId: v.id("lessons"),
+    body: v.string(),
+    parentId: v.optional(v.id("lessonComments")),
+  },
+  handler: async (ctx, { lessonId, body, parentId }) => {
+    const { lesson, course } = await loadLessonCourse(ctx, lessonId);
+    const { user } = await requireViewer(ctx, course);
+    const normalizedBody = normalizeBody(body);
+
+    let rootId: Id<"lessonComments"> | undefined;
+    if (parentId) {
+      const { comment: parent } = await loadComment(ctx, parentId);
+      if (parent.lessonId !== lessonId) {
+        throw new ConvexError("Parent comment belongs to another lesson");
+      }
+
+      if (parent.hiddenAt) {
+        throw new ConvexError("You cannot reply to a hidden comment");
+      }
+
+      rootId = parent.parentId ?? parent._id;
+    }
+
+    const now = Date.now();
+    const commentId = await ctx.db.insert("lessonComments", {
+      lessonId,
+      courseId: lesson.courseId,
+      authorId: user._id,
+      parentId: rootId,
+      body: normalizedBody,
+      likeCount: 0,
+      replyCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    if (rootId) {
+      const root = await ctx.db.get(rootId);
+      if (root) {
+        await ctx.db.patch(rootId, {
+          replyCount: root.replyCount + 1,
+          updatedAt: now,
+        });
+      }
+    }
+
+    return commentId;
+  },
+});
+
+export const edit = mutation({
+  args: {
+    commentId: v.id("lessonComments"),
+    body: v.string(),
+  },
+  handler: async (ctx, { commentId, body }) => {
+    const { comment, course } = await loadComment(ctx, commentId);
+    const { user } = await requireViewer(ctx, course);
+
+    if (comment.authorId !== user._id) {
+      throw new ConvexError("You can only edit your own comments");
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(commentId, {
+      body: normalizeBody(body),
+      editedAt: now,
+      updatedAt: now,
+    });
+
+    return commentId;
+  },
+});
+
+/**
+ * Soft-delete a comment. Authors can delete their own comments and
+ * moderators can delete any comment on the course.
+ */
+export const remove = mutation({
+  args: {
+    commentId: v.id("lessonComments"),
+  },
+  handler: async (ctx, { commentId }) => {
+    const { comment, course } = await loadComment(ctx, commentId);
+    const { user, canModerate } = await requireViewer(ctx, course);
+
+    if (comment.authorId !== user._id && !canModerate) {
+      throw new ConvexError("You can only delete your own comments");
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(commentId, { deletedAt: now, updatedAt: now });
+
+    if (comment.parentId) {
+      const root = await ctx.db.get(comment.parentId);
+      if (root) {
+        await ctx.db.patch(root._id, {
+          replyCount: Math.max(root.replyCount - 1, 0),
+          updatedAt: now,
+        });
+      }
+    }
+
+    return commentId;
+  },
+});
+
+/**
+ * Like a comment, or remove the viewer's like if they already liked it.
+ */
+export const toggleLike = mutation({
+  args: {
+    commentId: v.id("lessonComments"),
+  },
+  handler: async (ctx, { commentId }) => {
+    const { comment, course } = await loadComment(ctx, commentId);
+    const { user } = await requireViewer(ctx, course);
+
+    const existing = await ctx.db
+      .query("lessonCommentLikes")
+      .withIndex("by_comment_user", (q) =>
+        q.eq("commentId", commentId).eq("userId", user._id),
+      )
+      .unique();
+
+    if (existing) {
+      await ctx.db.delete(existing._id);
+      await ctx.db.patch(commentId, {
+        likeCount: Math.max(comment.likeCount - 1, 0),
+      });
+      return { liked: false };
+    }
+
+    await ctx.db.insert("lessonCommentLikes", {
+      commentId,
+      userId: user._id,
+      createdAt: Date.now(),
+    });
+    await ctx.db.patch(commentId, { likeCount: comment.likeCount + 1 });
+    return { liked: true };
+  },
+});
+
+/**
+ * Hide or restore a comment. Restricted to the course author, moderators and admins.
+ */
+export const setHidden = mutation({
+  args: {
+    commentId: v.id("lessonComments"),
+    hidden: v.boolean(),
+    reason: v.optional(v.string()),
+  },
+  handler: async (ctx, { commentId, hidden, reason }) => {
+    const { course } = await loadComment(ctx, commentId);
+    const { user, canModerate } = await requireViewer(ctx, course);
+
+    if (!canModerate) {
+      throw new ConvexError("Only course moderators can hide comments");
+    }
+
+    const trimmedReason = reason?.trim();
+    if (trimmedReason && trimmedReason.length > MAX_HIDDEN_REASON_LENGTH) {
+      throw new ConvexError(
+        `Reason must be ${MAX_HIDDEN_REASON_LENGTH} characters or fewer`,
+      );
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(commentId, {
+      hiddenAt: hidden ? now : undefined,
+      hiddenBy: hidden ? user._id : undefined,
+      hiddenReason: hidden && trimmedReason ? trimmedReason : undefined,
+      updatedAt: now,
+    });
+
+    return commentId;
+  },
+});
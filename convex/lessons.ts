@@ -13,9 +13,16 @@
 
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
-import type { MutationCtx } from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
 import { getUserId } from "./users";
-import type { Id } from "./_generated/dataModel";
+import { dispatchGamificationEvent } from "./gamification";
+import { issueCertificate } from "./certificates";
+import {
+  assertLessonUnlocked,
+  getLessonAccess,
+  lessonAccessValidator,
+} from "./lessonAccess";
+import type { Doc, Id } from "./_generated/dataModel";
 
 // Enhanced debugging logger for Convex functions
 const createConvexLogger = (functionName: string) => ({
@@ -75,6 +82,15 @@ export const updateProgress = mutation({
       throw new Error("Invalid duration values");
     }
 
+    const lesson = await ctx.db.get(args.lessonId);
+    if (!lesson || lesson.deletedAt) {
+      throw new Error("Lesson not found");
+    }
+    await assertLessonUnlocked(ctx, lesson, userId);
+
+    const reachedEnd =
+      args.percentage >= 95 && (await canCompleteLesson(ctx, userId, lesson));
+
     // Check if progress already exists
     const existingProgress = await ctx.db
       .query("lessonProgress")
@@ -107,14 +123,21 @@ export const updateProgress = mutation({
         playbackSpeed: args.playbackSpeed ?? existingProgress.playbackSpeed,
         lastWatchedAt: now,
         sessionStartedAt: now,
-        isCompleted: args.percentage >= 95,
-        completedAt: args.percentage >= 95 ? now : existingProgress.completedAt,
+        isCompleted: reachedEnd,
+        completedAt: reachedEnd ? now : existingProgress.completedAt,
         updatedAt: now,
       });
+
+      if (reachedEnd && !existingProgress.isCompleted) {
+        await recordLessonCompletion(ctx, userId, {
+          lessonId: lesson._id,
+          courseId: lesson.courseId,
+        });
+      }
       return existingProgress._id;
     } else {
       // Create new progress record with all required fields
-      return await ctx.db.insert("lessonProgress", {
+      const progressId = await ctx.db.insert("lessonProgress", {
         userId,
         lessonId: args.lessonId,
         courseId: args.courseId,
@@ -122,7 +145,7 @@ export const updateProgress = mutation({
         watchedDuration: args.watchedDuration,
         totalDuration: args.totalDuration,
         percentage: args.percentage,
-        isCompleted: args.percentage >= 95,
+        isCompleted: reachedEnd,
         maxWatchedPosition: currentPosition,
         watchCount: 1,
         sessionDuration: 0,
@@ -131,15 +154,224 @@ export const updateProgress = mutation({
         playbackSpeed: args.playbackSpeed ?? 1.0,
         firstWatchedAt: now,
         lastWatchedAt: now,
-        completedAt: args.percentage >= 95 ? now : undefined,
+        completedAt: reachedEnd ? now : undefined,
         sessionStartedAt: now,
         updatedAt: now,
         createdBy: userId.toString(), // Convert Id<"users"> to string
       });
+
+      if (reachedEnd) {
+        await recordLessonCompletion(ctx, userId, {
+          lessonId: lesson._id,
+          courseId: lesson.courseId,
+        });
+      }
+      return progressId;
     }
   },
 });
 
+/**
+ * Whether progress may mark the lesson complete. Quiz lessons only complete
+ * once the user has a passing graded submission from quizzes.submitAttempt;
+ * watching or a manual "mark complete" is not enough.
+ */
+export async function canCompleteLesson(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  lesson: Doc<"lessons">,
+): Promise<boolean> {
+  if (lesson.contentType !== "quiz") {
+    return true;
+  }
+
+  const passingSubmission = await ctx.db
+    .query("quizSubmissions")
+    .withIndex("by_student_lesson", (q) =>
+      q.eq("studentId", userId).eq("lessonId", lesson._id),
+    )
+    .filter((q) => q.eq(q.field("passed"), true))
+    .first();
+
+  return passingSubmission !== null;
+}
+
+/**
+ * Side effects of a lesson becoming complete: the profile completion count,
+ * the `lesson.completed` gamification event and the enrollment progress.
+ * Every path that flips `lessonProgress.isCompleted` to true calls this once,
+ * on that transition.
+ */
+export async function recordLessonCompletion(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  args: { lessonId: Id<"lessons">; courseId: Id<"courses"> },
+) {
+  await updateCompletionAnalytics(ctx, userId, args.courseId);
+  await dispatchGamificationEvent(ctx, {
+    eventName: "lesson.completed",
+    userId,
+    relatedEntityId: args.lessonId,
+  });
+  await syncEnrollmentCompletion(ctx, userId, args.courseId);
+}
+
+/**
+ * Certificates require a passing submission for every quiz lesson, even when
+ * the lesson's progress row was completed some other way.
+ */
+async function hasPassedEveryQuiz(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  lessons: Array<Doc<"lessons">>,
+): Promise<boolean> {
+  for (const lesson of lessons) {
+    if (!(await canCompleteLesson(ctx, userId, lesson))) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Recompute enrollment progress from completed lessons and mark the
+ * enrollment completed (issuing its certificate and firing `course.completed`)
+ * once every lesson is done and every quiz lesson has been passed.
+ */
+async function syncEnrollmentCompletion(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  courseId: Id<"courses">,
+) {
+  const enrollment = await ctx.db
+    .query("enrollments")
+    .withIndex("by_user_course", (q) =>
+      q.eq("userId", userId).eq("courseId", courseId),
+    )
+    .unique();
+
+  if (!enrollment || enrollment.status === "completed") {
+    return;
+  }
+
+  const lessons = await ctx.db
+    .query("lessons")
+    .withIndex("by_course", (q) => q.eq("courseId", courseId))
+    .collect();
+  const activeLessons = lessons.filter((lesson) => !lesson.deletedAt);
+  const activeLessonIds = new Set(activeLessons.map((lesson) => lesson._id));
+
+  if (activeLessonIds.size === 0) {
+    return;
+  }
+
+  const completedProgress = await ctx.db
+    .query("lessonProgress")
+    .withIndex("by_user_course", (q) =>
+      q.eq("userId", userId).eq("courseId", courseId),
+    )
+    .collect();
+  const completedCount = completedProgress.filter(
+    (progress) =>
+      progress.isCompleted && activeLessonIds.has(progress.lessonId),
+  ).length;
+
+  const now = Date.now();
+  const isCourseComplete =
+    completedCount >= activeLessonIds.size &&
+    (await hasPassedEveryQuiz(ctx, userId, activeLessons));
+
+  await ctx.db.patch(enrollment._id, {
+    progress: Math.round((completedCount / activeLessonIds.size) * 100),
+    lastAccessedAt: now,
+    updatedAt: now,
+    ...(isCourseComplete ? { status: "completed", completedAt: now } : {}),
+  });
+
+  if (isCourseComplete) {
+    await issueCertificate(ctx, {
+      ...enrollment,
+      status: "completed",
+      completedAt: now,
+    });
+    await dispatchGamificationEvent(ctx, {
+      eventName: "course.completed",
+      userId,
+      relatedEntityId: courseId,
+    });
+  }
+}
+
+/**
+ * Mark a lesson complete for a user, creating the progress record when
+ * missing. Shared by markComplete and auto-completion flows such as quizzes.
+ */
+export async function markLessonComplete(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  args: {
+    lessonId: Id<"lessons">;
+    courseId: Id<"courses">;
+    moduleId: Id<"modules">;
+  },
+): Promise<Id<"lessonProgress">> {
+  // Get or create progress record
+  const existingProgress = await ctx.db
+    .query("lessonProgress")
+    .withIndex("by_user_lesson", (q) =>
+      q.eq("userId", userId).eq("lessonId", args.lessonId),
+    )
+    .unique();
+
+  const now = Date.now();
+
+  if (existingProgress) {
+    // Update existing progress to completed
+    await ctx.db.patch(existingProgress._id, {
+      percentage: 100,
+      isCompleted: true,
+      completedAt: now,
+      lastWatchedAt: now,
+      updatedAt: now,
+    });
+
+    if (!existingProgress.isCompleted) {
+      await recordLessonCompletion(ctx, userId, args);
+    }
+
+    return existingProgress._id;
+  }
+
+  // Create new progress record with completion
+  const progressId = await ctx.db.insert("lessonProgress", {
+    userId,
+    lessonId: args.lessonId,
+    courseId: args.courseId,
+    moduleId: args.moduleId,
+    watchedDuration: 0,
+    totalDuration: 0,
+    percentage: 100,
+    isCompleted: true,
+    maxWatchedPosition: 0,
+    watchCount: 1,
+    sessionDuration: 0,
+    seekEvents: 0,
+    pauseCount: 0,
+    playbackSpeed: 1.0,
+    firstWatchedAt: now,
+    lastWatchedAt: now,
+    completedAt: now,
+    sessionStartedAt: now,
+    updatedAt: now,
+    createdBy: userId.toString(), // Convert Id<"users"> to string
+  });
+
+  await recordLessonCompletion(ctx, userId, args);
+
+  return progressId;
+}
+
 /**
  * Mark lesson as complete
  * Sets completion status and triggers completion analytics
@@ -156,60 +388,16 @@ export const markComplete = mutation({
       throw new Error("Authentication required");
     }
 
-    // Get or create progress record
-    const existingProgress = await ctx.db
-      .query("lessonProgress")
-      .withIndex("by_user_lesson", (q) =>
-        q.eq("userId", userId).eq("lessonId", args.lessonId),
-      )
-      .unique();
-
-    const now = Date.now();
-
-    if (existingProgress) {
-      // Update existing progress to completed
-      await ctx.db.patch(existingProgress._id, {
-        percentage: 100,
-        isCompleted: true,
-        completedAt: now,
-        lastWatchedAt: now,
-        updatedAt: now,
-      });
-
-      // Update analytics
-      await updateCompletionAnalytics(ctx, userId, args.courseId);
-
-      return existingProgress._id;
-    } else {
-      // Create new progress record with completion
-      const progressId = await ctx.db.insert("lessonProgress", {
-        userId,
-        lessonId: args.lessonId,
-        courseId: args.courseId,
-        moduleId: args.moduleId,
-        watchedDuration: 0,
-        totalDuration: 0,
-        percentage: 100,
-        isCompleted: true,
-        maxWatchedPosition: 0,
-        watchCount: 1,
-        sessionDuration: 0,
-        seekEvents: 0,
-        pauseCount: 0,
-        playbackSpeed: 1.0,
-        firstWatchedAt: now,
-        lastWatchedAt: now,
-        completedAt: now,
-        sessionStartedAt: now,
-        updatedAt: now,
-        createdBy: userId.toString(), // Convert Id<"users"> to string
-      });
-
-      // Update analytics
-      await updateCompletionAnalytics(ctx, userId, args.courseId);
-
-      return progressId;
+    const lesson = await ctx.db.get(args.lessonId);
+    if (!lesson || lesson.deletedAt) {
+      throw new Error("Lesson not found");
+    }
+    await assertLessonUnlocked(ctx, lesson, userId);
+    if (!(await canCompleteLesson(ctx, userId, lesson))) {
+      throw new Error("Pass the quiz to complete this lesson");
     }
+
+    return await markLessonComplete(ctx, userId, args);
   },
 });
 
@@ -347,19 +535,28 @@ export const getModuleProgress = query({
       };
     }
 
-    // Get all lessons in the module
-    const lessons = await ctx.db
-      .query("lessons")
-      .withIndex("by_module", (q) => q.eq("moduleId", args.moduleId))
-      .collect();
-
-    // Get progress for each lesson
-    const progressRecords = await ctx.db
-      .query("lessonProgress")
-      .withIndex("by_user_module", (q) =>
-        q.eq("userId", userId).eq("moduleId", args.moduleId),
+    // Get all active lessons in the module
+    const lessons = (
+      await ctx.db
+        .query("lessons")
+        .withIndex("by_module", (q) => q.eq("moduleId", args.moduleId))
+        .collect()
+    ).filter((lesson) => !lesson.deletedAt);
+
+    // Get progress for each lesson. Looked up per lesson rather than by the
+    // progress row's moduleId, which still names the old module after a move.
+    const progressRecords = (
+      await Promise.all(
+        lessons.map((lesson) =>
+          ctx.db
+            .query("lessonProgress")
+            .withIndex("by_user_lesson", (q) =>
+              q.eq("userId", userId).eq("lessonId", lesson._id),
+            )
+            .unique(),
+        ),
       )
-      .collect();
+    ).filter((progress) => progress !== null);
 
     const completedLessons = progressRecords.filter(
       (p) => p.isCompleted,
@@ -435,7 +632,7 @@ export const getLearningAnalytics = query({
           .collect();
 
         courseProgress.set(courseId, {
-          total: courseLessons.length,
+          total: courseLessons.filter((lesson) => !lesson.deletedAt).length,
           completed: 0,
         });
       }
@@ -527,6 +724,8 @@ export const getLearningAnalytics = query({
 
 /**
  * Get a single lesson by its ID, including its content and associated quiz questions.
+ * Locked lessons come back without content, resources or quiz, alongside the
+ * lock reason from lessonAccess.
  *
  * PERFORMANCE: This query is optimized to fetch a lesson and its related quiz data efficiently.
  *
@@ -539,6 +738,7 @@ export const getLessonById = query({
   returns: v.union(
     v.object({
       lesson: v.any(), // Using v.any() for the lesson doc for now
+      access: lessonAccessValidator,
       quiz: v.optional(
         v.array(
           v.object({
@@ -559,10 +759,19 @@ export const getLessonById = query({
   handler: async (ctx, args) => {
     const lesson = await ctx.db.get(args.lessonId);
 
-    if (!lesson) {
+    if (!lesson || lesson.deletedAt) {
       return null;
     }
 
+    const access = await getLessonAccess(ctx, lesson, await getUserId(ctx));
+    if (access.isLocked) {
+      return {
+        lesson: { ...lesson, content: "", resources: undefined },
+        access,
+        quiz: [],
+      };
+    }
+
     // Fetch associated quizzes and their options
     const quizzes = await ctx.db
       .query("quizzes")
@@ -585,6 +794,7 @@ export const getLessonById = query({
 
     return {
       lesson,
+      access,
       quiz: quizWithWithOptions,
     };
   },
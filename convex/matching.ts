@@ -0,0 +1,384 @@
+/**
+ * PROFILE & GIG MATCHING
+ *
+ * Local, deterministic text embeddings for candidate profiles and gigs, and
+ * the vector-search actions that match them in both directions: recommended
+ * gigs for a candidate and suggested talent for an employer's gig.
+ *
+ * Embeddings come from a hashed, field-weighted term-frequency vectorizer, so
+ * no external model or API key is needed and the same text always produces
+ * the same vector. Vector search is only available to actions, so the public
+ * entry points are actions backed by internal queries in
+ * `internal/matchingQueries.ts`.
+ */
+
+import type { PaginationOptions } from "convex/server";
+import { action, internalMutation } from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import { ConvexError, v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+
+// --- Configuration ---
+export const EMBEDDING_DIMENSIONS = 256;
+const DEFAULT_MATCH_LIMIT = 10;
+const MAX_MATCH_LIMIT = 50;
+// Over-fetch so results excluded after the search (own gigs, prior
+// applications, private profiles) don't leave the list short.
+const SEARCH_OVERFETCH_FACTOR = 3;
+const BACKFILL_BATCH_SIZE = 100;
+
+const FIELD_WEIGHTS = {
+  skills: 3,
+  title: 2,
+  headline: 2,
+  role: 2,
+  body: 1,
+} as const;
+
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "by",
+  "for",
+  "from",
+  "has",
+  "have",
+  "i",
+  "in",
+  "is",
+  "it",
+  "its",
+  "me",
+  "my",
+  "of",
+  "on",
+  "or",
+  "our",
+  "that",
+  "the",
+  "their",
+  "this",
+  "to",
+  "we",
+  "will",
+  "with",
+  "you",
+  "your",
+]);
+
+// --- Vectorizer ---
+
+interface WeightedText {
+  text: string | undefined;
+  weight: number;
+}
+
+function tokenize(text: string): string[] {
+  const matches = text.toLowerCase().match(/[a-z0-9][a-z0-9+#.]*/g) ?? [];
+
+  return matches
+    .map((token) => token.replace(/\.+$/, ""))
+    .filter((token) => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+/**
+ * 32-bit FNV-1a hash. Stable across runtimes, which keeps stored vectors
+ * comparable with freshly computed ones.
+ */
+function hashFeature(feature: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < feature.length; index += 1) {
+    hash ^= feature.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Embed weighted text fields into a unit-length vector. Features are hashed
+ * into `EMBEDDING_DIMENSIONS` buckets with a sign bit to offset collisions,
+ * and term counts are dampened logarithmically so repetition cannot dominate.
+ * Returns undefined when the fields contain no usable terms.
+ */
+export function embedText(fields: WeightedText[]): number[] | undefined {
+  const weights = new Map<string, number>();
+
+  for (const { text, weight } of fields) {
+    if (!text) continue;
+    for (const token of tokenize(text)) {
+      weights.set(token, (weights.get(token) ?? 0) + weight);
+    }
+  }
+
+  if (weights.size === 0) {
+    return undefined;
+  }
+
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  for (const [feature, weight] of weights) {
+    const hash = hashFeature(feature);
+    const sign = hash & 0x80000000 ? -1 : 1;
+    const index = hash % EMBEDDING_DIMENSIONS;
+    vector[index] = (vector[index] ?? 0) + sign * (1 + Math.log(weight));
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value ** 2, 0));
+  if (norm === 0) {
+    return undefined;
+  }
+
+  return vector.map((value) => value / norm);
+}
+
+function skillsText(skills: string[]): string {
+  // Slugs like "react-native" should also match the phrase "react native".
+  return skills.map((skill) => skill.replace(/[-_]+/g, " ")).join(" ");
+}
+
+// --- Embedding builders ---
+
+async function buildUserEmbedding(
+  ctx: QueryCtx,
+  user: Doc<"users">,
+): Promise<number[] | undefined> {
+  const [profile, workExperience] = await Promise.all([
+    ctx.db
+      .query("profiles")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .unique(),
+    ctx.db
+      .query("profileWorkExperience")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect(),
+  ]);
+
+  const skills = new Set([
+    ...(profile?.skills ?? []),
+    ...(user.profile?.skills ?? []),
+  ]);
+  const experience = workExperience.length
+    ? workExperience.map(({ role, description }) => ({ role, description }))
+    : (user.profile?.workExperience ?? []);
+
+  return embedText([
+    { text: skillsText([...skills]), weight: FIELD_WEIGHTS.skills },
+    {
+      text: profile?.headline ?? user.profile?.headline,
+      weight: FIELD_WEIGHTS.headline,
+    },
+    { text: profile?.bio ?? user.profile?.bio, weight: FIELD_WEIGHTS.body },
+    ...experience.flatMap(({ role, description }) => [
+      { text: role, weight: FIELD_WEIGHTS.role },
+      { text: description, weight: FIELD_WEIGHTS.body },
+    ]),
+  ]);
+}
+
+function buildGigEmbedding(
+  gig: Pick<Doc<"gigs">, "title" | "description" | "skills" | "category">,
+): number[] | undefined {
+  return embedText([
+    { text: skillsText(gig.skills), weight: FIELD_WEIGHTS.skills },
+    { text: gig.title, weight: FIELD_WEIGHTS.title },
+    { text: gig.description, weight: FIELD_WEIGHTS.body },
+    { text: gig.category, weight: FIELD_WEIGHTS.body },
+  ]);
+}
+
+/**
+ * Recompute and store a user's profile embedding from their skills,
+ * headline, bio and work experience.
+ */
+export async function refreshUserEmbedding(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+): Promise<boolean> {
+  const user = await ctx.db.get(userId);
+  if (!user || user.deletedAt) {
+    return false;
+  }
+
+  await ctx.db.patch(userId, {
+    embedding: await buildUserEmbedding(ctx, user),
+    embeddingUpdatedAt: Date.now(),
+  });
+  return true;
+}
+
+/**
+ * Recompute and store a gig's embedding from its title, skills, description
+ * and category.
+ */
+export async function refreshGigEmbedding(
+  ctx: MutationCtx,
+  gigId: Id<"gigs">,
+): Promise<boolean> {
+  const gig = await ctx.db.get(gigId);
+  if (!gig) {
+    return false;
+  }
+
+  await ctx.db.patch(gigId, {
+    embedding: buildGigEmbedding(gig),
+    embeddingUpdatedAt: Date.now(),
+  });
+  return true;
+}
+
+async function embedUserPage(
+  ctx: MutationCtx,
+  paginationOpts: PaginationOptions,
+) {
+  const result = await ctx.db.query("users").paginate(paginationOpts);
+  for (const user of result.page) {
+    await refreshUserEmbedding(ctx, user._id);
+  }
+  return { ...result, processed: result.page.length };
+}
+
+async function embedGigPage(
+  ctx: MutationCtx,
+  paginationOpts: PaginationOptions,
+) {
+  const result = await ctx.db.query("gigs").paginate(paginationOpts);
+  for (const gig of result.page) {
+    await refreshGigEmbedding(ctx, gig._id);
+  }
+  return { ...result, processed: result.page.length };
+}
+
+/**
+ * Embed every user and gig, one batch per run. Reschedules itself until both
+ * tables are exhausted; use after changing the vectorizer.
+ */
+export const backfillEmbeddings = internalMutation({
+  args: {
+    table: v.union(v.literal("users"), v.literal("gigs")),
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, { table, cursor }) => {
+    const paginationOpts = {
+      cursor: cursor ?? null,
+      numItems: BACKFILL_BATCH_SIZE,
+    };
+    const { processed, isDone, continueCursor } =
+      table === "users"
+        ? await embedUserPage(ctx, paginationOpts)
+        : await embedGigPage(ctx, paginationOpts);
+
+    if (!isDone) {
+      await ctx.scheduler.runAfter(0, internal.matching.backfillEmbeddings, {
+        table,
+        cursor: continueCursor,
+      });
+    } else if (table === "users") {
+      await ctx.scheduler.runAfter(0, internal.matching.backfillEmbeddings, {
+        table: "gigs",
+      });
+    }
+
+    return { processed, isDone };
+  },
+});
+
+// --- Matching actions ---
+
+function resolveLimit(limit: number | undefined): number {
+  return Math.max(1, Math.min(limit ?? DEFAULT_MATCH_LIMIT, MAX_MATCH_LIMIT));
+}
+
+export interface GigRecommendation {
+  gig: Omit<Doc<"gigs">, "embedding" | "embeddingUpdatedAt">;
+  score: number;
+}
+
+export interface TalentSuggestion {
+  userId: Id<"users">;
+  name: string;
+  avatarUrl?: string;
+  headline?: string;
+  skills: string[];
+  profileSlug?: string;
+  score: number;
+}
+
+/**
+ * Open gigs closest to the signed-in candidate's profile embedding. Gigs the
+ * candidate posted or already applied to are excluded.
+ */
+export const recommendGigs = action({
+  args: {
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, { limit }): Promise<GigRecommendation[]> => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const candidate = await ctx.runQuery(
+      internal.internal.matchingQueries.getCandidateMatchContext,
+      { clerkId: identity.subject },
+    );
+    if (!candidate?.embedding) {
+      return [];
+    }
+
+    const size = resolveLimit(limit);
+    const results = await ctx.vectorSearch("gigs", "by_embedding", {
+      vector: candidate.embedding,
+      limit: Math.min(size * SEARCH_OVERFETCH_FACTOR, 256),
+      filter: (q) => q.eq("status", "open"),
+    });
+
+    const recommendations = await ctx.runQuery(
+      internal.internal.matchingQueries.loadRecommendedGigs,
+      { candidateId: candidate.userId, results },
+    );
+    return recommendations.slice(0, size);
+  },
+});
+
+/**
+ * Candidates whose profile embedding is closest to the gig. Restricted to
+ * the gig's employer; the employer, existing applicants, deleted users and
+ * private profiles are excluded.
+ */
+export const suggestTalent = action({
+  args: {
+    gigId: v.id("gigs"),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, { gigId, limit }): Promise<TalentSuggestion[]> => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const gig = await ctx.runQuery(
+      internal.internal.matchingQueries.getGigMatchContext,
+      { clerkId: identity.subject, gigId },
+    );
+    if (!gig.embedding) {
+      return [];
+    }
+
+    const size = resolveLimit(limit);
+    const results = await ctx.vectorSearch("users", "by_embedding", {
+      vector: gig.embedding,
+      limit: Math.min(size * SEARCH_OVERFETCH_FACTOR, 256),
+    });
+
+    const suggestions = await ctx.runQuery(
+      internal.internal.matchingQueries.loadSuggestedTalent,
+      { gigId, employerId: gig.employerId, results },
+    );
+    return suggestions.slice(0, size);
+  },
+});
@@ -0,0 +1,116 @@
+/**
+ * IN-APP NOTIFICATIONS
+ *
+ * Per-user notification feed shown on /app/notifications. Other modules
+ * create entries through `createNotification`; clients list them newest
+ * first and mark them read.
+ */
+
+import { ConvexError, v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { mutation, query } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { getUserId } from "./users";
+
+type NotificationInput = Omit<
+  Doc<"notifications">,
+  "_id" | "_creationTime" | "readAt" | "createdAt"
+>;
+
+export async function createNotification(
+  ctx: MutationCtx,
+  notification: NotificationInput,
+): Promise<Id<"notifications">> {
+  return await ctx.db.insert("notifications", {
+    ...notification,
+    createdAt: Date.now(),
+  });
+}
+
+export const list = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, { paginationOpts }) => {
+    const userId = await getUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    return await ctx.db
+      .query("notifications")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .order("desc")
+      .paginate(paginationOpts);
+  },
+});
+
+export const unreadCount = query({
+  args: {},
+  returns: v.number(),
+  handler: async (ctx) => {
+    const userId = await getUserId(ctx);
+    if (!userId) {
+      return 0;
+    }
+
+    const unread = await ctx.db
+      .query("notifications")
+      .withIndex("by_user_read", (q) =>
+        q.eq("userId", userId).eq("readAt", undefined),
+      )
+      .collect();
+
+    return unread.length;
+  },
+});
+
+export const markRead = mutation({
+  args: {
+    notificationId: v.id("notifications"),
+  },
+  returns: v.null(),
+  handler: async (ctx, { notificationId }) => {
+    const userId = await getUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const notification = await ctx.db.get(notificationId);
+    if (!notification || notification.userId !== userId) {
+      throw new ConvexError("Notification not found");
+    }
+
+    if (!notification.readAt) {
+      await ctx.db.patch(notificationId, { readAt: Date.now() });
+    }
+
+    return null;
+  },
+});
+
+export const markAllRead = mutation({
+  args: {},
+  returns: v.number(),
+  handler: async (ctx) => {
+    const userId = await getUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const unread = await ctx.db
+      .query("notifications")
+      .withIndex("by_user_read", (q) =>
+        q.eq("userId", userId).eq("readAt", undefined),
+      )
+      .collect();
+
+    const now = Date.now();
+    for (const notification of unread) {
+      await ctx.db.patch(notification._id, { readAt: now });
+    }
+
+    return unread.length;
+  },
+});
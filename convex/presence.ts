@@ -0,0 +1,233 @@
+/**
+ * PRESENCE
+ *
+ * Online and typing state in `userStatus`. Clients send a heartbeat every
+ * `HEARTBEAT_INTERVAL_MS` while a conversations view is open and a typing
+ * ping while composing. Rows carry `lastUpdated`; the `expireStale` cron
+ * marks presence offline and drops typing rows once they outlive their TTL,
+ * so closed tabs and dropped connections clear without a final request.
+ */
+
+import { ConvexError, v } from "convex/values";
+import { internalMutation, mutation, query } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { getUserId } from "./users";
+
+export const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+export const ONLINE_TTL_MS = 2 * HEARTBEAT_INTERVAL_MS + 10 * 1000;
+export const TYPING_TTL_MS = 8 * 1000;
+
+const MAX_PRESENCE_LOOKUP = 100;
+const EXPIRE_BATCH_SIZE = 200;
+
+async function requireUserId(ctx: MutationCtx): Promise<Id<"users">> {
+  const userId = await getUserId(ctx);
+  if (!userId) {
+    throw new ConvexError("Not authenticated");
+  }
+  return userId;
+}
+
+async function findPresenceRow(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  conversationId?: Id<"conversations">,
+): Promise<Doc<"userStatus"> | null> {
+  const rows = await ctx.db
+    .query("userStatus")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+  return rows.find((row) => row.conversationId === conversationId) ?? null;
+}
+
+async function markOnline(ctx: MutationCtx, userId: Id<"users">) {
+  const now = Date.now();
+  const existing = await findPresenceRow(ctx, userId);
+
+  if (existing) {
+    await ctx.db.patch(existing._id, { status: "online", lastUpdated: now });
+  } else {
+    await ctx.db.insert("userStatus", {
+      userId,
+      status: "online",
+      lastUpdated: now,
+    });
+  }
+}
+
+/** Drop a user's typing row for a conversation, e.g. once they send. */
+export async function clearTyping(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  conversationId: Id<"conversations">,
+) {
+  const existing = await findPresenceRow(ctx, userId, conversationId);
+  if (existing) {
+    await ctx.db.delete(existing._id);
+  }
+}
+
+export const heartbeat = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await requireUserId(ctx);
+    await markOnline(ctx, userId);
+  },
+});
+
+/** Explicitly go offline, e.g. when the tab is hidden or closed. */
+export const disconnect = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await requireUserId(ctx);
+    const existing = await findPresenceRow(ctx, userId);
+    if (existing && existing.status !== "offline") {
+      await ctx.db.patch(existing._id, {
+        status: "offline",
+        lastUpdated: Date.now(),
+      });
+    }
+  },
+});
+
+export const setTyping = mutation({
+  args: {
+    conversationId: v.id("conversations"),
+    isTyping: v.boolean(),
+  },
+  handler: async (ctx, { conversationId, isTyping }) => {
+    const userId = await requireUserId(ctx);
+
+    const conversation = await ctx.db.get(conversationId);
+    if (!conversation) {
+      throw new ConvexError("Conversation not found");
+    }
+    if (!conversation.participants.includes(userId)) {
+      throw new ConvexError("Unauthorized");
+    }
+
+    if (!isTyping) {
+      await clearTyping(ctx, userId, conversationId);
+      return;
+    }
+
+    const now = Date.now();
+    const existing = await findPresenceRow(ctx, userId, conversationId);
+    if (existing) {
+      await ctx.db.patch(existing._id, { status: "typing", lastUpdated: now });
+    } else {
+      await ctx.db.insert("userStatus", {
+        userId,
+        conversationId,
+        status: "typing",
+        lastUpdated: now,
+      });
+    }
+
+    // Typing implies the user is here, even between heartbeats
+    await markOnline(ctx, userId);
+  },
+});
+
+/** The subset of `userIds` currently online. */
+export const listOnline = query({
+  args: { userIds: v.array(v.id("users")) },
+  handler: async (ctx, { userIds }) => {
+    const viewerId = await getUserId(ctx);
+    if (!viewerId) {
+      return [];
+    }
+
+    const uniqueIds = Array.from(new Set(userIds)).slice(
+      0,
+      MAX_PRESENCE_LOOKUP,
+    );
+
+    const online = await Promise.all(
+      uniqueIds.map(async (userId) => {
+        const rows = await ctx.db
+          .query("userStatus")
+          .withIndex("by_user", (q) => q.eq("userId", userId))
+          .collect();
+        return rows.some(
+          (row) => row.conversationId === undefined && row.status === "online",
+        )
+          ? userId
+          : null;
+      }),
+    );
+
+    return online.filter((userId): userId is Id<"users"> => userId !== null);
+  },
+});
+
+/**
+ * Other participants typing in a conversation. `lastUpdated` is returned so
+ * clients can hide entries older than `TYPING_TTL_MS` before the cron runs.
+ */
+export const listTyping = query({
+  args: { conversationId: v.id("conversations") },
+  handler: async (ctx, { conversationId }) => {
+    const viewerId = await getUserId(ctx);
+    if (!viewerId) {
+      return [];
+    }
+
+    const conversation = await ctx.db.get(conversationId);
+    if (!conversation?.participants.includes(viewerId)) {
+      return [];
+    }
+
+    const rows = await ctx.db
+      .query("userStatus")
+      .withIndex("by_conversation_and_status", (q) =>
+        q.eq("conversationId", conversationId).eq("status", "typing"),
+      )
+      .collect();
+
+    return rows
+      .filter((row) => row.userId !== viewerId)
+      .map((row) => ({ userId: row.userId, lastUpdated: row.lastUpdated }));
+  },
+});
+
+/**
+ * Expire presence rows past their TTL: stale online rows go offline and
+ * stale typing rows are deleted. Reschedules itself while a full batch was
+ * processed.
+ */
+export const expireStale = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+
+    const staleOnline = await ctx.db
+      .query("userStatus")
+      .withIndex("by_status_and_updated", (q) =>
+        q.eq("status", "online").lt("lastUpdated", now - ONLINE_TTL_MS),
+      )
+      .take(EXPIRE_BATCH_SIZE);
+    for (const row of staleOnline) {
+      await ctx.db.patch(row._id, { status: "offline" });
+    }
+
+    const staleTyping = await ctx.db
+      .query("userStatus")
+      .withIndex("by_status_and_updated", (q) =>
+        q.eq("status", "typing").lt("lastUpdated", now - TYPING_TTL_MS),
+      )
+      .take(EXPIRE_BATCH_SIZE);
+    for (const row of staleTyping) {
+      await ctx.db.delete(row._id);
+    }
+
+    if (
+      staleOnline.length === EXPIRE_BATCH_SIZE ||
+      staleTyping.length === EXPIRE_BATCH_SIZE
+    ) {
+      await ctx.scheduler.runAfter(0, internal.presence.expireStale, {});
+    }
+  },
+});
@@ -2,6 +2,7 @@ import { query, mutation } from "./_generated/server";
 import type { QueryCtx, MutationCtx } from "./_generated/server";
 import { v, ConvexError } from "convex/values";
 import type { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
 import {
   ProfileCreationInputSchema,
   ProfileUpdateInputSchema,
@@ -10,6 +11,10 @@ import {
   fallbackSlugCandidates,
   type SanitizedProfileCreationInput,
 } from "../shared/profile/profileCreationSchema";
+import { getGamificationSummary } from "./gamification";
+import { listUserCertificates } from "./certificates";
+import { syncProfileSearchText } from "./search";
+import type { GamificationSummary } from "./gamification";
 
 type ExperienceLevel = "beginner" | "intermediate" | "advanced" | "expert";
 type ContractType = "freelance" | "part-time" | "full-time";
@@ -106,12 +111,31 @@ type SidebarGigRecommendation = {
   url: string;
 };
 
+type SidebarAchievements = {
+  points: number;
+  equippedTitle?: string;
+  badges: Array<{
+    name: string;
+    description: string;
+    iconUrl: string;
+  }>;
+};
+
+type SidebarCertificate = {
+  id: string;
+  courseTitle: string;
+  issuedAt: number;
+  verificationCode: string;
+};
+
 type ProfileSidebarData = {
   gigs: SidebarGigRecommendation[];
   featuredLogos: string[];
   qrCodeUrl?: string;
   contactEmail?: string;
   badges?: string[];
+  achievements?: SidebarAchievements;
+  certificates?: SidebarCertificate[];
 };
 
 type ProfileViewModel = {
@@ -134,6 +158,8 @@ type ProfileDocuments = {
   experience: Array<Doc<"profileWorkExperience">>;
   projects: Array<Doc<"profileProjects">>;
   languages: Array<Doc<"profileLanguages">>;
+  gamification: GamificationSummary;
+  certificates: Array<Doc<"certificates">>;
 };
 
 const LANGUAGE_NAMES: Record<string, string> = {
@@ -171,7 +197,16 @@ function isoFromTimestamp(timestamp?: number | null): string | undefined {
 }
 
 function toProfileViewModel(docs: ProfileDocuments): ProfileViewModel {
-  const { profile, user, education, experience, projects, languages } = docs;
+  const {
+    profile,
+    user,
+    education,
+    experience,
+    projects,
+    languages,
+    gamification,
+    certificates,
+  } = docs;
 
   const lessonsCompleted = profile.lessonsCompleted
     ? Number(profile.lessonsCompleted)
@@ -274,6 +309,21 @@ function toProfileViewModel(docs: ProfileDocuments): ProfileViewModel {
     qrCodeUrl: profile.qrCodeUrl ?? undefined,
     contactEmail: profile.contactEmail ?? user.email ?? undefined,
     badges,
+    achievements: {
+      points: gamification.totalPoints,
+      equippedTitle: gamification.equippedTitle?.name,
+      badges: gamification.badges.map(({ name, description, iconUrl }) => ({
+        name,
+        description,
+        iconUrl,
+      })),
+    },
+    certificates: certificates.map((certificate) => ({
+      id: certificate._id,
+      courseTitle: certificate.courseTitle,
+      issuedAt: certificate.issuedAt,
+      verificationCode: certificate.verificationCode,
+    })),
   };
 
   return {
@@ -299,7 +349,14 @@ async function loadProfileDocuments(
     throw new ConvexError("Profile user record is missing");
   }
 
-  const [education, experience, projects, languages] = await Promise.all([
+  const [
+    education,
+    experience,
+    projects,
+    languages,
+    gamification,
+    certificates,
+  ] = await Promise.all([
     ctx.db
       .query("profileEducation")
       .withIndex("by_user", (q) => q.eq("userId", profile.userId))
@@ -316,6 +373,8 @@ async function loadProfileDocuments(
       .query("profileLanguages")
       .withIndex("by_user", (q) => q.eq("userId", profile.userId))
       .collect(),
+    getGamificationSummary(ctx, profile.userId),
+    listUserCertificates(ctx, profile.userId),
   ]);
 
   return {
@@ -325,6 +384,8 @@ async function loadProfileDocuments(
     experience,
     projects,
     languages,
+    gamification,
+    certificates,
   };
 }
 
@@ -627,6 +688,7 @@ export const createProfile = mutation({
       createdAt: now,
       updatedAt: now,
     });
+    await syncProfileSearchText(ctx, profileId);
 
     const userProfilePatch = buildUserProfilePatch(
       sanitized,
@@ -641,6 +703,9 @@ export const createProfile = mutation({
       profile: userProfilePatch,
       updatedAt: now,
     });
+    await ctx.scheduler.runAfter(0, internal.users.generateUserEmbedding, {
+      userId: user._id,
+    });
 
     const createdProfile = await ctx.db.get(profileId);
     if (!createdProfile) {
@@ -755,6 +820,7 @@ export const updateProfile = mutation({
     };
 
     await ctx.db.patch(args.profileId, patchWithMeta);
+    await syncProfileSearchText(ctx, args.profileId);
 
     const updatedProfile = await ctx.db.get(args.profileId);
     if (!updatedProfile) {
@@ -815,6 +881,9 @@ export const updateProfile = mutation({
       profile: userProfilePatch,
       updatedAt: now,
     });
+    await ctx.scheduler.runAfter(0, internal.users.generateUserEmbedding, {
+      userId: user._id,
+    });
 
     const docs = await loadProfileDocuments(ctx, updatedProfile);
     return toProfileViewModel(docs);
@@ -19,6 +19,12 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
 import { getUserId } from "./users";
+import {
+  canCompleteLesson,
+  markLessonComplete,
+  recordLessonCompletion,
+} from "./lessons";
+import { assertLessonUnlocked, getLessonAccess } from "./lessonAccess";
 import type { Id } from "./_generated/dataModel";
 
 // =============================================================================
@@ -109,6 +115,22 @@ export const updateProgressBatch = mutation({
           continue;
         }
 
+        const lesson = await ctx.db.get(update.lessonId);
+        if (!lesson || lesson.deletedAt) {
+          console.warn(`[BatchProgress] Lesson ${update.lessonId} not found`);
+          errorCount++;
+          continue;
+        }
+
+        const access = await getLessonAccess(ctx, lesson, userId);
+        if (access.isLocked) {
+          console.warn(
+            `[BatchProgress] Lesson ${update.lessonId} is locked: ${access.reason}`,
+          );
+          errorCount++;
+          continue;
+        }
+
         // Check if progress already exists
         const existingProgress = await ctx.db
           .query("lessonProgress")
@@ -119,7 +141,9 @@ export const updateProgressBatch = mutation({
 
         const currentPosition =
           update.currentPosition ?? update.watchedDuration;
-        const isCompleted = update.percentage >= 95;
+        const isCompleted =
+          update.percentage >= 95 &&
+          (await canCompleteLesson(ctx, userId, lesson));
 
         if (existingProgress) {
           // Update existing progress with intelligent merging
@@ -148,6 +172,12 @@ export const updateProgressBatch = mutation({
             updatedAt: now,
           });
 
+          if (isCompleted && !existingProgress.isCompleted) {
+            await recordLessonCompletion(ctx, userId, {
+              lessonId: lesson._id,
+              courseId: lesson.courseId,
+            });
+          }
           results.push(existingProgress._id);
         } else {
           // Create new progress record
@@ -174,6 +204,12 @@ export const updateProgressBatch = mutation({
             createdBy: userId.toString(),
           });
 
+          if (isCompleted) {
+            await recordLessonCompletion(ctx, userId, {
+              lessonId: lesson._id,
+              courseId: lesson.courseId,
+            });
+          }
           results.push(progressId);
         }
 
@@ -229,6 +265,12 @@ export const updateProgressCompressed = mutation({
       throw new Error("Authentication required");
     }
 
+    const lesson = await ctx.db.get(args.lessonId);
+    if (!lesson || lesson.deletedAt) {
+      throw new Error("Lesson not found");
+    }
+    await assertLessonUnlocked(ctx, lesson, userId);
+
     const now = Date.now();
 
     // Get existing progress
@@ -256,7 +298,8 @@ export const updateProgressCompressed = mutation({
         args.currentPosition,
       );
 
-      const isCompleted = newPercentage >= 95;
+      const isCompleted =
+        newPercentage >= 95 && (await canCompleteLesson(ctx, userId, lesson));
 
       await ctx.db.patch(existingProgress._id, {
         watchedDuration: newWatchedDuration,
@@ -272,6 +315,12 @@ export const updateProgressCompressed = mutation({
         updatedAt: now,
       });
 
+      if (isCompleted && !existingProgress.isCompleted) {
+        await recordLessonCompletion(ctx, userId, {
+          lessonId: lesson._id,
+          courseId: lesson.courseId,
+        });
+      }
       return existingProgress._id;
     } else {
       // Create new progress record
@@ -283,9 +332,10 @@ export const updateProgressCompressed = mutation({
             )
           : 0;
 
-      const isCompleted = percentage >= 95;
+      const isCompleted =
+        percentage >= 95 && (await canCompleteLesson(ctx, userId, lesson));
 
-      return await ctx.db.insert("lessonProgress", {
+      const progressId = await ctx.db.insert("lessonProgress", {
         userId,
         lessonId: args.lessonId,
         courseId: args.courseId,
@@ -307,6 +357,14 @@ export const updateProgressCompressed = mutation({
         updatedAt: now,
         createdBy: userId.toString(),
       });
+
+      if (isCompleted) {
+        await recordLessonCompletion(ctx, userId, {
+          lessonId: lesson._id,
+          courseId: lesson.courseId,
+        });
+      }
+      return progressId;
     }
   },
 });
@@ -335,56 +393,27 @@ export const markLessonsCompleted = mutation({
       throw new Error("Authentication required");
     }
 
-    const now = Date.now();
     const results: Id<"lessonProgress">[] = [];
     let completedCount = 0;
 
     for (const lessonId of args.lessonIds) {
       try {
-        const existingProgress = await ctx.db
-          .query("lessonProgress")
-          .withIndex("by_user_lesson", (q) =>
-            q.eq("userId", userId).eq("lessonId", lessonId),
-          )
-          .unique();
-
-        if (existingProgress) {
-          // Update existing progress to completed
-          await ctx.db.patch(existingProgress._id, {
-            isCompleted: true,
-            percentage: 100,
-            completedAt: now,
-            lastWatchedAt: now,
-            updatedAt: now,
-          });
-          results.push(existingProgress._id);
-        } else {
-          // Create new completed progress record
-          const progressId = await ctx.db.insert("lessonProgress", {
-            userId,
-            lessonId,
-            courseId: args.courseId,
-            moduleId: args.moduleId,
-            watchedDuration: 0,
-            totalDuration: 0,
-            percentage: 100,
-            isCompleted: true,
-            maxWatchedPosition: 0,
-            watchCount: 1,
-            sessionDuration: 0,
-            seekEvents: 0,
-            pauseCount: 0,
-            playbackSpeed: 1.0,
-            firstWatchedAt: now,
-            lastWatchedAt: now,
-            completedAt: now,
-            sessionStartedAt: now,
-            updatedAt: now,
-            createdBy: userId.toString(),
-          });
-          results.push(progressId);
+        const lesson = await ctx.db.get(lessonId);
+        if (!lesson || lesson.deletedAt) {
+          throw new Error("Lesson not found");
+        }
+        await assertLessonUnlocked(ctx, lesson, userId);
+        if (!(await canCompleteLesson(ctx, userId, lesson))) {
+          throw new Error("Pass the quiz to complete this lesson");
         }
 
+        results.push(
+          await markLessonComplete(ctx, userId, {
+            lessonId,
+            courseId: lesson.courseId,
+            moduleId: lesson.moduleId,
+          }),
+        );
         completedCount++;
       } catch (error) {
         console.error(
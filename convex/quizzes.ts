@@ -0,0 +1,243 @@
+/**
+ * LESSON QUIZZES
+ *
+ * Learner-facing quiz runner for `contentType: "quiz"` lessons. Serves
+ * questions without their answers, grades full submissions against the
+ * lesson's pass threshold and attempt limit, and completes the lesson
+ * once a learner passes.
+ */
+
+import { ConvexError, v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { getUserId } from "./users";
+import { markLessonComplete } from "./lessons";
+import { assertLessonUnlocked } from "./lessonAccess";
+
+const DEFAULT_PASSING_SCORE = 70;
+
+type QuizSettings = NonNullable<Doc<"lessons">["quizSettings"]>;
+
+function resolveQuizSettings(lesson: Doc<"lessons">): QuizSettings {
+  return lesson.quizSettings ?? { passingScore: DEFAULT_PASSING_SCORE };
+}
+
+async function loadQuizLesson(
+  ctx: QueryCtx,
+  lessonId: Id<"lessons">,
+): Promise<Doc<"lessons">> {
+  const lesson = await ctx.db.get(lessonId);
+  if (!lesson || lesson.deletedAt) {
+    throw new ConvexError("Lesson not found");
+  }
+
+  if (lesson.contentType !== "quiz") {
+    throw new ConvexError("This lesson is not a quiz");
+  }
+
+  return lesson;
+}
+
+async function loadQuestions(ctx: QueryCtx, lessonId: Id<"lessons">) {
+  const quizzes = await ctx.db
+    .query("quizzes")
+    .withIndex("by_lesson", (q) => q.eq("lessonId", lessonId))
+    .collect();
+
+  const questions = await Promise.all(
+    quizzes.map(async (quiz) => ({
+      quiz,
+      options: await ctx.db
+        .query("quizOptions")
+        .withIndex("by_quiz", (q) => q.eq("quizId", quiz._id))
+        .collect(),
+    })),
+  );
+
+  return questions.sort((a, b) => a.quiz.order - b.quiz.order);
+}
+
+async function listSubmissions(
+  ctx: QueryCtx,
+  studentId: Id<"users">,
+  lessonId: Id<"lessons">,
+) {
+  return await ctx.db
+    .query("quizSubmissions")
+    .withIndex("by_student_lesson", (q) =>
+      q.eq("studentId", studentId).eq("lessonId", lessonId),
+    )
+    .collect();
+}
+
+function attemptsRemaining(
+  settings: QuizSettings,
+  attemptCount: number,
+): number | null {
+  if (settings.maxAttempts === undefined) {
+    return null;
+  }
+
+  return Math.max(settings.maxAttempts - attemptCount, 0);
+}
+
+/**
+ * Score a submission as a whole-number percentage of correct answers.
+ */
+function scoreQuiz(correctCount: number, totalQuestions: number) {
+  if (totalQuestions === 0) {
+    return 0;
+  }
+
+  return Math.round((correctCount / totalQuestions) * 100);
+}
+
+/**
+ * Get a quiz lesson's questions (without answers), its grading settings and
+ * the viewer's previous attempts.
+ */
+export const getForLesson = query({
+  args: { lessonId: v.id("lessons") },
+  handler: async (ctx, { lessonId }) => {
+    const lesson = await loadQuizLesson(ctx, lessonId);
+    const userId = await getUserId(ctx);
+    await assertLessonUnlocked(ctx, lesson, userId);
+    const settings = resolveQuizSettings(lesson);
+    const questions = await loadQuestions(ctx, lessonId);
+
+    const submissions = userId
+      ? await listSubmissions(ctx, userId, lessonId)
+      : [];
+
+    return {
+      lessonId,
+      intro: typeof lesson.content === "string" ? lesson.content : undefined,
+      passingScore: settings.passingScore,
+      maxAttempts: settings.maxAttempts ?? null,
+      attemptsRemaining: attemptsRemaining(settings, submissions.length),
+      hasPassed: submissions.some((submission) => submission.passed),
+      questions: questions.map(({ quiz, options }) => ({
+        _id: quiz._id,
+        question: quiz.question,
+        options: options.map((option) => ({
+          _id: option._id,
+          text: option.text,
+        })),
+      })),
+      attempts: submissions.map((submission) => ({
+        attemptNumber: submission.attemptNumber,
+        score: submission.score,
+        passed: submission.passed,
+        createdAt: submission.createdAt,
+      })),
+    };
+  },
+});
+
+/**
+ * Grade a full quiz submission. Every question must be answered. A passing
+ * attempt marks the lesson complete via lessons.markLessonComplete.
+ */
+export const submitAttempt = mutation({
+  args: {
+    lessonId: v.id("lessons"),
+    answers: v.array(
+      v.object({
+        quizId: v.id("quizzes"),
+        optionId: v.id("quizOptions"),
+      }),
+    ),
+  },
+  handler: async (ctx, { lessonId, answers }) => {
+    const userId = await getUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Authentication required");
+    }
+
+    const lesson = await loadQuizLesson(ctx, lessonId);
+    await assertLessonUnlocked(ctx, lesson, userId);
+    const settings = resolveQuizSettings(lesson);
+    const questions = await loadQuestions(ctx, lessonId);
+    if (questions.length === 0) {
+      throw new ConvexError("This quiz has no questions yet");
+    }
+
+    const submissions = await listSubmissions(ctx, userId, lessonId);
+    if (attemptsRemaining(settings, submissions.length) === 0) {
+      throw new ConvexError("No quiz attempts remaining");
+    }
+
+    const answerByQuiz = new Map(
+      answers.map((answer) => [answer.quizId, answer.optionId]),
+    );
+
+    const graded = questions.map(({ quiz, options }) => {
+      const selectedOptionId = answerByQuiz.get(quiz._id);
+      if (!selectedOptionId) {
+        throw new ConvexError("Answer every question before submitting");
+      }
+
+      const selected = options.find(
+        (option) => option._id === selectedOptionId,
+      );
+      if (!selected) {
+        throw new ConvexError(
+          "Selected option does not belong to the question",
+        );
+      }
+
+      return {
+        quizId: quiz._id,
+        selectedOptionId,
+        isCorrect: selected.isCorrect,
+      };
+    });
+
+    const correctCount = graded.filter((answer) => answer.isCorrect).length;
+    const score = scoreQuiz(correctCount, graded.length);
+    const passed = score >= settings.passingScore;
+    const attemptNumber = submissions.length + 1;
+
+    const submissionId = await ctx.db.insert("quizSubmissions", {
+      studentId: userId,
+      lessonId,
+      courseId: lesson.courseId,
+      attemptNumber,
+      correctCount,
+      totalQuestions: graded.length,
+      score,
+      passed,
+      createdAt: Date.now(),
+    });
+
+    for (const answer of graded) {
+      await ctx.db.insert("quizAttempts", {
+        studentId: userId,
+        quizId: answer.quizId,
+        selectedOptionId: answer.selectedOptionId,
+        isCorrect: answer.isCorrect,
+        submissionId,
+        createdBy: userId.toString(),
+      });
+    }
+
+    if (passed) {
+      await markLessonComplete(ctx, userId, {
+        lessonId,
+        courseId: lesson.courseId,
+        moduleId: lesson.moduleId,
+      });
+    }
+
+    return {
+      attemptNumber,
+      score,
+      passed,
+      correctCount,
+      totalQuestions: graded.length,
+      attemptsRemaining: attemptsRemaining(settings, attemptNumber),
+      results: graded.map(({ quizId, isCorrect }) => ({ quizId, isCorrect })),
+    };
+  },
+});
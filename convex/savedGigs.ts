@@ -0,0 +1,235 @@
+/**
+ * SAVED GIGS
+ *
+ * Candidate bookmarks. Saving and unsaving adjust `gigs.metadata.savedCount`
+ * in the same mutation, so the count always equals the number of `savedGigs`
+ * rows for the gig. An hourly job reminds candidates when a saved gig's
+ * application deadline is close and they have not applied yet.
+ */
+
+import { ConvexError, v } from "convex/values";
+import { internalMutation, mutation, query } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { createNotification } from "./notifications";
+import { getUserId } from "./users";
+
+const DEADLINE_REMINDER_WINDOW_MS = 48 * 60 * 60 * 1000;
+
+async function requireUserId(ctx: MutationCtx): Promise<Id<"users">> {
+  const userId = await getUserId(ctx);
+  if (!userId) {
+    throw new ConvexError("Not authenticated");
+  }
+  return userId;
+}
+
+async function adjustSavedCount(
+  ctx: MutationCtx,
+  gig: Doc<"gigs">,
+  delta: 1 | -1,
+): Promise<number> {
+  const metadata = gig.metadata ?? {
+    views: 0,
+    applicantCount: 0,
+    savedCount: 0,
+    lastModified: gig.updatedAt,
+    version: 1,
+    isUrgent: false,
+    isRemoteOnly: gig.location?.type === "remote",
+  };
+  const savedCount = Math.max(0, metadata.savedCount + delta);
+
+  // Bookmarks are not edits, so lastModified and version stay untouched
+  await ctx.db.patch(gig._id, { metadata: { ...metadata, savedCount } });
+  return savedCount;
+}
+
+/**
+ * Save or unsave a gig for the signed-in user. Idempotent: saving a saved
+ * gig or unsaving an unsaved one leaves the count unchanged.
+ */
+async function setSaved(
+  ctx: MutationCtx,
+  gigId: Id<"gigs">,
+  saved: boolean,
+): Promise<{ saved: boolean; savedCount: number }> {
+  const userId = await requireUserId(ctx);
+  const gig = await ctx.db.get(gigId);
+  if (!gig) {
+    throw new ConvexError("Gig not found");
+  }
+
+  const existing = await ctx.db
+    .query("savedGigs")
+    .withIndex("by_user_gig", (q) => q.eq("userId", userId).eq("gigId", gigId))
+    .unique();
+
+  if (saved === Boolean(existing)) {
+    return { saved, savedCount: gig.metadata?.savedCount ?? 0 };
+  }
+
+  if (existing) {
+    await ctx.db.delete(existing._id);
+    return { saved: false, savedCount: await adjustSavedCount(ctx, gig, -1) };
+  }
+
+  if (gig.status !== "open") {
+    throw new ConvexError("Only open gigs can be saved");
+  }
+
+  await ctx.db.insert("savedGigs", {
+    userId,
+    gigId,
+    createdAt: Date.now(),
+  });
+  return { saved: true, savedCount: await adjustSavedCount(ctx, gig, 1) };
+}
+
+const saveResult = v.object({ saved: v.boolean(), savedCount: v.number() });
+
+export const save = mutation({
+  args: { gigId: v.id("gigs") },
+  returns: saveResult,
+  handler: async (ctx, { gigId }) => await setSaved(ctx, gigId, true),
+});
+
+export const unsave = mutation({
+  args: { gigId: v.id("gigs") },
+  returns: saveResult,
+  handler: async (ctx, { gigId }) => await setSaved(ctx, gigId, false),
+});
+
+export const toggle = mutation({
+  args: { gigId: v.id("gigs") },
+  returns: saveResult,
+  handler: async (ctx, { gigId }) => {
+    const userId = await requireUserId(ctx);
+    const existing = await ctx.db
+      .query("savedGigs")
+      .withIndex("by_user_gig", (q) =>
+        q.eq("userId", userId).eq("gigId", gigId),
+      )
+      .unique();
+
+    return await setSaved(ctx, gigId, !existing);
+  },
+});
+
+/** IDs of every gig the signed-in user has saved, for list badges. */
+export const listSavedGigIds = query({
+  args: {},
+  returns: v.array(v.id("gigs")),
+  handler: async (ctx) => {
+    const userId = await getUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+
+    const saved = await ctx.db
+      .query("savedGigs")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+    return saved.map(({ gigId }) => gigId);
+  },
+});
+
+/** Saved gigs for the dashboard, newest first, with whether the user applied. */
+export const listMine = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const saved = await ctx.db
+      .query("savedGigs")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .order("desc")
+      .collect();
+
+    const applications = await ctx.db
+      .query("applications")
+      .withIndex("by_candidate", (q) => q.eq("candidateId", userId))
+      .collect();
+    const appliedGigIds = new Set(applications.map(({ gigId }) => gigId));
+
+    const hydrated: Array<{
+      savedAt: number;
+      hasApplied: boolean;
+      gig: Doc<"gigs">;
+    }> = [];
+    for (const entry of saved) {
+      const gig = await ctx.db.get(entry.gigId);
+      if (!gig) continue;
+
+      hydrated.push({
+        savedAt: entry.createdAt,
+        hasApplied: appliedGigIds.has(gig._id),
+        gig,
+      });
+    }
+
+    return hydrated;
+  },
+});
+
+/**
+ * Notify candidates whose saved, still-open gigs stop taking applications
+ * within the reminder window. Each saved gig is reminded at most once and
+ * candidates who already applied are skipped.
+ */
+export const sendDeadlineReminders = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    const gigs = await ctx.db
+      .query("gigs")
+      .withIndex("by_status_application_deadline", (q) =>
+        q
+          .eq("status", "open")
+          .gt("applicationDeadline", now)
+          .lte("applicationDeadline", now + DEADLINE_REMINDER_WINDOW_MS),
+      )
+      .collect();
+
+    let reminders = 0;
+    for (const gig of gigs) {
+      const pending = await ctx.db
+        .query("savedGigs")
+        .withIndex("by_gig_reminder", (q) =>
+          q.eq("gigId", gig._id).eq("reminderSentAt", undefined),
+        )
+        .collect();
+
+      for (const entry of pending) {
+        await ctx.db.patch(entry._id, { reminderSentAt: now });
+
+        const application = await ctx.db
+          .query("applications")
+          .withIndex("by_gig_and_candidate", (q) =>
+            q.eq("gigId", gig._id).eq("candidateId", entry.userId),
+          )
+          .first();
+        if (application) continue;
+
+        const hoursLeft = Math.max(
+          1,
+          Math.round((gig.applicationDeadline! - now) / (60 * 60 * 1000)),
+        );
+        await createNotification(ctx, {
+          userId: entry.userId,
+          type: "saved_gig_deadline",
+          title: `Applications for "${gig.title}" close soon`,
+          body: `About ${hoursLeft} hour${hoursLeft === 1 ? "" : "s"} left to apply to this saved gig.`,
+          link: `/app/gigs/${gig._id}`,
+          gigId: gig._id,
+        });
+        reminders += 1;
+      }
+    }
+
+    return { reminders };
+  },
+});
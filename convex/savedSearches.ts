@@ -0,0 +1,307 @@
+/**
+ * SAVED GIG SEARCHES & ALERTS
+ *
+ * Candidates save named sets of gig list filters. When a gig is published it
+ * is matched against every saved search with alerts on: "instant" searches
+ * get an in-app notification right away, "daily" searches queue the match
+ * for the digest that `crons.ts` runs once a day.
+ */
+
+import { ConvexError, v } from "convex/values";
+import { internalMutation, mutation, query } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { matchesPublicGigFilters, publicGigFiltersValidator } from "./gigs";
+import { createNotification } from "./notifications";
+import { getUserId } from "./users";
+
+const MAX_SAVED_SEARCHES = 20;
+const MAX_NAME_LENGTH = 80;
+const DIGEST_USERS_PER_RUN = 50;
+const DIGEST_MAX_LISTED_SEARCHES = 3;
+
+const alertFrequencyValidator = v.union(
+  v.literal("instant"),
+  v.literal("daily"),
+  v.literal("off"),
+);
+
+async function requireUserId(ctx: MutationCtx): Promise<Id<"users">> {
+  const userId = await getUserId(ctx);
+  if (!userId) {
+    throw new ConvexError("Not authenticated");
+  }
+  return userId;
+}
+
+async function requireOwnSavedSearch(
+  ctx: MutationCtx,
+  savedSearchId: Id<"savedSearches">,
+): Promise<Doc<"savedSearches">> {
+  const userId = await requireUserId(ctx);
+  const savedSearch = await ctx.db.get(savedSearchId);
+  if (!savedSearch || savedSearch.userId !== userId) {
+    throw new ConvexError("Saved search not found");
+  }
+  return savedSearch;
+}
+
+function normalizeName(name: string): string {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new ConvexError("Saved search name is required");
+  }
+  if (trimmed.length > MAX_NAME_LENGTH) {
+    throw new ConvexError(
+      `Saved search name must be ${MAX_NAME_LENGTH} characters or fewer`,
+    );
+  }
+  return trimmed;
+}
+
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+
+    return await ctx.db
+      .query("savedSearches")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .order("desc")
+      .collect();
+  },
+});
+
+export const create = mutation({
+  args: {
+    name: v.string(),
+    filters: publicGigFiltersValidator,
+    alertFrequency: v.optional(alertFrequencyValidator),
+  },
+  handler: async (ctx, { name, filters, alertFrequency }) => {
+    const userId = await requireUserId(ctx);
+
+    const existing = await ctx.db
+      .query("savedSearches")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .take(MAX_SAVED_SEARCHES);
+    if (existing.length >= MAX_SAVED_SEARCHES) {
+      throw new ConvexError(
+        `You can save up to ${MAX_SAVED_SEARCHES} searches. Delete one to add another.`,
+      );
+    }
+
+    const now = Date.now();
+    return await ctx.db.insert("savedSearches", {
+      userId,
+      name: normalizeName(name),
+      filters,
+      alertFrequency: alertFrequency ?? "daily",
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+export const update = mutation({
+  args: {
+    savedSearchId: v.id("savedSearches"),
+    name: v.optional(v.string()),
+    filters: v.optional(publicGigFiltersValidator),
+    alertFrequency: v.optional(alertFrequencyValidator),
+  },
+  returns: v.null(),
+  handler: async (ctx, { savedSearchId, name, filters, alertFrequency }) => {
+    await requireOwnSavedSearch(ctx, savedSearchId);
+
+    await ctx.db.patch(savedSearchId, {
+      ...(name !== undefined ? { name: normalizeName(name) } : {}),
+      ...(filters !== undefined ? { filters } : {}),
+      ...(alertFrequency !== undefined ? { alertFrequency } : {}),
+      updatedAt: Date.now(),
+    });
+
+    return null;
+  },
+});
+
+export const remove = mutation({
+  args: {
+    savedSearchId: v.id("savedSearches"),
+  },
+  returns: v.null(),
+  handler: async (ctx, { savedSearchId }) => {
+    await requireOwnSavedSearch(ctx, savedSearchId);
+
+    const matches = await ctx.db
+      .query("savedSearchMatches")
+      .withIndex("by_saved_search_gig", (q) =>
+        q.eq("savedSearchId", savedSearchId),
+      )
+      .collect();
+    for (const match of matches) {
+      await ctx.db.delete(match._id);
+    }
+
+    await ctx.db.delete(savedSearchId);
+    return null;
+  },
+});
+
+/**
+ * Match a newly published gig against saved searches with alerts on. Searches
+ * are narrowed by category through the index; the remaining filters are
+ * checked in memory. A gig is only ever matched once per saved search, so
+ * re-opening a paused gig does not alert again.
+ */
+export const matchPublishedGig = internalMutation({
+  args: {
+    gigId: v.id("gigs"),
+  },
+  handler: async (ctx, { gigId }) => {
+    const gig = await ctx.db.get(gigId);
+    if (!gig || gig.status !== "open") {
+      return { matched: 0 };
+    }
+
+    const candidates: Doc<"savedSearches">[] = [];
+    for (const alertFrequency of ["instant", "daily"] as const) {
+      for (const category of [gig.category, undefined]) {
+        const searches = await ctx.db
+          .query("savedSearches")
+          .withIndex("by_alert_category", (q) =>
+            q
+              .eq("alertFrequency", alertFrequency)
+              .eq("filters.category", category),
+          )
+          .collect();
+        candidates.push(...searches);
+      }
+    }
+
+    const now = Date.now();
+    let matched = 0;
+
+    for (const savedSearch of candidates) {
+      if (savedSearch.userId === gig.employerId) continue;
+      if (!matchesPublicGigFilters(gig, savedSearch.filters)) continue;
+
+      const existing = await ctx.db
+        .query("savedSearchMatches")
+        .withIndex("by_saved_search_gig", (q) =>
+          q.eq("savedSearchId", savedSearch._id).eq("gigId", gigId),
+        )
+        .unique();
+      if (existing) continue;
+
+      const isInstant = savedSearch.alertFrequency === "instant";
+      await ctx.db.insert("savedSearchMatches", {
+        savedSearchId: savedSearch._id,
+        userId: savedSearch.userId,
+        gigId,
+        createdAt: now,
+        // Instant alerts are delivered now and never join a digest
+        ...(isInstant ? { digestedAt: now } : {}),
+      });
+      await ctx.db.patch(savedSearch._id, { lastMatchedAt: now });
+
+      if (isInstant) {
+        await createNotification(ctx, {
+          userId: savedSearch.userId,
+          type: "gig_alert",
+          title: `New gig for "${savedSearch.name}"`,
+          body: gig.title,
+          link: `/app/gigs/${gigId}`,
+          gigId,
+          savedSearchId: savedSearch._id,
+        });
+      }
+
+      matched += 1;
+    }
+
+    return { matched };
+  },
+});
+
+/**
+ * Daily digest: one notification per user summarizing the gigs their "daily"
+ * saved searches matched since the last digest. Processes a batch of users
+ * per run and reschedules itself until no undigested matches remain.
+ */
+export const sendDailyDigests = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    let digests = 0;
+
+    while (digests < DIGEST_USERS_PER_RUN) {
+      const next = await ctx.db
+        .query("savedSearchMatches")
+        .withIndex("by_digested", (q) => q.eq("digestedAt", undefined))
+        .first();
+      if (!next) {
+        return { digests, isDone: true };
+      }
+
+      const matches = await ctx.db
+        .query("savedSearchMatches")
+        .withIndex("by_user_digested", (q) =>
+          q.eq("userId", next.userId).eq("digestedAt", undefined),
+        )
+        .collect();
+
+      // Only gigs still open are worth a digest entry
+      const countsBySearch = new Map<Id<"savedSearches">, number>();
+      for (const match of matches) {
+        await ctx.db.patch(match._id, { digestedAt: now });
+
+        const gig = await ctx.db.get(match.gigId);
+        if (gig?.status !== "open") continue;
+        countsBySearch.set(
+          match.savedSearchId,
+          (countsBySearch.get(match.savedSearchId) ?? 0) + 1,
+        );
+      }
+
+      const total = [...countsBySearch.values()].reduce(
+        (sum, count) => sum + count,
+        0,
+      );
+      if (total > 0) {
+        const lines: string[] = [];
+        for (const [savedSearchId, count] of countsBySearch) {
+          if (lines.length === DIGEST_MAX_LISTED_SEARCHES) break;
+          const savedSearch = await ctx.db.get(savedSearchId);
+          if (savedSearch) {
+            lines.push(`${savedSearch.name}: ${count}`);
+          }
+        }
+
+        await createNotification(ctx, {
+          userId: next.userId,
+          type: "gig_digest",
+          title:
+            total === 1
+              ? "1 new gig matches your saved searches"
+              : `${total} new gigs match your saved searches`,
+          body: lines.join("\n"),
+          link: "/app/gigs",
+        });
+      }
+
+      digests += 1;
+    }
+
+    await ctx.scheduler.runAfter(
+      0,
+      internal.savedSearches.sendDailyDigests,
+      {},
+    );
+    return { digests, isDone: false };
+  },
+});
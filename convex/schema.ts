@@ -142,6 +142,7 @@ const schema = defineSchema({
     updatedAt: v.number(), // Timestamp of the last modification.
     createdBy: v.string(), // The clerkId of the user who created this record, or "system".
     deletedAt: v.optional(v.number()), // Timestamp for soft deletes. Null if not deleted.
+    lastSignInAt: v.optional(v.number()), // From Clerk session.created webhooks
   })
     // --- Indexes for Performance ---
     // A unique index on clerkId is critical for finding users based on their auth identity.
@@ -153,7 +154,27 @@ const schema = defineSchema({
     // Index for role-based queries and admin operations
     .index("by_roles", ["roles"])
     // Index for efficient user updates and cache invalidation
-    .index("by_updated_at", ["updatedAt"]),
+    .index("by_updated_at", ["updatedAt"])
+    // Profile embeddings for gig-to-talent matching (see convex/matching.ts)
+    .vectorIndex("by_embedding", {
+      vectorField: "embedding",
+      dimensions: 256,
+    }),
+
+  // One row per role of each active user, mirrored from `users.roles` so
+  // users holding a role can be found by index (e.g. support moderators).
+  userRoles: defineTable({
+    userId: v.id("users"),
+    role: v.union(
+      v.literal("user"),
+      v.literal("admin"),
+      v.literal("moderator"),
+      v.literal("freelancer"),
+      v.literal("client"),
+    ),
+  })
+    .index("by_role", ["role"])
+    .index("by_user", ["userId"]),
 
   profiles: defineTable({
     userId: v.id("users"),
@@ -195,13 +216,18 @@ const schema = defineSchema({
     contactEmail: v.optional(v.string()),
     lastUpdated: v.number(),
     version: v.number(),
+    searchText: v.optional(v.string()), // Headline and bio for full-text search (see convex/search.ts)
     createdAt: v.number(),
     updatedAt: v.number(),
   })
     .index("by_user", ["userId"])
     .index("by_slug", ["slug"])
     .index("by_last_activity", ["lastActivityAt"])
-    .index("by_experience", ["experienceLevel"]),
+    .index("by_experience", ["experienceLevel"])
+    .searchIndex("search_text", {
+      searchField: "searchText",
+      filterFields: ["visibility", "experienceLevel"],
+    }),
 
   profileEducation: defineTable({
     userId: v.id("users"),
@@ -415,6 +441,9 @@ const schema = defineSchema({
       }),
     ),
     indexedAt: v.optional(v.number()),
+    embedding: v.optional(v.array(v.number())), // Optional: The vector embedding of the gig's title, skills and description.
+    embeddingUpdatedAt: v.optional(v.number()), // Optional: Timestamp of the last embedding update.
+    searchText: v.optional(v.string()), // Title, description and skills for full-text search (see convex/search.ts)
   })
     // --- Indexes for Performance ---
     // To quickly find all gigs posted by a specific employer.
@@ -434,6 +463,9 @@ const schema = defineSchema({
     // Find gigs by deadline for urgent work
     .index("by_deadline", ["deadline"])
 
+    // Open gigs whose application window is closing, for saved gig reminders
+    .index("by_status_application_deadline", ["status", "applicationDeadline"])
+
     // Find gigs by budget type (fixed, hourly, milestone)
     .index("by_budget_type", ["budget.type"])
 
@@ -454,7 +486,20 @@ const schema = defineSchema({
     ])
 
     // Find featured gigs
-    .index("by_featured", ["metadata.featuredUntil"]),
+    .index("by_featured", ["metadata.featuredUntil"])
+
+    // Full-text search over title, description and skills
+    .searchIndex("search_text", {
+      searchField: "searchText",
+      filterFields: ["status", "category", "experienceRequired"],
+    })
+
+    // Gig embeddings for candidate recommendations (see convex/matching.ts)
+    .vectorIndex("by_embedding", {
+      vectorField: "embedding",
+      dimensions: 256,
+      filterFields: ["status"],
+    }),
 
   applications: defineTable({
     // --- Core Relationships ---
@@ -484,6 +529,16 @@ const schema = defineSchema({
         headline: v.optional(v.string()),
         reputationScore: v.optional(v.number()),
         location: v.optional(v.string()),
+        certificates: v.optional(
+          v.array(
+            v.object({
+              certificateId: v.id("certificates"),
+              courseTitle: v.string(),
+              verificationCode: v.string(),
+              issuedAt: v.number(),
+            }),
+          ),
+        ),
       }),
     ),
 
@@ -535,6 +590,82 @@ const schema = defineSchema({
     createdAt: v.number(),
   }).index("by_application", ["applicationId", "createdAt"]),
 
+  // Daily per-gig rollups of views and hiring funnel progress, written as
+  // status events happen so employer analytics never scan applications.
+  gigAnalyticsDaily: defineTable({
+    gigId: v.id("gigs"),
+    employerId: v.id("users"),
+    day: v.number(), // UTC midnight of the day the activity happened
+    views: v.number(),
+    // Applications reaching each funnel stage for the first time that day
+    submitted: v.number(),
+    viewed: v.number(),
+    shortlisted: v.number(),
+    interview: v.number(),
+    hired: v.number(),
+    // Durations from submission, summed so averages can be rolled up
+    firstViewCount: v.number(),
+    firstViewTotalMs: v.number(),
+    hireTotalMs: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_gig_day", ["gigId", "day"])
+    .index("by_employer_day", ["employerId", "day"]),
+
+  // Last day each signed-in viewer was counted for a gig, so repeat visits
+  // on the same UTC day add one view at most.
+  gigViewers: defineTable({
+    gigId: v.id("gigs"),
+    viewerId: v.id("users"),
+    lastViewedDay: v.number(), // UTC midnight
+  }).index("by_gig_viewer", ["gigId", "viewerId"]),
+
+  // Interviews for applications in `interview_requested`. The employer
+  // proposes slots, the candidate confirms one; rescheduling replaces the
+  // slots and bumps `sequence` so calendar clients update the same event.
+  interviews: defineTable({
+    applicationId: v.id("applications"),
+    gigId: v.id("gigs"),
+    employerId: v.id("users"),
+    candidateId: v.id("users"),
+    status: v.union(
+      v.literal("proposed"),
+      v.literal("scheduled"),
+      v.literal("cancelled"),
+    ),
+    format: v.union(
+      v.literal("video"),
+      v.literal("phone"),
+      v.literal("in_person"),
+    ),
+    location: v.optional(v.string()), // Meeting link, phone number or address
+    notes: v.optional(v.string()),
+    durationMinutes: v.number(),
+    slots: v.array(
+      v.object({
+        startsAt: v.number(), // UTC timestamp
+        timezone: v.string(), // IANA timezone the slot was proposed in
+      }),
+    ),
+    employerTimezone: v.string(),
+    candidateTimezone: v.string(),
+    scheduledSlot: v.optional(
+      v.object({
+        startsAt: v.number(),
+        timezone: v.string(),
+      }),
+    ),
+    sequence: v.number(), // iCalendar SEQUENCE, bumped on every change
+    conversationId: v.optional(v.id("conversations")),
+    cancelledBy: v.optional(v.id("users")),
+    cancellationReason: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_application", ["applicationId", "createdAt"])
+    .index("by_candidate", ["candidateId", "status"])
+    .index("by_employer", ["employerId", "status"]),
+
   employerNotes: defineTable({
     applicationId: v.id("applications"),
     authorId: v.id("users"),
@@ -543,6 +674,143 @@ const schema = defineSchema({
     editedAt: v.optional(v.number()),
   }).index("by_application", ["applicationId", "createdAt"]),
 
+  // --- Gig Milestones (for budget.type === "milestone") ---
+  milestones: defineTable({
+    gigId: v.id("gigs"),
+    applicationId: v.optional(v.id("applications")), // Set once a candidate is hired
+    title: v.string(), // <= 120 chars enforced at mutation layer
+    description: v.optional(v.string()), // <= 1000 chars
+    amount: v.number(), // Major currency units, same as gig budget
+    currency: Currency,
+    dueDate: v.optional(v.number()),
+    order: v.number(), // Sequence of this milestone within the gig
+    deliverables: v.array(v.string()), // Expected outputs, e.g. "Wireframes"
+    status: v.union(
+      v.literal("pending"),
+      v.literal("funded"),
+      v.literal("approved"),
+      v.literal("cancelled"),
+    ),
+    fundedAt: v.optional(v.number()),
+    approvedAt: v.optional(v.number()),
+    cancelledAt: v.optional(v.number()),
+    createdBy: v.id("users"),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_gig", ["gigId", "order"])
+    .index("by_application", ["applicationId"]),
+
+  // Gigs bookmarked by candidates; mirrored by gigs.metadata.savedCount
+  savedGigs: defineTable({
+    userId: v.id("users"),
+    gigId: v.id("gigs"),
+    createdAt: v.number(),
+    reminderSentAt: v.optional(v.number()), // Application deadline reminder
+  })
+    .index("by_user", ["userId", "createdAt"])
+    .index("by_user_gig", ["userId", "gigId"])
+    .index("by_gig_reminder", ["gigId", "reminderSentAt"]),
+
+  // --- Saved Gig Searches & Alerts ---
+  savedSearches: defineTable({
+    userId: v.id("users"),
+    name: v.string(), // <= 80 chars enforced at mutation layer
+    filters: v.object({
+      // Mirrors the public gig list filters in convex/gigs.ts
+      search: v.optional(v.string()),
+      category: v.optional(
+        v.union(
+          v.literal("design"),
+          v.literal("development"),
+          v.literal("writing"),
+          v.literal("marketing"),
+          v.literal("data"),
+          v.literal("video"),
+          v.literal("audio"),
+          v.literal("business"),
+          v.literal("other"),
+        ),
+      ),
+      difficultyLevel: v.optional(
+        v.union(
+          v.literal("beginner"),
+          v.literal("intermediate"),
+          v.literal("advanced"),
+          v.literal("expert"),
+        ),
+      ),
+      experienceRequired: v.optional(
+        v.union(
+          v.literal("entry"),
+          v.literal("intermediate"),
+          v.literal("senior"),
+          v.literal("expert"),
+        ),
+      ),
+      budgetMin: v.optional(v.number()),
+      budgetMax: v.optional(v.number()),
+      budgetType: v.optional(
+        v.union(
+          v.literal("fixed"),
+          v.literal("hourly"),
+          v.literal("milestone"),
+        ),
+      ),
+      currency: v.optional(Currency),
+      isRemoteOnly: v.optional(v.boolean()),
+      isUrgent: v.optional(v.boolean()),
+      locationType: v.optional(
+        v.union(v.literal("remote"), v.literal("onsite"), v.literal("hybrid")),
+      ),
+      skills: v.optional(v.array(v.string())),
+    }),
+    alertFrequency: v.union(
+      v.literal("instant"), // In-app notification as soon as a gig matches
+      v.literal("daily"), // Matches are collected into the daily digest
+      v.literal("off"),
+    ),
+    lastMatchedAt: v.optional(v.number()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_user", ["userId", "createdAt"])
+    .index("by_alert_category", ["alertFrequency", "filters.category"]),
+
+  // Gigs matched against a saved search when they were published
+  savedSearchMatches: defineTable({
+    savedSearchId: v.id("savedSearches"),
+    userId: v.id("users"),
+    gigId: v.id("gigs"),
+    createdAt: v.number(),
+    digestedAt: v.optional(v.number()), // Set once included in a daily digest
+  })
+    .index("by_saved_search_gig", ["savedSearchId", "gigId"])
+    .index("by_digested", ["digestedAt", "createdAt"])
+    .index("by_user_digested", ["userId", "digestedAt"]),
+
+  // --- In-app Notifications ---
+  notifications: defineTable({
+    userId: v.id("users"),
+    type: v.union(
+      v.literal("gig_alert"),
+      v.literal("gig_digest"),
+      v.literal("saved_gig_deadline"),
+      v.literal("interview_proposed"),
+      v.literal("interview_scheduled"),
+      v.literal("interview_cancelled"),
+    ),
+    title: v.string(),
+    body: v.optional(v.string()),
+    link: v.optional(v.string()), // App-relative URL to open, e.g. /app/gigs/<id>
+    gigId: v.optional(v.id("gigs")),
+    savedSearchId: v.optional(v.id("savedSearches")),
+    readAt: v.optional(v.number()),
+    createdAt: v.number(),
+  })
+    .index("by_user", ["userId", "createdAt"])
+    .index("by_user_read", ["userId", "readAt"]),
+
   analyticsEvents: defineTable({
     name: v.string(),
     properties: v.optional(v.any()),
@@ -661,6 +929,7 @@ const schema = defineSchema({
     updatedBy: v.optional(v.string()), // Last user who updated the course
     createdBy: v.string(),
     deletedAt: v.optional(v.number()),
+    searchText: v.optional(v.string()), // Title and descriptions for full-text search (see convex/search.ts)
   })
     .index("by_author", ["authorId"])
     .index("by_category", ["category"])
@@ -676,7 +945,11 @@ const schema = defineSchema({
     .index("by_status_category", ["status", "category"])
     .index("by_status_featured", ["status", "isFeatured"])
     .index("by_active", ["deletedAt"])
-    .index("by_updated_at", ["updatedAt"]),
+    .index("by_updated_at", ["updatedAt"])
+    .searchIndex("search_text", {
+      searchField: "searchText",
+      filterFields: ["status", "category"],
+    }),
 
   modules: defineTable({
     // --- Core Module Details ---
@@ -768,7 +1041,16 @@ const schema = defineSchema({
     // --- Lesson Settings ---
     isPublished: v.optional(v.boolean()),
     isFree: v.optional(v.boolean()), // Allow free preview lessons
-    isLocked: v.optional(v.boolean()),
+    isLocked: v.optional(v.boolean()), // Opens once the previous lesson is completed
+    unlockAfterDays: v.optional(v.number()), // Drip: days after enrolledAt
+
+    // --- Quiz Settings (contentType === "quiz") ---
+    quizSettings: v.optional(
+      v.object({
+        passingScore: v.number(), // Percentage (0-100) required to pass
+        maxAttempts: v.optional(v.number()), // Unlimited when omitted
+      }),
+    ),
 
     // --- Standard System Fields ---
     updatedAt: v.number(),
@@ -802,9 +1084,14 @@ const schema = defineSchema({
       v.literal("lesson-thumbnail"),
       v.literal("lesson-resource"),
       v.literal("user-avatar"),
+      v.literal("chat-attachment"),
       v.literal("other"),
     ),
 
+    // --- Chat attachments ---
+    conversationId: v.optional(v.id("conversations")), // Restricts access to participants
+    previewStorageId: v.optional(v.id("_storage")), // Image thumbnail (first page for PDFs)
+
     // --- Media-specific metadata ---
     duration: v.optional(v.number()), // For videos/audio in seconds
     dimensions: v.optional(
@@ -832,7 +1119,9 @@ const schema = defineSchema({
     .index("by_uploaded_by", ["uploadedBy"])
     .index("by_public", ["isPublic"])
     .index("by_content_type", ["contentType"])
-    .index("by_active", ["deletedAt"]),
+    .index("by_active", ["deletedAt"])
+    .index("by_conversation", ["conversationId"])
+    .index("by_preview_storage_id", ["previewStorageId"]),
 
   // --- LMS User Progress & Enrollment ---
 
@@ -877,6 +1166,21 @@ const schema = defineSchema({
     .index("by_status", ["status"])
     .index("by_payment_status", ["paymentStatus"]),
 
+  certificates: defineTable({
+    userId: v.id("users"),
+    courseId: v.id("courses"),
+    enrollmentId: v.id("enrollments"),
+    verificationCode: v.string(), // Public, e.g. "7KQM-2XWP-HR4D"
+    // Copied at issue time so the certificate reads the same after renames
+    recipientName: v.string(),
+    courseTitle: v.string(),
+    instructorName: v.string(),
+    issuedAt: v.number(),
+  })
+    .index("by_user", ["userId"])
+    .index("by_enrollment", ["enrollmentId"])
+    .index("by_verification_code", ["verificationCode"]),
+
   lessonProgress: defineTable({
     // Core references
     userId: v.id("users"),
@@ -939,9 +1243,83 @@ const schema = defineSchema({
     quizId: v.id("quizzes"),
     selectedOptionId: v.id("quizOptions"),
     isCorrect: v.boolean(), // Denormalized for easier querying.
+    submissionId: v.optional(v.id("quizSubmissions")), // Graded lesson attempt
     // Standard System Fields
     createdBy: v.string(),
-  }).index("by_student_and_quiz", ["studentId", "quizId"]),
+  })
+    .index("by_student_and_quiz", ["studentId", "quizId"])
+    .index("by_submission", ["submissionId"]),
+
+  // One graded run through every question of a quiz lesson.
+  quizSubmissions: defineTable({
+    studentId: v.id("users"),
+    lessonId: v.id("lessons"),
+    courseId: v.id("courses"),
+    attemptNumber: v.number(),
+    correctCount: v.number(),
+    totalQuestions: v.number(),
+    score: v.number(), // Percentage (0-100)
+    passed: v.boolean(),
+    createdAt: v.number(),
+  }).index("by_student_lesson", ["studentId", "lessonId", "attemptNumber"]),
+
+  // Threaded lesson discussion. Replies are one level deep under a root comment.
+  lessonComments: defineTable({
+    lessonId: v.id("lessons"),
+    courseId: v.id("courses"),
+    authorId: v.id("users"),
+    parentId: v.optional(v.id("lessonComments")), // Root comment for replies
+    body: v.string(),
+    likeCount: v.number(), // Denormalized from lessonCommentLikes
+    replyCount: v.number(), // Live replies; only maintained on root comments
+    editedAt: v.optional(v.number()),
+    // Moderation
+    hiddenAt: v.optional(v.number()),
+    hiddenBy: v.optional(v.id("users")),
+    hiddenReason: v.optional(v.string()),
+    // Standard System Fields
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    deletedAt: v.optional(v.number()),
+  })
+    .index("by_lesson_parent", ["lessonId", "parentId"])
+    .index("by_parent", ["parentId"]),
+
+  lessonCommentLikes: defineTable({
+    commentId: v.id("lessonComments"),
+    userId: v.id("users"),
+    createdAt: v.number(),
+  }).index("by_comment_user", ["commentId", "userId"]),
+
+  courseReviews: defineTable({
+    courseId: v.id("courses"),
+    authorId: v.id("users"),
+    rating: v.number(), // Whole stars, 1-5
+    body: v.optional(v.string()),
+    helpfulCount: v.number(), // Denormalized from courseReviewVotes
+    editedAt: v.optional(v.number()),
+    // Instructor response, one per review
+    reply: v.optional(
+      v.object({
+        body: v.string(),
+        authorId: v.id("users"),
+        createdAt: v.number(),
+        editedAt: v.optional(v.number()),
+      }),
+    ),
+    // Standard System Fields
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    deletedAt: v.optional(v.number()),
+  })
+    .index("by_course", ["courseId"])
+    .index("by_course_author", ["courseId", "authorId"]),
+
+  courseReviewVotes: defineTable({
+    reviewId: v.id("courseReviews"),
+    userId: v.id("users"),
+    createdAt: v.number(),
+  }).index("by_review_user", ["reviewId", "userId"]),
 
   // --- Chat Service Tables ---
 
@@ -962,6 +1340,8 @@ const schema = defineSchema({
       v.object({
         applicationId: v.optional(v.id("applications")),
         deliverableId: v.optional(v.string()),
+        courseId: v.optional(v.id("courses")), // Mentor conversations
+        subject: v.optional(v.string()), // Support tickets
       }),
     ),
     createdAt: v.number(),
@@ -985,6 +1365,10 @@ const schema = defineSchema({
         v.literal("work.submitted"),
         v.literal("work.approved"),
         v.literal("work.revision_requested"),
+        v.literal("interview.proposed"),
+        v.literal("interview.scheduled"),
+        v.literal("interview.rescheduled"),
+        v.literal("interview.cancelled"),
       ),
     ),
     body: v.optional(v.string()),
@@ -996,6 +1380,7 @@ const schema = defineSchema({
           name: v.string(),
           contentType: v.string(),
           size: v.number(),
+          previewUrl: v.optional(v.string()),
         }),
       ),
     ),
@@ -1005,6 +1390,27 @@ const schema = defineSchema({
         readBy: v.optional(v.array(v.id("users"))),
       }),
     ),
+    // Set by the sender's edits; `editHistory` keeps each replaced body
+    editedAt: v.optional(v.number()),
+    editHistory: v.optional(
+      v.array(
+        v.object({
+          body: v.string(),
+          editedAt: v.number(),
+        }),
+      ),
+    ),
+    // Soft delete: the row stays as a tombstone with body and files removed
+    deletedAt: v.optional(v.number()),
+    deletedBy: v.optional(v.id("users")),
+    reactions: v.optional(
+      v.array(
+        v.object({
+          emoji: v.string(),
+          userIds: v.array(v.id("users")),
+        }),
+      ),
+    ),
     createdAt: v.number(),
   })
     .index("by_conversation_desc", ["conversationId", "createdAt"])
@@ -1016,6 +1422,9 @@ const schema = defineSchema({
     conversationId: v.id("conversations"),
     lastReadMessageId: v.optional(v.id("messages")),
     lastReadAt: v.optional(v.number()),
+    // Messages from others since `lastReadAt`, kept by `appendMessage` so
+    // unread badges never count messages.
+    unreadCount: v.optional(v.number()),
   })
     .index("by_user_recent", ["userId", "lastReadAt"])
     .index("by_user_conversation", ["userId", "conversationId"])
@@ -1032,20 +1441,60 @@ const schema = defineSchema({
       v.literal("work.approved"),
       v.literal("work.revision_requested"),
       v.literal("conversation.archived"),
+      v.literal("message.edited"),
+      v.literal("message.deleted"),
+      v.literal("message.bulk_sent"),
     ),
     metadata: v.optional(v.any()),
     createdAt: v.number(),
   }).index("by_conversation_event", ["conversationId", "eventType"]),
 
-  // Table for managing ephemeral real-time status
+  deliverables: defineTable({
+    conversationId: v.id("conversations"),
+    applicationId: v.id("applications"),
+    gigId: v.id("gigs"),
+    submittedBy: v.id("users"),
+    version: v.number(), // 1-based, increments with each resubmission
+    notes: v.optional(v.string()),
+    files: v.array(
+      v.object({
+        storageId: v.id("_storage"),
+        url: v.string(),
+        name: v.string(),
+        contentType: v.string(),
+        size: v.number(),
+      }),
+    ),
+    status: v.union(
+      v.literal("submitted"),
+      v.literal("approved"),
+      v.literal("revision_requested"),
+    ),
+    submissionMessageId: v.optional(v.id("messages")),
+    reviewedBy: v.optional(v.id("users")),
+    reviewComment: v.optional(v.string()),
+    reviewedAt: v.optional(v.number()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_conversation_version", ["conversationId", "version"])
+    .index("by_application", ["applicationId"]),
+
+  // Table for managing ephemeral real-time status. One row per user without
+  // a conversation tracks presence; typing rows are scoped to a conversation.
   userStatus: defineTable({
     userId: v.id("users"),
     conversationId: v.optional(v.id("conversations")),
-    status: v.string(), // "online", "offline", "typing"
+    status: v.union(
+      v.literal("online"),
+      v.literal("offline"),
+      v.literal("typing"),
+    ),
     lastUpdated: v.number(),
   })
     .index("by_user", ["userId"])
-    .index("by_conversation_and_status", ["conversationId", "status"]),
+    .index("by_conversation_and_status", ["conversationId", "status"])
+    .index("by_status_and_updated", ["status", "lastUpdated"]),
 
   // --- Payments & Ledger Service Tables ---
 
@@ -1111,7 +1560,18 @@ const schema = defineSchema({
     relatedEntityId: v.optional(v.string()), // e.g., the courseId or gigId
     // Standard System Fields
     createdBy: v.string(), // clerkId
-  }).index("by_user", ["userId"]),
+  })
+    .index("by_user", ["userId"])
+    .index("by_user_rule_entity", ["userId", "ruleId", "relatedEntityId"]),
+
+  // Materialized point totals per user (projection of pointsLog for leaderboards)
+  gamificationScores: defineTable({
+    userId: v.id("users"),
+    totalPoints: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_user", ["userId"])
+    .index("by_points", ["totalPoints"]),
 
   // --- Definitions for Badges & Titles ---
 
@@ -1191,6 +1651,17 @@ const schema = defineSchema({
 
   // --- Logging Service Tables ---
 
+  // Processed webhook deliveries, keyed by the sender's message ID (svix-id
+  // for Clerk) so redelivered or replayed messages are ignored
+  webhookEvents: defineTable({
+    source: v.literal("clerk"),
+    messageId: v.string(),
+    eventType: v.string(),
+    processedAt: v.number(),
+  })
+    .index("by_source_message", ["source", "messageId"])
+    .index("by_processed_at", ["processedAt"]),
+
   adminLogs: defineTable({
     // Admin action tracking
     action: v.string(), // Action performed
@@ -0,0 +1,200 @@
+/**
+ * FULL-TEXT SEARCH
+ *
+ * Convex search indexes cover a single field, so gigs, courses and profiles
+ * each keep a denormalized `searchText` field that joins the text worth
+ * matching on. Mutations that change those fields call the matching
+ * `sync*SearchText` helper; `backfillSearchText` runs from a daily cron to
+ * fill in existing rows and pick up changes to what the text covers.
+ */
+
+import type { PaginationOptions } from "convex/server";
+import { internalMutation } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+
+const BACKFILL_BATCH_SIZE = 100;
+
+/** Longest search term accepted; longer input is truncated. */
+export const MAX_SEARCH_TERM_LENGTH = 200;
+
+function joinSearchText(parts: Array<string | undefined>): string {
+  return parts
+    .map((part) => part?.trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Trim a user supplied search term, returning undefined when it is blank.
+ */
+export function normalizeSearchTerm(
+  term: string | undefined,
+): string | undefined {
+  const trimmed = term?.trim();
+  return trimmed ? trimmed.slice(0, MAX_SEARCH_TERM_LENGTH) : undefined;
+}
+
+/**
+ * In-memory approximation of the search index for a single document: every
+ * word of the term must appear in the text, the last one as a prefix.
+ */
+export function matchesSearchTerm(searchText: string, term: string): boolean {
+  const words = new Set(searchText.toLowerCase().split(/[^\p{L}\p{N}]+/u));
+  const terms = term
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+  const lastTerm = terms.pop();
+
+  if (!terms.every((word) => words.has(word))) {
+    return false;
+  }
+
+  return (
+    lastTerm === undefined ||
+    [...words].some((word) => word.startsWith(lastTerm))
+  );
+}
+
+export function buildGigSearchText(
+  gig: Pick<
+    Doc<"gigs">,
+    "title" | "description" | "skills" | "category" | "location"
+  >,
+): string {
+  return joinSearchText([
+    gig.title,
+    gig.description,
+    gig.skills.join(" "),
+    gig.category,
+    gig.location?.city,
+    gig.location?.country,
+  ]);
+}
+
+export function buildCourseSearchText(
+  course: Pick<Doc<"courses">, "title" | "shortDescription" | "description">,
+): string {
+  return joinSearchText([
+    course.title,
+    course.shortDescription,
+    course.description,
+  ]);
+}
+
+export function buildProfileSearchText(
+  profile: Pick<Doc<"profiles">, "headline" | "bio">,
+): string {
+  return joinSearchText([profile.headline, profile.bio]);
+}
+
+export async function syncGigSearchText(
+  ctx: MutationCtx,
+  gigId: Id<"gigs">,
+): Promise<void> {
+  const gig = await ctx.db.get(gigId);
+  if (!gig) return;
+
+  const searchText = buildGigSearchText(gig);
+  if (gig.searchText !== searchText) {
+    await ctx.db.patch(gigId, { searchText });
+  }
+}
+
+export async function syncCourseSearchText(
+  ctx: MutationCtx,
+  courseId: Id<"courses">,
+): Promise<void> {
+  const course = await ctx.db.get(courseId);
+  if (!course) return;
+
+  const searchText = buildCourseSearchText(course);
+  if (course.searchText !== searchText) {
+    await ctx.db.patch(courseId, { searchText });
+  }
+}
+
+export async function syncProfileSearchText(
+  ctx: MutationCtx,
+  profileId: Id<"profiles">,
+): Promise<void> {
+  const profile = await ctx.db.get(profileId);
+  if (!profile) return;
+
+  const searchText = buildProfileSearchText(profile);
+  if (profile.searchText !== searchText) {
+    await ctx.db.patch(profileId, { searchText });
+  }
+}
+
+async function syncGigSearchPage(
+  ctx: MutationCtx,
+  paginationOpts: PaginationOptions,
+) {
+  const result = await ctx.db.query("gigs").paginate(paginationOpts);
+  for (const gig of result.page) {
+    await syncGigSearchText(ctx, gig._id);
+  }
+  return { ...result, processed: result.page.length };
+}
+
+async function syncCourseSearchPage(
+  ctx: MutationCtx,
+  paginationOpts: PaginationOptions,
+) {
+  const result = await ctx.db.query("courses").paginate(paginationOpts);
+  for (const course of result.page) {
+    await syncCourseSearchText(ctx, course._id);
+  }
+  return { ...result, processed: result.page.length };
+}
+
+async function syncProfileSearchPage(
+  ctx: MutationCtx,
+  paginationOpts: PaginationOptions,
+) {
+  const result = await ctx.db.query("profiles").paginate(paginationOpts);
+  for (const profile of result.page) {
+    await syncProfileSearchText(ctx, profile._id);
+  }
+  return { ...result, processed: result.page.length };
+}
+
+/**
+ * Populate `searchText` for one table, one batch per run, rescheduling
+ * itself until the table is exhausted.
+ */
+export const backfillSearchText = internalMutation({
+  args: {
+    table: v.union(
+      v.literal("gigs"),
+      v.literal("courses"),
+      v.literal("profiles"),
+    ),
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, { table, cursor }) => {
+    const paginationOpts = {
+      cursor: cursor ?? null,
+      numItems: BACKFILL_BATCH_SIZE,
+    };
+    const { processed, isDone, continueCursor } =
+      table === "gigs"
+        ? await syncGigSearchPage(ctx, paginationOpts)
+        : table === "courses"
+          ? await syncCourseSearchPage(ctx, paginationOpts)
+          : await syncProfileSearchPage(ctx, paginationOpts);
+
+    if (!isDone) {
+      await ctx.scheduler.runAfter(0, internal.search.backfillSearchText, {
+        table,
+        cursor: continueCursor,
+      });
+    }
+
+    return { processed, isDone };
+  },
+});
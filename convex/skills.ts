@@ -22,9 +22,11 @@
  */
 
 import { mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
 import { ConvexError } from "convex/values";
 import { v } from "convex/values";
 import type { Doc } from "./_generated/dataModel";
+import { syncUserRoles } from "./users";
 
 // ============================================================================
 // TYPE DEFINITIONS & CONSTANTS
@@ -965,6 +967,7 @@ export const updateUserSkills = mutation({
         embedding: undefined,
         embeddingUpdatedAt: undefined,
       });
+      await syncUserRoles(ctx, userId, ["user"]);
 
       // Fetch the newly created user
       user = await ctx.db.get(userId);
@@ -1022,6 +1025,9 @@ export const updateUserSkills = mutation({
       profile: profileUpdate,
       updatedAt: Date.now(),
     });
+    await ctx.scheduler.runAfter(0, internal.users.generateUserEmbedding, {
+      userId: user._id,
+    });
 
     return {
       success: true,
@@ -1118,6 +1124,9 @@ export const addUserSkills = mutation({
       profile: profileUpdate,
       updatedAt: Date.now(),
     });
+    await ctx.scheduler.runAfter(0, internal.users.generateUserEmbedding, {
+      userId: user._id,
+    });
 
     return {
       success: true,
@@ -1198,6 +1207,9 @@ export const removeUserSkills = mutation({
       profile: profileUpdate,
       updatedAt: Date.now(),
     });
+    await ctx.scheduler.runAfter(0, internal.users.generateUserEmbedding, {
+      userId: user._id,
+    });
 
     return {
       success: true,
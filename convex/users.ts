@@ -11,9 +11,15 @@
  */
 
 import { mutation, query, internalMutation } from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
 import { ConvexError, v } from "convex/values";
-import type { Id } from "./_generated/dataModel";
+import type { Doc, Id } from "./_generated/dataModel";
 import { internal } from "./_generated/api";
+import { canTransition } from "./applicationStatus";
+import { refreshUserEmbedding } from "./matching";
+import { normalizeSearchTerm } from "./search";
+import { recordApplicationStatusEvent } from "./employerAnalytics";
+import { cancelInterviewsForStatusChange } from "./interviews";
 
 // Define the type for the wallet initialization function reference
 type InitializeWalletsFunction = {
@@ -33,6 +39,13 @@ type InitializeWalletsFunction = {
 const DEFAULT_CURRENCIES = ["EGP", "USD", "EUR"] as const;
 const DEFAULT_USER_ROLE = "user" as const;
 const DEFAULT_INITIAL_BALANCE = 0;
+const DEFAULT_PROFILE_SEARCH_LIMIT = 20;
+const MAX_PROFILE_SEARCH_LIMIT = 100;
+
+// Svix rejects deliveries signed more than five minutes ago and stops
+// retrying a message within about a day, so week-old claims are safe to drop
+const WEBHOOK_EVENT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const WEBHOOK_PRUNE_BATCH_SIZE = 200;
 
 // --- Validation Schemas ---
 const CreateUserSchema = v.object({
@@ -119,6 +132,176 @@ const createDefaultProfile = () => {
   };
 };
 
+/**
+ * The denormalized applicant fields employers see while screening. Headline
+ * and avatar prefer the public profile, matching the profile page, and
+ * earned course certificates are listed most recent first.
+ */
+export const buildApplicantSnapshot = async (
+  ctx: QueryCtx,
+  user: Doc<"users">,
+) => {
+  const [profile, certificates] = await Promise.all([
+    ctx.db
+      .query("profiles")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .unique(),
+    ctx.db
+      .query("certificates")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect(),
+  ]);
+
+  return {
+    name: user.name,
+    avatarUrl: profile?.avatarUrl ?? user.avatarUrl,
+    headline: profile?.headline ?? user.profile?.headline,
+    certificates: certificates
+      .sort((a, b) => b.issuedAt - a.issuedAt)
+      .map((certificate) => ({
+        certificateId: certificate._id,
+        courseTitle: certificate.courseTitle,
+        verificationCode: certificate.verificationCode,
+        issuedAt: certificate.issuedAt,
+      })),
+  };
+};
+
+/**
+ * Re-denormalize the applicant snapshot on every application by a candidate
+ * after their name, avatar or certificates change.
+ */
+export const refreshApplicantSnapshots = async (
+  ctx: MutationCtx,
+  userId: Id<"users">,
+) => {
+  const user = await ctx.db.get(userId);
+  if (!user) return;
+
+  const snapshot = await buildApplicantSnapshot(ctx, user);
+  const applications = await ctx.db
+    .query("applications")
+    .withIndex("by_candidate", (q) => q.eq("candidateId", userId))
+    .collect();
+
+  for (const application of applications) {
+    await ctx.db.patch(application._id, {
+      applicantSnapshot: {
+        ...application.applicantSnapshot,
+        ...snapshot,
+      },
+    });
+  }
+};
+
+/**
+ * Mirror a user's roles into `userRoles`. Pass an empty list to drop a
+ * deleted user from every role.
+ */
+export const syncUserRoles = async (
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  roles: ReadonlyArray<Doc<"users">["roles"][number]>,
+) => {
+  const existing = await ctx.db
+    .query("userRoles")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+  const wanted = new Set(roles);
+
+  for (const row of existing) {
+    if (wanted.has(row.role)) {
+      wanted.delete(row.role);
+    } else {
+      await ctx.db.delete(row._id);
+    }
+  }
+  for (const role of wanted) {
+    await ctx.db.insert("userRoles", { userId, role });
+  }
+};
+
+/**
+ * Detach a deleted user from the rest of the platform: withdraw applications
+ * still awaiting a decision, hide their profile, and archive the
+ * conversations they take part in.
+ */
+const cascadeUserDeletion = async (ctx: MutationCtx, user: Doc<"users">) => {
+  const now = Date.now();
+
+  const applications = await ctx.db
+    .query("applications")
+    .withIndex("by_candidate", (q) => q.eq("candidateId", user._id))
+    .collect();
+  for (const application of applications) {
+    if (!canTransition(application.status, "withdrawn", "system")) {
+      continue;
+    }
+
+    await ctx.db.patch(application._id, {
+      status: "withdrawn",
+      statusUpdatedAt: now,
+      updatedAt: now,
+    });
+    await recordApplicationStatusEvent(ctx, {
+      application,
+      status: "withdrawn",
+      changedBy: user._id,
+      reason: "Candidate account deleted",
+      timestamp: now,
+    });
+    await cancelInterviewsForStatusChange(ctx, {
+      application,
+      status: "withdrawn",
+      changedBy: user._id,
+    });
+  }
+
+  const profile = await ctx.db
+    .query("profiles")
+    .withIndex("by_user", (q) => q.eq("userId", user._id))
+    .unique();
+  if (profile && profile.visibility !== "private") {
+    await ctx.db.patch(profile._id, { visibility: "private", updatedAt: now });
+  }
+
+  const memberships = await ctx.db
+    .query("userConversations")
+    .withIndex("by_user_recent", (q) => q.eq("userId", user._id))
+    .collect();
+  for (const membership of memberships) {
+    const conversation = await ctx.db.get(membership.conversationId);
+    if (conversation && !conversation.archivedAt) {
+      await ctx.db.patch(conversation._id, { archivedAt: now });
+    }
+  }
+
+  await clearPresence(ctx, user._id, now);
+};
+
+/**
+ * Take a user offline everywhere: conversation-scoped (typing) rows are
+ * deleted, since `presence.expireStale` only removes them while they are
+ * still "typing", and the user-level row is marked offline.
+ */
+const clearPresence = async (
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  at: number,
+) => {
+  const statuses = await ctx.db
+    .query("userStatus")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+  for (const status of statuses) {
+    if (status.conversationId) {
+      await ctx.db.delete(status._id);
+    } else if (status.status !== "offline") {
+      await ctx.db.patch(status._id, { status: "offline", lastUpdated: at });
+    }
+  }
+};
+
 // --- Type Definitions ---
 type CreateUserInput = {
   clerkId: string;
@@ -244,6 +427,7 @@ export const initializeUser = mutation({
         embedding: undefined,
         embeddingUpdatedAt: undefined,
       });
+      await syncUserRoles(ctx, userId, userData.roles);
 
       // Initialize user wallets
       if (initialBalances.length > 0) {
@@ -358,6 +542,7 @@ export const getUserByClerkId = query({
       embedding: v.optional(v.array(v.number())),
       embeddingUpdatedAt: v.optional(v.number()),
       deletedAt: v.optional(v.number()),
+      lastSignInAt: v.optional(v.number()),
     }),
   ),
   handler: async (ctx, { clerkId }) => {
@@ -376,63 +561,125 @@ export const getUserByClerkId = query({
 });
 
 /**
- * Fetch lightweight public profiles for a list of user IDs.
+ * Fetch lightweight public profiles, either for a list of user IDs or by
+ * searching profile headlines and bios. Search results exclude private
+ * profiles and keep the search index's relevance order.
  * Ensures the requester is authenticated and filters out deleted users.
  */
 export const getPublicProfiles = query({
   args: {
-    userIds: v.array(v.id("users")),
+    userIds: v.optional(v.array(v.id("users"))),
+    search: v.optional(v.string()),
+    experienceLevel: v.optional(
+      v.union(
+        v.literal("beginner"),
+        v.literal("intermediate"),
+        v.literal("advanced"),
+        v.literal("expert"),
+      ),
+    ),
+    limit: v.optional(v.number()),
   },
   returns: v.array(
     v.object({
       _id: v.id("users"),
       name: v.string(),
       avatarUrl: v.optional(v.string()),
+      headline: v.optional(v.string()),
+      slug: v.optional(v.string()),
     }),
   ),
-  handler: async (ctx, { userIds }) => {
+  handler: async (ctx, { userIds, search, experienceLevel, limit }) => {
     const viewerId = await getUserId(ctx);
     if (!viewerId) {
       throw new ConvexError("Not authenticated");
     }
 
-    if (userIds.length === 0) {
-      return [];
+    if (userIds) {
+      if (userIds.length === 0) {
+        return [];
+      }
+
+      const uniqueIds = Array.from(
+        new Map(userIds.map((id) => [id.toString(), id])).values(),
+      );
+
+      const profiles = await Promise.all(
+        uniqueIds.map(async (userId) => {
+          const user = await ctx.db.get(userId);
+          if (!user || user.deletedAt) {
+            return null;
+          }
+
+          const fallbackName =
+            user.name?.trim() ??
+            user.email?.trim() ??
+            `User ${userId.toString()}`;
+
+          return {
+            _id: user._id,
+            name: fallbackName,
+            avatarUrl: user.avatarUrl ?? undefined,
+          };
+        }),
+      );
+
+      return profiles
+        .filter(
+          (profile): profile is NonNullable<typeof profile> => profile !== null,
+        )
+        .map((profile) => ({
+          _id: profile._id,
+          name: profile.name,
+          avatarUrl: profile.avatarUrl,
+        }));
     }
 
-    const uniqueIds = Array.from(
-      new Map(userIds.map((id) => [id.toString(), id])).values(),
+    const size = Math.max(
+      1,
+      Math.min(limit ?? DEFAULT_PROFILE_SEARCH_LIMIT, MAX_PROFILE_SEARCH_LIMIT),
     );
-
-    const profiles = await Promise.all(
-      uniqueIds.map(async (userId) => {
-        const user = await ctx.db.get(userId);
+    const searchTerm = normalizeSearchTerm(search);
+
+    const baseQuery = searchTerm
+      ? ctx.db.query("profiles").withSearchIndex("search_text", (q) => {
+          const scoped = q.search("searchText", searchTerm);
+          return experienceLevel
+            ? scoped.eq("experienceLevel", experienceLevel)
+            : scoped;
+        })
+      : experienceLevel
+        ? ctx.db
+            .query("profiles")
+            .withIndex("by_experience", (q) =>
+              q.eq("experienceLevel", experienceLevel),
+            )
+        : ctx.db.query("profiles");
+
+    const profiles = await baseQuery
+      .filter((q) => q.neq(q.field("visibility"), "private"))
+      .take(size);
+
+    const results = await Promise.all(
+      profiles.map(async (profile) => {
+        const user = await ctx.db.get(profile.userId);
         if (!user || user.deletedAt) {
           return null;
         }
 
-        const fallbackName =
-          user.name?.trim() ??
-          user.email?.trim() ??
-          `User ${userId.toString()}`;
-
         return {
           _id: user._id,
-          name: fallbackName,
-          avatarUrl: user.avatarUrl ?? undefined,
+          name: user.name?.trim() ?? user.email?.trim() ?? profile.slug,
+          avatarUrl: profile.avatarUrl ?? user.avatarUrl ?? undefined,
+          headline: profile.headline,
+          slug: profile.slug,
         };
       }),
     );
 
-    return profiles
-      .filter(
-        (profile): profile is NonNullable<typeof profile> => profile !== null,
-      )
-      .map((profile) => ({
-        _id: profile._id,
-        name: profile.name,
-        avatarUrl: profile.avatarUrl,
-      }));
+    return results.filter(
+      (result): result is NonNullable<typeof result> => result !== null,
+    );
   },
 });
 
@@ -443,7 +690,7 @@ export const getPublicProfiles = query({
  * @param userData - Updated user data
  * @returns Success status and updated fields
  */
-export const updateUser = mutation({
+export const updateUser = internalMutation({
   args: UpdateUserSchema,
   returns: v.object({
     success: v.boolean(),
@@ -526,6 +773,17 @@ export const updateUser = mutation({
       if (updatedFields.length > 0) {
         await ctx.db.patch(args.userId, updateData);
 
+        if (updateData.roles) {
+          await syncUserRoles(ctx, args.userId, updateData.roles);
+        }
+
+        if (
+          updatedFields.includes("name") ||
+          updatedFields.includes("avatarUrl")
+        ) {
+          await refreshApplicantSnapshots(ctx, args.userId);
+        }
+
         console.log(`User updated successfully: ${args.userId}`, {
           updatedFields,
           clerkId: currentUser.clerkId,
@@ -562,12 +820,13 @@ export const updateUser = mutation({
 
 /**
  * Soft delete a user account
- * Marks user as deleted without removing data for audit purposes
+ * Marks user as deleted without removing data for audit purposes, then
+ * withdraws open applications, hides the profile and archives conversations
  *
  * @param userId - User ID to delete
  * @returns Deletion status
  */
-export const softDeleteUser = mutation({
+export const softDeleteUser = internalMutation({
   args: { userId: v.id("users") },
   returns: v.object({
     success: v.boolean(),
@@ -588,6 +847,8 @@ export const softDeleteUser = mutation({
         deletedAt: Date.now(),
         updatedAt: Date.now(),
       });
+      await cascadeUserDeletion(ctx, user);
+      await syncUserRoles(ctx, userId, []);
 
       console.log(`User soft deleted: ${userId}`, {
         clerkId: user.clerkId,
@@ -618,6 +879,129 @@ export const softDeleteUser = mutation({
   },
 });
 
+/**
+ * Record a Clerk session lifecycle event
+ * Sign-ins update `lastSignInAt`; ended, removed or revoked sessions clear
+ * the user's chat presence
+ *
+ * @param clerkId - Clerk authentication ID of the session owner
+ * @param event - "created" for sign-ins, "ended" for any session teardown
+ * @returns Whether a matching active user was found
+ */
+export const recordSessionEvent = internalMutation({
+  args: {
+    clerkId: v.string(),
+    event: v.union(v.literal("created"), v.literal("ended")),
+    occurredAt: v.number(),
+  },
+  returns: v.object({ success: v.boolean() }),
+  handler: async (ctx, { clerkId, event, occurredAt }) => {
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", clerkId))
+      .first();
+    if (!user || user.deletedAt) {
+      return { success: false };
+    }
+
+    if (event === "created") {
+      if (!user.lastSignInAt || user.lastSignInAt < occurredAt) {
+        await ctx.db.patch(user._id, { lastSignInAt: occurredAt });
+      }
+      return { success: true };
+    }
+
+    await clearPresence(ctx, user._id, occurredAt);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Claim a webhook delivery by its sender-assigned message ID
+ * Returns `duplicate: true` when the message was already claimed, so
+ * redelivered or replayed webhooks are acknowledged without side effects.
+ * Handlers that fail release the claim with `releaseWebhookEvent`
+ *
+ * @param messageId - The `svix-id` header of the Clerk delivery
+ * @param eventType - Event type, recorded for auditing
+ * @returns Whether the message had been claimed before
+ */
+export const claimWebhookEvent = internalMutation({
+  args: {
+    messageId: v.string(),
+    eventType: v.string(),
+  },
+  returns: v.object({ duplicate: v.boolean() }),
+  handler: async (ctx, { messageId, eventType }) => {
+    const existing = await ctx.db
+      .query("webhookEvents")
+      .withIndex("by_source_message", (q) =>
+        q.eq("source", "clerk").eq("messageId", messageId),
+      )
+      .first();
+    if (existing) {
+      return { duplicate: true };
+    }
+
+    await ctx.db.insert("webhookEvents", {
+      source: "clerk",
+      messageId,
+      eventType,
+      processedAt: Date.now(),
+    });
+    return { duplicate: false };
+  },
+});
+
+/**
+ * Release a webhook claim after its handler failed, so the sender's retry
+ * is processed instead of being dropped as a duplicate
+ *
+ * @param messageId - The `svix-id` header of the failed delivery
+ */
+export const releaseWebhookEvent = internalMutation({
+  args: { messageId: v.string() },
+  returns: v.null(),
+  handler: async (ctx, { messageId }) => {
+    const existing = await ctx.db
+      .query("webhookEvents")
+      .withIndex("by_source_message", (q) =>
+        q.eq("source", "clerk").eq("messageId", messageId),
+      )
+      .first();
+    if (existing) {
+      await ctx.db.delete(existing._id);
+    }
+    return null;
+  },
+});
+
+/**
+ * Delete webhook claims older than `WEBHOOK_EVENT_RETENTION_MS`, one batch
+ * per run, rescheduling itself until none are left. Runs from a daily cron.
+ */
+export const pruneWebhookEvents = internalMutation({
+  args: {},
+  returns: v.null(),
+  handler: async (ctx) => {
+    const expired = await ctx.db
+      .query("webhookEvents")
+      .withIndex("by_processed_at", (q) =>
+        q.lt("processedAt", Date.now() - WEBHOOK_EVENT_RETENTION_MS),
+      )
+      .take(WEBHOOK_PRUNE_BATCH_SIZE);
+    for (const event of expired) {
+      await ctx.db.delete(event._id);
+    }
+
+    if (expired.length === WEBHOOK_PRUNE_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.users.pruneWebhookEvents, {});
+    }
+    return null;
+  },
+});
+
 /**
  * Get user statistics for admin dashboard
  * Provides aggregated data about user activity and engagement
@@ -679,17 +1063,39 @@ export const getUserStatistics = query({
 
 /**
  * Internal function to generate user profile embeddings
- * Called asynchronously after user creation for search optimization
+ * Scheduled after profile and skill changes; see convex/matching.ts
  */
 export const generateUserEmbedding = internalMutation({
   args: { userId: v.id("users") },
   returns: v.object({ success: v.boolean() }),
   handler: async (ctx, { userId }) => {
-    // TODO: Implement vector embedding generation
-    // This would integrate with your AI/ML service for profile matching
-    console.log(`Generating embedding for user: ${userId}`);
+    const success = await refreshUserEmbedding(ctx, userId);
+    return { success };
+  },
+});
 
-    return { success: true };
+/**
+ * Rebuild `userRoles` from `users.roles`, one batch per run, rescheduling
+ * itself until every user is processed. Safe to re-run.
+ */
+export const backfillUserRoles = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, { cursor }) => {
+    const result = await ctx.db
+      .query("users")
+      .paginate({ cursor: cursor ?? null, numItems: 100 });
+
+    for (const user of result.page) {
+      await syncUserRoles(ctx, user._id, user.deletedAt ? [] : user.roles);
+    }
+
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, internal.users.backfillUserRoles, {
+        cursor: result.continueCursor,
+      });
+    }
+
+    return { processed: result.page.length, isDone: result.isDone };
   },
 });
 
@@ -717,12 +1123,14 @@ export async function getUserId(ctx: any): Promise<Id<"users"> | null> {
  * Get authenticated user record from database
  * Returns the full user document if authenticated and exists
  */
-export async function getAuthenticatedUser(ctx: any): Promise<any | null> {
+export async function getAuthenticatedUser(
+  ctx: QueryCtx,
+): Promise<Doc<"users"> | null> {
   const identity = await ctx.auth.getUserIdentity();
   if (!identity) return null;
 
   return await ctx.db
     .query("users")
-    .withIndex("by_clerk_id", (q: any) => q.eq("clerkId", identity.subject))
+    .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
     .unique();
 }
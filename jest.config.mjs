@@ -17,6 +17,9 @@ const config = {
   // Add more setup options before each test is run
   setupFilesAfterEnv: ["<rootDir>/jest.setup.ts"],
 
+  // Shared test helpers live beside the suites but are not suites themselves
+  testPathIgnorePatterns: ["<rootDir>/convex/__tests__/helpers/"],
+
   // Enable automatic mocking
   clearMocks: true,
 
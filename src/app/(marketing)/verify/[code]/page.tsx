@@ -0,0 +1,87 @@
+import type { Metadata } from "next";
+import { fetchQuery } from "convex/nextjs";
+import { api } from "convex/_generated/api";
+import { BadgeCheck, ShieldAlert } from "lucide-react";
+
+interface VerifyCertificatePageProps {
+  params: Promise<{ code: string }>;
+}
+
+export const metadata: Metadata = {
+  title: "Verify a certificate",
+  description: "Check that a Gigsy course certificate is genuine.",
+  robots: { index: false },
+};
+
+/** Malformed `%` sequences are shown and looked up as typed. */
+function decodeCode(code: string): string {
+  try {
+    return decodeURIComponent(code);
+  } catch {
+    return code;
+  }
+}
+
+export default async function VerifyCertificatePage({
+  params,
+}: VerifyCertificatePageProps) {
+  const code = decodeCode((await params).code);
+  const certificate = await fetchQuery(api.certificates.verify, { code });
+
+  return (
+    <section className="mx-auto flex max-w-2xl flex-col gap-6 px-6 py-20 lg:px-8">
+      {certificate ? (
+        <div className="space-y-6 rounded-2xl border border-emerald-500/40 bg-slate-900/60 p-8">
+          <div className="flex items-center gap-3 text-emerald-400">
+            <BadgeCheck className="h-8 w-8" aria-hidden />
+            <h1 className="text-2xl font-semibold">Valid certificate</h1>
+          </div>
+          <p className="text-slate-300">
+            <span className="font-semibold text-slate-100">
+              {certificate.recipientName}
+            </span>{" "}
+            completed{" "}
+            <span className="font-semibold text-slate-100">
+              {certificate.courseTitle}
+            </span>{" "}
+            on Gigsy.
+          </p>
+          <dl className="grid gap-3 text-sm sm:grid-cols-3">
+            <div>
+              <dt className="text-slate-400">Instructor</dt>
+              <dd className="text-slate-100">{certificate.instructorName}</dd>
+            </div>
+            <div>
+              <dt className="text-slate-400">Issued</dt>
+              <dd className="text-slate-100">
+                {new Date(certificate.issuedAt).toLocaleDateString("en-US", {
+                  year: "numeric",
+                  month: "long",
+                  day: "numeric",
+                })}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-slate-400">Verification code</dt>
+              <dd className="font-mono text-slate-100">
+                {certificate.verificationCode}
+              </dd>
+            </div>
+          </dl>
+        </div>
+      ) : (
+        <div className="space-y-4 rounded-2xl border border-rose-500/40 bg-slate-900/60 p-8">
+          <div className="flex items-center gap-3 text-rose-400">
+            <ShieldAlert className="h-8 w-8" aria-hidden />
+            <h1 className="text-2xl font-semibold">Certificate not found</h1>
+          </div>
+          <p className="text-slate-300">
+            No certificate matches the code{" "}
+            <span className="font-mono text-slate-100">{code}</span>. Check the
+            code and try again.
+          </p>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -6,11 +6,19 @@ import type { NextRequest } from "next/server";
 const CONVEX_URL = process.env.NEXT_PUBLIC_CONVEX_URL!;
 const convex = new ConvexHttpClient(CONVEX_URL);
 
+// HTTP actions are served from the deployment's .convex.site domain
+const CONVEX_SITE_URL =
+  process.env.CONVEX_SITE_URL ??
+  CONVEX_URL.replace(/\.convex\.cloud\/?$/, ".convex.site");
+
 /**
  * Enterprise-grade Clerk webhook handler for user lifecycle events
  *
- * Handles user.created events from Clerk authentication service
- * and initializes users in the Convex database following enterprise patterns.
+ * Handles user.created events from Clerk authentication service and creates
+ * users in the Convex database. user.updated, user.deleted and session
+ * events are forwarded unchanged to the Convex `/clerk/users-webhook` HTTP
+ * action, which re-verifies the signature, claims the svix message ID for
+ * replay protection and calls the internal user lifecycle mutations.
  *
  * SECURITY: Validates webhook signatures and sanitizes input data
  * RELIABILITY: Comprehensive error handling with detailed logging
@@ -127,17 +135,56 @@ function validateAndNormalizeClerkData(
   };
 }
 
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Forward a verified delivery byte-for-byte to the Convex user lifecycle
+ * HTTP action and relay its status, so a failure there (5xx) makes Clerk
+ * retry the delivery.
+ */
+async function forwardToConvex(
+  payload: string,
+  req: NextRequest,
+  correlationId: string,
+) {
+  const response = await fetch(`${CONVEX_SITE_URL}/clerk/users-webhook`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "svix-id": req.headers.get("svix-id") ?? "",
+      "svix-timestamp": req.headers.get("svix-timestamp") ?? "",
+      "svix-signature": req.headers.get("svix-signature") ?? "",
+    },
+    body: payload,
+  });
+
+  const body = (await response.json().catch(() => ({}))) as Record<
+    string,
+    unknown
+  >;
+  return jsonResponse({ ...body, correlationId }, response.status);
+}
+
 export async function POST(req: NextRequest) {
   const startTime = Date.now();
   const correlationId = crypto.randomUUID();
 
   try {
+    // Keep the raw body: forwarded events are re-verified by Convex
+    const payload = await req.clone().text();
+
     // Verify webhook signature for security
     const evt = await verifyWebhook(req);
 
     console.log(`[${correlationId}] Webhook received`, {
       eventType: evt.type,
       eventId: evt.data.id,
+      messageId: req.headers.get("svix-id"),
       timestamp: new Date().toISOString(),
     });
 
@@ -254,6 +301,38 @@ export async function POST(req: NextRequest) {
       }
     }
 
+    if (
+      evt.type === "user.updated" ||
+      evt.type === "user.deleted" ||
+      evt.type.startsWith("session.")
+    ) {
+      try {
+        return await forwardToConvex(payload, req, correlationId);
+      } catch (forwardError) {
+        const errorMessage =
+          forwardError instanceof Error
+            ? forwardError.message
+            : String(forwardError);
+
+        console.error(`[${correlationId}] ${evt.type} forwarding failed`, {
+          error: errorMessage,
+          eventId: evt.data.id,
+          processingTime: Date.now() - startTime,
+        });
+
+        // Let Clerk retry: nothing was applied or claimed
+        return jsonResponse(
+          {
+            success: false,
+            message: `${evt.type} forwarding failed`,
+            correlationId,
+            error: errorMessage,
+          },
+          502,
+        );
+      }
+    }
+
     // Handle other event types
     console.log(`[${correlationId}] Unhandled event type: ${evt.type}`);
     return new Response(
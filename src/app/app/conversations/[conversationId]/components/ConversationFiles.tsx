@@ -0,0 +1,98 @@
+"use client";
+
+import { FileText, Paperclip } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { isImageType, isPdfType } from "@/lib/chat-attachments";
+import { useConvexSubscription } from "@/lib/convex/client-react";
+import { files, type ConversationFile } from "@/lib/convex/references";
+import type { ConversationId } from "@/lib/convex/types/convo";
+import { formatFileSize } from "@/utils/format";
+
+function FilePreview({ file }: { readonly file: ConversationFile }) {
+  if (!file.url) {
+    return null;
+  }
+
+  if (isImageType(file.contentType)) {
+    return (
+      // eslint-disable-next-line @next/next/no-img-element
+      <img
+        src={file.previewUrl ?? file.url}
+        alt={file.originalName}
+        loading="lazy"
+        className="bg-muted h-32 w-full rounded-md object-cover"
+      />
+    );
+  }
+
+  if (isPdfType(file.contentType)) {
+    return file.previewUrl ? (
+      // eslint-disable-next-line @next/next/no-img-element
+      <img
+        src={file.previewUrl}
+        alt={`${file.originalName} first page`}
+        loading="lazy"
+        className="bg-muted h-40 w-full rounded-md object-cover object-top"
+      />
+    ) : (
+      <div className="bg-muted flex h-40 w-full items-center justify-center rounded-md">
+        <FileText className="text-muted-foreground h-8 w-8" aria-hidden />
+      </div>
+    );
+  }
+
+  return null;
+}
+
+/** Every file shared in the conversation, newest first. */
+export default function ConversationFiles({
+  conversationId,
+}: {
+  readonly conversationId: ConversationId;
+}) {
+  const conversationFiles = useConvexSubscription(files.listConversationFiles, {
+    conversationId,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-foreground text-sm font-semibold">
+          Files
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        {conversationFiles === undefined ? (
+          <p className="text-muted-foreground">Loading files…</p>
+        ) : conversationFiles.length === 0 ? (
+          <p className="text-muted-foreground">No files shared yet.</p>
+        ) : (
+          conversationFiles.map((file) => (
+            <a
+              key={file._id}
+              href={file.url ?? undefined}
+              target="_blank"
+              rel="noreferrer"
+              className="border-border hover:bg-muted/50 block space-y-2 rounded-lg border p-2"
+            >
+              <FilePreview file={file} />
+              <div className="flex items-center gap-2">
+                <Paperclip
+                  className="text-muted-foreground h-4 w-4 shrink-0"
+                  aria-hidden
+                />
+                <span className="text-foreground truncate font-medium">
+                  {file.originalName}
+                </span>
+              </div>
+              <p className="text-muted-foreground text-xs">
+                {formatFileSize(file.fileSize)} ·{" "}
+                {new Date(file.uploadedAt).toLocaleDateString()}
+              </p>
+            </a>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
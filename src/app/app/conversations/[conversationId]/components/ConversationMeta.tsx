@@ -1,5 +1,6 @@
 import type { ConversationMeta } from "@/lib/convex/types/convo";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import ConversationFiles from "./ConversationFiles";
 
 interface ConversationMetaProps {
   readonly conversation: ConversationMeta;
@@ -13,7 +14,7 @@ export default function ConversationMeta({
   conversation,
 }: ConversationMetaProps) {
   return (
-    <aside className="hidden w-full shrink-0 space-y-4 lg:w-80">
+    <aside className="hidden w-full shrink-0 space-y-4 overflow-y-auto lg:block lg:w-80">
       <Card>
         <CardHeader>
           <CardTitle className="text-foreground text-sm font-semibold">
@@ -34,6 +35,7 @@ export default function ConversationMeta({
           ))}
         </CardContent>
       </Card>
+      <ConversationFiles conversationId={conversation.id} />
       {conversation.meta ? (
         <Card>
           <CardHeader>
@@ -0,0 +1,299 @@
+"use client";
+
+import { useCallback, useState, type ChangeEvent } from "react";
+import { CheckCircle2, FileUp, Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import type { Id } from "convex/_generated/dataModel";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  useConvexMutation,
+  useConvexSubscription,
+} from "@/lib/convex/client-react";
+import { validateChatAttachment } from "@/lib/chat-attachments";
+import { deliverables, files as filesApi } from "@/lib/convex/references";
+import type { ConversationId } from "@/lib/convex/types/convo";
+
+interface DeliverableActionsProps {
+  readonly conversationId: ConversationId;
+}
+
+type DialogMode = "submit" | "revision" | null;
+
+const STATUS_LABELS = {
+  submitted: "Under review",
+  approved: "Approved",
+  revision_requested: "Changes requested",
+} as const;
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : "Unexpected error";
+}
+
+export default function DeliverableActions({
+  conversationId,
+}: DeliverableActionsProps) {
+  const data = useConvexSubscription(deliverables.listForConversation, {
+    conversationId,
+  });
+  const generateUploadUrl = useConvexMutation(deliverables.generateUploadUrl);
+  const saveFileMetadata = useConvexMutation(filesApi.saveFileMetadata);
+  const submitDeliverable = useConvexMutation(deliverables.submit);
+  const reviewDeliverable = useConvexMutation(deliverables.review);
+
+  const [mode, setMode] = useState<DialogMode>(null);
+  const [text, setText] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const closeDialog = useCallback(() => {
+    setMode(null);
+    setText("");
+    setFiles([]);
+  }, []);
+
+  const handleFilesChange = useCallback(
+    (event: ChangeEvent<HTMLInputElement>) => {
+      const accepted: File[] = [];
+      for (const file of Array.from(event.target.files ?? [])) {
+        const problem = validateChatAttachment(file);
+        if (problem) {
+          toast.error(problem);
+        } else {
+          accepted.push(file);
+        }
+      }
+      setFiles(accepted);
+    },
+    [],
+  );
+
+  const latest = data?.deliverables[0] ?? null;
+
+  const handleSubmitWork = useCallback(async () => {
+    setIsWorking(true);
+    try {
+      const storageIds = await Promise.all(
+        files.map(async (file) => {
+          const uploadUrl = await generateUploadUrl({ conversationId });
+          const response = await fetch(uploadUrl, {
+            method: "POST",
+            headers: {
+              "Content-Type": file.type || "application/octet-stream",
+            },
+            body: file,
+          });
+          if (!response.ok) {
+            throw new Error(`Failed to upload ${file.name}`);
+          }
+          const { storageId } = (await response.json()) as {
+            storageId: Id<"_storage">;
+          };
+          await saveFileMetadata({
+            storageId,
+            originalName: file.name,
+            contentType: file.type,
+            fileSize: file.size,
+            category: "chat-attachment",
+            conversationId,
+          });
+          return storageId;
+        }),
+      );
+
+      await submitDeliverable({
+        conversationId,
+        notes: text.trim() || undefined,
+        storageIds,
+      });
+      toast.success("Work submitted for review");
+      closeDialog();
+    } catch (error) {
+      console.error("Failed to submit work", error);
+      toast.error(describeError(error));
+    } finally {
+      setIsWorking(false);
+    }
+  }, [
+    closeDialog,
+    conversationId,
+    files,
+    generateUploadUrl,
+    saveFileMetadata,
+    submitDeliverable,
+    text,
+  ]);
+
+  const handleReview = useCallback(
+    async (decision: "approve" | "request_revision") => {
+      if (!latest) {
+        return;
+      }
+
+      setIsWorking(true);
+      try {
+        await reviewDeliverable({
+          deliverableId: latest._id,
+          decision,
+          comment: text.trim() || undefined,
+        });
+        toast.success(
+          decision === "approve" ? "Work approved" : "Revision requested",
+        );
+        closeDialog();
+      } catch (error) {
+        console.error("Failed to review work", error);
+        toast.error(describeError(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [closeDialog, latest, reviewDeliverable, text],
+  );
+
+  if (!data?.role) {
+    return null;
+  }
+
+  const canSubmit =
+    data.role === "freelancer" && latest?.status !== "submitted";
+  const canReview = data.role === "employer" && latest?.status === "submitted";
+
+  return (
+    <div className="border-border flex flex-wrap items-center justify-between gap-2 rounded-lg border border-dashed px-3 py-2">
+      <div className="flex min-w-0 items-center gap-2 text-xs">
+        {latest ? (
+          <>
+            <Badge variant="outline">v{latest.version}</Badge>
+            <span className="font-medium">{STATUS_LABELS[latest.status]}</span>
+            {latest.reviewComment ? (
+              <span className="text-muted-foreground truncate">
+                “{latest.reviewComment}”
+              </span>
+            ) : null}
+          </>
+        ) : (
+          <span className="text-muted-foreground">No work submitted yet</span>
+        )}
+      </div>
+      <div className="flex gap-2">
+        {canSubmit ? (
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() => setMode("submit")}
+          >
+            <FileUp className="mr-2 h-4 w-4" aria-hidden />
+            {latest ? "Submit new version" : "Submit work"}
+          </Button>
+        ) : null}
+        {canReview ? (
+          <>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              disabled={isWorking}
+              onClick={() => setMode("revision")}
+            >
+              <RotateCcw className="mr-2 h-4 w-4" aria-hidden />
+              Request changes
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              disabled={isWorking}
+              onClick={() => void handleReview("approve")}
+            >
+              <CheckCircle2 className="mr-2 h-4 w-4" aria-hidden />
+              Approve
+            </Button>
+          </>
+        ) : null}
+      </div>
+
+      <Dialog
+        open={mode !== null}
+        onOpenChange={(open) => (open ? undefined : closeDialog())}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {mode === "submit" ? "Submit work" : "Request changes"}
+            </DialogTitle>
+            <DialogDescription>
+              {mode === "submit"
+                ? "Share notes and files for the employer to review."
+                : "Tell the freelancer what needs to change before you approve."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="deliverable-text">
+                {mode === "submit" ? "Notes" : "Comments"}
+              </Label>
+              <Textarea
+                id="deliverable-text"
+                value={text}
+                onChange={(event) => setText(event.target.value)}
+                className="min-h-[120px]"
+              />
+            </div>
+            {mode === "submit" ? (
+              <div className="space-y-2">
+                <Label htmlFor="deliverable-files">Files</Label>
+                <Input
+                  id="deliverable-files"
+                  type="file"
+                  multiple
+                  onChange={handleFilesChange}
+                />
+              </div>
+            ) : null}
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="ghost"
+              disabled={isWorking}
+              onClick={closeDialog}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              disabled={
+                isWorking ||
+                (mode === "submit"
+                  ? !text.trim() && files.length === 0
+                  : !text.trim())
+              }
+              onClick={() =>
+                void (mode === "submit"
+                  ? handleSubmitWork()
+                  : handleReview("request_revision"))
+              }
+            >
+              {isWorking ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden />
+              ) : null}
+              {mode === "submit" ? "Submit" : "Send request"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { MoreHorizontal, Pencil, SmilePlus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { useConvexMutation } from "@/lib/convex/client-react";
+import { getConvexErrorMessage } from "@/lib/convex/errors";
+import { chatMessages } from "@/lib/convex/references";
+import type { Message, MessageId, UserId } from "@/lib/convex/types/convo";
+import { cn } from "@/lib/utils";
+
+// Mirror REACTION_EMOJIS in convex/chatMessages.ts
+const REACTION_EMOJIS = ["👍", "❤️", "😂", "🎉", "😮", "😢"] as const;
+
+function useToggleReaction(messageId: string) {
+  const toggleReaction = useConvexMutation(chatMessages.toggleReaction);
+
+  return useCallback(
+    (emoji: string) => {
+      void toggleReaction({
+        messageId: messageId as MessageId,
+        emoji,
+      }).catch((error) => {
+        console.error("Failed to update reaction", error);
+        toast.error(getConvexErrorMessage(error, "Unable to react."));
+      });
+    },
+    [messageId, toggleReaction],
+  );
+}
+
+/** Reaction counts under a message; clicking one toggles the viewer's own. */
+export function MessageReactions({
+  message,
+  viewerId,
+}: {
+  readonly message: Message;
+  readonly viewerId: UserId;
+}) {
+  const toggle = useToggleReaction(message.id);
+
+  if (!message.reactions?.length) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {message.reactions.map((reaction) => {
+        const reacted = reaction.userIds.includes(viewerId);
+        return (
+          <button
+            key={reaction.emoji}
+            type="button"
+            onClick={() => toggle(reaction.emoji)}
+            aria-pressed={reacted}
+            className={cn(
+              "rounded-full border px-2 py-0.5 text-xs",
+              reacted ? "border-primary bg-primary/10" : "border-border",
+            )}
+          >
+            {reaction.emoji} {reaction.userIds.length}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * Hover actions for a delivered message: a reaction picker for everyone and
+ * edit / delete for the sender.
+ */
+export default function MessageActions({
+  message,
+  viewerId,
+  onEdit,
+}: {
+  readonly message: Message;
+  readonly viewerId: UserId;
+  readonly onEdit: () => void;
+}) {
+  const toggle = useToggleReaction(message.id);
+  const deleteMessage = useConvexMutation(chatMessages.deleteMessage);
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const isMine = message.senderId === viewerId;
+
+  const handleDelete = useCallback(async () => {
+    try {
+      await deleteMessage({ messageId: message.id as MessageId });
+    } catch (error) {
+      console.error("Failed to delete message", error);
+      toast.error(getConvexErrorMessage(error, "Unable to delete message."));
+    }
+  }, [deleteMessage, message.id]);
+
+  return (
+    <div className="flex items-center gap-1 opacity-0 transition-opacity group-focus-within:opacity-100 group-hover:opacity-100">
+      <Popover open={isPickerOpen} onOpenChange={setIsPickerOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            aria-label="Add reaction"
+          >
+            <SmilePlus className="h-4 w-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="flex w-auto gap-1 p-1">
+          {REACTION_EMOJIS.map((emoji) => (
+            <button
+              key={emoji}
+              type="button"
+              className="hover:bg-muted rounded p-1 text-lg"
+              onClick={() => {
+                toggle(emoji);
+                setIsPickerOpen(false);
+              }}
+            >
+              {emoji}
+            </button>
+          ))}
+        </PopoverContent>
+      </Popover>
+
+      {isMine ? (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              aria-label="Message options"
+            >
+              <MoreHorizontal className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onSelect={onEdit}>
+              <Pencil className="mr-2 h-4 w-4" /> Edit
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              className="text-destructive"
+              onSelect={() => setIsConfirmingDelete(true)}
+            >
+              <Trash2 className="mr-2 h-4 w-4" /> Delete
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      ) : null}
+
+      <AlertDialog
+        open={isConfirmingDelete}
+        onOpenChange={setIsConfirmingDelete}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this message?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Everyone in the conversation will see that a message was deleted.
+              Attached files are removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => void handleDelete()}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+"use client";
+
+import { FileText, Paperclip } from "lucide-react";
+import { isImageType, isPdfType } from "@/lib/chat-attachments";
+import type { MessageAttachment } from "@/lib/convex/types/convo";
+import { formatFileSize } from "@/utils/format";
+
+/**
+ * Files attached to a chat message: image thumbnails, then other files. PDFs
+ * show their first-page preview when the sender's browser rendered one.
+ */
+export default function MessageAttachments({
+  attachments,
+}: {
+  readonly attachments: ReadonlyArray<MessageAttachment>;
+}) {
+  const images = attachments.filter((attachment) =>
+    isImageType(attachment.contentType),
+  );
+  const documents = attachments.filter(
+    (attachment) => !isImageType(attachment.contentType),
+  );
+
+  return (
+    <div className="mt-1 flex flex-col gap-2">
+      {images.length > 0 ? (
+        <div className="flex flex-wrap gap-2">
+          {images.map((image) => (
+            <a
+              key={image.storageId}
+              href={image.url}
+              target="_blank"
+              rel="noreferrer"
+              className="block overflow-hidden rounded-lg"
+            >
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src={image.previewUrl ?? image.url}
+                alt={image.name}
+                loading="lazy"
+                className="max-h-48 max-w-full object-cover"
+              />
+            </a>
+          ))}
+        </div>
+      ) : null}
+      {documents.map((document) => {
+        if (isPdfType(document.contentType) && document.previewUrl) {
+          return (
+            <a
+              key={document.storageId}
+              href={document.url}
+              target="_blank"
+              rel="noreferrer"
+              className="flex w-48 flex-col gap-1 text-xs underline-offset-2 hover:underline"
+            >
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src={document.previewUrl}
+                alt={`${document.name} first page`}
+                loading="lazy"
+                className="bg-muted max-h-48 w-full rounded-lg object-cover object-top"
+              />
+              <span className="flex items-center gap-2">
+                <FileText className="h-4 w-4 shrink-0" aria-hidden />
+                <span className="truncate">{document.name}</span>
+                <span className="opacity-70">
+                  {formatFileSize(document.size)}
+                </span>
+              </span>
+            </a>
+          );
+        }
+
+        const Icon = isPdfType(document.contentType) ? FileText : Paperclip;
+        return (
+          <a
+            key={document.storageId}
+            href={document.url}
+            target="_blank"
+            rel="noreferrer"
+            className="flex items-center gap-2 text-xs underline-offset-2 hover:underline"
+          >
+            <Icon className="h-4 w-4 shrink-0" aria-hidden />
+            <span className="truncate">{document.name}</span>
+            <span className="opacity-70">{formatFileSize(document.size)}</span>
+          </a>
+        );
+      })}
+    </div>
+  );
+}
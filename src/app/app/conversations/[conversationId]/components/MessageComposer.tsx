@@ -4,15 +4,29 @@ import {
   useCallback,
   useRef,
   useState,
+  type ChangeEvent,
   type FormEvent,
   type KeyboardEvent,
 } from "react";
-import { Send } from "lucide-react";
+import type { Id } from "convex/_generated/dataModel";
+import { Paperclip, Send, X } from "lucide-react";
+import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { useTypingNotifier } from "@/hooks/usePresence";
+import {
+  CHAT_ATTACHMENT_TYPES,
+  MAX_CHAT_ATTACHMENTS,
+  createAttachmentThumbnail,
+  isImageType,
+  validateChatAttachment,
+} from "@/lib/chat-attachments";
 import { useConvexMutation } from "@/lib/convex/client-react";
-import { chatMessages } from "@/lib/convex/references";
+import { getConvexErrorMessage } from "@/lib/convex/errors";
+import { chatMessages, files as filesApi } from "@/lib/convex/references";
 import type { ConversationId } from "@/lib/convex/types/convo";
+import { formatFileSize } from "@/utils/format";
+import DeliverableActions from "./DeliverableActions";
 import { useMessageListActions } from "./MessageListClient";
 
 interface MessageComposerProps {
@@ -27,21 +41,142 @@ function generateTempId(): string {
   return `tmp-${Date.now()}-${Math.random().toString(16).slice(2)}`;
 }
 
+async function uploadBlob(
+  uploadUrl: string,
+  blob: Blob,
+): Promise<Id<"_storage">> {
+  const response = await fetch(uploadUrl, {
+    method: "POST",
+    headers: { "Content-Type": blob.type || "application/octet-stream" },
+    body: blob,
+  });
+  if (!response.ok) {
+    throw new Error("Upload failed");
+  }
+  const { storageId } = (await response.json()) as {
+    storageId: Id<"_storage">;
+  };
+  return storageId;
+}
+
 export default function MessageComposer({
   conversationId,
 }: MessageComposerProps) {
   const [body, setBody] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
   const [isSending, setIsSending] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
   const sendMessage = useConvexMutation(chatMessages.sendMessage);
+  const generateUploadUrl = useConvexMutation(filesApi.generateUploadUrl);
+  const saveFileMetadata = useConvexMutation(filesApi.saveFileMetadata);
   const { appendOptimisticMessage, resolveMessage, markMessageFailed } =
     useMessageListActions();
+  const { notifyTyping, stopTyping } = useTypingNotifier(conversationId);
 
   const focusTextarea = useCallback(() => {
     textareaRef.current?.focus();
   }, []);
 
+  const handleFilesChange = useCallback(
+    (event: ChangeEvent<HTMLInputElement>) => {
+      const selected = Array.from(event.target.files ?? []);
+      event.target.value = "";
+
+      const accepted: File[] = [];
+      for (const file of selected) {
+        const problem = validateChatAttachment(file);
+        if (problem) {
+          toast.error(problem);
+        } else {
+          accepted.push(file);
+        }
+      }
+
+      setFiles((current) =>
+        [...current, ...accepted].slice(0, MAX_CHAT_ATTACHMENTS),
+      );
+    },
+    [],
+  );
+
+  const uploadAttachment = useCallback(
+    async (file: File) => {
+      const thumbnail = await createAttachmentThumbnail(file);
+      const previewStorageId = thumbnail
+        ? await uploadBlob(
+            await generateUploadUrl({
+              category: "chat-attachment",
+              conversationId,
+            }),
+            thumbnail.blob,
+          )
+        : undefined;
+
+      const storageId = await uploadBlob(
+        await generateUploadUrl({
+          category: "chat-attachment",
+          expectedFileSize: file.size,
+          conversationId,
+        }),
+        file,
+      );
+
+      await saveFileMetadata({
+        storageId,
+        originalName: file.name,
+        contentType: file.type,
+        fileSize: file.size,
+        category: "chat-attachment",
+        dimensions:
+          thumbnail && isImageType(file.type)
+            ? { width: thumbnail.width, height: thumbnail.height }
+            : undefined,
+        conversationId,
+        previewStorageId,
+      });
+
+      return { storageId };
+    },
+    [conversationId, generateUploadUrl, saveFileMetadata],
+  );
+
+  const submitFiles = useCallback(async () => {
+    setIsSending(true);
+    stopTyping();
+    try {
+      const attachments = await Promise.all(files.map(uploadAttachment));
+      await sendMessage({
+        conversationId,
+        messageType: "file",
+        body: body.trim() || undefined,
+        attachments,
+      });
+      setBody("");
+      setFiles([]);
+    } catch (error) {
+      console.error("Failed to send attachments", error);
+      toast.error(getConvexErrorMessage(error, "Unable to send files."));
+    } finally {
+      setIsSending(false);
+      focusTextarea();
+    }
+  }, [
+    body,
+    conversationId,
+    files,
+    focusTextarea,
+    sendMessage,
+    stopTyping,
+    uploadAttachment,
+  ]);
+
   const submitMessage = useCallback(async () => {
+    if (files.length > 0) {
+      await submitFiles();
+      return;
+    }
+
     const trimmed = body.trim();
     if (!trimmed) {
       return;
@@ -55,6 +190,7 @@ export default function MessageComposer({
     });
 
     setBody("");
+    stopTyping();
     setIsSending(true);
 
     try {
@@ -83,10 +219,13 @@ export default function MessageComposer({
     appendOptimisticMessage,
     body,
     conversationId,
+    files.length,
     focusTextarea,
     markMessageFailed,
     resolveMessage,
     sendMessage,
+    stopTyping,
+    submitFiles,
   ]);
 
   const handleSubmit = useCallback(
@@ -109,21 +248,81 @@ export default function MessageComposer({
 
   return (
     <form onSubmit={handleSubmit} className="flex w-full flex-col gap-3">
+      <DeliverableActions conversationId={conversationId} />
       <Textarea
         ref={textareaRef}
         value={body}
-        onChange={(event) => setBody(event.target.value)}
+        onChange={(event) => {
+          setBody(event.target.value);
+          if (event.target.value.trim()) {
+            notifyTyping();
+          } else {
+            stopTyping();
+          }
+        }}
+        onBlur={stopTyping}
         onKeyDown={handleKeyDown}
         placeholder="Write a message"
         rows={1}
         className="min-h-[48px] resize-none"
         aria-label="Message"
       />
+      {files.length > 0 ? (
+        <ul className="flex flex-wrap gap-2">
+          {files.map((file, index) => (
+            <li
+              key={`${file.name}-${index}`}
+              className="border-border bg-muted flex items-center gap-2 rounded-md border px-2 py-1 text-xs"
+            >
+              <span className="max-w-40 truncate">{file.name}</span>
+              <span className="text-muted-foreground">
+                {formatFileSize(file.size)}
+              </span>
+              <button
+                type="button"
+                aria-label={`Remove ${file.name}`}
+                disabled={isSending}
+                onClick={() =>
+                  setFiles((current) =>
+                    current.filter((_, fileIndex) => fileIndex !== index),
+                  )
+                }
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : null}
       <div className="flex items-center justify-between gap-3">
-        <span className="text-muted-foreground text-xs">
-          Press Enter to send, Shift + Enter for a new line
-        </span>
-        <Button type="submit" size="sm" disabled={isSending || !body.trim()}>
+        <div className="flex items-center gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            hidden
+            accept={CHAT_ATTACHMENT_TYPES.join(",")}
+            onChange={handleFilesChange}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            aria-label="Attach files"
+            disabled={isSending || files.length >= MAX_CHAT_ATTACHMENTS}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Paperclip className="h-4 w-4" />
+          </Button>
+          <span className="text-muted-foreground text-xs">
+            Press Enter to send, Shift + Enter for a new line
+          </span>
+        </div>
+        <Button
+          type="submit"
+          size="sm"
+          disabled={isSending || (!body.trim() && files.length === 0)}
+        >
           <Send className="mr-2 h-4 w-4" aria-hidden />
           Send
         </Button>
@@ -15,18 +15,28 @@ import { VariableSizeList } from "react-window";
 import { Loader2 } from "lucide-react";
 import {
   useConvexClient,
+  useConvexMutation,
   useConvexSubscription,
 } from "@/lib/convex/client-react";
 import { mapMessageDocs, type RawMessageList } from "@/lib/convex/transformers";
 import type {
   ConversationId,
+  ConversationParticipantProfile,
   Message,
+  MessageId,
   MessageUpdateEvent,
   UserId,
 } from "@/lib/convex/types/convo";
 import { mergeMessages } from "@/lib/convex/merges";
 import { cn } from "@/lib/utils";
 import { chatMessages } from "@/lib/convex/references";
+import { useTypingIndicator } from "@/hooks/usePresence";
+import { getConvexErrorMessage } from "@/lib/convex/errors";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import MessageActions, { MessageReactions } from "./MessageActions";
+import MessageAttachments from "./MessageAttachments";
 
 interface MessageListClientProps {
   readonly viewerId: UserId;
@@ -34,6 +44,7 @@ interface MessageListClientProps {
   readonly initialMessages: ReadonlyArray<Message>;
   readonly initialCursor: string | null;
   readonly initialIsDone: boolean;
+  readonly participants?: ReadonlyArray<ConversationParticipantProfile>;
   readonly children?: ReactNode;
 }
 
@@ -65,6 +76,7 @@ export function useMessageListActions(): MessageListController {
 type ListItemData = {
   readonly messages: Message[];
   readonly viewerId: UserId;
+  readonly seenBy: ReadonlyMap<string, ReadonlyArray<string>>;
   readonly setSize: (id: string, size: number) => void;
 };
 
@@ -91,17 +103,89 @@ type GetMessagesArgs = {
   readonly limit?: number;
 };
 
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function MessageEditor({
+  message,
+  onDone,
+}: {
+  readonly message: Message;
+  readonly onDone: () => void;
+}) {
+  const editMessage = useConvexMutation(chatMessages.editMessage);
+  const [draft, setDraft] = useState(message.body ?? "");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      await editMessage({ messageId: message.id as MessageId, body: draft });
+      onDone();
+    } catch (error) {
+      console.error("Failed to edit message", error);
+      toast.error(getConvexErrorMessage(error, "Unable to edit message."));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex w-full max-w-[75%] flex-col gap-2">
+      <Textarea
+        value={draft}
+        autoFocus
+        aria-label="Edit message"
+        onChange={(event) => setDraft(event.target.value)}
+        onKeyDown={(event) => {
+          if (event.key === "Enter" && !event.shiftKey) {
+            event.preventDefault();
+            void save();
+          } else if (event.key === "Escape") {
+            onDone();
+          }
+        }}
+      />
+      <div className="flex justify-end gap-2">
+        <Button size="sm" variant="ghost" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          disabled={
+            isSaving || (message.type === "text" && draft.trim().length === 0)
+          }
+          onClick={() => void save()}
+        >
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
+
 function MessageBubble({
   message,
   viewerId,
+  seenBy,
   registerSize,
 }: {
   readonly message: Message;
   readonly viewerId: UserId;
+  readonly seenBy?: ReadonlyArray<string>;
   readonly registerSize: (height: number) => void;
 }) {
   const containerRef = useRef<HTMLDivElement | null>(null);
   const isMine = message.senderId === viewerId;
+  const [isEditing, setIsEditing] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const isDeleted = message.deletedAt !== undefined;
+  const canAct =
+    !isDeleted && message.type !== "system" && isDelivered(message);
 
   useLayoutEffect(() => {
     if (!containerRef.current) {
@@ -140,32 +224,129 @@ function MessageBubble({
         isMine ? "items-end" : "items-start",
       )}
     >
-      <div
-        className={cn(
-          "max-w-[75%] rounded-2xl px-4 py-2 text-sm shadow-sm",
-          isMine ? "bg-primary text-primary-foreground" : "bg-muted",
-        )}
-      >
-        {message.body ? (
-          <p className="break-words whitespace-pre-wrap">{message.body}</p>
-        ) : null}
-        {message.status === "pending" ? (
-          <span className="text-muted-foreground mt-1 flex items-center gap-1 text-xs">
-            <Loader2 className="h-3 w-3 animate-spin" aria-hidden /> Sending…
-          </span>
-        ) : null}
-        {message.status === "failed" ? (
-          <span className="mt-1 text-xs text-red-500">
-            Failed to send. {message.error ?? "Try again."}
-          </span>
-        ) : null}
-      </div>
+      {isEditing ? (
+        <MessageEditor message={message} onDone={() => setIsEditing(false)} />
+      ) : (
+        <div
+          className={cn(
+            "group flex max-w-full items-center gap-1",
+            isMine ? "flex-row-reverse" : "flex-row",
+          )}
+        >
+          <div
+            className={cn(
+              "max-w-[75%] rounded-2xl px-4 py-2 text-sm shadow-sm",
+              isDeleted
+                ? "bg-muted text-muted-foreground italic"
+                : isMine
+                  ? "bg-primary text-primary-foreground"
+                  : "bg-muted",
+            )}
+          >
+            {isDeleted ? (
+              <p>This message was deleted.</p>
+            ) : message.body ? (
+              <p className="break-words whitespace-pre-wrap">{message.body}</p>
+            ) : null}
+            {!isDeleted && message.attachments?.length ? (
+              <MessageAttachments attachments={message.attachments} />
+            ) : null}
+            {message.status === "pending" ? (
+              <span className="text-muted-foreground mt-1 flex items-center gap-1 text-xs">
+                <Loader2 className="h-3 w-3 animate-spin" aria-hidden />{" "}
+                Sending…
+              </span>
+            ) : null}
+            {message.status === "failed" ? (
+              <span className="mt-1 text-xs text-red-500">
+                Failed to send. {message.error ?? "Try again."}
+              </span>
+            ) : null}
+          </div>
+          {canAct ? (
+            <MessageActions
+              message={message}
+              viewerId={viewerId}
+              onEdit={() => setIsEditing(true)}
+            />
+          ) : null}
+        </div>
+      )}
+      <MessageReactions message={message} viewerId={viewerId} />
       <span className="text-muted-foreground text-xs">
-        {new Date(message.createdAt).toLocaleTimeString([], {
-          hour: "2-digit",
-          minute: "2-digit",
-        })}
+        {formatTime(message.createdAt)}
+        {message.editedAt !== undefined && !isDeleted ? (
+          <>
+            {" · "}
+            <button
+              type="button"
+              className="underline-offset-2 hover:underline"
+              aria-expanded={showHistory}
+              onClick={() => setShowHistory((current) => !current)}
+            >
+              edited
+            </button>
+          </>
+        ) : null}
+        {seenBy?.length ? ` · Seen by ${seenBy.join(", ")}` : null}
       </span>
+      {showHistory && message.editHistory?.length && !isDeleted ? (
+        <ol className="text-muted-foreground max-w-[75%] space-y-1 text-xs">
+          {message.editHistory.map((edit) => (
+            <li key={edit.editedAt} className="border-border border-l-2 pl-2">
+              <span className="break-words whitespace-pre-wrap line-through">
+                {edit.body || "(no text)"}
+              </span>{" "}
+              · replaced at {formatTime(edit.editedAt)}
+            </li>
+          ))}
+        </ol>
+      ) : null}
+    </div>
+  );
+}
+
+const NO_PARTICIPANTS: ReadonlyArray<ConversationParticipantProfile> = [];
+
+function isDelivered(message: Message): boolean {
+  return message.status !== "pending" && message.status !== "failed";
+}
+
+function describeTyping(names: ReadonlyArray<string>): string | null {
+  if (names.length === 0) {
+    return null;
+  }
+  if (names.length === 1) {
+    return `${names[0]} is typing…`;
+  }
+  if (names.length === 2) {
+    return `${names[0]} and ${names[1]} are typing…`;
+  }
+  return "Several people are typing…";
+}
+
+function TypingIndicator({
+  conversationId,
+  participants,
+}: {
+  readonly conversationId: ConversationId;
+  readonly participants: ReadonlyArray<ConversationParticipantProfile>;
+}) {
+  const typingUserIds = useTypingIndicator(conversationId);
+  const label = describeTyping(
+    typingUserIds.map(
+      (userId) =>
+        participants.find((participant) => participant.id === userId)?.name ??
+        "Someone",
+    ),
+  );
+
+  return (
+    <div
+      className="text-muted-foreground h-5 px-4 text-xs italic"
+      aria-live="polite"
+    >
+      {label}
     </div>
   );
 }
@@ -191,6 +372,7 @@ function MessageRow({ data, index, style }: MessageRowProps) {
       <MessageBubble
         message={message}
         viewerId={data.viewerId}
+        seenBy={data.seenBy.get(message.id)}
         registerSize={registerSize}
       />
     </div>
@@ -203,6 +385,7 @@ export default function MessageListClient({
   initialMessages,
   initialCursor,
   initialIsDone,
+  participants = NO_PARTICIPANTS,
   children,
 }: MessageListClientProps) {
   const [messages, setMessages] = useState<Message[]>(() => [
@@ -230,6 +413,68 @@ export default function MessageListClient({
     messagesRef.current = messages;
   }, [messages]);
 
+  const markConversationRead = useConvexMutation(
+    chatMessages.markConversationRead,
+  );
+  const readReceipts = useConvexSubscription(chatMessages.getReadReceipts, {
+    conversationId,
+  });
+
+  const latestDeliveredId = useMemo(() => {
+    for (let index = messages.length - 1; index >= 0; index -= 1) {
+      const message = messages[index];
+      if (message && isDelivered(message)) {
+        return message.id;
+      }
+    }
+    return null;
+  }, [messages]);
+
+  // Advance the read watermark whenever a new message lands while visible
+  useEffect(() => {
+    const markRead = () => {
+      if (document.visibilityState !== "visible") {
+        return;
+      }
+      void markConversationRead({ conversationId }).catch((error) =>
+        console.warn("Failed to mark conversation read", error),
+      );
+    };
+
+    markRead();
+    document.addEventListener("visibilitychange", markRead);
+    return () => document.removeEventListener("visibilitychange", markRead);
+  }, [conversationId, latestDeliveredId, markConversationRead]);
+
+  // Each participant's receipt sits under the newest of the viewer's
+  // messages they have read
+  const seenBy = useMemo(() => {
+    const result = new Map<string, string[]>();
+    for (const receipt of readReceipts ?? []) {
+      let lastSeen: Message | undefined;
+      for (let index = messages.length - 1; index >= 0; index -= 1) {
+        const message = messages[index];
+        if (
+          message &&
+          message.senderId === viewerId &&
+          isDelivered(message) &&
+          message.createdAt <= receipt.lastReadAt
+        ) {
+          lastSeen = message;
+          break;
+        }
+      }
+      if (!lastSeen) {
+        continue;
+      }
+      const name =
+        participants.find((participant) => participant.id === receipt.userId)
+          ?.name ?? "Participant";
+      result.set(lastSeen.id, [...(result.get(lastSeen.id) ?? []), name]);
+    }
+    return result;
+  }, [messages, participants, readReceipts, viewerId]);
+
   const loadOlder = useCallback(async () => {
     if (!cursor || isDone || isLoadingOlder) {
       return;
@@ -463,8 +708,8 @@ export default function MessageListClient({
   );
 
   const itemData = useMemo<ListItemData>(
-    () => ({ messages, viewerId, setSize }),
-    [messages, setSize, viewerId],
+    () => ({ messages, viewerId, seenBy, setSize }),
+    [messages, seenBy, setSize, viewerId],
   );
 
   const messageKeys: ReadonlyArray<string> = useMemo(
@@ -506,6 +751,10 @@ export default function MessageListClient({
             </div>
           ) : null}
         </div>
+        <TypingIndicator
+          conversationId={conversationId}
+          participants={participants}
+        />
         <div className="border-border bg-card/80 border-t p-4">{children}</div>
       </div>
     </MessageListContext.Provider>
@@ -102,6 +102,7 @@ export default async function ConversationPage({
             initialMessages={initialMessages.messages}
             initialCursor={initialMessages.continueCursor}
             initialIsDone={initialMessages.isDone}
+            participants={participantProfiles}
           >
             <MessageComposer conversationId={conversation.id} />
           </MessageListClient>
@@ -0,0 +1,113 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useMutation } from "convex/react";
+import { api } from "convex/_generated/api";
+import { LifeBuoy } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import { getConvexErrorMessage } from "@/lib/convex/errors";
+
+/**
+ * Open a support ticket with the moderation team. Repeat requests land in
+ * the same support conversation.
+ */
+export default function ContactSupportDialog() {
+  const router = useRouter();
+  const toast = useToast();
+  const openSupportConversation = useMutation(
+    api.chatConversations.openSupportConversation,
+  );
+  const [open, setOpen] = useState(false);
+  const [subject, setSubject] = useState("");
+  const [message, setMessage] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      const conversationId = await openSupportConversation({
+        subject,
+        message: message || undefined,
+      });
+      setOpen(false);
+      setSubject("");
+      setMessage("");
+      router.push(`/app/conversations/${conversationId}`);
+    } catch (error) {
+      console.error("Failed to open support conversation", error);
+      toast.error(getConvexErrorMessage(error, "Unable to contact support."));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <LifeBuoy className="mr-2 h-4 w-4" /> Contact support
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Contact support</DialogTitle>
+          <DialogDescription>
+            Our moderators will reply in your support conversation.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="support-subject">Subject</Label>
+            <Input
+              id="support-subject"
+              value={subject}
+              maxLength={120}
+              onChange={(event) => setSubject(event.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="support-message">How can we help?</Label>
+            <Textarea
+              id="support-message"
+              value={message}
+              maxLength={2000}
+              onChange={(event) => setMessage(event.target.value)}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="ghost"
+            disabled={isSubmitting}
+            onClick={() => setOpen(false)}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            disabled={isSubmitting || !subject.trim()}
+            onClick={() => void handleSubmit()}
+          >
+            Send
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
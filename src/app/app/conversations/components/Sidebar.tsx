@@ -21,6 +21,7 @@ import type {
   ConversationParticipantProfile,
 } from "@/lib/convex/types/convo";
 import { Button } from "@/components/ui/button";
+import { usePresence } from "@/hooks/usePresence";
 import { cn } from "@/lib/utils";
 import { deriveConversationDisplayProfile } from "../utils/display";
 import type {
@@ -158,6 +159,32 @@ export default function Sidebar({
     }
   }, [convex, cursor, ensureProfiles, isDone, isLoadingMore]);
 
+  const counterpartIds = useMemo(
+    () =>
+      conversations.flatMap((conversation) =>
+        conversation.participants.filter(
+          (participantId) => participantId !== viewerId,
+        ),
+      ),
+    [conversations, viewerId],
+  );
+  const { isOnline } = usePresence(counterpartIds);
+
+  const unreadCounts = useConvexSubscription(
+    chatConversations.getUnreadCounts,
+    {},
+  );
+  const unreadByConversation = useMemo(
+    () =>
+      new Map<string, number>(
+        (unreadCounts ?? []).map((entry) => [
+          entry.conversationId,
+          entry.unreadCount,
+        ]),
+      ),
+    [unreadCounts],
+  );
+
   const segments = useSelectedLayoutSegments();
   const activeConversationId = segments[segments.length - 1];
 
@@ -225,6 +252,15 @@ export default function Sidebar({
               })
             }
             isCollapsed={isCollapsed}
+            unreadCount={
+              conversation.id === activeConversationId
+                ? 0
+                : (unreadByConversation.get(conversation.id) ?? 0)
+            }
+            isOnline={conversation.participants.some(
+              (participantId) =>
+                participantId !== viewerId && isOnline(participantId),
+            )}
           />
         ))}
         {!isDone ? (
@@ -255,8 +291,10 @@ export default function Sidebar({
     isCollapsed,
     isDone,
     isLoadingMore,
+    isOnline,
     loadMore,
     profiles,
+    unreadByConversation,
     viewerId,
     viewerProfile,
   ]);
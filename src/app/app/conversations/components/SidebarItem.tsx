@@ -14,6 +14,22 @@ interface SidebarItemProps {
   readonly isActive: boolean;
   readonly profile: ConversationDisplayProfile;
   readonly isCollapsed: boolean;
+  readonly isOnline?: boolean;
+  readonly unreadCount?: number;
+}
+
+function OnlineDot({ isOnline }: { readonly isOnline: boolean }) {
+  if (!isOnline) {
+    return null;
+  }
+
+  return (
+    <span
+      className="border-card absolute right-0 bottom-0 size-3 rounded-full border-2 bg-emerald-500"
+      aria-label="Online"
+      role="status"
+    />
+  );
 }
 
 function resolveTimestampLabel(timestamp: number | undefined): string {
@@ -29,12 +45,38 @@ function resolveTimestampLabel(timestamp: number | undefined): string {
   }
 }
 
+function UnreadBadge({
+  count,
+  className,
+}: {
+  readonly count: number;
+  readonly className?: string;
+}) {
+  if (count <= 0) {
+    return null;
+  }
+
+  return (
+    <span
+      className={cn(
+        "bg-primary text-primary-foreground min-w-5 shrink-0 rounded-full px-1.5 text-center text-[10px] leading-5 font-semibold",
+        className,
+      )}
+      aria-label={`${count} unread message${count === 1 ? "" : "s"}`}
+    >
+      {count > 99 ? "99+" : count}
+    </span>
+  );
+}
+
 export default function SidebarItem({
   conversation,
   href,
   isActive,
   profile,
   isCollapsed,
+  isOnline = false,
+  unreadCount = 0,
 }: SidebarItemProps) {
   const lastActivity = useMemo(
     () =>
@@ -56,19 +98,26 @@ export default function SidebarItem({
         )}
         aria-label={`Open conversation with ${profile.name}`}
       >
-        <Avatar
-          className={cn(
-            "border-border size-10 border",
-            isActive ? "ring-primary ring-2" : undefined,
-          )}
-        >
-          <AvatarImage
-            src={profile.avatarUrl ?? undefined}
-            alt=""
-            aria-hidden
+        <span className="relative">
+          <Avatar
+            className={cn(
+              "border-border size-10 border",
+              isActive ? "ring-primary ring-2" : undefined,
+            )}
+          >
+            <AvatarImage
+              src={profile.avatarUrl ?? undefined}
+              alt=""
+              aria-hidden
+            />
+            <AvatarFallback>{profile.initials}</AvatarFallback>
+          </Avatar>
+          <OnlineDot isOnline={isOnline} />
+          <UnreadBadge
+            count={unreadCount}
+            className="absolute -top-1 -right-1"
           />
-          <AvatarFallback>{profile.initials}</AvatarFallback>
-        </Avatar>
+        </span>
       </Link>
     );
   }
@@ -84,24 +133,37 @@ export default function SidebarItem({
       )}
     >
       <div className="flex items-center gap-3">
-        <Avatar className="border-border size-9 border">
-          <AvatarImage
-            src={profile.avatarUrl ?? undefined}
-            alt={`${profile.name}'s profile picture`}
-          />
-          <AvatarFallback>{profile.initials}</AvatarFallback>
-        </Avatar>
+        <span className="relative shrink-0">
+          <Avatar className="border-border size-9 border">
+            <AvatarImage
+              src={profile.avatarUrl ?? undefined}
+              alt={`${profile.name}'s profile picture`}
+            />
+            <AvatarFallback>{profile.initials}</AvatarFallback>
+          </Avatar>
+          <OnlineDot isOnline={isOnline} />
+        </span>
         <div className="min-w-0 flex-1">
           <div className="flex items-center justify-between text-sm font-medium">
-            <span className="truncate">{conversation.title}</span>
+            <span
+              className={cn(
+                "truncate",
+                unreadCount > 0 ? "text-foreground font-semibold" : undefined,
+              )}
+            >
+              {conversation.title}
+            </span>
             {lastActivity ? (
               <span className="text-muted-foreground ml-3 shrink-0 text-xs">
                 {lastActivity}
               </span>
             ) : null}
           </div>
-          <div className="text-muted-foreground mt-0.5 line-clamp-1 text-xs">
-            {profile.name}
+          <div className="mt-0.5 flex items-center justify-between gap-2">
+            <span className="text-muted-foreground line-clamp-1 text-xs">
+              {profile.name}
+            </span>
+            <UnreadBadge count={unreadCount} />
           </div>
         </div>
       </div>
@@ -1,3 +1,5 @@
+import ContactSupportDialog from "./components/ContactSupportDialog";
+
 export default function ConversationsIndexPage() {
   return (
     <div className="bg-muted/30 flex h-full flex-1 items-center justify-center">
@@ -9,6 +11,9 @@ export default function ConversationsIndexPage() {
           Choose a thread from the sidebar to review messages, continue a
           dialogue, or start a new conversation with your teammates.
         </p>
+        <div className="mt-6">
+          <ContactSupportDialog />
+        </div>
       </div>
     </div>
   );
@@ -6,10 +6,16 @@ import type { Id } from "convex/_generated/dataModel";
 import { CourseHero } from "@/components/course/CourseHero";
 import { ModuleList } from "@/components/course/ModuleList";
 import { CourseSummaryCard } from "@/components/course/CourseSummaryCard";
+import { AskMentorButton } from "@/components/course/AskMentorButton";
+import { CertificateDownloadButton } from "@/components/course/CertificateDownloadButton";
+import { CourseReviews } from "@/components/course/CourseReviews";
+import { EnrollButton } from "@/components/course/EnrollButton";
+import { RefundEnrollmentButton } from "@/components/course/RefundEnrollmentButton";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Play, Users, Clock, Award, Star } from "lucide-react";
+import { formatCurrency } from "@/lib/format-currency";
 import {
   transformConvexCourses,
   type ConvexCourseData,
@@ -29,6 +35,10 @@ export function CourseDetailsWrapper({ courseId }: CourseDetailsWrapperProps) {
     courseId: courseId as Id<"courses">,
   });
 
+  const enrollmentStatus = useQuery(api.enrollments.getMyEnrollment, {
+    courseId: courseId as Id<"courses">,
+  });
+
   // Transform Convex data to legacy format
   const course = convexCourse
     ? transformConvexCourses([convexCourse as ConvexCourseData])[0]
@@ -42,7 +52,12 @@ export function CourseDetailsWrapper({ courseId }: CourseDetailsWrapperProps) {
     return <div>Course not found</div>;
   }
 
-  const isEnrolled = Boolean(convexProgress && convexProgress.length > 0);
+  // Progress without an enrollment row predates real enrollment
+  const enrollment = enrollmentStatus?.enrollment;
+  const isEnrolled = enrollment
+    ? enrollment.status === "active" || enrollment.status === "completed"
+    : Boolean(convexProgress && convexProgress.length > 0);
+  const price = enrollmentStatus?.price ?? null;
 
   // Extract progress data from the array of lesson progress records
   const completedLessons = convexProgress
@@ -147,6 +162,9 @@ export function CourseDetailsWrapper({ courseId }: CourseDetailsWrapperProps) {
                 </div>
               </div>
             </section>
+
+            {/* Course Reviews */}
+            <CourseReviews courseId={courseId as Id<"courses">} />
           </div>
 
           {/* Sidebar */}
@@ -206,37 +224,52 @@ export function CourseDetailsWrapper({ courseId }: CourseDetailsWrapperProps) {
                       <Play className="mr-2 h-4 w-4" />
                       Continue Learning
                     </Button>
+
+                    <CertificateDownloadButton
+                      courseId={courseId as Id<"courses">}
+                    />
+
+                    {enrollment?.refundableUntil ? (
+                      <RefundEnrollmentButton
+                        courseId={courseId as Id<"courses">}
+                        refundableUntil={enrollment.refundableUntil}
+                      />
+                    ) : null}
                   </div>
                 ) : (
                   <div className="space-y-4">
                     <div className="text-center">
                       <div className="text-3xl font-bold">
-                        {course.price ? `$${course.price}` : "Free"}
+                        {price
+                          ? formatCurrency(price.amount, price.currency)
+                          : "Free"}
                       </div>
                       <p className="text-muted-foreground text-sm">
                         One-time payment • Lifetime access
                       </p>
                     </div>
 
-                    <Button
-                      className="w-full"
-                      size="lg"
-                      onClick={() => {
-                        // Navigate to first lesson for enrollment
+                    <EnrollButton
+                      courseId={courseId as Id<"courses">}
+                      isPaid={Boolean(price)}
+                      onEnrolled={() => {
+                        // Navigate to first lesson after enrolling
                         const firstLesson = course.modules[0]?.lessons[0];
                         if (firstLesson && course.modules[0]) {
                           window.location.href = `/app/courses/${courseId}/modules/${course.modules[0].id}/lessons/${firstLesson.id}`;
                         }
                       }}
-                    >
-                      {course.price ? "Enroll Now" : "Start Learning"}
-                    </Button>
+                    />
 
-                    <p className="text-muted-foreground text-center text-xs">
-                      30-day money-back guarantee
-                    </p>
+                    {price ? (
+                      <p className="text-muted-foreground text-center text-xs">
+                        30-day money-back guarantee
+                      </p>
+                    ) : null}
                   </div>
                 )}
+
+                <AskMentorButton courseId={courseId as Id<"courses">} />
               </div>
             </div>
           </div>
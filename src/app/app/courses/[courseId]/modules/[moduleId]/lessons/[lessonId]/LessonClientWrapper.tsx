@@ -104,6 +104,7 @@ export const LessonContent: React.FC<LessonContentProps> = ({
       (lesson.content.startsWith("http") ||
         lesson.content.startsWith("blob:") ||
         lesson.content.includes("video")));
+  const isQuiz = lesson.contentType === "quiz";
 
   return (
     <div className="w-[100%] space-y-6">
@@ -160,7 +161,7 @@ export const LessonContent: React.FC<LessonContentProps> = ({
       )}
 
       {/* Main Content */}
-      {hasVideo ? (
+      {hasVideo || isQuiz ? (
         <Suspense fallback={<LessonPlayerSkeleton />}>
           <LessonPlayer
             lesson={lesson}
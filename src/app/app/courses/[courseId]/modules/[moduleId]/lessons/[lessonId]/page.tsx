@@ -27,6 +27,7 @@ import {
   ChevronLeft,
   ChevronRight,
   ExternalLink,
+  Lock,
 } from "lucide-react";
 import type { LessonWithNavigation } from "@/types/course";
 
@@ -196,6 +197,31 @@ const LessonHeader: React.FC<{
   </div>
 );
 
+/**
+ * Locked Lesson Notice Component
+ */
+const LockedLessonNotice: React.FC<{
+  lesson: LessonWithNavigation;
+}> = ({ lesson }) => (
+  <div className="bg-card flex flex-col items-center gap-4 rounded-lg border p-10 text-center">
+    <div className="bg-muted rounded-full p-4">
+      <Lock className="text-muted-foreground h-8 w-8" />
+    </div>
+    <div className="space-y-1">
+      <h2 className="text-lg font-semibold">This lesson is locked</h2>
+      <p className="text-muted-foreground">
+        {lesson.lockReason ?? "You don't have access to this lesson yet."}
+      </p>
+    </div>
+    <Button variant="outline" asChild>
+      <Link href={`/app/courses/${lesson.courseId}`}>
+        <ArrowLeft className="mr-2 h-4 w-4" />
+        Back to course
+      </Link>
+    </Button>
+  </div>
+);
+
 /**
  * Main Lesson Detail Page Component
  */
@@ -285,43 +311,55 @@ export default async function LessonPage({ params }: LessonPageProps) {
                 <LessonHeader lesson={lesson} />
 
                 {/* Lesson Content */}
-                <LessonContent lesson={lesson} userId={userId} />
+                {lesson.isLocked ? (
+                  <LockedLessonNotice lesson={lesson} />
+                ) : (
+                  <LessonContent lesson={lesson} userId={userId} />
+                )}
 
                 {/* Additional Resources */}
-                {lesson.resources && lesson.resources.length > 0 && (
-                  <div className="bg-card space-y-4 rounded-lg border p-6">
-                    <h2 className="text-lg font-semibold">Lesson Resources</h2>
-                    <div className="grid gap-3">
-                      {lesson.resources.map((resource) => (
-                        <div
-                          key={resource.id}
-                          className="flex items-center justify-between rounded-lg border p-3"
-                        >
-                          <div className="min-w-0 flex-1">
-                            <div className="font-medium">{resource.title}</div>
-                            {resource.sizeBytes && (
-                              <div className="text-muted-foreground text-sm">
-                                {Math.round(resource.sizeBytes / 1024)} KB
+                {!lesson.isLocked &&
+                  lesson.resources &&
+                  lesson.resources.length > 0 && (
+                    <div className="bg-card space-y-4 rounded-lg border p-6">
+                      <h2 className="text-lg font-semibold">
+                        Lesson Resources
+                      </h2>
+                      <div className="grid gap-3">
+                        {lesson.resources.map((resource) => (
+                          <div
+                            key={resource.id}
+                            className="flex items-center justify-between rounded-lg border p-3"
+                          >
+                            <div className="min-w-0 flex-1">
+                              <div className="font-medium">
+                                {resource.title}
                               </div>
-                            )}
+                              {resource.sizeBytes && (
+                                <div className="text-muted-foreground text-sm">
+                                  {Math.round(resource.sizeBytes / 1024)} KB
+                                </div>
+                              )}
+                            </div>
+                            <Button size="sm" variant="outline" asChild>
+                              <a
+                                href={resource.url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                              >
+                                <ExternalLink className="h-4 w-4" />
+                              </a>
+                            </Button>
                           </div>
-                          <Button size="sm" variant="outline" asChild>
-                            <a
-                              href={resource.url}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                            >
-                              <ExternalLink className="h-4 w-4" />
-                            </a>
-                          </Button>
-                        </div>
-                      ))}
+                        ))}
+                      </div>
                     </div>
-                  </div>
-                )}
+                  )}
 
                 {/* Comments Section */}
-                <CommentsSection lessonId={lesson.id} userId={userId} />
+                {!lesson.isLocked && (
+                  <CommentsSection lessonId={lesson.id} userId={userId} />
+                )}
               </div>
 
               {/* Sidebar */}
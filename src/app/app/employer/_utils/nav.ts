@@ -5,6 +5,7 @@ const NAV_ITEMS: Array<Pick<EmployerNavItem, "href" | "label" | "icon">> = [
   { href: `${BASE_PATH}`, label: "Overview" },
   { href: `${BASE_PATH}/gigs`, label: "Gigs" },
   { href: `${BASE_PATH}/gigs/create`, label: "Create gig" },
+  { href: `${BASE_PATH}/analytics`, label: "Analytics" },
 ];
 
 interface NavMetrics {
@@ -28,7 +29,10 @@ function isActive(itemHref: string, currentPath: string): boolean {
     return currentPath === itemHref;
   }
 
-  if (itemHref === `${BASE_PATH}/gigs/create`) {
+  if (
+    itemHref === `${BASE_PATH}/gigs/create` ||
+    itemHref === `${BASE_PATH}/analytics`
+  ) {
     return currentPath === itemHref;
   }
 
@@ -0,0 +1,82 @@
+import type { EmployerAnalytics } from "@/utils/fetchers-server";
+
+const CHART_HEIGHT = 160;
+
+const dayFormatter = new Intl.DateTimeFormat("en-US", {
+  month: "short",
+  day: "numeric",
+  timeZone: "UTC",
+});
+
+interface DailyActivityChartProps {
+  daily: EmployerAnalytics["daily"];
+}
+
+/**
+ * Paired daily bars of gig views and applications. Both series share one
+ * scale so the gap between them reads as the view-to-apply drop-off.
+ */
+export function DailyActivityChart({ daily }: DailyActivityChartProps) {
+  const maxValue = Math.max(1, ...daily.map((entry) => entry.views));
+  const slotWidth = 100 / Math.max(daily.length, 1);
+  const barWidth = slotWidth * 0.4;
+  const labelEvery = Math.ceil(daily.length / 6);
+
+  const scale = (value: number) => (value / maxValue) * CHART_HEIGHT;
+
+  return (
+    <figure className="space-y-3">
+      <svg
+        viewBox={`0 0 100 ${CHART_HEIGHT}`}
+        preserveAspectRatio="none"
+        className="h-40 w-full"
+        role="img"
+        aria-label="Daily gig views and applications"
+      >
+        {daily.map((entry, index) => {
+          const x = index * slotWidth + slotWidth * 0.1;
+          const label = dayFormatter.format(entry.day);
+          return (
+            <g key={entry.day}>
+              <rect
+                x={x}
+                y={CHART_HEIGHT - scale(entry.views)}
+                width={barWidth}
+                height={scale(entry.views)}
+                className="fill-muted-foreground/30"
+              >
+                <title>{`${label}: ${entry.views} views`}</title>
+              </rect>
+              <rect
+                x={x + barWidth}
+                y={CHART_HEIGHT - scale(entry.applies)}
+                width={barWidth}
+                height={scale(entry.applies)}
+                className="fill-primary"
+              >
+                <title>{`${label}: ${entry.applies} applications, ${entry.hires} hires`}</title>
+              </rect>
+            </g>
+          );
+        })}
+      </svg>
+      <div className="text-muted-foreground flex justify-between text-xs">
+        {daily
+          .filter((_, index) => index % labelEvery === 0)
+          .map((entry) => (
+            <span key={entry.day}>{dayFormatter.format(entry.day)}</span>
+          ))}
+      </div>
+      <figcaption className="text-muted-foreground flex gap-4 text-xs">
+        <span className="flex items-center gap-1.5">
+          <span className="bg-muted-foreground/30 h-2.5 w-2.5 rounded-sm" />
+          Views
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="bg-primary h-2.5 w-2.5 rounded-sm" />
+          Applications
+        </span>
+      </figcaption>
+    </figure>
+  );
+}
@@ -0,0 +1,76 @@
+import type { EmployerAnalytics } from "@/utils/fetchers-server";
+import { cn } from "@/lib/utils";
+
+const STAGE_LABELS: Record<
+  EmployerAnalytics["funnel"][number]["stage"],
+  string
+> = {
+  submitted: "Submitted",
+  viewed: "Viewed",
+  shortlisted: "Shortlisted",
+  interview: "Interview",
+  hired: "Hired",
+};
+
+interface FunnelChartProps {
+  funnel: EmployerAnalytics["funnel"];
+  compact?: boolean;
+}
+
+/**
+ * Horizontal funnel bars sized against submissions, each labelled with its
+ * conversion from the stage before it.
+ */
+export function FunnelChart({ funnel, compact = false }: FunnelChartProps) {
+  const submitted = funnel[0]?.count ?? 0;
+
+  return (
+    <ol className={cn("space-y-3", compact && "space-y-1.5")}>
+      {funnel.map((step, index) => {
+        const previous = index > 0 ? (funnel[index - 1]?.count ?? 0) : 0;
+        const width = submitted > 0 ? (step.count / submitted) * 100 : 0;
+        const conversion =
+          index > 0 && previous > 0
+            ? Math.round((step.count / previous) * 100)
+            : null;
+
+        return (
+          <li key={step.stage} className="grid grid-cols-12 items-center gap-3">
+            <span
+              className={cn(
+                "text-muted-foreground col-span-3 text-sm",
+                compact && "text-xs",
+              )}
+            >
+              {STAGE_LABELS[step.stage]}
+            </span>
+            <div
+              className={cn(
+                "bg-muted col-span-7 overflow-hidden rounded-full",
+                compact ? "h-1.5" : "h-3",
+              )}
+            >
+              <div
+                className="bg-primary h-full rounded-full"
+                style={{ width: `${width}%` }}
+              />
+            </div>
+            <span
+              className={cn(
+                "col-span-2 text-right text-sm font-medium",
+                compact && "text-xs",
+              )}
+            >
+              {step.count}
+              {conversion !== null && !compact ? (
+                <span className="text-muted-foreground ml-1 text-xs font-normal">
+                  ({conversion}%)
+                </span>
+              ) : null}
+            </span>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,202 @@
+import Link from "next/link";
+
+import { EmployerLayout } from "@/components/layouts/EmployerLayout";
+import { Button } from "@/components/ui/button";
+import {
+  fetchEmployerAnalytics,
+  fetchEmployerMetrics,
+} from "@/utils/fetchers-server";
+import { buildEmployerNavItems } from "../_utils/nav";
+import { DailyActivityChart } from "./_components/DailyActivityChart";
+import { FunnelChart } from "./_components/FunnelChart";
+
+const ANALYTICS_PATH = "/app/employer/analytics" as const;
+const RANGE_OPTIONS = [7, 30, 90] as const;
+const DEFAULT_RANGE = 30;
+
+interface EmployerAnalyticsPageProps {
+  searchParams: Promise<{
+    days?: string;
+  }>;
+}
+
+export const metadata = {
+  title: "Hiring analytics",
+};
+
+export default async function EmployerAnalyticsPage({
+  searchParams,
+}: EmployerAnalyticsPageProps) {
+  const { days: daysParam } = await searchParams;
+  const days =
+    RANGE_OPTIONS.find((option) => String(option) === daysParam) ??
+    DEFAULT_RANGE;
+
+  const [metrics, analytics] = await Promise.all([
+    fetchEmployerMetrics(),
+    fetchEmployerAnalytics(days),
+  ]);
+
+  const navItems = buildEmployerNavItems(ANALYTICS_PATH, {
+    activeGigs: metrics.activeGigs,
+    totalApplicants: metrics.totalApplicants,
+  });
+
+  const applyRate =
+    analytics.views > 0
+      ? `${((analytics.applies / analytics.views) * 100).toFixed(1)}%`
+      : "—";
+
+  return (
+    <EmployerLayout
+      title="Hiring analytics"
+      description="See how candidates move from viewing your gigs to getting hired."
+      actions={
+        <div className="flex gap-1">
+          {RANGE_OPTIONS.map((option) => (
+            <Button
+              key={option}
+              size="sm"
+              variant={option === days ? "default" : "outline"}
+              asChild
+            >
+              <Link href={`${ANALYTICS_PATH}?days=${option}`}>{option}d</Link>
+            </Button>
+          ))}
+        </div>
+      }
+      navItems={navItems}
+    >
+      <section className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <MetricTile label="Gig views" value={analytics.views} />
+        <MetricTile
+          label="Applications"
+          value={analytics.applies}
+          hint={`${applyRate} of views`}
+        />
+        <MetricTile
+          label="Avg. time to first view"
+          value={formatDuration(analytics.avgTimeToFirstViewMs)}
+        />
+        <MetricTile
+          label="Avg. time to hire"
+          value={formatDuration(analytics.avgTimeToHireMs)}
+        />
+      </section>
+
+      <section className="grid gap-4 lg:grid-cols-2">
+        <article className="border-border bg-card space-y-4 rounded-xl border p-6 shadow-sm">
+          <header>
+            <h2 className="text-lg font-semibold">Views vs applications</h2>
+            <p className="text-muted-foreground text-sm">
+              Daily activity across all your gigs, last {analytics.rangeDays}{" "}
+              days.
+            </p>
+          </header>
+          <DailyActivityChart daily={analytics.daily} />
+        </article>
+
+        <article className="border-border bg-card space-y-4 rounded-xl border p-6 shadow-sm">
+          <header>
+            <h2 className="text-lg font-semibold">Hiring funnel</h2>
+            <p className="text-muted-foreground text-sm">
+              Applications reaching each stage, with conversion from the stage
+              before.
+            </p>
+          </header>
+          <FunnelChart funnel={analytics.funnel} />
+        </article>
+      </section>
+
+      <section className="space-y-4">
+        <header>
+          <h2 className="text-lg font-semibold">By gig</h2>
+          <p className="text-muted-foreground text-sm">
+            Funnel and timings for each gig over the same period.
+          </p>
+        </header>
+
+        <div className="border-border bg-card rounded-xl border">
+          <div className="text-muted-foreground grid grid-cols-12 gap-4 px-6 py-3 text-sm font-medium">
+            <span className="col-span-3">Gig</span>
+            <span className="col-span-1 text-right">Views</span>
+            <span className="col-span-4">Funnel</span>
+            <span className="col-span-2 text-right">First view</span>
+            <span className="col-span-2 text-right">Time to hire</span>
+          </div>
+          <ul className="divide-y">
+            {analytics.gigs.length === 0 ? (
+              <li className="text-muted-foreground px-6 py-4 text-sm">
+                No gigs yet. Post a gig to start collecting analytics.
+              </li>
+            ) : (
+              analytics.gigs.map((gig) => (
+                <li
+                  key={gig.gigId}
+                  className="grid grid-cols-12 items-center gap-4 px-6 py-4"
+                >
+                  <div className="col-span-3 space-y-1">
+                    <Link
+                      href={`/app/employer/gigs/${gig.gigId}`}
+                      className="text-foreground font-medium hover:underline"
+                    >
+                      {gig.title}
+                    </Link>
+                    <p className="text-muted-foreground text-xs capitalize">
+                      {gig.status.replaceAll("_", " ")}
+                    </p>
+                  </div>
+                  <span className="col-span-1 text-right text-sm font-medium">
+                    {gig.views}
+                  </span>
+                  <div className="col-span-4">
+                    <FunnelChart funnel={gig.funnel} compact />
+                  </div>
+                  <span className="col-span-2 text-right text-sm">
+                    {formatDuration(gig.avgTimeToFirstViewMs)}
+                  </span>
+                  <span className="col-span-2 text-right text-sm">
+                    {formatDuration(gig.avgTimeToHireMs)}
+                  </span>
+                </li>
+              ))
+            )}
+          </ul>
+        </div>
+      </section>
+    </EmployerLayout>
+  );
+}
+
+function MetricTile({
+  label,
+  value,
+  hint,
+}: {
+  label: string;
+  value: number | string;
+  hint?: string;
+}) {
+  return (
+    <article className="border-border bg-card rounded-xl border p-4 shadow-sm">
+      <p className="text-muted-foreground text-sm">{label}</p>
+      <p className="text-foreground mt-2 text-2xl font-semibold">{value}</p>
+      {hint ? <p className="text-muted-foreground text-xs">{hint}</p> : null}
+    </article>
+  );
+}
+
+function formatDuration(ms: number | null): string {
+  if (ms === null) {
+    return "—";
+  }
+
+  const hours = ms / (60 * 60 * 1000);
+  if (hours < 1) {
+    return `${Math.max(1, Math.round(ms / (60 * 1000)))}m`;
+  }
+  if (hours < 48) {
+    return `${Math.round(hours)}h`;
+  }
+  return `${Math.round(hours / 24)}d`;
+}
@@ -8,6 +8,7 @@ import { Separator } from "@/components/ui/separator";
 import { Textarea } from "@/components/ui/textarea";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { ApplicationActions } from "../../../_components/ApplicationActions";
+import { InterviewScheduler } from "../../../_components/InterviewScheduler";
 import {
   addEmployerApplicationNote,
   fetchEmployerApplicationDetail,
@@ -235,6 +236,11 @@ export default async function EmployerApplicationDetailPage({
         </article>
 
         <aside className="border-border space-y-6 rounded-xl border p-6 shadow-sm">
+          <InterviewScheduler
+            applicationId={detail.application._id}
+            applicationStatus={detail.application.status}
+          />
+
           <section className="space-y-3">
             <h3 className="text-lg font-semibold">Applicant snapshot</h3>
             <dl className="space-y-2 text-sm">
@@ -255,6 +261,31 @@ export default async function EmployerApplicationDetailPage({
                 </dd>
               </div>
             </dl>
+            {detail.application.applicantSnapshot?.certificates?.length ? (
+              <div className="space-y-2 text-sm">
+                <p className="text-muted-foreground">Certificates</p>
+                <ul className="space-y-1">
+                  {detail.application.applicantSnapshot.certificates.map(
+                    (certificate) => (
+                      <li
+                        key={certificate.certificateId}
+                        className="flex justify-between gap-2"
+                      >
+                        <span className="truncate">
+                          {certificate.courseTitle}
+                        </span>
+                        <Link
+                          href={`/verify/${certificate.verificationCode}`}
+                          className="text-primary shrink-0 hover:underline"
+                        >
+                          Verify
+                        </Link>
+                      </li>
+                    ),
+                  )}
+                </ul>
+              </div>
+            ) : null}
           </section>
 
           <section className="space-y-3">
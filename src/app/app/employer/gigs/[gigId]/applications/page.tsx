@@ -15,7 +15,7 @@ import {
 import type { Id } from "convex/_generated/dataModel";
 import { buildEmployerNavItems } from "../../../_utils/nav";
 import { ApplicationActions } from "../../_components/ApplicationActions";
-import { GigApplicationsTable } from "../../_components/GigApplicationsTable";
+import { ApplicationsBulkManager } from "../../_components/ApplicationsBulkManager";
 
 const BASE_PATH = "/app/employer" as const;
 const GIGS_PATH = `${BASE_PATH}/gigs` as const;
@@ -120,7 +120,8 @@ export default async function EmployerGigApplicationsPage({
           params={{ gigId: params.gigId, limit }}
         />
 
-        <GigApplicationsTable
+        <ApplicationsBulkManager
+          gigId={gigId}
           applications={tableData}
           emptyMessage="No applications match the current filters."
           footer={
@@ -11,10 +11,12 @@ import {
   fetchEmployerMetrics,
   fetchGigApplications,
   fetchConvexUserByClerkId,
+  fetchSuggestedTalent,
 } from "@/utils/fetchers-server";
 import type { Id } from "convex/_generated/dataModel";
 import { buildEmployerNavItems } from "../../_utils/nav";
 import { GigApplicationsTable } from "../_components/GigApplicationsTable";
+import { SuggestedTalentList } from "../_components/SuggestedTalentList";
 
 const BASE_PATH = "/app/employer" as const;
 const GIGS_PATH = `${BASE_PATH}/gigs` as const;
@@ -36,12 +38,14 @@ export default async function EmployerGigDetailPage({
   const gigIdString = resolvedParams.gigId;
   const gigId = gigIdString as Id<"gigs">;
 
-  const [{ userId }, metrics, gig, applications] = await Promise.all([
-    auth(),
-    fetchEmployerMetrics(),
-    fetchEmployerGigDetail(gigId),
-    fetchGigApplications({ gigId, limit: 10 }),
-  ]);
+  const [{ userId }, metrics, gig, applications, suggestedTalent] =
+    await Promise.all([
+      auth(),
+      fetchEmployerMetrics(),
+      fetchEmployerGigDetail(gigId),
+      fetchGigApplications({ gigId, limit: 10 }),
+      fetchSuggestedTalent(gigId, 5),
+    ]);
 
   if (!gig) {
     notFound();
@@ -155,6 +159,17 @@ export default async function EmployerGigDetailPage({
 
         <GigApplicationsTable applications={applications.items ?? []} />
       </section>
+
+      <section className="space-y-4">
+        <header>
+          <h2 className="text-lg font-semibold">Suggested talent</h2>
+          <p className="text-muted-foreground text-sm">
+            Candidates whose skills and experience best match this gig.
+          </p>
+        </header>
+
+        <SuggestedTalentList talent={suggestedTalent} />
+      </section>
     </EmployerLayout>
   );
 }
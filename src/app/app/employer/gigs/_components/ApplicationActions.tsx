@@ -1,8 +1,8 @@
 "use client";
 
-import { useCallback, useState, useTransition } from "react";
+import { useCallback, useMemo, useState, useTransition } from "react";
 import { useRouter } from "next/navigation";
-import { useMutation } from "convex/react";
+import { useMutation, useQuery } from "convex/react";
 
 import {
   Select,
@@ -12,7 +12,11 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from "@/components/ui/use-toast";
-import type { ApplicationStatus } from "@/types/applications";
+import { getConvexErrorMessage } from "@/lib/convex/errors";
+import {
+  APPLICATION_STATUS_LABELS,
+  type ApplicationStatus,
+} from "@/types/applications";
 import { api } from "convex/_generated/api";
 import type { Id } from "convex/_generated/dataModel";
 
@@ -21,23 +25,6 @@ interface ApplicationActionsProps {
   currentStatus: ApplicationStatus;
 }
 
-const STATUS_OPTIONS: ReadonlyArray<{
-  value: ApplicationStatus;
-  label: string;
-}> = [
-  { value: "pending", label: "Pending" },
-  { value: "viewed", label: "Viewed" },
-  { value: "submitted", label: "Submitted" },
-  { value: "in_review", label: "In review" },
-  { value: "shortlisted", label: "Shortlisted" },
-  { value: "interview_requested", label: "Interview requested" },
-  { value: "rejected", label: "Rejected" },
-  { value: "withdrawn", label: "Withdrawn" },
-  { value: "hired", label: "Hired" },
-  { value: "assigned", label: "Assigned" },
-  { value: "closed", label: "Closed" },
-] as const;
-
 export function ApplicationActions({
   applicationId,
   currentStatus,
@@ -45,10 +32,17 @@ export function ApplicationActions({
   const router = useRouter();
   const toast = useToast();
   const updateStatus = useMutation(api.employerApplications.updateStatus);
+  const transitions = useQuery(api.employerApplications.getStatusTransitions);
 
   const [value, setValue] = useState<ApplicationStatus>(currentStatus);
   const [isPending, startTransition] = useTransition();
 
+  // Only the current status and the moves the server will accept from it
+  const options = useMemo(
+    () => [value, ...(transitions?.[value] ?? [])],
+    [value, transitions],
+  );
+
   const handleChange = useCallback(
     (nextValue: ApplicationStatus) => {
       if (nextValue === value) {
@@ -72,9 +66,7 @@ export function ApplicationActions({
           console.error("Failed to update application status", error);
           setValue(previousValue);
           toast.error(
-            error instanceof Error
-              ? error.message
-              : "Failed to update. Please try again.",
+            getConvexErrorMessage(error, "Failed to update. Please try again."),
           );
         }
       });
@@ -86,15 +78,15 @@ export function ApplicationActions({
     <Select
       value={value}
       onValueChange={(next) => handleChange(next as ApplicationStatus)}
-      disabled={isPending}
+      disabled={isPending || options.length < 2}
     >
       <SelectTrigger className="w-36">
         <SelectValue placeholder="Select status" />
       </SelectTrigger>
       <SelectContent>
-        {STATUS_OPTIONS.map((option) => (
-          <SelectItem key={option.value} value={option.value}>
-            {option.label}
+        {options.map((status) => (
+          <SelectItem key={status} value={status}>
+            {APPLICATION_STATUS_LABELS[status]}
           </SelectItem>
         ))}
       </SelectContent>
@@ -0,0 +1,286 @@
+"use client";
+
+import { useCallback, useState, type ReactNode } from "react";
+import { useRouter } from "next/navigation";
+import { useConvex, useMutation } from "convex/react";
+import { api } from "convex/_generated/api";
+import type { Id } from "convex/_generated/dataModel";
+import { Download } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import { getConvexErrorMessage } from "@/lib/convex/errors";
+import { downloadTextFile } from "@/lib/download";
+import {
+  GigApplicationsTable,
+  type EmployerApplicationRecord,
+} from "./GigApplicationsTable";
+
+type DialogMode = "reject" | "message" | null;
+
+interface BulkResult {
+  applied: number;
+  skipped: number;
+  queued: number;
+}
+
+interface ApplicationsBulkManagerProps {
+  gigId: Id<"gigs">;
+  applications: Array<EmployerApplicationRecord & { actions?: ReactNode }>;
+  emptyMessage?: string;
+  footer?: ReactNode;
+}
+
+function describeResult(
+  verb: string,
+  { applied, skipped, queued }: BulkResult,
+) {
+  const parts = [`${verb} ${applied} application${applied === 1 ? "" : "s"}`];
+  if (skipped > 0) {
+    parts.push(`${skipped} skipped`);
+  }
+  if (queued > 0) {
+    parts.push(`${queued} more processing in the background`);
+  }
+  return `${parts.join(", ")}.`;
+}
+
+/**
+ * The gig applications table with multi-select, bulk shortlist / reject /
+ * message actions and a CSV export of every application.
+ */
+export function ApplicationsBulkManager({
+  gigId,
+  applications,
+  emptyMessage,
+  footer,
+}: ApplicationsBulkManagerProps) {
+  const router = useRouter();
+  const convex = useConvex();
+  const toast = useToast();
+  const bulkUpdateStatus = useMutation(
+    api.employerApplications.bulkUpdateStatus,
+  );
+  const bulkMessage = useMutation(api.employerApplications.bulkMessage);
+
+  const [selectedIds, setSelectedIds] = useState<Set<Id<"applications">>>(
+    () => new Set(),
+  );
+  const [mode, setMode] = useState<DialogMode>(null);
+  const [text, setText] = useState("");
+  const [isWorking, setIsWorking] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const selectedCount = selectedIds.size;
+
+  const toggle = useCallback((applicationId: Id<"applications">) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (next.has(applicationId)) {
+        next.delete(applicationId);
+      } else {
+        next.add(applicationId);
+      }
+      return next;
+    });
+  }, []);
+
+  const toggleAll = useCallback(() => {
+    setSelectedIds((current) =>
+      current.size === applications.length
+        ? new Set()
+        : new Set(applications.map(({ application }) => application._id)),
+    );
+  }, [applications]);
+
+  const closeDialog = useCallback(() => {
+    setMode(null);
+    setText("");
+  }, []);
+
+  const runBulkAction = useCallback(
+    async (action: "shortlist" | "reject" | "message") => {
+      const applicationIds = [...selectedIds];
+      if (applicationIds.length === 0) return;
+
+      setIsWorking(true);
+      try {
+        if (action === "message") {
+          const result = await bulkMessage({
+            gigId,
+            applicationIds,
+            body: text,
+          });
+          toast.success(describeResult("Messaged", result));
+        } else {
+          const result = await bulkUpdateStatus({
+            gigId,
+            applicationIds,
+            status: action === "reject" ? "rejected" : "shortlisted",
+            reason: text || undefined,
+          });
+          toast.success(
+            describeResult(
+              action === "reject" ? "Rejected" : "Shortlisted",
+              result,
+            ),
+          );
+        }
+        setSelectedIds(new Set());
+        closeDialog();
+        router.refresh();
+      } catch (error) {
+        console.error("Failed to run bulk application action", error);
+        toast.error(
+          getConvexErrorMessage(error, "Unable to update the selection."),
+        );
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [
+      bulkMessage,
+      bulkUpdateStatus,
+      closeDialog,
+      gigId,
+      router,
+      selectedIds,
+      text,
+      toast,
+    ],
+  );
+
+  const handleExport = useCallback(async () => {
+    setIsExporting(true);
+    try {
+      const { filename, content } = await convex.query(
+        api.employerApplications.exportCsv,
+        { gigId },
+      );
+      downloadTextFile(filename, content, "text/csv;charset=utf-8");
+    } catch (error) {
+      console.error("Failed to export applications", error);
+      toast.error(
+        getConvexErrorMessage(error, "Unable to export applications."),
+      );
+    } finally {
+      setIsExporting(false);
+    }
+  }, [convex, gigId, toast]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-muted-foreground text-sm">
+            {selectedCount > 0
+              ? `${selectedCount} selected`
+              : "Select applications for bulk actions"}
+          </span>
+          {selectedCount > 0 ? (
+            <>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={isWorking}
+                onClick={() => void runBulkAction("shortlist")}
+              >
+                Shortlist
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={isWorking}
+                onClick={() => setMode("message")}
+              >
+                Message
+              </Button>
+              <Button
+                size="sm"
+                variant="destructive"
+                disabled={isWorking}
+                onClick={() => setMode("reject")}
+              >
+                Reject
+              </Button>
+            </>
+          ) : null}
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={isExporting}
+          onClick={() => void handleExport()}
+        >
+          <Download className="mr-2 h-4 w-4" /> Export CSV
+        </Button>
+      </div>
+
+      <GigApplicationsTable
+        applications={applications}
+        emptyMessage={emptyMessage}
+        footer={footer}
+        selection={{ selectedIds, onToggle: toggle, onToggleAll: toggleAll }}
+      />
+
+      <Dialog
+        open={mode !== null}
+        onOpenChange={(open) => (open ? undefined : closeDialog())}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {mode === "reject"
+                ? `Reject ${selectedCount} application${selectedCount === 1 ? "" : "s"}`
+                : `Message ${selectedCount} applicant${selectedCount === 1 ? "" : "s"}`}
+            </DialogTitle>
+            <DialogDescription>
+              {mode === "reject"
+                ? "Applications that can no longer be rejected are skipped."
+                : "Each applicant receives the message in their application conversation."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="bulk-action-text">
+              {mode === "reject" ? "Reason (optional)" : "Message"}
+            </Label>
+            <Textarea
+              id="bulk-action-text"
+              value={text}
+              maxLength={mode === "reject" ? 500 : 2000}
+              onChange={(event) => setText(event.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="ghost"
+              disabled={isWorking}
+              onClick={closeDialog}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              variant={mode === "reject" ? "destructive" : "default"}
+              disabled={isWorking || (mode === "message" && !text.trim())}
+              onClick={() => mode && void runBulkAction(mode)}
+            >
+              {mode === "reject" ? "Reject" : "Send"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -4,7 +4,8 @@ import Link from "next/link";
 import type { ReactNode } from "react";
 
 import { Badge } from "@/components/ui/badge";
-import type { Doc } from "convex/_generated/dataModel";
+import { Checkbox } from "@/components/ui/checkbox";
+import type { Doc, Id } from "convex/_generated/dataModel";
 
 export type EmployerApplicationRecord = {
   application: Doc<"applications">;
@@ -12,23 +13,52 @@ export type EmployerApplicationRecord = {
   detailHref?: string | null;
 };
 
+export interface ApplicationSelection {
+  selectedIds: ReadonlySet<Id<"applications">>;
+  onToggle: (applicationId: Id<"applications">) => void;
+  onToggleAll: () => void;
+}
+
 interface GigApplicationsTableProps {
   applications: Array<EmployerApplicationRecord & { actions?: ReactNode }>;
   emptyMessage?: string;
   footer?: ReactNode;
+  selection?: ApplicationSelection;
 }
 
 export function GigApplicationsTable({
   applications,
   emptyMessage = "No applications yet.",
   footer,
+  selection,
 }: GigApplicationsTableProps) {
   const hasActions = applications.some((item) => Boolean(item.actions));
+  const selectedCount = selection
+    ? applications.filter(({ application }) =>
+        selection.selectedIds.has(application._id),
+      ).length
+    : 0;
 
   return (
     <div className="border-border bg-card overflow-hidden rounded-xl border">
       <div className="text-muted-foreground grid grid-cols-12 gap-2 px-6 py-3 text-sm font-medium">
-        <span className="col-span-4">Candidate</span>
+        <span className="col-span-4 flex items-center gap-3">
+          {selection ? (
+            <Checkbox
+              aria-label="Select all applications"
+              checked={
+                selectedCount === 0
+                  ? false
+                  : selectedCount === applications.length
+                    ? true
+                    : "indeterminate"
+              }
+              disabled={applications.length === 0}
+              onCheckedChange={selection.onToggleAll}
+            />
+          ) : null}
+          Candidate
+        </span>
         <span className="col-span-2">Status</span>
         <span className="col-span-2">Submitted</span>
         <span className="col-span-2 text-right">Cover letter</span>
@@ -48,23 +78,35 @@ export function GigApplicationsTable({
                 key={application._id}
                 className="grid grid-cols-12 items-center gap-2 px-6 py-4"
               >
-                <div className="col-span-4 space-y-1">
-                  {detailHref ? (
-                    <Link
-                      href={detailHref}
-                      className="text-primary hover:underline"
-                      prefetch={false}
-                    >
-                      {candidate?.name ?? "Unknown candidate"}
-                    </Link>
-                  ) : (
-                    <p className="text-foreground font-medium">
-                      {candidate?.name ?? "Unknown candidate"}
+                <div className="col-span-4 flex items-start gap-3">
+                  {selection ? (
+                    <Checkbox
+                      className="mt-1"
+                      aria-label={`Select ${candidate?.name ?? "application"}`}
+                      checked={selection.selectedIds.has(application._id)}
+                      onCheckedChange={() =>
+                        selection.onToggle(application._id)
+                      }
+                    />
+                  ) : null}
+                  <div className="space-y-1">
+                    {detailHref ? (
+                      <Link
+                        href={detailHref}
+                        className="text-primary hover:underline"
+                        prefetch={false}
+                      >
+                        {candidate?.name ?? "Unknown candidate"}
+                      </Link>
+                    ) : (
+                      <p className="text-foreground font-medium">
+                        {candidate?.name ?? "Unknown candidate"}
+                      </p>
+                    )}
+                    <p className="text-muted-foreground text-xs">
+                      {candidate?.email ?? "No email on record"}
                     </p>
-                  )}
-                  <p className="text-muted-foreground text-xs">
-                    {candidate?.email ?? "No email on record"}
-                  </p>
+                  </div>
                 </div>
                 <div className="col-span-2 flex items-center">
                   <Badge variant={statusVariant(application.status)}>
@@ -20,6 +20,7 @@ export type { GigEditorPayload };
 import { GigOverviewSection } from "./sections/GigOverviewSection";
 import { GigBudgetTimelineSection } from "./sections/GigBudgetTimelineSection";
 import { GigLocationVisibilitySection } from "./sections/GigLocationVisibilitySection";
+import { GigMilestonesSection } from "./sections/GigMilestonesSection";
 import { GigPublishingControls } from "./sections/GigPublishingControls";
 import { GigSnapshotCard } from "./sections/GigSnapshotCard";
 import { deriveGigEditorDefaultValues } from "./utils/deriveGigEditorDefaults";
@@ -47,6 +48,7 @@ export function GigEditorForm({ gig, onSubmit }: GigEditorFormProps) {
   });
 
   const [isSaving, startSaving] = useTransition();
+  const budgetType = form.watch("budgetType");
 
   const handleSubmit = (values: GigEditorFormValues) => {
     startSaving(() => {
@@ -78,6 +80,9 @@ export function GigEditorForm({ gig, onSubmit }: GigEditorFormProps) {
         <div className="space-y-6">
           <GigOverviewSection />
           <GigBudgetTimelineSection />
+          {budgetType === "milestone" || gig.budget.type === "milestone" ? (
+            <GigMilestonesSection gig={gig} />
+          ) : null}
           <GigLocationVisibilitySection />
         </div>
 
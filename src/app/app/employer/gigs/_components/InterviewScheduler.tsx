@@ -0,0 +1,433 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "convex/_generated/api";
+import type { Doc, Id } from "convex/_generated/dataModel";
+import { Plus, Trash2 } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import { InterviewCalendarButton } from "@/components/interviews/InterviewCalendarButton";
+import { formatInterviewTime } from "@/components/interviews/format";
+import { getConvexErrorMessage } from "@/lib/convex/errors";
+import type { ApplicationStatus } from "@/types/applications";
+
+type InterviewFormat = Doc<"interviews">["format"];
+
+const MAX_SLOTS = 5;
+const DURATION_OPTIONS = [30, 45, 60, 90] as const;
+const FORMAT_OPTIONS: ReadonlyArray<{ value: InterviewFormat; label: string }> =
+  [
+    { value: "video", label: "Video call" },
+    { value: "phone", label: "Phone call" },
+    { value: "in_person", label: "In person" },
+  ];
+
+const STATUS_LABELS: Record<Doc<"interviews">["status"], string> = {
+  proposed: "Awaiting candidate",
+  scheduled: "Scheduled",
+  cancelled: "Cancelled",
+};
+
+function listTimeZones(...required: string[]): string[] {
+  const zones = new Set(Intl.supportedValuesOf("timeZone"));
+  for (const zone of required) zones.add(zone);
+  return [...zones].sort();
+}
+
+interface InterviewSchedulerProps {
+  applicationId: Id<"applications">;
+  applicationStatus: ApplicationStatus;
+}
+
+/**
+ * Propose interview slots for an application at `interview_requested`,
+ * then follow, reschedule or cancel the interview once it exists.
+ */
+export function InterviewScheduler({
+  applicationId,
+  applicationStatus,
+}: InterviewSchedulerProps) {
+  const data = useQuery(api.interviews.getForApplication, { applicationId });
+  const cancelInterview = useMutation(api.interviews.cancel);
+  const toast = useToast();
+  const [isEditing, setIsEditing] = useState(false);
+  const [cancelReason, setCancelReason] = useState("");
+
+  if (data === undefined) {
+    return <Skeleton className="h-40 w-full rounded-xl" />;
+  }
+
+  const { interview, employerTimezone, candidateTimezone } = data;
+  const isActive =
+    interview?.status === "proposed" || interview?.status === "scheduled";
+
+  if (!isActive && applicationStatus !== "interview_requested") {
+    return null;
+  }
+
+  const handleCancel = async () => {
+    if (!interview) return;
+    try {
+      await cancelInterview({
+        interviewId: interview._id,
+        reason: cancelReason || undefined,
+      });
+      setCancelReason("");
+      toast.success("Interview cancelled.");
+    } catch (error) {
+      console.error("Failed to cancel interview", error);
+      toast.error(getConvexErrorMessage(error, "Unable to cancel interview."));
+    }
+  };
+
+  return (
+    <section className="border-border space-y-4 rounded-lg border p-4">
+      <header className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-lg font-semibold">Interview</h3>
+        {interview ? (
+          <Badge
+            variant={
+              interview.status === "cancelled" ? "destructive" : "secondary"
+            }
+          >
+            {STATUS_LABELS[interview.status]}
+          </Badge>
+        ) : null}
+      </header>
+
+      {interview && isActive && !isEditing ? (
+        <div className="space-y-4">
+          {interview.scheduledSlot ? (
+            <div className="space-y-1 text-sm">
+              <p className="font-medium">
+                {formatInterviewTime(
+                  interview.scheduledSlot.startsAt,
+                  employerTimezone,
+                )}
+              </p>
+              <p className="text-muted-foreground">
+                Candidate time:{" "}
+                {formatInterviewTime(
+                  interview.scheduledSlot.startsAt,
+                  candidateTimezone,
+                )}
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-1 text-sm">
+              <p className="text-muted-foreground">Proposed times:</p>
+              <ul className="space-y-1">
+                {interview.slots.map((slot) => (
+                  <li key={slot.startsAt}>
+                    {formatInterviewTime(slot.startsAt, employerTimezone)}
+                    <span className="text-muted-foreground">
+                      {" "}
+                      · {formatInterviewTime(
+                        slot.startsAt,
+                        candidateTimezone,
+                      )}{" "}
+                      for the candidate
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <p className="text-muted-foreground text-sm">
+            {
+              FORMAT_OPTIONS.find((option) => option.value === interview.format)
+                ?.label
+            }{" "}
+            · {interview.durationMinutes} min
+            {interview.location ? ` · ${interview.location}` : ""}
+          </p>
+
+          <div className="flex flex-wrap gap-2">
+            {interview.scheduledSlot ? (
+              <InterviewCalendarButton interviewId={interview._id} />
+            ) : null}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsEditing(true)}
+            >
+              Propose new times
+            </Button>
+          </div>
+
+          <div className="flex gap-2">
+            <Input
+              placeholder="Reason for cancelling (optional)"
+              value={cancelReason}
+              maxLength={500}
+              onChange={(event) => setCancelReason(event.target.value)}
+            />
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={() => void handleCancel()}
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <InterviewSlotForm
+          applicationId={applicationId}
+          interview={isActive ? interview : null}
+          defaultTimezone={employerTimezone}
+          candidateTimezone={candidateTimezone}
+          onDone={() => setIsEditing(false)}
+        />
+      )}
+    </section>
+  );
+}
+
+function InterviewSlotForm({
+  applicationId,
+  interview,
+  defaultTimezone,
+  candidateTimezone,
+  onDone,
+}: {
+  applicationId: Id<"applications">;
+  interview: Doc<"interviews"> | null;
+  defaultTimezone: string;
+  candidateTimezone: string;
+  onDone: () => void;
+}) {
+  const propose = useMutation(api.interviews.propose);
+  const reschedule = useMutation(api.interviews.reschedule);
+  const toast = useToast();
+
+  const [timezone, setTimezone] = useState(defaultTimezone);
+  const [slots, setSlots] = useState<string[]>([""]);
+  const [durationMinutes, setDurationMinutes] = useState(
+    interview?.durationMinutes ?? 45,
+  );
+  const [format, setFormat] = useState<InterviewFormat>("video");
+  const [location, setLocation] = useState("");
+  const [notes, setNotes] = useState("");
+  const [reason, setReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const timeZones = useMemo(
+    () => listTimeZones(defaultTimezone, candidateTimezone),
+    [defaultTimezone, candidateTimezone],
+  );
+  const filledSlots = slots.filter(Boolean);
+
+  const updateSlot = (index: number, value: string) => {
+    setSlots((current) =>
+      current.map((slot, slotIndex) => (slotIndex === index ? value : slot)),
+    );
+  };
+
+  const handleSubmit = async () => {
+    if (filledSlots.length === 0) return;
+    setIsSubmitting(true);
+    const proposedSlots = filledSlots.map((localStart) => ({
+      localStart,
+      timezone,
+    }));
+
+    try {
+      if (interview) {
+        await reschedule({
+          interviewId: interview._id,
+          slots: proposedSlots,
+          durationMinutes,
+          reason: reason || undefined,
+        });
+        toast.success("New times sent to the candidate.");
+      } else {
+        await propose({
+          applicationId,
+          slots: proposedSlots,
+          durationMinutes,
+          format,
+          location: location || undefined,
+          notes: notes || undefined,
+        });
+        toast.success("Interview times sent to the candidate.");
+      }
+      onDone();
+    } catch (error) {
+      console.error("Failed to send interview times", error);
+      toast.error(
+        getConvexErrorMessage(error, "Unable to send interview times."),
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Timezone</Label>
+        <Select value={timezone} onValueChange={setTimezone}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="max-h-72">
+            {timeZones.map((zone) => (
+              <SelectItem key={zone} value={zone}>
+                {zone}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {timezone !== candidateTimezone ? (
+          <p className="text-muted-foreground text-xs">
+            The candidate is in {candidateTimezone}; they will see each time
+            converted.
+          </p>
+        ) : null}
+      </div>
+
+      <div className="space-y-2">
+        <Label>Time slots</Label>
+        {slots.map((slot, index) => (
+          <div key={index} className="flex gap-2">
+            <Input
+              type="datetime-local"
+              value={slot}
+              onChange={(event) => updateSlot(index, event.target.value)}
+            />
+            {slots.length > 1 ? (
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Remove time slot"
+                onClick={() =>
+                  setSlots((current) =>
+                    current.filter((_, slotIndex) => slotIndex !== index),
+                  )
+                }
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            ) : null}
+          </div>
+        ))}
+        {slots.length < MAX_SLOTS ? (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setSlots((current) => [...current, ""])}
+          >
+            <Plus className="mr-2 h-4 w-4" /> Add another time
+          </Button>
+        ) : null}
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label>Duration</Label>
+          <Select
+            value={String(durationMinutes)}
+            onValueChange={(value) => setDurationMinutes(Number(value))}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DURATION_OPTIONS.map((minutes) => (
+                <SelectItem key={minutes} value={String(minutes)}>
+                  {minutes} minutes
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {interview ? null : (
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select
+              value={format}
+              onValueChange={(value: InterviewFormat) => setFormat(value)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FORMAT_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+
+      {interview ? (
+        <div className="space-y-2">
+          <Label htmlFor="interview-reason">Reason (optional)</Label>
+          <Input
+            id="interview-reason"
+            value={reason}
+            maxLength={500}
+            onChange={(event) => setReason(event.target.value)}
+          />
+        </div>
+      ) : (
+        <>
+          <div className="space-y-2">
+            <Label htmlFor="interview-location">
+              Meeting link, phone or address
+            </Label>
+            <Input
+              id="interview-location"
+              value={location}
+              maxLength={500}
+              onChange={(event) => setLocation(event.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="interview-notes">Notes for the candidate</Label>
+            <Textarea
+              id="interview-notes"
+              value={notes}
+              maxLength={1000}
+              onChange={(event) => setNotes(event.target.value)}
+            />
+          </div>
+        </>
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          disabled={isSubmitting || filledSlots.length === 0}
+          onClick={() => void handleSubmit()}
+        >
+          {interview ? "Send new times" : "Send interview times"}
+        </Button>
+        {interview ? (
+          <Button variant="ghost" size="sm" onClick={onDone}>
+            Back
+          </Button>
+        ) : null}
+      </div>
+    </div>
+  );
+}
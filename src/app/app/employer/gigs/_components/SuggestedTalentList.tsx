@@ -0,0 +1,72 @@
+import Link from "next/link";
+
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import type { TalentSuggestion } from "@/utils/fetchers-server";
+
+const MAX_VISIBLE_SKILLS = 4;
+
+interface SuggestedTalentListProps {
+  talent: TalentSuggestion[];
+  emptyMessage?: string;
+}
+
+export function SuggestedTalentList({
+  talent,
+  emptyMessage = "No matching talent yet. Add skills and a detailed description to improve matches.",
+}: SuggestedTalentListProps) {
+  if (talent.length === 0) {
+    return (
+      <p className="border-border text-muted-foreground rounded-xl border border-dashed p-6 text-center text-sm">
+        {emptyMessage}
+      </p>
+    );
+  }
+
+  return (
+    <ul className="border-border bg-card divide-y overflow-hidden rounded-xl border">
+      {talent.map((candidate) => (
+        <li
+          key={candidate.userId}
+          className="flex flex-wrap items-center gap-4 px-6 py-4"
+        >
+          <Avatar className="h-10 w-10">
+            <AvatarImage src={candidate.avatarUrl} alt={candidate.name} />
+            <AvatarFallback>
+              {candidate.name.charAt(0).toUpperCase()}
+            </AvatarFallback>
+          </Avatar>
+          <div className="min-w-0 flex-1">
+            {candidate.profileSlug ? (
+              <Link
+                href={`/app/profile/${candidate.profileSlug}`}
+                className="font-medium hover:underline"
+              >
+                {candidate.name}
+              </Link>
+            ) : (
+              <p className="font-medium">{candidate.name}</p>
+            )}
+            {candidate.headline ? (
+              <p className="text-muted-foreground truncate text-sm">
+                {candidate.headline}
+              </p>
+            ) : null}
+            {candidate.skills.length ? (
+              <div className="mt-2 flex flex-wrap gap-1">
+                {candidate.skills.slice(0, MAX_VISIBLE_SKILLS).map((skill) => (
+                  <Badge key={skill} variant="outline" className="text-xs">
+                    {skill}
+                  </Badge>
+                ))}
+              </div>
+            ) : null}
+          </div>
+          <Badge variant="secondary">
+            {Math.round(candidate.score * 100)}% match
+          </Badge>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,383 @@
+"use client";
+
+import { useMemo, useState, useTransition } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { toast } from "sonner";
+
+import { api } from "convex/_generated/api";
+import type { Doc, Id } from "convex/_generated/dataModel";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { formatCurrency } from "@/lib/format-currency";
+import type { EmployerGigDetail } from "@/utils/fetchers-server";
+
+type Milestone = Doc<"milestones">;
+
+interface GigMilestonesSectionProps {
+  gig: EmployerGigDetail;
+}
+
+interface MilestoneDraft {
+  title: string;
+  amount: string;
+  dueDate: string;
+  deliverables: string;
+}
+
+const EMPTY_DRAFT: MilestoneDraft = {
+  title: "",
+  amount: "",
+  dueDate: "",
+  deliverables: "",
+};
+
+const STATUS_VARIANTS: Record<
+  Milestone["status"],
+  "default" | "secondary" | "outline" | "destructive"
+> = {
+  pending: "secondary",
+  funded: "default",
+  approved: "outline",
+  cancelled: "destructive",
+};
+
+export function GigMilestonesSection({ gig }: GigMilestonesSectionProps) {
+  const isMilestoneGig = gig.budget.type === "milestone";
+  const milestones = useQuery(
+    api.employerGigs.listMilestones,
+    isMilestoneGig ? { gigId: gig._id } : "skip",
+  );
+
+  const createMilestone = useMutation(api.employerGigs.createMilestone);
+  const updateMilestone = useMutation(api.employerGigs.updateMilestone);
+  const deleteMilestone = useMutation(api.employerGigs.deleteMilestone);
+  const fundMilestone = useMutation(api.employerGigs.fundMilestone);
+  const approveMilestone = useMutation(api.employerGigs.approveMilestone);
+  const cancelMilestone = useMutation(api.employerGigs.cancelMilestone);
+
+  const [draft, setDraft] = useState<MilestoneDraft>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<Id<"milestones"> | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const allocated = useMemo(
+    () =>
+      (milestones ?? [])
+        .filter((milestone) => milestone.status !== "cancelled")
+        .reduce((total, milestone) => total + milestone.amount, 0),
+    [milestones],
+  );
+
+  const run = (action: () => Promise<unknown>, successMessage: string) => {
+    startTransition(async () => {
+      try {
+        await action();
+        toast.success(successMessage);
+      } catch (error) {
+        console.error("[GigMilestones] Milestone action failed", error);
+        toast.error(
+          error instanceof Error
+            ? error.message
+            : "Milestone update failed. Please try again.",
+        );
+      }
+    });
+  };
+
+  const handleSave = () => {
+    const amount = Number(draft.amount);
+    if (!draft.title.trim() || !Number.isFinite(amount) || amount <= 0) {
+      toast.error("Add a title and a positive amount for the milestone");
+      return;
+    }
+
+    const deliverables = draft.deliverables
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean);
+    const dueDate = draft.dueDate ? new Date(draft.dueDate).getTime() : null;
+
+    run(
+      async () => {
+        if (editingId) {
+          await updateMilestone({
+            milestoneId: editingId,
+            patch: { title: draft.title, amount, dueDate, deliverables },
+          });
+        } else {
+          await createMilestone({
+            gigId: gig._id,
+            input: {
+              title: draft.title,
+              amount,
+              dueDate: dueDate ?? undefined,
+              deliverables,
+            },
+          });
+        }
+        setDraft(EMPTY_DRAFT);
+        setEditingId(null);
+      },
+      editingId ? "Milestone updated" : "Milestone added",
+    );
+  };
+
+  const handleEdit = (milestone: Milestone) => {
+    setEditingId(milestone._id);
+    setDraft({
+      title: milestone.title,
+      amount: String(milestone.amount),
+      dueDate: milestone.dueDate
+        ? new Date(milestone.dueDate).toISOString().slice(0, 10)
+        : "",
+      deliverables: milestone.deliverables.join("\n"),
+    });
+  };
+
+  return (
+    <section className="border-border rounded-2xl border p-6 shadow-sm">
+      <header className="flex flex-wrap items-start justify-between gap-2">
+        <div className="space-y-1">
+          <h2 className="text-xl font-semibold">Milestones</h2>
+          <p className="text-muted-foreground text-sm">
+            Split the work into funded checkpoints. Each milestone is held in
+            escrow when funded and paid out when you approve it.
+          </p>
+        </div>
+        {isMilestoneGig ? (
+          <Badge variant="outline">
+            {formatCurrency(allocated, gig.budget.currency)} of{" "}
+            {formatCurrency(gig.budget.max, gig.budget.currency)} allocated
+          </Badge>
+        ) : null}
+      </header>
+
+      {!isMilestoneGig ? (
+        <p className="text-muted-foreground mt-6 text-sm">
+          Save the gig with a milestone budget to start planning milestones.
+        </p>
+      ) : milestones === undefined ? (
+        <div className="mt-6 space-y-3">
+          <Skeleton className="h-16 w-full" />
+          <Skeleton className="h-16 w-full" />
+        </div>
+      ) : (
+        <div className="mt-6 space-y-6">
+          {milestones.length === 0 ? (
+            <p className="text-muted-foreground text-sm">
+              No milestones yet. Add the first checkpoint below.
+            </p>
+          ) : (
+            <ol className="border-border divide-y rounded-lg border">
+              {milestones.map((milestone) => (
+                <li key={milestone._id} className="space-y-2 px-4 py-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="space-y-1">
+                      <p className="text-sm font-medium">
+                        {milestone.order}. {milestone.title}
+                      </p>
+                      <p className="text-muted-foreground text-xs">
+                        {formatCurrency(milestone.amount, milestone.currency)}
+                        {milestone.dueDate
+                          ? ` · due ${new Date(milestone.dueDate).toLocaleDateString()}`
+                          : ""}
+                      </p>
+                    </div>
+                    <Badge
+                      variant={STATUS_VARIANTS[milestone.status]}
+                      className="capitalize"
+                    >
+                      {milestone.status}
+                    </Badge>
+                  </div>
+
+                  {milestone.deliverables.length > 0 ? (
+                    <ul className="text-muted-foreground list-disc pl-5 text-xs">
+                      {milestone.deliverables.map((deliverable) => (
+                        <li key={deliverable}>{deliverable}</li>
+                      ))}
+                    </ul>
+                  ) : null}
+
+                  <div className="flex flex-wrap gap-2">
+                    {milestone.status === "pending" ? (
+                      <>
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="outline"
+                          disabled={isPending}
+                          onClick={() => handleEdit(milestone)}
+                        >
+                          Edit
+                        </Button>
+                        <Button
+                          type="button"
+                          size="sm"
+                          disabled={isPending || !milestone.applicationId}
+                          title={
+                            milestone.applicationId
+                              ? undefined
+                              : "Hire a candidate before funding milestones"
+                          }
+                          onClick={() =>
+                            run(
+                              () =>
+                                fundMilestone({ milestoneId: milestone._id }),
+                              "Milestone funded",
+                            )
+                          }
+                        >
+                          Fund
+                        </Button>
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="ghost"
+                          disabled={isPending}
+                          onClick={() =>
+                            run(
+                              () =>
+                                deleteMilestone({ milestoneId: milestone._id }),
+                              "Milestone removed",
+                            )
+                          }
+                        >
+                          Delete
+                        </Button>
+                      </>
+                    ) : null}
+                    {milestone.status === "funded" ? (
+                      <>
+                        <Button
+                          type="button"
+                          size="sm"
+                          disabled={isPending}
+                          onClick={() =>
+                            run(
+                              () =>
+                                approveMilestone({
+                                  milestoneId: milestone._id,
+                                }),
+                              "Milestone approved and released",
+                            )
+                          }
+                        >
+                          Approve &amp; release
+                        </Button>
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="destructive"
+                          disabled={isPending}
+                          onClick={() =>
+                            run(
+                              () =>
+                                cancelMilestone({ milestoneId: milestone._id }),
+                              "Milestone cancelled and refunded",
+                            )
+                          }
+                        >
+                          Cancel
+                        </Button>
+                      </>
+                    ) : null}
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+
+          <div className="border-border space-y-4 rounded-lg border border-dashed p-4">
+            <h3 className="text-sm font-semibold">
+              {editingId ? "Edit milestone" : "Add milestone"}
+            </h3>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="milestone-title">Title</Label>
+                <Input
+                  id="milestone-title"
+                  value={draft.title}
+                  maxLength={120}
+                  placeholder="e.g. Wireframes approved"
+                  onChange={(event) =>
+                    setDraft((prev) => ({ ...prev, title: event.target.value }))
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="milestone-amount">
+                  Amount ({gig.budget.currency})
+                </Label>
+                <Input
+                  id="milestone-amount"
+                  type="number"
+                  min={0}
+                  step={10}
+                  value={draft.amount}
+                  onChange={(event) =>
+                    setDraft((prev) => ({
+                      ...prev,
+                      amount: event.target.value,
+                    }))
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="milestone-due-date">Due date</Label>
+                <Input
+                  id="milestone-due-date"
+                  type="date"
+                  value={draft.dueDate}
+                  onChange={(event) =>
+                    setDraft((prev) => ({
+                      ...prev,
+                      dueDate: event.target.value,
+                    }))
+                  }
+                />
+              </div>
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="milestone-deliverables">
+                  Deliverables (one per line)
+                </Label>
+                <Textarea
+                  id="milestone-deliverables"
+                  value={draft.deliverables}
+                  className="min-h-[80px]"
+                  onChange={(event) =>
+                    setDraft((prev) => ({
+                      ...prev,
+                      deliverables: event.target.value,
+                    }))
+                  }
+                />
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button type="button" disabled={isPending} onClick={handleSave}>
+                {editingId ? "Save milestone" : "Add milestone"}
+              </Button>
+              {editingId ? (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  disabled={isPending}
+                  onClick={() => {
+                    setEditingId(null);
+                    setDraft(EMPTY_DRAFT);
+                  }}
+                >
+                  Cancel edit
+                </Button>
+              ) : null}
+            </div>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
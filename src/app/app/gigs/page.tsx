@@ -3,6 +3,7 @@ import Link from "next/link";
 
 import { CandidateLayout } from "@/components/layouts/CandidateLayout";
 import { GigListContainer } from "@/components/gigs/list/GigListContainer";
+import { RecommendedGigs } from "@/components/gigs/list/RecommendedGigs";
 import { Button } from "@/components/ui/button";
 import { getGigList, preloadGigList } from "@/lib/server/gigs";
 
@@ -37,6 +38,7 @@ export default async function GigsPage() {
       navItems={candidateNavItems}
       contentClassName="space-y-8"
     >
+      <RecommendedGigs />
       <section className="space-y-4">
         <header className="border-border bg-muted/30 text-muted-foreground rounded-2xl border border-dashed p-4 text-sm">
           <p>
@@ -0,0 +1,28 @@
+import type { Metadata } from "next";
+
+import { requireUser } from "@/lib/auth/requireUser";
+import { NotificationList } from "@/components/notifications/NotificationList";
+
+export const metadata: Metadata = {
+  title: "Notifications | Gigsy",
+  description: "Gig alerts and digests from your saved searches.",
+};
+
+export default async function NotificationsPage() {
+  await requireUser({ returnTo: "/app/notifications" });
+
+  return (
+    <div className="flex flex-1 flex-col gap-8">
+      <header className="space-y-2">
+        <h1 className="text-foreground text-3xl font-semibold">
+          Notifications
+        </h1>
+        <p className="text-muted-foreground">
+          New gigs matching your saved searches and other updates.
+        </p>
+      </header>
+
+      <NotificationList />
+    </div>
+  );
+}
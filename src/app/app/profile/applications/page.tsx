@@ -2,18 +2,30 @@ import type { Metadata } from "next";
 import { Suspense } from "react";
 
 import { requireUser } from "@/lib/auth/requireUser";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { preloadApplications } from "@/utils/fetchers-server";
 import { ApplicationsContent } from "../../../../components/applications/ApplicationsContent";
 import { ApplicationsSkeleton } from "../../../../components/applications/ApplicationsSkeleton";
+import { InterviewInvitations } from "../../../../components/applications/InterviewInvitations";
+import { SavedGigsContent } from "../../../../components/applications/SavedGigsContent";
 
 export const metadata: Metadata = {
   title: "My applications | Gigsy",
   description: "Track every gig application and stay ahead of next steps.",
 };
 
-export default async function ApplicationsPage() {
+interface ApplicationsPageProps {
+  searchParams: Promise<{ tab?: string }>;
+}
+
+export default async function ApplicationsPage({
+  searchParams,
+}: ApplicationsPageProps) {
   await requireUser({ returnTo: "/app/profile/applications" });
 
+  const { tab } = await searchParams;
+  const defaultTab = tab === "saved" ? "saved" : "applications";
+
   const preloaded = await preloadApplications();
 
   return (
@@ -31,9 +43,22 @@ export default async function ApplicationsPage() {
         </div>
       </header>
 
-      <Suspense fallback={<ApplicationsSkeleton />}>
-        <ApplicationsContent preloaded={preloaded} />
-      </Suspense>
+      <InterviewInvitations />
+
+      <Tabs defaultValue={defaultTab} className="gap-6">
+        <TabsList className="sm:w-fit">
+          <TabsTrigger value="applications">Applications</TabsTrigger>
+          <TabsTrigger value="saved">Saved</TabsTrigger>
+        </TabsList>
+        <TabsContent value="applications">
+          <Suspense fallback={<ApplicationsSkeleton />}>
+            <ApplicationsContent preloaded={preloaded} />
+          </Suspense>
+        </TabsContent>
+        <TabsContent value="saved">
+          <SavedGigsContent />
+        </TabsContent>
+      </Tabs>
     </div>
   );
 }
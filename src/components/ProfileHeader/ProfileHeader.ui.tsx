@@ -7,6 +7,7 @@ import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ProfileHeaderEditButton } from "./ProfileHeaderEditButton";
+import { ProfileHeaderMessageButton } from "./ProfileHeaderMessageButton";
 import type { ProfileHeaderProps } from "./types";
 
 function getInitials(name: string): string {
@@ -89,6 +90,7 @@ export function ProfileHeaderUI({ summary }: ProfileHeaderUIProps) {
 
           <div className="flex flex-wrap items-center gap-3">
             <ProfileHeaderEditButton summary={summary} />
+            <ProfileHeaderMessageButton summary={summary} />
             {summary.social?.linkedinUrl ? (
               <Button asChild variant="default">
                 <a
@@ -0,0 +1,55 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useMutation } from "convex/react";
+import { api } from "convex/_generated/api";
+import type { Id } from "convex/_generated/dataModel";
+
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { getConvexErrorMessage } from "@/lib/convex/errors";
+import type { ProfileSummary } from "@/services/profile/types";
+
+interface ProfileHeaderMessageButtonProps {
+  summary: Pick<ProfileSummary, "viewerCanEdit" | "userId">;
+}
+
+export function ProfileHeaderMessageButton({
+  summary,
+}: ProfileHeaderMessageButtonProps) {
+  const router = useRouter();
+  const toast = useToast();
+  const openDirectConversation = useMutation(
+    api.chatConversations.openDirectConversation,
+  );
+  const [isOpening, setIsOpening] = useState(false);
+
+  if (summary.viewerCanEdit || !summary.userId) {
+    return null;
+  }
+
+  const handleClick = async () => {
+    setIsOpening(true);
+    try {
+      const conversationId = await openDirectConversation({
+        userId: summary.userId as Id<"users">,
+      });
+      router.push(`/app/conversations/${conversationId}`);
+    } catch (error) {
+      console.error("Failed to open direct conversation", error);
+      toast.error(getConvexErrorMessage(error, "Unable to start a chat."));
+      setIsOpening(false);
+    }
+  };
+
+  return (
+    <Button
+      variant="secondary"
+      disabled={isOpening}
+      onClick={() => void handleClick()}
+    >
+      Message
+    </Button>
+  );
+}
@@ -1,4 +1,6 @@
 import Image from "next/image";
+import Link from "next/link";
+import { Award } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -36,6 +38,81 @@ export function ProfileSidebarUI({ sidebar }: ProfileSidebarUIProps) {
         </CardContent>
       </Card>
 
+      {sidebar.achievements ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Achievements</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <div className="flex items-baseline justify-between">
+              <span className="text-muted-foreground">Points</span>
+              <span className="text-lg font-semibold">
+                {sidebar.achievements.points.toLocaleString()}
+              </span>
+            </div>
+            {sidebar.achievements.equippedTitle ? (
+              <Badge className="rounded-full">
+                {sidebar.achievements.equippedTitle}
+              </Badge>
+            ) : null}
+            {sidebar.achievements.badges.length ? (
+              <ul className="space-y-2">
+                {sidebar.achievements.badges.map((badge) => (
+                  <li key={badge.name} className="flex items-center gap-3">
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img
+                      src={badge.iconUrl}
+                      alt=""
+                      className="h-8 w-8 rounded-full object-cover"
+                    />
+                    <div>
+                      <p className="font-medium">{badge.name}</p>
+                      <p className="text-muted-foreground text-xs">
+                        {badge.description}
+                      </p>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-muted-foreground text-xs">
+                No badges earned yet.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      ) : null}
+
+      {sidebar.certificates?.length ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Certificates</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <ul className="space-y-3">
+              {sidebar.certificates.map((certificate) => (
+                <li key={certificate.id} className="flex items-start gap-3">
+                  <Award className="text-primary mt-0.5 h-5 w-5 shrink-0" />
+                  <div className="min-w-0">
+                    <p className="font-medium">{certificate.courseTitle}</p>
+                    <p className="text-muted-foreground text-xs">
+                      Issued{" "}
+                      {new Date(certificate.issuedAt).toLocaleDateString()} ·{" "}
+                      <Link
+                        href={`/verify/${certificate.verificationCode}`}
+                        className="text-primary hover:underline"
+                      >
+                        Verify
+                      </Link>
+                    </p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      ) : null}
+
       {sidebar.qrCodeUrl ? (
         <Card>
           <CardHeader>
@@ -155,8 +155,9 @@ interface ModuleFormData {
 interface LessonFormData {
   title: string;
   description?: string;
-  contentType: "text" | "video" | "file";
+  contentType: "text" | "video" | "file" | "quiz";
   content: string;
+  quiz?: QuizFormData;
   thumbnailId?: string;
   estimatedDuration?: number;
   isRequired?: boolean;
@@ -164,6 +165,35 @@ interface LessonFormData {
   isExpanded?: boolean;
 }
 
+interface QuizFormData {
+  passingScore: number;
+  maxAttempts?: number;
+  questions: QuizQuestionFormData[];
+}
+
+interface QuizQuestionFormData {
+  question: string;
+  options: Array<{ text: string; isCorrect: boolean }>;
+}
+
+const isQuizComplete = (quiz?: QuizFormData): boolean =>
+  !!quiz &&
+  quiz.questions.length > 0 &&
+  quiz.questions.every(
+    (question) =>
+      question.question.trim() &&
+      question.options.filter((option) => option.text.trim()).length >= 2 &&
+      question.options.filter(
+        (option) => option.isCorrect && option.text.trim(),
+      ).length === 1,
+  );
+
+const isLessonComplete = (lesson: LessonFormData): boolean =>
+  !!lesson.title &&
+  (lesson.contentType === "quiz"
+    ? isQuizComplete(lesson.quiz)
+    : !!lesson.content);
+
 // Validation functions
 const validateStep = (data: CourseFormData, step: FormStep): boolean => {
   switch (step) {
@@ -178,7 +208,7 @@ const validateStep = (data: CourseFormData, step: FormStep): boolean => {
           (module) =>
             module.title &&
             module.lessons.length > 0 &&
-            module.lessons.every((lesson) => lesson.title && lesson.content),
+            module.lessons.every(isLessonComplete),
         )
       );
     case "pricing":
@@ -204,7 +234,17 @@ const COURSE_LEVELS = ["beginner", "intermediate", "advanced"] as const;
 
 const PRICING_TYPES = ["free", "one-time", "subscription"] as const;
 
-const CONTENT_TYPES = ["text", "video", "file"] as const;
+const CONTENT_TYPES = ["text", "video", "file", "quiz"] as const;
+
+const DEFAULT_QUIZ_PASSING_SCORE = 70;
+
+const createEmptyQuizQuestion = (): QuizQuestionFormData => ({
+  question: "",
+  options: [
+    { text: "", isCorrect: true },
+    { text: "", isCorrect: false },
+  ],
+});
 
 const COURSE_LANGUAGES = [
   "ar",
@@ -219,6 +259,54 @@ const COURSE_LANGUAGES = [
   "ko",
 ] as const;
 
+// Modules and lessons are created in list order on submit, so reordering the
+// form's field arrays is what persists the order.
+const MODULE_DRAG_TYPE = "application/x-course-module";
+const lessonDragType = (moduleIndex: number) =>
+  `application/x-course-lesson-${moduleIndex}`;
+
+/**
+ * HTML5 drag-and-drop props for reordering a field array: `handle` goes on
+ * the grip, `target` on the item. The drag type keeps module and lesson
+ * drags (and lessons of different modules) out of each other's lists.
+ */
+function getDragReorderProps(
+  dragType: string,
+  index: number,
+  onMove: (from: number, to: number) => void,
+) {
+  const accepts = (event: React.DragEvent) =>
+    event.dataTransfer.types.includes(dragType);
+
+  return {
+    handle: {
+      draggable: true,
+      onDragStart: (event: React.DragEvent) => {
+        event.stopPropagation();
+        event.dataTransfer.effectAllowed = "move";
+        event.dataTransfer.setData(dragType, String(index));
+      },
+    },
+    target: {
+      onDragOver: (event: React.DragEvent) => {
+        if (accepts(event)) {
+          event.preventDefault();
+          event.stopPropagation();
+        }
+      },
+      onDrop: (event: React.DragEvent) => {
+        if (!accepts(event)) return;
+        event.preventDefault();
+        event.stopPropagation();
+        const from = Number(event.dataTransfer.getData(dragType));
+        if (Number.isInteger(from) && from !== index) {
+          onMove(from, index);
+        }
+      },
+    },
+  };
+}
+
 // =============================================================================
 // RBAC ACCESS CONTROL
 // =============================================================================
@@ -364,6 +452,7 @@ export function AdminCourseForm() {
   const createCourse = useMutation(api.coursesMutations.createCourse);
   const createModule = useMutation(api.coursesMutations.createModule);
   const createLesson = useMutation(api.coursesMutations.createLesson);
+  const saveLessonQuiz = useMutation(api.coursesMutations.saveLessonQuiz);
 
   // Form setup with schema that matches our interface
   const formSchema = z.object({
@@ -388,15 +477,38 @@ export function AdminCourseForm() {
         estimatedDuration: z.number().min(0).optional(),
         isRequired: z.boolean().optional(),
         lessons: z.array(
-          z.object({
-            title: z.string().min(1),
-            description: z.string().optional(),
-            contentType: z.enum(["text", "video", "file"]),
-            content: z.string().min(1),
-            thumbnailId: z.string().optional(),
-            estimatedDuration: z.number().min(0).optional(),
-            isRequired: z.boolean().optional(),
-          }),
+          z
+            .object({
+              title: z.string().min(1),
+              description: z.string().optional(),
+              contentType: z.enum(["text", "video", "file", "quiz"]),
+              content: z.string(),
+              quiz: z
+                .object({
+                  passingScore: z.number().min(0).max(100),
+                  maxAttempts: z.number().int().min(1).optional(),
+                  questions: z.array(
+                    z.object({
+                      question: z.string().min(1),
+                      options: z.array(
+                        z.object({
+                          text: z.string(),
+                          isCorrect: z.boolean(),
+                        }),
+                      ),
+                    }),
+                  ),
+                })
+                .optional(),
+              thumbnailId: z.string().optional(),
+              estimatedDuration: z.number().min(0).optional(),
+              isRequired: z.boolean().optional(),
+            })
+            .refine(
+              (lesson) =>
+                lesson.contentType === "quiz" || lesson.content.length > 0,
+              { message: "Content is required", path: ["content"] },
+            ),
         ),
       }),
     ),
@@ -424,6 +536,7 @@ export function AdminCourseForm() {
     fields: moduleFields,
     append: appendModule,
     remove: removeModule,
+    move: moveModule,
   } = useFieldArray({
     control: form.control,
     name: "modules",
@@ -617,7 +730,7 @@ export function AdminCourseForm() {
 
           for (const lessonData of moduleData.lessons) {
             console.log("[AdminCourseForm] Creating lesson:", lessonData);
-            await createLesson({
+            const lessonId = await createLesson({
               moduleId,
               title: lessonData.title,
               description: lessonData.description,
@@ -631,6 +744,16 @@ export function AdminCourseForm() {
               "[AdminCourseForm] Lesson created for module:",
               moduleId,
             );
+
+            if (lessonData.contentType === "quiz" && lessonData.quiz) {
+              await saveLessonQuiz({
+                lessonId,
+                passingScore: lessonData.quiz.passingScore,
+                maxAttempts: lessonData.quiz.maxAttempts,
+                questions: lessonData.quiz.questions,
+              });
+              console.log("[AdminCourseForm] Quiz saved for lesson:", lessonId);
+            }
           }
         }
 
@@ -657,7 +780,14 @@ export function AdminCourseForm() {
         );
       }
     },
-    [createCourse, createModule, createLesson, form, handleStepChange],
+    [
+      createCourse,
+      createModule,
+      createLesson,
+      saveLessonQuiz,
+      form,
+      handleStepChange,
+    ],
   );
 
   // Render step content
@@ -684,6 +814,7 @@ export function AdminCourseForm() {
             moduleFields={moduleFields}
             onAddModule={handleAddModule}
             onRemoveModule={removeModule}
+            onMoveModule={moveModule}
             onAddLesson={handleAddLesson}
             onComplete={() => handleStepComplete("structure", "pricing")}
           />
@@ -1133,6 +1264,7 @@ function CourseStructureStep({
   moduleFields,
   onAddModule,
   onRemoveModule,
+  onMoveModule,
   onAddLesson,
   onComplete,
 }: {
@@ -1140,6 +1272,7 @@ function CourseStructureStep({
   moduleFields: FieldArrayWithId<CourseFormData, "modules", "id">[];
   onAddModule: () => void;
   onRemoveModule: (index: number) => void;
+  onMoveModule: (from: number, to: number) => void;
   onAddLesson: (moduleIndex: number) => void;
   onComplete: () => void;
 }) {
@@ -1169,7 +1302,13 @@ function CourseStructureStep({
               <ModuleEditor
                 key={module.id}
                 form={form}
+                itemValue={module.id}
                 moduleIndex={moduleIndex}
+                dragProps={getDragReorderProps(
+                  MODULE_DRAG_TYPE,
+                  moduleIndex,
+                  onMoveModule,
+                )}
                 onRemove={() => onRemoveModule(moduleIndex)}
                 onAddLesson={() => onAddLesson(moduleIndex)}
               />
@@ -1189,28 +1328,43 @@ function CourseStructureStep({
 
 function ModuleEditor({
   form,
+  itemValue,
   moduleIndex,
+  dragProps,
   onRemove,
   onAddLesson,
 }: {
   form: UseFormReturn<CourseFormData>;
+  itemValue: string;
   moduleIndex: number;
+  dragProps: ReturnType<typeof getDragReorderProps>;
   onRemove: () => void;
   onAddLesson: () => void;
 }) {
-  const { fields: lessonFields, remove: removeLesson } = useFieldArray({
+  const {
+    fields: lessonFields,
+    remove: removeLesson,
+    move: moveLesson,
+  } = useFieldArray({
     control: form.control,
     name: `modules.${moduleIndex}.lessons`,
   });
 
   return (
     <AccordionItem
-      value={`module-${moduleIndex}`}
+      value={itemValue}
       className="rounded-lg border"
+      {...dragProps.target}
     >
       <AccordionTrigger className="px-4 py-3 hover:no-underline">
         <div className="flex flex-1 items-center space-x-3">
-          <GripVertical className="h-4 w-4 text-gray-400" />
+          <span
+            {...dragProps.handle}
+            aria-label="Drag to reorder module"
+            className="cursor-grab"
+          >
+            <GripVertical className="h-4 w-4 text-gray-400" />
+          </span>
           <div className="text-left">
             <p className="font-medium">
               {form.watch(`modules.${moduleIndex}.title`) ||
@@ -1293,15 +1447,25 @@ function ModuleEditor({
               </Button>
             </div>
 
-            {lessonFields.map((lesson, lessonIndex) => (
-              <LessonEditor
-                key={lesson.id}
-                form={form}
-                moduleIndex={moduleIndex}
-                lessonIndex={lessonIndex}
-                onRemove={() => removeLesson(lessonIndex)}
-              />
-            ))}
+            {lessonFields.map((lesson, lessonIndex) => {
+              const lessonDragProps = getDragReorderProps(
+                lessonDragType(moduleIndex),
+                lessonIndex,
+                moveLesson,
+              );
+
+              return (
+                <div key={lesson.id} {...lessonDragProps.target}>
+                  <LessonEditor
+                    form={form}
+                    moduleIndex={moduleIndex}
+                    lessonIndex={lessonIndex}
+                    dragHandleProps={lessonDragProps.handle}
+                    onRemove={() => removeLesson(lessonIndex)}
+                  />
+                </div>
+              );
+            })}
           </div>
 
           {/* Module Actions */}
@@ -1356,33 +1520,59 @@ function LessonEditor({
   form,
   moduleIndex,
   lessonIndex,
+  dragHandleProps,
   onRemove,
 }: {
   form: UseFormReturn<CourseFormData>;
   moduleIndex: number;
   lessonIndex: number;
+  dragHandleProps: ReturnType<typeof getDragReorderProps>["handle"];
   onRemove: () => void;
 }) {
   const contentType = form.watch(
     `modules.${moduleIndex}.lessons.${lessonIndex}.contentType`,
   );
+  const previousContentType = React.useRef(contentType);
 
-  // Clear content field when content type changes to prevent validation errors
+  // Clear content field when content type changes to prevent validation errors.
+  // Reordering changes the indexes but not the type, so content is kept.
   React.useEffect(() => {
+    if (previousContentType.current === contentType) return;
+    previousContentType.current = contentType;
+
     // Clear the content field when switching content types to prevent
     // FileUpload from receiving invalid data (text instead of storage ID)
     form.setValue(`modules.${moduleIndex}.lessons.${lessonIndex}.content`, "");
+
+    // Seed a first question so quiz lessons start in an editable state
+    const quizPath =
+      `modules.${moduleIndex}.lessons.${lessonIndex}.quiz` as const;
+    if (contentType === "quiz" && !form.getValues(quizPath)) {
+      form.setValue(quizPath, {
+        passingScore: DEFAULT_QUIZ_PASSING_SCORE,
+        questions: [createEmptyQuizQuestion()],
+      });
+    }
   }, [contentType, form, moduleIndex, lessonIndex]);
 
   return (
     <Card>
       <CardContent className="space-y-4 p-4">
         <div className="flex items-center justify-between">
-          <h5 className="font-medium">
-            {form.watch(
-              `modules.${moduleIndex}.lessons.${lessonIndex}.title`,
-            ) || `Lesson ${lessonIndex + 1}`}
-          </h5>
+          <div className="flex items-center space-x-2">
+            <span
+              {...dragHandleProps}
+              aria-label="Drag to reorder lesson"
+              className="cursor-grab"
+            >
+              <GripVertical className="h-4 w-4 text-gray-400" />
+            </span>
+            <h5 className="font-medium">
+              {form.watch(
+                `modules.${moduleIndex}.lessons.${lessonIndex}.title`,
+              ) || `Lesson ${lessonIndex + 1}`}
+            </h5>
+          </div>
           <Button variant="ghost" size="sm" onClick={onRemove}>
             <Trash2 className="h-4 w-4" />
           </Button>
@@ -1510,6 +1700,14 @@ function LessonEditor({
           />
         )}
 
+        {contentType === "quiz" && (
+          <QuizEditor
+            form={form}
+            moduleIndex={moduleIndex}
+            lessonIndex={lessonIndex}
+          />
+        )}
+
         <div className="grid grid-cols-1 gap-4 lg:grid-cols-3">
           <FormField
             control={form.control}
@@ -1570,6 +1768,204 @@ function LessonEditor({
   );
 }
 
+function QuizEditor({
+  form,
+  moduleIndex,
+  lessonIndex,
+}: {
+  form: UseFormReturn<CourseFormData>;
+  moduleIndex: number;
+  lessonIndex: number;
+}) {
+  const quizPath =
+    `modules.${moduleIndex}.lessons.${lessonIndex}.quiz` as const;
+  const quiz = form.watch(quizPath);
+  const questions = quiz?.questions ?? [];
+
+  const updateQuestions = (next: QuizQuestionFormData[]) => {
+    form.setValue(
+      quizPath,
+      {
+        passingScore: quiz?.passingScore ?? DEFAULT_QUIZ_PASSING_SCORE,
+        maxAttempts: quiz?.maxAttempts,
+        questions: next,
+      },
+      { shouldDirty: true },
+    );
+  };
+
+  const updateQuestion = (
+    questionIndex: number,
+    patch: Partial<QuizQuestionFormData>,
+  ) => {
+    updateQuestions(
+      questions.map((question, index) =>
+        index === questionIndex ? { ...question, ...patch } : question,
+      ),
+    );
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border border-dashed p-4">
+      <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+        <FormField
+          control={form.control}
+          name={`${quizPath}.passingScore`}
+          render={({ field }) => (
+            <FormItem>
+              <Label>Passing Score (%)</Label>
+              <FormControl>
+                <Input
+                  type="number"
+                  min="0"
+                  max="100"
+                  {...field}
+                  onChange={(e) =>
+                    field.onChange(parseInt(e.target.value) || 0)
+                  }
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name={`${quizPath}.maxAttempts`}
+          render={({ field }) => (
+            <FormItem>
+              <Label>Max Attempts</Label>
+              <FormControl>
+                <Input
+                  type="number"
+                  min="1"
+                  placeholder="Unlimited"
+                  value={field.value ?? ""}
+                  onChange={(e) =>
+                    field.onChange(parseInt(e.target.value) || undefined)
+                  }
+                />
+              </FormControl>
+              <FormDescription>Leave empty for unlimited</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      {questions.map((question, questionIndex) => (
+        <Card key={questionIndex}>
+          <CardContent className="space-y-3 p-4">
+            <div className="flex items-center justify-between">
+              <Label>Question {questionIndex + 1}</Label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                disabled={questions.length === 1}
+                onClick={() =>
+                  updateQuestions(
+                    questions.filter((_, index) => index !== questionIndex),
+                  )
+                }
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <Input
+              placeholder="e.g., What does JSX compile to?"
+              value={question.question}
+              onChange={(e) =>
+                updateQuestion(questionIndex, { question: e.target.value })
+              }
+            />
+            <div className="space-y-2">
+              {question.options.map((option, optionIndex) => (
+                <div key={optionIndex} className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name={`quiz-${moduleIndex}-${lessonIndex}-${questionIndex}`}
+                    checked={option.isCorrect}
+                    aria-label="Mark as correct answer"
+                    onChange={() =>
+                      updateQuestion(questionIndex, {
+                        options: question.options.map((candidate, index) => ({
+                          ...candidate,
+                          isCorrect: index === optionIndex,
+                        })),
+                      })
+                    }
+                  />
+                  <Input
+                    placeholder={`Option ${optionIndex + 1}`}
+                    value={option.text}
+                    onChange={(e) =>
+                      updateQuestion(questionIndex, {
+                        options: question.options.map((candidate, index) =>
+                          index === optionIndex
+                            ? { ...candidate, text: e.target.value }
+                            : candidate,
+                        ),
+                      })
+                    }
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    disabled={question.options.length <= 2}
+                    onClick={() => {
+                      const remaining = question.options.filter(
+                        (_, index) => index !== optionIndex,
+                      );
+                      if (!remaining.some((candidate) => candidate.isCorrect)) {
+                        remaining[0] = { ...remaining[0]!, isCorrect: true };
+                      }
+                      updateQuestion(questionIndex, { options: remaining });
+                    }}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={question.options.length >= 8}
+                onClick={() =>
+                  updateQuestion(questionIndex, {
+                    options: [
+                      ...question.options,
+                      { text: "", isCorrect: false },
+                    ],
+                  })
+                }
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Option
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() =>
+          updateQuestions([...questions, createEmptyQuizQuestion()])
+        }
+      >
+        <Plus className="mr-2 h-4 w-4" />
+        Add Question
+      </Button>
+    </div>
+  );
+}
+
 function PricingStep({
   form,
   onComplete,
@@ -10,6 +10,7 @@ import { ApplicationCard } from "./ApplicationCard";
 import { EmptyState } from "@/components/shared/EmptyState";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/components/ui/use-toast";
+import { getConvexErrorMessage } from "@/lib/convex/errors";
 import { api } from "convex/_generated/api";
 import type { Id } from "convex/_generated/dataModel";
 
@@ -49,7 +50,13 @@ export function ApplicationListContainer({
         onWithdrawSuccess?.(applicationId);
       } catch (error) {
         console.error("Failed to withdraw application", error);
-        toast.error("Unable to withdraw application. Please try again.", 4000);
+        toast.error(
+          getConvexErrorMessage(
+            error,
+            "Unable to withdraw application. Please try again.",
+          ),
+          4000,
+        );
       } finally {
         setPendingId(null);
       }
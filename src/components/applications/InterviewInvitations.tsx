@@ -0,0 +1,144 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "convex/_generated/api";
+import type { Doc, Id } from "convex/_generated/dataModel";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { InterviewCalendarButton } from "@/components/interviews/InterviewCalendarButton";
+import { formatInterviewTime } from "@/components/interviews/format";
+import { getConvexErrorMessage } from "@/lib/convex/errors";
+
+const FORMAT_LABELS: Record<Doc<"interviews">["format"], string> = {
+  video: "Video call",
+  phone: "Phone call",
+  in_person: "In person",
+};
+
+/**
+ * Interview invitations awaiting a time and upcoming interviews for the
+ * signed-in candidate. Renders nothing when there are none.
+ */
+export function InterviewInvitations() {
+  const interviews = useQuery(api.interviews.listMine);
+
+  if (!interviews?.length) {
+    return null;
+  }
+
+  return (
+    <section className="space-y-4" aria-label="Interviews">
+      <h2 className="text-foreground text-xl font-semibold">Interviews</h2>
+      <ul className="space-y-4">
+        {interviews.map(({ interview, gigTitle }) => (
+          <InterviewItem
+            key={interview._id}
+            interview={interview}
+            gigTitle={gigTitle}
+          />
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+function InterviewItem({
+  interview,
+  gigTitle,
+}: {
+  interview: Doc<"interviews">;
+  gigTitle: string;
+}) {
+  const confirmSlot = useMutation(api.interviews.confirmSlot);
+  const cancelInterview = useMutation(api.interviews.cancel);
+  const toast = useToast();
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+
+  const timeZone = interview.candidateTimezone;
+
+  const handleConfirm = async (slotIndex: number) => {
+    setPendingAction(`slot-${slotIndex}`);
+    try {
+      await confirmSlot({ interviewId: interview._id, slotIndex });
+      toast.success("Interview confirmed. Add it to your calendar.");
+    } catch (error) {
+      console.error("Failed to confirm interview slot", error);
+      toast.error(getConvexErrorMessage(error, "Unable to confirm this time."));
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleCancel = async (interviewId: Id<"interviews">) => {
+    setPendingAction("cancel");
+    try {
+      await cancelInterview({ interviewId });
+      toast.success("Interview cancelled. The employer has been notified.");
+    } catch (error) {
+      console.error("Failed to cancel interview", error);
+      toast.error(getConvexErrorMessage(error, "Unable to cancel interview."));
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  return (
+    <li className="border-border bg-card space-y-3 rounded-xl border p-4 shadow-sm">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <p className="text-foreground font-medium">{gigTitle}</p>
+          <p className="text-muted-foreground text-sm">
+            {FORMAT_LABELS[interview.format]} · {interview.durationMinutes} min
+            {interview.location ? ` · ${interview.location}` : ""}
+          </p>
+        </div>
+        <Badge variant={interview.scheduledSlot ? "default" : "secondary"}>
+          {interview.scheduledSlot ? "Scheduled" : "Pick a time"}
+        </Badge>
+      </div>
+
+      {interview.notes ? (
+        <p className="text-muted-foreground text-sm whitespace-pre-line">
+          {interview.notes}
+        </p>
+      ) : null}
+
+      {interview.scheduledSlot ? (
+        <p className="text-sm font-medium">
+          {formatInterviewTime(interview.scheduledSlot.startsAt, timeZone)}
+        </p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {interview.slots.map((slot, index) => (
+            <Button
+              key={slot.startsAt}
+              variant="outline"
+              size="sm"
+              disabled={pendingAction !== null || slot.startsAt <= Date.now()}
+              onClick={() => void handleConfirm(index)}
+            >
+              {formatInterviewTime(slot.startsAt, timeZone)}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {interview.scheduledSlot ? (
+          <InterviewCalendarButton interviewId={interview._id} />
+        ) : null}
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={pendingAction !== null}
+          onClick={() => void handleCancel(interview._id)}
+        >
+          {interview.scheduledSlot ? "Cancel interview" : "Decline"}
+        </Button>
+      </div>
+    </li>
+  );
+}
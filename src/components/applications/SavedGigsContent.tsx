@@ -0,0 +1,76 @@
+"use client";
+
+import { useCallback, useMemo } from "react";
+import { useRouter } from "next/navigation";
+import { BookmarkIcon } from "lucide-react";
+import { useQuery } from "convex/react";
+import { api } from "convex/_generated/api";
+
+import { GigList } from "@/components/gigs/list/GigList";
+import { EmptyState } from "@/components/shared/EmptyState";
+import { useSavedGigs } from "@/hooks/useSavedGigs";
+import type { GigListItem } from "@/types/gigs";
+import { mapGigRecordToListItem } from "@/utils/gig-mappers";
+import { ApplicationsSkeleton } from "./ApplicationsSkeleton";
+
+/**
+ * Gigs the candidate bookmarked, newest first. Gigs that have since closed
+ * stay listed until unsaved but can no longer be applied to.
+ */
+export function SavedGigsContent() {
+  const router = useRouter();
+  const savedGigs = useQuery(api.savedGigs.listMine);
+  const { isSaved, toggleSave } = useSavedGigs();
+
+  const gigs = useMemo(
+    () => savedGigs?.map(({ gig }) => mapGigRecordToListItem(gig)) ?? [],
+    [savedGigs],
+  );
+
+  const handleApply = useCallback(
+    (gigId: GigListItem["_id"]) => {
+      router.push(`/app/gigs/${gigId}/apply`);
+    },
+    [router],
+  );
+
+  const handleSelect = useCallback(
+    (gigId: GigListItem["_id"]) => {
+      router.push(`/app/gigs/${gigId}`);
+    },
+    [router],
+  );
+
+  const handleSave = useCallback(
+    (gigId: GigListItem["_id"]) => {
+      void toggleSave(gigId);
+    },
+    [toggleSave],
+  );
+
+  if (savedGigs === undefined) {
+    return <ApplicationsSkeleton />;
+  }
+
+  if (gigs.length === 0) {
+    return (
+      <EmptyState
+        title="No saved gigs yet"
+        description="Save gigs while you browse and they'll show up here. We'll remind you before their applications close."
+        actionLabel="Browse gigs"
+        onAction={() => router.push("/app/gigs")}
+        icon={<BookmarkIcon className="size-10" />}
+      />
+    );
+  }
+
+  return (
+    <GigList
+      gigs={gigs}
+      onApply={handleApply}
+      onSave={handleSave}
+      onSelect={handleSelect}
+      isSaved={isSaved}
+    />
+  );
+}
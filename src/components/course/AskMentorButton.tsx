@@ -0,0 +1,50 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useMutation } from "convex/react";
+import { api } from "convex/_generated/api";
+import type { Id } from "convex/_generated/dataModel";
+import { MessageCircle } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { getConvexErrorMessage } from "@/lib/convex/errors";
+
+interface AskMentorButtonProps {
+  courseId: Id<"courses">;
+}
+
+/** Open the viewer's mentor conversation with the course author. */
+export function AskMentorButton({ courseId }: AskMentorButtonProps) {
+  const router = useRouter();
+  const toast = useToast();
+  const requestMentorConversation = useMutation(
+    api.chatConversations.requestMentorConversation,
+  );
+  const [isOpening, setIsOpening] = useState(false);
+
+  const handleClick = async () => {
+    setIsOpening(true);
+    try {
+      const conversationId = await requestMentorConversation({ courseId });
+      router.push(`/app/conversations/${conversationId}`);
+    } catch (error) {
+      console.error("Failed to open mentor conversation", error);
+      toast.error(getConvexErrorMessage(error, "Unable to contact a mentor."));
+      setIsOpening(false);
+    }
+  };
+
+  return (
+    <Button
+      variant="outline"
+      className="w-full"
+      disabled={isOpening}
+      onClick={() => void handleClick()}
+    >
+      <MessageCircle className="mr-2 h-4 w-4" />
+      Ask a mentor
+    </Button>
+  );
+}
@@ -0,0 +1,50 @@
+"use client";
+
+import Link from "next/link";
+import { useQuery } from "convex/react";
+import { api } from "convex/_generated/api";
+import type { Id } from "convex/_generated/dataModel";
+import { Award, Download } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { downloadCertificatePdf } from "@/lib/certificate-pdf";
+
+interface CertificateDownloadButtonProps {
+  courseId: Id<"courses">;
+}
+
+/** Download and verification links for the viewer's course certificate. */
+export function CertificateDownloadButton({
+  courseId,
+}: CertificateDownloadButtonProps) {
+  const certificate = useQuery(api.certificates.getMineForCourse, {
+    courseId,
+  });
+
+  if (!certificate) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2 text-center">
+      <Button
+        variant="outline"
+        className="w-full"
+        onClick={() => downloadCertificatePdf(certificate)}
+      >
+        <Download className="mr-2 h-4 w-4" />
+        Download certificate
+      </Button>
+      <p className="text-muted-foreground flex items-center justify-center gap-1 text-xs">
+        <Award className="h-3 w-3" />
+        Code {certificate.verificationCode} ·{" "}
+        <Link
+          href={`/verify/${certificate.verificationCode}`}
+          className="text-primary hover:underline"
+        >
+          Verify
+        </Link>
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,421 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, usePaginatedQuery, useQuery } from "convex/react";
+import { api } from "convex/_generated/api";
+import type { Id } from "convex/_generated/dataModel";
+import type { FunctionReturnType } from "convex/server";
+import { MessageSquareReply, Star, ThumbsUp, Trash2 } from "lucide-react";
+
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import { getConvexErrorMessage } from "@/lib/convex/errors";
+import { cn } from "@/lib/utils";
+
+const REVIEWS_PAGE_SIZE = 5;
+
+type CourseReviewView = FunctionReturnType<
+  typeof api.courseReviews.listForCourse
+>["page"][number];
+
+interface CourseReviewsProps {
+  courseId: Id<"courses">;
+}
+
+function StarRating({
+  value,
+  onChange,
+  size = "sm",
+}: {
+  value: number;
+  onChange?: (value: number) => void;
+  size?: "sm" | "lg";
+}) {
+  const iconClass = size === "lg" ? "h-6 w-6" : "h-4 w-4";
+
+  return (
+    <div
+      className="flex items-center gap-0.5"
+      role={onChange ? "radiogroup" : "img"}
+      aria-label={`${value} out of 5 stars`}
+    >
+      {[1, 2, 3, 4, 5].map((star) => {
+        const icon = (
+          <Star
+            className={cn(
+              iconClass,
+              star <= Math.round(value)
+                ? "fill-yellow-400 text-yellow-400"
+                : "text-muted-foreground",
+            )}
+          />
+        );
+
+        return onChange ? (
+          <button
+            key={star}
+            type="button"
+            role="radio"
+            aria-checked={star === value}
+            aria-label={`${star} star${star === 1 ? "" : "s"}`}
+            onClick={() => onChange(star)}
+          >
+            {icon}
+          </button>
+        ) : (
+          <span key={star}>{icon}</span>
+        );
+      })}
+    </div>
+  );
+}
+
+function ReviewForm({
+  courseId,
+  existing,
+  onDone,
+}: {
+  courseId: Id<"courses">;
+  existing: CourseReviewView | null;
+  onDone: () => void;
+}) {
+  const toast = useToast();
+  const submitReview = useMutation(api.courseReviews.submit);
+  const [rating, setRating] = useState(existing?.rating ?? 0);
+  const [body, setBody] = useState(existing?.body ?? "");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      await submitReview({ courseId, rating, body });
+      toast.success(existing ? "Review updated" : "Thanks for your review!");
+      onDone();
+    } catch (error) {
+      console.error("Failed to submit review", error);
+      toast.error(getConvexErrorMessage(error, "Unable to save your review."));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <StarRating value={rating} onChange={setRating} size="lg" />
+      <Textarea
+        value={body}
+        onChange={(event) => setBody(event.target.value)}
+        placeholder="What did you think of this course?"
+        maxLength={2000}
+        rows={4}
+      />
+      <div className="flex justify-end gap-2">
+        {existing ? (
+          <Button variant="ghost" size="sm" onClick={onDone}>
+            Cancel
+          </Button>
+        ) : null}
+        <Button
+          size="sm"
+          disabled={rating === 0 || isSubmitting}
+          onClick={() => void handleSubmit()}
+        >
+          {existing ? "Update review" : "Post review"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function ReplyForm({
+  review,
+  onDone,
+}: {
+  review: CourseReviewView;
+  onDone: () => void;
+}) {
+  const toast = useToast();
+  const replyToReview = useMutation(api.courseReviews.reply);
+  const [body, setBody] = useState(review.reply?.body ?? "");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      await replyToReview({ reviewId: review._id, body });
+      onDone();
+    } catch (error) {
+      console.error("Failed to reply to review", error);
+      toast.error(getConvexErrorMessage(error, "Unable to post your reply."));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        value={body}
+        onChange={(event) => setBody(event.target.value)}
+        placeholder="Reply to this review"
+        maxLength={2000}
+        rows={3}
+      />
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          disabled={!body.trim() || isSubmitting}
+          onClick={() => void handleSubmit()}
+        >
+          Reply
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function ReviewItem({
+  review,
+  onEdit,
+}: {
+  review: CourseReviewView;
+  onEdit?: () => void;
+}) {
+  const toast = useToast();
+  const toggleHelpful = useMutation(api.courseReviews.toggleHelpful);
+  const removeReview = useMutation(api.courseReviews.remove);
+  const removeReply = useMutation(api.courseReviews.removeReply);
+  const [isReplying, setIsReplying] = useState(false);
+
+  const runAction = (action: Promise<unknown>, fallback: string) => {
+    action.catch((error: unknown) => {
+      console.error(fallback, error);
+      toast.error(getConvexErrorMessage(error, fallback));
+    });
+  };
+
+  const authorName = review.author?.name ?? "Deleted user";
+
+  return (
+    <div className="space-y-3 border-b pb-4 last:border-b-0">
+      <div className="flex items-start gap-3">
+        <Avatar className="h-9 w-9">
+          <AvatarImage src={review.author?.avatarUrl} alt={authorName} />
+          <AvatarFallback>{authorName.charAt(0).toUpperCase()}</AvatarFallback>
+        </Avatar>
+        <div className="min-w-0 flex-1 space-y-1">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-medium">{authorName}</span>
+            <StarRating value={review.rating} />
+            <span className="text-muted-foreground text-xs">
+              {new Date(review.createdAt).toLocaleDateString()}
+              {review.editedAt ? " (edited)" : ""}
+            </span>
+          </div>
+          {review.body ? (
+            <p className="text-muted-foreground text-sm whitespace-pre-line">
+              {review.body}
+            </p>
+          ) : null}
+          <div className="flex flex-wrap items-center gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={!review.canVote}
+              aria-pressed={review.markedHelpfulByViewer}
+              className={cn(
+                "h-7 px-2 text-xs",
+                review.markedHelpfulByViewer && "text-primary",
+              )}
+              onClick={() =>
+                runAction(
+                  toggleHelpful({ reviewId: review._id }),
+                  "Unable to update your vote.",
+                )
+              }
+            >
+              <ThumbsUp className="mr-1 h-3 w-3" />
+              Helpful ({review.helpfulCount})
+            </Button>
+            {review.canReply && !review.reply && !isReplying ? (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs"
+                onClick={() => setIsReplying(true)}
+              >
+                <MessageSquareReply className="mr-1 h-3 w-3" />
+                Reply
+              </Button>
+            ) : null}
+            {review.isOwn && onEdit ? (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs"
+                onClick={onEdit}
+              >
+                Edit
+              </Button>
+            ) : null}
+            {review.canDelete ? (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-destructive h-7 px-2 text-xs"
+                onClick={() =>
+                  runAction(
+                    removeReview({ reviewId: review._id }),
+                    "Unable to delete the review.",
+                  )
+                }
+              >
+                <Trash2 className="mr-1 h-3 w-3" />
+                Delete
+              </Button>
+            ) : null}
+          </div>
+        </div>
+      </div>
+
+      {review.reply && !isReplying ? (
+        <div className="bg-muted/50 ml-12 space-y-1 rounded-md p-3 text-sm">
+          <p className="font-medium">
+            Instructor response
+            {review.reply.author ? ` from ${review.reply.author.name}` : ""}
+          </p>
+          <p className="text-muted-foreground whitespace-pre-line">
+            {review.reply.body}
+          </p>
+          {review.canReply ? (
+            <div className="flex gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs"
+                onClick={() => setIsReplying(true)}
+              >
+                Edit reply
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-destructive h-7 px-2 text-xs"
+                onClick={() =>
+                  runAction(
+                    removeReply({ reviewId: review._id }),
+                    "Unable to remove the reply.",
+                  )
+                }
+              >
+                Remove reply
+              </Button>
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+
+      {isReplying ? (
+        <div className="ml-12">
+          <ReplyForm review={review} onDone={() => setIsReplying(false)} />
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+/**
+ * Rating summary, the viewer's review form and the paginated review list
+ * for the course details page.
+ */
+export function CourseReviews({ courseId }: CourseReviewsProps) {
+  const summary = useQuery(api.courseReviews.getReviewSummary, { courseId });
+  const { results, status, loadMore } = usePaginatedQuery(
+    api.courseReviews.listForCourse,
+    { courseId },
+    { initialNumItems: REVIEWS_PAGE_SIZE },
+  );
+  const [isEditingOwn, setIsEditingOwn] = useState(false);
+
+  const viewerReview = summary?.viewerReview ?? null;
+  const otherReviews = results.filter(
+    (review) => review._id !== viewerReview?._id,
+  );
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-semibold">Reviews</h2>
+        {summary && summary.totalRatings > 0 ? (
+          <div className="flex items-center gap-2">
+            <StarRating value={summary.averageRating} />
+            <span className="font-medium">
+              {summary.averageRating.toFixed(1)}
+            </span>
+            <span className="text-muted-foreground text-sm">
+              ({summary.totalRatings}{" "}
+              {summary.totalRatings === 1 ? "rating" : "ratings"})
+            </span>
+          </div>
+        ) : null}
+      </div>
+
+      {summary && viewerReview && !isEditingOwn ? (
+        <ReviewItem
+          review={viewerReview}
+          onEdit={summary.canReview ? () => setIsEditingOwn(true) : undefined}
+        />
+      ) : null}
+
+      {summary?.canReview && (!viewerReview || isEditingOwn) ? (
+        <ReviewForm
+          key={viewerReview?._id ?? "new"}
+          courseId={courseId}
+          existing={viewerReview}
+          onDone={() => setIsEditingOwn(false)}
+        />
+      ) : null}
+
+      {summary &&
+      !summary.canReview &&
+      !viewerReview &&
+      !summary.isInstructor &&
+      summary.ineligibleReason ? (
+        <p className="text-muted-foreground text-sm">
+          {summary.ineligibleReason}.
+        </p>
+      ) : null}
+
+      <div className="space-y-4">
+        {status === "LoadingFirstPage" ? (
+          <p className="text-muted-foreground py-4 text-center text-sm">
+            Loading reviews...
+          </p>
+        ) : otherReviews.length === 0 && !viewerReview ? (
+          <p className="text-muted-foreground py-4 text-center text-sm">
+            No reviews yet.
+          </p>
+        ) : (
+          otherReviews.map((review) => (
+            <ReviewItem key={review._id} review={review} />
+          ))
+        )}
+      </div>
+
+      {status === "CanLoadMore" ? (
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => loadMore(REVIEWS_PAGE_SIZE)}
+        >
+          Show more reviews
+        </Button>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "convex/_generated/api";
+import type { Id } from "convex/_generated/dataModel";
+
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { getConvexErrorMessage } from "@/lib/convex/errors";
+
+interface EnrollButtonProps {
+  courseId: Id<"courses">;
+  isPaid: boolean;
+  onEnrolled: () => void;
+}
+
+/** Enroll the viewer, charging their wallet when the course is paid. */
+export function EnrollButton({
+  courseId,
+  isPaid,
+  onEnrolled,
+}: EnrollButtonProps) {
+  const toast = useToast();
+  const enrollInCourse = useMutation(api.courses.enrollInCourse);
+  const [isEnrolling, setIsEnrolling] = useState(false);
+
+  const handleClick = async () => {
+    setIsEnrolling(true);
+    try {
+      await enrollInCourse({ courseId });
+      toast.success("You're enrolled!");
+      onEnrolled();
+    } catch (error) {
+      console.error("Failed to enroll in course", error);
+      toast.error(getConvexErrorMessage(error, "Unable to enroll right now."));
+    } finally {
+      setIsEnrolling(false);
+    }
+  };
+
+  return (
+    <Button
+      className="w-full"
+      size="lg"
+      disabled={isEnrolling}
+      onClick={() => void handleClick()}
+    >
+      {isEnrolling ? "Enrolling…" : isPaid ? "Enroll Now" : "Start Learning"}
+    </Button>
+  );
+}
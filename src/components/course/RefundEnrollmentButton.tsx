@@ -0,0 +1,80 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "convex/_generated/api";
+import type { Id } from "convex/_generated/dataModel";
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { getConvexErrorMessage } from "@/lib/convex/errors";
+
+interface RefundEnrollmentButtonProps {
+  courseId: Id<"courses">;
+  refundableUntil: number;
+}
+
+/** Refund a paid enrollment while the refund window is open. */
+export function RefundEnrollmentButton({
+  courseId,
+  refundableUntil,
+}: RefundEnrollmentButtonProps) {
+  const toast = useToast();
+  const refundEnrollment = useMutation(api.enrollments.refundEnrollment);
+  const [isRefunding, setIsRefunding] = useState(false);
+
+  const handleRefund = async () => {
+    setIsRefunding(true);
+    try {
+      await refundEnrollment({ courseId });
+      toast.success("Your payment has been refunded to your wallet.");
+    } catch (error) {
+      console.error("Failed to refund enrollment", error);
+      toast.error(getConvexErrorMessage(error, "Unable to refund right now."));
+    } finally {
+      setIsRefunding(false);
+    }
+  };
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-muted-foreground w-full"
+          disabled={isRefunding}
+        >
+          Request a refund
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Refund this course?</AlertDialogTitle>
+          <AlertDialogDescription>
+            The full amount goes back to your wallet and you lose access to the
+            course. Refunds are available until{" "}
+            {new Date(refundableUntil).toLocaleDateString()}.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={() => void handleRefund()}>
+            Refund
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
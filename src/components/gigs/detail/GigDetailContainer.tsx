@@ -25,6 +25,7 @@ export interface GigDetailContainerProps {
   >;
   onApply?: (gigId: GigDetail["_id"]) => void;
   onSave?: (gigId: GigDetail["_id"]) => void;
+  isSaved?: boolean;
 }
 
 export function GigDetailContainer({
@@ -32,6 +33,7 @@ export function GigDetailContainer({
   relatedGigs,
   onApply,
   onSave,
+  isSaved = false,
 }: GigDetailContainerProps) {
   const budgetFormatter = new Intl.NumberFormat(undefined, {
     style: "currency",
@@ -79,8 +81,12 @@ export function GigDetailContainer({
               </div>
               <div className="flex gap-2">
                 <Button onClick={() => onApply?.(gig._id)}>Apply</Button>
-                <Button variant="ghost" onClick={() => onSave?.(gig._id)}>
-                  Save
+                <Button
+                  variant="ghost"
+                  onClick={() => onSave?.(gig._id)}
+                  aria-pressed={isSaved}
+                >
+                  {isSaved ? "Saved" : "Save"}
                 </Button>
               </div>
             </div>
@@ -1,13 +1,16 @@
 "use client";
 
-import { useCallback, useMemo } from "react";
+import { useCallback, useEffect, useMemo } from "react";
 import { Bookmark, Share2 } from "lucide-react";
 import { useRouter } from "next/navigation";
+import { useMutation } from "convex/react";
+import { api } from "convex/_generated/api";
 
 import { CandidateLayout } from "@/components/layouts/CandidateLayout";
 import { GigDetailContainer } from "@/components/gigs/detail/GigDetailContainer";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/components/ui/use-toast";
+import { useSavedGigs } from "@/hooks/useSavedGigs";
 import type { GigDetail, GigListItem } from "@/types/gigs";
 
 export interface GigDetailPageContentProps {
@@ -21,12 +24,20 @@ export function GigDetailPageContent({
 }: GigDetailPageContentProps) {
   const router = useRouter();
   const { showToast } = useToast();
+  const { isSaved, toggleSave } = useSavedGigs();
+  const recordView = useMutation(api.gigs.recordView);
+
+  useEffect(() => {
+    recordView({ gigId: gig._id }).catch((error: unknown) => {
+      console.error("Failed to record gig view", error);
+    });
+  }, [gig._id, recordView]);
 
   const candidateNavItems = useMemo(
     () => [
       { href: "/app/gigs", label: "Browse gigs", active: true },
-      { href: "/profile/applications", label: "My applications" },
-      { href: "/profile/saved", label: "Saved gigs" },
+      { href: "/app/profile/applications", label: "My applications" },
+      { href: "/app/profile/saved", label: "Saved gigs" },
     ],
     [],
   );
@@ -36,8 +47,9 @@ export function GigDetailPageContent({
   }, [gig._id, router]);
 
   const handleSave = useCallback(() => {
-    showToast("Saved for later", "success");
-  }, [showToast]);
+    void toggleSave(gig._id);
+  }, [gig._id, toggleSave]);
+  const saved = isSaved(gig._id);
 
   const handleShare = useCallback(async () => {
     const shareUrl = typeof window !== "undefined" ? window.location.href : "";
@@ -66,8 +78,13 @@ export function GigDetailPageContent({
       <Button size="sm" onClick={handleApply}>
         Apply to this gig
       </Button>
-      <Button variant="outline" size="sm" onClick={handleSave}>
-        <Bookmark className="mr-2 h-4 w-4" /> Save
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={handleSave}
+        aria-pressed={saved}
+      >
+        <Bookmark className="mr-2 h-4 w-4" /> {saved ? "Saved" : "Save"}
       </Button>
       <Button variant="ghost" size="sm" onClick={handleShare}>
         <Share2 className="mr-2 h-4 w-4" /> Share
@@ -88,6 +105,7 @@ export function GigDetailPageContent({
         relatedGigs={relatedGigs}
         onApply={handleApply}
         onSave={handleSave}
+        isSaved={saved}
       />
 
       <div className="border-border bg-background/95 sticky right-0 bottom-6 left-0 z-20 rounded-2xl border p-4 shadow-xl backdrop-blur">
@@ -105,8 +123,14 @@ export function GigDetailPageContent({
             <Button size="lg" onClick={handleApply}>
               Apply to this gig
             </Button>
-            <Button variant="outline" size="lg" onClick={handleSave}>
-              <Bookmark className="mr-2 h-5 w-5" /> Save for later
+            <Button
+              variant="outline"
+              size="lg"
+              onClick={handleSave}
+              aria-pressed={saved}
+            >
+              <Bookmark className="mr-2 h-5 w-5" />{" "}
+              {saved ? "Saved" : "Save for later"}
             </Button>
             <Button variant="ghost" size="lg" onClick={handleShare}>
               <Share2 className="mr-2 h-5 w-5" /> Share
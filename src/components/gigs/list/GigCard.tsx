@@ -1,6 +1,6 @@
 "use client";
 
-import { memo } from "react";
+import { memo, type MouseEvent } from "react";
 import {
   Card,
   CardContent,
@@ -28,6 +28,7 @@ export interface GigCardProps {
     | "description"
   >;
   disabledActions?: boolean;
+  isSaved?: boolean;
   showActions?: boolean;
   variant?: GigCardVariant;
   onApply?: (gigId: GigListItem["_id"]) => void;
@@ -41,6 +42,7 @@ function GigCardComponent({
   variant = "default",
   showActions = true,
   disabledActions,
+  isSaved = false,
   onApply,
   onSave,
   onSelect,
@@ -63,7 +65,9 @@ function GigCardComponent({
     onApply?.(_id);
   };
 
-  const handleSave = () => {
+  const handleSave = (event: MouseEvent) => {
+    // Keep the card's own click (open the gig) from firing as well
+    event.stopPropagation();
     if (disabledActions) return;
     onSave?.(_id);
   };
@@ -174,8 +178,9 @@ function GigCardComponent({
             variant="ghost"
             onClick={handleSave}
             disabled={disabledActions}
+            aria-pressed={isSaved}
           >
-            Save
+            {isSaved ? "Saved" : "Save"}
           </Button>
         </CardFooter>
       ) : null}
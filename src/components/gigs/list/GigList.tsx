@@ -19,9 +19,16 @@ export interface GigListProps {
   onApply?: (gigId: GigListItem["_id"]) => void;
   onSave?: (gigId: GigListItem["_id"]) => void;
   onSelect?: (gigId: GigListItem["_id"]) => void;
+  isSaved?: (gigId: GigListItem["_id"]) => boolean;
 }
 
-export function GigList({ gigs, onApply, onSave, onSelect }: GigListProps) {
+export function GigList({
+  gigs,
+  onApply,
+  onSave,
+  onSelect,
+  isSaved,
+}: GigListProps) {
   return (
     <div className="grid gap-4 sm:grid-cols-2 xl:grid-cols-3">
       {gigs.map((gig) => (
@@ -31,6 +38,7 @@ export function GigList({ gigs, onApply, onSave, onSelect }: GigListProps) {
           onApply={onApply}
           onSave={onSave}
           onSelect={onSelect}
+          isSaved={isSaved?.(gig._id)}
         />
       ))}
     </div>
@@ -16,11 +16,13 @@ import {
   type GigFilterState,
 } from "@/components/gigs/list/GigFilters";
 import { GigListPagination } from "@/components/gigs/list/GigListPagination";
+import { SavedSearches } from "@/components/gigs/list/SavedSearches";
 import { EmptyState } from "@/components/shared/EmptyState";
 import { LoadingSkeleton } from "@/components/shared/LoadingSkeleton";
 import { cn } from "@/lib/utils";
 import { useGigListQuery } from "@/hooks/useGigData";
 import { useDebouncedValue } from "@/hooks/useDebouncedValue";
+import { useSavedGigs } from "@/hooks/useSavedGigs";
 
 const DEFAULT_PAGE_SIZE = 9;
 
@@ -57,6 +59,7 @@ export function GigListContainer({
   className,
 }: GigListContainerProps) {
   const router = useRouter();
+  const { isSaved, toggleSave } = useSavedGigs();
   const [uiFilters, setUiFilters] = useState<GigFilterState>({});
   const [filters, setFilters] = useState<GigFilterState>({});
   const [page, setPage] = useState(1);
@@ -144,9 +147,12 @@ export function GigListContainer({
     [router],
   );
 
-  const handleSave = useCallback((gigId: GigListItem["_id"]) => {
-    console.info(`Save clicked for gig ${gigId}`);
-  }, []);
+  const handleSave = useCallback(
+    (gigId: GigListItem["_id"]) => {
+      void toggleSave(gigId);
+    },
+    [toggleSave],
+  );
 
   const handleSelect = useCallback(
     (gigId: GigListItem["_id"]) => {
@@ -160,12 +166,15 @@ export function GigListContainer({
 
   return (
     <div className={cn("grid gap-6 lg:grid-cols-[280px_1fr]", className)}>
-      <GigFilters
-        filters={uiFilters}
-        onChange={handleFiltersChange}
-        onReset={handleReset}
-        isBusy={isBusy}
-      />
+      <div className="space-y-6">
+        <GigFilters
+          filters={uiFilters}
+          onChange={handleFiltersChange}
+          onReset={handleReset}
+          isBusy={isBusy}
+        />
+        <SavedSearches filters={uiFilters} onApply={handleFiltersChange} />
+      </div>
 
       <div className="relative min-h-[320px]">
         {showLoadingPlaceholder ? (
@@ -197,6 +206,7 @@ export function GigListContainer({
                 onApply={handleApply}
                 onSave={handleSave}
                 onSelect={handleSelect}
+                isSaved={isSaved}
               />
               <GigListPagination
                 currentPage={page}
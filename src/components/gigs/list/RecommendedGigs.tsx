@@ -0,0 +1,108 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useAction } from "convex/react";
+import { api } from "convex/_generated/api";
+import type { GigListItem } from "@/types/gigs";
+import { GigCard } from "@/components/gigs/list/GigCard";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { mapGigRecordToListItem } from "@/utils/gig-mappers";
+import { cn } from "@/lib/utils";
+
+const RECOMMENDATION_LIMIT = 3;
+
+type RecommendedGig = GigListItem & { matchScore: number };
+
+type RecommendedGigsProps = {
+  className?: string;
+};
+
+/**
+ * Open gigs that best match the signed-in candidate's profile. Renders
+ * nothing until the candidate has a profile embedding to match against.
+ */
+export function RecommendedGigs({ className }: RecommendedGigsProps) {
+  const router = useRouter();
+  const recommendGigs = useAction(api.matching.recommendGigs);
+  const [gigs, setGigs] = useState<RecommendedGig[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    recommendGigs({ limit: RECOMMENDATION_LIMIT })
+      .then((recommendations) => {
+        if (cancelled) return;
+        setGigs(
+          recommendations.map(({ gig, score }) => ({
+            ...mapGigRecordToListItem(gig),
+            matchScore: score,
+          })),
+        );
+      })
+      .catch((error: unknown) => {
+        console.error("Failed to load recommended gigs", error);
+        if (!cancelled) setGigs([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [recommendGigs]);
+
+  const handleApply = useCallback(
+    (gigId: GigListItem["_id"]) => {
+      router.push(`/app/gigs/${gigId}/apply`);
+    },
+    [router],
+  );
+
+  const handleSelect = useCallback(
+    (gigId: GigListItem["_id"]) => {
+      router.push(`/app/gigs/${gigId}`);
+    },
+    [router],
+  );
+
+  if (gigs === null) {
+    return (
+      <div className={cn("grid gap-4 md:grid-cols-3", className)}>
+        {Array.from({ length: RECOMMENDATION_LIMIT }, (_, index) => (
+          <Skeleton key={index} className="h-48 w-full rounded-xl" />
+        ))}
+      </div>
+    );
+  }
+
+  if (gigs.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className={cn("space-y-3", className)}>
+      <header>
+        <h2 className="text-lg font-semibold">Recommended for you</h2>
+        <p className="text-muted-foreground text-sm">
+          Based on the skills and experience in your profile.
+        </p>
+      </header>
+      <div className="grid gap-4 md:grid-cols-3">
+        {gigs.map((gig) => (
+          <div key={gig._id} className="relative">
+            <Badge variant="secondary" className="absolute top-3 right-3 z-10">
+              {Math.round(gig.matchScore * 100)}% match
+            </Badge>
+            <GigCard
+              gig={gig}
+              variant="compact"
+              showActions={true}
+              onApply={handleApply}
+              onSelect={handleSelect}
+            />
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
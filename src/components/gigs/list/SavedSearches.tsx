@@ -0,0 +1,225 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "convex/_generated/api";
+import type { Doc, Id } from "convex/_generated/dataModel";
+import { Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import type { GigFilterState } from "@/components/gigs/list/GigFilters";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+
+type AlertFrequency = Doc<"savedSearches">["alertFrequency"];
+
+const alertFrequencyLabels: Record<AlertFrequency, string> = {
+  instant: "Instant alerts",
+  daily: "Daily digest",
+  off: "No alerts",
+};
+
+const filterKeys = [
+  "search",
+  "category",
+  "difficultyLevel",
+  "experienceRequired",
+  "budgetType",
+  "currency",
+  "budgetMin",
+  "budgetMax",
+  "isRemoteOnly",
+  "isUrgent",
+] as const satisfies ReadonlyArray<keyof GigFilterState>;
+
+/** Drop empty values so saved filters only record what the user set. */
+function toSavedFilters(filters: GigFilterState): GigFilterState {
+  const saved: GigFilterState = {};
+  for (const key of filterKeys) {
+    const value = filters[key];
+    if (value === undefined || value === "" || value === false) continue;
+    Object.assign(saved, {
+      [key]: key === "search" ? String(value).trim() : value,
+    });
+  }
+  return saved;
+}
+
+function hasActiveFilters(filters: GigFilterState): boolean {
+  return Object.keys(toSavedFilters(filters)).length > 0;
+}
+
+function fromSavedFilters(
+  filters: Doc<"savedSearches">["filters"],
+): GigFilterState {
+  const restored: GigFilterState = {};
+  for (const key of filterKeys) {
+    if (filters[key] !== undefined) {
+      Object.assign(restored, { [key]: filters[key] });
+    }
+  }
+  return restored;
+}
+
+type SavedSearchesProps = {
+  filters: GigFilterState;
+  onApply: (filters: GigFilterState) => void;
+  className?: string;
+};
+
+/**
+ * Save the current gig filters under a name, re-apply saved ones, and choose
+ * how the candidate is alerted when new gigs match them.
+ */
+export function SavedSearches({
+  filters,
+  onApply,
+  className,
+}: SavedSearchesProps) {
+  const savedSearches = useQuery(api.savedSearches.list);
+  const createSavedSearch = useMutation(api.savedSearches.create);
+  const updateSavedSearch = useMutation(api.savedSearches.update);
+  const removeSavedSearch = useMutation(api.savedSearches.remove);
+  const [name, setName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const canSave = hasActiveFilters(filters) && name.trim().length > 0;
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    setIsSaving(true);
+    try {
+      await createSavedSearch({
+        name: name.trim(),
+        filters: toSavedFilters(filters),
+      });
+      setName("");
+      toast.success(
+        "Search saved. We'll include new matches in your daily digest.",
+      );
+    } catch (error) {
+      console.error("Failed to save search", error);
+      toast.error("We couldn't save this search. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleFrequencyChange = async (
+    savedSearchId: Id<"savedSearches">,
+    alertFrequency: AlertFrequency,
+  ) => {
+    try {
+      await updateSavedSearch({ savedSearchId, alertFrequency });
+    } catch (error) {
+      console.error("Failed to update saved search", error);
+      toast.error("We couldn't update alerts for this search.");
+    }
+  };
+
+  const handleRemove = async (savedSearchId: Id<"savedSearches">) => {
+    try {
+      await removeSavedSearch({ savedSearchId });
+    } catch (error) {
+      console.error("Failed to delete saved search", error);
+      toast.error("We couldn't delete this search.");
+    }
+  };
+
+  return (
+    <section
+      className={cn(
+        "border-border bg-card space-y-4 rounded-lg border p-4 shadow-sm",
+        className,
+      )}
+      aria-label="Saved searches"
+    >
+      <h2 className="text-foreground text-base font-semibold">
+        Saved searches
+      </h2>
+
+      <div className="space-y-2">
+        <Label htmlFor="saved-search-name">Save current filters</Label>
+        <div className="flex gap-2">
+          <Input
+            id="saved-search-name"
+            placeholder="e.g. Remote React gigs"
+            value={name}
+            maxLength={80}
+            onChange={(event) => setName(event.target.value)}
+            autoComplete="off"
+          />
+          <Button
+            size="sm"
+            disabled={!canSave || isSaving}
+            onClick={() => void handleSave()}
+          >
+            Save
+          </Button>
+        </div>
+        {!hasActiveFilters(filters) ? (
+          <p className="text-muted-foreground text-xs">
+            Set at least one filter to save a search.
+          </p>
+        ) : null}
+      </div>
+
+      {savedSearches?.length ? (
+        <ul className="space-y-3">
+          {savedSearches.map((savedSearch) => (
+            <li
+              key={savedSearch._id}
+              className="border-border space-y-2 rounded-md border p-3"
+            >
+              <div className="flex items-center justify-between gap-2">
+                <button
+                  type="button"
+                  className="truncate text-left text-sm font-medium hover:underline"
+                  onClick={() => onApply(fromSavedFilters(savedSearch.filters))}
+                >
+                  {savedSearch.name}
+                </button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  aria-label={`Delete saved search ${savedSearch.name}`}
+                  onClick={() => void handleRemove(savedSearch._id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <Select
+                value={savedSearch.alertFrequency}
+                onValueChange={(value: AlertFrequency) =>
+                  void handleFrequencyChange(savedSearch._id, value)
+                }
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(alertFrequencyLabels) as AlertFrequency[]).map(
+                    (frequency) => (
+                      <SelectItem key={frequency} value={frequency}>
+                        {alertFrequencyLabels[frequency]}
+                      </SelectItem>
+                    ),
+                  )}
+                </SelectContent>
+              </Select>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,54 @@
+"use client";
+
+import { useState } from "react";
+import { useConvex } from "convex/react";
+import { api } from "convex/_generated/api";
+import type { Id } from "convex/_generated/dataModel";
+import { CalendarPlus } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { getConvexErrorMessage } from "@/lib/convex/errors";
+import { downloadTextFile } from "@/lib/download";
+
+/** Download the `.ics` file for a confirmed (or cancelled) interview. */
+export function InterviewCalendarButton({
+  interviewId,
+  label = "Add to calendar",
+}: {
+  interviewId: Id<"interviews">;
+  label?: string;
+}) {
+  const convex = useConvex();
+  const toast = useToast();
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleDownload = async () => {
+    setIsLoading(true);
+    try {
+      const { filename, content } = await convex.query(
+        api.interviews.getCalendarFile,
+        { interviewId },
+      );
+      downloadTextFile(filename, content, "text/calendar;charset=utf-8");
+    } catch (error) {
+      console.error("Failed to download interview calendar file", error);
+      toast.error(
+        getConvexErrorMessage(error, "Unable to create the calendar file."),
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      disabled={isLoading}
+      onClick={() => void handleDownload()}
+    >
+      <CalendarPlus className="mr-2 h-4 w-4" /> {label}
+    </Button>
+  );
+}
@@ -0,0 +1,15 @@
+/** Format a timestamp in a timezone, e.g. "Tue, Oct 20, 2:00 PM GMT+2". */
+export function formatInterviewTime(
+  timestamp: number,
+  timeZone: string,
+): string {
+  return new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+  }).format(timestamp);
+}
@@ -11,15 +11,25 @@
 
 "use client";
 
-import React, { useState } from "react";
+import React, { useCallback, useState } from "react";
+import { useMutation, usePaginatedQuery } from "convex/react";
+import { api } from "convex/_generated/api";
+import type { Id } from "convex/_generated/dataModel";
+import type { FunctionReturnType } from "convex/server";
+import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { cn } from "@/lib/utils";
 import {
   MessageSquare,
-  Heart,
   Reply,
   MoreHorizontal,
   Flag,
@@ -33,46 +43,47 @@ interface CommentsProps {
   className?: string;
 }
 
-// Mock comments data - in real app, this would come from API
-const mockComments: Comment[] = [
-  {
-    id: "1",
-    lessonId: "lesson-1",
-    userId: "user-1",
-    userName: "John Doe",
-    userAvatar: "https://github.com/johndoe.png",
-    content:
-      "Great explanation! This really helped me understand the concept better.",
-    createdAt: "2025-09-20T10:00:00Z",
-    likes: 5,
-    replies: [
-      {
-        id: "2",
-        lessonId: "lesson-1",
-        userId: "instructor-1",
-        userName: "Sarah Wilson",
-        userAvatar: "https://github.com/sarahwilson.png",
-        content:
-          "Thank you! I'm glad it was helpful. Let me know if you have any other questions.",
-        createdAt: "2025-09-20T10:30:00Z",
-        parentId: "1",
-        likes: 2,
-        isAuthor: true,
-      },
-    ],
-  },
-  {
-    id: "3",
-    lessonId: "lesson-1",
-    userId: "user-2",
-    userName: "Emily Chen",
-    userAvatar: "https://github.com/emilychen.png",
-    content:
-      "Could you please provide more examples? I'd love to see how this applies in real-world scenarios.",
-    createdAt: "2025-09-20T11:00:00Z",
-    likes: 3,
-  },
-];
+const COMMENTS_PAGE_SIZE = 10;
+
+type LessonCommentView = FunctionReturnType<
+  typeof api.lessonComments.listForLesson
+>["page"][number];
+
+type CommentReplyView = LessonCommentView["replies"][number];
+
+function toComment(
+  view: CommentReplyView,
+  lessonId: string,
+  replies?: Comment[],
+): Comment {
+  return {
+    id: view._id,
+    lessonId,
+    userId: view.author?._id ?? "",
+    userName: view.author?.name ?? "Deleted user",
+    userAvatar: view.author?.avatarUrl,
+    content: view.body,
+    createdAt: new Date(view.createdAt).toISOString(),
+    updatedAt: view.editedAt
+      ? new Date(view.editedAt).toISOString()
+      : undefined,
+    parentId: view.parentId ?? undefined,
+    replies,
+    likes: view.likeCount,
+    isAuthor: view.isInstructor,
+    isLiked: view.likedByViewer,
+    isHidden: view.isHidden,
+    isDeleted: view.isDeleted,
+    isEdited: view.editedAt !== null,
+    canEdit: view.canEdit,
+    canDelete: view.canDelete,
+    canModerate: view.canModerate,
+  };
+}
+
+function describeError(error: unknown, fallback: string): string {
+  return error instanceof Error ? error.message : fallback;
+}
 
 /**
  * Individual Comment Component
@@ -82,8 +93,20 @@ const CommentItem: React.FC<{
   isReply?: boolean;
   onReply?: (commentId: string) => void;
   onLike?: (commentId: string) => void;
-}> = ({ comment, isReply = false, onReply, onLike }) => {
+  onEdit?: (commentId: string, content: string) => Promise<void>;
+  onDelete?: (commentId: string) => void;
+  onToggleHidden?: (commentId: string, hidden: boolean) => void;
+}> = ({
+  comment,
+  isReply = false,
+  onReply,
+  onLike,
+  onEdit,
+  onDelete,
+  onToggleHidden,
+}) => {
   const [showReplies, setShowReplies] = useState(true);
+  const [isEditing, setIsEditing] = useState(false);
 
   const formatTimeAgo = (dateString: string) => {
     const date = new Date(dateString);
@@ -101,6 +124,8 @@ const CommentItem: React.FC<{
     }
   };
 
+  const hasMenu = Boolean(comment.canEdit) || Boolean(comment.canDelete);
+
   return (
     <div className={cn("space-y-3", isReply && "ml-8 border-l pl-4")}>
       <div className="flex items-start gap-3">
@@ -114,55 +139,116 @@ const CommentItem: React.FC<{
         <div className="min-w-0 flex-1 space-y-2">
           <div className="flex items-center gap-2">
             <span className="text-sm font-medium">{comment.userName}</span>
-            {comment.isAuthor && (
+            {comment.isAuthor && !comment.isDeleted && (
               <Badge variant="secondary" className="text-xs">
                 Instructor
               </Badge>
             )}
+            {comment.isHidden && (
+              <Badge variant="outline" className="text-xs">
+                Hidden
+              </Badge>
+            )}
             <span className="text-muted-foreground text-xs">
               {formatTimeAgo(comment.createdAt)}
+              {comment.isEdited ? " · edited" : ""}
             </span>
           </div>
 
-          <p className="text-sm leading-relaxed">{comment.content}</p>
-
-          <div className="flex items-center gap-4">
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => onLike?.(comment.id)}
-              className="text-muted-foreground hover:text-foreground h-auto p-1 text-xs"
-            >
-              <ThumbsUp className="mr-1 h-3 w-3" />
-              {comment.likes ?? 0}
-            </Button>
+          {comment.isDeleted ? (
+            <p className="text-muted-foreground text-sm italic">
+              This comment was deleted.
+            </p>
+          ) : isEditing ? (
+            <CommentForm
+              initialContent={comment.content}
+              submitLabel="Save"
+              onSubmit={async (content) => {
+                await onEdit?.(comment.id, content);
+                setIsEditing(false);
+              }}
+              onCancel={() => setIsEditing(false)}
+              showCancel={true}
+            />
+          ) : (
+            <p className="text-sm leading-relaxed whitespace-pre-wrap">
+              {comment.content}
+            </p>
+          )}
 
-            {!isReply && (
+          {!comment.isDeleted && (
+            <div className="flex items-center gap-4">
               <Button
                 variant="ghost"
                 size="sm"
-                onClick={() => onReply?.(comment.id)}
-                className="text-muted-foreground hover:text-foreground h-auto p-1 text-xs"
+                onClick={() => onLike?.(comment.id)}
+                className={cn(
+                  "text-muted-foreground hover:text-foreground h-auto p-1 text-xs",
+                  comment.isLiked && "text-primary",
+                )}
               >
-                <Reply className="mr-1 h-3 w-3" />
-                Reply
+                <ThumbsUp
+                  className={cn(
+                    "mr-1 h-3 w-3",
+                    comment.isLiked && "fill-current",
+                  )}
+                />
+                {comment.likes ?? 0}
               </Button>
-            )}
 
-            <Button
-              variant="ghost"
-              size="sm"
-              className="text-muted-foreground hover:text-foreground h-auto p-1 text-xs"
-            >
-              <Flag className="mr-1 h-3 w-3" />
-              Report
-            </Button>
-          </div>
+              {!isReply && !comment.isHidden && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onReply?.(comment.id)}
+                  className="text-muted-foreground hover:text-foreground h-auto p-1 text-xs"
+                >
+                  <Reply className="mr-1 h-3 w-3" />
+                  Reply
+                </Button>
+              )}
+
+              {comment.canModerate && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    onToggleHidden?.(comment.id, !comment.isHidden)
+                  }
+                  className="text-muted-foreground hover:text-foreground h-auto p-1 text-xs"
+                >
+                  <Flag className="mr-1 h-3 w-3" />
+                  {comment.isHidden ? "Unhide" : "Hide"}
+                </Button>
+              )}
+            </div>
+          )}
         </div>
 
-        <Button variant="ghost" size="sm" className="h-auto p-1">
-          <MoreHorizontal className="h-4 w-4" />
-        </Button>
+        {hasMenu && !isEditing && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="sm" className="h-auto p-1">
+                <MoreHorizontal className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {comment.canEdit && (
+                <DropdownMenuItem onSelect={() => setIsEditing(true)}>
+                  Edit
+                </DropdownMenuItem>
+              )}
+              {comment.canDelete && (
+                <DropdownMenuItem
+                  className="text-destructive"
+                  onSelect={() => onDelete?.(comment.id)}
+                >
+                  Delete
+                </DropdownMenuItem>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
       </div>
 
       {/* Replies */}
@@ -175,6 +261,9 @@ const CommentItem: React.FC<{
                 comment={reply}
                 isReply={true}
                 onLike={onLike}
+                onEdit={onEdit}
+                onDelete={onDelete}
+                onToggleHidden={onToggleHidden}
               />
             ))}
 
@@ -200,16 +289,20 @@ const CommentItem: React.FC<{
  */
 const CommentForm: React.FC<{
   placeholder?: string;
-  onSubmit?: (content: string) => void;
+  initialContent?: string;
+  submitLabel?: string;
+  onSubmit?: (content: string) => Promise<void>;
   onCancel?: () => void;
   showCancel?: boolean;
 }> = ({
   placeholder = "Add a comment...",
+  initialContent = "",
+  submitLabel = "Post Comment",
   onSubmit,
   onCancel,
   showCancel = false,
 }) => {
-  const [content, setContent] = useState("");
+  const [content, setContent] = useState(initialContent);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   const handleSubmit = async () => {
@@ -217,8 +310,10 @@ const CommentForm: React.FC<{
 
     setIsSubmitting(true);
     try {
-      onSubmit?.(content);
+      await onSubmit?.(content);
       setContent("");
+    } catch {
+      // The submit handler reports the failure; keep the draft for a retry.
     } finally {
       setIsSubmitting(false);
     }
@@ -235,11 +330,11 @@ const CommentForm: React.FC<{
 
       <div className="flex items-center gap-2">
         <Button
-          onClick={handleSubmit}
+          onClick={() => void handleSubmit()}
           disabled={!content.trim() || isSubmitting}
           size="sm"
         >
-          {isSubmitting ? "Posting..." : "Post Comment"}
+          {isSubmitting ? "Posting..." : submitLabel}
         </Button>
 
         {showCancel && (
@@ -255,54 +350,96 @@ const CommentForm: React.FC<{
 /**
  * Main Comments Component
  */
-export const Comments: React.FC<CommentsProps> = ({
-  lessonId,
-  userId,
-  className,
-}) => {
-  const [comments, setComments] = useState<Comment[]>(mockComments);
+export const Comments: React.FC<CommentsProps> = ({ lessonId, className }) => {
+  const { results, status, loadMore } = usePaginatedQuery(
+    api.lessonComments.listForLesson,
+    { lessonId: lessonId as Id<"lessons"> },
+    { initialNumItems: COMMENTS_PAGE_SIZE },
+  );
+  const createComment = useMutation(api.lessonComments.create);
+  const editComment = useMutation(api.lessonComments.edit);
+  const removeComment = useMutation(api.lessonComments.remove);
+  const toggleLike = useMutation(api.lessonComments.toggleLike);
+  const setHidden = useMutation(api.lessonComments.setHidden);
   const [replyingTo, setReplyingTo] = useState<string | null>(null);
 
-  const handleNewComment = (content: string) => {
-    const newComment: Comment = {
-      id: Date.now().toString(),
+  const comments = results.map((view) =>
+    toComment(
+      view,
       lessonId,
-      userId,
-      userName: "Current User",
-      content,
-      createdAt: new Date().toISOString(),
-      likes: 0,
-    };
-
-    setComments((prev) => [newComment, ...prev]);
-  };
+      view.replies.map((reply) => toComment(reply, lessonId)),
+    ),
+  );
+
+  const handleNewComment = useCallback(
+    async (content: string, parentId?: string) => {
+      try {
+        await createComment({
+          lessonId: lessonId as Id<"lessons">,
+          body: content,
+          parentId: parentId as Id<"lessonComments"> | undefined,
+        });
+      } catch (error) {
+        toast.error(describeError(error, "Failed to post comment"));
+        throw error;
+      }
+    },
+    [createComment, lessonId],
+  );
 
   const handleReply = (commentId: string) => {
     setReplyingTo(commentId);
   };
 
-  const handleLike = (commentId: string) => {
-    setComments((prev) =>
-      prev.map((comment) => {
-        if (comment.id === commentId) {
-          return { ...comment, likes: (comment.likes ?? 0) + 1 };
-        }
-
-        if (comment.replies) {
-          return {
-            ...comment,
-            replies: comment.replies.map((reply) =>
-              reply.id === commentId
-                ? { ...reply, likes: (reply.likes ?? 0) + 1 }
-                : reply,
-            ),
-          };
-        }
-
-        return comment;
-      }),
-    );
-  };
+  const handleLike = useCallback(
+    (commentId: string) => {
+      toggleLike({ commentId: commentId as Id<"lessonComments"> }).catch(
+        (error: unknown) => {
+          toast.error(describeError(error, "Failed to update like"));
+        },
+      );
+    },
+    [toggleLike],
+  );
+
+  const handleEdit = useCallback(
+    async (commentId: string, content: string) => {
+      try {
+        await editComment({
+          commentId: commentId as Id<"lessonComments">,
+          body: content,
+        });
+      } catch (error) {
+        toast.error(describeError(error, "Failed to edit comment"));
+        throw error;
+      }
+    },
+    [editComment],
+  );
+
+  const handleDelete = useCallback(
+    (commentId: string) => {
+      removeComment({ commentId: commentId as Id<"lessonComments"> }).catch(
+        (error: unknown) => {
+          toast.error(describeError(error, "Failed to delete comment"));
+        },
+      );
+    },
+    [removeComment],
+  );
+
+  const handleToggleHidden = useCallback(
+    (commentId: string, hidden: boolean) => {
+      setHidden({ commentId: commentId as Id<"lessonComments">, hidden })
+        .then(() =>
+          toast.success(hidden ? "Comment hidden" : "Comment restored"),
+        )
+        .catch((error: unknown) => {
+          toast.error(describeError(error, "Failed to moderate comment"));
+        });
+    },
+    [setHidden],
+  );
 
   return (
     <div className={cn("space-y-6", className)}>
@@ -313,44 +450,65 @@ export const Comments: React.FC<CommentsProps> = ({
           <h3 className="font-medium">Comments ({comments.length})</h3>
         </div>
 
-        <CommentForm onSubmit={handleNewComment} />
+        <CommentForm onSubmit={(content) => handleNewComment(content)} />
       </div>
 
       {/* Comments List */}
       <div className="space-y-6">
-        {comments.length === 0 ? (
+        {status === "LoadingFirstPage" ? (
+          <div className="text-muted-foreground py-8 text-center">
+            Loading comments...
+          </div>
+        ) : comments.length === 0 ? (
           <div className="text-muted-foreground py-8 text-center">
             <MessageSquare className="mx-auto mb-2 h-8 w-8" />
             <p>No comments yet. Be the first to start the discussion!</p>
           </div>
         ) : (
           comments.map((comment) => (
-            <CommentItem
-              key={comment.id}
-              comment={comment}
-              onReply={handleReply}
-              onLike={handleLike}
-            />
+            <div key={comment.id} className="space-y-3">
+              <CommentItem
+                comment={comment}
+                onReply={handleReply}
+                onLike={handleLike}
+                onEdit={handleEdit}
+                onDelete={handleDelete}
+                onToggleHidden={handleToggleHidden}
+              />
+
+              {/* Reply Form */}
+              {replyingTo === comment.id && (
+                <div className="ml-8 space-y-3 border-l pl-4">
+                  <div className="text-muted-foreground text-sm">
+                    Replying to {comment.userName}
+                  </div>
+                  <CommentForm
+                    placeholder="Write a reply..."
+                    submitLabel="Post Reply"
+                    onSubmit={async (content) => {
+                      await handleNewComment(content, comment.id);
+                      setReplyingTo(null);
+                    }}
+                    onCancel={() => setReplyingTo(null)}
+                    showCancel={true}
+                  />
+                </div>
+              )}
+            </div>
           ))
         )}
       </div>
 
-      {/* Reply Form */}
-      {replyingTo && (
-        <div className="ml-8 space-y-3 border-l pl-4">
-          <div className="text-muted-foreground text-sm">
-            Replying to comment
-          </div>
-          <CommentForm
-            placeholder="Write a reply..."
-            onSubmit={(content) => {
-              // Handle reply submission
-              console.log("Reply to", replyingTo, ":", content);
-              setReplyingTo(null);
-            }}
-            onCancel={() => setReplyingTo(null)}
-            showCancel={true}
-          />
+      {(status === "CanLoadMore" || status === "LoadingMore") && (
+        <div className="flex justify-center">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={status === "LoadingMore"}
+            onClick={() => loadMore(COMMENTS_PAGE_SIZE)}
+          >
+            {status === "LoadingMore" ? "Loading..." : "Load more comments"}
+          </Button>
         </div>
       )}
     </div>
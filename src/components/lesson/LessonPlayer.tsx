@@ -30,6 +30,7 @@ import {
   RotateCcw,
 } from "lucide-react";
 import type { LessonWithNavigation, PlayerEvent } from "@/types/course";
+import { QuizRunner } from "./QuizRunner";
 
 interface LessonPlayerProps {
   lesson: LessonWithNavigation;
@@ -347,6 +348,16 @@ export const LessonPlayer: React.FC<LessonPlayerProps> = ({
 
   const videoUrl = getVideoUrl();
 
+  if (lesson.contentType === "quiz") {
+    return (
+      <QuizRunner
+        lessonId={lesson.id}
+        onComplete={onComplete}
+        className={className}
+      />
+    );
+  }
+
   if (!videoUrl) {
     return (
       <div className="bg-muted text-muted-foreground flex h-64 items-center justify-center rounded-lg">
@@ -11,8 +11,11 @@
 
 "use client";
 
-import React, { useState } from "react";
+import React, { useMemo, useState } from "react";
 import Link from "next/link";
+import { useQuery } from "convex/react";
+import { api } from "convex/_generated/api";
+import type { Id } from "convex/_generated/dataModel";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -31,6 +34,7 @@ import {
   CheckCircle2,
   PlayCircle,
   FileText,
+  Lock,
   Menu,
   X,
 } from "lucide-react";
@@ -123,7 +127,14 @@ const ModuleNavigation: React.FC<{
   currentLessonId: string;
   completedLessons: string[];
   courseId: string; // Add courseId as a prop
-}> = ({ modules, currentLessonId, completedLessons, courseId }) => {
+  lockedLessons: Map<string, string>; // Lesson ID -> lock reason
+}> = ({
+  modules,
+  currentLessonId,
+  completedLessons,
+  courseId,
+  lockedLessons,
+}) => {
   const [expandedModules, setExpandedModules] = useState<string[]>(() => {
     // Expand module containing current lesson by default
     const currentModule = modules.find((module) =>
@@ -177,21 +188,25 @@ const ModuleNavigation: React.FC<{
                 {module.lessons.map((lesson, index) => {
                   const isCompleted = completedLessons.includes(lesson.id);
                   const isCurrent = lesson.id === currentLessonId;
+                  const lockReason = lockedLessons.get(lesson.id);
+                  const isLocked = lockReason !== undefined;
+                  const rowClassName = cn(
+                    "flex items-center gap-3 border-b p-3 text-sm transition-colors last:border-b-0",
+                    isCurrent
+                      ? "bg-primary/10 text-primary font-medium"
+                      : "hover:bg-muted/50",
+                    isCompleted && !isCurrent && "text-muted-foreground",
+                    isLocked &&
+                      !isCurrent &&
+                      "text-muted-foreground cursor-not-allowed hover:bg-transparent",
+                  );
 
-                  return (
-                    <Link
-                      key={lesson.id}
-                      href={`/app/courses/${courseId}/modules/${module.id}/lessons/${lesson.id}`}
-                      className={cn(
-                        "flex items-center gap-3 border-b p-3 text-sm transition-colors last:border-b-0",
-                        isCurrent
-                          ? "bg-primary/10 text-primary font-medium"
-                          : "hover:bg-muted/50",
-                        isCompleted && !isCurrent && "text-muted-foreground",
-                      )}
-                    >
+                  const rowContent = (
+                    <>
                       <div className="shrink-0">
-                        {isCompleted ? (
+                        {isLocked ? (
+                          <Lock className="h-4 w-4" />
+                        ) : isCompleted ? (
                           <CheckCircle2 className="h-4 w-4 text-green-500" />
                         ) : lesson.videoUrl ? (
                           <PlayCircle className="h-4 w-4" />
@@ -202,6 +217,11 @@ const ModuleNavigation: React.FC<{
 
                       <div className="min-w-0 flex-1">
                         <div className="truncate">{lesson.title}</div>
+                        {lockReason && (
+                          <div className="text-muted-foreground text-xs">
+                            {lockReason}
+                          </div>
+                        )}
                         {lesson.durationSeconds && (
                           <div className="text-muted-foreground flex items-center gap-1 text-xs">
                             <Clock className="h-3 w-3" />
@@ -213,6 +233,25 @@ const ModuleNavigation: React.FC<{
                       </div>
 
                       {isCurrent && <Badge variant="default">Current</Badge>}
+                    </>
+                  );
+
+                  return isLocked && !isCurrent ? (
+                    <div
+                      key={lesson.id}
+                      aria-disabled="true"
+                      title={lockReason}
+                      className={rowClassName}
+                    >
+                      {rowContent}
+                    </div>
+                  ) : (
+                    <Link
+                      key={lesson.id}
+                      href={`/app/courses/${courseId}/modules/${module.id}/lessons/${lesson.id}`}
+                      className={rowClassName}
+                    >
+                      {rowContent}
                     </Link>
                   );
                 })}
@@ -239,6 +278,21 @@ export const LessonSidebar: React.FC<LessonSidebarProps> = ({
   className,
 }) => {
   const [isMobileOpen, setIsMobileOpen] = useState(false);
+  const lessonAccess = useQuery(api.lessonAccess.getCourseLessonAccess, {
+    courseId: lesson.courseId as Id<"courses">,
+  });
+  const lockedLessons = useMemo(
+    () =>
+      new Map(
+        (lessonAccess ?? [])
+          .filter((access) => access.isLocked)
+          .map((access) => [
+            access.lessonId as string,
+            access.message ?? "Locked",
+          ]),
+      ),
+    [lessonAccess],
+  );
 
   const sidebarContent = (
     <>
@@ -293,6 +347,7 @@ export const LessonSidebar: React.FC<LessonSidebarProps> = ({
               currentLessonId={lesson.id}
               completedLessons={courseProgress.completedLessons}
               courseId={lesson.courseId}
+              lockedLessons={lockedLessons}
             />
           </ScrollArea>
         </CardContent>
@@ -0,0 +1,223 @@
+/**
+ * QUIZ RUNNER COMPONENT
+ *
+ * Learner-facing runner for quiz lessons. Collects an answer for every
+ * question, submits the attempt for grading and reports the score against
+ * the lesson's pass threshold and remaining attempts.
+ */
+
+"use client";
+
+import React, { useCallback, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "convex/_generated/api";
+import type { Id } from "convex/_generated/dataModel";
+import { CheckCircle2, Loader2, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+
+interface QuizRunnerProps {
+  lessonId: string;
+  onComplete?: () => void;
+  className?: string;
+}
+
+interface AttemptResult {
+  score: number;
+  passed: boolean;
+  correctCount: number;
+  totalQuestions: number;
+  attemptsRemaining: number | null;
+  results: Array<{ quizId: Id<"quizzes">; isCorrect: boolean }>;
+}
+
+export const QuizRunner: React.FC<QuizRunnerProps> = ({
+  lessonId,
+  onComplete,
+  className,
+}) => {
+  const quiz = useQuery(api.quizzes.getForLesson, {
+    lessonId: lessonId as Id<"lessons">,
+  });
+  const submitAttempt = useMutation(api.quizzes.submitAttempt);
+
+  const [answers, setAnswers] = useState<Record<string, Id<"quizOptions">>>({});
+  const [result, setResult] = useState<AttemptResult | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = useCallback(async () => {
+    if (!quiz) return;
+
+    setIsSubmitting(true);
+    try {
+      const attempt = await submitAttempt({
+        lessonId: quiz.lessonId,
+        answers: quiz.questions.map((question) => ({
+          quizId: question._id,
+          optionId: answers[question._id]!,
+        })),
+      });
+      setResult(attempt);
+
+      if (attempt.passed) {
+        toast.success(`Passed with ${attempt.score}%`);
+        onComplete?.();
+      } else {
+        toast.error(`Scored ${attempt.score}%. Keep practising!`);
+      }
+    } catch (error) {
+      console.error("[QuizRunner] Failed to submit attempt", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to submit quiz",
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [answers, onComplete, quiz, submitAttempt]);
+
+  const handleRetry = useCallback(() => {
+    setAnswers({});
+    setResult(null);
+  }, []);
+
+  if (quiz === undefined) {
+    return (
+      <div className={cn("space-y-4", className)}>
+        <Skeleton className="h-8 w-1/2" />
+        <Skeleton className="h-32 w-full" />
+      </div>
+    );
+  }
+
+  if (quiz.questions.length === 0) {
+    return (
+      <div className="bg-muted text-muted-foreground flex h-64 items-center justify-center rounded-lg">
+        This quiz has no questions yet
+      </div>
+    );
+  }
+
+  const outOfAttempts = quiz.attemptsRemaining === 0;
+  const allAnswered = quiz.questions.every((question) => answers[question._id]);
+  const resultByQuiz = new Map(
+    result?.results.map((entry) => [entry.quizId, entry.isCorrect]) ?? [],
+  );
+
+  return (
+    <div className={cn("space-y-6", className)}>
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant="outline">Pass mark {quiz.passingScore}%</Badge>
+        <Badge variant="outline">
+          {quiz.attemptsRemaining === null
+            ? "Unlimited attempts"
+            : `${quiz.attemptsRemaining} attempt${
+                quiz.attemptsRemaining === 1 ? "" : "s"
+              } left`}
+        </Badge>
+        {quiz.hasPassed ? (
+          <Badge className="gap-1">
+            <CheckCircle2 className="h-3 w-3" />
+            Passed
+          </Badge>
+        ) : null}
+      </div>
+
+      {quiz.intro ? (
+        <p className="text-muted-foreground text-sm whitespace-pre-wrap">
+          {quiz.intro}
+        </p>
+      ) : null}
+
+      {result ? (
+        <Alert variant={result.passed ? "default" : "destructive"}>
+          {result.passed ? (
+            <CheckCircle2 className="h-4 w-4" />
+          ) : (
+            <XCircle className="h-4 w-4" />
+          )}
+          <AlertTitle>
+            {result.passed ? "Quiz passed" : "Not quite there"}
+          </AlertTitle>
+          <AlertDescription>
+            You answered {result.correctCount} of {result.totalQuestions}{" "}
+            correctly ({result.score}%).
+          </AlertDescription>
+        </Alert>
+      ) : null}
+
+      <ol className="space-y-6">
+        {quiz.questions.map((question, index) => {
+          const isCorrect = resultByQuiz.get(question._id);
+          return (
+            <li
+              key={question._id}
+              className={cn(
+                "border-border space-y-3 rounded-lg border p-4",
+                isCorrect === true && "border-green-500",
+                isCorrect === false && "border-red-500",
+              )}
+            >
+              <p className="font-medium">
+                {index + 1}. {question.question}
+              </p>
+              <RadioGroup
+                value={answers[question._id] ?? ""}
+                onValueChange={(value) =>
+                  setAnswers((prev) => ({
+                    ...prev,
+                    [question._id]: value as Id<"quizOptions">,
+                  }))
+                }
+                disabled={!!result || isSubmitting}
+              >
+                {question.options.map((option) => (
+                  <div key={option._id} className="flex items-center gap-2">
+                    <RadioGroupItem value={option._id} id={option._id} />
+                    <Label htmlFor={option._id} className="font-normal">
+                      {option.text}
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </li>
+          );
+        })}
+      </ol>
+
+      <div className="flex items-center gap-2">
+        {result ? (
+          <Button
+            variant="outline"
+            onClick={handleRetry}
+            disabled={result.attemptsRemaining === 0}
+          >
+            Try again
+          </Button>
+        ) : (
+          <Button
+            onClick={() => void handleSubmit()}
+            disabled={!allAnswered || isSubmitting || outOfAttempts}
+          >
+            {isSubmitting ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : null}
+            Submit answers
+          </Button>
+        )}
+        {outOfAttempts && !result ? (
+          <span className="text-muted-foreground text-sm">
+            You have used all of your attempts for this quiz.
+          </span>
+        ) : null}
+      </div>
+    </div>
+  );
+};
+
+export default QuizRunner;
@@ -5,6 +5,7 @@
  */
 
 export { LessonPlayer } from "./LessonPlayer";
+export { QuizRunner } from "./QuizRunner";
 export { LessonViewer } from "./LessonViewer";
 export { LessonSidebar } from "./LessonSidebar";
 export { Comments } from "./Comments";
@@ -0,0 +1,154 @@
+"use client";
+
+import Link from "next/link";
+import { useMutation, usePaginatedQuery, useQuery } from "convex/react";
+import { api } from "convex/_generated/api";
+import type { Doc } from "convex/_generated/dataModel";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+
+const NOTIFICATIONS_PAGE_SIZE = 20;
+
+function NotificationItem({
+  notification,
+}: {
+  notification: Doc<"notifications">;
+}) {
+  const markRead = useMutation(api.notifications.markRead);
+  const isUnread = !notification.readAt;
+
+  const handleOpen = () => {
+    if (!isUnread) return;
+    markRead({ notificationId: notification._id }).catch((error: unknown) => {
+      console.error("Failed to mark notification as read", error);
+    });
+  };
+
+  const content = (
+    <div className="min-w-0 flex-1 space-y-1">
+      <p className={cn("text-sm", isUnread && "font-semibold")}>
+        {notification.title}
+      </p>
+      {notification.body ? (
+        <p className="text-muted-foreground text-sm whitespace-pre-line">
+          {notification.body}
+        </p>
+      ) : null}
+      <p className="text-muted-foreground text-xs">
+        {formatDistanceToNow(notification.createdAt, { addSuffix: true })}
+      </p>
+    </div>
+  );
+
+  return (
+    <li
+      className={cn(
+        "flex items-start gap-3 px-6 py-4",
+        isUnread && "bg-muted/40",
+      )}
+    >
+      <span
+        aria-hidden
+        className={cn(
+          "mt-1.5 h-2 w-2 shrink-0 rounded-full",
+          isUnread ? "bg-primary" : "bg-transparent",
+        )}
+      />
+      {notification.link ? (
+        <Link
+          href={notification.link}
+          onClick={handleOpen}
+          className="min-w-0 flex-1 hover:underline"
+        >
+          {content}
+        </Link>
+      ) : (
+        <button
+          type="button"
+          onClick={handleOpen}
+          className="min-w-0 flex-1 text-left"
+        >
+          {content}
+        </button>
+      )}
+    </li>
+  );
+}
+
+export function NotificationList() {
+  const { results, status, loadMore } = usePaginatedQuery(
+    api.notifications.list,
+    {},
+    { initialNumItems: NOTIFICATIONS_PAGE_SIZE },
+  );
+  const unreadCount = useQuery(api.notifications.unreadCount);
+  const markAllRead = useMutation(api.notifications.markAllRead);
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markAllRead({});
+    } catch (error) {
+      console.error("Failed to mark notifications as read", error);
+      toast.error("We couldn't update your notifications.");
+    }
+  };
+
+  if (status === "LoadingFirstPage") {
+    return (
+      <div className="space-y-3">
+        {Array.from({ length: 3 }, (_, index) => (
+          <Skeleton key={index} className="h-16 w-full rounded-xl" />
+        ))}
+      </div>
+    );
+  }
+
+  if (results.length === 0) {
+    return (
+      <p className="border-border text-muted-foreground rounded-xl border border-dashed p-6 text-center text-sm">
+        You&apos;re all caught up. Save a gig search to get alerts when new gigs
+        match.
+      </p>
+    );
+  }
+
+  return (
+    <section className="space-y-4">
+      <div className="flex justify-end">
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={!unreadCount}
+          onClick={() => void handleMarkAllRead()}
+        >
+          Mark all as read
+        </Button>
+      </div>
+
+      <ul className="border-border bg-card divide-y overflow-hidden rounded-xl border">
+        {results.map((notification) => (
+          <NotificationItem
+            key={notification._id}
+            notification={notification}
+          />
+        ))}
+      </ul>
+
+      {status === "CanLoadMore" || status === "LoadingMore" ? (
+        <div className="flex justify-center">
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={status === "LoadingMore"}
+            onClick={() => loadMore(NOTIFICATIONS_PAGE_SIZE)}
+          >
+            {status === "LoadingMore" ? "Loading..." : "Load more"}
+          </Button>
+        </div>
+      ) : null}
+    </section>
+  );
+}
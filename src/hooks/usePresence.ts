@@ -0,0 +1,141 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "convex/_generated/api";
+import type { Id } from "convex/_generated/dataModel";
+
+// Mirror the TTLs in convex/presence.ts
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+const TYPING_TTL_MS = 8 * 1000;
+const TYPING_PING_INTERVAL_MS = 3 * 1000;
+const TYPING_IDLE_MS = 5 * 1000;
+
+/**
+ * Keep the signed-in user marked online while mounted and the tab is
+ * visible, and report which of `userIds` are online.
+ */
+export function usePresence(userIds: ReadonlyArray<Id<"users">>) {
+  const heartbeat = useMutation(api.presence.heartbeat);
+  const disconnect = useMutation(api.presence.disconnect);
+
+  useEffect(() => {
+    const beat = () => {
+      if (document.visibilityState === "visible") {
+        void heartbeat().catch((error) =>
+          console.warn("Presence heartbeat failed", error),
+        );
+      }
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") {
+        beat();
+      } else {
+        void disconnect().catch(() => undefined);
+      }
+    };
+
+    beat();
+    const interval = window.setInterval(beat, HEARTBEAT_INTERVAL_MS);
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+
+    return () => {
+      window.clearInterval(interval);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      void disconnect().catch(() => undefined);
+    };
+  }, [disconnect, heartbeat]);
+
+  const sortedIds = useMemo(() => [...new Set(userIds)].sort(), [userIds]);
+  const onlineIds = useQuery(
+    api.presence.listOnline,
+    sortedIds.length > 0 ? { userIds: sortedIds } : "skip",
+  );
+
+  const onlineSet = useMemo(
+    () => new Set<string>(onlineIds ?? []),
+    [onlineIds],
+  );
+
+  const isOnline = useCallback(
+    (userId: Id<"users">) => onlineSet.has(userId),
+    [onlineSet],
+  );
+
+  return { isOnline };
+}
+
+/**
+ * Participants other than the viewer currently typing in a conversation.
+ * Entries older than the typing TTL are hidden locally so an abandoned
+ * indicator disappears before the server cleanup runs.
+ */
+export function useTypingIndicator(conversationId: Id<"conversations">) {
+  const typing = useQuery(api.presence.listTyping, { conversationId });
+  const [now, setNow] = useState(() => Date.now());
+
+  const hasEntries = (typing?.length ?? 0) > 0;
+  useEffect(() => {
+    if (!hasEntries) {
+      return;
+    }
+    setNow(Date.now());
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, [hasEntries]);
+
+  return useMemo(
+    () =>
+      (typing ?? [])
+        .filter((entry) => now - entry.lastUpdated < TYPING_TTL_MS)
+        .map((entry) => entry.userId),
+    [now, typing],
+  );
+}
+
+/**
+ * Throttled typing pings for the composer. Call `notifyTyping` on every
+ * keystroke and `stopTyping` when the draft is sent or cleared.
+ */
+export function useTypingNotifier(conversationId: Id<"conversations">) {
+  const setTyping = useMutation(api.presence.setTyping);
+  const lastPingRef = useRef(0);
+  const idleTimerRef = useRef<number | null>(null);
+
+  const send = useCallback(
+    (isTyping: boolean) => {
+      void setTyping({ conversationId, isTyping }).catch((error) =>
+        console.warn("Failed to update typing status", error),
+      );
+    },
+    [conversationId, setTyping],
+  );
+
+  const stopTyping = useCallback(() => {
+    if (idleTimerRef.current !== null) {
+      window.clearTimeout(idleTimerRef.current);
+      idleTimerRef.current = null;
+    }
+    if (lastPingRef.current > 0) {
+      lastPingRef.current = 0;
+      send(false);
+    }
+  }, [send]);
+
+  const notifyTyping = useCallback(() => {
+    const now = Date.now();
+    if (now - lastPingRef.current >= TYPING_PING_INTERVAL_MS) {
+      lastPingRef.current = now;
+      send(true);
+    }
+
+    if (idleTimerRef.current !== null) {
+      window.clearTimeout(idleTimerRef.current);
+    }
+    idleTimerRef.current = window.setTimeout(stopTyping, TYPING_IDLE_MS);
+  }, [send, stopTyping]);
+
+  useEffect(() => stopTyping, [stopTyping]);
+
+  return { notifyTyping, stopTyping };
+}
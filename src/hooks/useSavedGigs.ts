@@ -0,0 +1,44 @@
+"use client";
+
+import { useCallback, useMemo } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "convex/_generated/api";
+import type { Id } from "convex/_generated/dataModel";
+import { useToast } from "@/components/ui/use-toast";
+
+/**
+ * Saved gig state for the signed-in user plus a toggle that reports the
+ * outcome with a toast.
+ */
+export function useSavedGigs() {
+  const savedGigIds = useQuery(api.savedGigs.listSavedGigIds);
+  const toggleMutation = useMutation(api.savedGigs.toggle);
+  const toast = useToast();
+
+  const savedSet = useMemo(
+    () => new Set<string>(savedGigIds ?? []),
+    [savedGigIds],
+  );
+
+  const isSaved = useCallback(
+    (gigId: string) => savedSet.has(gigId),
+    [savedSet],
+  );
+
+  const toggleSave = useCallback(
+    async (gigId: string) => {
+      try {
+        const { saved } = await toggleMutation({
+          gigId: gigId as Id<"gigs">,
+        });
+        toast.success(saved ? "Saved for later" : "Removed from saved gigs");
+      } catch (error) {
+        console.error("Failed to update saved gig", error);
+        toast.error("Unable to update saved gigs. Please try again.");
+      }
+    },
+    [toggleMutation, toast],
+  );
+
+  return { isSaved, toggleSave, isLoading: savedGigIds === undefined };
+}
@@ -11,6 +11,8 @@
 
 import { useMemo } from "react";
 import { usePathname } from "next/navigation";
+import { useQuery } from "convex/react";
+import { api } from "convex/_generated/api";
 import {
   useUserPermissions,
   PermissionUtils,
@@ -109,7 +111,6 @@ function createGigsyNavigation(): NavigationGroup[] {
           icon: "Bell",
           type: "route",
           priority: 3,
-          badge: "2", // Dynamic from API
           analyticsCategory: "navigation",
         },
       ],
@@ -292,7 +293,6 @@ function createGigsyNavigation(): NavigationGroup[] {
           icon: "MessageSquare",
           type: "route",
           priority: 1,
-          badge: "3", // Dynamic from API
           analyticsCategory: "community",
         },
         {
@@ -524,10 +524,9 @@ function filterNavigationByPermissions(
 function enrichNavigationWithDynamicData(
   groups: NavigationGroup[],
   pathname: string,
+  unreadNotifications: number,
+  unreadMessages: number,
 ): NavigationGroup[] {
-  // TODO: Integrate with real-time APIs for badges and notifications
-  // For now, using mock data
-
   return groups.map((group) => ({
     ...group,
     items: group.items.map((item) => ({
@@ -537,9 +536,9 @@ function enrichNavigationWithDynamicData(
       // Add dynamic badges (would come from API calls)
       badge:
         item.id === "notifications"
-          ? "2"
+          ? unreadNotifications || undefined
           : item.id === "messages"
-            ? "3"
+            ? unreadMessages || undefined
             : item.badge,
     })),
   }));
@@ -554,6 +553,8 @@ export function useSidebarItems(): UseSidebarData {
   const pathname = usePathname();
   const permissions = useUserPermissions();
   const { user } = useUser();
+  const unreadNotifications = useQuery(api.notifications.unreadCount) ?? 0;
+  const unreadMessages = useQuery(api.chatConversations.unreadCount) ?? 0;
 
   const navigationGroups = useMemo(() => {
     if (permissions.isLoading) {
@@ -586,6 +587,8 @@ export function useSidebarItems(): UseSidebarData {
       const enrichedNavigation = enrichNavigationWithDynamicData(
         filteredNavigation,
         pathname,
+        unreadNotifications,
+        unreadMessages,
       );
 
       // Sort by priority
@@ -601,7 +604,7 @@ export function useSidebarItems(): UseSidebarData {
       console.error("Error generating navigation:", error);
       return []; // Return empty on error
     }
-  }, [permissions, pathname]);
+  }, [permissions, pathname, unreadNotifications, unreadMessages]);
 
   const refresh = async (): Promise<void> => {
     // Force re-render by updating pathname dependency
@@ -0,0 +1,179 @@
+/**
+ * Certificate PDF
+ *
+ * Renders a course certificate as a single-page PDF in the browser. The
+ * document only uses the standard Helvetica fonts, so no font files are
+ * embedded and text is limited to the WinAnsi (Latin-1) range; other
+ * characters are replaced with "?".
+ */
+
+export interface CertificatePdfInput {
+  recipientName: string;
+  courseTitle: string;
+  instructorName: string;
+  issuedAt: number;
+  verificationCode: string;
+}
+
+type FontKey = "F1" | "F2";
+
+const PAGE_WIDTH = 792;
+const PAGE_HEIGHT = 612;
+const MAX_TEXT_WIDTH = 640;
+
+// Advance widths (per 1000 units of font size) for ASCII 32-126.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+  584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+  278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+  500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+  500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584,
+  584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333,
+  278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278,
+  556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556,
+  500, 389, 280, 389, 584,
+];
+
+const DEFAULT_CHAR_WIDTH = 556;
+
+function toWinAnsi(text: string): string {
+  return Array.from(text)
+    .map((char) => {
+      const code = char.charCodeAt(0);
+      return (code >= 32 && code <= 126) || (code >= 160 && code <= 255)
+        ? char
+        : "?";
+    })
+    .join("");
+}
+
+function measure(text: string, font: FontKey, size: number): number {
+  const widths = font === "F2" ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let units = 0;
+  for (const char of text) {
+    units += widths[char.charCodeAt(0) - 32] ?? DEFAULT_CHAR_WIDTH;
+  }
+  return (units * size) / 1000;
+}
+
+function escapePdfText(text: string): string {
+  return text.replace(/[\\()]/g, (char) => `\\${char}`);
+}
+
+/** Centered text, shrunk until it fits within MAX_TEXT_WIDTH. */
+function centeredText(
+  rawText: string,
+  font: FontKey,
+  size: number,
+  y: number,
+): string {
+  const text = toWinAnsi(rawText);
+  let fontSize = size;
+  while (fontSize > 8 && measure(text, font, fontSize) > MAX_TEXT_WIDTH) {
+    fontSize -= 1;
+  }
+  const x = (PAGE_WIDTH - measure(text, font, fontSize)) / 2;
+
+  return `BT /${font} ${fontSize} Tf ${x.toFixed(2)} ${y} Td (${escapePdfText(text)}) Tj ET`;
+}
+
+function buildContentStream(
+  certificate: CertificatePdfInput,
+  verifyUrl: string,
+): string {
+  const issuedOn = new Date(certificate.issuedAt).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+
+  return [
+    // Double border
+    "0.16 0.29 0.53 RG 3 w 24 24 744 564 re S",
+    "1 w 34 34 724 544 re S",
+    "0.1 0.1 0.1 rg",
+    centeredText("CERTIFICATE OF COMPLETION", "F2", 30, 480),
+    centeredText("This certifies that", "F1", 14, 420),
+    centeredText(certificate.recipientName, "F2", 34, 370),
+    centeredText("has successfully completed", "F1", 14, 326),
+    centeredText(certificate.courseTitle, "F2", 22, 286),
+    centeredText(`Instructor: ${certificate.instructorName}`, "F1", 12, 214),
+    centeredText(`Issued ${issuedOn}`, "F1", 12, 196),
+    "0.4 0.4 0.4 rg",
+    centeredText(
+      `Verification code: ${certificate.verificationCode}`,
+      "F1",
+      10,
+      84,
+    ),
+    centeredText(`Verify at ${verifyUrl}`, "F1", 10, 68),
+  ].join("\n");
+}
+
+/** Serialize the certificate as PDF bytes. */
+export function renderCertificatePdf(
+  certificate: CertificatePdfInput,
+  verifyUrl: string,
+): Uint8Array<ArrayBuffer> {
+  const content = buildContentStream(certificate, verifyUrl);
+  const title = escapePdfText(
+    toWinAnsi(`${certificate.courseTitle} - ${certificate.recipientName}`),
+  );
+
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    `<< /Title (${title}) /Producer (Gigsy) >>`,
+  ];
+
+  // Every character is a single byte, so string offsets are byte offsets.
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((body, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets
+    .map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`)
+    .join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\n`;
+  pdf += `startxref\n${xrefOffset}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(pdf.length);
+  for (let index = 0; index < pdf.length; index += 1) {
+    bytes[index] = pdf.charCodeAt(index);
+  }
+  return bytes;
+}
+
+/** Render the certificate and save it through a temporary download link. */
+export function downloadCertificatePdf(certificate: CertificatePdfInput) {
+  const verifyUrl = `${window.location.origin}/verify/${certificate.verificationCode}`;
+  const blob = new Blob([renderCertificatePdf(certificate, verifyUrl)], {
+    type: "application/pdf",
+  });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `certificate-${certificate.verificationCode}.pdf`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
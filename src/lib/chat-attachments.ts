@@ -0,0 +1,143 @@
+/**
+ * Chat attachments
+ *
+ * Client-side checks and thumbnails for files sent in conversations. The
+ * limits mirror the `chat-attachment` category in `convex/files.ts`, which
+ * re-validates every upload against the stored object.
+ */
+
+export const MAX_CHAT_ATTACHMENT_SIZE = 25 * 1024 * 1024;
+export const MAX_CHAT_ATTACHMENTS = 10;
+
+export const CHAT_ATTACHMENT_TYPES: ReadonlyArray<string> = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/gif",
+  "application/pdf",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "text/plain",
+  "text/csv",
+  "application/zip",
+];
+
+const THUMBNAIL_MAX_DIMENSION = 320;
+const THUMBNAIL_QUALITY = 0.8;
+
+/** A reason the file cannot be attached, or null when it is acceptable. */
+export function validateChatAttachment(file: File): string | null {
+  if (!CHAT_ATTACHMENT_TYPES.includes(file.type)) {
+    return `${file.name} is not a supported file type.`;
+  }
+  if (file.size > MAX_CHAT_ATTACHMENT_SIZE) {
+    return `${file.name} is larger than 25 MB.`;
+  }
+  return null;
+}
+
+export function isImageType(contentType: string): boolean {
+  return contentType.startsWith("image/");
+}
+
+export function isPdfType(contentType: string): boolean {
+  return contentType === "application/pdf";
+}
+
+export interface AttachmentThumbnail {
+  blob: Blob;
+  /** Source size: image pixels, or the first page in PDF points. */
+  width: number;
+  height: number;
+}
+
+function createThumbnailCanvas(width: number, height: number) {
+  const scale = Math.min(1, THUMBNAIL_MAX_DIMENSION / Math.max(width, height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  return { canvas, scale };
+}
+
+function canvasToJpeg(canvas: HTMLCanvasElement): Promise<Blob | null> {
+  return new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, "image/jpeg", THUMBNAIL_QUALITY),
+  );
+}
+
+async function createImageThumbnail(
+  file: File,
+): Promise<AttachmentThumbnail | null> {
+  if (typeof createImageBitmap === "undefined") {
+    return null;
+  }
+
+  const bitmap = await createImageBitmap(file);
+  const { canvas } = createThumbnailCanvas(bitmap.width, bitmap.height);
+  canvas.getContext("2d")?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+  const dimensions = { width: bitmap.width, height: bitmap.height };
+  bitmap.close();
+
+  const blob = await canvasToJpeg(canvas);
+  return blob ? { blob, ...dimensions } : null;
+}
+
+/**
+ * Render the first page of a PDF with pdf.js. The library and its worker are
+ * loaded on demand, so only senders of PDFs download them.
+ */
+async function createPdfThumbnail(
+  file: File,
+): Promise<AttachmentThumbnail | null> {
+  const pdfjs = await import("pdfjs-dist");
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+    "pdfjs-dist/build/pdf.worker.min.mjs",
+    import.meta.url,
+  ).toString();
+
+  const pdf = await pdfjs.getDocument({
+    data: new Uint8Array(await file.arrayBuffer()),
+  }).promise;
+
+  try {
+    const page = await pdf.getPage(1);
+    const pageViewport = page.getViewport({ scale: 1 });
+    const { canvas, scale } = createThumbnailCanvas(
+      pageViewport.width,
+      pageViewport.height,
+    );
+
+    await page.render({ canvas, viewport: page.getViewport({ scale }) })
+      .promise;
+
+    const blob = await canvasToJpeg(canvas);
+    return blob
+      ? { blob, width: pageViewport.width, height: pageViewport.height }
+      : null;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Create a JPEG thumbnail for an attachment: a downscaled image, or the
+ * first page of a PDF. Returns null for other types or when the browser
+ * cannot decode the file.
+ */
+export async function createAttachmentThumbnail(
+  file: File,
+): Promise<AttachmentThumbnail | null> {
+  try {
+    if (isImageType(file.type)) {
+      return await createImageThumbnail(file);
+    }
+    if (isPdfType(file.type)) {
+      return await createPdfThumbnail(file);
+    }
+    return null;
+  } catch (error) {
+    console.warn("Failed to create thumbnail", error);
+    return null;
+  }
+}
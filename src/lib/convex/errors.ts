@@ -0,0 +1,31 @@
+import { ConvexError } from "convex/values";
+
+/**
+ * User-facing message for a failed Convex call. Functions throw
+ * `ConvexError` with either a string or a `{ message }` payload; anything
+ * else falls back to `fallback`.
+ */
+export function getConvexErrorMessage(
+  error: unknown,
+  fallback: string,
+): string {
+  if (!(error instanceof ConvexError)) {
+    return fallback;
+  }
+
+  const data: unknown = error.data;
+  if (typeof data === "string") {
+    return data;
+  }
+
+  if (
+    typeof data === "object" &&
+    data !== null &&
+    "message" in data &&
+    typeof data.message === "string"
+  ) {
+    return data.message;
+  }
+
+  return fallback;
+}
@@ -20,6 +20,15 @@ interface ChatConversationsModule {
     { conversationId: Id<"conversations"> },
     Doc<"conversations">
   >;
+  readonly getUnreadCounts: FunctionReference<
+    "query",
+    "public",
+    Record<string, never>,
+    ReadonlyArray<{
+      conversationId: Id<"conversations">;
+      unreadCount: number;
+    }>
+  >;
 }
 
 interface ChatMessagesModule {
@@ -38,14 +47,134 @@ interface ChatMessagesModule {
     "public",
     {
       conversationId: Id<"conversations">;
-      messageType: Doc<"messages">["messageType"];
+      messageType: "text" | "file";
       body?: string;
-      attachments?: NonNullable<Doc<"messages">["attachments"]>;
-      systemEvent?: Doc<"messages">["systemEvent"];
+      attachments?: ReadonlyArray<{ storageId: Id<"_storage"> }>;
       meta?: Doc<"messages">["meta"];
     },
     Id<"messages">
   >;
+  readonly editMessage: FunctionReference<
+    "mutation",
+    "public",
+    { messageId: Id<"messages">; body: string },
+    null
+  >;
+  readonly deleteMessage: FunctionReference<
+    "mutation",
+    "public",
+    { messageId: Id<"messages"> },
+    null
+  >;
+  readonly toggleReaction: FunctionReference<
+    "mutation",
+    "public",
+    { messageId: Id<"messages">; emoji: string },
+    null
+  >;
+  readonly markConversationRead: FunctionReference<
+    "mutation",
+    "public",
+    { conversationId: Id<"conversations"> },
+    null
+  >;
+  readonly getReadReceipts: FunctionReference<
+    "query",
+    "public",
+    { conversationId: Id<"conversations"> },
+    ReadonlyArray<{
+      userId: Id<"users">;
+      lastReadAt: number;
+      lastReadMessageId: Id<"messages"> | null;
+    }>
+  >;
+}
+
+export type DeliverableViewerRole = "employer" | "freelancer";
+
+export interface ConversationDeliverables {
+  readonly role: DeliverableViewerRole | null;
+  readonly deliverables: ReadonlyArray<Doc<"deliverables">>;
+}
+
+export interface ConversationFile {
+  readonly _id: Id<"fileMetadata">;
+  readonly storageId: Id<"_storage">;
+  readonly originalName: string;
+  readonly contentType: string;
+  readonly fileSize: number;
+  readonly uploadedAt: number;
+  readonly url: string | null;
+  readonly previewUrl: string | null;
+}
+
+interface FilesModule {
+  readonly generateUploadUrl: FunctionReference<
+    "mutation",
+    "public",
+    {
+      category: "chat-attachment";
+      expectedFileSize?: number;
+      conversationId: Id<"conversations">;
+    },
+    string
+  >;
+  readonly saveFileMetadata: FunctionReference<
+    "mutation",
+    "public",
+    {
+      storageId: Id<"_storage">;
+      originalName: string;
+      contentType: string;
+      fileSize: number;
+      category: "chat-attachment";
+      dimensions?: { width: number; height: number };
+      conversationId: Id<"conversations">;
+      previewStorageId?: Id<"_storage">;
+    },
+    Id<"fileMetadata">
+  >;
+  readonly listConversationFiles: FunctionReference<
+    "query",
+    "public",
+    { conversationId: Id<"conversations"> },
+    ReadonlyArray<ConversationFile>
+  >;
+}
+
+interface DeliverablesModule {
+  readonly listForConversation: FunctionReference<
+    "query",
+    "public",
+    { conversationId: Id<"conversations"> },
+    ConversationDeliverables
+  >;
+  readonly generateUploadUrl: FunctionReference<
+    "mutation",
+    "public",
+    { conversationId: Id<"conversations"> },
+    string
+  >;
+  readonly submit: FunctionReference<
+    "mutation",
+    "public",
+    {
+      conversationId: Id<"conversations">;
+      notes?: string;
+      storageIds?: Array<Id<"_storage">>;
+    },
+    Id<"deliverables">
+  >;
+  readonly review: FunctionReference<
+    "mutation",
+    "public",
+    {
+      deliverableId: Id<"deliverables">;
+      decision: "approve" | "request_revision";
+      comment?: string;
+    },
+    Id<"deliverables">
+  >;
 }
 
 interface UsersModule {
@@ -58,11 +187,18 @@ interface UsersModule {
   readonly getPublicProfiles: FunctionReference<
     "query",
     "public",
-    { userIds: ReadonlyArray<Id<"users">> },
+    {
+      userIds?: ReadonlyArray<Id<"users">>;
+      search?: string;
+      experienceLevel?: "beginner" | "intermediate" | "advanced" | "expert";
+      limit?: number;
+    },
     ReadonlyArray<{
       _id: Id<"users">;
       name: string;
       avatarUrl?: string;
+      headline?: string;
+      slug?: string;
     }>
   >;
 }
@@ -70,9 +206,13 @@ interface UsersModule {
 const enhancedApi = api as unknown as {
   chatConversations: ChatConversationsModule;
   chatMessages: ChatMessagesModule;
+  deliverables: DeliverablesModule;
+  files: FilesModule;
   users: UsersModule;
 };
 
 export const chatConversations = enhancedApi.chatConversations;
 export const chatMessages = enhancedApi.chatMessages;
+export const deliverables = enhancedApi.deliverables;
+export const files = enhancedApi.files;
 export const users = enhancedApi.users;
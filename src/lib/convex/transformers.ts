@@ -33,6 +33,10 @@ function toMessage(doc: MessageDoc): Message {
     attachments: doc.attachments ?? undefined,
     meta: doc.meta ?? undefined,
     systemEvent: doc.systemEvent ?? undefined,
+    editedAt: doc.editedAt,
+    editHistory: doc.editHistory,
+    deletedAt: doc.deletedAt,
+    reactions: doc.reactions,
   };
 }
 
@@ -38,6 +38,7 @@ export interface MessageAttachment {
   readonly name: string;
   readonly contentType: string;
   readonly size: number;
+  readonly previewUrl?: string;
 }
 
 export interface MessageMeta {
@@ -47,6 +48,16 @@ export interface MessageMeta {
 
 export type SystemEvent = Exclude<Doc<"messages">["systemEvent"], undefined>;
 
+export interface MessageEdit {
+  readonly body: string;
+  readonly editedAt: number;
+}
+
+export interface MessageReaction {
+  readonly emoji: string;
+  readonly userIds: ReadonlyArray<UserId>;
+}
+
 export interface Message {
   readonly id: string;
   readonly conversationId: ConversationId;
@@ -57,6 +68,10 @@ export interface Message {
   readonly attachments?: ReadonlyArray<MessageAttachment>;
   readonly meta?: MessageMeta;
   readonly systemEvent?: SystemEvent;
+  readonly editedAt?: number;
+  readonly editHistory?: ReadonlyArray<MessageEdit>;
+  readonly deletedAt?: number;
+  readonly reactions?: ReadonlyArray<MessageReaction>;
   readonly clientTempId?: string;
   readonly status?: "pending" | "sent" | "failed";
   readonly error?: string;
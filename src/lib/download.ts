@@ -0,0 +1,18 @@
+/**
+ * Browser file downloads
+ *
+ * Saves server-generated text (CSV exports, `.ics` invites) as a file.
+ */
+
+export function downloadTextFile(
+  filename: string,
+  content: string,
+  type: string,
+): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -11,6 +11,7 @@ const isPublicRoute = createRouteMatcher([
   "/favicon.ico", // Allow favicon
   "/", // Allow root route
   "/app/profile/(.*)", // Allow profile routes
+  "/verify/(.*)", // Allow public certificate verification
 ]);
 
 export default clerkMiddleware(async (auth, request) => {
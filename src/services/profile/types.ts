@@ -86,12 +86,31 @@ export interface SidebarGigRecommendation {
   url: string;
 }
 
+export interface SidebarAchievements {
+  points: number;
+  equippedTitle?: string;
+  badges: Array<{
+    name: string;
+    description: string;
+    iconUrl: string;
+  }>;
+}
+
+export interface SidebarCertificate {
+  id: string;
+  courseTitle: string;
+  issuedAt: number;
+  verificationCode: string;
+}
+
 export interface ProfileSidebarData {
   gigs: SidebarGigRecommendation[];
   featuredLogos: string[];
   qrCodeUrl?: string;
   contactEmail?: string;
   badges?: string[];
+  achievements?: SidebarAchievements;
+  certificates?: SidebarCertificate[];
 }
 
 export interface ProfileViewModel {
@@ -6,6 +6,7 @@ export const AttachmentSchema = z.object({
   name: z.string(),
   contentType: z.string(),
   size: z.number().int().nonnegative(),
+  previewUrl: z.string().url().optional(),
 });
 
 export const ConversationTypeSchema = z.enum([
@@ -20,6 +21,8 @@ export const ConversationMetaSchema = z
   .object({
     applicationId: z.string().optional(),
     deliverableId: z.string().optional(),
+    courseId: z.string().optional(),
+    subject: z.string().optional(),
   })
   .partial()
   .optional();
@@ -42,6 +45,10 @@ export const SystemEventSchema = z.enum([
   "work.submitted",
   "work.approved",
   "work.revision_requested",
+  "interview.proposed",
+  "interview.scheduled",
+  "interview.rescheduled",
+  "interview.cancelled",
 ]);
 
 export const MessageSchema = z.object({
@@ -58,6 +65,14 @@ export const MessageSchema = z.object({
       readBy: z.array(z.string()).optional(),
     })
     .optional(),
+  editedAt: z.number().optional(),
+  editHistory: z
+    .array(z.object({ body: z.string(), editedAt: z.number() }))
+    .optional(),
+  deletedAt: z.number().optional(),
+  reactions: z
+    .array(z.object({ emoji: z.string(), userIds: z.array(z.string()) }))
+    .optional(),
   createdAt: z.number(),
 });
 
@@ -67,7 +82,13 @@ export const ChatAuditEventSchema = z.object({
   messageId: z.string().optional(),
   gigId: z.string().optional(),
   actorId: z.string(),
-  eventType: z.union([SystemEventSchema, z.literal("conversation.archived")]),
+  eventType: z.union([
+    SystemEventSchema,
+    z.literal("conversation.archived"),
+    z.literal("message.edited"),
+    z.literal("message.deleted"),
+    z.literal("message.bulk_sent"),
+  ]),
   metadata: z.unknown().optional(),
   createdAt: z.number(),
 });
@@ -168,6 +168,13 @@ export interface Comment {
   likes?: number;
   isAuthor?: boolean;
   isPinned?: boolean;
+  isLiked?: boolean;
+  isHidden?: boolean;
+  isDeleted?: boolean;
+  isEdited?: boolean;
+  canEdit?: boolean;
+  canDelete?: boolean;
+  canModerate?: boolean;
 }
 
 export interface Quiz {
@@ -239,6 +246,7 @@ export interface LessonWithNavigation extends Lesson {
     question: string;
     options: Array<{ _id: string; text: string }>;
   }>;
+  lockReason?: string; // Why the viewer cannot open the lesson yet
 }
 
 // Form types for lesson editing
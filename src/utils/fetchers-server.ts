@@ -10,11 +10,17 @@
 
 import "server-only";
 import { cache } from "react";
-import { preloadQuery, fetchQuery, fetchMutation } from "convex/nextjs";
+import {
+  preloadQuery,
+  fetchAction,
+  fetchQuery,
+  fetchMutation,
+} from "convex/nextjs";
 import { auth } from "@clerk/nextjs/server";
 import { api } from "convex/_generated/api";
 import type { Preloaded } from "convex/react";
 import type { Doc, Id } from "convex/_generated/dataModel";
+import type { FunctionReturnType } from "convex/server";
 import type { ApplicationWithGig } from "@/types/applications";
 import type { GigListItem, GigStats } from "@/types/gigs";
 
@@ -58,6 +64,14 @@ interface EmployerGigListResponse {
 
 export type EmployerGigDetail = EmployerGigRecord;
 
+export type TalentSuggestion = FunctionReturnType<
+  typeof api.matching.suggestTalent
+>[number];
+
+export type EmployerAnalytics = FunctionReturnType<
+  typeof api.employerAnalytics.getDashboard
+>;
+
 interface EmployerMetricsResult {
   totalGigs: number;
   activeGigs: number;
@@ -270,6 +284,13 @@ export const fetchEmployerGigDetail = cache(
   },
 );
 
+export const fetchSuggestedTalent = cache(
+  async (gigId: Id<"gigs">, limit?: number): Promise<TalentSuggestion[]> => {
+    const token = await requireConvexToken();
+    return fetchAction(api.matching.suggestTalent, { gigId, limit }, { token });
+  },
+);
+
 export const fetchEmployerMetrics = cache(
   async (): Promise<EmployerMetricsResult & Pick<GigStats, "totalGigs">> => {
     const token = await requireConvexToken();
@@ -286,6 +307,17 @@ export const fetchEmployerMetrics = cache(
   },
 );
 
+export const fetchEmployerAnalytics = cache(
+  async (days?: number): Promise<EmployerAnalytics> => {
+    const token = await requireConvexToken();
+    return await fetchQuery(
+      api.employerAnalytics.getDashboard,
+      { days },
+      { token },
+    );
+  },
+);
+
 export const preloadGigApplications = cache(
   async (args: {
     gigId: Id<"gigs">;
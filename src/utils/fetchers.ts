@@ -792,10 +792,11 @@ export async function fetchLessonWithNavigation(
     // Debug logging to understand the actual data structure
     console.log("[fetchLessonWithNavigation] Raw lesson data:", result.lesson);
 
-    let transformedLesson = transformConvexLesson(
-      result.lesson as ConvexLessonData,
-      result.quiz,
-    );
+    let transformedLesson: LessonWithNavigation = {
+      ...transformConvexLesson(result.lesson as ConvexLessonData, result.quiz),
+      isLocked: result.access.isLocked,
+      lockReason: result.access.message ?? undefined,
+    };
 
     // Resolve storage URLs if videoUrl is a storage ID
     if (transformedLesson.videoUrl && isStorageId(transformedLesson.videoUrl)) {